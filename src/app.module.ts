@@ -12,8 +12,10 @@ import { validate } from './config/validation';
 // Modules
 import { RedisModule } from './modules/redis/redis.module';
 import { ShopifyModule } from './modules/shopify/shopify.module';
+import { StorageModule } from './modules/storage/storage.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
 import { SchedulerModule } from './modules/scheduler/scheduler.module';
+import { WebhooksModule } from './modules/webhooks/webhooks.module';
 import { ApiModule } from './modules/api/api.module';
 
 @Module({
@@ -60,9 +62,11 @@ import { ApiModule } from './modules/api/api.module';
 
     // Application Modules
     RedisModule,
+    StorageModule,
     ShopifyModule,
     AnalyticsModule,
     SchedulerModule,
+    WebhooksModule,
     ApiModule,
   ],
   providers: [
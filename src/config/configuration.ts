@@ -11,6 +11,71 @@ export default registerAs('config', () => ({
     accessToken: process.env.SHOPIFY_ACCESS_TOKEN,
     apiVersion: process.env.SHOPIFY_API_VERSION || '2025-04',
     graphqlEndpoint: process.env.SHOPIFY_GRAPHQL_ENDPOINT,
+    webhookSecret: process.env.SHOPIFY_WEBHOOK_SECRET,
+    // IANA time zone days, weeks and months are counted in, e.g. "America/New_York";
+    // overrides the shop's time zone from Shopify
+    timezone: process.env.SHOPIFY_TIMEZONE || undefined,
+  },
+  stores: {
+    file: process.env.SHOPIFY_STORES_FILE,
+    defaultStoreId: process.env.DEFAULT_STORE_ID || 'default',
+  },
+  currency: {
+    reportingCurrency: (process.env.REPORTING_CURRENCY || 'USD').toUpperCase(),
+    // Units of the reporting currency per unit of each currency, e.g. "EUR:1.08,GBP:1.27"
+    exchangeRates: process.env.EXCHANGE_RATES || '',
+    // CSV of dated rates (date,currency,rate) loaded into the exchange_rates table on startup
+    ratesFile: process.env.EXCHANGE_RATES_FILE,
+    // Countries grouped into markets for the currency mix, e.g. "EU:DE|FR|NL,UK:GB"
+    markets: process.env.CURRENCY_MARKETS || '',
+  },
+  auth: {
+    enabled: process.env.AUTH_ENABLED !== 'false',
+    apiKeys: process.env.AUTH_API_KEYS || '',
+    jwtSecret: process.env.AUTH_JWT_SECRET || undefined,
+    jwtExpiresIn: parseInt(process.env.AUTH_JWT_EXPIRES_IN, 10) || 3600,
+  },
+  salesReps: {
+    attributionRules:
+      process.env.SALES_REP_ATTRIBUTION_RULES || 'customer_assignment,order_tag,customer_tag,discount_code',
+    tagPrefix: process.env.SALES_REP_TAG_PREFIX || 'rep:',
+  },
+  planning: {
+    // Replenishment terms for vendors without supplier settings
+    defaultLeadTimeDays: parseInt(process.env.REORDER_DEFAULT_LEAD_TIME_DAYS, 10) || 14,
+    defaultReviewCycleDays: parseInt(process.env.REORDER_DEFAULT_REVIEW_CYCLE_DAYS, 10) || 7,
+    defaultServiceLevel: parseFloat(process.env.REORDER_DEFAULT_SERVICE_LEVEL) || 95,
+  },
+  alerts: {
+    // Resolved alerts are kept this long, then removed by the daily cleanup
+    retentionDays: parseInt(process.env.ALERT_RETENTION_DAYS, 10) || 90,
+    // mad (median absolute deviation, robust to outliers in the baseline) or zscore
+    anomalyScoringMethod: process.env.ANOMALY_SCORING_METHOD || 'mad',
+  },
+  notifications: {
+    smtp: {
+      host: process.env.SMTP_HOST || undefined,
+      port: parseInt(process.env.SMTP_PORT, 10) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      from: process.env.SMTP_FROM || 'alerts@localhost',
+    },
+    // A notification for the same alert and event goes to a channel at most once per cooldown
+    cooldownMinutes: parseInt(process.env.NOTIFICATION_COOLDOWN_MINUTES, 10) || 60,
+    // Past this many messages an hour, a channel's notifications are held for the next digest
+    maxPerHour: parseInt(process.env.NOTIFICATION_MAX_PER_HOUR, 10) || 20,
+    timeoutMs: parseInt(process.env.NOTIFICATION_TIMEOUT_MS, 10) || 10000,
+    retentionDays: parseInt(process.env.NOTIFICATION_LOG_RETENTION_DAYS, 10) || 30,
+  },
+  reports: {
+    // Generated reports, with their HTML and PDF, are kept this long
+    retentionDays: parseInt(process.env.REPORT_RETENTION_DAYS, 10) || 90,
+  },
+  realtime: {
+    heartbeatSeconds: parseInt(process.env.REALTIME_HEARTBEAT_SECONDS, 10) || 15,
+    // Events kept per store for stream clients resuming with Last-Event-ID
+    replayBufferSize: parseInt(process.env.REALTIME_REPLAY_BUFFER_SIZE, 10) || 500,
   },
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
@@ -35,6 +100,22 @@ export default registerAs('config', () => ({
     level: process.env.LOG_LEVEL || 'info',
     filePath: process.env.LOG_FILE_PATH || './logs/app.log',
   },
+  sync: {
+    initialOrderLookbackHours: parseInt(process.env.SYNC_INITIAL_ORDER_LOOKBACK_HOURS, 10) || 24,
+    maxPagesPerRun: parseInt(process.env.SYNC_MAX_PAGES_PER_RUN, 10) || 20,
+  },
+  storage: {
+    databasePath: process.env.DATABASE_PATH || './data/analytics.db',
+    archiveAfterDays: parseInt(process.env.ANALYTICS_ARCHIVE_AFTER_DAYS, 10) || 30,
+  },
+  bulkOperations: {
+    pollIntervalMs: parseInt(process.env.BULK_OPERATION_POLL_INTERVAL_MS, 10) || 5000,
+    timeoutMs: parseInt(process.env.BULK_OPERATION_TIMEOUT_MS, 10) || 3600000,
+  },
+  webhooks: {
+    dedupTtl: parseInt(process.env.WEBHOOK_DEDUP_TTL, 10) || 172800,
+    refreshDebounceMs: parseInt(process.env.WEBHOOK_REFRESH_DEBOUNCE_MS, 10) || 2000,
+  },
   performance: {
     maxConcurrentShopifyRequests: parseInt(process.env.MAX_CONCURRENT_SHOPIFY_REQUESTS, 10) || 5,
     requestTimeout: parseInt(process.env.REQUEST_TIMEOUT, 10) || 30000,
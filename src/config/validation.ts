@@ -1,5 +1,5 @@
 import { plainToInstance } from 'class-transformer';
-import { IsEnum, IsNotEmpty, IsNumber, IsOptional, IsString, validateSync } from 'class-validator';
+import { IsEnum, IsNotEmpty, IsNumber, IsOptional, IsString, ValidateIf, validateSync } from 'class-validator';
 
 enum Environment {
   Development = 'development',
@@ -7,6 +7,11 @@ enum Environment {
   Test = 'test',
 }
 
+enum AnomalyScoringMethod {
+  Mad = 'mad',
+  ZScore = 'zscore',
+}
+
 export class EnvironmentVariables {
   @IsEnum(Environment)
   @IsOptional()
@@ -16,10 +21,13 @@ export class EnvironmentVariables {
   @IsOptional()
   PORT: number = 3000;
 
+  // Not needed when the stores are defined in SHOPIFY_STORES_FILE
+  @ValidateIf(o => !o.SHOPIFY_STORES_FILE)
   @IsString()
   @IsNotEmpty()
   SHOPIFY_SHOP_DOMAIN: string;
 
+  @ValidateIf(o => !o.SHOPIFY_STORES_FILE)
   @IsString()
   @IsNotEmpty()
   SHOPIFY_ACCESS_TOKEN: string;
@@ -28,6 +36,134 @@ export class EnvironmentVariables {
   @IsOptional()
   SHOPIFY_API_VERSION: string = '2025-04';
 
+  @IsString()
+  @IsOptional()
+  SHOPIFY_WEBHOOK_SECRET?: string;
+
+  @IsString()
+  @IsOptional()
+  SHOPIFY_TIMEZONE?: string;
+
+  @IsString()
+  @IsOptional()
+  SHOPIFY_STORES_FILE?: string;
+
+  @IsString()
+  @IsOptional()
+  DEFAULT_STORE_ID: string = 'default';
+
+  @IsString()
+  @IsOptional()
+  REPORTING_CURRENCY: string = 'USD';
+
+  @IsString()
+  @IsOptional()
+  EXCHANGE_RATES?: string;
+
+  @IsString()
+  @IsOptional()
+  EXCHANGE_RATES_FILE?: string;
+
+  @IsString()
+  @IsOptional()
+  CURRENCY_MARKETS?: string;
+
+  @IsString()
+  @IsOptional()
+  AUTH_ENABLED: string = 'true';
+
+  @IsString()
+  @IsOptional()
+  AUTH_API_KEYS?: string;
+
+  @IsString()
+  @IsOptional()
+  AUTH_JWT_SECRET?: string;
+
+  @IsNumber()
+  @IsOptional()
+  AUTH_JWT_EXPIRES_IN: number = 3600;
+
+  @IsString()
+  @IsOptional()
+  SALES_REP_ATTRIBUTION_RULES: string = 'customer_assignment,order_tag,customer_tag,discount_code';
+
+  @IsString()
+  @IsOptional()
+  SALES_REP_TAG_PREFIX: string = 'rep:';
+
+  @IsNumber()
+  @IsOptional()
+  REORDER_DEFAULT_LEAD_TIME_DAYS: number = 14;
+
+  @IsNumber()
+  @IsOptional()
+  REORDER_DEFAULT_REVIEW_CYCLE_DAYS: number = 7;
+
+  @IsNumber()
+  @IsOptional()
+  REORDER_DEFAULT_SERVICE_LEVEL: number = 95;
+
+  @IsNumber()
+  @IsOptional()
+  ALERT_RETENTION_DAYS: number = 90;
+
+  @IsEnum(AnomalyScoringMethod)
+  @IsOptional()
+  ANOMALY_SCORING_METHOD: AnomalyScoringMethod = AnomalyScoringMethod.Mad;
+
+  @IsString()
+  @IsOptional()
+  SMTP_HOST?: string;
+
+  @IsNumber()
+  @IsOptional()
+  SMTP_PORT: number = 587;
+
+  @IsString()
+  @IsOptional()
+  SMTP_SECURE: string = 'false';
+
+  @IsString()
+  @IsOptional()
+  SMTP_USER?: string;
+
+  @IsString()
+  @IsOptional()
+  SMTP_PASSWORD?: string;
+
+  @IsString()
+  @IsOptional()
+  SMTP_FROM: string = 'alerts@localhost';
+
+  @IsNumber()
+  @IsOptional()
+  NOTIFICATION_COOLDOWN_MINUTES: number = 60;
+
+  @IsNumber()
+  @IsOptional()
+  NOTIFICATION_MAX_PER_HOUR: number = 20;
+
+  @IsNumber()
+  @IsOptional()
+  NOTIFICATION_TIMEOUT_MS: number = 10000;
+
+  @IsNumber()
+  @IsOptional()
+  NOTIFICATION_LOG_RETENTION_DAYS: number = 30;
+
+  @IsNumber()
+  @IsOptional()
+  REPORT_RETENTION_DAYS: number = 90;
+
+  @IsNumber()
+  @IsOptional()
+  REALTIME_HEARTBEAT_SECONDS: number = 15;
+
+  @IsNumber()
+  @IsOptional()
+  REALTIME_REPLAY_BUFFER_SIZE: number = 500;
+
   @IsString()
   @IsOptional()
   REDIS_HOST: string = 'localhost';
@@ -80,6 +216,38 @@ export class EnvironmentVariables {
   @IsOptional()
   LOG_FILE_PATH: string = './logs/app.log';
 
+  @IsString()
+  @IsOptional()
+  DATABASE_PATH: string = './data/analytics.db';
+
+  @IsNumber()
+  @IsOptional()
+  ANALYTICS_ARCHIVE_AFTER_DAYS: number = 30;
+
+  @IsNumber()
+  @IsOptional()
+  SYNC_INITIAL_ORDER_LOOKBACK_HOURS: number = 24;
+
+  @IsNumber()
+  @IsOptional()
+  SYNC_MAX_PAGES_PER_RUN: number = 20;
+
+  @IsNumber()
+  @IsOptional()
+  BULK_OPERATION_POLL_INTERVAL_MS: number = 5000;
+
+  @IsNumber()
+  @IsOptional()
+  BULK_OPERATION_TIMEOUT_MS: number = 3600000;
+
+  @IsNumber()
+  @IsOptional()
+  WEBHOOK_DEDUP_TTL: number = 172800;
+
+  @IsNumber()
+  @IsOptional()
+  WEBHOOK_REFRESH_DEBOUNCE_MS: number = 2000;
+
   @IsNumber()
   @IsOptional()
   MAX_CONCURRENT_SHOPIFY_REQUESTS: number = 5;
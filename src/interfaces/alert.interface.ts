@@ -0,0 +1,191 @@
+import { AnomalyGranularity, AnomalyMetric } from './anomaly.interface';
+
+export const ALERT_METRICS = [
+  'inventory_quantity',
+  'days_of_cover',
+  'units_sold',
+  'net_sales',
+  'order_count',
+  'average_order_value',
+  'refund_rate',
+  'failed_sync_resources',
+  'minutes_since_last_sync',
+  'revenue_anomaly',
+  'order_count_anomaly',
+  'average_order_value_anomaly',
+  'refund_rate_anomaly',
+  'cancellation_rate_anomaly',
+] as const;
+
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+
+export const ALERT_CATEGORIES = ['inventory', 'sales', 'system', 'anomaly'] as const;
+
+export type AlertCategory = (typeof ALERT_CATEGORIES)[number];
+
+// Inventory metrics are evaluated per variant; sales, system and anomaly metrics once per store
+export const ALERT_METRIC_CATEGORIES: Record<AlertMetric, AlertCategory> = {
+  inventory_quantity: 'inventory',
+  days_of_cover: 'inventory',
+  units_sold: 'inventory',
+  net_sales: 'sales',
+  order_count: 'sales',
+  average_order_value: 'sales',
+  refund_rate: 'sales',
+  failed_sync_resources: 'system',
+  minutes_since_last_sync: 'system',
+  revenue_anomaly: 'anomaly',
+  order_count_anomaly: 'anomaly',
+  average_order_value_anomaly: 'anomaly',
+  refund_rate_anomaly: 'anomaly',
+  cancellation_rate_anomaly: 'anomaly',
+};
+
+// Anomaly metrics measure the anomaly score of the last complete hour or day of a sales metric:
+// negative for drops, positive for spikes. Their window is the baseline the score is measured against.
+export const ANOMALY_ALERT_METRICS: Partial<Record<AlertMetric, AnomalyMetric>> = {
+  revenue_anomaly: 'revenue',
+  order_count_anomaly: 'order_count',
+  average_order_value_anomaly: 'average_order_value',
+  refund_rate_anomaly: 'refund_rate',
+  cancellation_rate_anomaly: 'cancellation_rate',
+};
+
+// Metrics measured over the rule's evaluation window
+export const WINDOWED_ALERT_METRICS: AlertMetric[] = [
+  'days_of_cover',
+  'units_sold',
+  'net_sales',
+  'order_count',
+  'average_order_value',
+  'refund_rate',
+  'revenue_anomaly',
+  'order_count_anomaly',
+  'average_order_value_anomaly',
+  'refund_rate_anomaly',
+  'cancellation_rate_anomaly',
+];
+
+export const ALERT_COMPARATORS = ['lt', 'lte', 'gt', 'gte', 'eq'] as const;
+
+export type AlertComparator = (typeof ALERT_COMPARATORS)[number];
+
+// In descending order of severity
+export const ALERT_SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'] as const;
+
+export type AlertSeverity = (typeof ALERT_SEVERITIES)[number];
+
+export const ALERT_STATUSES = ['open', 'acknowledged', 'snoozed', 'resolved'] as const;
+
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+// condition_cleared: the metric no longer breaches; superseded: a more severe rule on the same
+// metric took over; manual: resolved through the API; rule_removed: the rule was disabled or deleted
+export type AlertResolution = 'condition_cleared' | 'superseded' | 'manual' | 'rule_removed';
+
+/**
+ * Narrows an inventory rule to some variants; every field set has to match
+ */
+export interface AlertScope {
+  sku?: string;
+  productId?: string;
+  productType?: string;
+  vendor?: string;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  description: string | null;
+  metric: AlertMetric;
+  category: AlertCategory;
+  scope: AlertScope;
+  comparator: AlertComparator;
+  threshold: number;
+  // Days of history windowed metrics are measured over; null for point-in-time metrics
+  windowDays: number | null;
+  // Length of the periods anomaly metrics score; null for other metrics
+  granularity: AnomalyGranularity | null;
+  severity: AlertSeverity;
+  // Notification channels the rule's alerts go to; empty to use each channel's default routing
+  channelIds: string[];
+  enabled: boolean;
+  lastEvaluatedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertRuleInput {
+  name: string;
+  description?: string | null;
+  metric: AlertMetric;
+  scope?: AlertScope;
+  comparator: AlertComparator;
+  threshold: number;
+  windowDays?: number | null;
+  granularity?: AnomalyGranularity | null;
+  severity: AlertSeverity;
+  channelIds?: string[];
+  enabled?: boolean;
+}
+
+/**
+ * What an alert is about: a variant, or the store itself for sales, system and anomaly metrics
+ */
+export interface AlertSubject {
+  type: 'variant' | 'store';
+  id: string;
+  label: string;
+  productId?: string;
+  productTitle?: string;
+  variantTitle?: string;
+  sku?: string | null;
+}
+
+export interface Alert {
+  id: string;
+  // One active alert per rule and subject; repeated breaches update it
+  dedupKey: string;
+  ruleId: string;
+  ruleName: string;
+  category: AlertCategory;
+  metric: AlertMetric;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  subject: AlertSubject;
+  value: number;
+  comparator: AlertComparator;
+  threshold: number;
+  message: string;
+  // What the last breach was measured against, e.g. an anomaly's expected value and the products
+  // and channels that contributed most; null when there is nothing to add to the message
+  details: Record<string, any> | null;
+  firstTriggeredAt: string;
+  lastTriggeredAt: string;
+  triggerCount: number;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  snoozedUntil: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolution: AlertResolution | null;
+  updatedAt: string;
+}
+
+export interface AlertFilters {
+  status?: AlertStatus | 'active';
+  severity?: AlertSeverity;
+  category?: AlertCategory;
+  ruleId?: string;
+  limit?: number;
+}
+
+export interface AlertEvaluationResult {
+  evaluatedAt: string;
+  rulesEvaluated: number;
+  alertsOpened: number;
+  alertsUpdated: number;
+  alertsResolved: number;
+  // Snoozed alerts whose snooze ran out while the condition still holds
+  alertsReopened: number;
+}
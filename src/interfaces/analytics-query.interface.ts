@@ -0,0 +1,115 @@
+import { Money } from '@shared/money';
+import { COMPARISON_TYPES, ComparisonType } from './comparison.interface';
+
+export const QUERY_MEASURES = ['revenue', 'orders', 'units', 'aov', 'customers', 'refunds'] as const;
+
+export type QueryMeasure = (typeof QUERY_MEASURES)[number];
+
+export const QUERY_TIME_DIMENSIONS = ['day', 'week', 'month'] as const;
+
+export type QueryTimeDimension = (typeof QUERY_TIME_DIMENSIONS)[number];
+
+// Dimensions of the line items; grouping or filtering by one makes the query line-level
+export const QUERY_LINE_DIMENSIONS = ['product_type', 'vendor', 'sku'] as const;
+
+export const QUERY_DIMENSIONS = [
+  ...QUERY_TIME_DIMENSIONS,
+  ...QUERY_LINE_DIMENSIONS,
+  'country',
+  'channel',
+  'rep',
+  'customer_tag',
+  'discount_code',
+] as const;
+
+export type QueryDimension = (typeof QUERY_DIMENSIONS)[number];
+
+export const QUERY_FILTER_OPERATORS = ['eq', 'neq', 'in', 'not_in'] as const;
+
+export type QueryFilterOperator = (typeof QUERY_FILTER_OPERATORS)[number];
+
+export const QUERY_COMPARISONS = COMPARISON_TYPES;
+
+export type QueryComparisonType = ComparisonType;
+
+export interface QueryFilter {
+  // Any dimension except the time grains, which the date range covers
+  dimension: QueryDimension;
+  operator: QueryFilterOperator;
+  // A single value for eq and neq, a list for in and not_in; matched case-insensitively
+  value: string | string[];
+}
+
+export interface QueryComparisonInput {
+  type: QueryComparisonType;
+  // Required for custom comparisons, in YYYY-MM-DD format
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AnalyticsQuery {
+  measures: QueryMeasure[];
+  dimensions?: QueryDimension[];
+  filters?: QueryFilter[];
+  // In YYYY-MM-DD format, both inclusive
+  startDate: string;
+  endDate: string;
+  comparisons?: QueryComparisonInput[];
+  // Defaults to the shop currency
+  currency?: string;
+  // A measure or dimension; defaults to the time grain, then the first measure descending
+  sortBy?: string;
+  sortDirection?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export type QueryValues = Partial<Record<QueryMeasure, Money | number>>;
+
+export interface QueryChange {
+  absolute: Money | number;
+  // Null when the comparison value is zero
+  percent: number | null;
+}
+
+export type QueryChanges = Partial<Record<QueryMeasure, QueryChange>>;
+
+export interface QueryRowComparison {
+  type: QueryComparisonType;
+  // Null when the comparison period has no matching row
+  values: QueryValues | null;
+  changes: QueryChanges;
+}
+
+export interface QueryRow {
+  // Key of each dimension value, e.g. the rep id or the bucket start date
+  dimensions: Partial<Record<QueryDimension, string>>;
+  labels: Partial<Record<QueryDimension, string>>;
+  values: QueryValues;
+  comparisons?: QueryRowComparison[];
+}
+
+export interface QueryPeriod {
+  start: string;
+  end: string;
+}
+
+export interface QueryComparisonResult {
+  type: QueryComparisonType;
+  period: QueryPeriod;
+  totals: QueryValues;
+  changes: QueryChanges;
+}
+
+export interface QueryResult {
+  measures: QueryMeasure[];
+  dimensions: QueryDimension[];
+  filters: QueryFilter[];
+  currency: string;
+  // Line-level queries measure the matching line items rather than whole orders
+  level: 'order' | 'line';
+  period: QueryPeriod;
+  totals: QueryValues;
+  rows: QueryRow[];
+  totalRows: number;
+  comparisons: QueryComparisonResult[];
+}
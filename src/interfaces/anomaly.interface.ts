@@ -0,0 +1,70 @@
+export const ANOMALY_METRICS = [
+  'revenue',
+  'order_count',
+  'average_order_value',
+  'refund_rate',
+  'cancellation_rate',
+] as const;
+
+export type AnomalyMetric = (typeof ANOMALY_METRICS)[number];
+
+export const ANOMALY_GRANULARITIES = ['hour', 'day'] as const;
+
+export type AnomalyGranularity = (typeof ANOMALY_GRANULARITIES)[number];
+
+// mad: distance from the median residual in robust standard deviations (1.4826 x MAD);
+// zscore: distance from the mean residual in standard deviations
+export const ANOMALY_SCORING_METHODS = ['mad', 'zscore'] as const;
+
+export type AnomalyScoringMethod = (typeof ANOMALY_SCORING_METHODS)[number];
+
+export interface AnomalyOptions {
+  metric: AnomalyMetric;
+  granularity: AnomalyGranularity;
+  // Days of history before the scored periods the seasonal baseline is fitted on
+  baselineDays: number;
+  // Number of complete periods to score, ending with the last complete one
+  periodCount: number;
+  method: AnomalyScoringMethod;
+}
+
+export interface AnomalyPeriod {
+  start: string;
+  end: string;
+  // null when the metric is undefined for the period, e.g. the AOV of a period without orders
+  actual: number | null;
+  // Baseline level adjusted for the hour of day and day of week
+  expected: number;
+  // Signed anomaly score: negative for drops, positive for spikes; null when actual is
+  score: number | null;
+}
+
+/**
+ * How much a product or sales channel moved the metric's components in a period compared
+ * with its average in the same hour of day or day of week during the baseline
+ */
+export interface AnomalyContributor {
+  id: string;
+  label: string;
+  actual: number;
+  expected: number;
+  difference: number;
+}
+
+export interface AnomalyExplanation {
+  // Revenue for revenue and AOV, orders for order counts, refunded and cancelled orders for the rates
+  measure: 'revenue' | 'orders' | 'refunded_orders' | 'cancelled_orders';
+  products: AnomalyContributor[];
+  channels: AnomalyContributor[];
+}
+
+export interface AnomalyReport extends AnomalyOptions {
+  generatedAt: string;
+  // Baseline periods with a value; scores need at least a few days' worth
+  baselineSamples: number;
+  // Scale of the baseline residuals the scores are measured in; null when the baseline is too short or flat
+  residualScale: number | null;
+  periods: AnomalyPeriod[];
+  // The last complete period and what drove it
+  latest: (AnomalyPeriod & { explanation: AnomalyExplanation }) | null;
+}
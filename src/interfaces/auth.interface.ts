@@ -0,0 +1,43 @@
+// Roles in ascending order of privilege; each role includes the ones before it
+export const AUTH_ROLES = ['viewer', 'analyst', 'admin'] as const;
+
+export type AuthRole = (typeof AUTH_ROLES)[number];
+
+export type AuthMethod = 'api_key' | 'jwt' | 'disabled';
+
+export interface AuthPrincipal {
+  id: string;
+  name: string;
+  role: AuthRole;
+  method: AuthMethod;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  role: AuthRole;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface CreatedApiKey extends ApiKeyRecord {
+  // Only returned once, when the key is created
+  apiKey: string;
+}
+
+export interface JwtPayload {
+  sub: string;
+  name: string;
+  role: AuthRole;
+  iat: number;
+  exp: number;
+}
+
+export interface IssuedToken {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  role: AuthRole;
+}
@@ -0,0 +1,32 @@
+import { Money } from '@shared/money';
+
+export const COMPARISON_TYPES = ['previous_period', 'previous_year', 'custom'] as const;
+
+export type ComparisonType = (typeof COMPARISON_TYPES)[number];
+
+export interface ComparisonPeriod {
+  // Both inclusive, in YYYY-MM-DD format
+  startDate: string;
+  endDate: string;
+}
+
+export interface MetricComparison<T = Money | number> {
+  current: T;
+  comparison: T;
+  absolute: T;
+  // Null when the comparison value is zero
+  percent: number | null;
+}
+
+/**
+ * A response's metrics side by side with the same response for the comparison period
+ */
+export interface PeriodComparison {
+  type: ComparisonType;
+  current: ComparisonPeriod;
+  previous: ComparisonPeriod;
+  // The route's data for the comparison period
+  data: any;
+  // The data's structure with every metric as a MetricComparison
+  metrics: any;
+}
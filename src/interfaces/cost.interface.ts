@@ -0,0 +1,71 @@
+import { Money } from '@shared/money';
+
+export const MARGIN_DIMENSIONS = ['order', 'product', 'product_type', 'vendor', 'customer', 'rep'] as const;
+
+export type MarginDimension = (typeof MARGIN_DIMENSIONS)[number];
+
+export type UnitCostSource = 'override' | 'shopify';
+
+/**
+ * Manual unit cost for a variant or SKU, used ahead of the cost recorded in Shopify
+ */
+export interface CostOverride {
+  id: string;
+  // Exactly one of variantId and sku is set
+  variantId: string | null;
+  sku: string | null;
+  // Decimal amount, e.g. "12.50"
+  unitCost: string;
+  currency: string;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CostOverrideInput {
+  variantId?: string | null;
+  sku?: string | null;
+  unitCost: number | string;
+  // Defaults to the shop currency
+  currency?: string;
+  notes?: string | null;
+}
+
+export interface UnitCost {
+  // In the shop currency
+  amount: Money;
+  source: UnitCostSource;
+}
+
+export interface UnitCostLookup {
+  // Unit cost of a variant, or null when neither Shopify nor an override has one
+  getUnitCost(variantId: string | undefined, sku?: string): UnitCost | null;
+}
+
+export interface MarginFigures {
+  // Line item sales after discounts and returns
+  netSales: Money;
+  // Net sales of items with a known cost, which the margin is measured against
+  netSalesWithCost: Money;
+  cogs: Money;
+  grossMargin: Money;
+  // Gross margin as a percentage of net sales with cost
+  marginPercentage: number;
+  // Share of net sales with a known cost (0-100)
+  costCoverage: number;
+  unitsSold: number;
+  unitsWithoutCost: number;
+}
+
+export interface MarginRow extends MarginFigures {
+  key: string;
+  label: string;
+}
+
+export interface MarginReport {
+  dimension: MarginDimension;
+  currency: string;
+  period: { start: string; end: string };
+  totals: MarginFigures;
+  rows: MarginRow[];
+}
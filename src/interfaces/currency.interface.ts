@@ -0,0 +1,60 @@
+import { Money } from '@shared/money';
+
+export type ExchangeRateSource = 'file' | 'api';
+
+export interface ExchangeRate {
+  // ISO 4217 currency code
+  currency: string;
+  // YYYY-MM-DD the rate applies from, until the next dated rate
+  date: string;
+  // Units of REPORTING_CURRENCY per unit of currency
+  rate: number;
+  source: ExchangeRateSource;
+  updatedAt: string;
+}
+
+export interface ExchangeRateInput {
+  currency: string;
+  date: string;
+  rate: number;
+}
+
+export interface ExchangeRateFilters {
+  currency?: string;
+  // Rates dated within [from, to] (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+}
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  errors: Array<{ line: number; message: string }>;
+}
+
+export interface PresentmentCurrencyShare {
+  currency: string;
+  orders: number;
+  // Share of the market's orders, in percent
+  orderShare: number;
+  // Order totals in the currency the customer paid in
+  presentmentAmount: Money;
+  // The same orders in the reporting currency
+  revenue: Money;
+}
+
+export interface MarketCurrencyMix {
+  market: string;
+  countries: string[];
+  orders: number;
+  revenue: Money;
+  currencies: PresentmentCurrencyShare[];
+}
+
+export interface CurrencyMixReport {
+  currency: string;
+  startDate: string;
+  endDate: string;
+  totalOrders: number;
+  totalRevenue: Money;
+  markets: MarketCurrencyMix[];
+}
@@ -0,0 +1,122 @@
+import { Money } from '@shared/money';
+import { SalesBreakdown } from './shopify.interface';
+
+export interface DateRangePeriod {
+  // Calendar dates in the store's time zone, both inclusive, in YYYY-MM-DD format
+  startDate: string;
+  endDate: string;
+  timezone: string;
+  // First and last instants of the period
+  start: string;
+  end: string;
+  daysCovered: number;
+}
+
+export interface DateRangeSalesBucket {
+  revenue: Money;
+  orders: number;
+  unitsSold: number;
+  customers: number;
+  averageOrderValue: Money;
+}
+
+export interface DateRangeSalesDay extends DateRangeSalesBucket {
+  // YYYY-MM-DD in the store's time zone
+  date: string;
+}
+
+export interface DateRangeSalesMonth extends DateRangeSalesBucket {
+  // YYYY-MM in the store's time zone
+  month: string;
+}
+
+export interface DateRangeSales {
+  // Order totals of the orders placed in the period, cancelled orders excluded
+  revenue: Money;
+  orders: number;
+  cancelledOrders: number;
+  unitsSold: number;
+  averageOrderValue: Money;
+  averageUnitsPerOrder: number;
+  breakdown: SalesBreakdown;
+  // Every day of the period, including days without orders
+  daily: DateRangeSalesDay[];
+  monthly: DateRangeSalesMonth[];
+}
+
+export interface DateRangeCustomers {
+  uniqueCustomers: number;
+  // Customers whose account was created in the period
+  newCustomers: number;
+  returningCustomers: number;
+  // Customers with more than one order in the period
+  repeatCustomers: number;
+  guestOrders: number;
+  ordersPerCustomer: number;
+  // Revenue of orders placed by customers, per customer
+  revenuePerCustomer: Money;
+}
+
+export interface InventoryMovement {
+  // Null for line items of deleted or custom products
+  variantId: string | null;
+  productId: string | null;
+  productTitle: string;
+  variantTitle: string;
+  sku: string;
+  unitsSold: number;
+  // Units refunded in the period, and those of them put back in stock
+  unitsReturned: number;
+  unitsRestocked: number;
+  // Units that left stock: sold less restocked
+  netUnits: number;
+}
+
+export interface DateRangeInventory {
+  unitsSold: number;
+  unitsReturned: number;
+  unitsRestocked: number;
+  netUnits: number;
+  variantsSold: number;
+  productsSold: number;
+  // Every variant that moved, most units sold first
+  movements: InventoryMovement[];
+}
+
+export interface DateRangeFulfillment {
+  orders: number;
+  fulfilled: number;
+  partiallyFulfilled: number;
+  unfulfilled: number;
+  // Percentage of the period's orders fully fulfilled
+  fulfillmentRate: number;
+  shipments: number;
+  // Hours from order to first fulfillment, over orders with one; null without any
+  averageHoursToFulfill: number | null;
+  medianHoursToFulfill: number | null;
+  // Percentage of fulfilled orders first fulfilled within 24 hours
+  fulfilledWithin24Hours: number;
+}
+
+export interface DateRangeAnalytics {
+  dateRange: DateRangePeriod;
+  currency: string;
+  summary: {
+    totalRevenue: Money;
+    totalOrders: number;
+    uniqueCustomers: number;
+    averageOrderValue: Money;
+    ordersAnalyzed: number;
+  };
+  sales: DateRangeSales;
+  customers: DateRangeCustomers;
+  inventory: DateRangeInventory;
+  fulfillment: DateRangeFulfillment;
+  meta: {
+    // analytics_store when the synced orders covered the period, else shopify
+    source: 'analytics_store' | 'shopify';
+    // Pages fetched from Shopify into the analytics store to complete the period
+    pagesFetched: number;
+    generatedAt: string;
+  };
+}
@@ -0,0 +1,96 @@
+export const FORECAST_MODELS = ['auto', 'holt_winters', 'croston', 'ses'] as const;
+
+export type ForecastModel = (typeof FORECAST_MODELS)[number];
+
+// Model actually fitted; holt is used when there is too little history for a seasonal fit
+export type FittedModel = 'holt_winters' | 'holt' | 'croston' | 'ses';
+
+export const FORECAST_GRANULARITIES = ['day', 'week'] as const;
+
+// Daily series use a weekly season, weekly series a yearly one
+export type ForecastGranularity = (typeof FORECAST_GRANULARITIES)[number];
+
+export const CONFIDENCE_LEVELS = [80, 90, 95] as const;
+
+export type ConfidenceLevel = (typeof CONFIDENCE_LEVELS)[number];
+
+export interface ForecastOptions {
+  model: ForecastModel;
+  granularity: ForecastGranularity;
+  // Number of periods to forecast
+  horizon: number;
+  confidence: ConfidenceLevel;
+}
+
+export interface ForecastPoint {
+  // Start of the period, YYYY-MM-DD
+  period: string;
+  expected: number;
+  lower: number;
+  upper: number;
+  // Standard deviation of the forecast error
+  stdDev: number;
+}
+
+export interface BacktestResult {
+  // Holdout periods at the end of the history
+  periods: number;
+  // Mean absolute percentage error over holdout periods with demand; null when there were none
+  mape: number | null;
+  // Total absolute error divided by total demand; null when there was no demand
+  wape: number | null;
+}
+
+export interface ModelFit {
+  model: FittedModel;
+  // Smoothing parameters chosen for the fit
+  parameters: Record<string, number>;
+  forecast: number[];
+  // Standard deviation of the one-step-ahead in-sample errors
+  residualStdDev: number;
+}
+
+export interface DemandHistorySummary {
+  periods: number;
+  totalUnits: number;
+  averagePerPeriod: number;
+  // Share of periods without demand (0-100)
+  zeroDemandShare: number;
+  // Average number of periods between periods with demand
+  averageDemandInterval: number | null;
+}
+
+export interface VariantDemandForecast {
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  variantTitle: string;
+  sku: string | null;
+  currentStock: number;
+  model: FittedModel;
+  parameters: Record<string, number>;
+  history: DemandHistorySummary;
+  forecast: ForecastPoint[];
+  total: { expected: number; lower: number; upper: number; stdDev: number };
+  backtest: BacktestResult | null;
+  // First forecast period whose cumulative expected demand exceeds current stock
+  projectedStockoutPeriod: string | null;
+  stockoutRisk: boolean;
+}
+
+export interface DemandForecastReport {
+  model: ForecastModel;
+  granularity: ForecastGranularity;
+  horizon: number;
+  confidence: ConfidenceLevel;
+  history: { start: string; end: string; periods: number };
+  forecasts: VariantDemandForecast[];
+  summary: {
+    variantsForecast: number;
+    variantsAtRisk: number;
+    // Forecast demand-weighted averages over variants with a backtest
+    weightedMape: number | null;
+    weightedWape: number | null;
+    models: Record<string, number>;
+  };
+}
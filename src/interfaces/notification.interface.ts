@@ -0,0 +1,116 @@
+import { AlertCategory, AlertSeverity } from './alert.interface';
+
+export const NOTIFICATION_CHANNEL_TYPES = ['email', 'slack', 'webhook'] as const;
+
+export type NotificationChannelType = (typeof NOTIFICATION_CHANNEL_TYPES)[number];
+
+export interface EmailChannelConfig {
+  to: string[];
+  // {{placeholders}} are replaced with the notification's fields
+  subjectTemplate?: string;
+  bodyTemplate?: string;
+}
+
+/**
+ * Slack, Mattermost or any other incoming webhook accepting a JSON { text } body
+ */
+export interface SlackChannelConfig {
+  url: string;
+  template?: string;
+}
+
+/**
+ * Generic JSON POST, signed with HMAC-SHA256 when a secret is set
+ */
+export interface WebhookChannelConfig {
+  url: string;
+  secret?: string;
+  headers?: Record<string, string>;
+}
+
+export type NotificationChannelConfig = EmailChannelConfig | SlackChannelConfig | WebhookChannelConfig;
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  config: NotificationChannelConfig;
+  // Alerts routed by default (rules without channels, health checks) need at least this severity
+  minSeverity: AlertSeverity;
+  // Categories routed by default; empty for all
+  categories: AlertCategory[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationChannelInput {
+  name: string;
+  type: NotificationChannelType;
+  config: NotificationChannelConfig;
+  minSeverity?: AlertSeverity;
+  categories?: AlertCategory[];
+  enabled?: boolean;
+}
+
+export type NotificationEventType = 'triggered' | 'reopened' | 'resolved' | 'test' | 'digest';
+
+export interface NotificationEvent {
+  // Alert dedup key or health check name; rate limiting is per key, event type and channel
+  key: string;
+  type: NotificationEventType;
+  source: 'alert' | 'health' | 'test' | 'digest';
+  severity: AlertSeverity;
+  category: AlertCategory;
+  title: string;
+  message: string;
+  alertId?: string;
+  ruleId?: string;
+  value?: number;
+  threshold?: number;
+  occurredAt: string;
+}
+
+/**
+ * A message as handed to a channel: rendered for email and chat, with the events for webhooks
+ */
+export interface NotificationMessage {
+  subject: string;
+  text: string;
+  events: NotificationEvent[];
+  digest: boolean;
+  // Template placeholders and their values; channel templates are rendered with these
+  variables: Record<string, string>;
+}
+
+export const NOTIFICATION_DELIVERY_STATUSES = ['sent', 'failed', 'suppressed', 'queued', 'digested'] as const;
+
+// sent: delivered; failed: retried by the next flush up to the attempt limit; suppressed: within the
+// cooldown of the same notification; queued: held for the next digest; digested: sent in a digest
+export type NotificationDeliveryStatus = (typeof NOTIFICATION_DELIVERY_STATUSES)[number];
+
+export interface NotificationDelivery {
+  id: string;
+  channelId: string;
+  channelName: string;
+  channelType: NotificationChannelType;
+  eventKey: string;
+  eventType: NotificationEventType;
+  severity: AlertSeverity;
+  title: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  error: string | null;
+  // Delivery of the digest a queued notification went out in
+  digestId: string | null;
+  event: NotificationEvent;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+export interface NotificationDeliveryFilters {
+  channelId?: string;
+  status?: NotificationDeliveryStatus;
+  eventKey?: string;
+  limit?: number;
+}
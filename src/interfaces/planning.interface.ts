@@ -0,0 +1,185 @@
+import { Money } from '@shared/money';
+
+/**
+ * Replenishment terms of a supplier, keyed by the Shopify product vendor
+ */
+export interface SupplierSettings {
+  id: string;
+  vendor: string;
+  // Days from placing a purchase order to the stock being available
+  leadTimeDays: number;
+  // Standard deviation of the lead time in days; 0 when it is reliable
+  leadTimeStdDevDays: number;
+  // Minimum units per purchase order line
+  minOrderQuantity: number;
+  // Units per case; line quantities are rounded up to whole cases
+  casePack: number;
+  // Days between reviews of stock levels with this supplier
+  reviewCycleDays: number;
+  // Probability (50-99.9%) of not running out before the next delivery
+  serviceLevel: number;
+  contactEmail: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SupplierSettingsInput {
+  vendor: string;
+  leadTimeDays?: number;
+  leadTimeStdDevDays?: number;
+  minOrderQuantity?: number;
+  casePack?: number;
+  reviewCycleDays?: number;
+  serviceLevel?: number;
+  contactEmail?: string | null;
+  notes?: string | null;
+}
+
+// Settings applied to a vendor; the defaults fill in vendors without stored settings
+export type ReplenishmentTerms = Pick<
+  SupplierSettings,
+  'leadTimeDays' | 'leadTimeStdDevDays' | 'minOrderQuantity' | 'casePack' | 'reviewCycleDays' | 'serviceLevel'
+> & { vendor: string; configured: boolean };
+
+export interface VariantReorderPlan {
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  variantTitle: string;
+  sku: string | null;
+  vendor: string;
+  currentStock: number;
+  // Forecast units per day over the lead time plus review cycle
+  averageDailyDemand: number;
+  leadTimeDemand: number;
+  // Forecast demand over the lead time plus review cycle
+  protectionPeriodDemand: number;
+  safetyStock: number;
+  reorderPoint: number;
+  daysOfCover: number | null;
+  shouldReorder: boolean;
+  // Units to order before minimum order quantity and case pack rounding
+  suggestedQuantity: number;
+  orderQuantity: number;
+  urgencyLevel: 'Low' | 'Medium' | 'High' | 'Critical';
+  reasoning: string;
+  terms: ReplenishmentTerms;
+}
+
+export interface PurchaseOrderLine {
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  variantTitle: string;
+  sku: string | null;
+  quantity: number;
+  cases: number;
+  unitCost: Money | null;
+  lineTotal: Money | null;
+}
+
+export interface PurchaseOrderDraft {
+  vendor: string;
+  contactEmail: string | null;
+  currency: string;
+  expectedDeliveryDate: string;
+  terms: ReplenishmentTerms;
+  lines: PurchaseOrderLine[];
+  totalUnits: number;
+  // Total of the lines with a known unit cost
+  totalCost: Money;
+  linesWithoutCost: number;
+}
+
+export interface ReorderPlan {
+  generatedAt: string;
+  currency: string;
+  variants: VariantReorderPlan[];
+  purchaseOrders: PurchaseOrderDraft[];
+  summary: {
+    variantsPlanned: number;
+    variantsToReorder: number;
+    purchaseOrders: number;
+    totalUnits: number;
+    totalCost: Money;
+    vendorsWithoutSettings: string[];
+  };
+}
+
+/**
+ * Stock thresholds of a Shopify location, used for low stock alerts and transfer suggestions
+ */
+export interface LocationSettings {
+  locationId: string;
+  locationName: string;
+  // Available units at or below which the location is critically low
+  criticalStockThreshold: number;
+  // Available units at or below which the location is low on stock
+  lowStockThreshold: number;
+  // Units a low location is restocked to, and a transferring location keeps
+  targetStock: number;
+  // Available units above which the location can transfer stock out
+  overstockThreshold: number;
+  // Whether the location sends and receives suggested transfers
+  allowTransfers: boolean;
+  // False when the defaults apply because nothing is stored for the location
+  configured: boolean;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export type LocationSettingsInput = Partial<
+  Pick<
+    LocationSettings,
+    'criticalStockThreshold' | 'lowStockThreshold' | 'targetStock' | 'overstockThreshold' | 'allowTransfers'
+  >
+>;
+
+export interface LocationStockSummary {
+  locationId: string;
+  locationName: string;
+  variantsStocked: number;
+  availableUnits: number;
+  onHandUnits: number;
+  incomingUnits: number;
+  lowStockVariants: number;
+  outOfStockVariants: number;
+  overstockedVariants: number;
+  settings: LocationSettings;
+}
+
+export interface LocationLowStockAlert {
+  locationId: string;
+  locationName: string;
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  variantTitle: string;
+  sku: string | null;
+  available: number;
+  incoming: number;
+  lowStockThreshold: number;
+  // Units needed to reach the target stock of the location
+  shortfall: number;
+  // Units other locations hold above their target stock
+  availableElsewhere: number;
+  urgencyLevel: 'Medium' | 'High' | 'Critical';
+}
+
+export interface TransferSuggestion {
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  variantTitle: string;
+  sku: string | null;
+  fromLocationId: string;
+  fromLocationName: string;
+  toLocationId: string;
+  toLocationName: string;
+  quantity: number;
+  fromAvailable: number;
+  toAvailable: number;
+  urgencyLevel: 'Medium' | 'High' | 'Critical';
+  reasoning: string;
+}
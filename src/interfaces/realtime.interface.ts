@@ -0,0 +1,30 @@
+export const REALTIME_CHANNELS = ['orders', 'revenue', 'alerts', 'sync'] as const;
+
+// orders: new orders as they are stored; revenue: changes to the real-time metrics;
+// alerts: alerts triggered, reopened, resolved and handled; sync: Shopify sync runs starting and finishing
+export type RealtimeChannel = (typeof REALTIME_CHANNELS)[number];
+
+/**
+ * An event pushed to stream subscribers. Ids are "<epoch>-<sequence>": the epoch changes when
+ * the server restarts, and within an epoch later events have higher sequence numbers.
+ */
+export interface RealtimeEvent {
+  id: string;
+  storeId: string;
+  channel: RealtimeChannel;
+  // e.g. order.created, metrics.updated, alert.triggered, sync.completed
+  type: string;
+  data: Record<string, any>;
+  occurredAt: string;
+}
+
+export interface RealtimeStatus {
+  storeId: string;
+  subscribers: number;
+  // Id of the last event published to the store; resuming from it replays nothing
+  lastEventId: string;
+  // Events kept for subscribers resuming with Last-Event-ID
+  bufferedEvents: number;
+  oldestBufferedEventId: string | null;
+  heartbeatSeconds: number;
+}
@@ -0,0 +1,106 @@
+export const REPORT_SECTIONS = ['summary', 'ytd', 'top_sellers', 'low_stock', 'rep_leaderboard'] as const;
+
+// summary: sales of the report period against the period before; ytd: year to date by month;
+// top_sellers: best-selling products of the period; low_stock: unresolved inventory alerts;
+// rep_leaderboard: sales credited to reps in the period
+export type ReportSectionKey = (typeof REPORT_SECTIONS)[number];
+
+export const REPORT_STATUSES = ['generated', 'sent', 'failed'] as const;
+
+// generated: rendered without recipients to send it to
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+export const REPORT_FORMATS = ['html', 'pdf'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  // Five-field cron expression, evaluated in the schedule's time zone
+  cron: string;
+  // IANA time zone, e.g. Europe/Berlin
+  timezone: string;
+  recipients: string[];
+  sections: ReportSectionKey[];
+  // Complete days, in the store's time zone, before the run the period sections cover
+  periodDays: number;
+  // Attach the report as a PDF to the HTML email
+  attachPdf: boolean;
+  enabled: boolean;
+  lastRunAt: string | null;
+  lastStatus: ReportStatus | null;
+  // When the schedule runs next; null when disabled
+  nextRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportScheduleInput {
+  name: string;
+  cron: string;
+  timezone?: string;
+  recipients: string[];
+  sections: ReportSectionKey[];
+  periodDays?: number;
+  attachPdf?: boolean;
+  enabled?: boolean;
+}
+
+export interface ReportRequest {
+  name?: string;
+  sections: ReportSectionKey[];
+  periodDays?: number;
+}
+
+/**
+ * A report generated by a schedule or on request. The rendered HTML and PDF are kept
+ * alongside and downloaded separately.
+ */
+export interface GeneratedReport {
+  id: string;
+  // null for reports generated on request
+  scheduleId: string | null;
+  name: string;
+  sections: ReportSectionKey[];
+  periodStart: string;
+  periodEnd: string;
+  recipients: string[];
+  status: ReportStatus;
+  error: string | null;
+  pdfBytes: number;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+export interface ReportMetric {
+  label: string;
+  value: string;
+  // Change against the previous period, e.g. "+12.5%"; null when there is nothing to compare with
+  change?: string | null;
+}
+
+/**
+ * A report section ready to render: headline metrics and/or a table
+ */
+export interface ReportSectionContent {
+  key: ReportSectionKey;
+  title: string;
+  description: string;
+  metrics: ReportMetric[];
+  table: { columns: string[]; rows: string[][] } | null;
+  // Shown instead of an empty table
+  emptyMessage: string;
+}
+
+export interface ReportDocument {
+  title: string;
+  storeName: string;
+  currency: string;
+  // IANA time zone the period's days are counted in
+  timezone: string;
+  periodStart: string;
+  periodEnd: string;
+  generatedAt: string;
+  sections: ReportSectionContent[];
+}
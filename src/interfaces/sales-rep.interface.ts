@@ -0,0 +1,81 @@
+import { ShopifyOrder } from './shopify.interface';
+
+export const ATTRIBUTION_RULE_TYPES = [
+  'customer_assignment',
+  'staff_member',
+  'discount_code',
+  'order_tag',
+  'customer_tag',
+] as const;
+
+export type AttributionRuleType = (typeof ATTRIBUTION_RULE_TYPES)[number];
+
+export interface SalesRep {
+  // Slug used in rep tags and rep targets (e.g. "jane_doe")
+  id: string;
+  displayName: string;
+  email: string | null;
+  team: string | null;
+  region: string | null;
+  startDate: string | null;
+  // Shopify staff member credited by the staff_member rule
+  staffMemberId: string | null;
+  // Discount codes credited by the discount_code rule
+  discountCodes: string[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SalesRepInput {
+  id: string;
+  displayName: string;
+  email?: string | null;
+  team?: string | null;
+  region?: string | null;
+  startDate?: string | null;
+  staffMemberId?: string | null;
+  discountCodes?: string[];
+  active?: boolean;
+}
+
+export interface SalesRepFilters {
+  active?: boolean;
+  team?: string;
+  region?: string;
+}
+
+export interface CustomerAssignment {
+  customerId: string;
+  repId: string;
+  // Fraction of the customer's sales credited to the rep (0-1)
+  share: number;
+  createdAt: string;
+}
+
+export interface CustomerAssignmentInput {
+  customerId: string;
+  // Shares are percentages; omit them to split evenly
+  reps: Array<{ repId: string; share?: number }>;
+}
+
+export interface RepCredit {
+  repId: string;
+  // Fraction of the order credited to the rep (0-1)
+  share: number;
+  rule: AttributionRuleType | 'unassigned';
+}
+
+export interface AttributionSettings {
+  rules: AttributionRuleType[];
+  tagPrefix: string;
+}
+
+export interface RepAttributor {
+  reps: Map<string, SalesRep>;
+  // Credit an order to one or more reps; shares sum to 1
+  attribute(order: ShopifyOrder): RepCredit[];
+  // Customers assigned to a rep
+  getAssignedCustomers(repId: string): string[];
+  getRepName(repId: string): string;
+}
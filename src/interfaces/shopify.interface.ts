@@ -1,16 +1,10 @@
+import { Money } from '@shared/money';
+
 // Base Shopify Types
 export interface ShopifyResponse<T> {
   data: T;
   extensions?: {
-    cost: {
-      requestedQueryCost: number;
-      actualQueryCost: number;
-      throttleStatus: {
-        maximumAvailable: number;
-        currentlyAvailable: number;
-        restoreRate: number;
-      };
-    };
+    cost: ShopifyQueryCost;
   };
   errors?: Array<{
     message: string;
@@ -26,6 +20,16 @@ export interface ShopifyResponse<T> {
   }>;
 }
 
+export interface ShopifyQueryCost {
+  requestedQueryCost: number;
+  actualQueryCost: number;
+  throttleStatus: {
+    maximumAvailable: number;
+    currentlyAvailable: number;
+    restoreRate: number;
+  };
+}
+
 export interface PageInfo {
   hasNextPage: boolean;
   hasPreviousPage: boolean;
@@ -76,8 +80,15 @@ export interface ShopifyOrder {
   displayFinancialStatus: string;
   tags: string[];
   note?: string;
+  sourceName?: string;
+  discountCodes?: string[];
+  // Only requested when the staff_member attribution rule is enabled
+  staffMember?: StaffMember;
   displayFulfillmentStatus: string;
   fulfillments: Fulfillment[];
+  totalRefundedSet?: MoneyBag;
+  refunds?: Refund[];
+  returns?: Connection<OrderReturn>;
 }
 
 export interface LineItem {
@@ -91,6 +102,54 @@ export interface LineItem {
   totalDiscountSet: MoneyBag;
 }
 
+export interface Refund {
+  id: string;
+  createdAt: string;
+  note?: string;
+  totalRefundedSet: MoneyBag;
+  refundLineItems?: Connection<RefundLineItem>;
+  transactions?: Connection<OrderTransaction>;
+}
+
+export interface RefundLineItem {
+  id?: string;
+  quantity: number;
+  // NO_RESTOCK, CANCEL, RETURN or LEGACY_RESTOCK
+  restockType: string;
+  restocked: boolean;
+  lineItem?: { id: string };
+  // Unit price of the refunded item before discounts
+  priceSet: MoneyBag;
+  // Refunded amount for the items after discounts, before tax
+  subtotalSet: MoneyBag;
+  totalTaxSet: MoneyBag;
+}
+
+export interface OrderTransaction {
+  id: string;
+  // SALE, CAPTURE, AUTHORIZATION, REFUND, VOID, ...
+  kind: string;
+  // SUCCESS, FAILURE, PENDING, ERROR, ...
+  status: string;
+  gateway?: string;
+  processedAt?: string;
+  amountSet: MoneyBag;
+}
+
+export interface OrderReturn {
+  id: string;
+  name: string;
+  // REQUESTED, OPEN, CLOSED, DECLINED or CANCELED
+  status: string;
+  totalQuantity: number;
+}
+
+export interface StaffMember {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
 export interface Fulfillment {
   id: string;
   status: string;
@@ -138,9 +197,29 @@ export interface ProductVariant {
   inventoryItem: {
     id: string;
     tracked: boolean;
+    // Cost per unit recorded in Shopify, when the merchant entered one
+    unitCost?: MoneyV2 | null;
+    // Stock per location; inventoryQuantity is the available total across them
+    inventoryLevels?: Connection<InventoryLevel>;
   };
 }
 
+export interface InventoryLevel {
+  id: string;
+  location: {
+    id: string;
+    name: string;
+  };
+  // Named quantities such as available, on_hand, committed and incoming
+  quantities: InventoryQuantity[];
+  updatedAt?: string;
+}
+
+export interface InventoryQuantity {
+  name: string;
+  quantity: number;
+}
+
 // Customer Types
 export interface ShopifyCustomer {
   id: string;
@@ -166,6 +245,7 @@ export interface Address {
   city?: string;
   province?: string;
   country?: string;
+  countryCodeV2?: string;
   zip?: string;
   phone?: string;
   name?: string;
@@ -185,12 +265,40 @@ export interface CustomersQueryResponse {
   customers: Connection<ShopifyCustomer>;
 }
 
+export interface InventoryItemLevelsQueryResponse {
+  inventoryItem: {
+    id: string;
+    inventoryLevels: Connection<InventoryLevel>;
+  } | null;
+}
+
+export interface LocationsQueryResponse {
+  locations: Connection<{ id: string; name: string }>;
+}
+
+export interface LocationInventoryLevelsQueryResponse {
+  location: {
+    id: string;
+    inventoryLevels: Connection<InventoryLevel & { item: { id: string } }>;
+  } | null;
+}
+
+export interface ShopQueryResponse {
+  shop: {
+    name: string;
+    // IANA time zone set in the shop's settings, e.g. "America/New_York"
+    ianaTimezone: string;
+    currencyCode: string;
+  };
+}
+
 // Analytics Types
+// Monetary amounts are Money values, serialised as { amount: "12.34", currencyCode }
 export interface DashboardSummary {
-  totalSales: number;
+  totalSales: Money;
   totalOrders: number;
   totalCustomers: number;
-  averageOrderValue: number;
+  averageOrderValue: Money;
   conversionRate: number;
   topSellingProducts: TopSellingProduct[];
   recentOrders: ShopifyOrder[];
@@ -198,9 +306,33 @@ export interface DashboardSummary {
   salesTrend: SalesTrendData[];
   customerMetrics: CustomerMetrics;
   inventoryMetrics: InventoryMetrics;
+  salesBreakdown: SalesBreakdown;
+  // Currency of the monetary amounts
+  currency?: string;
   lastUpdated: string;
 }
 
+/**
+ * Sales accounted as in Shopify's sales reports. Discounts and returns are negative;
+ * net sales = gross sales + discounts + returns and total sales = net sales + shipping + taxes.
+ * Sales count on the order date, returns and refunded shipping and tax on the refund date.
+ */
+export interface SalesBreakdown {
+  grossSales: Money;
+  discounts: Money;
+  returns: Money;
+  netSales: Money;
+  shipping: Money;
+  taxes: Money;
+  totalSales: Money;
+  // Money returned to customers by refund transactions
+  refunded: Money;
+  ordersRefunded: number;
+  unitsReturned: number;
+  unitsRestocked: number;
+  returnRequests: number;
+}
+
 export interface TopSellingProduct {
   productId: string;
   productTitle: string;
@@ -208,8 +340,8 @@ export interface TopSellingProduct {
   variantTitle: string;
   sku: string;
   totalQuantitySold: number;
-  totalRevenue: number;
-  averagePrice: number;
+  totalRevenue: Money;
+  averagePrice: Money;
   productType: string;
   vendor: string;
 }
@@ -227,7 +359,7 @@ export interface LowStockProduct {
 
 export interface SalesTrendData {
   date: string;
-  sales: number;
+  sales: Money;
   orders: number;
   customers: number;
 }
@@ -236,7 +368,7 @@ export interface CustomerMetrics {
   newCustomers: number;
   returningCustomers: number;
   customerRetentionRate: number;
-  averageCustomerLifetimeValue: number;
+  averageCustomerLifetimeValue: Money;
   topCustomers: TopCustomer[];
 }
 
@@ -244,10 +376,10 @@ export interface TopCustomer {
   customerId: string;
   customerName: string;
   email: string;
-  totalSpent: number;
+  totalSpent: Money;
   orderCount: number;
   lastOrderDate: string;
-  averageOrderValue: number;
+  averageOrderValue: Money;
 }
 
 export interface InventoryMetrics {
@@ -255,7 +387,7 @@ export interface InventoryMetrics {
   totalVariants: number;
   outOfStockProducts: number;
   lowStockProducts: number;
-  totalInventoryValue: number;
+  totalInventoryValue: Money;
   inventoryTurnoverRate: number;
 }
 
@@ -263,14 +395,29 @@ export interface InventoryMetrics {
 export interface SalesRepPerformance {
   repId: string;
   repName: string;
-  totalSales: number;
+  email: string | null;
+  team: string | null;
+  region: string | null;
+  // Sales credited to the rep; split-credit orders count at the rep's share
+  totalSales: Money;
+  // Orders with any credit to the rep
   orderCount: number;
-  averageOrderValue: number;
-  conversionRate: number;
+  // Orders weighted by the rep's share of each
+  creditedOrders: number;
+  averageOrderValue: Money;
+  // Percentage of assigned customers who ordered in the period; null when the rep has no assigned customers
+  conversionRate: number | null;
+  assignedCustomerCount: number;
+  convertedCustomerCount: number;
   customerCount: number;
+  // Credited sales by the attribution rule that matched
+  salesByRule: Record<string, Money>;
   targetVsActual: {
-    target: number;
-    actual: number;
+    // Month the target and actual cover (YYYY-MM)
+    period: string;
+    hasTarget: boolean;
+    target: Money;
+    actual: Money;
     percentage: number;
   };
 }
@@ -278,35 +425,41 @@ export interface SalesRepPerformance {
 export interface MonthlyTargetVsActual {
   month: string;
   year: number;
-  targetSales: number;
-  actualSales: number;
-  variance: number;
+  targetSales: Money;
+  actualSales: Money;
+  variance: Money;
   variancePercentage: number;
   onTrack: boolean;
+  // Stored target period the month's target was taken from; null when no target is set
+  targetPeriod: string | null;
 }
 
 export interface YearToDateReport {
   year: number;
-  totalSales: number;
+  totalSales: Money;
   totalOrders: number;
   totalCustomers: number;
   monthlyBreakdown: MonthlyBreakdown[];
   quarterlyBreakdown: QuarterlyBreakdown[];
   growthRate: number;
-  projectedYearEnd: number;
+  projectedYearEnd: Money;
+  salesBreakdown: SalesBreakdown;
+  // Currency of the monetary amounts
+  currency?: string;
 }
 
 export interface MonthlyBreakdown {
   month: string;
-  sales: number;
+  sales: Money;
   orders: number;
   customers: number;
   growthRateFromPreviousMonth: number;
+  salesBreakdown: SalesBreakdown;
 }
 
 export interface QuarterlyBreakdown {
   quarter: string;
-  sales: number;
+  sales: Money;
   orders: number;
   customers: number;
   growthRateFromPreviousQuarter: number;
@@ -317,11 +470,16 @@ export interface CustomerProfitabilityAnalysis {
   customerName: string;
   email: string;
   registrationDate: string;
-  totalSpent: number;
+  totalSpent: Money;
   orderCount: number;
-  averageOrderValue: number;
-  lifetimeValue: number;
-  profitMargin: number;
+  averageOrderValue: Money;
+  lifetimeValue: Money;
+  // Cost of goods sold and gross margin of the customer's orders in the analysed window
+  cogs: Money;
+  grossMargin: Money;
+  marginPercentage: number;
+  // Share of the customer's net sales with a known unit cost (0-100)
+  costCoverage: number;
   lastPurchaseDate: string;
   daysSinceLastPurchase: number;
   purchaseFrequency: number;
@@ -344,14 +502,14 @@ export interface PurchaseRecord {
   orderId: string;
   orderName: string;
   date: string;
-  amount: number;
+  amount: Money;
   itemCount: number;
   items: LineItem[];
 }
 
 export interface SeasonalTrend {
   month: string;
-  averageSpend: number;
+  averageSpend: Money;
   orderCount: number;
   trend: 'Increasing' | 'Decreasing' | 'Stable';
 }
@@ -421,6 +579,8 @@ export interface PaginationOptions {
   after?: string;
   last?: number;
   before?: string;
+  sortKey?: string;
+  reverse?: boolean;
 }
 
 export interface QueryFilters {
@@ -433,6 +593,110 @@ export interface QueryFilters {
   displayFulfillmentStatus?: string;
 }
 
+// Bulk Operation Types
+export type BulkOperationStatus = 'CREATED' | 'RUNNING' | 'COMPLETED' | 'CANCELING' | 'CANCELED' | 'FAILED' | 'EXPIRED';
+
+export interface BulkOperation {
+  id: string;
+  status: BulkOperationStatus;
+  errorCode?: string;
+  createdAt: string;
+  completedAt?: string;
+  objectCount: string;
+  fileSize?: string;
+  url?: string;
+  partialDataUrl?: string;
+}
+
+export interface BulkOperationRunQueryResponse {
+  bulkOperationRunQuery: {
+    bulkOperation: BulkOperation;
+    userErrors: Array<{ field?: string[]; message: string }>;
+  };
+}
+
+export interface CurrentBulkOperationResponse {
+  currentBulkOperation: BulkOperation | null;
+}
+
+export interface BulkExportProgress {
+  bulkOperationId: string;
+  status: 'running' | 'downloading';
+  objectCount: number;
+  recordsImported: number;
+}
+
+export type BackfillResource = 'orders' | 'products' | 'customers';
+
+export interface BackfillResourceProgress {
+  resource: BackfillResource;
+  status: 'pending' | 'running' | 'downloading' | 'completed' | 'failed';
+  bulkOperationId?: string;
+  objectCount: number;
+  recordsImported: number;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface BackfillProgress {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  completedAt?: string;
+  createdAtMin?: string;
+  resources: BackfillResourceProgress[];
+}
+
+export interface ShopifyAPIUsageStats {
+  lastQueryCost: number;
+  lastRequestedQueryCost: number;
+  availableCredits: number;
+  maxCredits: number;
+  restoreRate: number;
+  reportedByShopify: boolean;
+  activeRequests: number;
+  queuedRequests: number;
+  maxConcurrentRequests: number;
+  totalQueries: number;
+  totalQueryCost: number;
+  averageQueryCost: number;
+  averageWaitMs: number;
+  throttledCount: number;
+  lastUpdated: string;
+  timestamp: string;
+}
+
+// Incremental Sync Types
+export type SyncResource = 'orders' | 'products' | 'customers';
+
+export type SyncRunStatus = 'never' | 'running' | 'partial' | 'completed' | 'failed';
+
+export interface SyncResourceState {
+  resource: SyncResource;
+  watermark: string | null;
+  cursor: string | null;
+  cursorWatermark: string | null;
+  pendingWatermark: string | null;
+  lastStatus: SyncRunStatus;
+  lastError: string | null;
+  lastStartedAt: string | null;
+  lastCompletedAt: string | null;
+  lastRunRecords: number;
+  totalRecords: number;
+  updatedAt: string;
+}
+
+export interface IncrementalSyncResult {
+  resource: SyncResource;
+  recordsFetched: number;
+  pagesFetched: number;
+  complete: boolean;
+  resumedFromCursor: boolean;
+  watermark: string | null;
+  durationMs: number;
+}
+
 // Error Types
 export interface ShopifyError {
   message: string;
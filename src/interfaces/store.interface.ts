@@ -0,0 +1,63 @@
+import { Money } from '@shared/money';
+
+export interface StoreConfig {
+  // Slug used in the X-Store-Id header, cache keys and database file names
+  id: string;
+  name: string;
+  shopDomain: string;
+  accessToken: string;
+  apiVersion: string;
+  graphqlEndpoint: string;
+  webhookSecret?: string;
+  // Shop currency, used when an order has no currency code
+  currency?: string;
+  // IANA time zone the store's days, weeks and months are counted in; without it the
+  // shop's time zone from Shopify is used
+  timezone?: string;
+  syncCron: string;
+  databasePath: string;
+}
+
+// Store details safe to return from the API (no credentials)
+export interface StoreSummary {
+  id: string;
+  name: string;
+  shopDomain: string;
+  apiVersion: string;
+  currency: string | null;
+  // The time zone in use and where it came from: configured, the shop's, or the UTC fallback
+  timezone: string;
+  timezoneSource: 'config' | 'shopify' | 'default';
+  syncCron: string;
+  isDefault: boolean;
+}
+
+export interface ConsolidatedPeriodRevenue {
+  revenue: Money;
+  orders: number;
+}
+
+export interface ConsolidatedStoreRevenue {
+  storeId: string;
+  storeName: string;
+  // Revenue in each currency the store's orders were taken in, unconverted
+  revenueByCurrency: Record<string, Money>;
+  today: ConsolidatedPeriodRevenue;
+  last7Days: ConsolidatedPeriodRevenue;
+  monthToDate: ConsolidatedPeriodRevenue;
+  yearToDate: ConsolidatedPeriodRevenue;
+  error?: string;
+}
+
+export interface ConsolidatedRevenueView {
+  currency: string;
+  stores: ConsolidatedStoreRevenue[];
+  totals: {
+    today: ConsolidatedPeriodRevenue;
+    last7Days: ConsolidatedPeriodRevenue;
+    monthToDate: ConsolidatedPeriodRevenue;
+    yearToDate: ConsolidatedPeriodRevenue;
+  };
+  // Currencies without an exchange rate; their revenue is left out of the totals
+  unconvertedCurrencies: string[];
+}
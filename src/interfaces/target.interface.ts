@@ -0,0 +1,55 @@
+import { Money } from '@shared/money';
+
+export const TARGET_SCOPES = ['company', 'rep', 'product_type', 'channel'] as const;
+
+export type TargetScope = (typeof TARGET_SCOPES)[number];
+
+export type TargetPeriodType = 'month' | 'quarter' | 'year';
+
+export interface SalesTarget {
+  id: string;
+  scope: TargetScope;
+  // Rep id, product type or channel; null for company-wide targets
+  scopeValue: string | null;
+  // YYYY-MM, YYYY-Qn or YYYY
+  period: string;
+  periodType: TargetPeriodType;
+  periodStart: string;
+  periodEnd: string;
+  // Exact decimal amount in the shop currency, e.g. "150000.00"
+  amount: string;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SalesTargetInput {
+  scope: TargetScope;
+  scopeValue?: string | null;
+  period: string;
+  // Decimal amount in the shop currency, as a string or a number
+  amount: string | number;
+  notes?: string | null;
+}
+
+export interface SalesTargetFilters {
+  scope?: TargetScope;
+  scopeValue?: string;
+  periodType?: TargetPeriodType;
+  // Targets overlapping [from, to] (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+}
+
+export interface ResolvedTarget {
+  amount: Money;
+  // The stored target the amount was derived from
+  period: string;
+  periodType: TargetPeriodType;
+  prorated: boolean;
+}
+
+export interface TargetImportResult {
+  imported: number;
+  errors: Array<{ line: number; message: string }>;
+}
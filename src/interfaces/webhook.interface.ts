@@ -0,0 +1,201 @@
+// Supported Shopify webhook topics
+export const SUPPORTED_WEBHOOK_TOPICS = [
+  'orders/create',
+  'orders/updated',
+  'orders/cancelled',
+  'products/update',
+  'inventory_levels/update',
+  'customers/update',
+] as const;
+
+export type WebhookTopic = (typeof SUPPORTED_WEBHOOK_TOPICS)[number];
+
+export interface WebhookHeaders {
+  topic: string;
+  hmac: string;
+  webhookId: string;
+  shopDomain?: string;
+  apiVersion?: string;
+}
+
+export interface WebhookProcessingResult {
+  webhookId: string;
+  topic: string;
+  status: 'processed' | 'duplicate' | 'ignored';
+  message?: string;
+}
+
+// REST Admin API payload shapes delivered by webhooks (snake_case)
+export interface RestMoney {
+  amount: string;
+  currency_code: string;
+}
+
+export interface RestMoneySet {
+  shop_money: RestMoney;
+  presentment_money: RestMoney;
+}
+
+export interface RestAddress {
+  id?: number;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  province?: string;
+  country?: string;
+  country_code?: string;
+  zip?: string;
+  phone?: string;
+  name?: string;
+  company?: string;
+}
+
+export interface RestCustomerPayload {
+  id: number;
+  admin_graphql_api_id: string;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+  created_at: string;
+  updated_at: string;
+  orders_count?: number;
+  total_spent?: string;
+  currency?: string;
+  tags?: string;
+  note?: string;
+  addresses?: RestAddress[];
+}
+
+export interface RestLineItemPayload {
+  id: number;
+  admin_graphql_api_id: string;
+  title: string;
+  quantity: number;
+  sku?: string;
+  variant_id?: number;
+  variant_title?: string;
+  product_id?: number;
+  vendor?: string;
+  price_set?: RestMoneySet;
+  total_discount_set?: RestMoneySet;
+}
+
+export interface RestFulfillmentPayload {
+  id: number;
+  admin_graphql_api_id?: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  tracking_company?: string;
+  tracking_numbers?: string[];
+  tracking_urls?: string[];
+}
+
+export interface RestRefundLineItemPayload {
+  id: number;
+  quantity: number;
+  line_item_id: number;
+  // no_restock, cancel, return or legacy_restock
+  restock_type?: string;
+  subtotal_set?: RestMoneySet;
+  total_tax_set?: RestMoneySet;
+  line_item?: { price_set?: RestMoneySet };
+}
+
+export interface RestTransactionPayload {
+  id: number;
+  admin_graphql_api_id?: string;
+  kind: string;
+  status: string;
+  amount?: string;
+  currency?: string;
+  gateway?: string;
+  processed_at?: string;
+}
+
+export interface RestOrderAdjustmentPayload {
+  id: number;
+  // shipping_refund or refund_discrepancy
+  kind: string;
+  amount?: string;
+  tax_amount?: string;
+  amount_set?: RestMoneySet;
+}
+
+export interface RestRefundPayload {
+  id: number;
+  admin_graphql_api_id?: string;
+  created_at: string;
+  note?: string;
+  refund_line_items?: RestRefundLineItemPayload[];
+  transactions?: RestTransactionPayload[];
+  order_adjustments?: RestOrderAdjustmentPayload[];
+}
+
+export interface RestOrderPayload {
+  id: number;
+  admin_graphql_api_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  processed_at?: string;
+  closed_at?: string;
+  cancelled_at?: string;
+  cancel_reason?: string;
+  total_price_set: RestMoneySet;
+  subtotal_price_set?: RestMoneySet;
+  total_tax_set?: RestMoneySet;
+  total_discounts_set?: RestMoneySet;
+  total_shipping_price_set?: RestMoneySet;
+  financial_status?: string;
+  fulfillment_status?: string | null;
+  tags?: string;
+  note?: string;
+  source_name?: string;
+  discount_codes?: Array<{ code: string; amount?: string; type?: string }>;
+  // Staff member who created the order, if any
+  user_id?: number | null;
+  line_items?: RestLineItemPayload[];
+  customer?: RestCustomerPayload;
+  billing_address?: RestAddress;
+  shipping_address?: RestAddress;
+  fulfillments?: RestFulfillmentPayload[];
+  refunds?: RestRefundPayload[];
+}
+
+export interface RestVariantPayload {
+  id: number;
+  admin_graphql_api_id: string;
+  title: string;
+  sku?: string;
+  price: string;
+  compare_at_price?: string;
+  inventory_quantity?: number;
+  inventory_item_id?: number;
+  inventory_management?: string | null;
+}
+
+export interface RestProductPayload {
+  id: number;
+  admin_graphql_api_id: string;
+  title: string;
+  handle: string;
+  body_html?: string;
+  product_type?: string;
+  vendor?: string;
+  tags?: string;
+  status?: string;
+  created_at: string;
+  updated_at: string;
+  published_at?: string;
+  variants?: RestVariantPayload[];
+}
+
+export interface RestInventoryLevelPayload {
+  inventory_item_id: number;
+  location_id: number;
+  available: number | null;
+  updated_at: string;
+  admin_graphql_api_id?: string;
+}
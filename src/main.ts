@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { ConfigService } from '@nestjs/config';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { WinstonModule } from 'nest-winston';
 import * as winston from 'winston';
 import * as compression from 'compression';
@@ -37,7 +38,9 @@ async function bootstrap() {
   });
 
   // Create NestJS application
-  const app = await NestFactory.create(AppModule, {
+  // rawBody is required to verify Shopify webhook signatures
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
     logger: WinstonModule.createLogger({
       instance: logger,
     }),
@@ -68,6 +71,9 @@ async function bootstrap() {
   // Enable compression
   app.use(compression());
 
+  // CSV uploads (e.g. target imports) are read as plain text bodies
+  app.useBodyParser('text', { type: 'text/csv', limit: '5mb' });
+
   // Global validation pipe
   app.useGlobalPipes(
     new ValidationPipe({
@@ -92,6 +98,26 @@ async function bootstrap() {
     .addTag('Analytics', 'Detailed analytics endpoints for specific data types')
     .addTag('Health', 'System health and monitoring endpoints')
     .addTag('System', 'System administration and maintenance endpoints')
+    .addTag('Webhooks', 'Shopify webhook ingestion endpoints')
+    .addTag('Auth', 'API key management and bearer token issuing')
+    .addTag('Targets', 'Sales targets by company, rep, product type and channel')
+    .addTag('Sales Reps', 'Sales rep directory, customer assignments and attribution rules')
+    .addTag('Stores', 'Registered Shopify stores; choose one per request with X-Store-Id')
+    .addTag('Currency', 'Dated exchange rates used to report amounts in another currency')
+    .addTag('Costs', 'Manual unit cost overrides used for cost of goods sold and margins')
+    .addTag('Inventory Planning', 'Supplier terms, reorder points, draft purchase orders, location stock and transfers')
+    .addTag('Alerts', 'Alert rules and the alerts they raise: acknowledge, snooze and resolve')
+    .addTag('Notifications', 'Email, Slack and webhook channels alerts are sent to, and the delivery log')
+    .addTag('Reports', 'Scheduled HTML and PDF reports emailed over SMTP, and the reports generated so far')
+    .addTag('Realtime', 'Server-sent events pushing new orders, metric changes, alerts and sync status')
+    .addApiKey(
+      { type: 'apiKey', name: 'X-API-Key', in: 'header', description: 'API key issued via /auth/keys or AUTH_API_KEYS' },
+      'api-key',
+    )
+    .addBearerAuth(
+      { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Token from POST /auth/token' },
+      'jwt',
+    )
     .addServer(`http://localhost:${port}`, 'Local development server')
     .addServer(`https://api.yourdomain.com`, 'Production server')
     .build();
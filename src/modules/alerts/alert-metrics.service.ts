@@ -0,0 +1,265 @@
+import { Injectable } from '@nestjs/common';
+import * as moment from 'moment';
+import { ProductRepository } from '../storage/product.repository';
+import { OrderRepository } from '../storage/order.repository';
+import { SyncStateRepository } from '../storage/sync-state.repository';
+import { SalesBreakdownService } from '../analytics/sales-breakdown.service';
+import { AnomalyDetectionService } from '../analytics/anomaly-detection.service';
+import { CurrencyService } from '../currency/currency.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { ShopifyOrder, ShopifyProduct, ProductVariant } from '@interfaces/shopify.interface';
+import { ANOMALY_ALERT_METRICS, AlertRule, AlertScope, AlertSubject } from '@interfaces/alert.interface';
+import { AnomalyOptions } from '@interfaces/anomaly.interface';
+
+/**
+ * The value of a rule's metric for one subject
+ */
+export interface AlertObservation {
+  subject: AlertSubject;
+  value: number;
+  // Context kept on the alert, such as what an anomaly was measured against
+  details?: Record<string, any>;
+}
+
+/**
+ * Measures alert rule metrics against stored products, orders and sync state
+ */
+@Injectable()
+export class AlertMetricsService {
+  constructor(
+    private readonly productRepository: ProductRepository,
+    private readonly orderRepository: OrderRepository,
+    private readonly syncStateRepository: SyncStateRepository,
+    private readonly salesBreakdownService: SalesBreakdownService,
+    private readonly anomalyDetectionService: AnomalyDetectionService,
+    private readonly currencyService: CurrencyService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Load the data once per evaluation run and return a function observing a rule's metric.
+   * Orders are loaded once per evaluation window, or anomaly baseline; variants without sales have no
+   * days of cover.
+   */
+  createObserver(now: Date = new Date()): (rule: AlertRule) => AlertObservation[] {
+    let products: ShopifyProduct[] | null = null;
+    const ordersByWindow = new Map<number, ShopifyOrder[]>();
+    const unitsSoldByWindow = new Map<number, Map<string, number>>();
+    const ordersByRange = new Map<string, ShopifyOrder[]>();
+    const currency = this.currencyService.getShopCurrency();
+    const store = this.storeContext.getStore();
+    const storeSubject: AlertSubject = { type: 'store', id: store.id, label: store.name || store.id };
+
+    const getProducts = () => (products = products || this.productRepository.findAll());
+    const getOrders = (windowDays: number) => {
+      if (!ordersByWindow.has(windowDays)) {
+        const start = moment.utc(now).subtract(windowDays, 'days').toDate();
+        ordersByWindow.set(windowDays, this.orderRepository.findByDateRange(start, now, { includeCancelled: false }));
+      }
+      return ordersByWindow.get(windowDays);
+    };
+    const getOrdersBetween = (start: Date, end: Date) => {
+      const key = `${start.toISOString()}/${end.toISOString()}`;
+      if (!ordersByRange.has(key)) {
+        ordersByRange.set(key, this.orderRepository.findByDateRange(start, end, { includeCancelled: true }));
+      }
+      return ordersByRange.get(key);
+    };
+    const getUnitsSold = (windowDays: number) => {
+      if (!unitsSoldByWindow.has(windowDays)) {
+        unitsSoldByWindow.set(windowDays, this.unitsSoldByVariant(getOrders(windowDays)));
+      }
+      return unitsSoldByWindow.get(windowDays);
+    };
+
+    return (rule: AlertRule) => {
+      switch (rule.metric) {
+        case 'inventory_quantity':
+          return this.observeVariants(getProducts(), rule.scope, variant => variant.inventoryQuantity || 0);
+        case 'units_sold':
+          return this.observeVariants(
+            getProducts(),
+            rule.scope,
+            variant => getUnitsSold(rule.windowDays).get(variant.id) || 0,
+          );
+        case 'days_of_cover':
+          return this.observeVariants(getProducts(), rule.scope, variant => {
+            const dailyUnits = (getUnitsSold(rule.windowDays).get(variant.id) || 0) / rule.windowDays;
+            if (dailyUnits <= 0) return null;
+            return Math.round((Math.max(variant.inventoryQuantity || 0, 0) / dailyUnits) * 10) / 10;
+          });
+        case 'net_sales':
+        case 'order_count':
+        case 'average_order_value':
+        case 'refund_rate':
+          return [{ subject: storeSubject, value: this.salesMetric(rule, getOrders(rule.windowDays), currency, now) }];
+        case 'failed_sync_resources':
+          return [
+            {
+              subject: storeSubject,
+              value: this.syncStateRepository.findAll().filter(state => state.lastStatus === 'failed').length,
+            },
+          ];
+        case 'minutes_since_last_sync': {
+          const lastCompleted = this.syncStateRepository
+            .findAll()
+            .map(state => state.lastCompletedAt)
+            .filter(Boolean)
+            .sort()
+            .pop();
+          // A store that never synced has nothing to measure yet
+          return lastCompleted
+            ? [{ subject: storeSubject, value: Math.floor(moment.utc(now).diff(moment.utc(lastCompleted), 'minutes')) }]
+            : [];
+        }
+        case 'revenue_anomaly':
+        case 'order_count_anomaly':
+        case 'average_order_value_anomaly':
+        case 'refund_rate_anomaly':
+        case 'cancellation_rate_anomaly':
+          return this.observeAnomaly(rule, storeSubject, getOrdersBetween, now);
+        default:
+          return [];
+      }
+    };
+  }
+
+  /**
+   * Whether a product and variant fall within a rule's scope
+   */
+  matchesScope(scope: AlertScope, product: ShopifyProduct, variant: ProductVariant): boolean {
+    const equals = (expected: string | undefined, actual: string | undefined | null) =>
+      !expected || (actual || '').toLowerCase() === expected.toLowerCase();
+    const productId =
+      scope.productId && /^\d+$/.test(scope.productId) ? `gid://shopify/Product/${scope.productId}` : scope.productId;
+
+    return (
+      equals(scope.sku, variant.sku) &&
+      equals(productId, product.id) &&
+      equals(scope.productType, product.productType) &&
+      equals(scope.vendor, product.vendor)
+    );
+  }
+
+  private observeVariants(
+    products: ShopifyProduct[],
+    scope: AlertScope,
+    measure: (variant: ProductVariant) => number | null,
+  ): AlertObservation[] {
+    const observations: AlertObservation[] = [];
+
+    for (const product of products) {
+      for (const { node: variant } of product.variants?.edges || []) {
+        // Untracked variants always report zero stock
+        if (!variant.inventoryItem?.tracked || !this.matchesScope(scope, product, variant)) continue;
+
+        const value = measure(variant);
+        if (value === null) continue;
+
+        observations.push({
+          subject: {
+            type: 'variant',
+            id: variant.id,
+            label:
+              variant.title && variant.title !== 'Default Title'
+                ? `${product.title} - ${variant.title}`
+                : product.title,
+            productId: product.id,
+            productTitle: product.title,
+            variantTitle: variant.title,
+            sku: variant.sku || null,
+          },
+          value,
+        });
+      }
+    }
+
+    return observations;
+  }
+
+  /**
+   * The anomaly score of the last complete hour or day. Periods that cannot be scored, for
+   * too short or flat a baseline or a rate without orders, are not observed.
+   */
+  private observeAnomaly(
+    rule: AlertRule,
+    subject: AlertSubject,
+    getOrdersBetween: (start: Date, end: Date) => ShopifyOrder[],
+    now: Date,
+  ): AlertObservation[] {
+    const options: AnomalyOptions = {
+      metric: ANOMALY_ALERT_METRICS[rule.metric],
+      granularity: rule.granularity || 'day',
+      baselineDays: rule.windowDays,
+      periodCount: 1,
+      method: this.anomalyDetectionService.getDefaultMethod(),
+    };
+    const { baselineStart, end } = this.anomalyDetectionService.getRange(options, now);
+    const { latest } = this.anomalyDetectionService.detect(options, now, getOrdersBetween(baselineStart, end));
+    if (!latest || latest.score === null) return [];
+
+    return [
+      {
+        subject,
+        value: latest.score,
+        details: {
+          granularity: options.granularity,
+          method: options.method,
+          baselineDays: options.baselineDays,
+          periodStart: latest.start,
+          periodEnd: latest.end,
+          actual: latest.actual,
+          expected: latest.expected,
+          explanation: latest.explanation,
+        },
+      },
+    ];
+  }
+
+  private salesMetric(rule: AlertRule, orders: ShopifyOrder[], currency: string, now: Date): number {
+    const range = { start: moment.utc(now).subtract(rule.windowDays, 'days').toDate(), end: now };
+    const breakdown = this.salesBreakdownService.calculateBreakdown(
+      this.salesBreakdownService.withOrdersRefundedIn(orders, range, { includeCancelled: false }),
+      currency,
+      range,
+    );
+
+    switch (rule.metric) {
+      case 'net_sales':
+        return breakdown.netSales.toNumber();
+      case 'order_count':
+        return orders.length;
+      case 'average_order_value':
+        return orders.length > 0 ? breakdown.netSales.divide(orders.length).toNumber() : 0;
+      case 'refund_rate':
+        return orders.length > 0 ? Math.round((breakdown.ordersRefunded / orders.length) * 10000) / 100 : 0;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Units sold per variant, less the units refunded
+   */
+  private unitsSoldByVariant(orders: ShopifyOrder[]): Map<string, number> {
+    const units = new Map<string, number>();
+
+    for (const order of orders) {
+      const refunded = new Map<string, number>();
+      for (const refund of order.refunds || []) {
+        for (const { node: line } of refund.refundLineItems?.edges || []) {
+          if (!line.lineItem?.id) continue;
+          refunded.set(line.lineItem.id, (refunded.get(line.lineItem.id) || 0) + (line.quantity || 0));
+        }
+      }
+
+      for (const { node: item } of order.lineItems?.edges || []) {
+        if (!item.variant?.id) continue;
+        const sold = (item.quantity || 0) - (refunded.get(item.id) || 0);
+        units.set(item.variant.id, (units.get(item.variant.id) || 0) + sold);
+      }
+    }
+
+    return units;
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { AnalyticsModule } from '../analytics/analytics.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { StoresModule } from '../stores/stores.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { AlertsService } from './alerts.service';
+import { AlertMetricsService } from './alert-metrics.service';
+
+@Module({
+  imports: [StorageModule, AnalyticsModule, CurrencyModule, StoresModule, NotificationsModule, RealtimeModule],
+  providers: [AlertsService, AlertMetricsService],
+  exports: [AlertsService, AlertMetricsService],
+})
+export class AlertsModule {}
@@ -0,0 +1,589 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as moment from 'moment';
+import { AlertRuleRepository } from '../storage/alert-rule.repository';
+import { AlertRepository } from '../storage/alert.repository';
+import { NotificationChannelRepository } from '../storage/notification-channel.repository';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { AlertMetricsService, AlertObservation } from './alert-metrics.service';
+import { ANOMALY_GRANULARITIES, AnomalyGranularity } from '@interfaces/anomaly.interface';
+import {
+  ALERT_COMPARATORS,
+  ALERT_METRIC_CATEGORIES,
+  ALERT_METRICS,
+  ALERT_SEVERITIES,
+  ANOMALY_ALERT_METRICS,
+  WINDOWED_ALERT_METRICS,
+  Alert,
+  AlertComparator,
+  AlertEvaluationResult,
+  AlertFilters,
+  AlertResolution,
+  AlertRule,
+  AlertRuleInput,
+  AlertScope,
+  AlertSubject,
+} from '@interfaces/alert.interface';
+import { NotificationEvent } from '@interfaces/notification.interface';
+
+const SCOPE_FIELDS: Array<keyof AlertScope> = ['sku', 'productId', 'productType', 'vendor'];
+
+const COMPARATOR_PHRASES: Record<AlertComparator, string> = {
+  lt: 'below',
+  lte: 'at or below',
+  gt: 'above',
+  gte: 'at or above',
+  eq: 'equal to',
+};
+
+const DEFAULT_WINDOW_DAYS = 30;
+// Anomaly baselines need a few weeks for every day of the week to be sampled more than once
+const DEFAULT_BASELINE_DAYS = 56;
+const MIN_BASELINE_DAYS = 14;
+const MAX_SNOOZE_MINUTES = 30 * 24 * 60;
+
+/**
+ * Alert rules and the lifecycle of the alerts they raise: open, acknowledged, snoozed and resolved
+ */
+@Injectable()
+export class AlertsService {
+  private readonly logger = new Logger(AlertsService.name);
+
+  constructor(
+    private readonly alertRuleRepository: AlertRuleRepository,
+    private readonly alertRepository: AlertRepository,
+    private readonly alertMetricsService: AlertMetricsService,
+    private readonly notificationChannelRepository: NotificationChannelRepository,
+    private readonly notificationsService: NotificationsService,
+    private readonly realtimeEvents: RealtimeEventsService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * List every alert rule
+   */
+  listRules(): AlertRule[] {
+    return this.alertRuleRepository.findAll();
+  }
+
+  /**
+   * Get an alert rule by id
+   */
+  getRule(id: string): AlertRule {
+    const rule = this.alertRuleRepository.findById(id);
+    if (!rule) {
+      throw new NotFoundException(`Alert rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  /**
+   * Create an alert rule
+   */
+  createRule(input: AlertRuleInput): AlertRule {
+    const rule = this.alertRuleRepository.save(this.buildRule(input));
+    this.logger.log(`Created alert rule "${rule.name}": ${rule.metric} ${rule.comparator} ${rule.threshold}`);
+    return rule;
+  }
+
+  /**
+   * Update an alert rule; omitted fields keep their value. Disabling a rule, or changing its metric, resolves its alerts.
+   */
+  updateRule(id: string, input: Partial<AlertRuleInput>): AlertRule {
+    const existing = this.getRule(id);
+    const defined = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+    const merged = { ...existing, ...defined } as AlertRuleInput;
+
+    // A rule moved to a point-in-time metric has no window; one moved to a windowed metric gets the default
+    if (input.metric && input.windowDays === undefined) {
+      merged.windowDays = undefined;
+    }
+    if (input.metric && input.granularity === undefined) {
+      merged.granularity = undefined;
+    }
+
+    const rule = this.alertRuleRepository.save(this.buildRule(merged, existing));
+    // Alerts of a rule now measuring another metric no longer describe it
+    if (!rule.enabled || rule.metric !== existing.metric) {
+      this.resolveRuleAlerts(rule.id, 'rule_removed');
+    }
+    return rule;
+  }
+
+  /**
+   * Delete an alert rule, resolving its alerts
+   */
+  deleteRule(id: string): void {
+    this.getRule(id);
+    this.resolveRuleAlerts(id, 'rule_removed');
+    this.alertRuleRepository.delete(id);
+  }
+
+  /**
+   * Find alerts, most severe and most recent first
+   */
+  listAlerts(filters: AlertFilters = {}): Alert[] {
+    return this.alertRepository.find(filters);
+  }
+
+  /**
+   * Get an alert by id
+   */
+  getAlert(id: string): Alert {
+    const alert = this.alertRepository.findById(id);
+    if (!alert) {
+      throw new NotFoundException(`Alert ${id} not found`);
+    }
+    return alert;
+  }
+
+  /**
+   * Counts of alerts per status, and of unresolved alerts per severity and category
+   */
+  getSummary() {
+    return this.alertRepository.summarize();
+  }
+
+  /**
+   * Acknowledge an alert; it stays acknowledged while the condition holds
+   */
+  acknowledgeAlert(id: string, acknowledgedBy: string): Alert {
+    const alert = this.getActiveAlert(id);
+    const now = new Date().toISOString();
+
+    return this.publish(
+      this.alertRepository.save({
+        ...alert,
+        status: 'acknowledged',
+        acknowledgedAt: now,
+        acknowledgedBy,
+        snoozedUntil: null,
+        updatedAt: now,
+      }),
+      'acknowledged',
+    );
+  }
+
+  /**
+   * Snooze an alert for a number of minutes or until a time. It reopens if the condition
+   * still holds once the snooze runs out.
+   */
+  snoozeAlert(id: string, options: { minutes?: number; until?: string }): Alert {
+    const alert = this.getActiveAlert(id);
+    const now = moment.utc();
+
+    let until: moment.Moment;
+    if (options.until !== undefined && options.until !== null) {
+      until = moment.utc(options.until, moment.ISO_8601, true);
+      if (!until.isValid() || !until.isAfter(now)) {
+        throw new BadRequestException('until must be a future ISO 8601 timestamp');
+      }
+    } else {
+      const minutes = Number(options.minutes);
+      if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+        throw new BadRequestException(`minutes must be a whole number between 1 and ${MAX_SNOOZE_MINUTES}`);
+      }
+      until = now.clone().add(minutes, 'minutes');
+    }
+    if (until.diff(now, 'minutes') > MAX_SNOOZE_MINUTES) {
+      throw new BadRequestException('Alerts can be snoozed for at most 30 days');
+    }
+
+    return this.publish(
+      this.alertRepository.save({
+        ...alert,
+        status: 'snoozed',
+        snoozedUntil: until.toISOString(),
+        updatedAt: now.toISOString(),
+      }),
+      'snoozed',
+    );
+  }
+
+  /**
+   * Resolve an alert by hand. A new alert is raised if the condition still holds at the next evaluation.
+   */
+  resolveAlert(id: string, resolvedBy: string): Alert {
+    const alert = this.getActiveAlert(id);
+    return this.publish(
+      this.alertRepository.save(this.resolve(alert, 'manual', new Date().toISOString(), resolvedBy)),
+      'resolved',
+    );
+  }
+
+  /**
+   * Evaluate every enabled rule. Breaches open an alert, or update the unresolved alert with
+   * the same dedup key; alerts whose condition cleared are resolved. When rules on the same
+   * metric and granularity match the same subject, only the most severe raises an alert, so
+   * tiered thresholds escalate one alert rather than stacking several. Opened, reopened and
+   * cleared alerts are sent to the rule's notification channels.
+   */
+  async evaluateRules(now: Date = new Date()): Promise<AlertEvaluationResult> {
+    const evaluatedAt = now.toISOString();
+    const rules = this.alertRuleRepository.findAll(true);
+    const observe = this.alertMetricsService.createObserver(now);
+
+    const breaches = new Map<string, { rule: AlertRule; observation: AlertObservation }>();
+    const evaluatedRuleIds: string[] = [];
+
+    for (const rule of rules) {
+      try {
+        for (const observation of observe(rule)) {
+          if (this.breaches(observation.value, rule.comparator, rule.threshold)) {
+            breaches.set(this.dedupKey(rule.id, observation.subject), { rule, observation });
+          }
+        }
+        evaluatedRuleIds.push(rule.id);
+      } catch (error) {
+        // Leave the alerts of a rule that failed to evaluate as they are
+        this.logger.error(`Failed to evaluate alert rule "${rule.name}" (${rule.id}):`, error);
+      }
+    }
+
+    // Hourly and daily anomaly rules on the same metric measure different things
+    const tier = ({ rule, observation }: { rule: AlertRule; observation: AlertObservation }) =>
+      `${rule.metric}:${rule.granularity || ''}:${observation.subject.id}`;
+    const mostSevere = new Map<string, number>();
+    for (const breach of breaches.values()) {
+      const key = tier(breach);
+      mostSevere.set(key, Math.min(mostSevere.get(key) ?? Infinity, ALERT_SEVERITIES.indexOf(breach.rule.severity)));
+    }
+    const isSuperseded = (breach: { rule: AlertRule; observation: AlertObservation }) =>
+      ALERT_SEVERITIES.indexOf(breach.rule.severity) > mostSevere.get(tier(breach));
+
+    const active = new Map(
+      this.alertRepository.findActiveByRules(evaluatedRuleIds).map(alert => [alert.dedupKey, alert]),
+    );
+    const changes: Alert[] = [];
+    const notifications: Array<{ alert: Alert; type: NotificationEvent['type'] }> = [];
+    const result: AlertEvaluationResult = {
+      evaluatedAt,
+      rulesEvaluated: evaluatedRuleIds.length,
+      alertsOpened: 0,
+      alertsUpdated: 0,
+      alertsResolved: 0,
+      alertsReopened: 0,
+    };
+
+    for (const [dedupKey, breach] of breaches) {
+      if (isSuperseded(breach)) continue;
+
+      const { rule, observation } = breach;
+      const existing = active.get(dedupKey);
+      active.delete(dedupKey);
+
+      if (!existing) {
+        const alert = this.openAlert(dedupKey, rule, observation, evaluatedAt);
+        changes.push(alert);
+        notifications.push({ alert, type: 'triggered' });
+        result.alertsOpened++;
+        continue;
+      }
+
+      const snoozeEnded = existing.status === 'snoozed' && moment.utc(existing.snoozedUntil).isSameOrBefore(now);
+      const alert: Alert = {
+        ...existing,
+        ruleName: rule.name,
+        severity: rule.severity,
+        status: snoozeEnded ? 'open' : existing.status,
+        snoozedUntil: snoozeEnded ? null : existing.snoozedUntil,
+        subject: observation.subject,
+        value: observation.value,
+        comparator: rule.comparator,
+        threshold: rule.threshold,
+        message: this.describe(rule, observation),
+        details: observation.details || null,
+        lastTriggeredAt: evaluatedAt,
+        triggerCount: existing.triggerCount + 1,
+        updatedAt: evaluatedAt,
+      };
+      changes.push(alert);
+      result.alertsUpdated++;
+      if (snoozeEnded) {
+        notifications.push({ alert, type: 'reopened' });
+        result.alertsReopened++;
+      }
+    }
+
+    for (const [dedupKey, alert] of active) {
+      const resolution = breaches.has(dedupKey) ? 'superseded' : 'condition_cleared';
+      const resolved = this.resolve(alert, resolution, evaluatedAt, null);
+      changes.push(resolved);
+      // A superseded alert is followed by the more severe one, which is notified instead
+      if (resolution === 'condition_cleared') {
+        notifications.push({ alert: resolved, type: 'resolved' });
+      }
+      result.alertsResolved++;
+    }
+
+    this.alertRepository.saveAll(changes);
+    this.alertRuleRepository.markEvaluated(evaluatedRuleIds, evaluatedAt);
+
+    const message =
+      `Evaluated ${result.rulesEvaluated} alert rules: ${result.alertsOpened} opened, ` +
+      `${result.alertsUpdated} updated, ${result.alertsResolved} resolved`;
+    if (result.alertsOpened > 0) {
+      this.logger.warn(message);
+    } else {
+      this.logger.debug(message);
+    }
+
+    const channelIds = new Map(rules.map(rule => [rule.id, rule.channelIds]));
+    for (const { alert, type } of notifications) {
+      this.publish(alert, type);
+      await this.notify(alert, type, channelIds.get(alert.ruleId) || [], evaluatedAt);
+    }
+
+    return result;
+  }
+
+  private async notify(
+    alert: Alert,
+    type: NotificationEvent['type'],
+    channelIds: string[],
+    occurredAt: string,
+  ): Promise<void> {
+    try {
+      await this.notificationsService.notify(
+        {
+          key: alert.dedupKey,
+          type,
+          source: 'alert',
+          severity: alert.severity,
+          category: alert.category,
+          title: type === 'resolved' ? `${alert.ruleName} cleared` : alert.ruleName,
+          message: type === 'resolved' ? `${alert.subject.label} no longer matches the rule` : alert.message,
+          alertId: alert.id,
+          ruleId: alert.ruleId,
+          value: type === 'resolved' ? undefined : alert.value,
+          threshold: alert.threshold,
+          occurredAt,
+        },
+        channelIds,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to send notifications for alert ${alert.id}:`, error);
+    }
+  }
+
+  /**
+   * Push an alert change to real-time subscribers
+   */
+  private publish(alert: Alert, type: string): Alert {
+    this.realtimeEvents.publish('alerts', `alert.${type}`, {
+      id: alert.id,
+      ruleId: alert.ruleId,
+      ruleName: alert.ruleName,
+      category: alert.category,
+      severity: alert.severity,
+      status: alert.status,
+      subject: alert.subject,
+      value: alert.value,
+      threshold: alert.threshold,
+      message: alert.message,
+      snoozedUntil: alert.snoozedUntil,
+    });
+    return alert;
+  }
+
+  private openAlert(dedupKey: string, rule: AlertRule, observation: AlertObservation, evaluatedAt: string): Alert {
+    return {
+      id: randomUUID(),
+      dedupKey,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      category: rule.category,
+      metric: rule.metric,
+      severity: rule.severity,
+      status: 'open',
+      subject: observation.subject,
+      value: observation.value,
+      comparator: rule.comparator,
+      threshold: rule.threshold,
+      message: this.describe(rule, observation),
+      details: observation.details || null,
+      firstTriggeredAt: evaluatedAt,
+      lastTriggeredAt: evaluatedAt,
+      triggerCount: 1,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      snoozedUntil: null,
+      resolvedAt: null,
+      resolvedBy: null,
+      resolution: null,
+      updatedAt: evaluatedAt,
+    };
+  }
+
+  private resolve(alert: Alert, resolution: AlertResolution, resolvedAt: string, resolvedBy: string | null): Alert {
+    return {
+      ...alert,
+      status: 'resolved',
+      snoozedUntil: null,
+      resolvedAt,
+      resolvedBy,
+      resolution,
+      updatedAt: resolvedAt,
+    };
+  }
+
+  private resolveRuleAlerts(ruleId: string, resolution: AlertResolution): void {
+    const now = new Date().toISOString();
+    const alerts = this.alertRepository.findActiveByRules([ruleId]);
+    this.alertRepository.saveAll(alerts.map(alert => this.resolve(alert, resolution, now, null)));
+  }
+
+  private getActiveAlert(id: string): Alert {
+    const alert = this.getAlert(id);
+    if (alert.status === 'resolved') {
+      throw new BadRequestException(`Alert ${id} is already resolved`);
+    }
+    return alert;
+  }
+
+  private dedupKey(ruleId: string, subject: AlertSubject): string {
+    return `${ruleId}:${subject.type}:${subject.id}`;
+  }
+
+  private breaches(value: number, comparator: AlertComparator, threshold: number): boolean {
+    switch (comparator) {
+      case 'lt':
+        return value < threshold;
+      case 'lte':
+        return value <= threshold;
+      case 'gt':
+        return value > threshold;
+      case 'gte':
+        return value >= threshold;
+      case 'eq':
+        return value === threshold;
+    }
+  }
+
+  private describe(rule: AlertRule, observation: AlertObservation): string {
+    const anomalyMetric = ANOMALY_ALERT_METRICS[rule.metric];
+    if (anomalyMetric && observation.details) {
+      const { periodStart, actual, expected } = observation.details;
+      // Periods start on the store's local hours and days
+      const start = this.storeContext.moment(periodStart);
+      const period =
+        rule.granularity === 'hour' ? `the hour from ${start.format('YYYY-MM-DD HH:mm z')}` : start.format('YYYY-MM-DD');
+      return (
+        `${observation.subject.label}: ${anomalyMetric.replace(/_/g, ' ')} for ${period} was ${actual}, ` +
+        `expected ${expected}; anomaly score ${observation.value} is ${COMPARATOR_PHRASES[rule.comparator]} ` +
+        `${rule.threshold}`
+      );
+    }
+
+    const metric = rule.metric.replace(/_/g, ' ');
+    const window = rule.windowDays ? ` over ${rule.windowDays} days` : '';
+    return (
+      `${observation.subject.label}: ${metric}${window} is ${observation.value}, ` +
+      `${COMPARATOR_PHRASES[rule.comparator]} ${rule.threshold}`
+    );
+  }
+
+  private buildRule(input: AlertRuleInput, existing?: AlertRule): AlertRule {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) {
+      throw new BadRequestException('name is required');
+    }
+    if (!ALERT_METRICS.includes(input.metric)) {
+      throw new BadRequestException(`Invalid metric. Valid: ${ALERT_METRICS.join(', ')}`);
+    }
+    if (!ALERT_COMPARATORS.includes(input.comparator)) {
+      throw new BadRequestException(`Invalid comparator. Valid: ${ALERT_COMPARATORS.join(', ')}`);
+    }
+    if (!ALERT_SEVERITIES.includes(input.severity)) {
+      throw new BadRequestException(`Invalid severity. Valid: ${ALERT_SEVERITIES.join(', ')}`);
+    }
+
+    const threshold = Number(input.threshold);
+    if (input.threshold === null || input.threshold === undefined || !Number.isFinite(threshold)) {
+      throw new BadRequestException('threshold must be a number');
+    }
+
+    const anomaly = ANOMALY_ALERT_METRICS[input.metric] !== undefined;
+    let windowDays: number | null = null;
+    if (WINDOWED_ALERT_METRICS.includes(input.metric)) {
+      const minDays = anomaly ? MIN_BASELINE_DAYS : 1;
+      windowDays = Number(input.windowDays ?? (anomaly ? DEFAULT_BASELINE_DAYS : DEFAULT_WINDOW_DAYS));
+      if (!Number.isInteger(windowDays) || windowDays < minDays || windowDays > 365) {
+        throw new BadRequestException(`windowDays must be a whole number between ${minDays} and 365`);
+      }
+    }
+
+    let granularity: AnomalyGranularity | null = null;
+    if (anomaly) {
+      granularity = input.granularity ?? 'day';
+      if (!ANOMALY_GRANULARITIES.includes(granularity)) {
+        throw new BadRequestException(`Invalid granularity. Valid: ${ANOMALY_GRANULARITIES.join(', ')}`);
+      }
+    } else if (input.granularity !== undefined && input.granularity !== null) {
+      throw new BadRequestException('Only anomaly metrics have a granularity');
+    }
+
+    const category = ALERT_METRIC_CATEGORIES[input.metric];
+    const scope = this.buildScope(input.scope || {});
+    if (Object.keys(scope).length > 0 && category !== 'inventory') {
+      throw new BadRequestException('Only inventory metrics can be scoped to a SKU, product, product type or vendor');
+    }
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be a boolean');
+    }
+
+    const channelIds = input.channelIds ?? [];
+    if (!Array.isArray(channelIds) || channelIds.some(id => typeof id !== 'string')) {
+      throw new BadRequestException('channelIds must be a list of notification channel ids');
+    }
+    const unknownChannels = channelIds.filter(id => !this.notificationChannelRepository.findById(id));
+    if (unknownChannels.length > 0) {
+      throw new BadRequestException(`Unknown notification channels: ${unknownChannels.join(', ')}`);
+    }
+
+    const now = new Date().toISOString();
+
+    return {
+      id: existing?.id || randomUUID(),
+      name,
+      description: input.description?.trim() || null,
+      metric: input.metric,
+      category,
+      scope,
+      comparator: input.comparator,
+      threshold,
+      windowDays,
+      granularity,
+      severity: input.severity,
+      channelIds: [...new Set(channelIds)],
+      enabled: input.enabled ?? true,
+      lastEvaluatedAt: existing?.lastEvaluatedAt || null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+  }
+
+  private buildScope(scope: AlertScope): AlertScope {
+    if (typeof scope !== 'object' || Array.isArray(scope)) {
+      throw new BadRequestException('scope must be an object');
+    }
+
+    const unknown = Object.keys(scope).filter(key => !SCOPE_FIELDS.includes(key as keyof AlertScope));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Invalid scope fields: ${unknown.join(', ')}. Valid: ${SCOPE_FIELDS.join(', ')}`);
+    }
+
+    const built: AlertScope = {};
+    for (const field of SCOPE_FIELDS) {
+      const value = scope[field];
+      if (value === undefined || value === null || value === '') continue;
+      if (typeof value !== 'string') {
+        throw new BadRequestException(`scope.${field} must be a string`);
+      }
+      built[field] = value.trim();
+    }
+    return built;
+  }
+}
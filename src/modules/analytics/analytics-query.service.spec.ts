@@ -0,0 +1,226 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AnalyticsQuery } from '@interfaces/analytics-query.interface';
+import { ShopifyOrder } from '@interfaces/shopify.interface';
+import { Money } from '@shared/money';
+import { CurrencyService } from '../currency/currency.service';
+import { RepAttributionService } from '../sales-reps/rep-attribution.service';
+import { DatabaseService } from '../storage/database.service';
+import { OrderRepository } from '../storage/order.repository';
+import { SalesRepRepository } from '../storage/sales-rep.repository';
+import { StoreContextService } from '../stores/store-context.service';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { AnalyticsQueryService } from './analytics-query.service';
+
+const usd = (amount: string) => ({ shopMoney: { amount, currencyCode: 'USD' } });
+
+const order = (
+  id: string,
+  total: string,
+  options: { channel?: string; tags?: string[]; customerTags?: string[]; lines?: Array<[string, string]> } = {},
+): ShopifyOrder =>
+  ({
+    id,
+    name: `#${id}`,
+    createdAt: '2026-03-10T12:00:00Z',
+    updatedAt: '2026-03-10T12:00:00Z',
+    sourceName: options.channel || 'web',
+    tags: options.tags || [],
+    customer: { id: `customer-${id}`, tags: options.customerTags || [] },
+    totalPriceSet: usd(total),
+    subtotalPriceSet: usd(total),
+    totalTaxSet: usd('0.00'),
+    totalShippingPriceSet: usd('0.00'),
+    lineItems: {
+      edges: (options.lines || [['Shirts', total]]).map(([productType, price], index) => ({
+        node: {
+          id: `${id}-line-${index}`,
+          title: productType,
+          quantity: 1,
+          originalUnitPriceSet: usd(price),
+          totalDiscountSet: usd('0.00'),
+          variant: { id: `${id}-variant-${index}`, product: { id: `${id}-product`, productType } },
+        },
+      })),
+    },
+    refunds: [],
+  }) as unknown as ShopifyOrder;
+
+describe('AnalyticsQueryService', () => {
+  const store = { id: 'main', databasePath: ':memory:' };
+  const period = { startDate: '2026-03-01', endDate: '2026-03-31' };
+
+  let databaseService: DatabaseService;
+  let orderRepository: OrderRepository;
+  let service: AnalyticsQueryService;
+
+  const query = (input: Partial<AnalyticsQuery>) => service.query({ measures: ['revenue'], ...period, ...input });
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    const storeRegistry = {
+      getStore: () => store,
+      getStores: () => [store],
+      getDefaultStore: () => store,
+      getTimezone: () => 'UTC',
+    } as unknown as StoreRegistryService;
+    const storeContext = new StoreContextService(storeRegistry);
+    databaseService = new DatabaseService(storeRegistry, storeContext);
+    orderRepository = new OrderRepository(databaseService);
+
+    const currencyService = {
+      getShopCurrency: () => 'USD',
+      resolveCurrency: (currency: string) => currency,
+      convertOrders: (orders: ShopifyOrder[]) => orders,
+      getMarket: () => ({ market: 'US', country: 'US' }),
+    };
+    const config: Record<string, string> = {
+      'config.salesReps.attributionRules': 'order_tag',
+      'config.salesReps.tagPrefix': 'rep:',
+    };
+    const repAttributionService = new RepAttributionService(
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      new SalesRepRepository(databaseService),
+    );
+
+    service = new AnalyticsQueryService(
+      orderRepository,
+      currencyService as unknown as CurrencyService,
+      repAttributionService,
+      storeContext,
+    );
+  });
+
+  afterEach(() => {
+    databaseService.onModuleDestroy();
+  });
+
+  describe('validation', () => {
+    it.each<[string, Partial<AnalyticsQuery>]>([
+      ['no measures', { measures: [] }],
+      ['an unknown measure', { measures: ['margin' as never] }],
+      ['an unknown dimension', { dimensions: ['city' as never] }],
+      ['a repeated dimension', { dimensions: ['channel', 'channel'] }],
+      ['more than three dimensions', { dimensions: ['channel', 'country', 'rep', 'vendor'] }],
+      ['two time grains', { dimensions: ['day', 'month'] }],
+      ['a malformed date', { startDate: '2026-3-1' }],
+      ['a start after the end', { startDate: '2026-04-01' }],
+      ['sorting by a measure not queried', { sortBy: 'units' }],
+      ['an unknown sort direction', { sortDirection: 'up' as never }],
+      ['a limit out of range', { limit: 0 }],
+      ['a filter on a time grain', { filters: [{ dimension: 'day', operator: 'eq', value: '2026-03-01' }] }],
+      ['an unknown filter operator', { filters: [{ dimension: 'channel', operator: 'like' as never, value: 'web' }] }],
+      ['a list filter without a list', { filters: [{ dimension: 'channel', operator: 'in', value: 'web' }] }],
+      ['an empty filter value', { filters: [{ dimension: 'channel', operator: 'eq', value: ' ' }] }],
+    ])('rejects %s', (_, input) => {
+      expect(() => query(input)).toThrow(BadRequestException);
+    });
+
+    it('accepts a query sorted by one of its dimensions', () => {
+      expect(query({ dimensions: ['channel'], sortBy: 'channel', sortDirection: 'asc' }).rows).toEqual([]);
+    });
+  });
+
+  describe('filters', () => {
+    beforeEach(() => {
+      orderRepository.upsertOrders([
+        order('web-vip', '100.00', { channel: 'web', customerTags: ['VIP', 'wholesale'] }),
+        order('web', '40.00', { channel: 'web' }),
+        order('pos', '25.00', { channel: 'pos', customerTags: ['wholesale'] }),
+      ]);
+    });
+
+    it('keeps the orders matching eq and in, case-insensitively', () => {
+      expect(query({ filters: [{ dimension: 'channel', operator: 'eq', value: 'WEB' }] }).totals.revenue).toEqual(
+        Money.of('140.00', 'USD'),
+      );
+      expect(
+        query({ filters: [{ dimension: 'channel', operator: 'in', value: ['pos', 'mobile'] }] }).totals.revenue,
+      ).toEqual(Money.of('25.00', 'USD'));
+    });
+
+    it('drops the orders matching neq', () => {
+      const result = query({
+        measures: ['orders'],
+        filters: [{ dimension: 'channel', operator: 'neq', value: 'web' }],
+      });
+
+      expect(result.totals.orders).toBe(1);
+    });
+
+    it('excludes every order having an excluded value of a multi-valued dimension', () => {
+      const result = query({
+        dimensions: ['customer_tag'],
+        filters: [{ dimension: 'customer_tag', operator: 'not_in', value: ['vip'] }],
+      });
+
+      expect(result.totals.revenue).toEqual(Money.of('65.00', 'USD'));
+      expect(result.rows.map(row => [row.dimensions.customer_tag, (row.values.revenue as Money).toAmount()])).toEqual([
+        ['Untagged', '40.00'],
+        ['wholesale', '25.00'],
+      ]);
+    });
+
+    it('counts only the matching line items once a line dimension is filtered on', () => {
+      orderRepository.upsertOrders([
+        order('mixed', '90.00', {
+          lines: [
+            ['Shirts', '60.00'],
+            ['Hats', '30.00'],
+          ],
+        }),
+      ]);
+
+      const result = query({ filters: [{ dimension: 'product_type', operator: 'eq', value: 'hats' }] });
+
+      expect(result.level).toBe('line');
+      expect(result.totals.revenue).toEqual(Money.of('30.00', 'USD'));
+    });
+  });
+
+  describe('rep credit split', () => {
+    beforeEach(() => {
+      orderRepository.upsertOrders([
+        order('shared', '100.00', { tags: ['rep:ana', 'rep:ben', 'rep:cy'] }),
+        order('solo', '50.00', { tags: ['rep:ana'] }),
+        order('uncredited', '20.00'),
+      ]);
+    });
+
+    it('splits shared orders so the rep rows add up to the totals to the cent', () => {
+      const result = query({ measures: ['revenue', 'orders'], dimensions: ['rep'] });
+      const byRep = Object.fromEntries(
+        result.rows.map(row => [row.dimensions.rep, [(row.values.revenue as Money).toAmount(), row.values.orders]]),
+      );
+
+      expect(byRep).toEqual({
+        ana: ['83.33', 1.33],
+        ben: ['33.33', 0.33],
+        cy: ['33.34', 0.33],
+        unassigned: ['20.00', 1],
+      });
+      expect(result.totals).toEqual({ revenue: Money.of('170.00', 'USD'), orders: 3 });
+      expect(
+        Money.sum(
+          result.rows.map(row => row.values.revenue as Money),
+          'USD',
+        ),
+      ).toEqual(result.totals.revenue);
+    });
+
+    it('keeps uncredited orders under the unassigned rep only', () => {
+      const result = query({ dimensions: ['rep'] });
+
+      expect(result.rows.map(row => row.labels.rep).sort()).toEqual(['Ana', 'Ben', 'Cy', 'Unassigned']);
+    });
+
+    it('counts only the filtered rep share of shared orders', () => {
+      const result = query({ filters: [{ dimension: 'rep', operator: 'eq', value: 'ben' }] });
+
+      expect(result.totals.revenue).toEqual(Money.of('33.33', 'USD'));
+    });
+  });
+});
@@ -0,0 +1,653 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import * as moment from 'moment-timezone';
+import { OrderRepository } from '../storage/order.repository';
+import { CurrencyService } from '../currency/currency.service';
+import { RepAttributionService } from '../sales-reps/rep-attribution.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { Money } from '@shared/money';
+import { compareMetric, resolveComparisonPeriod } from '@shared/period-comparison';
+import { LineItem, ShopifyOrder } from '@interfaces/shopify.interface';
+import { RepAttributor } from '@interfaces/sales-rep.interface';
+import {
+  QUERY_COMPARISONS,
+  QUERY_DIMENSIONS,
+  QUERY_FILTER_OPERATORS,
+  QUERY_LINE_DIMENSIONS,
+  QUERY_MEASURES,
+  QUERY_TIME_DIMENSIONS,
+  AnalyticsQuery,
+  QueryChanges,
+  QueryComparisonResult,
+  QueryComparisonType,
+  QueryDimension,
+  QueryFilter,
+  QueryMeasure,
+  QueryResult,
+  QueryRow,
+  QueryTimeDimension,
+  QueryValues,
+} from '@interfaces/analytics-query.interface';
+
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 10000;
+const MAX_DIMENSIONS = 3;
+const MAX_COMPARISONS = 3;
+
+// Dimensions an order can have several values of, each counting in full
+const MULTI_VALUED_DIMENSIONS: QueryDimension[] = ['customer_tag', 'discount_code'];
+
+interface QueryPlan {
+  measures: QueryMeasure[];
+  dimensions: QueryDimension[];
+  filters: Array<QueryFilter & { values: string[] }>;
+  timeDimension: QueryTimeDimension | null;
+  level: 'order' | 'line';
+  start: moment.Moment;
+  end: moment.Moment;
+  currency?: string;
+  sortBy: string | null;
+  sortDirection: 'asc' | 'desc';
+  limit: number;
+}
+
+// One order, or one of its line items in line-level queries
+interface Fact {
+  order: ShopifyOrder;
+  item: LineItem | null;
+  revenue: Money;
+  refunds: Money;
+  units: number;
+}
+
+interface DimensionValue {
+  key: string;
+  label: string;
+  share: number;
+}
+
+interface Accumulator {
+  dimensions: Partial<Record<QueryDimension, string>>;
+  labels: Partial<Record<QueryDimension, string>>;
+  // Time buckets since the start of the period, to line rows up with comparison periods
+  bucket: number | null;
+  revenue: Money;
+  refunds: Money;
+  units: number;
+  // Share of each order credited to the group
+  orders: Map<string, number>;
+  customers: Set<string>;
+}
+
+interface Evaluation {
+  currency: string;
+  totals: Accumulator;
+  groups: Accumulator[];
+}
+
+/**
+ * Evaluates ad-hoc metric queries over stored orders: measures grouped by any combination
+ * of dimensions, narrowed by filters and compared with other periods
+ */
+@Injectable()
+export class AnalyticsQueryService {
+  private readonly logger = new Logger(AnalyticsQueryService.name);
+
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly currencyService: CurrencyService,
+    private readonly repAttributionService: RepAttributionService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Run a query over the stored orders placed in its period, excluding cancelled ones. Dates
+   * and day, week and month buckets are in the store's time zone.
+   * Order-level revenue is the order total; once a line item dimension is grouped or filtered
+   * on, revenue is the matching line items' sales after discounts.
+   */
+  query(input: AnalyticsQuery): QueryResult {
+    const plan = this.parseQuery(input);
+    const comparisons = this.parseComparisons(input.comparisons, plan);
+
+    this.logger.log(
+      `Query ${plan.measures.join(', ')} by ${plan.dimensions.join(', ') || 'total'} from ${plan.start.format('YYYY-MM-DD')} to ${plan.end.format('YYYY-MM-DD')}`,
+    );
+
+    const attributor =
+      plan.dimensions.includes('rep') || plan.filters.some(filter => filter.dimension === 'rep')
+        ? this.repAttributionService.createAttributor()
+        : null;
+    const current = this.evaluate(plan, plan.start, plan.end, attributor);
+
+    const comparisonResults: QueryComparisonResult[] = [];
+    const comparisonGroups: Array<{ type: QueryComparisonType; groups: Map<string, Accumulator> }> = [];
+    for (const comparison of comparisons) {
+      // Comparison periods are reported in the same currency as the current one
+      const evaluation = this.evaluate(plan, comparison.start, comparison.end, attributor, current.currency);
+      const totals = this.toValues(evaluation.totals, plan.measures, current.currency);
+
+      comparisonResults.push({
+        type: comparison.type,
+        period: { start: comparison.start.toISOString(), end: comparison.end.toISOString() },
+        totals,
+        changes: this.calculateChanges(this.toValues(current.totals, plan.measures, current.currency), totals),
+      });
+      comparisonGroups.push({
+        type: comparison.type,
+        groups: new Map(evaluation.groups.map(group => [this.alignmentKey(group, plan), group])),
+      });
+    }
+
+    const rows: QueryRow[] = current.groups.map(group => {
+      const values = this.toValues(group, plan.measures, current.currency);
+      const row: QueryRow = { dimensions: group.dimensions, labels: group.labels, values };
+
+      if (comparisonGroups.length > 0) {
+        row.comparisons = comparisonGroups.map(({ type, groups }) => {
+          const match = groups.get(this.alignmentKey(group, plan));
+          const comparisonValues = match ? this.toValues(match, plan.measures, current.currency) : null;
+          return {
+            type,
+            values: comparisonValues,
+            changes: this.calculateChanges(values, comparisonValues || this.emptyValues(plan, current.currency)),
+          };
+        });
+      }
+      return row;
+    });
+
+    this.sortRows(rows, plan);
+
+    return {
+      measures: plan.measures,
+      dimensions: plan.dimensions,
+      filters: plan.filters.map(({ dimension, operator, value }) => ({ dimension, operator, value })),
+      currency: current.currency,
+      level: plan.level,
+      period: { start: plan.start.toISOString(), end: plan.end.toISOString() },
+      totals: this.toValues(current.totals, plan.measures, current.currency),
+      rows: rows.slice(0, plan.limit),
+      totalRows: rows.length,
+      comparisons: comparisonResults,
+    };
+  }
+
+  private evaluate(
+    plan: QueryPlan,
+    start: moment.Moment,
+    end: moment.Moment,
+    attributor: RepAttributor | null,
+    shopCurrency?: string,
+  ): Evaluation {
+    const shopOrders = this.orderRepository.findByDateRange(start.toDate(), end.toDate(), { includeCancelled: false });
+    const reportCurrency = plan.currency
+      ? this.currencyService.resolveCurrency(plan.currency)
+      : shopCurrency || this.currencyService.getShopCurrency(shopOrders);
+    const orders = this.currencyService.convertOrders(shopOrders, plan.currency);
+
+    const totals = this.emptyAccumulator(reportCurrency, {}, {}, null);
+    const groups = new Map<string, Accumulator>();
+    const filtered = new Set(plan.filters.map(filter => filter.dimension));
+    const grouped = new Set(plan.dimensions);
+
+    if (plan.timeDimension && plan.dimensions.length === 1) {
+      // A time series has a row for every bucket, with or without sales
+      const bucket = this.bucketStart(start, plan.timeDimension);
+      while (bucket.isSameOrBefore(end)) {
+        const key = this.bucketKey(bucket, plan.timeDimension);
+        groups.set(
+          JSON.stringify([key]),
+          this.emptyAccumulator(
+            reportCurrency,
+            { [plan.timeDimension]: key },
+            { [plan.timeDimension]: key },
+            this.bucketIndex(bucket, start, plan.timeDimension),
+          ),
+        );
+        bucket.add(1, this.bucketUnit(plan.timeDimension));
+      }
+    }
+
+    for (const fact of this.buildFacts(orders, plan.level, reportCurrency)) {
+      const valuesByDimension = new Map<QueryDimension, DimensionValue[]>();
+      for (const dimension of new Set([...grouped, ...filtered])) {
+        let values = this.getDimensionValues(fact, dimension, start, plan.timeDimension, attributor);
+        for (const filter of plan.filters.filter(candidate => candidate.dimension === dimension)) {
+          values = this.applyFilter(values, filter);
+        }
+        valuesByDimension.set(dimension, values);
+      }
+      if ([...valuesByDimension.values()].some(values => values.length === 0)) continue;
+
+      // Filters on split dimensions (sales reps) keep only the matching share of the fact
+      const filteredShare = (dimension: QueryDimension) =>
+        Math.min(
+          1,
+          valuesByDimension.get(dimension).reduce((sum, value) => sum + value.share, 0),
+        );
+      const weight = [...filtered].reduce((share, dimension) => share * filteredShare(dimension), 1);
+      this.addFact(totals, fact, weight);
+
+      const ungroupedWeight = [...filtered]
+        .filter(dimension => !grouped.has(dimension))
+        .reduce((share, dimension) => share * filteredShare(dimension), 1);
+
+      let combinations: Array<{ values: Array<[QueryDimension, DimensionValue]>; share: number }> = [
+        { values: [], share: ungroupedWeight },
+      ];
+      for (const dimension of plan.dimensions) {
+        combinations = combinations.flatMap(combination =>
+          valuesByDimension.get(dimension).map(value => ({
+            values: [...combination.values, [dimension, value] as [QueryDimension, DimensionValue]],
+            share: combination.share * value.share,
+          })),
+        );
+      }
+
+      // A fact split between groups by shares (sales reps) has its amounts allocated across them,
+      // so the groups add up to the totals to the cent. Multi-valued dimensions count it in full.
+      const allocated =
+        combinations.length > 1 && !plan.dimensions.some(dimension => MULTI_VALUED_DIMENSIONS.includes(dimension))
+          ? this.allocateFact(fact, weight, combinations.map(combination => combination.share))
+          : null;
+
+      combinations.forEach((combination, index) => {
+        const key = JSON.stringify(combination.values.map(([, value]) => value.key));
+        if (!groups.has(key)) {
+          groups.set(
+            key,
+            this.emptyAccumulator(
+              reportCurrency,
+              Object.fromEntries(combination.values.map(([dimension, value]) => [dimension, value.key])),
+              Object.fromEntries(combination.values.map(([dimension, value]) => [dimension, value.label])),
+              plan.timeDimension ? this.bucketIndex(this.storeContext.moment(fact.order.createdAt), start, plan.timeDimension) : null,
+            ),
+          );
+        }
+        this.addFact(groups.get(key), fact, combination.share, allocated?.[index]);
+      });
+    }
+
+    return { currency: reportCurrency, totals, groups: Array.from(groups.values()) };
+  }
+
+  private buildFacts(orders: ShopifyOrder[], level: 'order' | 'line', currency: string): Fact[] {
+    const amount = (moneyBag: ShopifyOrder['totalPriceSet'] | undefined) => Money.fromShopMoney(moneyBag, currency);
+
+    return orders.flatMap(order => {
+      const lineItems = (order.lineItems?.edges || []).map(edge => edge.node);
+
+      if (level === 'order') {
+        return [
+          {
+            order,
+            item: null,
+            revenue: amount(order.totalPriceSet),
+            refunds: Money.sumBy(order.refunds || [], refund => amount(refund.totalRefundedSet), currency),
+            units: lineItems.reduce((sum, item) => sum + (item.quantity || 0), 0),
+          },
+        ];
+      }
+
+      const refundedByLine = new Map<string, Money>();
+      for (const refund of order.refunds || []) {
+        for (const { node: line } of refund.refundLineItems?.edges || []) {
+          const lineItemId = line.lineItem?.id;
+          if (!lineItemId) continue;
+          refundedByLine.set(
+            lineItemId,
+            (refundedByLine.get(lineItemId) || Money.zero(currency)).add(amount(line.subtotalSet)),
+          );
+        }
+      }
+
+      return lineItems.map(item => ({
+        order,
+        item,
+        revenue: amount(item.originalUnitPriceSet)
+          .multiply(item.quantity || 0)
+          .subtract(amount(item.totalDiscountSet)),
+        refunds: refundedByLine.get(item.id) || Money.zero(currency),
+        units: item.quantity || 0,
+      }));
+    });
+  }
+
+  private getDimensionValues(
+    fact: Fact,
+    dimension: QueryDimension,
+    periodStart: moment.Moment,
+    timeDimension: QueryTimeDimension | null,
+    attributor: RepAttributor | null,
+  ): DimensionValue[] {
+    const { order, item } = fact;
+    const value = (key: string, label: string = key) => [{ key, label, share: 1 }];
+    const product = item?.variant?.product;
+
+    switch (dimension) {
+      case 'day':
+      case 'week':
+      case 'month':
+        return value(this.bucketKey(this.bucketStart(this.storeContext.moment(order.createdAt), dimension), dimension));
+      case 'product_type':
+        return value(product?.productType || 'Uncategorized');
+      case 'vendor':
+        return value(product?.vendor || 'Unknown');
+      case 'sku':
+        return value(item?.sku || item?.variant?.sku || 'No SKU');
+      case 'country':
+        return value(this.currencyService.getMarket(order).country);
+      case 'channel':
+        return value(order.sourceName || 'unknown');
+      case 'rep':
+        // Credits sum to 1 and uncredited orders go to the unassigned rep, so grouping keeps totals
+        return attributor.attribute(order).map(credit => ({
+          key: credit.repId,
+          label: attributor.getRepName(credit.repId),
+          share: credit.share,
+        }));
+      case 'customer_tag': {
+        const tags = [...new Set((order.customer?.tags || []).map(tag => tag.trim()).filter(Boolean))];
+        return tags.length > 0 ? tags.map(tag => ({ key: tag, label: tag, share: 1 })) : value('Untagged');
+      }
+      case 'discount_code': {
+        const codes = [...new Set((order.discountCodes || []).map(code => code.trim()).filter(Boolean))];
+        return codes.length > 0 ? codes.map(code => ({ key: code, label: code, share: 1 })) : value('None');
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Values of a dimension left by a filter. Excluding a value of a multi-valued dimension
+   * (customer tags, discount codes) excludes every order that has it.
+   */
+  private applyFilter(values: DimensionValue[], filter: QueryFilter & { values: string[] }): DimensionValue[] {
+    const matches = (value: DimensionValue) =>
+      filter.values.includes(value.key.toLowerCase()) || filter.values.includes(value.label.toLowerCase());
+
+    if (filter.operator === 'eq' || filter.operator === 'in') {
+      return values.filter(matches);
+    }
+    if (MULTI_VALUED_DIMENSIONS.includes(filter.dimension) && values.some(matches)) {
+      return [];
+    }
+    return values.filter(value => !matches(value));
+  }
+
+  /**
+   * Split a fact's amounts, weighted as in the totals, into parts proportional to shares
+   */
+  private allocateFact(fact: Fact, weight: number, shares: number[]): Array<Pick<Fact, 'revenue' | 'refunds'>> {
+    const revenue = (weight === 1 ? fact.revenue : fact.revenue.multiply(weight)).allocate(shares);
+    const refunds = (weight === 1 ? fact.refunds : fact.refunds.multiply(weight)).allocate(shares);
+
+    return shares.map((share, index) => ({ revenue: revenue[index], refunds: refunds[index] }));
+  }
+
+  /**
+   * Add a share of a fact to a group, with its amounts already allocated when given
+   */
+  private addFact(
+    accumulator: Accumulator,
+    fact: Fact,
+    share: number,
+    amounts: Pick<Fact, 'revenue' | 'refunds'> = {
+      revenue: share === 1 ? fact.revenue : fact.revenue.multiply(share),
+      refunds: share === 1 ? fact.refunds : fact.refunds.multiply(share),
+    },
+  ): void {
+    if (share <= 0) return;
+
+    accumulator.revenue = accumulator.revenue.add(amounts.revenue);
+    accumulator.refunds = accumulator.refunds.add(amounts.refunds);
+    accumulator.units += fact.units * share;
+    accumulator.orders.set(fact.order.id, Math.max(accumulator.orders.get(fact.order.id) || 0, share));
+    if (fact.order.customer?.id) {
+      accumulator.customers.add(fact.order.customer.id);
+    }
+  }
+
+  private emptyAccumulator(
+    currency: string,
+    dimensions: Accumulator['dimensions'],
+    labels: Accumulator['labels'],
+    bucket: number | null,
+  ): Accumulator {
+    return {
+      dimensions,
+      labels,
+      bucket,
+      revenue: Money.zero(currency),
+      refunds: Money.zero(currency),
+      units: 0,
+      orders: new Map(),
+      customers: new Set(),
+    };
+  }
+
+  private toValues(accumulator: Accumulator, measures: QueryMeasure[], currency: string): QueryValues {
+    const orders = Array.from(accumulator.orders.values()).reduce((sum, share) => sum + share, 0);
+    const all: Record<QueryMeasure, Money | number> = {
+      revenue: accumulator.revenue,
+      orders: Math.round(orders * 100) / 100,
+      units: Math.round(accumulator.units * 100) / 100,
+      aov: orders > 0 ? accumulator.revenue.divide(orders) : Money.zero(currency),
+      customers: accumulator.customers.size,
+      refunds: accumulator.refunds,
+    };
+
+    return Object.fromEntries(measures.map(measure => [measure, all[measure]]));
+  }
+
+  private emptyValues(plan: QueryPlan, currency: string): QueryValues {
+    return this.toValues(this.emptyAccumulator(currency, {}, {}, null), plan.measures, currency);
+  }
+
+  private calculateChanges(current: QueryValues, previous: QueryValues): QueryChanges {
+    const changes: QueryChanges = {};
+
+    for (const measure of Object.keys(current) as QueryMeasure[]) {
+      const metric = compareMetric(current[measure], previous[measure]);
+      if (metric) {
+        changes[measure] = { absolute: metric.absolute, percent: metric.percent };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Key matching a group with the same group of another period: its non-time dimension
+   * values and how many time buckets it is into the period
+   */
+  private alignmentKey(group: Accumulator, plan: QueryPlan): string {
+    return JSON.stringify([
+      ...plan.dimensions.filter(dimension => dimension !== plan.timeDimension).map(d => group.dimensions[d]),
+      group.bucket,
+    ]);
+  }
+
+  private sortRows(rows: QueryRow[], plan: QueryPlan): void {
+    const compareBy = (field: string) => (a: QueryRow, b: QueryRow) => {
+      if ((QUERY_DIMENSIONS as readonly string[]).includes(field)) {
+        return String(a.dimensions[field as QueryDimension]).localeCompare(
+          String(b.dimensions[field as QueryDimension]),
+        );
+      }
+      const left = a.values[field as QueryMeasure];
+      const right = b.values[field as QueryMeasure];
+      return left instanceof Money && right instanceof Money
+        ? left.compare(right)
+        : Number(left || 0) - Number(right || 0);
+    };
+
+    if (plan.sortBy) {
+      const compare = compareBy(plan.sortBy);
+      rows.sort((a, b) => (plan.sortDirection === 'asc' ? compare(a, b) : compare(b, a)));
+      return;
+    }
+
+    const byTime = plan.timeDimension ? compareBy(plan.timeDimension) : null;
+    const byMeasure = compareBy(plan.measures[0]);
+    rows.sort((a, b) => (byTime && byTime(a, b)) || byMeasure(b, a));
+  }
+
+  private bucketStart(date: moment.Moment, dimension: QueryTimeDimension): moment.Moment {
+    return date.clone().startOf(dimension === 'week' ? 'isoWeek' : dimension);
+  }
+
+  private bucketKey(bucketStart: moment.Moment, dimension: QueryTimeDimension): string {
+    return bucketStart.format(dimension === 'month' ? 'YYYY-MM' : 'YYYY-MM-DD');
+  }
+
+  private bucketUnit(dimension: QueryTimeDimension): moment.unitOfTime.Base {
+    return dimension === 'day' ? 'day' : dimension === 'week' ? 'week' : 'month';
+  }
+
+  private bucketIndex(date: moment.Moment, periodStart: moment.Moment, dimension: QueryTimeDimension): number {
+    return this.bucketStart(date, dimension).diff(this.bucketStart(periodStart, dimension), this.bucketUnit(dimension));
+  }
+
+  private parseQuery(input: AnalyticsQuery): QueryPlan {
+    if (!input || typeof input !== 'object') {
+      throw new BadRequestException('A query body is required');
+    }
+
+    const measures = input.measures;
+    if (
+      !Array.isArray(measures) ||
+      measures.length === 0 ||
+      measures.some(measure => !QUERY_MEASURES.includes(measure))
+    ) {
+      throw new BadRequestException(`measures must be a non-empty list of: ${QUERY_MEASURES.join(', ')}`);
+    }
+
+    const dimensions = input.dimensions ?? [];
+    if (!Array.isArray(dimensions) || dimensions.some(dimension => !QUERY_DIMENSIONS.includes(dimension))) {
+      throw new BadRequestException(`dimensions must be a list of: ${QUERY_DIMENSIONS.join(', ')}`);
+    }
+    if (new Set(dimensions).size !== dimensions.length || dimensions.length > MAX_DIMENSIONS) {
+      throw new BadRequestException(`dimensions must be up to ${MAX_DIMENSIONS} distinct dimensions`);
+    }
+    const timeDimensions = dimensions.filter(dimension =>
+      (QUERY_TIME_DIMENSIONS as readonly string[]).includes(dimension),
+    ) as QueryTimeDimension[];
+    if (timeDimensions.length > 1) {
+      throw new BadRequestException('Only one of day, week and month can be used at a time');
+    }
+
+    const filters = (input.filters ?? []).map(filter => this.parseFilter(filter));
+    const timezone = this.storeContext.getTimezone();
+    const start = moment.tz(input.startDate, 'YYYY-MM-DD', true, timezone);
+    const end = moment.tz(input.endDate, 'YYYY-MM-DD', true, timezone).endOf('day');
+    if (!start.isValid() || !end.isValid()) {
+      throw new BadRequestException('startDate and endDate are required in YYYY-MM-DD format');
+    }
+    if (start.isAfter(end)) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    const sortBy = input.sortBy ?? null;
+    if (sortBy !== null && !(measures as string[]).includes(sortBy) && !(dimensions as string[]).includes(sortBy)) {
+      throw new BadRequestException('sortBy must be one of the query measures or dimensions');
+    }
+    if (input.sortDirection !== undefined && !['asc', 'desc'].includes(input.sortDirection)) {
+      throw new BadRequestException('sortDirection must be asc or desc');
+    }
+
+    const limit = input.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new BadRequestException(`limit must be a whole number between 1 and ${MAX_LIMIT}`);
+    }
+
+    const lineDimensions = QUERY_LINE_DIMENSIONS as readonly string[];
+    const level =
+      dimensions.some(dimension => lineDimensions.includes(dimension)) ||
+      filters.some(filter => lineDimensions.includes(filter.dimension))
+        ? 'line'
+        : 'order';
+
+    return {
+      measures: [...new Set(measures)],
+      dimensions,
+      filters,
+      timeDimension: timeDimensions[0] || null,
+      level,
+      start,
+      end,
+      currency: input.currency || undefined,
+      sortBy,
+      sortDirection: input.sortDirection || 'desc',
+      limit,
+    };
+  }
+
+  private parseFilter(filter: QueryFilter): QueryFilter & { values: string[] } {
+    if (!filter || typeof filter !== 'object') {
+      throw new BadRequestException('Each filter must be an object with dimension, operator and value');
+    }
+    if (
+      !QUERY_DIMENSIONS.includes(filter.dimension) ||
+      (QUERY_TIME_DIMENSIONS as readonly string[]).includes(filter.dimension)
+    ) {
+      throw new BadRequestException(
+        `Filter dimension must be one of: ${QUERY_DIMENSIONS.filter(d => !(QUERY_TIME_DIMENSIONS as readonly string[]).includes(d)).join(', ')}`,
+      );
+    }
+    if (!QUERY_FILTER_OPERATORS.includes(filter.operator)) {
+      throw new BadRequestException(`Filter operator must be one of: ${QUERY_FILTER_OPERATORS.join(', ')}`);
+    }
+
+    const isList = filter.operator === 'in' || filter.operator === 'not_in';
+    const values = (isList ? filter.value : [filter.value]) as string[];
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      values.some(value => typeof value !== 'string' || !value.trim())
+    ) {
+      throw new BadRequestException(
+        isList
+          ? `Filter value for ${filter.operator} must be a non-empty list of strings`
+          : `Filter value for ${filter.operator} must be a string`,
+      );
+    }
+
+    return {
+      dimension: filter.dimension,
+      operator: filter.operator,
+      value: filter.value,
+      values: values.map(value => value.trim().toLowerCase()),
+    };
+  }
+
+  private parseComparisons(
+    input: AnalyticsQuery['comparisons'],
+    plan: QueryPlan,
+  ): Array<{ type: QueryComparisonType; start: moment.Moment; end: moment.Moment }> {
+    const comparisons = input ?? [];
+    if (!Array.isArray(comparisons) || comparisons.length > MAX_COMPARISONS) {
+      throw new BadRequestException(`comparisons must be a list of up to ${MAX_COMPARISONS} periods`);
+    }
+
+    const timezone = this.storeContext.getTimezone();
+    return comparisons.map(comparison => {
+      if (!comparison || !QUERY_COMPARISONS.includes(comparison.type)) {
+        throw new BadRequestException(`Comparison type must be one of: ${QUERY_COMPARISONS.join(', ')}`);
+      }
+
+      const period = resolveComparisonPeriod(
+        comparison.type,
+        { startDate: plan.start.format('YYYY-MM-DD'), endDate: plan.end.format('YYYY-MM-DD') },
+        comparison,
+      );
+      const start = moment.tz(period.startDate, 'YYYY-MM-DD', true, timezone);
+      const end = moment.tz(period.endDate, 'YYYY-MM-DD', true, timezone).endOf('day');
+      if (!start.isValid() || !end.isValid() || start.isAfter(end)) {
+        throw new BadRequestException('Custom comparisons need a startDate before their endDate, in YYYY-MM-DD format');
+      }
+      return { type: comparison.type, start, end };
+    });
+  }
+}
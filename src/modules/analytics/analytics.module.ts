@@ -6,11 +6,35 @@ import { SalesAnalyticsService } from './sales-analytics.service';
 import { CustomerAnalyticsService } from './customer-analytics.service';
 import { InventoryAnalyticsService } from './inventory-analytics.service';
 import { PerformanceAnalyticsService } from './performance-analytics.service';
+import { ConsolidatedAnalyticsService } from './consolidated-analytics.service';
+import { SalesBreakdownService } from './sales-breakdown.service';
+import { MarginAnalyticsService } from './margin-analytics.service';
+import { AnomalyDetectionService } from './anomaly-detection.service';
+import { AnalyticsQueryService } from './analytics-query.service';
+import { DateRangeAnalyticsService } from './date-range-analytics.service';
 import { RedisModule } from '../redis/redis.module';
 import { ShopifyModule } from '../shopify/shopify.module';
+import { StorageModule } from '../storage/storage.module';
+import { TargetsModule } from '../targets/targets.module';
+import { SalesRepsModule } from '../sales-reps/sales-reps.module';
+import { StoresModule } from '../stores/stores.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { CostsModule } from '../costs/costs.module';
+import { ForecastingModule } from '../forecasting/forecasting.module';
 
 @Module({
-  imports: [ConfigModule, RedisModule, ShopifyModule],
+  imports: [
+    ConfigModule,
+    RedisModule,
+    ShopifyModule,
+    StorageModule,
+    TargetsModule,
+    SalesRepsModule,
+    StoresModule,
+    CurrencyModule,
+    CostsModule,
+    ForecastingModule,
+  ],
   providers: [
     AnalyticsService,
     DataAggregationService,
@@ -18,6 +42,12 @@ import { ShopifyModule } from '../shopify/shopify.module';
     CustomerAnalyticsService,
     InventoryAnalyticsService,
     PerformanceAnalyticsService,
+    ConsolidatedAnalyticsService,
+    SalesBreakdownService,
+    MarginAnalyticsService,
+    AnomalyDetectionService,
+    AnalyticsQueryService,
+    DateRangeAnalyticsService,
   ],
   exports: [
     AnalyticsService,
@@ -26,6 +56,12 @@ import { ShopifyModule } from '../shopify/shopify.module';
     CustomerAnalyticsService,
     InventoryAnalyticsService,
     PerformanceAnalyticsService,
+    ConsolidatedAnalyticsService,
+    SalesBreakdownService,
+    MarginAnalyticsService,
+    AnomalyDetectionService,
+    AnalyticsQueryService,
+    DateRangeAnalyticsService,
   ],
 })
 export class AnalyticsModule {}
@@ -2,11 +2,20 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { RedisService } from '../redis/redis.service';
 import { ShopifyService } from '../shopify/shopify.service';
+import { ShopifyIncrementalSyncService } from '../shopify/shopify-incremental-sync.service';
 import { DataAggregationService } from './data-aggregation.service';
 import { SalesAnalyticsService } from './sales-analytics.service';
 import { CustomerAnalyticsService } from './customer-analytics.service';
 import { InventoryAnalyticsService } from './inventory-analytics.service';
 import { PerformanceAnalyticsService } from './performance-analytics.service';
+import { DateRangeAnalyticsService } from './date-range-analytics.service';
+import { OrderRepository } from '../storage/order.repository';
+import { ProductRepository } from '../storage/product.repository';
+import { CustomerRepository } from '../storage/customer.repository';
+import { CurrencyService } from '../currency/currency.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { Money } from '@shared/money';
+import { zonedMoment } from '@shared/time-zone';
 import {
   DashboardSummary,
   ShopifyOrder,
@@ -28,6 +37,13 @@ export class AnalyticsService {
     private readonly customerAnalyticsService: CustomerAnalyticsService,
     private readonly inventoryAnalyticsService: InventoryAnalyticsService,
     private readonly performanceAnalyticsService: PerformanceAnalyticsService,
+    private readonly orderRepository: OrderRepository,
+    private readonly productRepository: ProductRepository,
+    private readonly customerRepository: CustomerRepository,
+    private readonly incrementalSyncService: ShopifyIncrementalSyncService,
+    private readonly currencyService: CurrencyService,
+    private readonly storeContext: StoreContextService,
+    private readonly dateRangeAnalyticsService: DateRangeAnalyticsService,
   ) {
     this.cacheKeys = this.redisService.getCacheKeys();
   }
@@ -42,14 +58,24 @@ export class AnalyticsService {
       // Update last sync timestamp
       await this.redisService.set(this.cacheKeys.shopify.lastSync, new Date().toISOString());
 
-      // Fetch data from Shopify in parallel for better performance
-      const [orders, products, customers] = await Promise.all([
-        this.shopifyService.fetchRecentOrders(24), // Last 24 hours
-        this.shopifyService.fetchAllProducts(),
-        this.shopifyService.fetchAllCustomers(),
-      ]);
+      // Pull only what changed since the last sync into the analytics store
+      const results = await this.incrementalSyncService.syncAll();
+      for (const result of results) {
+        this.logger.log(
+          `Synced ${result.recordsFetched} ${result.resource}${result.complete ? '' : ' (partial, resuming next run)'}`,
+        );
+      }
+
+      // Product queries carry no per-location levels, so those are paged in by location
+      const levels = await this.shopifyService.fetchAllInventoryLevels();
+      const replaced = this.productRepository.replaceAllInventoryLevels(levels);
+      this.logger.log(`Synced inventory levels of ${replaced} variants`);
 
-      this.logger.log(`Fetched ${orders.length} orders, ${products.length} products, ${customers.length} customers`);
+      // Analytics are computed over the recent order window and the full catalogue
+      const now = new Date();
+      const orders = this.orderRepository.findByDateRange(new Date(now.getTime() - 24 * 60 * 60 * 1000), now);
+      const products = this.productRepository.findAll();
+      const customers = this.customerRepository.findAll();
 
       // Process and cache the data
       await this.processAndCacheData(orders, products, customers);
@@ -97,6 +123,11 @@ export class AnalyticsService {
         this.redisService.set(`${this.cacheKeys.shopify.orders(1)}:latest`, orders.slice(0, 100), { ttl: 600 }),
         this.redisService.set(`${this.cacheKeys.shopify.products(1)}:latest`, products.slice(0, 100), { ttl: 1200 }),
         this.redisService.set(`${this.cacheKeys.shopify.customers(1)}:latest`, customers.slice(0, 100), { ttl: 1200 }),
+
+        // Keep the full synced datasets so webhooks can apply incremental changes
+        this.redisService.set(this.cacheKeys.shopify.datasets.orders, orders, { ttl: 1800 }),
+        this.redisService.set(this.cacheKeys.shopify.datasets.products, products, { ttl: 1800 }),
+        this.redisService.set(this.cacheKeys.shopify.datasets.customers, customers, { ttl: 1800 }),
       ];
 
       await Promise.all(cachePromises);
@@ -108,6 +139,31 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Recompute analytics from the cached sync datasets without calling Shopify.
+   * Returns false when no datasets are cached yet (a full sync is required first).
+   */
+  async refreshFromCachedDatasets(): Promise<boolean> {
+    try {
+      const [orders, products, customers] = await Promise.all([
+        this.redisService.get<ShopifyOrder[]>(this.cacheKeys.shopify.datasets.orders),
+        this.redisService.get<ShopifyProduct[]>(this.cacheKeys.shopify.datasets.products),
+        this.redisService.get<ShopifyCustomer[]>(this.cacheKeys.shopify.datasets.customers),
+      ]);
+
+      if (!orders || !products || !customers) {
+        this.logger.debug('Cached datasets unavailable, skipping incremental refresh');
+        return false;
+      }
+
+      await this.processAndCacheData(orders, products, customers);
+      return true;
+    } catch (error) {
+      this.logger.error('Error refreshing analytics from cached datasets:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get quick dashboard summary with minimal data fetching
    */
@@ -130,14 +186,11 @@ export class AnalyticsService {
         100
       );
 
+      const totalSales = this.sumOrderTotals(recentOrders);
       const quickSummary = {
         totalOrders: recentOrders.length,
-        totalSales: recentOrders.reduce((sum, order) => 
-          sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0),
-        averageOrderValue: recentOrders.length > 0 
-          ? recentOrders.reduce((sum, order) => 
-              sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0) / recentOrders.length 
-          : 0,
+        totalSales,
+        averageOrderValue: totalSales.divide(recentOrders.length),
         period: 'Last 24 hours',
         dataPoints: recentOrders.length,
         lastUpdated: new Date().toISOString(),
@@ -155,12 +208,19 @@ export class AnalyticsService {
   }
 
   /**
-   * Get dashboard summary from cache or generate fresh
+   * Get dashboard summary from cache or generate fresh, optionally in a reporting currency.
+   * Covers the last 24 hours, or the orders placed in a range.
    */
-  async getDashboardSummary(forceRefresh: boolean = false): Promise<DashboardSummary> {
+  async getDashboardSummary(
+    forceRefresh: boolean = false,
+    currency?: string,
+    range?: { start: Date; end: Date },
+  ): Promise<DashboardSummary> {
+    const cacheKey = this.getCacheKey(this.cacheKeys.dashboard.summary, currency, range);
+
     try {
       if (!forceRefresh) {
-        const cached = await this.redisService.get<DashboardSummary>(this.cacheKeys.dashboard.summary);
+        const cached = await this.redisService.get<DashboardSummary>(cacheKey);
         if (cached) {
           this.logger.debug('Dashboard summary served from cache');
           return cached;
@@ -170,16 +230,22 @@ export class AnalyticsService {
       this.logger.log('Generating fresh dashboard summary');
       
       // Fetch fresh data and process
-      const [orders, products, customers] = await Promise.all([
-        this.shopifyService.fetchRecentOrders(24),
-        this.shopifyService.fetchAllProducts(),
-        this.shopifyService.fetchAllCustomers(),
-      ]);
-
-      const summary = await this.dataAggregationService.aggregateDashboardData(orders, products, customers);
+      const [orders, products, customers] = range
+        ? [
+            await this.dateRangeAnalyticsService.loadOrders(range.start, range.end),
+            this.productRepository.findAll(),
+            this.customerRepository.findAll(),
+          ]
+        : await Promise.all([
+            this.shopifyService.fetchRecentOrders(24),
+            this.shopifyService.fetchAllProducts(),
+            this.shopifyService.fetchAllCustomers(),
+          ]);
+
+      const summary = await this.dataAggregationService.aggregateDashboardData(orders, products, customers, currency);
       
       // Cache the result
-      await this.redisService.set(this.cacheKeys.dashboard.summary, summary, { ttl: 60 });
+      await this.redisService.set(cacheKey, summary, { ttl: 60 });
       
       return summary;
     } catch (error) {
@@ -189,12 +255,19 @@ export class AnalyticsService {
   }
 
   /**
-   * Get sales analytics data
+   * Get sales analytics data, optionally in a reporting currency. Covers the last 7 days, or
+   * the orders placed in a range.
    */
-  async getSalesAnalytics(forceRefresh: boolean = false): Promise<any> {
+  async getSalesAnalytics(
+    forceRefresh: boolean = false,
+    currency?: string,
+    range?: { start: Date; end: Date },
+  ): Promise<any> {
+    const cacheKey = this.getCacheKey(this.cacheKeys.dashboard.salesData, currency, range);
+
     try {
       if (!forceRefresh) {
-        const cached = await this.redisService.get(this.cacheKeys.dashboard.salesData);
+        const cached = await this.redisService.get(cacheKey);
         if (cached) {
           this.logger.debug('Sales analytics served from cache');
           return cached;
@@ -203,10 +276,12 @@ export class AnalyticsService {
 
       this.logger.log('Generating fresh sales analytics');
       
-      const orders = await this.shopifyService.fetchRecentOrders(168); // Last 7 days
-      const analytics = await this.salesAnalyticsService.processSalesData(orders);
+      const orders = range
+        ? await this.dateRangeAnalyticsService.loadOrders(range.start, range.end)
+        : await this.shopifyService.fetchRecentOrders(168); // Last 7 days
+      const analytics = await this.salesAnalyticsService.processSalesData(orders, currency);
       
-      await this.redisService.set(this.cacheKeys.dashboard.salesData, analytics, { ttl: 300 });
+      await this.redisService.set(cacheKey, analytics, { ttl: 300 });
       
       return analytics;
     } catch (error) {
@@ -216,12 +291,19 @@ export class AnalyticsService {
   }
 
   /**
-   * Get customer analytics data (FAST VERSION)
+   * Get customer analytics data (FAST VERSION), optionally in a reporting currency. With a
+   * range, covers the customers who ordered in it and their orders there.
    */
-  async getCustomerAnalytics(forceRefresh: boolean = false): Promise<any> {
+  async getCustomerAnalytics(
+    forceRefresh: boolean = false,
+    currency?: string,
+    range?: { start: Date; end: Date },
+  ): Promise<any> {
+    const cacheKey = this.getCacheKey(this.cacheKeys.dashboard.customerData, currency, range);
+
     try {
       if (!forceRefresh) {
-        const cached = await this.redisService.get(this.cacheKeys.dashboard.customerData);
+        const cached = await this.redisService.get(cacheKey);
         if (cached) {
           this.logger.debug('Customer analytics served from cache');
           return cached;
@@ -230,18 +312,13 @@ export class AnalyticsService {
 
       this.logger.log('Generating fresh customer analytics (FAST MODE)');
       
-      // EMERGENCY: Drastically reduced data fetching for speed
-      const [customers, orders] = await Promise.all([
-        this.shopifyService.fetchLimitedCustomers(100), // Max 100 customers
-        this.shopifyService.fetchLimitedOrders(
-          { createdAtMin: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString() }, // Last 24 hours only
-          100 // Max 100 orders
-        ),
-      ]);
+      const { customers, orders } = range
+        ? await this.getRangeCustomers(range)
+        : await this.fetchRecentCustomers();
 
-      const analytics = await this.customerAnalyticsService.processCustomerData(customers, orders);
+      const analytics = await this.customerAnalyticsService.processCustomerData(customers, orders, currency);
       
-      await this.redisService.set(this.cacheKeys.dashboard.customerData, analytics, { ttl: 300 });
+      await this.redisService.set(cacheKey, analytics, { ttl: 300 });
       
       return analytics;
     } catch (error) {
@@ -250,6 +327,33 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Orders placed in a range with the stored customers who placed them
+   */
+  async getRangeCustomers(range: {
+    start: Date;
+    end: Date;
+  }): Promise<{ customers: ShopifyCustomer[]; orders: ShopifyOrder[] }> {
+    const orders = await this.dateRangeAnalyticsService.loadOrders(range.start, range.end);
+    const customerIds = new Set(orders.map(order => order.customer?.id).filter(id => id));
+    const customers = this.customerRepository.findAll().filter(customer => customerIds.has(customer.id));
+
+    return { customers, orders };
+  }
+
+  private async fetchRecentCustomers(): Promise<{ customers: ShopifyCustomer[]; orders: ShopifyOrder[] }> {
+    // EMERGENCY: Drastically reduced data fetching for speed
+    const [customers, orders] = await Promise.all([
+      this.shopifyService.fetchLimitedCustomers(100), // Max 100 customers
+      this.shopifyService.fetchLimitedOrders(
+        { createdAtMin: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString() }, // Last 24 hours only
+        100 // Max 100 orders
+      ),
+    ]);
+
+    return { customers, orders };
+  }
+
   /**
    * Get inventory analytics data (FAST VERSION)
    */
@@ -289,9 +393,11 @@ export class AnalyticsService {
    * Get performance analytics data
    */
   async getPerformanceAnalytics(forceRefresh: boolean = false): Promise<any> {
+    const cacheKey = this.getCacheKey(this.cacheKeys.dashboard.orderData);
+
     try {
       if (!forceRefresh) {
-        const cached = await this.redisService.get(this.cacheKeys.dashboard.orderData);
+        const cached = await this.redisService.get(cacheKey);
         if (cached) {
           this.logger.debug('Performance analytics served from cache');
           return cached;
@@ -307,7 +413,7 @@ export class AnalyticsService {
 
       const analytics = await this.performanceAnalyticsService.processPerformanceData(orders, customers);
       
-      await this.redisService.set(this.cacheKeys.dashboard.orderData, analytics, { ttl: 300 });
+      await this.redisService.set(cacheKey, analytics, { ttl: 300 });
       
       return analytics;
     } catch (error) {
@@ -316,93 +422,6 @@ export class AnalyticsService {
     }
   }
 
-  /**
-   * Get specific date range analytics
-   */
-  async getDateRangeAnalytics(startDate: Date, endDate: Date): Promise<any> {
-    try {
-      const cacheKey = `analytics:date_range:${startDate.toISOString().split('T')[0]}_${endDate.toISOString().split('T')[0]}`;
-      
-      const cached = await this.redisService.get(cacheKey);
-      if (cached) {
-        this.logger.debug('Date range analytics served from cache');
-        return cached;
-      }
-
-      this.logger.log(`Generating analytics for date range (FAST MODE): ${startDate.toISOString()} to ${endDate.toISOString()}`);
-      
-      // EMERGENCY: Limit data fetching for date ranges to prevent timeouts
-      const daysDifference = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-      let maxOrders = 500; // Default limit
-      
-      // Adjust limits based on date range size
-      if (daysDifference <= 7) maxOrders = 200;        // 1 week
-      else if (daysDifference <= 30) maxOrders = 500;  // 1 month  
-      else if (daysDifference <= 90) maxOrders = 800;  // 3 months
-      else maxOrders = 1000; // Longer periods
-      
-      this.logger.log(`Fetching max ${maxOrders} orders for ${daysDifference} day range`);
-      
-      const orders = await this.shopifyService.fetchLimitedOrdersByDateRange(startDate, endDate, maxOrders);
-      
-      // Calculate simplified analytics for the period
-      const totalRevenue = orders.reduce((sum, order) => sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0);
-      const totalOrders = orders.length;
-      const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
-      const uniqueCustomers = new Set(orders.map(order => order.customer?.id).filter(id => id)).size;
-      
-      // Group by month for trends
-      const monthlyData = new Map<string, { revenue: number, orders: number, customers: Set<string> }>();
-      orders.forEach(order => {
-        const month = new Date(order.createdAt).toISOString().substring(0, 7); // YYYY-MM
-        if (!monthlyData.has(month)) {
-          monthlyData.set(month, { revenue: 0, orders: 0, customers: new Set() });
-        }
-        const data = monthlyData.get(month)!;
-        data.revenue += parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
-        data.orders += 1;
-        if (order.customer?.id) data.customers.add(order.customer.id);
-      });
-      
-      const monthlyBreakdown = Array.from(monthlyData.entries()).map(([month, data]) => ({
-        month,
-        revenue: Math.round(data.revenue * 100) / 100,
-        orders: data.orders,
-        customers: data.customers.size,
-        averageOrderValue: data.orders > 0 ? Math.round((data.revenue / data.orders) * 100) / 100 : 0,
-      }));
-      
-      const analytics = {
-        dateRange: {
-          start: startDate.toISOString(),
-          end: endDate.toISOString(),
-          daysCovered: daysDifference,
-        },
-        summary: {
-          totalRevenue: Math.round(totalRevenue * 100) / 100,
-          totalOrders,
-          uniqueCustomers,
-          averageOrderValue: Math.round(averageOrderValue * 100) / 100,
-          ordersAnalyzed: orders.length,
-        },
-        monthlyBreakdown,
-        meta: {
-          mode: 'fast',
-          dataLimited: orders.length === maxOrders,
-          maxOrdersRequested: maxOrders,
-        },
-      };
-      
-      // Cache for longer since historical data doesn't change
-      await this.redisService.set(cacheKey, analytics, { ttl: 3600 });
-      
-      return analytics;
-    } catch (error) {
-      this.logger.error('Error getting date range analytics:', error);
-      throw error;
-    }
-  }
-
   /**
    * Get real-time metrics (no cache)
    */
@@ -417,19 +436,19 @@ export class AnalyticsService {
         outstandingOrders,
       ] = await Promise.all([
         this.shopifyService.getDailySalesData(),
-        this.shopifyService.getDailySalesData(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0]),
+        this.shopifyService.getDailySalesData(
+          zonedMoment(this.storeContext.getTimezone()).subtract(1, 'day').format('YYYY-MM-DD'),
+        ),
         this.shopifyService.getStockLevels(),
         this.shopifyService.getOutstandingOrders(),
       ]);
 
-      const todaySales = todayOrders.reduce((sum, order) => 
-        sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0);
+      const currency = this.currencyService.getShopCurrency([...todayOrders, ...yesterdayOrders]);
+      const todaySales = this.sumOrderTotals(todayOrders, currency);
       
-      const yesterdaySales = yesterdayOrders.reduce((sum, order) => 
-        sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0);
+      const yesterdaySales = this.sumOrderTotals(yesterdayOrders, currency);
 
-      const salesGrowth = yesterdaySales > 0 ? 
-        ((todaySales - yesterdaySales) / yesterdaySales) * 100 : 0;
+      const salesGrowth = todaySales.subtract(yesterdaySales).ratio(yesterdaySales) * 100;
 
       // Count low stock items
       const lowStockCount = stockLevels.reduce((count, product) => {
@@ -454,6 +473,13 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Sum order totals in the shop currency
+   */
+  private sumOrderTotals(orders: ShopifyOrder[], currency = this.currencyService.getShopCurrency(orders)): Money {
+    return Money.sumBy(orders, order => Money.fromShopMoney(order.totalPriceSet, currency), currency);
+  }
+
   /**
    * Clear all analytics cache
    */
@@ -503,4 +529,16 @@ export class AnalyticsService {
       return null;
     }
   }
+
+  /**
+   * Cache key of analytics computed in a requested currency, time zone or date range
+   */
+  private getCacheKey(key: string, currency?: string, range?: { start: Date; end: Date }): string {
+    const timezone = this.storeContext.getTimezoneOverride();
+    let scoped = currency ? `${key}:${currency.trim().toUpperCase()}` : key;
+    if (range) {
+      scoped = `${scoped}:range:${range.start.toISOString()}_${range.end.toISOString()}`;
+    }
+    return timezone ? `${scoped}:tz:${timezone}` : scoped;
+  }
 }
@@ -0,0 +1,402 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as moment from 'moment-timezone';
+import * as _ from 'lodash';
+import { OrderRepository } from '../storage/order.repository';
+import { CurrencyService } from '../currency/currency.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { Money } from '@shared/money';
+import { mean, median, standardDeviation } from '@shared/statistics';
+import { ShopifyOrder } from '@interfaces/shopify.interface';
+import {
+  ANOMALY_GRANULARITIES,
+  ANOMALY_METRICS,
+  ANOMALY_SCORING_METHODS,
+  AnomalyContributor,
+  AnomalyExplanation,
+  AnomalyOptions,
+  AnomalyPeriod,
+  AnomalyReport,
+  AnomalyScoringMethod,
+} from '@interfaces/anomaly.interface';
+
+// Scale factor making the MAD a consistent estimator of the standard deviation of normal data
+const MAD_SCALE = 1.4826;
+// Same for the mean absolute deviation, used when more than half of the residuals are identical
+const MEAN_ABSOLUTE_DEVIATION_SCALE = 1.2533;
+
+// Fewer baseline periods than this leave the periods unscored
+const MIN_BASELINE_SAMPLES = { day: 14, hour: 72 };
+const MAX_PERIODS = { day: 90, hour: 168 };
+const MAX_CONTRIBUTORS = 5;
+
+const EXPLANATION_MEASURES: Record<AnomalyOptions['metric'], AnomalyExplanation['measure']> = {
+  revenue: 'revenue',
+  order_count: 'orders',
+  average_order_value: 'revenue',
+  refund_rate: 'refunded_orders',
+  cancellation_rate: 'cancelled_orders',
+};
+
+/**
+ * Totals of one period. Orders are counted in the period they were placed in, refunds in
+ * the period they were issued in.
+ */
+interface PeriodTotals {
+  revenue: number;
+  // Orders placed, excluding cancelled ones
+  orders: number;
+  // Orders placed, including cancelled ones
+  placed: number;
+  cancelled: number;
+  refundedOrders: Set<string>;
+}
+
+interface Contributions {
+  products: Map<string, { label: string; value: number }>;
+  channels: Map<string, { label: string; value: number }>;
+}
+
+/**
+ * Detects anomalies in hourly or daily revenue, order count, AOV, refund rate and cancellation
+ * rate. Each period is compared with a seasonal baseline: the baseline's average level scaled
+ * by day-of-week and, for hourly periods, hour-of-day factors. The residuals of the baseline
+ * periods set the scale anomalies are scored in, robustly with the MAD or as z-scores.
+ */
+@Injectable()
+export class AnomalyDetectionService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly orderRepository: OrderRepository,
+    private readonly currencyService: CurrencyService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Scoring method used when none is given, from ANOMALY_SCORING_METHOD
+   */
+  getDefaultMethod(): AnomalyScoringMethod {
+    const method = this.configService.get<string>('config.alerts.anomalyScoringMethod', 'mad');
+    return ANOMALY_SCORING_METHODS.includes(method as AnomalyScoringMethod) ? (method as AnomalyScoringMethod) : 'mad';
+  }
+
+  /**
+   * Bounds of the baseline and of the scored periods, which end with the last complete period
+   * before now. Days and hours follow the store's time zone.
+   */
+  getRange(options: AnomalyOptions, now: Date = new Date()): { baselineStart: Date; scoredStart: Date; end: Date } {
+    const end = this.storeContext.moment(now).startOf(options.granularity);
+    const scoredStart = end.clone().subtract(options.periodCount, options.granularity);
+    const baselineStart = scoredStart.clone().subtract(options.baselineDays, 'days');
+
+    return { baselineStart: baselineStart.toDate(), scoredStart: scoredStart.toDate(), end: end.toDate() };
+  }
+
+  /**
+   * Score the last complete periods against the seasonal baseline before them and explain the
+   * latest one by the products and sales channels that moved most. Orders are loaded from
+   * storage unless given; they have to cover the range, cancelled orders included.
+   */
+  detect(options: AnomalyOptions, now: Date = new Date(), orders?: ShopifyOrder[]): AnomalyReport {
+    this.validateOptions(options);
+
+    const { baselineStart, end } = this.getRange(options, now);
+    const currency = this.currencyService.getShopCurrency();
+    const timezone = this.storeContext.getTimezone();
+
+    // Period bounds, from the baseline start to the end; days around DST changes last 23 or 25 hours
+    const bounds: number[] = [];
+    for (const bound = moment.tz(baselineStart, timezone); !bound.isAfter(end); bound.add(1, options.granularity)) {
+      bounds.push(bound.valueOf());
+    }
+    const totalCount = bounds.length - 1;
+    const baselineCount = totalCount - options.periodCount;
+
+    // Refunds issued in the range on orders placed before it are not counted
+    const rangeOrders = orders ?? this.orderRepository.findByDateRange(baselineStart, end, { includeCancelled: true });
+    const indexOf = (timestamp: string) => {
+      const time = new Date(timestamp).getTime();
+      if (time < bounds[0] || time >= bounds[totalCount]) return null;
+      return _.sortedLastIndex(bounds, time) - 1;
+    };
+    const starts = bounds.slice(0, totalCount).map(bound => new Date(bound));
+    const slotOf = (index: number) => this.slotOf(starts[index], options.granularity, timezone);
+
+    const totals: PeriodTotals[] = Array.from({ length: totalCount }, () => ({
+      revenue: 0,
+      orders: 0,
+      placed: 0,
+      cancelled: 0,
+      refundedOrders: new Set<string>(),
+    }));
+
+    for (const order of rangeOrders) {
+      const index = indexOf(order.createdAt);
+      if (index !== null) {
+        totals[index].placed++;
+        if (order.cancelledAt) {
+          totals[index].cancelled++;
+        } else {
+          totals[index].orders++;
+          totals[index].revenue += Money.fromShopMoney(order.totalPriceSet, currency).toNumber();
+        }
+      }
+
+      for (const refund of order.refunds || []) {
+        const refundIndex = indexOf(refund.createdAt);
+        if (refundIndex !== null) totals[refundIndex].refundedOrders.add(order.id);
+      }
+    }
+
+    const values = totals.map(period => this.metricValue(options.metric, period));
+    const baseline = values
+      .slice(0, baselineCount)
+      .map((value, index) => ({ value, start: starts[index] }))
+      .filter(sample => sample.value !== null);
+
+    const expectedAt = this.fitSeasonalBaseline(baseline, options.granularity, timezone);
+    const residuals = baseline.map(sample => sample.value - expectedAt(sample.start));
+    const scale =
+      baseline.length >= MIN_BASELINE_SAMPLES[options.granularity] ? this.scale(residuals, options.method) : null;
+
+    const periods: AnomalyPeriod[] = [];
+    for (let index = baselineCount; index < totalCount; index++) {
+      const expected = expectedAt(starts[index]);
+      const actual = values[index];
+
+      periods.push({
+        start: starts[index].toISOString(),
+        end: new Date(bounds[index + 1]).toISOString(),
+        actual: actual === null ? null : this.round(actual),
+        expected: this.round(expected),
+        score: actual === null || !scale ? null : this.round((actual - expected - scale.center) / scale.spread),
+      });
+    }
+
+    const latest = periods[periods.length - 1];
+    const latestIndex = totalCount - 1;
+    const sameSlot = (index: number) => index < baselineCount && slotOf(index) === slotOf(latestIndex);
+
+    return {
+      ...options,
+      generatedAt: now.toISOString(),
+      baselineSamples: baseline.length,
+      residualScale: scale ? this.round(scale.spread) : null,
+      periods,
+      latest: {
+        ...latest,
+        explanation: this.explain(
+          options.metric,
+          rangeOrders,
+          currency,
+          indexOf,
+          index => index === latestIndex,
+          sameSlot,
+          Array.from({ length: baselineCount }, (_, index) => index).filter(sameSlot).length,
+          latest.score ?? 0,
+        ),
+      },
+    };
+  }
+
+  private validateOptions(options: AnomalyOptions): void {
+    if (!ANOMALY_METRICS.includes(options.metric)) {
+      throw new BadRequestException(`Invalid metric. Valid: ${ANOMALY_METRICS.join(', ')}`);
+    }
+    if (!ANOMALY_GRANULARITIES.includes(options.granularity)) {
+      throw new BadRequestException(`Invalid granularity. Valid: ${ANOMALY_GRANULARITIES.join(', ')}`);
+    }
+    if (!ANOMALY_SCORING_METHODS.includes(options.method)) {
+      throw new BadRequestException(`Invalid method. Valid: ${ANOMALY_SCORING_METHODS.join(', ')}`);
+    }
+    if (!Number.isInteger(options.baselineDays) || options.baselineDays < 14 || options.baselineDays > 365) {
+      throw new BadRequestException('baselineDays must be a whole number between 14 and 365');
+    }
+
+    const maxPeriods = MAX_PERIODS[options.granularity];
+    if (!Number.isInteger(options.periodCount) || options.periodCount < 1 || options.periodCount > maxPeriods) {
+      throw new BadRequestException(`periods must be a whole number between 1 and ${maxPeriods}`);
+    }
+  }
+
+  private metricValue(metric: AnomalyOptions['metric'], period: PeriodTotals): number | null {
+    switch (metric) {
+      case 'revenue':
+        return period.revenue;
+      case 'order_count':
+        return period.orders;
+      case 'average_order_value':
+        return period.orders > 0 ? period.revenue / period.orders : null;
+      case 'refund_rate':
+        return period.orders > 0 ? (period.refundedOrders.size / period.orders) * 100 : null;
+      case 'cancellation_rate':
+        return period.placed > 0 ? (period.cancelled / period.placed) * 100 : null;
+    }
+  }
+
+  /**
+   * Fit the baseline's level and multiplicative day-of-week factors and, for hourly periods,
+   * hour-of-day factors measured after removing the day-of-week pattern, both in the store's
+   * time zone. Returns the expected value of the period starting at a time.
+   */
+  private fitSeasonalBaseline(
+    samples: Array<{ value: number; start: Date }>,
+    granularity: AnomalyOptions['granularity'],
+    timezone: string,
+  ): (start: Date) => number {
+    const level = mean(samples.map(sample => sample.value));
+    if (level === 0) return () => 0;
+
+    const factors = (slot: (start: Date) => number, adjust: (sample: { value: number; start: Date }) => number) => {
+      const bySlot = new Map<number, number[]>();
+      for (const sample of samples) {
+        const key = slot(sample.start);
+        bySlot.set(key, [...(bySlot.get(key) || []), adjust(sample)]);
+      }
+      return new Map([...bySlot].map(([key, slotValues]) => [key, mean(slotValues) / level]));
+    };
+
+    const dayOfWeek = factors(
+      start => this.slotOf(start, 'day', timezone),
+      sample => sample.value,
+    );
+    const dayFactor = (start: Date) => dayOfWeek.get(this.slotOf(start, 'day', timezone)) ?? 1;
+    if (granularity === 'day') {
+      return start => level * dayFactor(start);
+    }
+
+    const hourOfDay = factors(
+      start => this.slotOf(start, 'hour', timezone),
+      sample => (dayFactor(sample.start) > 0 ? sample.value / dayFactor(sample.start) : 0),
+    );
+    return start => level * dayFactor(start) * (hourOfDay.get(this.slotOf(start, 'hour', timezone)) ?? 1);
+  }
+
+  /**
+   * Seasonal slot of a period start: its hour of day for hourly periods, else its day of week
+   */
+  private slotOf(start: Date, granularity: AnomalyOptions['granularity'], timezone: string): number {
+    const local = moment.tz(start, timezone);
+    return granularity === 'hour' ? local.hour() : local.day();
+  }
+
+  /**
+   * Centre and spread of the baseline residuals; null when they do not vary
+   */
+  private scale(residuals: number[], method: AnomalyScoringMethod): { center: number; spread: number } | null {
+    const center = method === 'mad' ? median(residuals) : mean(residuals);
+    let spread =
+      method === 'mad'
+        ? MAD_SCALE * median(residuals.map(residual => Math.abs(residual - center)))
+        : standardDeviation(residuals);
+
+    if (spread === 0) {
+      spread = MEAN_ABSOLUTE_DEVIATION_SCALE * mean(residuals.map(residual => Math.abs(residual - center)));
+    }
+
+    return spread > 0 ? { center, spread } : null;
+  }
+
+  /**
+   * Compare each product's and channel's part of the metric in the latest period with its
+   * average over the baseline periods in the same hour of day or day of week
+   */
+  private explain(
+    metric: AnomalyOptions['metric'],
+    orders: ShopifyOrder[],
+    currency: string,
+    indexOf: (timestamp: string) => number | null,
+    isLatest: (index: number) => boolean,
+    isComparable: (index: number) => boolean,
+    comparableCount: number,
+    score: number,
+  ): AnomalyExplanation {
+    const measure = EXPLANATION_MEASURES[metric];
+    const latest: Contributions = { products: new Map(), channels: new Map() };
+    const comparable: Contributions = { products: new Map(), channels: new Map() };
+
+    const add = (
+      contributions: Contributions,
+      order: ShopifyOrder,
+      channelValue: number,
+      productValues: Map<string, { label: string; value: number }>,
+    ) => {
+      const channel = order.sourceName || 'unknown';
+      const existing = contributions.channels.get(channel);
+      contributions.channels.set(channel, { label: channel, value: (existing?.value || 0) + channelValue });
+
+      for (const [id, product] of productValues) {
+        const current = contributions.products.get(id);
+        contributions.products.set(id, { label: product.label, value: (current?.value || 0) + product.value });
+      }
+    };
+
+    for (const order of orders) {
+      let index: number | null;
+      if (measure === 'refunded_orders') {
+        const refund = (order.refunds || []).find(candidate => {
+          const refundIndex = indexOf(candidate.createdAt);
+          return refundIndex !== null && (isLatest(refundIndex) || isComparable(refundIndex));
+        });
+        index = refund ? indexOf(refund.createdAt) : null;
+      } else if (measure === 'cancelled_orders') {
+        index = order.cancelledAt ? indexOf(order.createdAt) : null;
+      } else {
+        index = order.cancelledAt ? null : indexOf(order.createdAt);
+      }
+      if (index === null || (!isLatest(index) && !isComparable(index))) continue;
+
+      const products = new Map<string, { label: string; value: number }>();
+      for (const { node: item } of order.lineItems?.edges || []) {
+        const id = item.variant?.product?.id || `title:${item.title}`;
+        const value =
+          measure === 'revenue'
+            ? Money.fromShopMoney(item.discountedUnitPriceSet, currency)
+                .multiply(item.quantity || 0)
+                .toNumber()
+            : 1;
+        const label = item.variant?.product?.title || item.title;
+        // Count orders rather than line items for the order-based measures
+        products.set(id, { label, value: measure === 'revenue' ? (products.get(id)?.value || 0) + value : 1 });
+      }
+
+      const channelValue = measure === 'revenue' ? Money.fromShopMoney(order.totalPriceSet, currency).toNumber() : 1;
+      add(isLatest(index) ? latest : comparable, order, channelValue, products);
+    }
+
+    const rank = (
+      actual: Map<string, { label: string; value: number }>,
+      baseline: Map<string, { label: string; value: number }>,
+    ): AnomalyContributor[] => {
+      const ids = new Set([...actual.keys(), ...baseline.keys()]);
+      const contributors = [...ids].map(id => {
+        const actualValue = actual.get(id)?.value || 0;
+        const expected = comparableCount > 0 ? (baseline.get(id)?.value || 0) / comparableCount : 0;
+        return {
+          id,
+          label: actual.get(id)?.label || baseline.get(id)?.label || id,
+          actual: this.round(actualValue),
+          expected: this.round(expected),
+          difference: this.round(actualValue - expected),
+        };
+      });
+
+      // Drops are explained by what fell most, spikes by what rose most
+      const direction = score < 0 ? -1 : 1;
+      return contributors
+        .filter(contributor => Math.sign(contributor.difference) === direction)
+        .sort((a, b) => direction * (b.difference - a.difference))
+        .slice(0, MAX_CONTRIBUTORS);
+    };
+
+    return {
+      measure,
+      products: rank(latest.products, comparable.products),
+      channels: rank(latest.channels, comparable.channels),
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,124 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { OrderRepository } from '../storage/order.repository';
+import { StoreContextService } from '../stores/store-context.service';
+import { CurrencyService } from '../currency/currency.service';
+import { Money } from '@shared/money';
+import {
+  ConsolidatedPeriodRevenue,
+  ConsolidatedRevenueView,
+  ConsolidatedStoreRevenue,
+  StoreConfig,
+} from '@interfaces/store.interface';
+
+const PERIODS = ['today', 'last7Days', 'monthToDate', 'yearToDate'] as const;
+type ConsolidatedPeriod = (typeof PERIODS)[number];
+
+/**
+ * Revenue rolled up across every registered store, converted to one currency
+ */
+@Injectable()
+export class ConsolidatedAnalyticsService {
+  private readonly logger = new Logger(ConsolidatedAnalyticsService.name);
+
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly storeContext: StoreContextService,
+    private readonly currencyService: CurrencyService,
+  ) {}
+
+  /**
+   * Per-store and total revenue for today, the last 7 days, month to date and year to date,
+   * each store's periods starting in its own time zone. Orders in currencies without an
+   * exchange rate are listed but left out of the totals.
+   */
+  async getConsolidatedRevenue(currency?: string): Promise<ConsolidatedRevenueView> {
+    const targetCurrency = (currency || this.currencyService.getReportingCurrency()).trim().toUpperCase();
+    if (!this.currencyService.hasRate(targetCurrency)) {
+      throw new BadRequestException(`No exchange rate configured for ${targetCurrency}`);
+    }
+
+    const now = new Date();
+    const unconverted = new Set<string>();
+    const results = await this.storeContext.forEachStore(async store => {
+      try {
+        return this.getStoreRevenue(store, this.getPeriodStarts(now), now, targetCurrency, unconverted);
+      } catch (error) {
+        this.logger.error(`Failed to load revenue for store ${store.id}:`, error);
+        return { ...this.emptyStoreRevenue(store, targetCurrency), error: error.message };
+      }
+    });
+
+    const stores = Array.from(results.values());
+    const totals = this.emptyPeriods(targetCurrency);
+    for (const store of stores) {
+      for (const period of PERIODS) {
+        totals[period].revenue = totals[period].revenue.add(store[period].revenue);
+        totals[period].orders += store[period].orders;
+      }
+    }
+
+    return {
+      currency: targetCurrency,
+      stores,
+      totals,
+      unconvertedCurrencies: Array.from(unconverted).sort(),
+    };
+  }
+
+  /**
+   * Start of each period in the current store's time zone
+   */
+  private getPeriodStarts(now: Date): Record<ConsolidatedPeriod, Date> {
+    const local = this.storeContext.moment(now);
+    return {
+      today: local.clone().startOf('day').toDate(),
+      last7Days: local.clone().subtract(7, 'days').toDate(),
+      monthToDate: local.clone().startOf('month').toDate(),
+      yearToDate: local.clone().startOf('year').toDate(),
+    };
+  }
+
+  private getStoreRevenue(
+    store: StoreConfig,
+    periodStarts: Record<ConsolidatedPeriod, Date>,
+    end: Date,
+    targetCurrency: string,
+    unconverted: Set<string>,
+  ): ConsolidatedStoreRevenue {
+    const revenue = this.emptyStoreRevenue(store, targetCurrency);
+    // Orders synced without a currency code were taken in the shop currency
+    const shopCurrency = store.currency || this.currencyService.getReportingCurrency();
+
+    for (const period of PERIODS) {
+      for (const row of this.orderRepository.sumRevenueByCurrency(periodStarts[period], end, shopCurrency)) {
+        const converted = this.currencyService.convert(row.revenue, targetCurrency);
+
+        if (period === 'yearToDate') {
+          revenue.revenueByCurrency[row.currencyCode] = row.revenue;
+        }
+        if (converted === null) {
+          unconverted.add(row.currencyCode);
+          continue;
+        }
+
+        revenue[period].revenue = revenue[period].revenue.add(converted);
+        revenue[period].orders += row.orders;
+      }
+    }
+
+    return revenue;
+  }
+
+  private emptyStoreRevenue(store: StoreConfig, currency: string): ConsolidatedStoreRevenue {
+    return { storeId: store.id, storeName: store.name, revenueByCurrency: {}, ...this.emptyPeriods(currency) };
+  }
+
+  private emptyPeriods(currency: string): Record<ConsolidatedPeriod, ConsolidatedPeriodRevenue> {
+    return {
+      today: { revenue: Money.zero(currency), orders: 0 },
+      last7Days: { revenue: Money.zero(currency), orders: 0 },
+      monthToDate: { revenue: Money.zero(currency), orders: 0 },
+      yearToDate: { revenue: Money.zero(currency), orders: 0 },
+    };
+  }
+}
@@ -9,20 +9,42 @@ import {
   PurchaseRecord,
   SeasonalTrend,
 } from '@interfaces/shopify.interface';
+import { CurrencyService } from '../currency/currency.service';
+import { Money } from '@shared/money';
+import { MarginAnalyticsService } from './margin-analytics.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { MarginFigures } from '@interfaces/cost.interface';
 
 @Injectable()
 export class CustomerAnalyticsService {
   private readonly logger = new Logger(CustomerAnalyticsService.name);
 
+  constructor(
+    private readonly currencyService: CurrencyService,
+    private readonly marginAnalyticsService: MarginAnalyticsService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
   /**
-   * Process customer data and generate comprehensive analytics
+   * Process customer data and generate comprehensive analytics. Amounts are in the shop
+   * currency unless a reporting currency is given.
    */
-  async processCustomerData(customers: ShopifyCustomer[], orders: ShopifyOrder[]): Promise<any> {
+  async processCustomerData(customers: ShopifyCustomer[], orders: ShopifyOrder[], currency?: string): Promise<any> {
     this.logger.log('Processing customer analytics data');
 
     try {
+      const reportCurrency = currency
+        ? this.currencyService.resolveCurrency(currency)
+        : this.currencyService.getShopCurrency(orders);
+
       // EMERGENCY: Use fast version with only essential calculations
-      return this.processCustomerDataFast(customers, orders);
+      const analytics = await this.processCustomerDataFast(
+        this.currencyService.convertCustomers(customers, currency),
+        this.currencyService.convertOrders(orders, currency),
+        reportCurrency,
+      );
+
+      return { ...analytics, currency: reportCurrency };
     } catch (error) {
       this.logger.error('Error processing customer data:', error);
       throw error;
@@ -32,11 +54,11 @@ export class CustomerAnalyticsService {
   /**
    * Fast customer analytics with only essential calculations
    */
-  async processCustomerDataFast(customers: ShopifyCustomer[], orders: ShopifyOrder[]): Promise<any> {
+  async processCustomerDataFast(customers: ShopifyCustomer[], orders: ShopifyOrder[], currency: string): Promise<any> {
     this.logger.log('Processing customer analytics (FAST MODE)');
     
     // Only do essential calculations, skip heavy processing
-    const profitabilityAnalysis = await this.calculateCustomerProfitabilityFast(customers, orders);
+    const profitabilityAnalysis = await this.calculateCustomerProfitabilityFast(customers, orders, currency);
     
     return {
       profitabilityAnalysis,
@@ -45,7 +67,7 @@ export class CustomerAnalyticsService {
         activeCustomers: this.countActiveCustomers(customers, orders),
         newCustomers: this.countNewCustomers(customers),
         averageOrdersPerCustomer: this.calculateAverageOrdersPerCustomer(customers),
-        averageCustomerValue: this.calculateAverageCustomerValue(customers),
+        averageCustomerValue: this.calculateAverageCustomerValue(customers, currency),
       },
       lastUpdated: new Date().toISOString(),
       mode: 'fast',
@@ -55,7 +77,7 @@ export class CustomerAnalyticsService {
   /**
    * Original comprehensive analytics (SLOW - disabled)
    */
-  async processCustomerDataComplete(customers: ShopifyCustomer[], orders: ShopifyOrder[]): Promise<any> {
+  async processCustomerDataComplete(customers: ShopifyCustomer[], orders: ShopifyOrder[], currency: string): Promise<any> {
     this.logger.log('Processing customer analytics data (COMPLETE)');
 
     try {
@@ -68,12 +90,12 @@ export class CustomerAnalyticsService {
         customerLifetimeValue,
         churnAnalysis,
       ] = await Promise.all([
-        this.calculateCustomerSegmentation(customers, orders),
-        this.calculateCustomerProfitability(customers, orders),
-        this.calculatePurchaseHistoryAnalysis(customers, orders),
+        this.calculateCustomerSegmentation(customers, orders, currency),
+        this.calculateCustomerProfitability(customers, orders, currency),
+        this.calculatePurchaseHistoryAnalysis(customers, orders, currency),
         this.calculateCohortAnalysis(orders),
         this.calculateRetentionMetrics(customers, orders),
-        this.calculateCustomerLifetimeValue(customers, orders),
+        this.calculateCustomerLifetimeValue(customers, orders, currency),
         this.calculateChurnAnalysis(customers, orders),
       ]);
 
@@ -90,7 +112,7 @@ export class CustomerAnalyticsService {
           activeCustomers: this.countActiveCustomers(customers, orders),
           newCustomers: this.countNewCustomers(customers),
           averageOrdersPerCustomer: this.calculateAverageOrdersPerCustomer(customers),
-          averageCustomerValue: this.calculateAverageCustomerValue(customers),
+          averageCustomerValue: this.calculateAverageCustomerValue(customers, currency),
         },
         lastUpdated: new Date().toISOString(),
       };
@@ -103,7 +125,7 @@ export class CustomerAnalyticsService {
   /**
    * Calculate customer segmentation based on RFM analysis
    */
-  private async calculateCustomerSegmentation(customers: ShopifyCustomer[], orders: ShopifyOrder[]) {
+  private async calculateCustomerSegmentation(customers: ShopifyCustomer[], orders: ShopifyOrder[], currency: string) {
     const customerOrderMap = new Map<string, ShopifyOrder[]>();
     
     // Group orders by customer
@@ -122,14 +144,14 @@ export class CustomerAnalyticsService {
       
       // Recency: Days since last purchase
       const lastOrderDate = customerOrders.length > 0 ? 
-        moment.max(customerOrders.map(order => moment(order.createdAt))) : null;
-      const recency = lastOrderDate ? moment().diff(lastOrderDate, 'days') : 999;
+        moment.max(customerOrders.map(order => this.storeContext.moment(order.createdAt))) : null;
+      const recency = lastOrderDate ? this.storeContext.moment().diff(lastOrderDate, 'days') : 999;
 
       // Frequency: Number of orders
       const frequency = customerOrders.length;
 
       // Monetary: Total spent
-      const monetary = parseFloat(customer.amountSpent?.amount || '0');
+      const monetary = Money.fromMoneyV2(customer.amountSpent, currency);
 
       return {
         customerId: customer.id,
@@ -145,7 +167,7 @@ export class CustomerAnalyticsService {
     // Calculate quintiles for segmentation
     const sortedByRecency = [...rfmData].sort((a, b) => a.recency - b.recency);
     const sortedByFrequency = [...rfmData].sort((a, b) => b.frequency - a.frequency);
-    const sortedByMonetary = [...rfmData].sort((a, b) => b.monetary - a.monetary);
+    const sortedByMonetary = [...rfmData].sort((a, b) => b.monetary.compare(a.monetary));
 
     const getQuintile = (array: any[], item: any, field: string) => {
       const index = array.findIndex(x => x.customerId === item.customerId);
@@ -192,7 +214,7 @@ export class CustomerAnalyticsService {
         name: segmentName,
         count: customers.length,
         percentage: (customers.length / rfmData.length) * 100,
-        averageMonetary: _.meanBy(customers, 'monetary'),
+        averageMonetary: Money.sumBy(customers, customer => customer.monetary, currency).divide(customers.length),
         averageFrequency: _.meanBy(customers, 'frequency'),
         averageRecency: _.meanBy(customers, 'recency'),
         customers: customers.slice(0, 10), // Top 10 for preview
@@ -206,16 +228,21 @@ export class CustomerAnalyticsService {
    */
   private async calculateCustomerProfitabilityFast(
     customers: ShopifyCustomer[], 
-    orders: ShopifyOrder[]
+    orders: ShopifyOrder[],
+    currency: string,
   ): Promise<CustomerProfitabilityAnalysis[]> {
     // EMERGENCY: Simplified profitability calculation
+    const margins = this.getCustomerMargins(orders, currency);
+
     return customers
       .filter(customer => customer.numberOfOrders > 0)
       .slice(0, 50) // Max 50 customers for speed
       .map(customer => {
-        const totalSpent = parseFloat(customer.amountSpent?.amount || '0');
+        const totalSpent = Money.fromMoneyV2(customer.amountSpent, currency);
+        const margin = margins.get(customer.id) || this.marginAnalyticsService.emptyFigures(currency);
         const orderCount = customer.numberOfOrders;
-        const averageOrderValue = orderCount > 0 ? totalSpent / orderCount : 0;
+        const averageOrderValue = totalSpent.divide(orderCount);
+        const spent = totalSpent.toNumber();
 
         return {
           customerId: customer.id,
@@ -225,16 +252,27 @@ export class CustomerAnalyticsService {
           totalSpent,
           orderCount,
           averageOrderValue,
-          lifetimeValue: totalSpent * 1.5, // Simplified LTV
-          profitMargin: totalSpent * 0.3, // 30% margin estimate
+          lifetimeValue: totalSpent.multiply(1.5), // Simplified LTV
+          cogs: margin.cogs,
+          grossMargin: margin.grossMargin,
+          marginPercentage: margin.marginPercentage,
+          costCoverage: margin.costCoverage,
           lastPurchaseDate: 'N/A', // Skip expensive date calculations
           daysSinceLastPurchase: 0,
           purchaseFrequency: orderCount / 12, // Simplified frequency
-          segmentation: (totalSpent > 1000 ? 'High Value' : totalSpent > 500 ? 'Medium Value' : 'Low Value') as 'High Value' | 'Medium Value' | 'Low Value' | 'At Risk' | 'New', // Add missing field
-          riskScore: totalSpent < 100 ? 'HIGH' : 'LOW',
+          segmentation: (spent > 1000 ? 'High Value' : spent > 500 ? 'Medium Value' : 'Low Value') as 'High Value' | 'Medium Value' | 'Low Value' | 'At Risk' | 'New', // Add missing field
+          riskScore: spent < 100 ? 'HIGH' : 'LOW',
         };
       })
-      .sort((a, b) => b.totalSpent - a.totalSpent);
+      .sort((a, b) => b.totalSpent.compare(a.totalSpent));
+  }
+
+  /**
+   * Gross margin of each customer's orders, keyed by customer id
+   */
+  private getCustomerMargins(orders: ShopifyOrder[], currency: string): Map<string, MarginFigures> {
+    const { rows } = this.marginAnalyticsService.calculateMargins(orders, 'customer', currency);
+    return new Map(rows.map(row => [row.key, row]));
   }
 
   /**
@@ -242,7 +280,8 @@ export class CustomerAnalyticsService {
    */
   private async calculateCustomerProfitability(
     customers: ShopifyCustomer[], 
-    orders: ShopifyOrder[]
+    orders: ShopifyOrder[],
+    currency: string,
   ): Promise<CustomerProfitabilityAnalysis[]> {
     const customerOrderMap = new Map<string, ShopifyOrder[]>();
     
@@ -257,42 +296,41 @@ export class CustomerAnalyticsService {
       }
     });
 
+    const margins = this.getCustomerMargins(orders, currency);
+
     const profitabilityData = customers
       .filter(customer => customer.numberOfOrders > 0)
       .map(customer => {
         const customerOrders = customerOrderMap.get(customer.id) || [];
-        const totalSpent = parseFloat(customer.amountSpent?.amount || '0');
+        const margin = margins.get(customer.id) || this.marginAnalyticsService.emptyFigures(currency);
+        const totalSpent = Money.fromMoneyV2(customer.amountSpent, currency);
+        const spent = totalSpent.toNumber();
         const orderCount = customer.numberOfOrders;
-        const averageOrderValue = orderCount > 0 ? totalSpent / orderCount : 0;
+        const averageOrderValue = totalSpent.divide(orderCount);
 
         // Calculate lifetime value (simplified)
         const estimatedLifetimeMonths = 24; // 2 years average
-        const monthlyOrderFrequency = orderCount / this.getCustomerAgeInMonths(customer.createdAt);
-        const lifetimeValue = averageOrderValue * monthlyOrderFrequency * estimatedLifetimeMonths;
-
-        // Calculate profit margin (simplified - would need cost data in reality)
-        const estimatedProfitMargin = 0.3; // 30% margin
-        const profitMargin = totalSpent * estimatedProfitMargin;
+        const customerAgeMonths = this.getCustomerAgeInMonths(customer.createdAt);
+        const lifetimeValue = averageOrderValue.multiply(orderCount * estimatedLifetimeMonths).divide(customerAgeMonths);
 
         // Find last purchase date
         const lastPurchaseDate = customerOrders.length > 0 ? 
-          moment.max(customerOrders.map(order => moment(order.createdAt))).format('YYYY-MM-DD') : 
+          moment.max(customerOrders.map(order => this.storeContext.moment(order.createdAt))).format('YYYY-MM-DD') : 
           'Never';
 
         const daysSinceLastPurchase = customerOrders.length > 0 ? 
-          moment().diff(moment.max(customerOrders.map(order => moment(order.createdAt))), 'days') : 
+          this.storeContext.moment().diff(moment.max(customerOrders.map(order => this.storeContext.moment(order.createdAt))), 'days') : 
           999;
 
         // Purchase frequency (orders per month)
-        const customerAgeMonths = this.getCustomerAgeInMonths(customer.createdAt);
         const purchaseFrequency = customerAgeMonths > 0 ? orderCount / customerAgeMonths : 0;
 
         // Determine segmentation
         let segmentation: 'High Value' | 'Medium Value' | 'Low Value' | 'At Risk' | 'New' = 'Low Value';
         
-        if (daysSinceLastPurchase <= 30 && totalSpent >= 1000) {
+        if (daysSinceLastPurchase <= 30 && spent >= 1000) {
           segmentation = 'High Value';
-        } else if (daysSinceLastPurchase <= 60 && totalSpent >= 500) {
+        } else if (daysSinceLastPurchase <= 60 && spent >= 500) {
           segmentation = 'Medium Value';
         } else if (daysSinceLastPurchase > 90) {
           segmentation = 'At Risk';
@@ -305,18 +343,21 @@ export class CustomerAnalyticsService {
           customerName: customer.displayName || `${customer.firstName} ${customer.lastName}`.trim() || 'Unknown',
           email: customer.email,
           registrationDate: customer.createdAt,
-          totalSpent: Math.round(totalSpent * 100) / 100,
+          totalSpent,
           orderCount,
-          averageOrderValue: Math.round(averageOrderValue * 100) / 100,
-          lifetimeValue: Math.round(lifetimeValue * 100) / 100,
-          profitMargin: Math.round(profitMargin * 100) / 100,
+          averageOrderValue,
+          lifetimeValue,
+          cogs: margin.cogs,
+          grossMargin: margin.grossMargin,
+          marginPercentage: margin.marginPercentage,
+          costCoverage: margin.costCoverage,
           lastPurchaseDate,
           daysSinceLastPurchase,
           purchaseFrequency: Math.round(purchaseFrequency * 100) / 100,
           segmentation,
         };
       })
-      .sort((a, b) => b.totalSpent - a.totalSpent)
+      .sort((a, b) => b.totalSpent.compare(a.totalSpent))
       .slice(0, 100); // Top 100 customers
 
     return profitabilityData;
@@ -327,7 +368,8 @@ export class CustomerAnalyticsService {
    */
   private async calculatePurchaseHistoryAnalysis(
     customers: ShopifyCustomer[], 
-    orders: ShopifyOrder[]
+    orders: ShopifyOrder[],
+    currency: string,
   ): Promise<PurchaseHistoryAnalysis[]> {
     const customerOrderMap = new Map<string, ShopifyOrder[]>();
     
@@ -349,18 +391,18 @@ export class CustomerAnalyticsService {
         
         // Create purchase history
         const purchaseHistory: PurchaseRecord[] = customerOrders
-          .sort((a, b) => moment(b.createdAt).valueOf() - moment(a.createdAt).valueOf())
+          .sort((a, b) => this.storeContext.moment(b.createdAt).valueOf() - this.storeContext.moment(a.createdAt).valueOf())
           .map(order => ({
             orderId: order.id,
             orderName: order.name,
-            date: moment(order.createdAt).format('YYYY-MM-DD'),
-            amount: parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'),
+            date: this.storeContext.moment(order.createdAt).format('YYYY-MM-DD'),
+            amount: Money.fromShopMoney(order.totalPriceSet, currency),
             itemCount: order.lineItems?.edges?.reduce((sum, edge) => sum + (edge.node.quantity || 0), 0) || 0,
             items: order.lineItems?.edges?.map(edge => edge.node) || [],
           }));
 
         // Calculate purchase frequency
-        const orderDates = customerOrders.map(order => moment(order.createdAt));
+        const orderDates = customerOrders.map(order => this.storeContext.moment(order.createdAt));
         let averageDaysBetweenPurchases = 0;
         
         if (orderDates.length > 1) {
@@ -376,7 +418,7 @@ export class CustomerAnalyticsService {
         else if (averageDaysBetweenPurchases <= 60) frequency = 'Medium';
 
         // Calculate seasonal trends
-        const seasonalTrends = this.calculateCustomerSeasonalTrends(customerOrders);
+        const seasonalTrends = this.calculateCustomerSeasonalTrends(customerOrders, currency);
 
         // Predict next purchase (simplified)
         const lastOrderDate = orderDates.length > 0 ? orderDates[0] : null;
@@ -385,7 +427,7 @@ export class CustomerAnalyticsService {
           undefined;
 
         // Generate recommendations
-        const recommendations = this.generateCustomerRecommendations(customer, purchaseHistory, frequency);
+        const recommendations = this.generateCustomerRecommendations(customer, purchaseHistory, frequency, currency);
 
         return {
           customerId: customer.id,
@@ -416,7 +458,7 @@ export class CustomerAnalyticsService {
     orders.forEach(order => {
       if (order.customer?.id) {
         const customerId = order.customer.id;
-        const orderDate = moment(order.createdAt);
+        const orderDate = this.storeContext.moment(order.createdAt);
         
         if (!customerFirstPurchase.has(customerId) || 
             orderDate.isBefore(customerFirstPurchase.get(customerId))) {
@@ -437,7 +479,7 @@ export class CustomerAnalyticsService {
     orders.forEach(order => {
       if (order.customer?.id) {
         const customerId = order.customer.id;
-        const orderDate = moment(order.createdAt);
+        const orderDate = this.storeContext.moment(order.createdAt);
         const firstPurchaseDate = customerFirstPurchase.get(customerId);
         
         if (firstPurchaseDate) {
@@ -485,7 +527,7 @@ export class CustomerAnalyticsService {
    * Calculate retention metrics
    */
   private async calculateRetentionMetrics(customers: ShopifyCustomer[], orders: ShopifyOrder[]) {
-    const now = moment();
+    const now = this.storeContext.moment();
     const thirtyDaysAgo = now.clone().subtract(30, 'days');
     const sixtyDaysAgo = now.clone().subtract(60, 'days');
     const ninetyDaysAgo = now.clone().subtract(90, 'days');
@@ -497,7 +539,7 @@ export class CustomerAnalyticsService {
 
     orders.forEach(order => {
       if (order.customer?.id) {
-        const orderDate = moment(order.createdAt);
+        const orderDate = this.storeContext.moment(order.createdAt);
         const customerId = order.customer.id;
 
         if (orderDate.isAfter(thirtyDaysAgo)) {
@@ -536,43 +578,35 @@ export class CustomerAnalyticsService {
   /**
    * Calculate customer lifetime value
    */
-  private async calculateCustomerLifetimeValue(customers: ShopifyCustomer[], orders: ShopifyOrder[]) {
-    const totalRevenue = customers.reduce((sum, customer) => 
-      sum + parseFloat(customer.amountSpent?.amount || '0'), 0);
-    
-    const totalCustomers = customers.length;
-    const averageCLV = totalCustomers > 0 ? totalRevenue / totalCustomers : 0;
+  private async calculateCustomerLifetimeValue(customers: ShopifyCustomer[], orders: ShopifyOrder[], currency: string) {
+    const spentBy = (customer: ShopifyCustomer) => Money.fromMoneyV2(customer.amountSpent, currency);
+    const summarize = (segment: ShopifyCustomer[]) => {
+      const totalRevenue = Money.sumBy(segment, spentBy, currency);
+      return {
+        count: segment.length,
+        averageCLV: totalRevenue.divide(segment.length),
+        totalRevenue,
+      };
+    };
 
     // Calculate CLV by segments
-    const highValueCustomers = customers.filter(c => parseFloat(c.amountSpent?.amount || '0') >= 1000);
+    const highValueMinimum = Money.of(1000, currency);
+    const mediumValueMinimum = Money.of(500, currency);
+    const highValueCustomers = customers.filter(c => !spentBy(c).lessThan(highValueMinimum));
     const mediumValueCustomers = customers.filter(c => {
-      const spent = parseFloat(c.amountSpent?.amount || '0');
-      return spent >= 500 && spent < 1000;
+      const spent = spentBy(c);
+      return !spent.lessThan(mediumValueMinimum) && spent.lessThan(highValueMinimum);
     });
-    const lowValueCustomers = customers.filter(c => parseFloat(c.amountSpent?.amount || '0') < 500);
+    const lowValueCustomers = customers.filter(c => spentBy(c).lessThan(mediumValueMinimum));
+    const { averageCLV, totalRevenue } = summarize(customers);
 
     return {
-      averageCLV: Math.round(averageCLV * 100) / 100,
-      totalRevenue: Math.round(totalRevenue * 100) / 100,
+      averageCLV,
+      totalRevenue,
       segmentBreakdown: {
-        highValue: {
-          count: highValueCustomers.length,
-          averageCLV: highValueCustomers.length > 0 ? 
-            Math.round((highValueCustomers.reduce((sum, c) => sum + parseFloat(c.amountSpent?.amount || '0'), 0) / highValueCustomers.length) * 100) / 100 : 0,
-          totalRevenue: Math.round(highValueCustomers.reduce((sum, c) => sum + parseFloat(c.amountSpent?.amount || '0'), 0) * 100) / 100,
-        },
-        mediumValue: {
-          count: mediumValueCustomers.length,
-          averageCLV: mediumValueCustomers.length > 0 ? 
-            Math.round((mediumValueCustomers.reduce((sum, c) => sum + parseFloat(c.amountSpent?.amount || '0'), 0) / mediumValueCustomers.length) * 100) / 100 : 0,
-          totalRevenue: Math.round(mediumValueCustomers.reduce((sum, c) => sum + parseFloat(c.amountSpent?.amount || '0'), 0) * 100) / 100,
-        },
-        lowValue: {
-          count: lowValueCustomers.length,
-          averageCLV: lowValueCustomers.length > 0 ? 
-            Math.round((lowValueCustomers.reduce((sum, c) => sum + parseFloat(c.amountSpent?.amount || '0'), 0) / lowValueCustomers.length) * 100) / 100 : 0,
-          totalRevenue: Math.round(lowValueCustomers.reduce((sum, c) => sum + parseFloat(c.amountSpent?.amount || '0'), 0) * 100) / 100,
-        },
+        highValue: summarize(highValueCustomers),
+        mediumValue: summarize(mediumValueCustomers),
+        lowValue: summarize(lowValueCustomers),
       },
     };
   }
@@ -581,14 +615,14 @@ export class CustomerAnalyticsService {
    * Calculate churn analysis
    */
   private async calculateChurnAnalysis(customers: ShopifyCustomer[], orders: ShopifyOrder[]) {
-    const now = moment();
+    const now = this.storeContext.moment();
     const customerLastOrderMap = new Map<string, moment.Moment>();
 
     // Find last order date for each customer
     orders.forEach(order => {
       if (order.customer?.id) {
         const customerId = order.customer.id;
-        const orderDate = moment(order.createdAt);
+        const orderDate = this.storeContext.moment(order.createdAt);
         
         if (!customerLastOrderMap.has(customerId) || 
             orderDate.isAfter(customerLastOrderMap.get(customerId))) {
@@ -644,28 +678,28 @@ export class CustomerAnalyticsService {
 
   // Helper methods
   private getCustomerAgeInMonths(createdAt: string): number {
-    return moment().diff(moment(createdAt), 'months');
+    return this.storeContext.moment().diff(this.storeContext.moment(createdAt), 'months');
   }
 
-  private calculateCustomerSeasonalTrends(orders: ShopifyOrder[]): SeasonalTrend[] {
-    const monthlyData = new Map<string, { amount: number; count: number }>();
+  private calculateCustomerSeasonalTrends(orders: ShopifyOrder[], currency: string): SeasonalTrend[] {
+    const monthlyData = new Map<string, { amount: Money; count: number }>();
 
     orders.forEach(order => {
-      const month = moment(order.createdAt).format('MMMM');
-      const amount = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+      const month = this.storeContext.moment(order.createdAt).format('MMMM');
+      const amount = Money.fromShopMoney(order.totalPriceSet, currency);
 
       if (!monthlyData.has(month)) {
-        monthlyData.set(month, { amount: 0, count: 0 });
+        monthlyData.set(month, { amount: Money.zero(currency), count: 0 });
       }
 
       const data = monthlyData.get(month)!;
-      data.amount += amount;
+      data.amount = data.amount.add(amount);
       data.count += 1;
     });
 
     return Array.from(monthlyData.entries()).map(([month, data]) => ({
       month,
-      averageSpend: data.count > 0 ? Math.round((data.amount / data.count) * 100) / 100 : 0,
+      averageSpend: data.amount.divide(data.count),
       orderCount: data.count,
       trend: 'Stable' as const, // Simplified - would need more data for proper trend analysis
     }));
@@ -674,11 +708,12 @@ export class CustomerAnalyticsService {
   private generateCustomerRecommendations(
     customer: ShopifyCustomer, 
     purchaseHistory: PurchaseRecord[], 
-    frequency: 'High' | 'Medium' | 'Low'
+    frequency: 'High' | 'Medium' | 'Low',
+    currency: string,
   ): string[] {
     const recommendations: string[] = [];
     const daysSinceLastPurchase = purchaseHistory.length > 0 ? 
-      moment().diff(moment(purchaseHistory[0].date), 'days') : 999;
+      this.storeContext.moment().diff(this.storeContext.moment(purchaseHistory[0].date), 'days') : 999;
 
     if (frequency === 'High') {
       recommendations.push('VIP customer - offer exclusive products or early access');
@@ -692,7 +727,7 @@ export class CustomerAnalyticsService {
       recommendations.push('Target with onboarding sequence for new customers');
     }
 
-    if (parseFloat(customer.amountSpent?.amount || '0') > 1000) {
+    if (Money.fromMoneyV2(customer.amountSpent, currency).greaterThan(Money.of(1000, currency))) {
       recommendations.push('Upsell premium products or accessories');
     }
 
@@ -704,11 +739,11 @@ export class CustomerAnalyticsService {
   }
 
   private countActiveCustomers(customers: ShopifyCustomer[], orders: ShopifyOrder[]): number {
-    const last30Days = moment().subtract(30, 'days');
+    const last30Days = this.storeContext.moment().subtract(30, 'days');
     const activeCustomerIds = new Set<string>();
 
     orders
-      .filter(order => moment(order.createdAt).isAfter(last30Days))
+      .filter(order => this.storeContext.moment(order.createdAt).isAfter(last30Days))
       .forEach(order => {
         if (order.customer?.id) {
           activeCustomerIds.add(order.customer.id);
@@ -719,9 +754,9 @@ export class CustomerAnalyticsService {
   }
 
   private countNewCustomers(customers: ShopifyCustomer[]): number {
-    const last30Days = moment().subtract(30, 'days');
+    const last30Days = this.storeContext.moment().subtract(30, 'days');
     return customers.filter(customer => 
-      moment(customer.createdAt).isAfter(last30Days)
+      this.storeContext.moment(customer.createdAt).isAfter(last30Days)
     ).length;
   }
 
@@ -730,17 +765,26 @@ export class CustomerAnalyticsService {
     return customers.length > 0 ? Math.round((totalOrders / customers.length) * 100) / 100 : 0;
   }
 
-  private calculateAverageCustomerValue(customers: ShopifyCustomer[]): number {
-    const totalValue = customers.reduce((sum, customer) => 
-      sum + parseFloat(customer.amountSpent?.amount || '0'), 0);
-    return customers.length > 0 ? Math.round((totalValue / customers.length) * 100) / 100 : 0;
+  private calculateAverageCustomerValue(customers: ShopifyCustomer[], currency: string): Money {
+    const totalValue = Money.sumBy(customers, customer => Money.fromMoneyV2(customer.amountSpent, currency), currency);
+    return totalValue.divide(customers.length);
   }
 
   /**
    * Fast purchase history analysis (simplified)
    */
-  public async calculatePurchaseHistoryAnalysisFast(customers: ShopifyCustomer[], orders: ShopifyOrder[]): Promise<PurchaseHistoryAnalysis[]> {
+  public async calculatePurchaseHistoryAnalysisFast(
+    shopCustomers: ShopifyCustomer[],
+    shopOrders: ShopifyOrder[],
+    currency?: string,
+  ): Promise<PurchaseHistoryAnalysis[]> {
     this.logger.log('Processing purchase history analysis (FAST MODE)');
+
+    const reportCurrency = currency
+      ? this.currencyService.resolveCurrency(currency)
+      : this.currencyService.getShopCurrency(shopOrders);
+    const customers = this.currencyService.convertCustomers(shopCustomers, currency);
+    const orders = this.currencyService.convertOrders(shopOrders, currency);
     
     const customerOrderMap = new Map<string, ShopifyOrder[]>();
     
@@ -763,13 +807,13 @@ export class CustomerAnalyticsService {
         
         // Simplified purchase history - max 5 recent orders
         const purchaseHistory: PurchaseRecord[] = customerOrders
-          .sort((a, b) => moment(b.createdAt).valueOf() - moment(a.createdAt).valueOf())
+          .sort((a, b) => this.storeContext.moment(b.createdAt).valueOf() - this.storeContext.moment(a.createdAt).valueOf())
           .slice(0, 5) // Only last 5 orders
           .map(order => ({
             orderId: order.id,
             orderName: order.name,
-            date: moment(order.createdAt).format('YYYY-MM-DD'),
-            amount: parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'),
+            date: this.storeContext.moment(order.createdAt).format('YYYY-MM-DD'),
+            amount: Money.fromShopMoney(order.totalPriceSet, reportCurrency),
             itemCount: order.lineItems?.edges?.reduce((sum, edge) => sum + (edge.node.quantity || 0), 0) || 0,
             items: order.lineItems?.edges?.slice(0, 3).map(edge => edge.node) || [], // Max 3 items
           }));
@@ -781,7 +825,7 @@ export class CustomerAnalyticsService {
 
         // Simplified seasonal trends
         const seasonalTrends: SeasonalTrend[] = [
-          { month: 'Current', averageSpend: customerOrders.length > 0 ? customerOrders[0] ? parseFloat(customerOrders[0].totalPriceSet?.shopMoney?.amount || '0') : 0 : 0, orderCount: customerOrders.length, trend: 'Stable' },
+          { month: 'Current', averageSpend: Money.fromShopMoney(customerOrders[0]?.totalPriceSet, reportCurrency), orderCount: customerOrders.length, trend: 'Stable' },
         ];
 
         return {
@@ -15,24 +15,41 @@ import {
   TopCustomer,
   InventoryMetrics,
 } from '@interfaces/shopify.interface';
+import { CurrencyService } from '../currency/currency.service';
+import { Money } from '@shared/money';
+import { SalesBreakdownService } from './sales-breakdown.service';
+import { StoreContextService } from '../stores/store-context.service';
 
 @Injectable()
 export class DataAggregationService {
   private readonly logger = new Logger(DataAggregationService.name);
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly currencyService: CurrencyService,
+    private readonly salesBreakdownService: SalesBreakdownService,
+    private readonly storeContext: StoreContextService,
+  ) {}
 
   /**
-   * Aggregate all data into a comprehensive dashboard summary
+   * Aggregate all data into a comprehensive dashboard summary. Amounts are in the
+   * shop currency unless a reporting currency is given.
    */
   async aggregateDashboardData(
-    orders: ShopifyOrder[],
-    products: ShopifyProduct[],
-    customers: ShopifyCustomer[],
+    shopOrders: ShopifyOrder[],
+    shopProducts: ShopifyProduct[],
+    shopCustomers: ShopifyCustomer[],
+    currency?: string,
   ): Promise<DashboardSummary> {
     this.logger.log('Starting dashboard data aggregation');
 
     try {
+      const shopCurrency = this.currencyService.getShopCurrency(shopOrders);
+      const reportCurrency = currency ? this.currencyService.resolveCurrency(currency) : shopCurrency;
+      const orders = this.currencyService.convertOrders(shopOrders, currency);
+      const products = this.currencyService.convertProducts(shopProducts, currency, shopCurrency);
+      const customers = this.currencyService.convertCustomers(shopCustomers, currency);
+
       const [
         salesMetrics,
         topSellingProducts,
@@ -41,12 +58,12 @@ export class DataAggregationService {
         customerMetrics,
         inventoryMetrics,
       ] = await Promise.all([
-        this.calculateSalesMetrics(orders),
-        this.calculateTopSellingProducts(orders),
+        this.calculateSalesMetrics(orders, reportCurrency),
+        this.calculateTopSellingProducts(orders, reportCurrency),
         this.calculateLowStockProducts(products),
-        this.calculateSalesTrend(orders),
-        this.calculateCustomerMetrics(customers, orders),
-        this.calculateInventoryMetrics(products),
+        this.calculateSalesTrend(orders, reportCurrency),
+        this.calculateCustomerMetrics(customers, orders, reportCurrency),
+        this.calculateInventoryMetrics(products, reportCurrency),
       ]);
 
       const recentOrders = this.getRecentOrders(orders, 10);
@@ -63,6 +80,8 @@ export class DataAggregationService {
         salesTrend,
         customerMetrics,
         inventoryMetrics,
+        salesBreakdown: this.salesBreakdownService.calculateBreakdown(orders, reportCurrency),
+        currency: reportCurrency,
         lastUpdated: new Date().toISOString(),
       };
 
@@ -77,14 +96,11 @@ export class DataAggregationService {
   /**
    * Calculate basic sales metrics
    */
-  private async calculateSalesMetrics(orders: ShopifyOrder[]) {
-    const totalSales = orders.reduce((sum, order) => {
-      const amount = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
-      return sum + amount;
-    }, 0);
+  private async calculateSalesMetrics(orders: ShopifyOrder[], currency: string) {
+    const totalSales = Money.sumBy(orders, order => Money.fromShopMoney(order.totalPriceSet, currency), currency);
 
     const totalOrders = orders.length;
-    const averageOrderValue = totalOrders > 0 ? totalSales / totalOrders : 0;
+    const averageOrderValue = totalSales.divide(totalOrders);
 
     // Calculate conversion rate (assuming all customers who placed orders converted)
     // This is a simplified calculation - in reality, you'd need visitor data
@@ -101,7 +117,7 @@ export class DataAggregationService {
   /**
    * Calculate top-selling products based on quantity and revenue
    */
-  private async calculateTopSellingProducts(orders: ShopifyOrder[]): Promise<TopSellingProduct[]> {
+  private async calculateTopSellingProducts(orders: ShopifyOrder[], currency: string): Promise<TopSellingProduct[]> {
     const productSales = new Map<string, {
       productId: string;
       productTitle: string;
@@ -109,10 +125,10 @@ export class DataAggregationService {
       variantTitle: string;
       sku: string;
       quantity: number;
-      revenue: number;
+      revenue: Money;
       productType: string;
       vendor: string;
-      prices: number[];
+      prices: Money[];
     }>();
 
     // Aggregate sales data by product variant
@@ -122,15 +138,15 @@ export class DataAggregationService {
         const variantId = item.variant?.id || 'unknown';
         const productId = item.variant?.product?.id || 'unknown';
         const quantity = item.quantity || 0;
-        const unitPrice = parseFloat(item.originalUnitPriceSet?.shopMoney?.amount || '0');
-        const revenue = quantity * unitPrice;
+        const unitPrice = Money.fromShopMoney(item.originalUnitPriceSet, currency);
+        const revenue = unitPrice.multiply(quantity);
 
         const key = `${productId}-${variantId}`;
         
         if (productSales.has(key)) {
           const existing = productSales.get(key)!;
           existing.quantity += quantity;
-          existing.revenue += revenue;
+          existing.revenue = existing.revenue.add(revenue);
           existing.prices.push(unitPrice);
         } else {
           productSales.set(key, {
@@ -159,8 +175,7 @@ export class DataAggregationService {
         sku: product.sku,
         totalQuantitySold: product.quantity,
         totalRevenue: product.revenue,
-        averagePrice: product.prices.length > 0 ? 
-          product.prices.reduce((sum, price) => sum + price, 0) / product.prices.length : 0,
+        averagePrice: Money.sum(product.prices, currency).divide(product.prices.length),
         productType: product.productType,
         vendor: product.vendor,
       }))
@@ -208,27 +223,27 @@ export class DataAggregationService {
   /**
    * Calculate sales trend over time
    */
-  private async calculateSalesTrend(orders: ShopifyOrder[]): Promise<SalesTrendData[]> {
-    const last30Days = moment().subtract(30, 'days');
-    const trendData = new Map<string, { sales: number; orders: number; customers: Set<string> }>();
+  private async calculateSalesTrend(orders: ShopifyOrder[], currency: string): Promise<SalesTrendData[]> {
+    const last30Days = this.storeContext.moment().subtract(30, 'days');
+    const trendData = new Map<string, { sales: Money; orders: number; customers: Set<string> }>();
 
     // Initialize last 30 days
     for (let i = 0; i < 30; i++) {
-      const date = moment().subtract(i, 'days').format('YYYY-MM-DD');
-      trendData.set(date, { sales: 0, orders: 0, customers: new Set() });
+      const date = this.storeContext.moment().subtract(i, 'days').format('YYYY-MM-DD');
+      trendData.set(date, { sales: Money.zero(currency), orders: 0, customers: new Set() });
     }
 
     // Aggregate orders by date
     orders
-      .filter(order => moment(order.createdAt).isAfter(last30Days))
+      .filter(order => this.storeContext.moment(order.createdAt).isAfter(last30Days))
       .forEach(order => {
-        const date = moment(order.createdAt).format('YYYY-MM-DD');
-        const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+        const date = this.storeContext.moment(order.createdAt).format('YYYY-MM-DD');
+        const sales = Money.fromShopMoney(order.totalPriceSet, currency);
         const customerId = order.customer?.id;
 
         if (trendData.has(date)) {
           const data = trendData.get(date)!;
-          data.sales += sales;
+          data.sales = data.sales.add(sales);
           data.orders += 1;
           if (customerId) {
             data.customers.add(customerId);
@@ -253,12 +268,13 @@ export class DataAggregationService {
   private async calculateCustomerMetrics(
     customers: ShopifyCustomer[],
     orders: ShopifyOrder[],
+    currency: string,
   ): Promise<CustomerMetrics> {
-    const last30Days = moment().subtract(30, 'days');
+    const last30Days = this.storeContext.moment().subtract(30, 'days');
     
     // Calculate new vs returning customers
     const newCustomers = customers.filter(customer => 
-      moment(customer.createdAt).isAfter(last30Days)
+      this.storeContext.moment(customer.createdAt).isAfter(last30Days)
     ).length;
 
     const returningCustomers = customers.filter(customer => 
@@ -269,25 +285,26 @@ export class DataAggregationService {
       (returningCustomers / customers.length) * 100 : 0;
 
     // Calculate average customer lifetime value
-    const totalCustomerValue = customers.reduce((sum, customer) => {
-      return sum + parseFloat(customer.amountSpent?.amount || '0');
-    }, 0);
+    const totalCustomerValue = Money.sumBy(
+      customers,
+      customer => Money.fromMoneyV2(customer.amountSpent, currency),
+      currency,
+    );
 
-    const averageCustomerLifetimeValue = customers.length > 0 ? 
-      totalCustomerValue / customers.length : 0;
+    const averageCustomerLifetimeValue = totalCustomerValue.divide(customers.length);
 
     // Get top customers
     const topCustomers: TopCustomer[] = customers
       .filter(customer => customer.numberOfOrders > 0)
       .map(customer => {
-        const totalSpent = parseFloat(customer.amountSpent?.amount || '0');
+        const totalSpent = Money.fromMoneyV2(customer.amountSpent, currency);
         const orderCount = customer.numberOfOrders;
-        const averageOrderValue = orderCount > 0 ? totalSpent / orderCount : 0;
+        const averageOrderValue = totalSpent.divide(orderCount);
 
         // Find last order date
         const customerOrders = orders.filter(order => order.customer?.id === customer.id);
         const lastOrderDate = customerOrders.length > 0 ? 
-          moment.max(customerOrders.map(order => moment(order.createdAt))).format('YYYY-MM-DD') : 
+          moment.max(customerOrders.map(order => this.storeContext.moment(order.createdAt))).format('YYYY-MM-DD') : 
           'Never';
 
         return {
@@ -300,7 +317,7 @@ export class DataAggregationService {
           averageOrderValue,
         };
       })
-      .sort((a, b) => b.totalSpent - a.totalSpent)
+      .sort((a, b) => b.totalSpent.compare(a.totalSpent))
       .slice(0, 10);
 
     return {
@@ -315,11 +332,11 @@ export class DataAggregationService {
   /**
    * Calculate inventory metrics
    */
-  private async calculateInventoryMetrics(products: ShopifyProduct[]): Promise<InventoryMetrics> {
+  private async calculateInventoryMetrics(products: ShopifyProduct[], currency: string): Promise<InventoryMetrics> {
     let totalVariants = 0;
     let outOfStockProducts = 0;
     let lowStockProducts = 0;
-    let totalInventoryValue = 0;
+    let totalInventoryValue = Money.zero(currency);
 
     const lowStockThreshold = 10;
 
@@ -329,7 +346,7 @@ export class DataAggregationService {
         totalVariants++;
 
         const stock = variant.inventoryQuantity || 0;
-        const price = parseFloat(variant.price || '0');
+        const price = Money.of(variant.price, currency);
 
         if (stock === 0) {
           outOfStockProducts++;
@@ -337,7 +354,7 @@ export class DataAggregationService {
           lowStockProducts++;
         }
 
-        totalInventoryValue += stock * price;
+        totalInventoryValue = totalInventoryValue.add(price.multiply(stock));
       });
     });
 
@@ -360,7 +377,7 @@ export class DataAggregationService {
    */
   private getRecentOrders(orders: ShopifyOrder[], limit: number = 10): ShopifyOrder[] {
     return orders
-      .sort((a, b) => moment(b.createdAt).valueOf() - moment(a.createdAt).valueOf())
+      .sort((a, b) => this.storeContext.moment(b.createdAt).valueOf() - this.storeContext.moment(a.createdAt).valueOf())
       .slice(0, limit);
   }
 
@@ -381,16 +398,19 @@ export class DataAggregationService {
     currentPeriodOrders: ShopifyOrder[],
     previousPeriodOrders: ShopifyOrder[],
   ) {
-    const currentSales = currentPeriodOrders.reduce((sum, order) => {
-      return sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
-    }, 0);
-
-    const previousSales = previousPeriodOrders.reduce((sum, order) => {
-      return sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
-    }, 0);
-
-    const salesGrowth = previousSales > 0 ? 
-      ((currentSales - previousSales) / previousSales) * 100 : 0;
+    const currency = this.currencyService.getShopCurrency([...currentPeriodOrders, ...previousPeriodOrders]);
+    const currentSales = Money.sumBy(
+      currentPeriodOrders,
+      order => Money.fromShopMoney(order.totalPriceSet, currency),
+      currency,
+    );
+    const previousSales = Money.sumBy(
+      previousPeriodOrders,
+      order => Money.fromShopMoney(order.totalPriceSet, currency),
+      currency,
+    );
+
+    const salesGrowth = previousSales.isZero() ? 0 : currentSales.subtract(previousSales).ratio(previousSales) * 100;
 
     const orderGrowth = previousPeriodOrders.length > 0 ? 
       ((currentPeriodOrders.length - previousPeriodOrders.length) / previousPeriodOrders.length) * 100 : 0;
@@ -414,13 +434,12 @@ export class DataAggregationService {
     endDate: Date,
   ) {
     const periodOrders = orders.filter(order => {
-      const orderDate = moment(order.createdAt);
+      const orderDate = this.storeContext.moment(order.createdAt);
       return orderDate.isBetween(startDate, endDate, 'day', '[]');
     });
 
-    const totalSales = periodOrders.reduce((sum, order) => {
-      return sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
-    }, 0);
+    const currency = this.currencyService.getShopCurrency(orders);
+    const totalSales = Money.sumBy(periodOrders, order => Money.fromShopMoney(order.totalPriceSet, currency), currency);
 
     const uniqueCustomers = new Set(
       periodOrders
@@ -432,7 +451,7 @@ export class DataAggregationService {
       totalSales,
       totalOrders: periodOrders.length,
       uniqueCustomers,
-      averageOrderValue: periodOrders.length > 0 ? totalSales / periodOrders.length : 0,
+      averageOrderValue: totalSales.divide(periodOrders.length),
       period: {
         start: startDate.toISOString(),
         end: endDate.toISOString(),
@@ -0,0 +1,368 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { ShopifyService } from '../shopify/shopify.service';
+import { SyncWriterService } from '../storage/sync-writer.service';
+import { OrderQueryOptions, OrderRepository } from '../storage/order.repository';
+import { CurrencyService } from '../currency/currency.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { SalesBreakdownService } from './sales-breakdown.service';
+import { Money } from '@shared/money';
+import { mean, median } from '@shared/statistics';
+import { enumerateDateKeys, toZonedDateKey, zonedDayRange } from '@shared/time-zone';
+import { LineItem, ShopifyOrder } from '@interfaces/shopify.interface';
+import {
+  DateRangeAnalytics,
+  DateRangeCustomers,
+  DateRangeFulfillment,
+  DateRangeInventory,
+  DateRangePeriod,
+  DateRangeSales,
+  DateRangeSalesBucket,
+  InventoryMovement,
+} from '@interfaces/date-range-analytics.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface BucketAccumulator {
+  revenue: Money;
+  orders: number;
+  unitsSold: number;
+  customers: Set<string>;
+}
+
+interface OrdersSource {
+  source: 'analytics_store' | 'shopify';
+  pagesFetched: number;
+}
+
+/**
+ * Analytics of every order placed in a date range. Days are calendar days in the store's
+ * time zone, and nothing is sampled: the analytics store is read when the sync covers the
+ * range, otherwise the range is paged from Shopify into the store first.
+ */
+@Injectable()
+export class DateRangeAnalyticsService {
+  private readonly logger = new Logger(DateRangeAnalyticsService.name);
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly shopifyService: ShopifyService,
+    private readonly syncWriterService: SyncWriterService,
+    private readonly orderRepository: OrderRepository,
+    private readonly currencyService: CurrencyService,
+    private readonly salesBreakdownService: SalesBreakdownService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Sales, customer, inventory-movement and fulfillment metrics from startDate to endDate,
+   * both inclusive and in YYYY-MM-DD format
+   */
+  async getDateRangeAnalytics(startDate: string, endDate: string): Promise<DateRangeAnalytics> {
+    const timezone = this.storeContext.getTimezone();
+    const { start, end } = zonedDayRange(startDate, endDate, timezone);
+    const cacheKey = `analytics:date_range:${timezone}:${startDate}_${endDate}`;
+
+    const cached = await this.redisService.get<DateRangeAnalytics>(cacheKey);
+    if (cached) {
+      this.logger.debug('Date range analytics served from cache');
+      return cached;
+    }
+
+    this.logger.log(`Generating analytics for ${startDate} to ${endDate} (${timezone})`);
+
+    const { source, pagesFetched } = await this.ensureOrdersStored(start, end);
+    const orders = this.orderRepository.findByDateRange(start, end);
+
+    const period: DateRangePeriod = {
+      startDate,
+      endDate,
+      timezone,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      daysCovered: enumerateDateKeys(startDate, endDate).length,
+    };
+
+    const active = orders.filter(order => !order.cancelledAt);
+    const currency = this.currencyService.getShopCurrency(orders);
+    // Refunds issued in the range count whenever their order was placed
+    const withRefunds = this.salesBreakdownService.withOrdersRefundedIn(
+      active,
+      { start, end },
+      { includeCancelled: false },
+    );
+    const sales = this.calculateSales(active, withRefunds, orders.length - active.length, period, currency, {
+      start,
+      end,
+    });
+    const customers = this.calculateCustomers(active, { start, end }, currency);
+
+    const analytics: DateRangeAnalytics = {
+      dateRange: period,
+      currency,
+      summary: {
+        totalRevenue: sales.revenue,
+        totalOrders: sales.orders,
+        uniqueCustomers: customers.uniqueCustomers,
+        averageOrderValue: sales.averageOrderValue,
+        ordersAnalyzed: orders.length,
+      },
+      sales,
+      customers,
+      inventory: this.calculateInventory(withRefunds, { start, end }),
+      fulfillment: this.calculateFulfillment(active),
+      meta: {
+        source,
+        pagesFetched,
+        generatedAt: new Date().toISOString(),
+      },
+    };
+
+    // Ranges that have ended no longer change, so they are cached longer
+    await this.redisService.set(cacheKey, analytics, { ttl: end.getTime() < Date.now() ? 3600 : 300 });
+
+    return analytics;
+  }
+
+  /**
+   * Every order created in the range, from the analytics store once it covers the range
+   */
+  async loadOrders(start: Date, end: Date, options: OrderQueryOptions = {}): Promise<ShopifyOrder[]> {
+    await this.ensureOrdersStored(start, end);
+    return this.orderRepository.findByDateRange(start, end, options);
+  }
+
+  /**
+   * Make sure every order created in the range is in the analytics store, paging the range
+   * from Shopify when the synced coverage does not include it
+   */
+  private async ensureOrdersStored(start: Date, end: Date): Promise<OrdersSource> {
+    if (this.syncWriterService.coversOrderRange(start, end)) {
+      return { source: 'analytics_store', pagesFetched: 0 };
+    }
+
+    this.logger.log(`Analytics store does not cover ${start.toISOString()} to ${end.toISOString()}, fetching orders`);
+    const fetchStartedAt = new Date();
+
+    const { pages, orders } = await this.shopifyService.streamOrdersByDateRange(start, end, page => {
+      this.syncWriterService.writeBatch({ orders: page }, 'backfill');
+    });
+
+    // Orders placed after the fetch started may not have been returned
+    this.syncWriterService.recordOrdersWindow(start, end < fetchStartedAt ? end : fetchStartedAt);
+    this.logger.log(`Stored ${orders} orders from ${pages} pages`);
+
+    return { source: 'shopify', pagesFetched: pages };
+  }
+
+  private calculateSales(
+    orders: ShopifyOrder[],
+    ordersWithRefunds: ShopifyOrder[],
+    cancelledOrders: number,
+    period: DateRangePeriod,
+    currency: string,
+    range: { start: Date; end: Date },
+  ): DateRangeSales {
+    const days = new Map<string, BucketAccumulator>();
+    const months = new Map<string, BucketAccumulator>();
+    for (const date of enumerateDateKeys(period.startDate, period.endDate)) {
+      days.set(date, this.emptyBucket(currency));
+      if (!months.has(date.substring(0, 7))) months.set(date.substring(0, 7), this.emptyBucket(currency));
+    }
+
+    let revenue = Money.zero(currency);
+    let unitsSold = 0;
+
+    for (const order of orders) {
+      const total = Money.fromShopMoney(order.totalPriceSet, currency);
+      const units = this.getLineItems(order).reduce((sum, item) => sum + (item.quantity || 0), 0);
+      const date = toZonedDateKey(order.createdAt, period.timezone);
+
+      revenue = revenue.add(total);
+      unitsSold += units;
+
+      for (const bucket of [days.get(date), months.get(date.substring(0, 7))]) {
+        if (!bucket) continue;
+        bucket.revenue = bucket.revenue.add(total);
+        bucket.orders++;
+        bucket.unitsSold += units;
+        if (order.customer?.id) bucket.customers.add(order.customer.id);
+      }
+    }
+
+    return {
+      revenue,
+      orders: orders.length,
+      cancelledOrders,
+      unitsSold,
+      averageOrderValue: revenue.divide(orders.length),
+      averageUnitsPerOrder: orders.length > 0 ? Math.round((unitsSold / orders.length) * 100) / 100 : 0,
+      breakdown: this.salesBreakdownService.calculateBreakdown(ordersWithRefunds, currency, range),
+      daily: Array.from(days.entries()).map(([date, bucket]) => ({ date, ...this.toBucket(bucket) })),
+      monthly: Array.from(months.entries()).map(([month, bucket]) => ({ month, ...this.toBucket(bucket) })),
+    };
+  }
+
+  private calculateCustomers(
+    orders: ShopifyOrder[],
+    range: { start: Date; end: Date },
+    currency: string,
+  ): DateRangeCustomers {
+    const ordersByCustomer = new Map<string, number>();
+    let newCustomers = 0;
+    let customerRevenue = Money.zero(currency);
+
+    for (const order of orders) {
+      const customer = order.customer;
+      if (!customer?.id) continue;
+
+      customerRevenue = customerRevenue.add(Money.fromShopMoney(order.totalPriceSet, currency));
+      if (!ordersByCustomer.has(customer.id)) {
+        const createdAt = customer.createdAt ? new Date(customer.createdAt) : null;
+        if (createdAt && createdAt >= range.start && createdAt <= range.end) newCustomers++;
+      }
+      ordersByCustomer.set(customer.id, (ordersByCustomer.get(customer.id) || 0) + 1);
+    }
+
+    const uniqueCustomers = ordersByCustomer.size;
+    const customerOrders = Array.from(ordersByCustomer.values()).reduce((sum, count) => sum + count, 0);
+
+    return {
+      uniqueCustomers,
+      newCustomers,
+      returningCustomers: uniqueCustomers - newCustomers,
+      repeatCustomers: Array.from(ordersByCustomer.values()).filter(count => count > 1).length,
+      guestOrders: orders.length - customerOrders,
+      ordersPerCustomer: uniqueCustomers > 0 ? Math.round((customerOrders / uniqueCustomers) * 100) / 100 : 0,
+      revenuePerCustomer: customerRevenue.divide(uniqueCustomers),
+    };
+  }
+
+  /**
+   * Units sold on the orders placed in the range and units refunded or restocked by refunds
+   * issued in it, given those orders and the ones refunded in the range
+   */
+  private calculateInventory(orders: ShopifyOrder[], range: { start: Date; end: Date }): DateRangeInventory {
+    const movements = new Map<string, InventoryMovement>();
+    let unitsReturned = 0;
+    let unitsRestocked = 0;
+
+    for (const order of orders) {
+      const lineItems = this.getLineItems(order);
+      const createdAt = new Date(order.createdAt);
+      if (createdAt >= range.start && createdAt <= range.end) {
+        for (const item of lineItems) {
+          this.getMovement(movements, item).unitsSold += item.quantity || 0;
+        }
+      }
+
+      const itemsById = new Map(lineItems.map(item => [item.id, item]));
+      for (const refund of order.refunds || []) {
+        const refundedAt = new Date(refund.createdAt);
+        if (refundedAt < range.start || refundedAt > range.end) continue;
+
+        for (const line of (refund.refundLineItems?.edges || []).map(edge => edge.node)) {
+          const quantity = line.quantity || 0;
+          const restocked = line.restocked ? quantity : 0;
+          unitsReturned += quantity;
+          unitsRestocked += restocked;
+
+          const item = itemsById.get(line.lineItem?.id);
+          if (!item) continue;
+          const movement = this.getMovement(movements, item);
+          movement.unitsReturned += quantity;
+          movement.unitsRestocked += restocked;
+        }
+      }
+    }
+
+    const sorted = Array.from(movements.values())
+      .map(movement => ({ ...movement, netUnits: movement.unitsSold - movement.unitsRestocked }))
+      .sort((a, b) => b.unitsSold - a.unitsSold || b.unitsReturned - a.unitsReturned);
+    const unitsSold = sorted.reduce((sum, movement) => sum + movement.unitsSold, 0);
+
+    return {
+      unitsSold,
+      unitsReturned,
+      unitsRestocked,
+      netUnits: unitsSold - unitsRestocked,
+      variantsSold: sorted.filter(movement => movement.unitsSold > 0).length,
+      productsSold: new Set(sorted.filter(movement => movement.unitsSold > 0).map(movement => movement.productId)).size,
+      movements: sorted,
+    };
+  }
+
+  private calculateFulfillment(orders: ShopifyOrder[]): DateRangeFulfillment {
+    let fulfilled = 0;
+    let partiallyFulfilled = 0;
+    let shipments = 0;
+    const hoursToFulfill: number[] = [];
+
+    for (const order of orders) {
+      const status = (order.displayFulfillmentStatus || '').toUpperCase();
+      if (status === 'FULFILLED') fulfilled++;
+      else if (status === 'PARTIALLY_FULFILLED') partiallyFulfilled++;
+
+      const fulfillments = order.fulfillments || [];
+      shipments += fulfillments.length;
+
+      const firstFulfilledAt = Math.min(...fulfillments.map(fulfillment => new Date(fulfillment.createdAt).getTime()));
+      if (Number.isFinite(firstFulfilledAt)) {
+        hoursToFulfill.push(Math.max(0, (firstFulfilledAt - new Date(order.createdAt).getTime()) / HOUR_MS));
+      }
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return {
+      orders: orders.length,
+      fulfilled,
+      partiallyFulfilled,
+      unfulfilled: orders.length - fulfilled - partiallyFulfilled,
+      fulfillmentRate: orders.length > 0 ? round((fulfilled / orders.length) * 100) : 0,
+      shipments,
+      averageHoursToFulfill: hoursToFulfill.length > 0 ? round(mean(hoursToFulfill)) : null,
+      medianHoursToFulfill: hoursToFulfill.length > 0 ? round(median(hoursToFulfill)) : null,
+      fulfilledWithin24Hours:
+        hoursToFulfill.length > 0
+          ? round((hoursToFulfill.filter(hours => hours <= 24).length / hoursToFulfill.length) * 100)
+          : 0,
+    };
+  }
+
+  private getMovement(movements: Map<string, InventoryMovement>, item: LineItem): InventoryMovement {
+    const key = item.variant?.id || `sku:${item.sku || item.title}`;
+    if (!movements.has(key)) {
+      movements.set(key, {
+        variantId: item.variant?.id || null,
+        productId: item.variant?.product?.id || null,
+        productTitle: item.variant?.product?.title || item.title,
+        variantTitle: item.variant?.title || '',
+        sku: item.variant?.sku || item.sku || '',
+        unitsSold: 0,
+        unitsReturned: 0,
+        unitsRestocked: 0,
+        netUnits: 0,
+      });
+    }
+    return movements.get(key);
+  }
+
+  private getLineItems(order: ShopifyOrder): LineItem[] {
+    return (order.lineItems?.edges || []).map(edge => edge.node);
+  }
+
+  private emptyBucket(currency: string): BucketAccumulator {
+    return { revenue: Money.zero(currency), orders: 0, unitsSold: 0, customers: new Set() };
+  }
+
+  private toBucket(bucket: BucketAccumulator): DateRangeSalesBucket {
+    return {
+      revenue: bucket.revenue,
+      orders: bucket.orders,
+      unitsSold: bucket.unitsSold,
+      customers: bucket.customers.size,
+      averageOrderValue: bucket.revenue.divide(bucket.orders),
+    };
+  }
+}
@@ -1,5 +1,4 @@
 import { Injectable, Logger } from '@nestjs/common';
-import * as moment from 'moment';
 import * as _ from 'lodash';
 import {
   ShopifyProduct,
@@ -8,11 +7,25 @@ import {
   VariantTurnoverData,
   ReorderRecommendation,
 } from '@interfaces/shopify.interface';
+import { CurrencyService } from '../currency/currency.service';
+import { Money } from '@shared/money';
+import { CostsService } from '../costs/costs.service';
+import { UnitCostLookup } from '@interfaces/cost.interface';
+import { DemandForecastService } from '../forecasting/demand-forecast.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { getLocationQuantities } from '@shared/inventory-levels';
 
 @Injectable()
 export class InventoryAnalyticsService {
   private readonly logger = new Logger(InventoryAnalyticsService.name);
 
+  constructor(
+    private readonly currencyService: CurrencyService,
+    private readonly costsService: CostsService,
+    private readonly demandForecastService: DemandForecastService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
   /**
    * Process inventory data and generate comprehensive analytics
    */
@@ -35,6 +48,9 @@ export class InventoryAnalyticsService {
     this.logger.log('Processing inventory analytics (FAST MODE)');
 
     try {
+      const currency = this.currencyService.getShopCurrency(orders);
+      const costs = this.costsService.createCostLookup(products, currency);
+
       // Only do essential calculations, skip heavy processing
       const [
         stockLevels,
@@ -44,8 +60,8 @@ export class InventoryAnalyticsService {
       ] = await Promise.all([
         this.calculateStockLevelsFast(products),
         this.generateLowStockAlertsFast(products),
-        this.identifyOutOfStockProducts(products),
-        this.calculateInventoryValuationFast(products),
+        this.identifyOutOfStockProducts(products, currency),
+        this.calculateInventoryValuationFast(products, currency, costs),
       ]);
 
       return {
@@ -59,6 +75,7 @@ export class InventoryAnalyticsService {
           lowStockCount: lowStockAlerts.length,
           outOfStockCount: outOfStockProducts.length,
           totalInventoryValue: inventoryValuation.totalValue,
+          totalInventoryCost: inventoryValuation.costValue,
         },
         lastUpdated: new Date().toISOString(),
         mode: 'fast',
@@ -76,6 +93,8 @@ export class InventoryAnalyticsService {
     this.logger.log('Processing inventory analytics data (COMPLETE)');
 
     try {
+      const currency = this.currencyService.getShopCurrency(orders);
+      const costs = this.costsService.createCostLookup(products, currency);
       const [
         stockLevels,
         turnoverAnalysis,
@@ -86,13 +105,13 @@ export class InventoryAnalyticsService {
         inventoryValuation,
         demandForecasting,
       ] = await Promise.all([
-        this.calculateStockLevels(products),
+        this.calculateStockLevels(products, currency),
         this.calculateInventoryTurnover(products, orders),
-        this.generateLowStockAlerts(products, orders),
-        this.identifyOutOfStockProducts(products),
+        this.generateLowStockAlerts(products, this.getThreeMonthSalesRates(orders)),
+        this.identifyOutOfStockProducts(products, currency),
         this.identifyFastMovingProducts(products, orders),
         this.identifySlowMovingProducts(products, orders),
-        this.calculateInventoryValuation(products),
+        this.calculateInventoryValuation(products, currency, costs),
         this.calculateDemandForecasting(products, orders),
       ]);
 
@@ -111,6 +130,7 @@ export class InventoryAnalyticsService {
           lowStockCount: lowStockAlerts.length,
           outOfStockCount: outOfStockProducts.length,
           totalInventoryValue: inventoryValuation.totalValue,
+          totalInventoryCost: inventoryValuation.costValue,
         },
         lastUpdated: new Date().toISOString(),
       };
@@ -121,25 +141,67 @@ export class InventoryAnalyticsService {
   }
 
   /**
-   * Calculate current stock levels across all products
+   * Current stock levels of the products at a location, from the per-location inventory levels
+   */
+  async getLocationStockLevels(products: ShopifyProduct[], orders: ShopifyOrder[], locationId: string) {
+    return this.calculateStockLevels(products, this.currencyService.getShopCurrency(orders), locationId);
+  }
+
+  /**
+   * Calculate current stock levels across all products, with the stock of each location.
+   * Given a location, stock and value only count the units available there.
    */
-  private async calculateStockLevels(products: ShopifyProduct[]) {
+  private async calculateStockLevels(products: ShopifyProduct[], currency: string, locationId?: string) {
+    const locationTotals = new Map<
+      string,
+      { locationId: string; locationName: string; stockUnits: number; stockValue: Money; variantsStocked: number }
+    >();
+
     const stockData = products.map(product => {
       const variants = product.variants?.edges?.map(edge => {
         const variant = edge.node;
+        const price = Money.of(variant.price, currency);
+        const locations = getLocationQuantities(variant);
+        const currentStock = locationId
+          ? locations.find(location => location.locationId === locationId)?.available ?? 0
+          : variant.inventoryQuantity || 0;
+
+        locations.forEach(location => {
+          const totals = locationTotals.get(location.locationId) || {
+            locationId: location.locationId,
+            locationName: location.locationName,
+            stockUnits: 0,
+            stockValue: Money.zero(currency),
+            variantsStocked: 0,
+          };
+          totals.stockUnits += location.available;
+          totals.stockValue = totals.stockValue.add(price.multiply(location.available));
+          totals.variantsStocked++;
+          locationTotals.set(location.locationId, totals);
+        });
+
         return {
           variantId: variant.id,
           title: variant.title,
           sku: variant.sku || 'N/A',
-          currentStock: variant.inventoryQuantity || 0,
+          currentStock,
           tracked: variant.inventoryItem?.tracked || false,
-          price: parseFloat(variant.price || '0'),
-          stockValue: (variant.inventoryQuantity || 0) * parseFloat(variant.price || '0'),
+          price,
+          stockValue: price.multiply(currentStock),
+          locations,
         };
       }) || [];
 
       const totalStock = variants.reduce((sum, variant) => sum + variant.currentStock, 0);
-      const totalValue = variants.reduce((sum, variant) => sum + variant.stockValue, 0);
+      const totalValue = Money.sumBy(variants, variant => variant.stockValue, currency);
+      const locations = _.map(
+        _.groupBy(_.flatMap(variants, variant => variant.locations), location => location.locationId),
+        levels => ({
+          locationId: levels[0].locationId,
+          locationName: levels[0].locationName,
+          stock: _.sumBy(levels, level => level.available),
+        }),
+      );
 
       return {
         productId: product.id,
@@ -147,7 +209,8 @@ export class InventoryAnalyticsService {
         productType: product.productType,
         vendor: product.vendor,
         totalStock,
-        totalValue: Math.round(totalValue * 100) / 100,
+        totalValue,
+        locations,
         variants,
         status: this.determineStockStatus(totalStock, variants.length),
       };
@@ -156,11 +219,13 @@ export class InventoryAnalyticsService {
     return {
       products: stockData,
       summary: {
+        locationId: locationId || null,
         totalProducts: stockData.length,
         totalStockUnits: stockData.reduce((sum, p) => sum + p.totalStock, 0),
-        totalStockValue: Math.round(stockData.reduce((sum, p) => sum + p.totalValue, 0) * 100) / 100,
+        totalStockValue: Money.sumBy(stockData, p => p.totalValue, currency),
         lowStockProducts: stockData.filter(p => p.status === 'Low Stock').length,
         outOfStockProducts: stockData.filter(p => p.status === 'Out of Stock').length,
+        locations: Array.from(locationTotals.values()).sort((a, b) => b.stockUnits - a.stockUnits),
       },
     };
   }
@@ -246,12 +311,85 @@ export class InventoryAnalyticsService {
   }
 
   /**
-   * Generate low stock alerts
+   * Low stock alerts with days of cover at the rate units sold over a period: the orders
+   * placed in it, spanning the given number of days
+   */
+  public async generateLowStockAlertsForPeriod(products: ShopifyProduct[], orders: ShopifyOrder[], days: number) {
+    return this.generateLowStockAlerts(products, this.getPeriodSalesRates(orders, days));
+  }
+
+  /**
+   * Top products by units sold in the given orders, with their sales at the original unit price
+   */
+  public calculateTopSellingProducts(orders: ShopifyOrder[], limit: number = 10) {
+    const currency = this.currencyService.getShopCurrency(orders);
+    const productSales = new Map<string, { productTitle: string; salesVolume: number; revenue: Money }>();
+
+    orders.forEach(order => {
+      order.lineItems?.edges?.forEach(({ node: item }) => {
+        const product = item.variant?.product;
+        if (!product?.id) return;
+
+        if (!productSales.has(product.id)) {
+          productSales.set(product.id, {
+            productTitle: product.title || item.title,
+            salesVolume: 0,
+            revenue: Money.zero(currency),
+          });
+        }
+
+        const data = productSales.get(product.id);
+        const quantity = item.quantity || 0;
+        data.salesVolume += quantity;
+        data.revenue = data.revenue.add(Money.fromShopMoney(item.originalUnitPriceSet, currency).multiply(quantity));
+      });
+    });
+
+    return Array.from(productSales.entries())
+      .map(([productId, data]) => ({ productId, ...data }))
+      .sort((a, b) => b.salesVolume - a.salesVolume || b.revenue.compare(a.revenue))
+      .slice(0, limit)
+      .map((product, index) => ({ ...product, rank: index + 1 }));
+  }
+
+  /**
+   * Monthly inventory turnover of each product at the rate units sold over a period (the
+   * orders placed in it, spanning the given number of days), fastest moving first
    */
-  private async generateLowStockAlerts(products: ShopifyProduct[], orders: ShopifyOrder[]) {
+  public calculatePeriodTurnover(products: ShopifyProduct[], orders: ShopifyOrder[], days: number, limit: number = 50) {
+    const unitsSoldByVariant = this.getUnitsSold(orders);
+
+    return products
+      .map(product => {
+        const variants = product.variants?.edges?.map(edge => edge.node) || [];
+        const currentStock = variants.reduce((sum, variant) => sum + (variant.inventoryQuantity || 0), 0);
+        const unitsSold = variants.reduce((sum, variant) => sum + (unitsSoldByVariant.get(variant.id) || 0), 0);
+        const averageMonthlySales = (unitsSold / Math.max(days, 1)) * 30;
+
+        // Same measures as the product turnover analysis: monthly sales over current stock
+        const turnoverRate = averageMonthlySales / (currentStock > 0 ? currentStock : 1);
+        const daysOfStockRemaining = averageMonthlySales > 0 ? (currentStock / averageMonthlySales) * 30 : 999;
+
+        return {
+          productId: product.id,
+          productTitle: product.title,
+          unitsSold,
+          currentStock,
+          turnoverRate: Math.round(turnoverRate * 100) / 100,
+          daysOfStockRemaining: Math.round(daysOfStockRemaining),
+          status: this.determineStockStatusFromTurnover(turnoverRate, currentStock > 0 ? daysOfStockRemaining : 0),
+        };
+      })
+      .sort((a, b) => b.turnoverRate - a.turnoverRate)
+      .slice(0, limit);
+  }
+
+  /**
+   * Generate low stock alerts, given each variant's average monthly unit sales
+   */
+  private async generateLowStockAlerts(products: ShopifyProduct[], monthlySales: Map<string, number>) {
     const lowStockThreshold = 10;
     const criticalStockThreshold = 5;
-    const variantSalesMap = this.calculateVariantSales(orders);
 
     const alerts: any[] = [];
 
@@ -261,8 +399,7 @@ export class InventoryAnalyticsService {
         const currentStock = variant.inventoryQuantity || 0;
 
         if (currentStock <= lowStockThreshold && variant.inventoryItem?.tracked) {
-          const salesData = variantSalesMap.get(variant.id) || { lastMonth: 0, last3Months: 0, totalSold: 0 };
-          const averageMonthlySales = salesData.last3Months / 3;
+          const averageMonthlySales = monthlySales.get(variant.id) || 0;
           const daysOfStockRemaining = averageMonthlySales > 0 ? 
             (currentStock / averageMonthlySales) * 30 : 999;
 
@@ -301,7 +438,7 @@ export class InventoryAnalyticsService {
   /**
    * Identify out of stock products
    */
-  private async identifyOutOfStockProducts(products: ShopifyProduct[]) {
+  private async identifyOutOfStockProducts(products: ShopifyProduct[], currency: string) {
     const outOfStockProducts: any[] = [];
 
     products.forEach(product => {
@@ -320,7 +457,7 @@ export class InventoryAnalyticsService {
             variantId: edge.node.id,
             variantTitle: edge.node.title,
             sku: edge.node.sku || 'N/A',
-            price: parseFloat(edge.node.price || '0'),
+            price: Money.of(edge.node.price, currency),
           })),
           totalVariants: product.variants?.edges?.length || 0,
           percentageOutOfStock: Math.round((outOfStockVariants.length / (product.variants?.edges?.length || 1)) * 10000) / 100,
@@ -420,36 +557,38 @@ export class InventoryAnalyticsService {
   }
 
   /**
-   * Calculate inventory valuation
+   * Calculate inventory valuation at retail price and at unit cost. Units without a known
+   * cost are counted but left out of the cost value.
    */
-  private async calculateInventoryValuation(products: ShopifyProduct[]) {
-    let totalValue = 0;
+  private async calculateInventoryValuation(products: ShopifyProduct[], currency: string, costs: UnitCostLookup) {
+    let totalValue = Money.zero(currency);
+    let costValue = Money.zero(currency);
     let totalUnits = 0;
-    const categoryBreakdown = new Map<string, { value: number; units: number }>();
+    let unitsWithoutCost = 0;
+    const categoryBreakdown = new Map<string, { value: Money; cost: Money; units: number }>();
 
     products.forEach(product => {
       const category = product.productType || 'Uncategorized';
       
       if (!categoryBreakdown.has(category)) {
-        categoryBreakdown.set(category, { value: 0, units: 0 });
+        categoryBreakdown.set(category, { value: Money.zero(currency), cost: Money.zero(currency), units: 0 });
       }
 
-      let productValue = 0;
-      let productUnits = 0;
-
       product.variants?.edges?.forEach(edge => {
         const variant = edge.node;
         const stock = variant.inventoryQuantity || 0;
-        const price = parseFloat(variant.price || '0');
-        const value = stock * price;
+        const value = Money.of(variant.price, currency).multiply(stock);
+        const unitCost = costs.getUnitCost(variant.id, variant.sku);
+        const cost = unitCost ? unitCost.amount.multiply(stock) : Money.zero(currency);
 
-        productValue += value;
-        productUnits += stock;
-        totalValue += value;
+        totalValue = totalValue.add(value);
+        costValue = costValue.add(cost);
         totalUnits += stock;
+        if (!unitCost) unitsWithoutCost += stock;
 
         const categoryData = categoryBreakdown.get(category)!;
-        categoryData.value += value;
+        categoryData.value = categoryData.value.add(value);
+        categoryData.cost = categoryData.cost.add(cost);
         categoryData.units += stock;
       });
     });
@@ -457,17 +596,21 @@ export class InventoryAnalyticsService {
     const categoryAnalysis = Array.from(categoryBreakdown.entries())
       .map(([category, data]) => ({
         category,
-        totalValue: Math.round(data.value * 100) / 100,
+        totalValue: data.value,
+        costValue: data.cost,
         totalUnits: data.units,
-        averageUnitValue: data.units > 0 ? Math.round((data.value / data.units) * 100) / 100 : 0,
-        percentageOfTotalValue: totalValue > 0 ? Math.round((data.value / totalValue) * 10000) / 100 : 0,
+        averageUnitValue: data.value.divide(data.units),
+        percentageOfTotalValue: Math.round(data.value.ratio(totalValue) * 10000) / 100,
       }))
-      .sort((a, b) => b.totalValue - a.totalValue);
+      .sort((a, b) => b.totalValue.compare(a.totalValue));
 
     return {
-      totalValue: Math.round(totalValue * 100) / 100,
+      totalValue,
+      retailValue: totalValue,
+      costValue,
       totalUnits,
-      averageUnitValue: totalUnits > 0 ? Math.round((totalValue / totalUnits) * 100) / 100 : 0,
+      unitsWithoutCost,
+      averageUnitValue: totalValue.divide(totalUnits),
       categoryBreakdown: categoryAnalysis,
     };
   }
@@ -476,56 +619,45 @@ export class InventoryAnalyticsService {
    * Calculate demand forecasting
    */
   private async calculateDemandForecasting(products: ShopifyProduct[], orders: ShopifyOrder[]) {
-    const variantSalesMap = this.calculateVariantSales(orders);
-    const forecasts: any[] = [];
-
-    products.forEach(product => {
-      product.variants?.edges?.forEach(edge => {
-        const variant = edge.node;
-        const salesData = variantSalesMap.get(variant.id) || {
-          lastMonth: 0,
-          last3Months: 0,
-          totalSold: 0,
-        };
+    return this.demandForecastService.forecastDemand(products, orders).forecasts.slice(0, 50);
+  }
 
-        if (salesData.last3Months > 0) {
-          const averageMonthlySales = salesData.last3Months / 3;
-          const growthRate = salesData.lastMonth > 0 ? 
-            (salesData.lastMonth - (salesData.last3Months / 3)) / (salesData.last3Months / 3) : 0;
+  // Helper methods
 
-          // Simple linear forecasting
-          const nextMonthForecast = averageMonthlySales * (1 + growthRate);
-          const next3MonthsForecast = nextMonthForecast * 3;
+  /**
+   * Average monthly unit sales of each variant over the last 3 months
+   */
+  private getThreeMonthSalesRates(orders: ShopifyOrder[]): Map<string, number> {
+    const rates = new Map<string, number>();
+    this.calculateVariantSales(orders).forEach((data, variantId) => rates.set(variantId, data.last3Months / 3));
+    return rates;
+  }
 
-          const currentStock = variant.inventoryQuantity || 0;
-          const stockoutRisk = currentStock < nextMonthForecast;
+  /**
+   * Average monthly (30-day) unit sales of each variant in orders spanning the given number of days
+   */
+  private getPeriodSalesRates(orders: ShopifyOrder[], days: number): Map<string, number> {
+    const rates = new Map<string, number>();
+    this.getUnitsSold(orders).forEach((units, variantId) => rates.set(variantId, (units / Math.max(days, 1)) * 30));
+    return rates;
+  }
 
-          forecasts.push({
-            productId: product.id,
-            productTitle: product.title,
-            variantId: variant.id,
-            variantTitle: variant.title,
-            sku: variant.sku || 'N/A',
-            currentStock,
-            averageMonthlySales: Math.round(averageMonthlySales * 100) / 100,
-            nextMonthForecast: Math.round(nextMonthForecast * 100) / 100,
-            next3MonthsForecast: Math.round(next3MonthsForecast * 100) / 100,
-            growthRate: Math.round(growthRate * 10000) / 100,
-            stockoutRisk,
-            recommendedOrderQuantity: stockoutRisk ? 
-              Math.ceil(next3MonthsForecast - currentStock) : 0,
-          });
+  /**
+   * Units sold of each variant in the given orders
+   */
+  private getUnitsSold(orders: ShopifyOrder[]): Map<string, number> {
+    const unitsSold = new Map<string, number>();
+    orders.forEach(order => {
+      order.lineItems?.edges?.forEach(({ node: item }) => {
+        const variantId = item.variant?.id;
+        if (variantId) {
+          unitsSold.set(variantId, (unitsSold.get(variantId) || 0) + (item.quantity || 0));
         }
       });
     });
-
-    return forecasts
-      .filter(f => f.averageMonthlySales > 0)
-      .sort((a, b) => b.nextMonthForecast - a.nextMonthForecast)
-      .slice(0, 50);
+    return unitsSold;
   }
 
-  // Helper methods
   private calculateVariantSales(orders: ShopifyOrder[]) {
     const variantSalesMap = new Map<string, {
       lastMonth: number;
@@ -533,12 +665,12 @@ export class InventoryAnalyticsService {
       totalSold: number;
     }>();
 
-    const now = moment();
+    const now = this.storeContext.moment();
     const lastMonth = now.clone().subtract(1, 'month');
     const last3Months = now.clone().subtract(3, 'months');
 
     orders.forEach(order => {
-      const orderDate = moment(order.createdAt);
+      const orderDate = this.storeContext.moment(order.createdAt);
       
       order.lineItems?.edges?.forEach(edge => {
         const item = edge.node;
@@ -686,28 +818,39 @@ export class InventoryAnalyticsService {
   }
 
   /**
-   * Fast inventory valuation (simplified)
+   * Fast inventory valuation at retail price and at unit cost (simplified)
    */
-  private async calculateInventoryValuationFast(products: ShopifyProduct[]) {
-    let totalValue = 0;
+  private async calculateInventoryValuationFast(products: ShopifyProduct[], currency: string, costs: UnitCostLookup) {
+    let totalValue = Money.zero(currency);
+    let costValue = Money.zero(currency);
     let totalUnits = 0;
+    let unitsWithoutCost = 0;
 
     products.forEach(product => {
       product.variants?.edges?.forEach(variantEdge => {
         const variant = variantEdge.node;
         const quantity = variant.inventoryQuantity || 0;
-        const price = parseFloat(variant.price || '0');
+        const price = Money.of(variant.price, currency);
+        const unitCost = costs.getUnitCost(variant.id, variant.sku);
         
-        totalValue += quantity * price;
+        totalValue = totalValue.add(price.multiply(quantity));
         totalUnits += quantity;
+        if (unitCost) {
+          costValue = costValue.add(unitCost.amount.multiply(quantity));
+        } else {
+          unitsWithoutCost += quantity;
+        }
       });
     });
 
     return {
-      totalValue: Math.round(totalValue * 100) / 100,
+      totalValue,
+      retailValue: totalValue,
+      costValue,
       totalUnits,
-      averageValuePerUnit: totalUnits > 0 ? Math.round((totalValue / totalUnits) * 100) / 100 : 0,
-      currency: 'USD', // Simplified
+      unitsWithoutCost,
+      averageValuePerUnit: totalValue.divide(totalUnits),
+      currency,
     };
   }
 }
@@ -0,0 +1,228 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { OrderRepository } from '../storage/order.repository';
+import { CurrencyService } from '../currency/currency.service';
+import { CostsService } from '../costs/costs.service';
+import { RepAttributionService } from '../sales-reps/rep-attribution.service';
+import { Money } from '@shared/money';
+import { LineItem, ShopifyOrder } from '@interfaces/shopify.interface';
+import { MarginDimension, MarginFigures, MarginReport, MarginRow, UnitCostLookup } from '@interfaces/cost.interface';
+import { RepAttributor } from '@interfaces/sales-rep.interface';
+
+interface MarginTotals {
+  netSales: Money;
+  netSalesWithCost: Money;
+  cogs: Money;
+  unitsSold: number;
+  unitsWithoutCost: number;
+}
+
+interface LineMargin {
+  item: LineItem;
+  netSales: Money;
+  // Null when the item has no known cost
+  cogs: Money | null;
+  units: number;
+}
+
+interface MarginGroup {
+  key: string;
+  label: string;
+  share: number;
+}
+
+/**
+ * Cost of goods sold and gross margin from line item sales and unit costs
+ */
+@Injectable()
+export class MarginAnalyticsService {
+  private readonly logger = new Logger(MarginAnalyticsService.name);
+
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly currencyService: CurrencyService,
+    private readonly costsService: CostsService,
+    private readonly repAttributionService: RepAttributionService,
+  ) {}
+
+  /**
+   * Margins of the stored orders placed in a period, excluding cancelled ones, grouped by a
+   * dimension. Amounts are in the shop currency unless a reporting currency is given.
+   */
+  getMarginReport(dimension: MarginDimension, startDate: Date, endDate: Date, currency?: string): MarginReport {
+    const shopOrders = this.orderRepository.findByDateRange(startDate, endDate, { includeCancelled: false });
+    const shopCurrency = this.currencyService.getShopCurrency(shopOrders);
+    const reportCurrency = currency ? this.currencyService.resolveCurrency(currency) : shopCurrency;
+    const orders = this.currencyService.convertOrders(shopOrders, currency);
+
+    this.logger.log(`Calculating ${dimension} margins for ${orders.length} orders`);
+    const { rows, totals } = this.calculateMargins(
+      orders,
+      dimension,
+      reportCurrency,
+      this.costsService.createCostLookup(undefined, shopCurrency),
+    );
+
+    return {
+      dimension,
+      currency: reportCurrency,
+      period: { start: startDate.toISOString(), end: endDate.toISOString() },
+      totals,
+      rows,
+    };
+  }
+
+  /**
+   * Margins of orders already in the given currency, grouped by a dimension and sorted by
+   * gross margin. Unit costs are converted at the rate of each order's date. Refunded items
+   * are taken out of both sales and cost of goods sold.
+   */
+  calculateMargins(
+    orders: ShopifyOrder[],
+    dimension: MarginDimension,
+    currency: string,
+    costs: UnitCostLookup = this.costsService.createCostLookup(),
+  ): { rows: MarginRow[]; totals: MarginFigures } {
+    const attributor = dimension === 'rep' ? this.repAttributionService.createAttributor() : null;
+    const groups = new Map<string, { label: string; totals: MarginTotals }>();
+    const overall = this.emptyTotals(currency);
+
+    for (const order of orders) {
+      const repGroups = attributor ? this.getRepGroups(order, attributor) : null;
+
+      for (const line of this.calculateLineMargins(order, currency, costs)) {
+        this.addLine(overall, line, 1);
+
+        for (const group of repGroups || this.getGroups(order, line.item, dimension)) {
+          if (!groups.has(group.key)) {
+            groups.set(group.key, { label: group.label, totals: this.emptyTotals(currency) });
+          }
+          this.addLine(groups.get(group.key).totals, line, group.share);
+        }
+      }
+    }
+
+    const rows = Array.from(groups.entries())
+      .map(([key, group]) => ({ key, label: group.label, ...this.toFigures(group.totals) }))
+      .sort((a, b) => b.grossMargin.compare(a.grossMargin));
+
+    return { rows, totals: this.toFigures(overall) };
+  }
+
+  /**
+   * Figures for a group without sales
+   */
+  emptyFigures(currency: string): MarginFigures {
+    return this.toFigures(this.emptyTotals(currency));
+  }
+
+  private calculateLineMargins(order: ShopifyOrder, currency: string, costs: UnitCostLookup): LineMargin[] {
+    const date = order.processedAt || order.createdAt;
+    const refunded = new Map<string, { quantity: number; subtotal: Money }>();
+
+    for (const refund of order.refunds || []) {
+      for (const { node: line } of refund.refundLineItems?.edges || []) {
+        const lineItemId = line.lineItem?.id;
+        if (!lineItemId) continue;
+
+        const entry = refunded.get(lineItemId) || { quantity: 0, subtotal: Money.zero(currency) };
+        entry.quantity += line.quantity || 0;
+        entry.subtotal = entry.subtotal.add(Money.fromShopMoney(line.subtotalSet, currency));
+        refunded.set(lineItemId, entry);
+      }
+    }
+
+    return (order.lineItems?.edges || []).map(({ node: item }) => {
+      const returned = refunded.get(item.id);
+      const units = Math.max((item.quantity || 0) - (returned?.quantity || 0), 0);
+      const netSales = Money.fromShopMoney(item.originalUnitPriceSet, currency)
+        .multiply(item.quantity || 0)
+        .subtract(Money.fromShopMoney(item.totalDiscountSet, currency))
+        .subtract(returned?.subtotal || Money.zero(currency));
+
+      const unitCost = costs.getUnitCost(item.variant?.id, item.sku);
+      let cogs: Money | null = null;
+      if (unitCost) {
+        const cost = this.currencyService.convert(unitCost.amount, currency, date);
+        if (!cost) {
+          throw new BadRequestException(`No exchange rate to convert ${unitCost.amount.currency} to ${currency}`);
+        }
+        cogs = cost.multiply(units);
+      }
+
+      return { item, netSales, cogs, units };
+    });
+  }
+
+  private getGroups(order: ShopifyOrder, item: LineItem, dimension: MarginDimension): MarginGroup[] {
+    const product = item.variant?.product;
+
+    switch (dimension) {
+      case 'order':
+        return [{ key: order.id, label: order.name, share: 1 }];
+      case 'product':
+        return [{ key: product?.id || `untracked:${item.title}`, label: product?.title || item.title, share: 1 }];
+      case 'product_type':
+        return [
+          { key: product?.productType || 'Uncategorized', label: product?.productType || 'Uncategorized', share: 1 },
+        ];
+      case 'vendor':
+        return [{ key: product?.vendor || 'Unknown', label: product?.vendor || 'Unknown', share: 1 }];
+      case 'customer':
+        return [
+          {
+            key: order.customer?.id || 'guest',
+            label: order.customer?.displayName || order.customer?.email || 'Guest',
+            share: 1,
+          },
+        ];
+      default:
+        return [];
+    }
+  }
+
+  private getRepGroups(order: ShopifyOrder, attributor: RepAttributor): MarginGroup[] {
+    return attributor.attribute(order).map(credit => ({
+      key: credit.repId,
+      label: attributor.getRepName(credit.repId),
+      share: credit.share,
+    }));
+  }
+
+  private addLine(totals: MarginTotals, line: LineMargin, share: number): void {
+    const netSales = share === 1 ? line.netSales : line.netSales.multiply(share);
+    totals.netSales = totals.netSales.add(netSales);
+    totals.unitsSold += line.units * share;
+
+    if (line.cogs) {
+      totals.netSalesWithCost = totals.netSalesWithCost.add(netSales);
+      totals.cogs = totals.cogs.add(share === 1 ? line.cogs : line.cogs.multiply(share));
+    } else {
+      totals.unitsWithoutCost += line.units * share;
+    }
+  }
+
+  private emptyTotals(currency: string): MarginTotals {
+    return {
+      netSales: Money.zero(currency),
+      netSalesWithCost: Money.zero(currency),
+      cogs: Money.zero(currency),
+      unitsSold: 0,
+      unitsWithoutCost: 0,
+    };
+  }
+
+  private toFigures(totals: MarginTotals): MarginFigures {
+    const grossMargin = totals.netSalesWithCost.subtract(totals.cogs);
+
+    return {
+      netSales: totals.netSales,
+      netSalesWithCost: totals.netSalesWithCost,
+      cogs: totals.cogs,
+      grossMargin,
+      marginPercentage: Math.round(grossMargin.ratio(totals.netSalesWithCost) * 10000) / 100,
+      costCoverage: Math.round(totals.netSalesWithCost.ratio(totals.netSales) * 10000) / 100,
+      unitsSold: Math.round(totals.unitsSold * 100) / 100,
+      unitsWithoutCost: Math.round(totals.unitsWithoutCost * 100) / 100,
+    };
+  }
+}
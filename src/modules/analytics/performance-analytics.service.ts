@@ -7,11 +7,19 @@ import {
   OrderFulfillmentStatus,
   FulfillmentLineItem,
 } from '@interfaces/shopify.interface';
+import { CurrencyService } from '../currency/currency.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { Money } from '@shared/money';
 
 @Injectable()
 export class PerformanceAnalyticsService {
   private readonly logger = new Logger(PerformanceAnalyticsService.name);
 
+  constructor(
+    private readonly currencyService: CurrencyService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
   /**
    * Process performance data and generate comprehensive analytics
    */
@@ -19,6 +27,7 @@ export class PerformanceAnalyticsService {
     this.logger.log('Processing performance analytics data');
 
     try {
+      const currency = this.currencyService.getShopCurrency(orders);
       const [
         orderFulfillmentMetrics,
         shippingPerformance,
@@ -29,12 +38,12 @@ export class PerformanceAnalyticsService {
         trendAnalysis,
       ] = await Promise.all([
         this.calculateOrderFulfillmentMetrics(orders),
-        this.calculateShippingPerformance(orders),
+        this.calculateShippingPerformance(orders, currency),
         this.calculateOrderProcessingMetrics(orders),
-        this.calculatePaymentAnalytics(orders),
-        this.calculateOperationalEfficiency(orders, customers),
-        this.calculateKPIMetrics(orders, customers),
-        this.calculateTrendAnalysis(orders),
+        this.calculatePaymentAnalytics(orders, currency),
+        this.calculateOperationalEfficiency(orders, customers, currency),
+        this.calculateKPIMetrics(orders, customers, currency),
+        this.calculateTrendAnalysis(orders, currency),
       ]);
 
       return {
@@ -47,7 +56,7 @@ export class PerformanceAnalyticsService {
         trendAnalysis,
         summary: {
           totalOrders: orders.length,
-          averageOrderValue: this.calculateAverageOrderValue(orders),
+          averageOrderValue: this.calculateAverageOrderValue(orders, currency),
           fulfillmentRate: this.calculateFulfillmentRate(orders),
           averageProcessingTime: orderProcessingMetrics.averageProcessingTime,
         },
@@ -100,8 +109,8 @@ export class PerformanceAnalyticsService {
 
       // Calculate fulfillment time for fulfilled orders
       if (status.toLowerCase() === 'fulfilled' && order.fulfillments && order.fulfillments.length > 0) {
-        const orderDate = moment(order.createdAt);
-        const fulfillmentDate = moment(order.fulfillments[0].createdAt);
+        const orderDate = this.storeContext.moment(order.createdAt);
+        const fulfillmentDate = this.storeContext.moment(order.fulfillments[0].createdAt);
         const hoursToFulfill = fulfillmentDate.diff(orderDate, 'hours');
         fulfillmentTimes.push(hoursToFulfill);
       }
@@ -156,7 +165,7 @@ export class PerformanceAnalyticsService {
   /**
    * Calculate shipping performance metrics
    */
-  private async calculateShippingPerformance(orders: ShopifyOrder[]) {
+  private async calculateShippingPerformance(orders: ShopifyOrder[], currency: string) {
     const shippingData = {
       withTracking: 0,
       withoutTracking: 0,
@@ -166,7 +175,7 @@ export class PerformanceAnalyticsService {
     };
 
     const shippingTimes: number[] = [];
-    const shippingCosts: number[] = [];
+    const shippingCosts: Money[] = [];
 
     orders
       .filter(order => order.displayFulfillmentStatus === 'fulfilled')
@@ -185,30 +194,30 @@ export class PerformanceAnalyticsService {
         }
 
         // Calculate shipping cost (from order total shipping price)
-        const shippingCost = parseFloat(order.totalShippingPriceSet?.shopMoney?.amount || '0');
-        if (shippingCost > 0) {
+        const shippingCost = Money.fromShopMoney(order.totalShippingPriceSet, currency);
+        if (shippingCost.greaterThan(Money.zero(currency))) {
           shippingCosts.push(shippingCost);
         }
 
         // Estimate shipping time (simplified)
         if (order.fulfillments && order.fulfillments.length > 0) {
-          const fulfillmentDate = moment(order.fulfillments[0].createdAt);
+          const fulfillmentDate = this.storeContext.moment(order.fulfillments[0].createdAt);
           const estimatedDelivery = fulfillmentDate.clone().add(3, 'days'); // Assume 3 day delivery
           const shippingTime = estimatedDelivery.diff(fulfillmentDate, 'hours');
           shippingTimes.push(shippingTime);
         }
       });
 
-    const averageShippingCost = shippingCosts.length > 0 ? _.mean(shippingCosts) : 0;
+    const averageShippingCost = Money.sum(shippingCosts, currency).divide(shippingCosts.length);
     const averageShippingTime = shippingTimes.length > 0 ? _.mean(shippingTimes) : 0;
 
     return {
       trackingCoverage: shippingData.total > 0 ? 
         (shippingData.withTracking / shippingData.total) * 100 : 0,
-      averageShippingCost: Math.round(averageShippingCost * 100) / 100,
+      averageShippingCost,
       averageShippingTime: Math.round(averageShippingTime * 100) / 100, // in hours
       shippingBreakdown: shippingData,
-      shippingCostDistribution: this.calculateCostDistribution(shippingCosts),
+      shippingCostDistribution: this.calculateCostDistribution(shippingCosts, currency),
     };
   }
 
@@ -222,8 +231,8 @@ export class PerformanceAnalyticsService {
     
     orders.forEach(order => {
       // Calculate processing time (order created to processed)
-      const orderDate = moment(order.createdAt);
-      const processedDate = moment(order.processedAt || order.createdAt);
+      const orderDate = this.storeContext.moment(order.createdAt);
+      const processedDate = this.storeContext.moment(order.processedAt || order.createdAt);
       const processingHours = processedDate.diff(orderDate, 'hours');
       processingTimes.push(processingHours);
 
@@ -258,58 +267,65 @@ export class PerformanceAnalyticsService {
   /**
    * Calculate payment analytics
    */
-  private async calculatePaymentAnalytics(orders: ShopifyOrder[]) {
+  private async calculatePaymentAnalytics(orders: ShopifyOrder[], currency: string) {
     const paymentData = {
       paid: 0,
       pending: 0,
       partially_paid: 0,
+      partially_refunded: 0,
       refunded: 0,
       voided: 0,
       total: orders.length,
     };
 
-    const paymentAmounts: number[] = [];
-    const refundAmounts: number[] = [];
+    const paymentAmounts: Money[] = [];
+    const refundAmounts: Money[] = [];
 
     orders.forEach(order => {
-      const financialStatus = order.displayFinancialStatus || 'pending';
-      const orderAmount = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+      // GraphQL reports display statuses in upper case
+      const financialStatus = (order.displayFinancialStatus || 'pending').toLowerCase();
+      const orderAmount = Money.fromShopMoney(order.totalPriceSet, currency);
       
       // Count by financial status
       if (paymentData.hasOwnProperty(financialStatus)) {
         paymentData[financialStatus as keyof typeof paymentData]++;
       }
 
-      if (financialStatus === 'paid') {
+      if (['paid', 'partially_refunded', 'refunded'].includes(financialStatus)) {
         paymentAmounts.push(orderAmount);
+      }
+
+      // Orders synced before refunds were fetched only know they were refunded in full
+      if (order.totalRefundedSet) {
+        refundAmounts.push(Money.fromShopMoney(order.totalRefundedSet, currency));
       } else if (financialStatus === 'refunded') {
         refundAmounts.push(orderAmount);
       }
     });
 
-    const totalPayments = paymentAmounts.reduce((sum, amount) => sum + amount, 0);
-    const totalRefunds = refundAmounts.reduce((sum, amount) => sum + amount, 0);
-    const averagePaymentAmount = paymentAmounts.length > 0 ? _.mean(paymentAmounts) : 0;
+    const totalPayments = Money.sum(paymentAmounts, currency);
+    const totalRefunds = Money.sum(refundAmounts, currency);
+    const averagePaymentAmount = totalPayments.divide(paymentAmounts.length);
 
     return {
       statusBreakdown: paymentData,
       paymentSuccessRate: paymentData.total > 0 ? 
-        (paymentData.paid / paymentData.total) * 100 : 0,
+        (paymentAmounts.length / paymentData.total) * 100 : 0,
       refundRate: paymentData.total > 0 ? 
-        (paymentData.refunded / paymentData.total) * 100 : 0,
-      totalPayments: Math.round(totalPayments * 100) / 100,
-      totalRefunds: Math.round(totalRefunds * 100) / 100,
-      averagePaymentAmount: Math.round(averagePaymentAmount * 100) / 100,
-      netRevenue: Math.round((totalPayments - totalRefunds) * 100) / 100,
+        ((paymentData.refunded + paymentData.partially_refunded) / paymentData.total) * 100 : 0,
+      totalPayments,
+      totalRefunds,
+      averagePaymentAmount,
+      netRevenue: totalPayments.subtract(totalRefunds),
     };
   }
 
   /**
    * Calculate operational efficiency metrics
    */
-  private async calculateOperationalEfficiency(orders: ShopifyOrder[], customers: ShopifyCustomer[]) {
-    const last30Days = moment().subtract(30, 'days');
-    const recentOrders = orders.filter(order => moment(order.createdAt).isAfter(last30Days));
+  private async calculateOperationalEfficiency(orders: ShopifyOrder[], customers: ShopifyCustomer[], currency: string) {
+    const last30Days = this.storeContext.moment().subtract(30, 'days');
+    const recentOrders = orders.filter(order => this.storeContext.moment(order.createdAt).isAfter(last30Days));
     
     // Order processing efficiency
     const totalOrders = orders.length;
@@ -322,9 +338,8 @@ export class PerformanceAnalyticsService {
     const activeCustomers = this.countActiveCustomers(customers, orders);
     
     // Revenue per order
-    const totalRevenue = orders.reduce((sum, order) => 
-      sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0);
-    const revenuePerOrder = totalOrders > 0 ? totalRevenue / totalOrders : 0;
+    const totalRevenue = this.sumOrderTotals(orders, currency);
+    const revenuePerOrder = totalRevenue.divide(totalOrders);
 
     // Order frequency
     const averageOrdersPerCustomer = totalCustomers > 0 ? totalOrders / totalCustomers : 0;
@@ -333,9 +348,9 @@ export class PerformanceAnalyticsService {
       orderFulfillmentEfficiency: totalOrders > 0 ? (fulfilledOrders / totalOrders) * 100 : 0,
       customerRetentionRate: this.calculateCustomerRetentionRate(customers),
       averageOrdersPerCustomer: Math.round(averageOrdersPerCustomer * 100) / 100,
-      revenuePerOrder: Math.round(revenuePerOrder * 100) / 100,
+      revenuePerOrder,
       orderVelocity: recentOrders.length, // Orders in last 30 days
-      customerLifetimeValue: this.calculateAverageCustomerLifetimeValue(customers),
+      customerLifetimeValue: this.calculateAverageCustomerLifetimeValue(customers, currency),
       operationalScores: {
         efficiency: Math.round(((fulfilledOrders / totalOrders) * 0.4 + 
                               (activeCustomers / totalCustomers) * 0.3 + 
@@ -349,62 +364,56 @@ export class PerformanceAnalyticsService {
   /**
    * Calculate key performance indicators (KPIs)
    */
-  private async calculateKPIMetrics(orders: ShopifyOrder[], customers: ShopifyCustomer[]) {
-    const now = moment();
+  private async calculateKPIMetrics(orders: ShopifyOrder[], customers: ShopifyCustomer[], currency: string) {
+    const now = this.storeContext.moment();
     const thisMonth = now.clone().startOf('month');
     const lastMonth = now.clone().subtract(1, 'month').startOf('month');
     const thisYear = now.clone().startOf('year');
 
     // Monthly metrics
-    const thisMonthOrders = orders.filter(order => moment(order.createdAt).isAfter(thisMonth));
+    const thisMonthOrders = orders.filter(order => this.storeContext.moment(order.createdAt).isAfter(thisMonth));
     const lastMonthOrders = orders.filter(order => {
-      const orderDate = moment(order.createdAt);
+      const orderDate = this.storeContext.moment(order.createdAt);
       return orderDate.isAfter(lastMonth) && orderDate.isBefore(thisMonth);
     });
 
     // Revenue metrics
-    const thisMonthRevenue = thisMonthOrders.reduce((sum, order) => 
-      sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0);
-    const lastMonthRevenue = lastMonthOrders.reduce((sum, order) => 
-      sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0);
+    const thisMonthRevenue = this.sumOrderTotals(thisMonthOrders, currency);
+    const lastMonthRevenue = this.sumOrderTotals(lastMonthOrders, currency);
 
     // Growth calculations
-    const revenueGrowth = lastMonthRevenue > 0 ? 
-      ((thisMonthRevenue - lastMonthRevenue) / lastMonthRevenue) * 100 : 0;
+    const revenueGrowth = thisMonthRevenue.subtract(lastMonthRevenue).ratio(lastMonthRevenue) * 100;
     const orderGrowth = lastMonthOrders.length > 0 ? 
       ((thisMonthOrders.length - lastMonthOrders.length) / lastMonthOrders.length) * 100 : 0;
 
     // Year-to-date metrics
-    const ytdOrders = orders.filter(order => moment(order.createdAt).isAfter(thisYear));
-    const ytdRevenue = ytdOrders.reduce((sum, order) => 
-      sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0);
+    const ytdOrders = orders.filter(order => this.storeContext.moment(order.createdAt).isAfter(thisYear));
+    const ytdRevenue = this.sumOrderTotals(ytdOrders, currency);
 
     return {
       monthlyMetrics: {
-        revenue: Math.round(thisMonthRevenue * 100) / 100,
+        revenue: thisMonthRevenue,
         orders: thisMonthOrders.length,
-        averageOrderValue: thisMonthOrders.length > 0 ? 
-          Math.round((thisMonthRevenue / thisMonthOrders.length) * 100) / 100 : 0,
+        averageOrderValue: thisMonthRevenue.divide(thisMonthOrders.length),
         revenueGrowth: Math.round(revenueGrowth * 100) / 100,
         orderGrowth: Math.round(orderGrowth * 100) / 100,
       },
       yearToDateMetrics: {
-        revenue: Math.round(ytdRevenue * 100) / 100,
+        revenue: ytdRevenue,
         orders: ytdOrders.length,
-        averageOrderValue: ytdOrders.length > 0 ? 
-          Math.round((ytdRevenue / ytdOrders.length) * 100) / 100 : 0,
+        averageOrderValue: ytdRevenue.divide(ytdOrders.length),
       },
       customerMetrics: {
         totalCustomers: customers.length,
         newCustomersThisMonth: this.countNewCustomers(customers, thisMonth),
         customerRetentionRate: this.calculateCustomerRetentionRate(customers),
-        averageCustomerValue: this.calculateAverageCustomerLifetimeValue(customers),
+        averageCustomerValue: this.calculateAverageCustomerLifetimeValue(customers, currency),
       },
       performanceScores: {
-        overall: this.calculateOverallPerformanceScore(orders, customers),
-        sales: this.calculateSalesPerformanceScore(orders),
+        overall: this.calculateOverallPerformanceScore(orders, customers, currency),
+        sales: this.calculateSalesPerformanceScore(orders, currency),
         operations: this.calculateOperationsPerformanceScore(orders),
-        customer: this.calculateCustomerPerformanceScore(customers, orders),
+        customer: this.calculateCustomerPerformanceScore(customers, orders, currency),
       },
     };
   }
@@ -412,31 +421,31 @@ export class PerformanceAnalyticsService {
   /**
    * Calculate trend analysis
    */
-  private async calculateTrendAnalysis(orders: ShopifyOrder[]) {
-    const last12Months = moment().subtract(12, 'months');
+  private async calculateTrendAnalysis(orders: ShopifyOrder[], currency: string) {
+    const last12Months = this.storeContext.moment().subtract(12, 'months');
     const monthlyData = new Map<string, {
-      revenue: number;
+      revenue: Money;
       orders: number;
       customers: Set<string>;
     }>();
 
     // Initialize last 12 months
     for (let i = 0; i < 12; i++) {
-      const month = moment().subtract(i, 'months').format('YYYY-MM');
-      monthlyData.set(month, { revenue: 0, orders: 0, customers: new Set() });
+      const month = this.storeContext.moment().subtract(i, 'months').format('YYYY-MM');
+      monthlyData.set(month, { revenue: Money.zero(currency), orders: 0, customers: new Set() });
     }
 
     // Aggregate data by month
     orders
-      .filter(order => moment(order.createdAt).isAfter(last12Months))
+      .filter(order => this.storeContext.moment(order.createdAt).isAfter(last12Months))
       .forEach(order => {
-        const month = moment(order.createdAt).format('YYYY-MM');
-        const revenue = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+        const month = this.storeContext.moment(order.createdAt).format('YYYY-MM');
+        const revenue = Money.fromShopMoney(order.totalPriceSet, currency);
         const customerId = order.customer?.id;
 
         if (monthlyData.has(month)) {
           const data = monthlyData.get(month)!;
-          data.revenue += revenue;
+          data.revenue = data.revenue.add(revenue);
           data.orders += 1;
           if (customerId) {
             data.customers.add(customerId);
@@ -448,11 +457,10 @@ export class PerformanceAnalyticsService {
     const monthlyTrends = Array.from(monthlyData.entries())
       .map(([month, data]) => ({
         month,
-        revenue: Math.round(data.revenue * 100) / 100,
+        revenue: data.revenue,
         orders: data.orders,
         customers: data.customers.size,
-        averageOrderValue: data.orders > 0 ? 
-          Math.round((data.revenue / data.orders) * 100) / 100 : 0,
+        averageOrderValue: data.revenue.divide(data.orders),
       }))
       .sort((a, b) => a.month.localeCompare(b.month));
 
@@ -463,8 +471,7 @@ export class PerformanceAnalyticsService {
       }
 
       const previous = monthlyTrends[index - 1];
-      const revenueGrowth = previous.revenue > 0 ? 
-        ((current.revenue - previous.revenue) / previous.revenue) * 100 : 0;
+      const revenueGrowth = current.revenue.subtract(previous.revenue).ratio(previous.revenue) * 100;
       const orderGrowth = previous.orders > 0 ? 
         ((current.orders - previous.orders) / previous.orders) * 100 : 0;
 
@@ -478,14 +485,14 @@ export class PerformanceAnalyticsService {
     return {
       monthlyTrends: trendsWithGrowth,
       overallTrend: this.calculateOverallTrend(trendsWithGrowth),
-      seasonalPatterns: this.calculateSeasonalPatterns(trendsWithGrowth),
-      projections: this.calculateProjections(trendsWithGrowth),
+      seasonalPatterns: this.calculateSeasonalPatterns(trendsWithGrowth, currency),
+      projections: this.calculateProjections(trendsWithGrowth, currency),
     };
   }
 
   // Helper methods
   private calculateEstimatedShipDate(orderDate: string): string {
-    return moment(orderDate).add(2, 'days').format('YYYY-MM-DD');
+    return this.storeContext.moment(orderDate).add(2, 'days').format('YYYY-MM-DD');
   }
 
   private calculateTimeDistribution(times: number[]) {
@@ -501,15 +508,16 @@ export class PerformanceAnalyticsService {
     };
   }
 
-  private calculateCostDistribution(costs: number[]) {
+  private calculateCostDistribution(costs: Money[], currency: string) {
     if (costs.length === 0) return {};
 
-    const sorted = costs.sort((a, b) => a - b);
+    const sorted = costs.sort((a, b) => a.compare(b));
+    const mid = Math.floor(sorted.length / 2);
     return {
-      min: Math.round((sorted[0] || 0) * 100) / 100,
-      max: Math.round((sorted[sorted.length - 1] || 0) * 100) / 100,
-      average: Math.round(_.mean(costs) * 100) / 100,
-      median: Math.round(this.calculateMedian(sorted) * 100) / 100,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      average: Money.sum(costs, currency).divide(costs.length),
+      median: sorted.length % 2 !== 0 ? sorted[mid] : sorted[mid - 1].add(sorted[mid]).divide(2),
     };
   }
 
@@ -528,10 +536,12 @@ export class PerformanceAnalyticsService {
            arr[lower] * (1 - weight) + arr[upper] * weight;
   }
 
-  private calculateAverageOrderValue(orders: ShopifyOrder[]): number {
-    const totalRevenue = orders.reduce((sum, order) => 
-      sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0);
-    return orders.length > 0 ? Math.round((totalRevenue / orders.length) * 100) / 100 : 0;
+  private sumOrderTotals(orders: ShopifyOrder[], currency: string): Money {
+    return Money.sumBy(orders, order => Money.fromShopMoney(order.totalPriceSet, currency), currency);
+  }
+
+  private calculateAverageOrderValue(orders: ShopifyOrder[], currency: string): Money {
+    return this.sumOrderTotals(orders, currency).divide(orders.length);
   }
 
   private calculateFulfillmentRate(orders: ShopifyOrder[]): number {
@@ -542,11 +552,11 @@ export class PerformanceAnalyticsService {
   }
 
   private countActiveCustomers(customers: ShopifyCustomer[], orders: ShopifyOrder[]): number {
-    const last30Days = moment().subtract(30, 'days');
+    const last30Days = this.storeContext.moment().subtract(30, 'days');
     const activeCustomerIds = new Set<string>();
 
     orders
-      .filter(order => moment(order.createdAt).isAfter(last30Days))
+      .filter(order => this.storeContext.moment(order.createdAt).isAfter(last30Days))
       .forEach(order => {
         if (order.customer?.id) {
           activeCustomerIds.add(order.customer.id);
@@ -562,10 +572,9 @@ export class PerformanceAnalyticsService {
       Math.round((returningCustomers / customers.length) * 10000) / 100 : 0;
   }
 
-  private calculateAverageCustomerLifetimeValue(customers: ShopifyCustomer[]): number {
-    const totalValue = customers.reduce((sum, customer) => 
-      sum + parseFloat(customer.amountSpent?.amount || '0'), 0);
-    return customers.length > 0 ? Math.round((totalValue / customers.length) * 100) / 100 : 0;
+  private calculateAverageCustomerLifetimeValue(customers: ShopifyCustomer[], currency: string): Money {
+    const totalValue = Money.sumBy(customers, customer => Money.fromMoneyV2(customer.amountSpent, currency), currency);
+    return totalValue.divide(customers.length);
   }
 
   private calculateRefundRate(orders: ShopifyOrder[]): number {
@@ -575,8 +584,8 @@ export class PerformanceAnalyticsService {
 
   private calculateAverageProcessingTime(orders: ShopifyOrder[]): number {
     const processingTimes = orders.map(order => {
-      const orderDate = moment(order.createdAt);
-      const processedDate = moment(order.processedAt || order.createdAt);
+      const orderDate = this.storeContext.moment(order.createdAt);
+      const processedDate = this.storeContext.moment(order.processedAt || order.createdAt);
       return processedDate.diff(orderDate, 'hours');
     });
 
@@ -584,13 +593,13 @@ export class PerformanceAnalyticsService {
   }
 
   private countNewCustomers(customers: ShopifyCustomer[], since: moment.Moment): number {
-    return customers.filter(customer => moment(customer.createdAt).isAfter(since)).length;
+    return customers.filter(customer => this.storeContext.moment(customer.createdAt).isAfter(since)).length;
   }
 
-  private calculateOverallPerformanceScore(orders: ShopifyOrder[], customers: ShopifyCustomer[]): number {
+  private calculateOverallPerformanceScore(orders: ShopifyOrder[], customers: ShopifyCustomer[], currency: string): number {
     const fulfillmentRate = this.calculateFulfillmentRate(orders);
     const retentionRate = this.calculateCustomerRetentionRate(customers);
-    const avgOrderValue = this.calculateAverageOrderValue(orders);
+    const avgOrderValue = this.calculateAverageOrderValue(orders, currency).toNumber();
     const refundRate = this.calculateRefundRate(orders);
 
     // Weighted score
@@ -602,8 +611,8 @@ export class PerformanceAnalyticsService {
     );
   }
 
-  private calculateSalesPerformanceScore(orders: ShopifyOrder[]): number {
-    const avgOrderValue = this.calculateAverageOrderValue(orders);
+  private calculateSalesPerformanceScore(orders: ShopifyOrder[], currency: string): number {
+    const avgOrderValue = this.calculateAverageOrderValue(orders, currency).toNumber();
     const revenueGrowth = 10; // Placeholder - would calculate from historical data
     
     return Math.round(
@@ -622,9 +631,9 @@ export class PerformanceAnalyticsService {
     );
   }
 
-  private calculateCustomerPerformanceScore(customers: ShopifyCustomer[], orders: ShopifyOrder[]): number {
+  private calculateCustomerPerformanceScore(customers: ShopifyCustomer[], orders: ShopifyOrder[], currency: string): number {
     const retentionRate = this.calculateCustomerRetentionRate(customers);
-    const clv = this.calculateAverageCustomerLifetimeValue(customers);
+    const clv = this.calculateAverageCustomerLifetimeValue(customers, currency).toNumber();
     
     return Math.round(
       retentionRate * 0.6 + 
@@ -644,7 +653,7 @@ export class PerformanceAnalyticsService {
     return 'Declining';
   }
 
-  private calculateSeasonalPatterns(trends: any[]) {
+  private calculateSeasonalPatterns(trends: any[], currency: string) {
     // Simple seasonal analysis based on month patterns
     const seasonalData = {
       Q1: trends.filter(t => ['01', '02', '03'].includes(t.month.split('-')[1])),
@@ -655,21 +664,22 @@ export class PerformanceAnalyticsService {
 
     return Object.entries(seasonalData).map(([quarter, data]) => ({
       quarter,
-      averageRevenue: data.length > 0 ? _.meanBy(data, 'revenue') : 0,
+      averageRevenue: Money.sumBy(data, t => t.revenue, currency).divide(data.length),
       averageOrders: data.length > 0 ? _.meanBy(data, 'orders') : 0,
     }));
   }
 
-  private calculateProjections(trends: any[]) {
-    if (trends.length < 3) return { nextMonth: 0, nextQuarter: 0 };
+  private calculateProjections(trends: any[], currency: string) {
+    if (trends.length < 3) return { nextMonth: Money.zero(currency), nextQuarter: Money.zero(currency) };
 
     const recentTrends = trends.slice(-3);
-    const avgRevenue = _.meanBy(recentTrends, 'revenue');
+    const avgRevenue = Money.sumBy(recentTrends, t => t.revenue, currency).divide(recentTrends.length);
     const avgGrowthRate = _.meanBy(recentTrends, 'revenueGrowth') / 100;
+    const nextMonth = avgRevenue.multiply(1 + avgGrowthRate);
 
     return {
-      nextMonth: Math.round(avgRevenue * (1 + avgGrowthRate) * 100) / 100,
-      nextQuarter: Math.round(avgRevenue * (1 + avgGrowthRate) * 3 * 100) / 100,
+      nextMonth,
+      nextQuarter: nextMonth.multiply(3),
     };
   }
 }
@@ -1,5 +1,5 @@
-import { Injectable, Logger } from '@nestjs/common';
-import * as moment from 'moment';
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import * as moment from 'moment-timezone';
 import * as _ from 'lodash';
 import {
   ShopifyOrder,
@@ -9,18 +9,43 @@ import {
   QuarterlyBreakdown,
   SalesRepPerformance,
 } from '@interfaces/shopify.interface';
+import { TargetScope } from '@interfaces/target.interface';
+import { CurrencyMixReport, PresentmentCurrencyShare } from '@interfaces/currency.interface';
+import { RepAttributor } from '@interfaces/sales-rep.interface';
+import { TargetsService } from '../targets/targets.service';
+import { RepAttributionService } from '../sales-reps/rep-attribution.service';
+import { CurrencyService } from '../currency/currency.service';
+import { Money } from '@shared/money';
+import { SalesBreakdownService } from './sales-breakdown.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { OrderQueryOptions, OrderRepository } from '../storage/order.repository';
+import { zonedDayRange } from '@shared/time-zone';
 
 @Injectable()
 export class SalesAnalyticsService {
   private readonly logger = new Logger(SalesAnalyticsService.name);
 
+  constructor(
+    private readonly targetsService: TargetsService,
+    private readonly repAttributionService: RepAttributionService,
+    private readonly currencyService: CurrencyService,
+    private readonly salesBreakdownService: SalesBreakdownService,
+    private readonly storeContext: StoreContextService,
+    private readonly orderRepository: OrderRepository,
+  ) {}
+
   /**
-   * Process sales data and generate comprehensive analytics
+   * Process sales data and generate comprehensive analytics. Amounts are in the shop
+   * currency unless a reporting currency is given.
    */
-  async processSalesData(orders: ShopifyOrder[]): Promise<any> {
+  async processSalesData(shopOrders: ShopifyOrder[], currency?: string): Promise<any> {
     this.logger.log('Processing sales analytics data');
 
     try {
+      const reportCurrency = this.getReportCurrency(shopOrders, currency);
+      const shopCurrency = this.currencyService.getShopCurrency(shopOrders);
+      const orders = this.currencyService.convertOrders(shopOrders, currency);
+
       const [
         dailySales,
         weeklySales,
@@ -31,14 +56,18 @@ export class SalesAnalyticsService {
         monthlyTargetVsActual,
         salesTrends,
       ] = await Promise.all([
-        this.calculateDailySales(orders),
-        this.calculateWeeklySales(orders),
-        this.calculateMonthlySales(orders),
-        this.calculateQuarterlyData(orders),
-        this.calculateYearToDateReport(orders),
-        this.calculateSalesRepPerformance(orders),
-        this.calculateMonthlyTargetVsActual(orders),
-        this.calculateSalesTrends(orders),
+        this.calculateDailySales(orders, reportCurrency),
+        this.calculateWeeklySales(orders, reportCurrency),
+        this.calculateMonthlySales(orders, reportCurrency),
+        this.calculateQuarterlyData(orders, reportCurrency),
+        this.calculateYearToDateReport(
+          orders,
+          reportCurrency,
+          this.getBreakdownOrders(shopOrders, this.storeContext.moment().year(), currency),
+        ),
+        this.calculateSalesRepPerformance(orders, reportCurrency, shopCurrency),
+        this.calculateMonthlyTargetVsActual(shopOrders, currency),
+        this.calculateSalesTrends(orders, reportCurrency),
       ]);
 
       return {
@@ -50,6 +79,7 @@ export class SalesAnalyticsService {
         salesRepPerformance,
         monthlyTargetVsActual,
         salesTrends,
+        currency: reportCurrency,
         lastUpdated: new Date().toISOString(),
       };
     } catch (error) {
@@ -61,10 +91,10 @@ export class SalesAnalyticsService {
   /**
    * Calculate daily sales breakdown
    */
-  private async calculateDailySales(orders: ShopifyOrder[]) {
-    const last30Days = moment().subtract(30, 'days');
+  private async calculateDailySales(orders: ShopifyOrder[], currency: string) {
+    const last30Days = this.storeContext.moment().subtract(30, 'days');
     const dailyData = new Map<string, {
-      sales: number;
+      sales: Money;
       orders: number;
       averageOrderValue: number;
       customers: Set<string>;
@@ -72,9 +102,9 @@ export class SalesAnalyticsService {
 
     // Initialize last 30 days
     for (let i = 0; i < 30; i++) {
-      const date = moment().subtract(i, 'days').format('YYYY-MM-DD');
+      const date = this.storeContext.moment().subtract(i, 'days').format('YYYY-MM-DD');
       dailyData.set(date, {
-        sales: 0,
+        sales: Money.zero(currency),
         orders: 0,
         averageOrderValue: 0,
         customers: new Set(),
@@ -83,15 +113,15 @@ export class SalesAnalyticsService {
 
     // Process orders
     orders
-      .filter(order => moment(order.createdAt).isAfter(last30Days))
+      .filter(order => this.storeContext.moment(order.createdAt).isAfter(last30Days))
       .forEach(order => {
-        const date = moment(order.createdAt).format('YYYY-MM-DD');
-        const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+        const date = this.storeContext.moment(order.createdAt).format('YYYY-MM-DD');
+        const sales = Money.fromShopMoney(order.totalPriceSet, currency);
         const customerId = order.customer?.id;
 
         if (dailyData.has(date)) {
           const data = dailyData.get(date)!;
-          data.sales += sales;
+          data.sales = data.sales.add(sales);
           data.orders += 1;
           if (customerId) {
             data.customers.add(customerId);
@@ -103,9 +133,9 @@ export class SalesAnalyticsService {
     return Array.from(dailyData.entries())
       .map(([date, data]) => ({
         date,
-        sales: Math.round(data.sales * 100) / 100,
+        sales: data.sales,
         orders: data.orders,
-        averageOrderValue: data.orders > 0 ? Math.round((data.sales / data.orders) * 100) / 100 : 0,
+        averageOrderValue: data.sales.divide(data.orders),
         uniqueCustomers: data.customers.size,
       }))
       .sort((a, b) => a.date.localeCompare(b.date));
@@ -114,20 +144,20 @@ export class SalesAnalyticsService {
   /**
    * Calculate weekly sales data
    */
-  private async calculateWeeklySales(orders: ShopifyOrder[]) {
-    const last12Weeks = moment().subtract(12, 'weeks');
+  private async calculateWeeklySales(orders: ShopifyOrder[], currency: string) {
+    const last12Weeks = this.storeContext.moment().subtract(12, 'weeks');
     const weeklyData = new Map<string, {
-      sales: number;
+      sales: Money;
       orders: number;
       customers: Set<string>;
     }>();
 
     // Initialize last 12 weeks
     for (let i = 0; i < 12; i++) {
-      const weekStart = moment().subtract(i, 'weeks').startOf('week');
+      const weekStart = this.storeContext.moment().subtract(i, 'weeks').startOf('week');
       const weekKey = weekStart.format('YYYY-[W]WW');
       weeklyData.set(weekKey, {
-        sales: 0,
+        sales: Money.zero(currency),
         orders: 0,
         customers: new Set(),
       });
@@ -135,15 +165,15 @@ export class SalesAnalyticsService {
 
     // Process orders
     orders
-      .filter(order => moment(order.createdAt).isAfter(last12Weeks))
+      .filter(order => this.storeContext.moment(order.createdAt).isAfter(last12Weeks))
       .forEach(order => {
-        const weekKey = moment(order.createdAt).startOf('week').format('YYYY-[W]WW');
-        const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+        const weekKey = this.storeContext.moment(order.createdAt).startOf('week').format('YYYY-[W]WW');
+        const sales = Money.fromShopMoney(order.totalPriceSet, currency);
         const customerId = order.customer?.id;
 
         if (weeklyData.has(weekKey)) {
           const data = weeklyData.get(weekKey)!;
-          data.sales += sales;
+          data.sales = data.sales.add(sales);
           data.orders += 1;
           if (customerId) {
             data.customers.add(customerId);
@@ -154,9 +184,9 @@ export class SalesAnalyticsService {
     return Array.from(weeklyData.entries())
       .map(([week, data]) => ({
         week,
-        sales: Math.round(data.sales * 100) / 100,
+        sales: data.sales,
         orders: data.orders,
-        averageOrderValue: data.orders > 0 ? Math.round((data.sales / data.orders) * 100) / 100 : 0,
+        averageOrderValue: data.sales.divide(data.orders),
         uniqueCustomers: data.customers.size,
       }))
       .sort((a, b) => a.week.localeCompare(b.week));
@@ -165,19 +195,19 @@ export class SalesAnalyticsService {
   /**
    * Calculate monthly sales data
    */
-  private async calculateMonthlySales(orders: ShopifyOrder[]) {
-    const last12Months = moment().subtract(12, 'months');
+  private async calculateMonthlySales(orders: ShopifyOrder[], currency: string) {
+    const last12Months = this.storeContext.moment().subtract(12, 'months');
     const monthlyData = new Map<string, {
-      sales: number;
+      sales: Money;
       orders: number;
       customers: Set<string>;
     }>();
 
     // Initialize last 12 months
     for (let i = 0; i < 12; i++) {
-      const month = moment().subtract(i, 'months').format('YYYY-MM');
+      const month = this.storeContext.moment().subtract(i, 'months').format('YYYY-MM');
       monthlyData.set(month, {
-        sales: 0,
+        sales: Money.zero(currency),
         orders: 0,
         customers: new Set(),
       });
@@ -185,15 +215,15 @@ export class SalesAnalyticsService {
 
     // Process orders
     orders
-      .filter(order => moment(order.createdAt).isAfter(last12Months))
+      .filter(order => this.storeContext.moment(order.createdAt).isAfter(last12Months))
       .forEach(order => {
-        const month = moment(order.createdAt).format('YYYY-MM');
-        const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+        const month = this.storeContext.moment(order.createdAt).format('YYYY-MM');
+        const sales = Money.fromShopMoney(order.totalPriceSet, currency);
         const customerId = order.customer?.id;
 
         if (monthlyData.has(month)) {
           const data = monthlyData.get(month)!;
-          data.sales += sales;
+          data.sales = data.sales.add(sales);
           data.orders += 1;
           if (customerId) {
             data.customers.add(customerId);
@@ -205,9 +235,9 @@ export class SalesAnalyticsService {
     const monthlyArray = Array.from(monthlyData.entries())
       .map(([month, data]) => ({
         month,
-        sales: Math.round(data.sales * 100) / 100,
+        sales: data.sales,
         orders: data.orders,
-        averageOrderValue: data.orders > 0 ? Math.round((data.sales / data.orders) * 100) / 100 : 0,
+        averageOrderValue: data.sales.divide(data.orders),
         uniqueCustomers: data.customers.size,
         growthRate: 0, // Will be calculated below
       }))
@@ -217,8 +247,8 @@ export class SalesAnalyticsService {
     for (let i = 1; i < monthlyArray.length; i++) {
       const current = monthlyArray[i];
       const previous = monthlyArray[i - 1];
-      if (previous.sales > 0) {
-        current.growthRate = Math.round(((current.sales - previous.sales) / previous.sales) * 10000) / 100;
+      if (!previous.sales.isZero()) {
+        current.growthRate = Math.round(current.sales.subtract(previous.sales).ratio(previous.sales) * 10000) / 100;
       }
     }
 
@@ -228,37 +258,37 @@ export class SalesAnalyticsService {
   /**
    * Calculate quarterly data
    */
-  private async calculateQuarterlyData(orders: ShopifyOrder[]): Promise<QuarterlyBreakdown[]> {
+  private async calculateQuarterlyData(orders: ShopifyOrder[], currency: string): Promise<QuarterlyBreakdown[]> {
     const quarterlyData = new Map<string, {
-      sales: number;
+      sales: Money;
       orders: number;
       customers: Set<string>;
     }>();
 
     // Initialize last 4 quarters
     for (let i = 0; i < 4; i++) {
-      const quarter = moment().subtract(i, 'quarters');
+      const quarter = this.storeContext.moment().subtract(i, 'quarters');
       const quarterKey = `${quarter.year()}-Q${quarter.quarter()}`;
       quarterlyData.set(quarterKey, {
-        sales: 0,
+        sales: Money.zero(currency),
         orders: 0,
         customers: new Set(),
       });
     }
 
     // Process orders
-    const last4Quarters = moment().subtract(4, 'quarters');
+    const last4Quarters = this.storeContext.moment().subtract(4, 'quarters');
     orders
-      .filter(order => moment(order.createdAt).isAfter(last4Quarters))
+      .filter(order => this.storeContext.moment(order.createdAt).isAfter(last4Quarters))
       .forEach(order => {
-        const orderMoment = moment(order.createdAt);
+        const orderMoment = this.storeContext.moment(order.createdAt);
         const quarterKey = `${orderMoment.year()}-Q${orderMoment.quarter()}`;
-        const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+        const sales = Money.fromShopMoney(order.totalPriceSet, currency);
         const customerId = order.customer?.id;
 
         if (quarterlyData.has(quarterKey)) {
           const data = quarterlyData.get(quarterKey)!;
-          data.sales += sales;
+          data.sales = data.sales.add(sales);
           data.orders += 1;
           if (customerId) {
             data.customers.add(customerId);
@@ -270,7 +300,7 @@ export class SalesAnalyticsService {
     const quarterlyArray = Array.from(quarterlyData.entries())
       .map(([quarter, data]) => ({
         quarter,
-        sales: Math.round(data.sales * 100) / 100,
+        sales: data.sales,
         orders: data.orders,
         customers: data.customers.size,
         growthRateFromPreviousQuarter: 0,
@@ -281,8 +311,8 @@ export class SalesAnalyticsService {
     for (let i = 1; i < quarterlyArray.length; i++) {
       const current = quarterlyArray[i];
       const previous = quarterlyArray[i - 1];
-      if (previous.sales > 0) {
-        current.growthRateFromPreviousQuarter = Math.round(((current.sales - previous.sales) / previous.sales) * 10000) / 100;
+      if (!previous.sales.isZero()) {
+        current.growthRateFromPreviousQuarter = Math.round(current.sales.subtract(previous.sales).ratio(previous.sales) * 10000) / 100;
       }
     }
 
@@ -290,19 +320,22 @@ export class SalesAnalyticsService {
   }
 
   /**
-   * Calculate year-to-date report
+   * Calculate year-to-date report; the sales breakdowns also count refunds issued in the year
+   * against orders placed before it (breakdownOrders)
    */
-  private async calculateYearToDateReport(orders: ShopifyOrder[]): Promise<YearToDateReport> {
-    const currentYear = moment().year();
-    const yearStartDate = moment().startOf('year');
+  private async calculateYearToDateReport(
+    orders: ShopifyOrder[],
+    currency: string,
+    breakdownOrders: ShopifyOrder[],
+  ): Promise<YearToDateReport> {
+    const currentYear = this.storeContext.moment().year();
+    const yearStartDate = this.storeContext.moment().startOf('year');
     
     const ytdOrders = orders.filter(order => 
-      moment(order.createdAt).year() === currentYear
+      this.storeContext.moment(order.createdAt).year() === currentYear
     );
 
-    const totalSales = ytdOrders.reduce((sum, order) => 
-      sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0
-    );
+    const totalSales = Money.sumBy(ytdOrders, order => Money.fromShopMoney(order.totalPriceSet, currency), currency);
 
     const uniqueCustomers = new Set(
       ytdOrders
@@ -313,14 +346,12 @@ export class SalesAnalyticsService {
     // Calculate monthly breakdown for current year
     const monthlyBreakdown: MonthlyBreakdown[] = [];
     for (let i = 0; i < 12; i++) {
-      const month = moment().month(i);
+      const month = this.storeContext.moment().month(i);
       const monthOrders = ytdOrders.filter(order => 
-        moment(order.createdAt).month() === i
+        this.storeContext.moment(order.createdAt).month() === i
       );
 
-      const monthSales = monthOrders.reduce((sum, order) => 
-        sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0
-      );
+      const monthSales = Money.sumBy(monthOrders, order => Money.fromShopMoney(order.totalPriceSet, currency), currency);
 
       const monthCustomers = new Set(
         monthOrders
@@ -330,10 +361,15 @@ export class SalesAnalyticsService {
 
       monthlyBreakdown.push({
         month: month.format('MMMM'),
-        sales: Math.round(monthSales * 100) / 100,
+        sales: monthSales,
         orders: monthOrders.length,
         customers: monthCustomers,
         growthRateFromPreviousMonth: 0, // Will be calculated below
+        salesBreakdown: this.salesBreakdownService.calculateBreakdown(
+          breakdownOrders,
+          currency,
+          this.monthRange(currentYear, i),
+        ),
       });
     }
 
@@ -341,269 +377,430 @@ export class SalesAnalyticsService {
     for (let i = 1; i < monthlyBreakdown.length; i++) {
       const current = monthlyBreakdown[i];
       const previous = monthlyBreakdown[i - 1];
-      if (previous.sales > 0) {
-        current.growthRateFromPreviousMonth = Math.round(((current.sales - previous.sales) / previous.sales) * 10000) / 100;
+      if (!previous.sales.isZero()) {
+        current.growthRateFromPreviousMonth = Math.round(current.sales.subtract(previous.sales).ratio(previous.sales) * 10000) / 100;
       }
     }
 
     // Calculate projected year-end based on current trend
-    const monthsElapsed = moment().month() + 1; // 0-based month + 1
-    const averageMonthlySales = totalSales / monthsElapsed;
-    const projectedYearEnd = averageMonthlySales * 12;
+    const monthsElapsed = this.storeContext.moment().month() + 1; // 0-based month + 1
+    const projectedYearEnd = totalSales.multiply(12).divide(monthsElapsed);
 
     // Get last year's data for growth calculation
     const lastYearOrders = orders.filter(order => 
-      moment(order.createdAt).year() === currentYear - 1
-    );
-    const lastYearSales = lastYearOrders.reduce((sum, order) => 
-      sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0
+      this.storeContext.moment(order.createdAt).year() === currentYear - 1
     );
+    const lastYearSales = Money.sumBy(lastYearOrders, order => Money.fromShopMoney(order.totalPriceSet, currency), currency);
 
-    const growthRate = lastYearSales > 0 ? 
-      ((totalSales - lastYearSales) / lastYearSales) * 100 : 0;
+    const growthRate = totalSales.subtract(lastYearSales).ratio(lastYearSales) * 100;
 
     return {
       year: currentYear,
-      totalSales: Math.round(totalSales * 100) / 100,
+      totalSales: totalSales,
       totalOrders: ytdOrders.length,
       totalCustomers: uniqueCustomers,
       monthlyBreakdown,
-      quarterlyBreakdown: await this.calculateQuarterlyData(orders),
+      quarterlyBreakdown: await this.calculateQuarterlyData(orders, currency),
       growthRate: Math.round(growthRate * 100) / 100,
-      projectedYearEnd: Math.round(projectedYearEnd * 100) / 100,
+      projectedYearEnd: projectedYearEnd,
+      salesBreakdown: this.salesBreakdownService.calculateBreakdown(
+        breakdownOrders,
+        currency,
+        this.yearRange(currentYear),
+      ),
     };
   }
 
+  /**
+   * Start and end of a calendar month in the store's time zone
+   */
+  private monthRange(year: number, month: number): { start: Date; end: Date } {
+    const start = moment.tz({ year, month, day: 1 }, this.storeContext.getTimezone());
+    return { start: start.toDate(), end: start.clone().endOf('month').toDate() };
+  }
+
+  /**
+   * Orders for the sales breakdowns of a year: the given ones and the stored orders with a
+   * refund issued in the year, converted to the report currency
+   */
+  private getBreakdownOrders(
+    shopOrders: ShopifyOrder[],
+    year: number,
+    currency?: string,
+    options: OrderQueryOptions = {},
+  ): ShopifyOrder[] {
+    return this.currencyService.convertOrders(
+      this.salesBreakdownService.withOrdersRefundedIn(shopOrders, this.yearRange(year), options),
+      currency,
+    );
+  }
+
+  /**
+   * Start and end of a calendar year in the store's time zone
+   */
+  private yearRange(year: number): { start: Date; end: Date } {
+    const start = moment.tz({ year, month: 0, day: 1 }, this.storeContext.getTimezone());
+    return { start: start.toDate(), end: start.clone().endOf('year').toDate() };
+  }
+
   /**
    * Calculate sales representative performance
    */
-  private async calculateSalesRepPerformance(orders: ShopifyOrder[]): Promise<SalesRepPerformance[]> {
-    // This is a simplified implementation
-    // In a real scenario, you'd have sales rep data in order tags or customer tags
+  private async calculateSalesRepPerformance(
+    orders: ShopifyOrder[],
+    currency: string,
+    shopCurrency: string,
+  ): Promise<SalesRepPerformance[]> {
+    const currentMonth = this.storeContext.moment().format('YYYY-MM');
+    const attributor = this.repAttributionService.createAttributor();
+    const orderingCustomers = new Set<string>();
     const repData = new Map<string, {
-      sales: number;
+      sales: Money;
+      monthSales: Money;
       orders: number;
+      creditedOrders: number;
       customers: Set<string>;
+      salesByRule: Record<string, Money>;
     }>();
 
-    // Extract sales rep information from order or customer tags
-    orders.forEach(order => {
-      // Look for sales rep in tags (e.g., "rep:john_doe")
-      const repTag = order.tags?.find(tag => tag.startsWith('rep:')) || 
-                    order.customer?.tags?.find(tag => tag.startsWith('rep:'));
-      
-      const repId = repTag ? repTag.split(':')[1] : 'unassigned';
-      const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
-      const customerId = order.customer?.id;
-
+    const getRepData = (repId: string) => {
       if (!repData.has(repId)) {
         repData.set(repId, {
-          sales: 0,
+          sales: Money.zero(currency),
+          monthSales: Money.zero(currency),
           orders: 0,
+          creditedOrders: 0,
           customers: new Set(),
+          salesByRule: {},
         });
       }
+      return repData.get(repId)!;
+    };
+
+    // Active reps are listed even before their first sale
+    attributor.reps.forEach(rep => rep.active && getRepData(rep.id));
+
+    orders.forEach(order => {
+      const orderTotal = Money.fromShopMoney(order.totalPriceSet, currency);
+      const customerId = order.customer?.id;
+      const isCurrentMonth = this.storeContext.moment(order.createdAt).format('YYYY-MM') === currentMonth;
 
-      const data = repData.get(repId)!;
-      data.sales += sales;
-      data.orders += 1;
       if (customerId) {
-        data.customers.add(customerId);
+        orderingCustomers.add(customerId);
       }
+
+      const credits = attributor.attribute(order);
+      const creditedSales = orderTotal.allocate(credits.map(credit => credit.share));
+      credits.forEach((credit, index) => {
+        const data = getRepData(credit.repId);
+        const sales = creditedSales[index];
+
+        data.sales = data.sales.add(sales);
+        data.orders += 1;
+        data.creditedOrders += credit.share;
+        data.salesByRule[credit.rule] = (data.salesByRule[credit.rule] || Money.zero(currency)).add(sales);
+        if (isCurrentMonth) {
+          data.monthSales = data.monthSales.add(sales);
+        }
+        if (customerId) {
+          data.customers.add(customerId);
+        }
+      });
     });
 
+    const repTargets = this.targetsService.resolveTargetsForMonth('rep', currentMonth, shopCurrency);
+
     // Convert to array and calculate metrics
     return Array.from(repData.entries())
       .map(([repId, data]) => {
-        const averageOrderValue = data.orders > 0 ? data.sales / data.orders : 0;
-        const customerCount = data.customers.size;
-        
-        // Simplified conversion rate calculation
-        const conversionRate = customerCount > 0 ? (data.orders / customerCount) * 100 : 0;
-
-        // Placeholder targets - in reality, these would come from a database
-        const monthlyTarget = 50000; // $50k monthly target per rep
-        const targetVsActual = {
-          target: monthlyTarget,
-          actual: data.sales,
-          percentage: monthlyTarget > 0 ? (data.sales / monthlyTarget) * 100 : 0,
-        };
+        const rep = attributor.reps.get(repId);
+        const averageOrderValue = data.sales.divide(data.creditedOrders);
+
+        // Conversion is the share of the rep's assigned accounts that ordered in the period
+        const assignedCustomers = attributor.getAssignedCustomers(repId);
+        const convertedCustomers = assignedCustomers.filter(customerId => orderingCustomers.has(customerId)).length;
+        const conversionRate =
+          assignedCustomers.length > 0 ? Math.round((convertedCustomers / assignedCustomers.length) * 10000) / 100 : null;
+
+        // Reps are measured against their target for the current month
+        const target = this.convertTarget(
+          repTargets.get(repId)?.amount ?? Money.zero(shopCurrency),
+          currency,
+          this.storeContext.moment(),
+        );
+        const hasTarget = repTargets.has(repId);
 
         return {
           repId,
-          repName: repId === 'unassigned' ? 'Unassigned' : repId.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase()),
-          totalSales: Math.round(data.sales * 100) / 100,
+          repName: attributor.getRepName(repId),
+          email: rep?.email ?? null,
+          team: rep?.team ?? null,
+          region: rep?.region ?? null,
+          totalSales: data.sales,
           orderCount: data.orders,
-          averageOrderValue: Math.round(averageOrderValue * 100) / 100,
-          conversionRate: Math.round(conversionRate * 100) / 100,
-          customerCount,
+          creditedOrders: Math.round(data.creditedOrders * 100) / 100,
+          averageOrderValue,
+          conversionRate,
+          assignedCustomerCount: assignedCustomers.length,
+          convertedCustomerCount: convertedCustomers,
+          customerCount: data.customers.size,
+          salesByRule: data.salesByRule,
           targetVsActual: {
-            target: targetVsActual.target,
-            actual: Math.round(targetVsActual.actual * 100) / 100,
-            percentage: Math.round(targetVsActual.percentage * 100) / 100,
+            period: currentMonth,
+            hasTarget,
+            target,
+            actual: data.monthSales,
+            percentage: Math.round(data.monthSales.ratio(target) * 10000) / 100,
           },
         };
       })
-      .sort((a, b) => b.totalSales - a.totalSales);
+      .sort((a, b) => b.totalSales.compare(a.totalSales));
   }
 
   /**
    * Calculate monthly target vs actual performance
    */
-  private async calculateMonthlyTargetVsActual(orders: ShopifyOrder[]): Promise<MonthlyTargetVsActual[]> {
-    const monthlyTargets = new Map<string, number>([
-      // Placeholder monthly targets - would come from database in real scenario
-      ['2025-01', 100000],
-      ['2025-02', 110000],
-      ['2025-03', 120000],
-      ['2025-04', 115000],
-      ['2025-05', 125000],
-      ['2025-06', 130000],
-      ['2025-07', 135000],
-      ['2025-08', 140000],
-      ['2025-09', 145000],
-      ['2025-10', 150000],
-      ['2025-11', 160000],
-      ['2025-12', 170000],
-    ]);
-
-    const last12Months = moment().subtract(12, 'months');
-    const monthlyActuals = new Map<string, number>();
+  private async calculateMonthlyTargetVsActual(
+    orders: ShopifyOrder[],
+    currency?: string,
+  ): Promise<MonthlyTargetVsActual[]> {
+    const monthKeys: string[] = [];
+    for (let i = 11; i >= 0; i--) {
+      monthKeys.push(this.storeContext.moment().subtract(i, 'months').format('YYYY-MM'));
+    }
+
+    return this.calculateTargetVsActual(orders, monthKeys, 'company', null, currency);
+  }
+
+  /**
+   * Compare actual sales against stored targets for each month of a target period (YYYY-MM,
+   * YYYY-Qn or YYYY). Actuals are read from the analytics store for the whole period, with
+   * month boundaries in the shop's time zone.
+   */
+  public async calculateTargetPeriodVsActual(
+    period: string,
+    scope: TargetScope = 'company',
+    scopeValue: string | null = null,
+    currency?: string,
+  ): Promise<{ months: MonthlyTargetVsActual[]; ordersAnalyzed: number; start: Date; end: Date }> {
+    const { periodStart, periodEnd } = this.targetsService.parsePeriod(period);
+    const { start, end } = zonedDayRange(periodStart, periodEnd, this.storeContext.getTimezone());
+    const orders = this.orderRepository.findByDateRange(start, end, { includeCancelled: false });
+
+    const monthKeys: string[] = [];
+    for (const month = moment.utc(periodStart); month.isSameOrBefore(periodEnd, 'month'); month.add(1, 'month')) {
+      monthKeys.push(month.format('YYYY-MM'));
+    }
+
+    const months = await this.calculateTargetVsActual(orders, monthKeys, scope, scopeValue, currency);
+    return { months, ordersAnalyzed: orders.length, start, end };
+  }
+
+  /**
+   * Compare actual sales against stored targets for the given months (YYYY-MM) of a scope.
+   * Actuals are order totals for company targets, the rep's attributed share of order totals
+   * for rep targets, line item sales for product type targets and order totals by sales
+   * channel (order source) for channel targets. Targets are set in the shop currency;
+   * with a reporting currency both sides are converted at the rate of each month's start.
+   */
+  public async calculateTargetVsActual(
+    shopOrders: ShopifyOrder[],
+    monthKeys: string[],
+    scope: TargetScope = 'company',
+    scopeValue: string | null = null,
+    currency?: string,
+  ): Promise<MonthlyTargetVsActual[]> {
+    const shopCurrency = this.currencyService.getShopCurrency(shopOrders);
+    const orders = this.currencyService.convertOrders(shopOrders, currency);
+    const timezone = this.storeContext.getTimezone();
+    const targets = this.targetsService.resolveMonthlyTargets(scope, scopeValue, monthKeys, shopCurrency);
+    const attributor = scope === 'rep' ? this.repAttributionService.createAttributor() : null;
+    const firstMonth = moment.tz(monthKeys[0], 'YYYY-MM', timezone).startOf('month');
+    const reportCurrency = this.getReportCurrency(shopOrders, currency);
+    const monthlyActuals = new Map<string, Money>();
 
     // Calculate actual sales by month
     orders
-      .filter(order => moment(order.createdAt).isAfter(last12Months))
+      .filter(order => !this.storeContext.moment(order.createdAt).isBefore(firstMonth))
       .forEach(order => {
-        const month = moment(order.createdAt).format('YYYY-MM');
-        const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
-        
-        monthlyActuals.set(month, (monthlyActuals.get(month) || 0) + sales);
+        const month = this.storeContext.moment(order.createdAt).format('YYYY-MM');
+        const sales = this.getScopedSales(order, scope, scopeValue, attributor, reportCurrency);
+
+        monthlyActuals.set(month, (monthlyActuals.get(month) || Money.zero(reportCurrency)).add(sales));
       });
 
-    // Generate report for last 12 months
-    const results: MonthlyTargetVsActual[] = [];
-    
-    for (let i = 11; i >= 0; i--) {
-      const month = moment().subtract(i, 'months');
-      const monthKey = month.format('YYYY-MM');
-      const monthName = month.format('MMMM');
-      const year = month.year();
-      
-      const target = monthlyTargets.get(monthKey) || 100000; // Default target
-      const actual = monthlyActuals.get(monthKey) || 0;
-      const variance = actual - target;
-      const variancePercentage = target > 0 ? (variance / target) * 100 : 0;
-      const onTrack = variance >= 0;
-
-      results.push({
-        month: monthName,
-        year,
+    return monthKeys.map(monthKey => {
+      const month = moment.tz(monthKey, 'YYYY-MM', timezone);
+      const resolved = targets.get(monthKey);
+      const target = this.convertTarget(resolved?.amount ?? Money.zero(shopCurrency), reportCurrency, month);
+      const actual = monthlyActuals.get(monthKey) || Money.zero(reportCurrency);
+      const variance = actual.subtract(target);
+      const variancePercentage = variance.ratio(target) * 100;
+
+      return {
+        month: month.format('MMMM'),
+        year: month.year(),
         targetSales: target,
-        actualSales: Math.round(actual * 100) / 100,
-        variance: Math.round(variance * 100) / 100,
+        actualSales: actual,
+        variance,
         variancePercentage: Math.round(variancePercentage * 100) / 100,
-        onTrack,
-      });
+        onTrack: !!resolved && !variance.isNegative(),
+        targetPeriod: resolved?.period ?? null,
+      };
+    });
+  }
+
+  /**
+   * Currency a report's amounts are in
+   */
+  private getReportCurrency(shopOrders: ShopifyOrder[], currency?: string): string {
+    return currency ? this.currencyService.resolveCurrency(currency) : this.currencyService.getShopCurrency(shopOrders);
+  }
+
+  /**
+   * Stored targets are shop-currency amounts; convert one at the rate of its month
+   */
+  private convertTarget(target: Money, currency: string, month: moment.Moment): Money {
+    if (target.currency === currency) {
+      return target;
     }
 
-    return results;
+    const converted = this.currencyService.convert(target, currency, month.clone().startOf('month').format('YYYY-MM-DD'));
+    if (converted === null) {
+      throw new BadRequestException(`No exchange rate to convert ${target.currency} to ${currency}`);
+    }
+    return converted;
+  }
+
+  /**
+   * Portion of an order's sales that counts towards a target scope
+   */
+  private getScopedSales(
+    order: ShopifyOrder,
+    scope: TargetScope,
+    scopeValue: string | null,
+    attributor: RepAttributor | null,
+    currency: string,
+  ): Money {
+    const orderTotal = Money.fromShopMoney(order.totalPriceSet, currency);
+
+    switch (scope) {
+      case 'rep':
+        return Money.sumBy(
+          attributor.attribute(order).filter(credit => credit.repId === scopeValue),
+          credit => orderTotal.multiply(credit.share),
+          currency,
+        );
+      case 'channel':
+        return (order.sourceName || 'unknown') === scopeValue ? orderTotal : Money.zero(currency);
+      case 'product_type':
+        return Money.sumBy(
+          (order.lineItems?.edges || []).filter(
+            ({ node }) => (node.variant?.product?.productType || 'Uncategorized') === scopeValue,
+          ),
+          ({ node }) => Money.fromShopMoney(node.originalUnitPriceSet, currency).multiply(node.quantity || 0),
+          currency,
+        );
+      default:
+        return orderTotal;
+    }
   }
 
   /**
    * Calculate sales trends and patterns
    */
-  private async calculateSalesTrends(orders: ShopifyOrder[]) {
+  private async calculateSalesTrends(orders: ShopifyOrder[], currency: string) {
     const trends = {
-      hourlyPattern: this.calculateHourlyPattern(orders),
-      dayOfWeekPattern: this.calculateDayOfWeekPattern(orders),
-      seasonalTrends: this.calculateSeasonalTrends(orders),
-      productCategoryTrends: this.calculateProductCategoryTrends(orders),
+      hourlyPattern: this.calculateHourlyPattern(orders, currency),
+      dayOfWeekPattern: this.calculateDayOfWeekPattern(orders, currency),
+      seasonalTrends: this.calculateSeasonalTrends(orders, currency),
+      productCategoryTrends: this.calculateProductCategoryTrends(orders, currency),
     };
 
     return trends;
   }
 
-  private calculateHourlyPattern(orders: ShopifyOrder[]) {
+  private calculateHourlyPattern(orders: ShopifyOrder[], currency: string) {
     const hourlyData = new Array(24).fill(0).map((_, hour) => ({
       hour,
       orders: 0,
-      sales: 0,
+      sales: Money.zero(currency),
     }));
 
     orders.forEach(order => {
-      const hour = moment(order.createdAt).hour();
-      const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+      const hour = this.storeContext.moment(order.createdAt).hour();
+      const sales = Money.fromShopMoney(order.totalPriceSet, currency);
       
       hourlyData[hour].orders += 1;
-      hourlyData[hour].sales += sales;
+      hourlyData[hour].sales = hourlyData[hour].sales.add(sales);
     });
 
     return hourlyData.map(data => ({
       hour: data.hour,
       orders: data.orders,
-      sales: Math.round(data.sales * 100) / 100,
-      averageOrderValue: data.orders > 0 ? Math.round((data.sales / data.orders) * 100) / 100 : 0,
+      sales: data.sales,
+      averageOrderValue: data.sales.divide(data.orders),
     }));
   }
 
-  private calculateDayOfWeekPattern(orders: ShopifyOrder[]) {
+  private calculateDayOfWeekPattern(orders: ShopifyOrder[], currency: string) {
     const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
     const dailyData = daysOfWeek.map(day => ({
       day,
       orders: 0,
-      sales: 0,
+      sales: Money.zero(currency),
     }));
 
     orders.forEach(order => {
-      const dayIndex = moment(order.createdAt).day();
-      const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+      const dayIndex = this.storeContext.moment(order.createdAt).day();
+      const sales = Money.fromShopMoney(order.totalPriceSet, currency);
       
       dailyData[dayIndex].orders += 1;
-      dailyData[dayIndex].sales += sales;
+      dailyData[dayIndex].sales = dailyData[dayIndex].sales.add(sales);
     });
 
     return dailyData.map(data => ({
       day: data.day,
       orders: data.orders,
-      sales: Math.round(data.sales * 100) / 100,
-      averageOrderValue: data.orders > 0 ? Math.round((data.sales / data.orders) * 100) / 100 : 0,
+      sales: data.sales,
+      averageOrderValue: data.sales.divide(data.orders),
     }));
   }
 
-  private calculateSeasonalTrends(orders: ShopifyOrder[]) {
+  private calculateSeasonalTrends(orders: ShopifyOrder[], currency: string) {
     const seasons = ['Winter', 'Spring', 'Summer', 'Fall'];
     const seasonalData = seasons.map(season => ({
       season,
       orders: 0,
-      sales: 0,
+      sales: Money.zero(currency),
     }));
 
     orders.forEach(order => {
-      const month = moment(order.createdAt).month();
+      const month = this.storeContext.moment(order.createdAt).month();
       let seasonIndex = 0;
       
       if (month >= 2 && month <= 4) seasonIndex = 1; // Spring
       else if (month >= 5 && month <= 7) seasonIndex = 2; // Summer
       else if (month >= 8 && month <= 10) seasonIndex = 3; // Fall
       
-      const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
+      const sales = Money.fromShopMoney(order.totalPriceSet, currency);
       
       seasonalData[seasonIndex].orders += 1;
-      seasonalData[seasonIndex].sales += sales;
+      seasonalData[seasonIndex].sales = seasonalData[seasonIndex].sales.add(sales);
     });
 
     return seasonalData.map(data => ({
       season: data.season,
       orders: data.orders,
-      sales: Math.round(data.sales * 100) / 100,
-      averageOrderValue: data.orders > 0 ? Math.round((data.sales / data.orders) * 100) / 100 : 0,
+      sales: data.sales,
+      averageOrderValue: data.sales.divide(data.orders),
     }));
   }
 
-  private calculateProductCategoryTrends(orders: ShopifyOrder[]) {
+  private calculateProductCategoryTrends(orders: ShopifyOrder[], currency: string) {
     const categoryData = new Map<string, {
       orders: number;
-      sales: number;
+      sales: Money;
       quantity: number;
     }>();
 
@@ -612,16 +809,16 @@ export class SalesAnalyticsService {
         const item = edge.node;
         const category = item.variant?.product?.productType || 'Uncategorized';
         const quantity = item.quantity || 0;
-        const unitPrice = parseFloat(item.originalUnitPriceSet?.shopMoney?.amount || '0');
-        const sales = quantity * unitPrice;
+        const unitPrice = Money.fromShopMoney(item.originalUnitPriceSet, currency);
+        const sales = unitPrice.multiply(quantity);
 
         if (!categoryData.has(category)) {
-          categoryData.set(category, { orders: 0, sales: 0, quantity: 0 });
+          categoryData.set(category, { orders: 0, sales: Money.zero(currency), quantity: 0 });
         }
 
         const data = categoryData.get(category)!;
         data.orders += 1;
-        data.sales += sales;
+        data.sales = data.sales.add(sales);
         data.quantity += quantity;
       });
     });
@@ -630,89 +827,114 @@ export class SalesAnalyticsService {
       .map(([category, data]) => ({
         category,
         orders: data.orders,
-        sales: Math.round(data.sales * 100) / 100,
+        sales: data.sales,
         quantity: data.quantity,
-        averageOrderValue: data.orders > 0 ? Math.round((data.sales / data.orders) * 100) / 100 : 0,
+        averageOrderValue: data.sales.divide(data.orders),
       }))
-      .sort((a, b) => b.sales - a.sales)
+      .sort((a, b) => b.sales.compare(a.sales))
       .slice(0, 10); // Top 10 categories
   }
 
-  // Fast calculation methods for performance
-
   /**
-   * Fast monthly target vs actual calculation (simplified)
+   * Break orders down by market and the currency customers paid in (presentment currency).
+   * Revenue is converted to the reporting currency; presentment amounts are as paid.
    */
-  public async calculateMonthlyTargetVsActualFast(orders: ShopifyOrder[]): Promise<MonthlyTargetVsActual[]> {
-    this.logger.log('Processing monthly target vs actual (FAST MODE)');
-    
-    const monthlyTargets = new Map<string, number>([
-      // Simplified targets - only for last 6 months
-      ['2025-04', 115000],
-      ['2025-05', 125000],
-      ['2025-06', 130000],
-      ['2025-07', 135000],
-      ['2025-08', 140000],
-      ['2025-09', 145000],
-    ]);
-
-    const last6Months = moment().subtract(6, 'months');
-    const monthlyActuals = new Map<string, number>();
-
-    // Calculate actual sales by month - only process last 6 months
-    orders
-      .filter(order => moment(order.createdAt).isAfter(last6Months))
-      .forEach(order => {
-        const month = moment(order.createdAt).format('YYYY-MM');
-        const sales = parseFloat(order.totalPriceSet?.shopMoney?.amount || '0');
-        
-        monthlyActuals.set(month, (monthlyActuals.get(month) || 0) + sales);
-      });
+  public calculateCurrencyMix(
+    shopOrders: ShopifyOrder[],
+    startDate: Date,
+    endDate: Date,
+    currency: string = this.currencyService.getReportingCurrency(),
+  ): CurrencyMixReport {
+    const reportCurrency = this.currencyService.resolveCurrency(currency);
+    const orders = this.currencyService.convertOrders(shopOrders, reportCurrency);
+    const markets = new Map<
+      string,
+      { countries: Set<string>; orders: number; revenue: Money; currencies: Map<string, PresentmentCurrencyShare> }
+    >();
+
+    orders.forEach((order, index) => {
+      const { market, country } = this.currencyService.getMarket(order);
+      const revenue = Money.fromShopMoney(order.totalPriceSet, reportCurrency);
+      // Orders synced before presentment amounts were requested only carry shop money
+      const paid = order.totalPriceSet?.presentmentMoney || shopOrders[index].totalPriceSet?.shopMoney;
+      const paidCurrency = paid?.currencyCode || 'Unknown';
+
+      if (!markets.has(market)) {
+        markets.set(market, {
+          countries: new Set(),
+          orders: 0,
+          revenue: Money.zero(reportCurrency),
+          currencies: new Map(),
+        });
+      }
+      const entry = markets.get(market);
+      entry.countries.add(country);
+      entry.orders++;
+      entry.revenue = entry.revenue.add(revenue);
+
+      if (!entry.currencies.has(paidCurrency)) {
+        entry.currencies.set(paidCurrency, {
+          currency: paidCurrency,
+          orders: 0,
+          orderShare: 0,
+          presentmentAmount: Money.zero(paid?.currencyCode || reportCurrency),
+          revenue: Money.zero(reportCurrency),
+        });
+      }
+      const share = entry.currencies.get(paidCurrency);
+      share.orders++;
+      share.presentmentAmount = share.presentmentAmount.add(Money.fromMoneyV2(paid, share.presentmentAmount.currency));
+      share.revenue = share.revenue.add(revenue);
+    });
 
-    // Generate report for last 6 months only (faster)
-    const results: MonthlyTargetVsActual[] = [];
-    
-    for (let i = 5; i >= 0; i--) {
-      const month = moment().subtract(i, 'months');
-      const monthKey = month.format('YYYY-MM');
-      const monthName = month.format('MMMM');
-      const year = month.year();
-      
-      const target = monthlyTargets.get(monthKey) || 120000; // Default target
-      const actual = monthlyActuals.get(monthKey) || 0;
-      const variance = actual - target;
-      const variancePercentage = target > 0 ? (variance / target) * 100 : 0;
-      const onTrack = variance >= 0;
-
-      results.push({
-        month: monthName,
-        year,
-        targetSales: target,
-        actualSales: Math.round(actual * 100) / 100,
-        variance: Math.round(variance * 100) / 100,
-        variancePercentage: Math.round(variancePercentage * 100) / 100,
-        onTrack,
-      });
-    }
+    const marketEntries = Array.from(markets.entries());
 
-    return results;
+    return {
+      currency: reportCurrency,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      totalOrders: orders.length,
+      totalRevenue: Money.sumBy(marketEntries, ([, entry]) => entry.revenue, reportCurrency),
+      markets: marketEntries
+        .map(([market, entry]) => ({
+          market,
+          countries: Array.from(entry.countries).sort(),
+          orders: entry.orders,
+          revenue: entry.revenue,
+          currencies: Array.from(entry.currencies.values())
+            .map(share => ({
+              ...share,
+              orderShare: Math.round((share.orders / entry.orders) * 10000) / 100,
+            }))
+            .sort((a, b) => b.revenue.compare(a.revenue)),
+        }))
+        .sort((a, b) => b.revenue.compare(a.revenue)),
+    };
   }
 
+  // Fast calculation methods for performance
+
   /**
-   * Fast year-to-date report calculation (simplified)
+   * Fast year-to-date report calculation (simplified), for the year to date of asOf (default: now)
    */
-  public async calculateYearToDateReportFast(orders: ShopifyOrder[]): Promise<YearToDateReport> {
+  public async calculateYearToDateReportFast(
+    shopOrders: ShopifyOrder[],
+    currency?: string,
+    asOf: moment.Moment = this.storeContext.moment(),
+  ): Promise<YearToDateReport> {
     this.logger.log('Processing year-to-date report (FAST MODE)');
+
+    const orders = this.currencyService.convertOrders(shopOrders, currency);
+    const reportCurrency = this.getReportCurrency(shopOrders, currency);
     
-    const currentYear = moment().year();
+    const currentYear = asOf.year();
+    const breakdownOrders = this.getBreakdownOrders(shopOrders, currentYear, currency, { includeCancelled: false });
     
     const ytdOrders = orders.filter(order => 
-      moment(order.createdAt).year() === currentYear
+      this.storeContext.moment(order.createdAt).year() === currentYear
     );
 
-    const totalSales = ytdOrders.reduce((sum, order) => 
-      sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0
-    );
+    const totalSales = Money.sumBy(ytdOrders, order => Money.fromShopMoney(order.totalPriceSet, reportCurrency), reportCurrency);
 
     const uniqueCustomers = new Set(
       ytdOrders
@@ -722,17 +944,15 @@ export class SalesAnalyticsService {
 
     // Simplified monthly breakdown - only calculate for months with data
     const monthlyBreakdown: MonthlyBreakdown[] = [];
-    const currentMonth = moment().month();
+    const currentMonth = asOf.month();
     
     for (let i = 0; i <= currentMonth; i++) {
-      const month = moment().month(i);
+      const month = asOf.clone().month(i);
       const monthOrders = ytdOrders.filter(order => 
-        moment(order.createdAt).month() === i
+        this.storeContext.moment(order.createdAt).month() === i
       );
 
-      const monthSales = monthOrders.reduce((sum, order) => 
-        sum + parseFloat(order.totalPriceSet?.shopMoney?.amount || '0'), 0
-      );
+      const monthSales = Money.sumBy(monthOrders, order => Money.fromShopMoney(order.totalPriceSet, reportCurrency), reportCurrency);
 
       const monthCustomers = new Set(
         monthOrders
@@ -742,44 +962,48 @@ export class SalesAnalyticsService {
 
       monthlyBreakdown.push({
         month: month.format('MMMM'),
-        sales: Math.round(monthSales * 100) / 100,
+        sales: monthSales,
         orders: monthOrders.length,
         customers: monthCustomers,
         growthRateFromPreviousMonth: 0, // Simplified - skip complex growth calculations
+        salesBreakdown: this.salesBreakdownService.calculateBreakdown(
+          breakdownOrders,
+          reportCurrency,
+          this.monthRange(currentYear, i),
+        ),
       });
     }
 
     // Simple projected year-end calculation
     const monthsElapsed = currentMonth + 1;
-    const averageMonthlySales = monthsElapsed > 0 ? totalSales / monthsElapsed : 0;
-    const projectedYearEnd = averageMonthlySales * 12;
+    const projectedYearEnd = totalSales.multiply(12).divide(monthsElapsed);
 
     // Simplified quarterly data - only basic structure
     const quarterlyBreakdown: QuarterlyBreakdown[] = [
       {
         quarter: 'Q1',
-        sales: monthlyBreakdown.slice(0, 3).reduce((sum, m) => sum + m.sales, 0),
+        sales: Money.sumBy(monthlyBreakdown.slice(0, 3), m => m.sales, reportCurrency),
         orders: monthlyBreakdown.slice(0, 3).reduce((sum, m) => sum + m.orders, 0),
         customers: monthlyBreakdown.slice(0, 3).reduce((sum, m) => sum + m.customers, 0),
         growthRateFromPreviousQuarter: 0, // Simplified
       },
       {
         quarter: 'Q2',
-        sales: monthlyBreakdown.slice(3, 6).reduce((sum, m) => sum + m.sales, 0),
+        sales: Money.sumBy(monthlyBreakdown.slice(3, 6), m => m.sales, reportCurrency),
         orders: monthlyBreakdown.slice(3, 6).reduce((sum, m) => sum + m.orders, 0),
         customers: monthlyBreakdown.slice(3, 6).reduce((sum, m) => sum + m.customers, 0),
         growthRateFromPreviousQuarter: 0, // Simplified
       },
       {
         quarter: 'Q3',
-        sales: monthlyBreakdown.slice(6, 9).reduce((sum, m) => sum + m.sales, 0),
+        sales: Money.sumBy(monthlyBreakdown.slice(6, 9), m => m.sales, reportCurrency),
         orders: monthlyBreakdown.slice(6, 9).reduce((sum, m) => sum + m.orders, 0),
         customers: monthlyBreakdown.slice(6, 9).reduce((sum, m) => sum + m.customers, 0),
         growthRateFromPreviousQuarter: 0, // Simplified
       },
       {
         quarter: 'Q4',
-        sales: monthlyBreakdown.slice(9, 12).reduce((sum, m) => sum + m.sales, 0),
+        sales: Money.sumBy(monthlyBreakdown.slice(9, 12), m => m.sales, reportCurrency),
         orders: monthlyBreakdown.slice(9, 12).reduce((sum, m) => sum + m.orders, 0),
         customers: monthlyBreakdown.slice(9, 12).reduce((sum, m) => sum + m.customers, 0),
         growthRateFromPreviousQuarter: 0, // Simplified
@@ -788,53 +1012,33 @@ export class SalesAnalyticsService {
 
     return {
       year: currentYear,
-      totalSales: Math.round(totalSales * 100) / 100,
+      totalSales: totalSales,
       totalOrders: ytdOrders.length,
       totalCustomers: uniqueCustomers,
       monthlyBreakdown,
       quarterlyBreakdown,
       growthRate: 0, // Simplified - skip complex YoY calculations
-      projectedYearEnd: Math.round(projectedYearEnd * 100) / 100,
+      projectedYearEnd: projectedYearEnd,
+      salesBreakdown: this.salesBreakdownService.calculateBreakdown(
+        breakdownOrders,
+        reportCurrency,
+        this.yearRange(currentYear),
+      ),
+      currency: reportCurrency,
     };
   }
 
   /**
-   * Fast sales trends calculation (simplified)
+   * Hourly, day-of-week, seasonal and product category sales patterns of the given orders,
+   * in the store's time zone
    */
-  public async calculateSalesTrendsFast(orders: ShopifyOrder[]): Promise<any> {
-    this.logger.log('Processing sales trends (FAST MODE)');
-    
-    // Simplified hourly pattern - just return basic structure
-    const hourlyPattern = Array.from({ length: 24 }, (_, hour) => ({
-      hour,
-      sales: Math.floor(Math.random() * 1000) + 100,
-      orders: Math.floor(Math.random() * 20) + 1,
-      averageOrderValue: Math.floor(Math.random() * 500) + 50,
-    }));
-
-    // Simplified day of week pattern
-    const dayOfWeekPattern = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'].map(day => ({
-      day,
-      sales: Math.floor(Math.random() * 5000) + 1000,
-      orders: Math.floor(Math.random() * 50) + 10,
-      averageOrderValue: Math.floor(Math.random() * 300) + 100,
-    }));
-
-    // Simplified seasonal trends
-    const seasonalTrends = ['Spring', 'Summer', 'Fall', 'Winter'].map(season => ({
-      season,
-      sales: Math.floor(Math.random() * 20000) + 10000,
-      orders: Math.floor(Math.random() * 200) + 100,
-      growth: Math.floor(Math.random() * 20) - 10, // -10% to +10%
-    }));
+  public async calculateSalesTrendsReport(shopOrders: ShopifyOrder[], currency?: string): Promise<any> {
+    const reportCurrency = this.getReportCurrency(shopOrders, currency);
+    const trends = await this.calculateSalesTrends(
+      this.currencyService.convertOrders(shopOrders, currency),
+      reportCurrency,
+    );
 
-    return {
-      hourlyPattern,
-      dayOfWeekPattern,
-      seasonalTrends,
-      peakHours: [10, 14, 18], // Simplified peak hours
-      peakDays: ['Friday', 'Saturday'],
-      lastUpdated: new Date().toISOString(),
-    };
+    return { ...trends, currency: reportCurrency, lastUpdated: new Date().toISOString() };
   }
 }
@@ -0,0 +1,118 @@
+import { Logger } from '@nestjs/common';
+import { ShopifyOrder } from '@interfaces/shopify.interface';
+import { DatabaseService } from '../storage/database.service';
+import { OrderRepository } from '../storage/order.repository';
+import { StoreContextService } from '../stores/store-context.service';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { SalesBreakdownService } from './sales-breakdown.service';
+
+const usd = (amount: string) => ({ shopMoney: { amount, currencyCode: 'USD' } });
+
+const order = (id: string, createdAt: string, refundedAt?: string): ShopifyOrder =>
+  ({
+    id,
+    name: `#${id}`,
+    createdAt,
+    updatedAt: refundedAt || createdAt,
+    totalPriceSet: usd('100.00'),
+    subtotalPriceSet: usd('100.00'),
+    totalTaxSet: usd('0.00'),
+    totalShippingPriceSet: usd('0.00'),
+    lineItems: {
+      edges: [{ node: { id: `${id}-line`, title: 'Shirt', quantity: 2, originalUnitPriceSet: usd('50.00') } }],
+    },
+    refunds: refundedAt
+      ? [
+          {
+            id: `${id}-refund`,
+            createdAt: refundedAt,
+            totalRefundedSet: usd('50.00'),
+            refundLineItems: {
+              edges: [
+                {
+                  node: {
+                    quantity: 1,
+                    restockType: 'RETURN',
+                    restocked: true,
+                    lineItem: { id: `${id}-line` },
+                    priceSet: usd('50.00'),
+                    subtotalSet: usd('50.00'),
+                    totalTaxSet: usd('0.00'),
+                  },
+                },
+              ],
+            },
+          },
+        ]
+      : [],
+  }) as unknown as ShopifyOrder;
+
+describe('SalesBreakdownService', () => {
+  const store = { id: 'main', databasePath: ':memory:' };
+  const range = { start: new Date('2026-03-01T00:00:00Z'), end: new Date('2026-03-31T23:59:59.999Z') };
+
+  let databaseService: DatabaseService;
+  let orderRepository: OrderRepository;
+  let service: SalesBreakdownService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    const storeRegistry = { getStore: () => store, getStores: () => [store], getDefaultStore: () => store };
+    databaseService = new DatabaseService(
+      storeRegistry as unknown as StoreRegistryService,
+      new StoreContextService(storeRegistry as unknown as StoreRegistryService),
+    );
+    orderRepository = new OrderRepository(databaseService);
+    service = new SalesBreakdownService(orderRepository);
+
+    orderRepository.upsertOrders([
+      order('placed-earlier', '2026-02-10T12:00:00Z', '2026-03-05T09:00:00-05:00'),
+      order('placed-in-range', '2026-03-10T12:00:00Z'),
+      order('refunded-after', '2026-02-12T12:00:00Z', '2026-04-02T12:00:00Z'),
+    ]);
+  });
+
+  afterEach(() => {
+    databaseService.onModuleDestroy();
+  });
+
+  it('finds stored orders by the date of their refunds', () => {
+    const refunded = orderRepository.findRefundedByDateRange(range.start, range.end);
+
+    expect(refunded.map(found => found.id)).toEqual(['placed-earlier']);
+    expect(refunded[0].lineItems.edges).toHaveLength(1);
+  });
+
+  it('adds orders refunded in the range to the orders placed in it once', () => {
+    const placed = orderRepository.findByDateRange(range.start, range.end);
+
+    const orders = service.withOrdersRefundedIn(placed, range);
+
+    expect(orders.map(found => found.id)).toEqual(['placed-in-range', 'placed-earlier']);
+    expect(service.withOrdersRefundedIn(orders, range)).toHaveLength(2);
+  });
+
+  it('counts refunds issued in the range against orders placed before it, but not their sales', () => {
+    const placed = orderRepository.findByDateRange(range.start, range.end);
+
+    const breakdown = service.calculateBreakdown(service.withOrdersRefundedIn(placed, range), 'USD', range);
+
+    expect(breakdown.grossSales.toAmount()).toBe('100.00');
+    expect(breakdown.returns.toAmount()).toBe('-50.00');
+    expect(breakdown.netSales.toAmount()).toBe('50.00');
+    expect(breakdown.ordersRefunded).toBe(1);
+    expect(breakdown.unitsReturned).toBe(1);
+    expect(breakdown.unitsRestocked).toBe(1);
+  });
+
+  it('replaces the refund index when an order is written again', () => {
+    orderRepository.upsertOrders([
+      { ...order('placed-earlier', '2026-02-10T12:00:00Z'), updatedAt: '2026-04-05T00:00:00Z' },
+    ]);
+
+    expect(orderRepository.findRefundedByDateRange(range.start, range.end)).toEqual([]);
+  });
+});
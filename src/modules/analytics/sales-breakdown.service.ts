@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+import * as moment from 'moment';
+import { Money } from '@shared/money';
+import { Refund, SalesBreakdown, ShopifyOrder } from '@interfaces/shopify.interface';
+import { OrderQueryOptions, OrderRepository } from '../storage/order.repository';
+
+/**
+ * Gross-to-net sales accounting with refunds and returns, following Shopify's sales reports
+ */
+@Injectable()
+export class SalesBreakdownService {
+  constructor(private readonly orderRepository: OrderRepository) {}
+
+  /**
+   * Add the stored orders with a refund issued in a range to orders placed in it, so refunds
+   * against orders placed earlier are counted too
+   */
+  withOrdersRefundedIn(
+    orders: ShopifyOrder[],
+    range: { start: Date; end: Date },
+    options: OrderQueryOptions = {},
+  ): ShopifyOrder[] {
+    const included = new Set(orders.map(order => order.id));
+    const refunded = this.orderRepository
+      .findRefundedByDateRange(range.start, range.end, options)
+      .filter(order => !included.has(order.id));
+
+    return refunded.length > 0 ? [...orders, ...refunded] : orders;
+  }
+
+  /**
+   * Break down the sales of the given orders. With a range, order amounts count when the
+   * order was placed in it and refunds when they were issued in it, so the orders should
+   * include those refunded in it (withOrdersRefundedIn); without one, everything counts.
+   */
+  calculateBreakdown(orders: ShopifyOrder[], currency: string, range?: { start: Date; end: Date }): SalesBreakdown {
+    const inRange = (date: string) =>
+      !range || moment(date).isBetween(moment(range.start), moment(range.end), undefined, '[]');
+    const amount = (moneyBag: ShopifyOrder['totalPriceSet'] | undefined) => Money.fromShopMoney(moneyBag, currency);
+
+    let grossSales = Money.zero(currency);
+    let discounts = Money.zero(currency);
+    let returns = Money.zero(currency);
+    let shipping = Money.zero(currency);
+    let taxes = Money.zero(currency);
+    let refunded = Money.zero(currency);
+    let ordersRefunded = 0;
+    let unitsReturned = 0;
+    let unitsRestocked = 0;
+    let returnRequests = 0;
+
+    for (const order of orders) {
+      const orderShipping = amount(order.totalShippingPriceSet);
+
+      if (inRange(order.createdAt)) {
+        const lineItems = (order.lineItems?.edges || []).map(edge => edge.node);
+        const subtotal = amount(order.subtotalPriceSet);
+        const gross =
+          lineItems.length > 0
+            ? Money.sumBy(lineItems, item => amount(item.originalUnitPriceSet).multiply(item.quantity || 0), currency)
+            : subtotal;
+
+        grossSales = grossSales.add(gross);
+        discounts = discounts.add(subtotal.subtract(gross));
+        shipping = shipping.add(orderShipping);
+        taxes = taxes.add(amount(order.totalTaxSet));
+        returnRequests += order.returns?.edges?.length || 0;
+      }
+
+      // Shipping refunded on earlier refunds, so later ones cannot refund it again
+      let shippingRefunded = Money.zero(currency);
+      const refunds = [...(order.refunds || [])].sort((a, b) => moment(a.createdAt).diff(moment(b.createdAt)));
+      let refundedInRange = false;
+
+      for (const refund of refunds) {
+        const split = this.splitRefund(refund, orderShipping.subtract(shippingRefunded), currency);
+        shippingRefunded = shippingRefunded.add(split.shipping);
+        if (!inRange(refund.createdAt)) continue;
+
+        refundedInRange = true;
+        discounts = discounts.add(split.discounts);
+        returns = returns.subtract(split.returns);
+        shipping = shipping.subtract(split.shipping);
+        taxes = taxes.subtract(split.taxes);
+        refunded = refunded.add(split.refunded);
+        unitsReturned += split.unitsReturned;
+        unitsRestocked += split.unitsRestocked;
+      }
+
+      if (refundedInRange) ordersRefunded++;
+    }
+
+    const netSales = grossSales.add(discounts).add(returns);
+
+    return {
+      grossSales,
+      discounts,
+      returns,
+      netSales,
+      shipping,
+      taxes,
+      totalSales: netSales.add(shipping).add(taxes),
+      refunded,
+      ordersRefunded,
+      unitsReturned,
+      unitsRestocked,
+      returnRequests,
+    };
+  }
+
+  /**
+   * Split one refund into returned items at their original price, the discount given back
+   * on them, tax and shipping. Whatever the refund total has beyond its items and tax is
+   * shipping up to what is left to refund of it, and returns after that.
+   */
+  private splitRefund(refund: Refund, refundableShipping: Money, currency: string) {
+    const lines = (refund.refundLineItems?.edges || []).map(edge => edge.node);
+    const transactions = (refund.transactions?.edges || []).map(edge => edge.node);
+
+    const itemsAtPrice = Money.sumBy(
+      lines,
+      line => Money.fromShopMoney(line.priceSet, currency).multiply(line.quantity || 0),
+      currency,
+    );
+    const itemsSubtotal = Money.sumBy(lines, line => Money.fromShopMoney(line.subtotalSet, currency), currency);
+    const taxes = Money.sumBy(lines, line => Money.fromShopMoney(line.totalTaxSet, currency), currency);
+    const total = Money.fromShopMoney(refund.totalRefundedSet, currency);
+
+    const residual = total.subtract(itemsSubtotal).subtract(taxes);
+    let shipping = Money.zero(currency);
+    if (residual.greaterThan(shipping)) {
+      shipping = residual.lessThan(refundableShipping) ? residual : refundableShipping;
+      if (shipping.isNegative()) shipping = Money.zero(currency);
+    }
+    const otherRefunds = residual.isNegative() ? Money.zero(currency) : residual.subtract(shipping);
+
+    const refunded = refund.transactions
+      ? Money.sumBy(
+          transactions.filter(transaction => transaction.kind === 'REFUND' && transaction.status === 'SUCCESS'),
+          transaction => Money.fromShopMoney(transaction.amountSet, currency),
+          currency,
+        )
+      : total;
+
+    return {
+      returns: itemsAtPrice.add(otherRefunds),
+      discounts: itemsAtPrice.subtract(itemsSubtotal),
+      shipping,
+      taxes,
+      refunded,
+      unitsReturned: lines.reduce((sum, line) => sum + (line.quantity || 0), 0),
+      unitsRestocked: lines.filter(line => line.restocked).reduce((sum, line) => sum + (line.quantity || 0), 0),
+    };
+  }
+}
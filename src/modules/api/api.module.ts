@@ -1,14 +1,43 @@
-import { Module } from '@nestjs/common';
+import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { ConfigModule } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { DashboardController } from './controllers/dashboard.controller';
 import { AnalyticsController } from './controllers/analytics.controller';
 import { HealthController } from './controllers/health.controller';
 import { SystemController } from './controllers/system.controller';
+import { WebhookController } from './controllers/webhook.controller';
+import { AuthController } from './controllers/auth.controller';
+import { TargetsController } from './controllers/targets.controller';
+import { SalesRepsController } from './controllers/sales-reps.controller';
+import { StoresController } from './controllers/stores.controller';
+import { CurrencyController } from './controllers/currency.controller';
+import { CostsController } from './controllers/costs.controller';
+import { InventoryPlanningController } from './controllers/inventory-planning.controller';
+import { AlertsController } from './controllers/alerts.controller';
+import { NotificationsController } from './controllers/notifications.controller';
+import { ReportsController } from './controllers/reports.controller';
+import { RealtimeController } from './controllers/realtime.controller';
 import { AnalyticsModule } from '../analytics/analytics.module';
 import { SchedulerModule } from '../scheduler/scheduler.module';
 import { RedisModule } from '../redis/redis.module';
 import { ShopifyModule } from '../shopify/shopify.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { AuthModule } from '../auth/auth.module';
+import { TargetsModule } from '../targets/targets.module';
+import { SalesRepsModule } from '../sales-reps/sales-reps.module';
+import { StoresModule } from '../stores/stores.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { CostsModule } from '../costs/costs.module';
+import { ForecastingModule } from '../forecasting/forecasting.module';
+import { SuppliersModule } from '../suppliers/suppliers.module';
+import { PlanningModule } from '../planning/planning.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ReportsModule } from '../reports/reports.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { StoreContextMiddleware } from '../stores/store-context.middleware';
+import { ComparisonSupportInterceptor } from './comparison-support.interceptor';
 
 @Module({
   imports: [
@@ -23,12 +52,50 @@ import { ShopifyModule } from '../shopify/shopify.module';
     SchedulerModule,
     RedisModule,
     ShopifyModule,
+    WebhooksModule,
+    AuthModule,
+    TargetsModule,
+    SalesRepsModule,
+    StoresModule,
+    CurrencyModule,
+    CostsModule,
+    ForecastingModule,
+    SuppliersModule,
+    PlanningModule,
+    AlertsModule,
+    NotificationsModule,
+    ReportsModule,
+    RealtimeModule,
   ],
   controllers: [
     DashboardController,
     AnalyticsController,
     HealthController,
     SystemController,
+    WebhookController,
+    AuthController,
+    TargetsController,
+    SalesRepsController,
+    StoresController,
+    CurrencyController,
+    CostsController,
+    InventoryPlanningController,
+    AlertsController,
+    NotificationsController,
+    ReportsController,
+    RealtimeController,
+  ],
+  providers: [
+    // ?compare= is only accepted by routes that can compare periods
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ComparisonSupportInterceptor,
+    },
   ],
 })
-export class ApiModule {}
+export class ApiModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    // Every route runs in the context of the store named by X-Store-Id (or the default store)
+    consumer.apply(StoreContextMiddleware).forRoutes('*');
+  }
+}
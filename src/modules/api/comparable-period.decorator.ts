@@ -0,0 +1,27 @@
+import { SetMetadata, UseInterceptors, applyDecorators } from '@nestjs/common';
+import { ApiQuery } from '@nestjs/swagger';
+import {
+  COMPARABLE_PERIOD_KEY,
+  ComparablePeriodOptions,
+  PeriodComparisonInterceptor,
+} from './period-comparison.interceptor';
+import { COMPARISON_TYPES } from '@interfaces/comparison.interface';
+
+/**
+ * Lets a route taking startDate and endDate compare its response with another period
+ * through the compare query parameter (see PeriodComparisonInterceptor)
+ */
+export const ComparablePeriod = (options: ComparablePeriodOptions) =>
+  applyDecorators(
+    SetMetadata(COMPARABLE_PERIOD_KEY, options),
+    UseInterceptors(PeriodComparisonInterceptor),
+    ApiQuery({
+      name: 'compare',
+      required: false,
+      enum: [...COMPARISON_TYPES],
+      description:
+        'Compare with the previous period of the same length, the same weekdays 52 weeks earlier, or compareStartDate to compareEndDate',
+    }),
+    ApiQuery({ name: 'compareStartDate', required: false, type: 'string', description: 'For compare=custom' }),
+    ApiQuery({ name: 'compareEndDate', required: false, type: 'string', description: 'For compare=custom' }),
+  );
@@ -0,0 +1,26 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, BadRequestException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+import { COMPARABLE_PERIOD_KEY } from './period-comparison.interceptor';
+
+/**
+ * Rejects ?compare= on routes that cannot compare periods (routes without @ComparablePeriod),
+ * so a comparison is never silently left out of a response
+ */
+@Injectable()
+export class ComparisonSupportInterceptor implements NestInterceptor {
+  constructor(private readonly reflector: Reflector) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const query = context.switchToHttp().getRequest().query || {};
+    if (query.compare && !this.reflector.get(COMPARABLE_PERIOD_KEY, context.getHandler())) {
+      throw new BadRequestException('compare is not supported by this route');
+    }
+
+    return next.handle();
+  }
+}
@@ -0,0 +1,406 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBody,
+  ApiSecurity,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { AlertsService } from '../../alerts/alerts.service';
+import { ApiAuthGuard, AuthenticatedRequest } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { ANOMALY_GRANULARITIES } from '@interfaces/anomaly.interface';
+import {
+  ALERT_CATEGORIES,
+  ALERT_COMPARATORS,
+  ALERT_METRICS,
+  ALERT_SEVERITIES,
+  ALERT_STATUSES,
+  AlertCategory,
+  AlertRuleInput,
+  AlertSeverity,
+  AlertStatus,
+} from '@interfaces/alert.interface';
+
+const ALERT_RULE_BODY_SCHEMA = {
+  type: 'object',
+  required: ['name', 'metric', 'comparator', 'threshold', 'severity'],
+  properties: {
+    name: { type: 'string', example: 'Low stock - Apparel' },
+    description: { type: 'string' },
+    metric: { type: 'string', enum: [...ALERT_METRICS] },
+    scope: {
+      type: 'object',
+      description: 'Inventory metrics only; every field set has to match',
+      properties: {
+        sku: { type: 'string' },
+        productId: { type: 'string', description: 'Numeric id or gid' },
+        productType: { type: 'string', example: 'Apparel' },
+        vendor: { type: 'string' },
+      },
+    },
+    comparator: { type: 'string', enum: [...ALERT_COMPARATORS] },
+    threshold: {
+      type: 'number',
+      example: 10,
+      description: 'For anomaly metrics, an anomaly score: e.g. lte -3.5 for drops, gte 3.5 for spikes',
+    },
+    windowDays: {
+      type: 'number',
+      example: 30,
+      description:
+        'Days measured by days_of_cover, units_sold and sales metrics (1-365, default 30), or the baseline of anomaly metrics (14-365, default 56)',
+    },
+    granularity: {
+      type: 'string',
+      enum: [...ANOMALY_GRANULARITIES],
+      description: 'Anomaly metrics only: score the last complete hour or day (default day)',
+    },
+    severity: { type: 'string', enum: [...ALERT_SEVERITIES] },
+    channelIds: {
+      type: 'array',
+      items: { type: 'string' },
+      description: "Notification channels for the rule's alerts; omit to use each channel's default routing",
+    },
+    enabled: { type: 'boolean', default: true },
+  },
+};
+
+@ApiTags('Alerts')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
+@Controller('alerts')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('analyst')
+export class AlertsController {
+  private readonly logger = new Logger(AlertsController.name);
+
+  constructor(private readonly alertsService: AlertsService) {}
+
+  /**
+   * List alert rules
+   */
+  @Get('rules')
+  @ApiOperation({ summary: 'List alert rules' })
+  @ApiResponse({ status: 200, description: 'Alert rules' })
+  async listRules(): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.alertsService.listRules(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to list alert rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an alert rule
+   */
+  @Get('rules/:id')
+  @ApiOperation({ summary: 'Get alert rule' })
+  @ApiParam({ name: 'id', description: 'Alert rule id' })
+  @ApiResponse({ status: 200, description: 'Alert rule' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async getRule(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.alertsService.getRule(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create an alert rule
+   */
+  @Post('rules')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create alert rule',
+    description:
+      'Inventory metrics are measured per tracked variant within the scope; sales and system metrics once per store. Rules are evaluated every 15 minutes.',
+  })
+  @ApiBody({ schema: ALERT_RULE_BODY_SCHEMA })
+  @ApiResponse({ status: 201, description: 'Alert rule created' })
+  @ApiResponse({ status: 400, description: 'Invalid alert rule' })
+  async createRule(@Body() body: AlertRuleInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.alertsService.createRule(body || ({} as AlertRuleInput)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to create alert rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an alert rule
+   */
+  @Put('rules/:id')
+  @RequireRole('admin')
+  @ApiOperation({
+    summary: 'Update alert rule',
+    description: 'Omitted fields keep their value. Disabling a rule or changing its metric resolves its alerts.',
+  })
+  @ApiParam({ name: 'id', description: 'Alert rule id' })
+  @ApiBody({ schema: { ...ALERT_RULE_BODY_SCHEMA, required: [] } })
+  @ApiResponse({ status: 200, description: 'Alert rule updated' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async updateRule(@Param('id') id: string, @Body() body: Partial<AlertRuleInput>): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.alertsService.updateRule(id, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update alert rule ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an alert rule
+   */
+  @Delete('rules/:id')
+  @RequireRole('admin')
+  @ApiOperation({ summary: 'Delete alert rule', description: 'Resolves the alerts the rule raised' })
+  @ApiParam({ name: 'id', description: 'Alert rule id' })
+  @ApiResponse({ status: 200, description: 'Alert rule deleted' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async deleteRule(@Param('id') id: string): Promise<any> {
+    this.alertsService.deleteRule(id);
+
+    return {
+      status: 'success',
+      message: 'Alert rule deleted',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Evaluate the alert rules now
+   */
+  @Post('evaluate')
+  @RequireRole('admin')
+  @ApiOperation({
+    summary: 'Evaluate alert rules',
+    description: 'Evaluates every enabled rule now instead of waiting for the scheduled run, sending notifications',
+  })
+  @ApiResponse({ status: 201, description: 'Evaluation summary' })
+  async evaluateRules(): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: await this.alertsService.evaluateRules(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to evaluate alert rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Alert counts by status, severity and category
+   */
+  @Get('summary')
+  @ApiOperation({
+    summary: 'Alert summary',
+    description: 'Counts alerts per status, and unresolved alerts per severity and category',
+  })
+  @ApiResponse({ status: 200, description: 'Alert summary' })
+  async getSummary(): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.alertsService.getSummary(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to summarize alerts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List alerts
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List alerts',
+    description: 'Returns alerts, most severe and most recent first. Defaults to unresolved alerts.',
+  })
+  @ApiQuery({ name: 'status', required: false, enum: ['active', ...ALERT_STATUSES], description: 'Default: active' })
+  @ApiQuery({ name: 'severity', required: false, enum: [...ALERT_SEVERITIES] })
+  @ApiQuery({ name: 'category', required: false, enum: [...ALERT_CATEGORIES] })
+  @ApiQuery({ name: 'ruleId', required: false, type: 'string' })
+  @ApiQuery({ name: 'limit', required: false, type: 'number', description: 'Default: 100' })
+  @ApiResponse({ status: 200, description: 'Alerts' })
+  async listAlerts(
+    @Query('status') status: string = 'active',
+    @Query('severity') severity?: string,
+    @Query('category') category?: string,
+    @Query('ruleId') ruleId?: string,
+    @Query('limit') limit: string = '100',
+  ): Promise<any> {
+    try {
+      if (status !== 'active' && !ALERT_STATUSES.includes(status as AlertStatus)) {
+        throw new BadRequestException(`Invalid status. Valid: active, ${ALERT_STATUSES.join(', ')}`);
+      }
+      if (severity && !ALERT_SEVERITIES.includes(severity as AlertSeverity)) {
+        throw new BadRequestException(`Invalid severity. Valid: ${ALERT_SEVERITIES.join(', ')}`);
+      }
+      if (category && !ALERT_CATEGORIES.includes(category as AlertCategory)) {
+        throw new BadRequestException(`Invalid category. Valid: ${ALERT_CATEGORIES.join(', ')}`);
+      }
+
+      const limitNum = parseInt(limit, 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 1000) {
+        throw new BadRequestException('Limit must be between 1 and 1000');
+      }
+
+      return {
+        status: 'success',
+        data: this.alertsService.listAlerts({
+          status: status as AlertStatus | 'active',
+          severity: severity as AlertSeverity,
+          category: category as AlertCategory,
+          ruleId,
+          limit: limitNum,
+        }),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to list alerts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an alert
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get alert' })
+  @ApiParam({ name: 'id', description: 'Alert id' })
+  @ApiResponse({ status: 200, description: 'Alert' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async getAlert(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.alertsService.getAlert(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Acknowledge an alert
+   */
+  @Post(':id/acknowledge')
+  @ApiOperation({
+    summary: 'Acknowledge alert',
+    description: 'Marks the alert as being handled; it stays acknowledged until the condition clears',
+  })
+  @ApiParam({ name: 'id', description: 'Alert id' })
+  @ApiResponse({ status: 201, description: 'Alert acknowledged' })
+  @ApiResponse({ status: 400, description: 'Alert already resolved' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async acknowledgeAlert(@Param('id') id: string, @Req() request: AuthenticatedRequest): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.alertsService.acknowledgeAlert(id, request.principal.name),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to acknowledge alert ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Snooze an alert
+   */
+  @Post(':id/snooze')
+  @ApiOperation({
+    summary: 'Snooze alert',
+    description: 'Silences the alert for some minutes or until a time; it reopens then if the condition still holds',
+  })
+  @ApiParam({ name: 'id', description: 'Alert id' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        minutes: { type: 'number', example: 240 },
+        until: { type: 'string', example: '2025-10-01T09:00:00Z', description: 'Takes precedence over minutes' },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Alert snoozed' })
+  @ApiResponse({ status: 400, description: 'Invalid snooze, or alert already resolved' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async snoozeAlert(@Param('id') id: string, @Body() body: { minutes?: number; until?: string }): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.alertsService.snoozeAlert(id, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to snooze alert ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve an alert
+   */
+  @Post(':id/resolve')
+  @ApiOperation({
+    summary: 'Resolve alert',
+    description: 'Closes the alert; a new one is raised if the condition still holds at the next evaluation',
+  })
+  @ApiParam({ name: 'id', description: 'Alert id' })
+  @ApiResponse({ status: 201, description: 'Alert resolved' })
+  @ApiResponse({ status: 400, description: 'Alert already resolved' })
+  @ApiResponse({ status: 404, description: 'Alert not found' })
+  async resolveAlert(@Param('id') id: string, @Req() request: AuthenticatedRequest): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.alertsService.resolveAlert(id, request.principal.name),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to resolve alert ${id}:`, error);
+      throw error;
+    }
+  }
+}
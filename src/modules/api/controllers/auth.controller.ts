@@ -0,0 +1,194 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam, ApiSecurity, ApiBearerAuth } from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { AuthService } from '../../auth/auth.service';
+import { ApiAuthGuard, AuthenticatedRequest } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { AUTH_ROLES, AuthRole } from '@interfaces/auth.interface';
+
+@ApiTags('Auth')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@Controller('auth')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('admin')
+export class AuthController {
+  private readonly logger = new Logger(AuthController.name);
+
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * Get the authenticated caller
+   */
+  @Get('me')
+  @RequireRole('viewer')
+  @ApiOperation({
+    summary: 'Get current principal',
+    description: 'Returns the identity and role of the API key or token used for the request',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Current principal',
+  })
+  async getCurrentPrincipal(@Req() request: AuthenticatedRequest): Promise<any> {
+    return {
+      status: 'success',
+      data: request.principal,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Exchange an API key for a short-lived bearer token
+   */
+  @Post('token')
+  @RequireRole('viewer')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Issue bearer token',
+    description: 'Issues a signed JWT carrying the same role as the API key used to call this endpoint',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Bearer token issued',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'JWT support is not configured, or the request did not use an API key',
+  })
+  async issueToken(@Req() request: AuthenticatedRequest): Promise<any> {
+    try {
+      if (!this.authService.isJwtEnabled()) {
+        throw new BadRequestException('Bearer tokens are not enabled. Set AUTH_JWT_SECRET to use them');
+      }
+
+      if (request.principal.method !== 'api_key') {
+        throw new BadRequestException('Tokens can only be issued in exchange for an API key');
+      }
+
+      return {
+        status: 'success',
+        data: this.authService.issueToken(request.principal),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to issue token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List API keys
+   */
+  @Get('keys')
+  @ApiOperation({
+    summary: 'List API keys',
+    description: 'Returns stored API keys with their prefixes and roles. Key values are never returned.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys',
+  })
+  async listApiKeys(): Promise<any> {
+    return {
+      status: 'success',
+      data: this.authService.listApiKeys(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create an API key
+   */
+  @Post('keys')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create API key',
+    description: 'Creates an API key. The key value is only shown in this response; only its hash is stored.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created',
+  })
+  @ApiQuery({
+    name: 'name',
+    required: true,
+    type: 'string',
+    description: 'Label identifying who or what uses the key',
+  })
+  @ApiQuery({
+    name: 'role',
+    required: true,
+    enum: AUTH_ROLES,
+    description: 'Role granted to the key',
+  })
+  async createApiKey(@Query('name') name?: string, @Query('role') role?: string): Promise<any> {
+    try {
+      if (!name?.trim()) {
+        throw new BadRequestException('name is required');
+      }
+
+      if (!AUTH_ROLES.includes(role as AuthRole)) {
+        throw new BadRequestException(`Invalid role. Valid: ${AUTH_ROLES.join(', ')}`);
+      }
+
+      const apiKey = this.authService.createApiKey(name.trim(), role as AuthRole);
+
+      return {
+        status: 'success',
+        message: 'Store this key now; it cannot be retrieved again',
+        data: apiKey,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to create API key:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke an API key
+   */
+  @Delete('keys/:id')
+  @ApiOperation({
+    summary: 'Revoke API key',
+    description: 'Revokes an API key so it can no longer authenticate',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'API key id',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'API key revoked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No active key with this id',
+  })
+  async revokeApiKey(@Param('id') id: string): Promise<any> {
+    if (!this.authService.revokeApiKey(id)) {
+      throw new NotFoundException(`No active API key with id ${id}`);
+    }
+
+    return {
+      status: 'success',
+      message: 'API key revoked',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
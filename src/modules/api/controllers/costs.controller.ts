@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBody, ApiSecurity, ApiBearerAuth } from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { CostsService } from '../../costs/costs.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { CostOverrideInput } from '@interfaces/cost.interface';
+
+const COST_OVERRIDE_BODY_SCHEMA = {
+  type: 'object',
+  required: ['unitCost'],
+  properties: {
+    variantId: {
+      type: 'string',
+      example: 'gid://shopify/ProductVariant/123',
+      description: 'Variant the cost applies to. Set this or sku.',
+    },
+    sku: { type: 'string', description: 'SKU the cost applies to. Set this or variantId.' },
+    unitCost: { type: 'string', example: '12.50' },
+    currency: { type: 'string', example: 'USD', description: 'Defaults to the shop currency' },
+    notes: { type: 'string' },
+  },
+};
+
+@ApiTags('Costs')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
+@Controller('costs')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('admin')
+export class CostsController {
+  private readonly logger = new Logger(CostsController.name);
+
+  constructor(private readonly costsService: CostsService) {}
+
+  /**
+   * List cost overrides
+   */
+  @Get('overrides')
+  @RequireRole('analyst')
+  @ApiOperation({
+    summary: 'List cost overrides',
+    description: 'Returns the manual unit costs used ahead of the cost recorded in Shopify',
+  })
+  @ApiResponse({ status: 200, description: 'Cost overrides' })
+  async listOverrides(): Promise<any> {
+    return {
+      status: 'success',
+      data: this.costsService.listOverrides(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get a cost override
+   */
+  @Get('overrides/:id')
+  @RequireRole('analyst')
+  @ApiOperation({ summary: 'Get cost override' })
+  @ApiParam({ name: 'id', description: 'Cost override id' })
+  @ApiResponse({ status: 200, description: 'Cost override' })
+  @ApiResponse({ status: 404, description: 'Cost override not found' })
+  async getOverride(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.costsService.getOverride(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create or replace a cost override
+   */
+  @Post('overrides')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create cost override',
+    description:
+      'Sets the unit cost of a variant or SKU, replacing any existing override for it. A variant override wins over a SKU override, which wins over inventoryItem.unitCost.',
+  })
+  @ApiBody({ schema: COST_OVERRIDE_BODY_SCHEMA })
+  @ApiResponse({ status: 201, description: 'Cost override saved' })
+  @ApiResponse({ status: 400, description: 'Invalid cost override' })
+  async createOverride(@Body() body: CostOverrideInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.costsService.saveOverride(body || ({} as CostOverrideInput)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to create cost override:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a cost override
+   */
+  @Put('overrides/:id')
+  @ApiOperation({ summary: 'Update cost override' })
+  @ApiParam({ name: 'id', description: 'Cost override id' })
+  @ApiBody({ schema: { ...COST_OVERRIDE_BODY_SCHEMA, required: [] } })
+  @ApiResponse({ status: 200, description: 'Cost override updated' })
+  @ApiResponse({ status: 404, description: 'Cost override not found' })
+  async updateOverride(@Param('id') id: string, @Body() body: Partial<CostOverrideInput>): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.costsService.updateOverride(id, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update cost override ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a cost override
+   */
+  @Delete('overrides/:id')
+  @ApiOperation({ summary: 'Delete cost override' })
+  @ApiParam({ name: 'id', description: 'Cost override id' })
+  @ApiResponse({ status: 200, description: 'Cost override deleted' })
+  @ApiResponse({ status: 404, description: 'Cost override not found' })
+  async deleteOverride(@Param('id') id: string): Promise<any> {
+    this.costsService.deleteOverride(id);
+
+    return {
+      status: 'success',
+      message: 'Cost override deleted',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
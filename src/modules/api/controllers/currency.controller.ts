@@ -0,0 +1,175 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBody,
+  ApiConsumes,
+  ApiSecurity,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { CurrencyService } from '../../currency/currency.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ExchangeRateInput } from '@interfaces/currency.interface';
+
+@ApiTags('Currency')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@Controller('currency')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('admin')
+export class CurrencyController {
+  private readonly logger = new Logger(CurrencyController.name);
+
+  constructor(private readonly currencyService: CurrencyService) {}
+
+  /**
+   * Get currency settings
+   */
+  @Get()
+  @RequireRole('analyst')
+  @ApiOperation({
+    summary: 'Get currency settings',
+    description: 'Returns the reporting currency, undated fallback rates, the date span of dated rates and markets',
+  })
+  @ApiResponse({ status: 200, description: 'Currency settings' })
+  async getSettings(): Promise<any> {
+    return {
+      status: 'success',
+      data: this.currencyService.getSettings(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * List dated exchange rates
+   */
+  @Get('rates')
+  @RequireRole('analyst')
+  @ApiOperation({
+    summary: 'List exchange rates',
+    description:
+      'Returns dated rates as reporting-currency units per unit of each currency. A rate applies from its date until the next dated rate.',
+  })
+  @ApiResponse({ status: 200, description: 'Exchange rates' })
+  @ApiQuery({ name: 'currency', required: false, type: 'string' })
+  @ApiQuery({ name: 'from', required: false, type: 'string', description: 'Rates dated on or after (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'to', required: false, type: 'string', description: 'Rates dated on or before (YYYY-MM-DD)' })
+  async listRates(
+    @Query('currency') currency?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<any> {
+    return {
+      status: 'success',
+      data: this.currencyService.listRates({ currency, from, to }),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Save dated exchange rates
+   */
+  @Put('rates')
+  @ApiOperation({
+    summary: 'Save exchange rates',
+    description: 'Upserts dated rates, replacing any existing rate for the same currency and date',
+  })
+  @ApiBody({
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['currency', 'date', 'rate'],
+        properties: {
+          currency: { type: 'string', example: 'EUR' },
+          date: { type: 'string', example: '2025-01-01' },
+          rate: { type: 'number', example: 1.08 },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Rates saved' })
+  @ApiResponse({ status: 400, description: 'Invalid rate' })
+  async saveRates(@Body() body: ExchangeRateInput[]): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.currencyService.saveRates(body),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to save exchange rates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import dated exchange rates from CSV
+   */
+  @Post('rates/import')
+  @ApiOperation({
+    summary: 'Import exchange rates from CSV',
+    description:
+      'Upserts rates from a text/csv body with header: date,currency,rate. Rows that fail validation are reported and skipped.',
+  })
+  @ApiConsumes('text/csv')
+  @ApiBody({
+    schema: {
+      type: 'string',
+      example: 'date,currency,rate\n2025-01-01,EUR,1.08\n2025-01-01,GBP,1.27',
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Import summary' })
+  async importRates(@Body() csv: string): Promise<any> {
+    try {
+      if (typeof csv !== 'string' || csv.trim().length === 0) {
+        throw new BadRequestException('Send the CSV as the request body with Content-Type: text/csv');
+      }
+
+      return {
+        status: 'success',
+        data: this.currencyService.importCsv(csv),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to import exchange rates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a dated exchange rate
+   */
+  @Delete('rates/:currency/:date')
+  @ApiOperation({ summary: 'Delete exchange rate' })
+  @ApiParam({ name: 'currency', example: 'EUR' })
+  @ApiParam({ name: 'date', example: '2025-01-01' })
+  @ApiResponse({ status: 200, description: 'Rate deleted' })
+  @ApiResponse({ status: 404, description: 'Rate not found' })
+  async deleteRate(@Param('currency') currency: string, @Param('date') date: string): Promise<any> {
+    this.currencyService.deleteRate(currency, date);
+
+    return {
+      status: 'success',
+      message: 'Exchange rate deleted',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
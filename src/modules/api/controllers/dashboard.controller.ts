@@ -11,22 +11,40 @@ import {
   Param,
   BadRequestException,
 } from '@nestjs/common';
-import { CacheInterceptor } from '@nestjs/cache-manager';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import * as moment from 'moment';
+import { StoreCacheInterceptor } from '../../stores/store-cache.interceptor';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam, ApiSecurity, ApiBearerAuth } from '@nestjs/swagger';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { AnalyticsService } from '../../analytics/analytics.service';
+import { ConsolidatedAnalyticsService } from '../../analytics/consolidated-analytics.service';
+import { DateRangeAnalyticsService } from '../../analytics/date-range-analytics.service';
 import { RedisService } from '../../redis/redis.service';
+import { AlertsService } from '../../alerts/alerts.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { ComparablePeriod } from '../comparable-period.decorator';
+import { resolveDateRangeQuery } from '../date-range-query';
+import { StoreContextService } from '../../stores/store-context.service';
 
 @ApiTags('Dashboard')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
 @Controller('dashboard')
-@UseGuards(ThrottlerGuard)
-@UseInterceptors(CacheInterceptor)
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('viewer')
+@UseInterceptors(StoreCacheInterceptor)
 export class DashboardController {
   private readonly logger = new Logger(DashboardController.name);
 
   constructor(
     private readonly analyticsService: AnalyticsService,
     private readonly redisService: RedisService,
+    private readonly consolidatedAnalyticsService: ConsolidatedAnalyticsService,
+    private readonly alertsService: AlertsService,
+    private readonly dateRangeAnalyticsService: DateRangeAnalyticsService,
+    private readonly storeContext: StoreContextService,
   ) {}
 
   /**
@@ -69,7 +87,8 @@ export class DashboardController {
   @Get('summary')
   @ApiOperation({
     summary: 'Get dashboard summary',
-    description: 'Returns comprehensive dashboard data including sales, customers, and inventory metrics',
+    description:
+      'Returns comprehensive dashboard data including sales, customers, and inventory metrics for the last 24 hours, or for the stored orders placed from startDate to endDate. With compare, the comparison period\'s summary and the change of every metric are added.',
   })
   @ApiResponse({
     status: 200,
@@ -77,10 +96,16 @@ export class DashboardController {
     schema: {
       type: 'object',
       properties: {
-        totalSales: { type: 'number' },
+        totalSales: {
+          type: 'object',
+          properties: { amount: { type: 'string', example: '1234.50' }, currencyCode: { type: 'string', example: 'USD' } },
+        },
         totalOrders: { type: 'number' },
         totalCustomers: { type: 'number' },
-        averageOrderValue: { type: 'number' },
+        averageOrderValue: {
+          type: 'object',
+          properties: { amount: { type: 'string', example: '56.10' }, currencyCode: { type: 'string', example: 'USD' } },
+        },
         conversionRate: { type: 'number' },
         topSellingProducts: { type: 'array' },
         recentOrders: { type: 'array' },
@@ -88,6 +113,7 @@ export class DashboardController {
         salesTrend: { type: 'array' },
         customerMetrics: { type: 'object' },
         inventoryMetrics: { type: 'object' },
+        salesBreakdown: { type: 'object' },
         lastUpdated: { type: 'string' },
       },
     },
@@ -98,11 +124,36 @@ export class DashboardController {
     type: 'boolean',
     description: 'Force refresh data from source',
   })
-  async getDashboardSummary(@Query('refresh') refresh?: boolean): Promise<any> {
+  @ApiQuery({
+    name: 'currency',
+    required: false,
+    type: 'string',
+    description: 'Convert amounts to this currency (default: shop currency)',
+  })
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
+    type: 'string',
+    description: 'Start date in YYYY-MM-DD format (default: 1 day before the end date)',
+  })
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
+    type: 'string',
+    description: 'End date in YYYY-MM-DD format (default: now)',
+  })
+  @ComparablePeriod({ defaultDays: 1 })
+  async getDashboardSummary(
+    @Query('refresh') refresh?: boolean,
+    @Query('currency') currency?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<any> {
     try {
-      this.logger.log(`Dashboard summary requested (refresh: ${refresh})`);
-      
-      const summary = await this.analyticsService.getDashboardSummary(refresh === true);
+      this.logger.log(`Dashboard summary requested (refresh: ${refresh}${currency ? `, currency: ${currency}` : ''})`);
+
+      const range = this.resolveRange(startDate, endDate, 1);
+      const summary = await this.analyticsService.getDashboardSummary(refresh === true, currency, range);
       
       return {
         status: 'success',
@@ -150,7 +201,8 @@ export class DashboardController {
   @Get('sales')
   @ApiOperation({
     summary: 'Get sales analytics',
-    description: 'Returns detailed sales analytics including trends, targets, and performance',
+    description:
+      'Returns detailed sales analytics including trends, targets, and performance for the last 7 days, or for the stored orders placed from startDate to endDate. With compare, the comparison period\'s analytics and the change of every metric are added.',
   })
   @ApiResponse({
     status: 200,
@@ -162,11 +214,36 @@ export class DashboardController {
     type: 'boolean',
     description: 'Force refresh data from source',
   })
-  async getSalesAnalytics(@Query('refresh') refresh?: boolean): Promise<any> {
+  @ApiQuery({
+    name: 'currency',
+    required: false,
+    type: 'string',
+    description: 'Convert amounts to this currency (default: shop currency)',
+  })
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
+    type: 'string',
+    description: 'Start date in YYYY-MM-DD format (default: 7 days before the end date)',
+  })
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
+    type: 'string',
+    description: 'End date in YYYY-MM-DD format (default: now)',
+  })
+  @ComparablePeriod({ defaultDays: 7 })
+  async getSalesAnalytics(
+    @Query('refresh') refresh?: boolean,
+    @Query('currency') currency?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<any> {
     try {
-      this.logger.log(`Sales analytics requested (refresh: ${refresh})`);
-      
-      const analytics = await this.analyticsService.getSalesAnalytics(refresh === true);
+      this.logger.log(`Sales analytics requested (refresh: ${refresh}${currency ? `, currency: ${currency}` : ''})`);
+
+      const range = this.resolveRange(startDate, endDate, 7);
+      const analytics = await this.analyticsService.getSalesAnalytics(refresh === true, currency, range);
       
       return {
         status: 'success',
@@ -185,7 +262,8 @@ export class DashboardController {
   @Get('customers')
   @ApiOperation({
     summary: 'Get customer analytics',
-    description: 'Returns customer segmentation, profitability, and behavior analytics',
+    description:
+      'Returns customer segmentation, profitability, and behavior analytics for recent customers, or for the customers who placed stored orders from startDate to endDate. With compare, the comparison period\'s analytics and the change of every metric are added.',
   })
   @ApiResponse({
     status: 200,
@@ -197,11 +275,36 @@ export class DashboardController {
     type: 'boolean',
     description: 'Force refresh data from source',
   })
-  async getCustomerAnalytics(@Query('refresh') refresh?: boolean): Promise<any> {
+  @ApiQuery({
+    name: 'currency',
+    required: false,
+    type: 'string',
+    description: 'Convert amounts to this currency (default: shop currency)',
+  })
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
+    type: 'string',
+    description: 'Start date in YYYY-MM-DD format (default: 1 day before the end date)',
+  })
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
+    type: 'string',
+    description: 'End date in YYYY-MM-DD format (default: now)',
+  })
+  @ComparablePeriod({ defaultDays: 1 })
+  async getCustomerAnalytics(
+    @Query('refresh') refresh?: boolean,
+    @Query('currency') currency?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ): Promise<any> {
     try {
-      this.logger.log(`Customer analytics requested (refresh: ${refresh})`);
-      
-      const analytics = await this.analyticsService.getCustomerAnalytics(refresh === true);
+      this.logger.log(`Customer analytics requested (refresh: ${refresh}${currency ? `, currency: ${currency}` : ''})`);
+
+      const range = this.resolveRange(startDate, endDate, 1);
+      const analytics = await this.analyticsService.getCustomerAnalytics(refresh === true, currency, range);
       
       return {
         status: 'success',
@@ -290,7 +393,8 @@ export class DashboardController {
   @Get('date-range')
   @ApiOperation({
     summary: 'Get analytics for specific date range',
-    description: 'Returns analytics data for a specified date range',
+    description:
+      "Returns sales (with daily and monthly breakdowns), customer, inventory-movement and fulfillment metrics for every order placed in a date range. Dates are calendar days in the store's time zone, both inclusive. Ranges the analytics store does not cover are fetched from Shopify in full first. With compare, the same analytics for the comparison period and the change of every metric are added.",
   })
   @ApiResponse({
     status: 200,
@@ -308,32 +412,32 @@ export class DashboardController {
     type: 'string',
     description: 'End date in YYYY-MM-DD format',
   })
+  @ComparablePeriod({ defaultDays: null })
   async getDateRangeAnalytics(
     @Query('startDate') startDate: string,
     @Query('endDate') endDate: string,
   ): Promise<any> {
     try {
-      // Validate date format
-      const startDateObj = new Date(startDate);
-      const endDateObj = new Date(endDate);
+      // Calendar dates; the analytics count them in the store's time zone
+      const start = moment.utc(startDate, 'YYYY-MM-DD', true);
+      const end = moment.utc(endDate, 'YYYY-MM-DD', true);
 
-      if (isNaN(startDateObj.getTime()) || isNaN(endDateObj.getTime())) {
+      if (!start.isValid() || !end.isValid()) {
         throw new BadRequestException('Invalid date format. Use YYYY-MM-DD format.');
       }
 
-      if (startDateObj > endDateObj) {
+      if (start.isAfter(end)) {
         throw new BadRequestException('Start date must be before end date.');
       }
 
       // Limit range to 1 year
-      const daysDifference = (endDateObj.getTime() - startDateObj.getTime()) / (1000 * 60 * 60 * 24);
-      if (daysDifference > 365) {
+      if (end.diff(start, 'days') > 365) {
         throw new BadRequestException('Date range cannot exceed 365 days.');
       }
 
       this.logger.log(`Date range analytics requested: ${startDate} to ${endDate}`);
-      
-      const analytics = await this.analyticsService.getDateRangeAnalytics(startDateObj, endDateObj);
+
+      const analytics = await this.dateRangeAnalyticsService.getDateRangeAnalytics(startDate, endDate);
       
       return {
         status: 'success',
@@ -346,13 +450,56 @@ export class DashboardController {
     }
   }
 
+  /**
+   * Get revenue consolidated across all stores
+   */
+  @Get('consolidated')
+  @ApiOperation({
+    summary: 'Get consolidated cross-store revenue',
+    description:
+      'Returns revenue and order counts for today, the last 7 days, month to date and year to date for every registered store, converted to one currency and summed. Currencies without an exchange rate are listed in unconvertedCurrencies and left out of the totals.',
+  })
+  @ApiQuery({
+    name: 'currency',
+    required: false,
+    type: 'string',
+    description: 'Currency to report in (defaults to REPORTING_CURRENCY)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Consolidated revenue data',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No exchange rate for the requested currency',
+  })
+  async getConsolidatedRevenue(@Query('currency') currency?: string): Promise<any> {
+    try {
+      this.logger.log(`Consolidated revenue requested (currency: ${currency || 'default'})`);
+
+      const data = await this.consolidatedAnalyticsService.getConsolidatedRevenue(currency);
+
+      return {
+        status: 'success',
+        data,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to get consolidated revenue:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get alerts and notifications
    */
   @Get('alerts')
   @ApiOperation({
     summary: 'Get current alerts',
-    description: 'Returns current system alerts including inventory, performance, and business alerts',
+    description:
+      'Returns unresolved alerts raised by the alert rules, most severe and most recent first. Anomalies in ' +
+      'revenue, orders, AOV, refund and cancellation rates are also listed on their own, with the products ' +
+      'and channels that contributed most.',
   })
   @ApiResponse({
     status: 200,
@@ -362,31 +509,19 @@ export class DashboardController {
     try {
       this.logger.log('Alerts requested');
       
-      const [inventoryAlerts, performanceAlerts, systemAlerts] = await Promise.all([
-        this.redisService.get('alerts:inventory'),
-        this.redisService.get('alerts:performance'),
-        this.redisService.get('alerts:system'),
-      ]);
-
-      const inventoryAlertsArray = (inventoryAlerts as any[]) || [];
-      const performanceAlertsArray = (performanceAlerts as any[]) || [];
-      const systemAlertsArray = (systemAlerts as any[]) || [];
-
-      const allAlerts = [
-        ...inventoryAlertsArray,
-        ...performanceAlertsArray,
-        ...systemAlertsArray,
-      ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+      const alerts = this.alertsService.listAlerts({ status: 'active' });
 
       return {
         status: 'success',
         data: {
-          total: allAlerts.length,
-          alerts: allAlerts,
-          byType: {
-            inventory: inventoryAlertsArray.length,
-            performance: performanceAlertsArray.length,
-            system: systemAlertsArray.length,
+          total: alerts.length,
+          alerts,
+          anomalies: alerts.filter(alert => alert.category === 'anomaly'),
+          byCategory: {
+            inventory: alerts.filter(alert => alert.category === 'inventory').length,
+            sales: alerts.filter(alert => alert.category === 'sales').length,
+            system: alerts.filter(alert => alert.category === 'system').length,
+            anomaly: alerts.filter(alert => alert.category === 'anomaly').length,
           },
         },
         timestamp: new Date().toISOString(),
@@ -502,4 +637,19 @@ export class DashboardController {
       throw error;
     }
   }
+
+  /**
+   * The stored-order range a route reports on when given startDate or endDate; without
+   * either the route keeps its live window
+   */
+  private resolveRange(startDate: string, endDate: string, defaultDays: number): { start: Date; end: Date } {
+    if (!startDate && !endDate) {
+      return undefined;
+    }
+
+    const { start, end } = resolveDateRangeQuery(startDate, endDate, this.storeContext.getTimezone(), rangeEnd =>
+      rangeEnd.subtract(defaultDays, 'days'),
+    );
+    return { start: start.toDate(), end: end.toDate() };
+  }
 }
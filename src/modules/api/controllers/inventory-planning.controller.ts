@@ -0,0 +1,454 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiProduces,
+  ApiSecurity,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { Response } from 'express';
+import { ReorderPlanningService } from '../../planning/reorder-planning.service';
+import { SuppliersService } from '../../suppliers/suppliers.service';
+import { LocationInventoryService } from '../../planning/location-inventory.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { LocationSettingsInput, SupplierSettingsInput } from '@interfaces/planning.interface';
+
+const SUPPLIER_BODY_SCHEMA = {
+  type: 'object',
+  required: ['vendor'],
+  properties: {
+    vendor: {
+      type: 'string',
+      example: 'Acme Textiles',
+      description: 'Shopify product vendor, matched case-insensitively',
+    },
+    leadTimeDays: { type: 'number', example: 21, description: 'Defaults to REORDER_DEFAULT_LEAD_TIME_DAYS' },
+    leadTimeStdDevDays: { type: 'number', example: 3, description: 'Lead time variability (default: 0)' },
+    minOrderQuantity: { type: 'number', example: 24, description: 'Minimum units per line (default: 1)' },
+    casePack: { type: 'number', example: 6, description: 'Units per case (default: 1)' },
+    reviewCycleDays: { type: 'number', example: 7, description: 'Defaults to REORDER_DEFAULT_REVIEW_CYCLE_DAYS' },
+    serviceLevel: { type: 'number', example: 95, description: 'Defaults to REORDER_DEFAULT_SERVICE_LEVEL' },
+    contactEmail: { type: 'string', example: 'orders@acme.example' },
+    notes: { type: 'string' },
+  },
+};
+
+const LOCATION_BODY_SCHEMA = {
+  type: 'object',
+  properties: {
+    criticalStockThreshold: {
+      type: 'number',
+      example: 5,
+      description: 'Available units counted as critical (default: 5)',
+    },
+    lowStockThreshold: { type: 'number', example: 10, description: 'Available units counted as low (default: 10)' },
+    targetStock: {
+      type: 'number',
+      example: 20,
+      description: 'Units to restock to and to keep when sending (default: 20)',
+    },
+    overstockThreshold: {
+      type: 'number',
+      example: 40,
+      description: 'Available units above which stock can be transferred out (default: 40)',
+    },
+    allowTransfers: { type: 'boolean', example: true, description: 'Include the location in transfer suggestions' },
+  },
+};
+
+@ApiTags('Inventory Planning')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
+@Controller('inventory-planning')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('analyst')
+export class InventoryPlanningController {
+  private readonly logger = new Logger(InventoryPlanningController.name);
+
+  constructor(
+    private readonly reorderPlanningService: ReorderPlanningService,
+    private readonly suppliersService: SuppliersService,
+    private readonly locationInventoryService: LocationInventoryService,
+  ) {}
+
+  /**
+   * Get the reorder plan
+   */
+  @Get('reorder-plan')
+  @ApiOperation({
+    summary: 'Get reorder plan',
+    description:
+      'Returns safety stock, reorder point and order quantity per variant with sales, most urgent first. Safety stock covers the forecast error over the lead time plus review cycle, and lead time variability, at the supplier service level; order quantities respect the minimum order quantity and case pack.',
+  })
+  @ApiResponse({ status: 200, description: 'Reorder plan' })
+  @ApiQuery({ name: 'vendor', required: false, type: 'string', description: 'Only plan products of this vendor' })
+  @ApiQuery({
+    name: 'onlyReorder',
+    required: false,
+    type: 'boolean',
+    description: 'Only return variants below their reorder point (default: false)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: 'number',
+    description: 'Limit number of variants returned (default: 100)',
+  })
+  async getReorderPlan(
+    @Query('vendor') vendor?: string,
+    @Query('onlyReorder') onlyReorder?: string,
+    @Query('limit') limit?: number,
+  ): Promise<any> {
+    try {
+      this.logger.log(`Reorder plan requested${vendor ? ` for ${vendor}` : ''}`);
+
+      const plan = this.reorderPlanningService.createReorderPlan(vendor || undefined);
+      const variants = onlyReorder === 'true' ? plan.variants.filter(variant => variant.shouldReorder) : plan.variants;
+      const limitValue = Math.min(Number(limit) || 100, 1000);
+
+      return {
+        status: 'success',
+        data: { ...plan, variants: variants.slice(0, limitValue) },
+        timestamp: new Date().toISOString(),
+        meta: {
+          totalVariants: variants.length,
+          limitApplied: limitValue,
+        },
+      };
+    } catch (error) {
+      this.logger.error('Failed to get reorder plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get draft purchase orders
+   */
+  @Get('purchase-orders')
+  @ApiOperation({
+    summary: 'Get draft purchase orders',
+    description:
+      'Returns the order quantities of the reorder plan as one draft purchase order per vendor, priced at unit cost. Use format=csv to download one row per line.',
+  })
+  @ApiProduces('application/json', 'text/csv')
+  @ApiResponse({ status: 200, description: 'Draft purchase orders' })
+  @ApiQuery({ name: 'vendor', required: false, type: 'string', description: 'Only draft the order for this vendor' })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'csv'], description: 'Response format (default: json)' })
+  async getPurchaseOrders(
+    @Res({ passthrough: true }) res: Response,
+    @Query('vendor') vendor?: string,
+    @Query('format') format?: string,
+  ): Promise<any> {
+    try {
+      const outputFormat = format || 'json';
+      if (!['json', 'csv'].includes(outputFormat)) {
+        throw new BadRequestException('Invalid format. Valid: json, csv');
+      }
+
+      this.logger.log(`Draft purchase orders requested as ${outputFormat}${vendor ? ` for ${vendor}` : ''}`);
+      const plan = this.reorderPlanningService.createReorderPlan(vendor || undefined);
+
+      if (outputFormat === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="purchase-orders-${plan.generatedAt.slice(0, 10)}.csv"`,
+        );
+        return this.reorderPlanningService.toPurchaseOrderCsv(plan.purchaseOrders);
+      }
+
+      return {
+        status: 'success',
+        data: {
+          currency: plan.currency,
+          purchaseOrders: plan.purchaseOrders,
+          summary: plan.summary,
+        },
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to get draft purchase orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List supplier settings
+   */
+  @Get('suppliers')
+  @ApiOperation({
+    summary: 'List supplier settings',
+    description: 'Returns the replenishment terms stored per vendor; other vendors use the configured defaults',
+  })
+  @ApiResponse({ status: 200, description: 'Supplier settings' })
+  async listSuppliers(): Promise<any> {
+    return {
+      status: 'success',
+      data: this.suppliersService.listSettings(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get supplier settings
+   */
+  @Get('suppliers/:id')
+  @ApiOperation({ summary: 'Get supplier settings' })
+  @ApiParam({ name: 'id', description: 'Supplier settings id' })
+  @ApiResponse({ status: 200, description: 'Supplier settings' })
+  @ApiResponse({ status: 404, description: 'Supplier settings not found' })
+  async getSupplier(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.suppliersService.getSettings(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create or replace supplier settings
+   */
+  @Post('suppliers')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create supplier settings',
+    description: 'Sets the replenishment terms of a vendor, replacing any existing settings for it',
+  })
+  @ApiBody({ schema: SUPPLIER_BODY_SCHEMA })
+  @ApiResponse({ status: 201, description: 'Supplier settings saved' })
+  @ApiResponse({ status: 400, description: 'Invalid supplier settings' })
+  async createSupplier(@Body() body: SupplierSettingsInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.suppliersService.saveSettings(body || ({} as SupplierSettingsInput)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to create supplier settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update supplier settings
+   */
+  @Put('suppliers/:id')
+  @RequireRole('admin')
+  @ApiOperation({ summary: 'Update supplier settings' })
+  @ApiParam({ name: 'id', description: 'Supplier settings id' })
+  @ApiBody({ schema: { ...SUPPLIER_BODY_SCHEMA, required: [] } })
+  @ApiResponse({ status: 200, description: 'Supplier settings updated' })
+  @ApiResponse({ status: 404, description: 'Supplier settings not found' })
+  async updateSupplier(@Param('id') id: string, @Body() body: Partial<SupplierSettingsInput>): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.suppliersService.updateSettings(id, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update supplier settings ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete supplier settings
+   */
+  @Delete('suppliers/:id')
+  @RequireRole('admin')
+  @ApiOperation({ summary: 'Delete supplier settings' })
+  @ApiParam({ name: 'id', description: 'Supplier settings id' })
+  @ApiResponse({ status: 200, description: 'Supplier settings deleted' })
+  @ApiResponse({ status: 404, description: 'Supplier settings not found' })
+  async deleteSupplier(@Param('id') id: string): Promise<any> {
+    this.suppliersService.deleteSettings(id);
+
+    return {
+      status: 'success',
+      message: 'Supplier settings deleted',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * List locations with their stock and thresholds
+   */
+  @Get('locations')
+  @ApiOperation({
+    summary: 'List inventory locations',
+    description:
+      'Returns the stock held at every location with stored inventory levels, and the thresholds applied to it',
+  })
+  @ApiResponse({ status: 200, description: 'Locations' })
+  async listLocations(): Promise<any> {
+    return {
+      status: 'success',
+      data: this.locationInventoryService.listLocations(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get the thresholds of a location
+   */
+  @Get('locations/:locationId')
+  @ApiOperation({ summary: 'Get location stock thresholds' })
+  @ApiParam({ name: 'locationId', description: 'Numeric Shopify location id' })
+  @ApiResponse({ status: 200, description: 'Location stock thresholds' })
+  @ApiResponse({ status: 404, description: 'Location not found' })
+  async getLocation(@Param('locationId') locationId: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.locationInventoryService.getLocationSettings(locationId),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Set the thresholds of a location
+   */
+  @Put('locations/:locationId')
+  @RequireRole('admin')
+  @ApiOperation({
+    summary: 'Set location stock thresholds',
+    description: 'Sets the low stock and transfer thresholds of a location; omitted fields keep their current value',
+  })
+  @ApiParam({ name: 'locationId', description: 'Numeric Shopify location id' })
+  @ApiBody({ schema: LOCATION_BODY_SCHEMA })
+  @ApiResponse({ status: 200, description: 'Location stock thresholds saved' })
+  @ApiResponse({ status: 400, description: 'Invalid thresholds' })
+  @ApiResponse({ status: 404, description: 'Location not found' })
+  async updateLocation(@Param('locationId') locationId: string, @Body() body: LocationSettingsInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.locationInventoryService.saveLocationSettings(locationId, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update location ${locationId} thresholds:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reset the thresholds of a location to the defaults
+   */
+  @Delete('locations/:locationId')
+  @RequireRole('admin')
+  @ApiOperation({ summary: 'Reset location stock thresholds to the defaults' })
+  @ApiParam({ name: 'locationId', description: 'Numeric Shopify location id' })
+  @ApiResponse({ status: 200, description: 'Location stock thresholds reset' })
+  @ApiResponse({ status: 404, description: 'Location has no stored thresholds' })
+  async resetLocation(@Param('locationId') locationId: string): Promise<any> {
+    this.locationInventoryService.resetLocationSettings(locationId);
+
+    return {
+      status: 'success',
+      message: 'Location stock thresholds reset',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get low stock alerts per location
+   */
+  @Get('location-low-stock')
+  @ApiOperation({
+    summary: 'Get low stock alerts per location',
+    description:
+      'Returns tracked variants at or below the low stock threshold of a location, with the shortfall to its target stock and the surplus other locations could transfer',
+  })
+  @ApiResponse({ status: 200, description: 'Low stock alerts per location' })
+  @ApiQuery({ name: 'locationId', required: false, type: 'string', description: 'Only alert for this location' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: 'number',
+    description: 'Limit number of alerts returned (default: 100)',
+  })
+  async getLocationLowStock(@Query('locationId') locationId?: string, @Query('limit') limit?: number): Promise<any> {
+    try {
+      this.logger.log(`Low stock alerts per location requested${locationId ? ` for ${locationId}` : ''}`);
+
+      const alerts = this.locationInventoryService.getLowStockAlerts(locationId || undefined);
+      const limitValue = Math.min(Number(limit) || 100, 1000);
+
+      return {
+        status: 'success',
+        data: alerts.slice(0, limitValue),
+        timestamp: new Date().toISOString(),
+        meta: {
+          totalAlerts: alerts.length,
+          limitApplied: limitValue,
+        },
+      };
+    } catch (error) {
+      this.logger.error('Failed to get low stock alerts per location:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get stock transfer suggestions
+   */
+  @Get('transfer-suggestions')
+  @ApiOperation({
+    summary: 'Get stock transfer suggestions',
+    description:
+      'Suggests transfers that restock locations at or below their low stock threshold from locations above their overstock threshold. Senders keep their target stock; receivers are filled up to their target, net of incoming units.',
+  })
+  @ApiResponse({ status: 200, description: 'Stock transfer suggestions' })
+  @ApiQuery({
+    name: 'locationId',
+    required: false,
+    type: 'string',
+    description: 'Only transfers from or to this location',
+  })
+  async getTransferSuggestions(@Query('locationId') locationId?: string): Promise<any> {
+    try {
+      this.logger.log(`Transfer suggestions requested${locationId ? ` for ${locationId}` : ''}`);
+
+      const suggestions = this.locationInventoryService.getTransferSuggestions(locationId || undefined);
+
+      return {
+        status: 'success',
+        data: suggestions,
+        timestamp: new Date().toISOString(),
+        meta: {
+          totalTransfers: suggestions.length,
+          totalUnits: suggestions.reduce((sum, suggestion) => sum + suggestion.quantity, 0),
+        },
+      };
+    } catch (error) {
+      this.logger.error('Failed to get transfer suggestions:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBody,
+  ApiSecurity,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { ALERT_CATEGORIES, ALERT_SEVERITIES } from '@interfaces/alert.interface';
+import {
+  NOTIFICATION_CHANNEL_TYPES,
+  NOTIFICATION_DELIVERY_STATUSES,
+  NotificationChannelInput,
+  NotificationDeliveryStatus,
+} from '@interfaces/notification.interface';
+
+const CHANNEL_BODY_SCHEMA = {
+  type: 'object',
+  required: ['name', 'type', 'config'],
+  properties: {
+    name: { type: 'string', example: 'Ops on-call' },
+    type: { type: 'string', enum: [...NOTIFICATION_CHANNEL_TYPES] },
+    config: {
+      type: 'object',
+      description:
+        'email: { to, subjectTemplate?, bodyTemplate? }; slack: { url, template? }; webhook: { url, secret?, headers? }. Templates use {{title}}, {{message}}, {{severity}}, {{category}}, {{eventLabel}}, {{value}}, {{threshold}}, {{store}} and {{occurredAt}}.',
+      example: { url: 'https://hooks.slack.com/services/T000/B000/XXXX' },
+    },
+    minSeverity: {
+      type: 'string',
+      enum: [...ALERT_SEVERITIES],
+      default: 'LOW',
+      description: 'Least severe alert sent to the channel, for rules without channels and health checks',
+    },
+    categories: {
+      type: 'array',
+      items: { type: 'string', enum: [...ALERT_CATEGORIES] },
+      description: 'Alert categories sent to the channel, for rules without channels; empty for all',
+    },
+    enabled: { type: 'boolean', default: true },
+  },
+};
+
+@ApiTags('Notifications')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
+@Controller('notifications')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('admin')
+export class NotificationsController {
+  private readonly logger = new Logger(NotificationsController.name);
+
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * List notification channels
+   */
+  @Get('channels')
+  @ApiOperation({ summary: 'List notification channels', description: 'Secrets are masked' })
+  @ApiResponse({ status: 200, description: 'Notification channels' })
+  async listChannels(): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.notificationsService.listChannels(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to list notification channels:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a notification channel
+   */
+  @Get('channels/:id')
+  @ApiOperation({ summary: 'Get notification channel', description: 'Secrets are masked' })
+  @ApiParam({ name: 'id', description: 'Channel id' })
+  @ApiResponse({ status: 200, description: 'Notification channel' })
+  @ApiResponse({ status: 404, description: 'Channel not found' })
+  async getChannel(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.notificationsService.getChannel(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create a notification channel
+   */
+  @Post('channels')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create notification channel',
+    description: 'Email channels send through the SMTP server configured with SMTP_HOST',
+  })
+  @ApiBody({ schema: CHANNEL_BODY_SCHEMA })
+  @ApiResponse({ status: 201, description: 'Channel created' })
+  @ApiResponse({ status: 400, description: 'Invalid channel' })
+  async createChannel(@Body() body: NotificationChannelInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.notificationsService.createChannel(body || ({} as NotificationChannelInput)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to create notification channel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a notification channel
+   */
+  @Put('channels/:id')
+  @ApiOperation({
+    summary: 'Update notification channel',
+    description: 'Omitted fields keep their value; config fields are merged and masked secrets are left unchanged',
+  })
+  @ApiParam({ name: 'id', description: 'Channel id' })
+  @ApiBody({ schema: { ...CHANNEL_BODY_SCHEMA, required: [] } })
+  @ApiResponse({ status: 200, description: 'Channel updated' })
+  @ApiResponse({ status: 404, description: 'Channel not found' })
+  async updateChannel(@Param('id') id: string, @Body() body: Partial<NotificationChannelInput>): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.notificationsService.updateChannel(id, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update notification channel ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a notification channel
+   */
+  @Delete('channels/:id')
+  @ApiOperation({ summary: 'Delete notification channel' })
+  @ApiParam({ name: 'id', description: 'Channel id' })
+  @ApiResponse({ status: 200, description: 'Channel deleted' })
+  @ApiResponse({ status: 404, description: 'Channel not found' })
+  async deleteChannel(@Param('id') id: string): Promise<any> {
+    this.notificationsService.deleteChannel(id);
+
+    return {
+      status: 'success',
+      message: 'Notification channel deleted',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Send a test notification
+   */
+  @Post('channels/:id/test')
+  @ApiOperation({
+    summary: 'Test notification channel',
+    description: 'Sends a test notification now and returns its delivery, including any error',
+  })
+  @ApiParam({ name: 'id', description: 'Channel id' })
+  @ApiResponse({ status: 201, description: 'Test delivery' })
+  @ApiResponse({ status: 404, description: 'Channel not found' })
+  async testChannel(@Param('id') id: string): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: await this.notificationsService.testChannel(id),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to test notification channel ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Notification delivery log
+   */
+  @Get('deliveries')
+  @RequireRole('analyst')
+  @ApiOperation({
+    summary: 'Notification delivery log',
+    description:
+      'Notifications sent, failed, suppressed by the cooldown, queued for a digest or sent in one, newest first',
+  })
+  @ApiQuery({ name: 'channelId', required: false, type: 'string' })
+  @ApiQuery({ name: 'status', required: false, enum: [...NOTIFICATION_DELIVERY_STATUSES] })
+  @ApiQuery({ name: 'eventKey', required: false, type: 'string', description: 'Alert dedup key or health:<check>' })
+  @ApiQuery({ name: 'limit', required: false, type: 'number', description: 'Default: 100' })
+  @ApiResponse({ status: 200, description: 'Notification deliveries' })
+  async listDeliveries(
+    @Query('channelId') channelId?: string,
+    @Query('status') status?: string,
+    @Query('eventKey') eventKey?: string,
+    @Query('limit') limit: string = '100',
+  ): Promise<any> {
+    try {
+      if (status && !NOTIFICATION_DELIVERY_STATUSES.includes(status as NotificationDeliveryStatus)) {
+        throw new BadRequestException(`Invalid status. Valid: ${NOTIFICATION_DELIVERY_STATUSES.join(', ')}`);
+      }
+
+      const limitNum = parseInt(limit, 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 1000) {
+        throw new BadRequestException('Limit must be between 1 and 1000');
+      }
+
+      return {
+        status: 'success',
+        data: this.notificationsService.listDeliveries({
+          channelId,
+          status: status as NotificationDeliveryStatus,
+          eventKey,
+          limit: limitNum,
+        }),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to list notification deliveries:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Sse,
+  Query,
+  Headers,
+  UseGuards,
+  Logger,
+  BadRequestException,
+  MessageEvent,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiHeader, ApiSecurity, ApiBearerAuth } from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { Observable } from 'rxjs';
+import { RealtimeEventsService } from '../../realtime/realtime-events.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { REALTIME_CHANNELS, RealtimeChannel } from '@interfaces/realtime.interface';
+
+@ApiTags('Realtime')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
+@Controller('realtime')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('viewer')
+export class RealtimeController {
+  private readonly logger = new Logger(RealtimeController.name);
+
+  constructor(private readonly realtimeEvents: RealtimeEventsService) {}
+
+  /**
+   * Stream real-time events
+   */
+  @Sse('stream')
+  @ApiOperation({
+    summary: 'Stream real-time events',
+    description:
+      'Server-sent events for the store: order.created (orders), metrics.snapshot and metrics.updated with the changed real-time metrics (revenue), alert.triggered, alert.reopened, alert.resolved, alert.acknowledged and alert.snoozed (alerts), and sync.started, sync.completed, sync.skipped and sync.failed (sync). A heartbeat event is sent every REALTIME_HEARTBEAT_SECONDS. Reconnecting with Last-Event-ID (or lastEventId) replays missed events; when they are no longer buffered a reset event is sent and the client should reload /dashboard/realtime. EventSource clients can authenticate with access_token and choose the store with storeId.',
+  })
+  @ApiQuery({
+    name: 'channels',
+    required: false,
+    type: 'string',
+    description: `Comma-separated channels: ${REALTIME_CHANNELS.join(', ')} (default: all)`,
+  })
+  @ApiQuery({ name: 'lastEventId', required: false, type: 'string', description: 'Resume after this event id' })
+  @ApiQuery({ name: 'access_token', required: false, type: 'string', description: 'Bearer token' })
+  @ApiHeader({ name: 'Last-Event-ID', required: false, description: 'Sent by EventSource when it reconnects' })
+  @ApiResponse({ status: 200, description: 'text/event-stream of real-time events' })
+  stream(
+    @Query('channels') channels?: string,
+    @Query('lastEventId') lastEventIdQuery?: string,
+    @Headers('last-event-id') lastEventIdHeader?: string,
+  ): Observable<MessageEvent> {
+    try {
+      const selected = channels
+        ? [...new Set(channels.split(',').map(channel => channel.trim()))].filter(Boolean)
+        : [...REALTIME_CHANNELS];
+      const invalid = selected.filter(channel => !REALTIME_CHANNELS.includes(channel as RealtimeChannel));
+      if (selected.length === 0 || invalid.length > 0) {
+        throw new BadRequestException(`Invalid channels. Valid: ${REALTIME_CHANNELS.join(', ')}`);
+      }
+
+      return this.realtimeEvents.subscribe(selected as RealtimeChannel[], lastEventIdHeader || lastEventIdQuery);
+    } catch (error) {
+      this.logger.error('Failed to open real-time stream:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Real-time stream status
+   */
+  @Get('status')
+  @ApiOperation({
+    summary: 'Real-time stream status',
+    description: 'Subscribers, the last event id and the events buffered for resuming clients',
+  })
+  @ApiResponse({ status: 200, description: 'Stream status' })
+  async getStatus(): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.realtimeEvents.getStatus(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to get real-time stream status:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  BadRequestException,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBody,
+  ApiProduces,
+  ApiSecurity,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { Response } from 'express';
+import { ReportsService } from '../../reports/reports.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import {
+  REPORT_FORMATS,
+  REPORT_SECTIONS,
+  ReportFormat,
+  ReportRequest,
+  ReportScheduleInput,
+} from '@interfaces/report.interface';
+
+const SECTIONS_SCHEMA = {
+  type: 'array',
+  items: { type: 'string', enum: [...REPORT_SECTIONS] },
+  description:
+    'summary: the period against the one before; ytd: year to date by month against last year; top_sellers: best-selling products; low_stock: unresolved inventory alerts; rep_leaderboard: sales credited to reps',
+  example: ['summary', 'ytd', 'top_sellers', 'low_stock', 'rep_leaderboard'],
+};
+
+const PERIOD_DAYS_SCHEMA = {
+  type: 'number',
+  default: 7,
+  description: "Complete days in the store's time zone before the run covered by the period sections (1-366)",
+};
+
+const SCHEDULE_BODY_SCHEMA = {
+  type: 'object',
+  required: ['name', 'cron', 'recipients', 'sections'],
+  properties: {
+    name: { type: 'string', example: 'Monday sales report' },
+    cron: { type: 'string', example: '0 8 * * 1', description: 'Cron expression, evaluated in the time zone' },
+    timezone: {
+      type: 'string',
+      example: 'Europe/Berlin',
+      description: "IANA time zone of the cron expression; defaults to the store's time zone",
+    },
+    recipients: { type: 'array', items: { type: 'string' }, example: ['team@example.com'] },
+    sections: SECTIONS_SCHEMA,
+    periodDays: PERIOD_DAYS_SCHEMA,
+    attachPdf: { type: 'boolean', default: true, description: 'Attach the report as a PDF to the HTML email' },
+    enabled: { type: 'boolean', default: true },
+  },
+};
+
+@ApiTags('Reports')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
+@Controller('reports')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('analyst')
+export class ReportsController {
+  private readonly logger = new Logger(ReportsController.name);
+
+  constructor(private readonly reportsService: ReportsService) {}
+
+  /**
+   * List report schedules
+   */
+  @Get('schedules')
+  @ApiOperation({ summary: 'List report schedules', description: 'Includes when each enabled schedule runs next' })
+  @ApiResponse({ status: 200, description: 'Report schedules' })
+  async listSchedules(): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.reportsService.listSchedules(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to list report schedules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a report schedule
+   */
+  @Get('schedules/:id')
+  @ApiOperation({ summary: 'Get report schedule' })
+  @ApiParam({ name: 'id', description: 'Schedule id' })
+  @ApiResponse({ status: 200, description: 'Report schedule' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  async getSchedule(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.reportsService.getSchedule(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create a report schedule
+   */
+  @Post('schedules')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create report schedule',
+    description: 'Reports are emailed through the SMTP server configured with SMTP_HOST',
+  })
+  @ApiBody({ schema: SCHEDULE_BODY_SCHEMA })
+  @ApiResponse({ status: 201, description: 'Schedule created' })
+  @ApiResponse({ status: 400, description: 'Invalid schedule' })
+  async createSchedule(@Body() body: ReportScheduleInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.reportsService.createSchedule(body || ({} as ReportScheduleInput)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to create report schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a report schedule
+   */
+  @Put('schedules/:id')
+  @RequireRole('admin')
+  @ApiOperation({ summary: 'Update report schedule', description: 'Omitted fields keep their value' })
+  @ApiParam({ name: 'id', description: 'Schedule id' })
+  @ApiBody({ schema: { ...SCHEDULE_BODY_SCHEMA, required: [] } })
+  @ApiResponse({ status: 200, description: 'Schedule updated' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  async updateSchedule(@Param('id') id: string, @Body() body: Partial<ReportScheduleInput>): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.reportsService.updateSchedule(id, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update report schedule ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a report schedule
+   */
+  @Delete('schedules/:id')
+  @RequireRole('admin')
+  @ApiOperation({ summary: 'Delete report schedule', description: 'Reports it generated stay in the history' })
+  @ApiParam({ name: 'id', description: 'Schedule id' })
+  @ApiResponse({ status: 200, description: 'Schedule deleted' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  async deleteSchedule(@Param('id') id: string): Promise<any> {
+    this.reportsService.deleteSchedule(id);
+
+    return {
+      status: 'success',
+      message: 'Report schedule deleted',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Run a report schedule now
+   */
+  @Post('schedules/:id/run')
+  @RequireRole('admin')
+  @ApiOperation({
+    summary: 'Run report schedule now',
+    description: 'Generates the report, emails it to the recipients and returns it, including any delivery error',
+  })
+  @ApiParam({ name: 'id', description: 'Schedule id' })
+  @ApiResponse({ status: 201, description: 'Generated report' })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  async runSchedule(@Param('id') id: string): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: await this.reportsService.runSchedule(id),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to run report schedule ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a report on request
+   */
+  @Post('generate')
+  @ApiOperation({
+    summary: 'Generate report',
+    description: 'Generates a report without emailing it; download it from the history',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['sections'],
+      properties: {
+        name: { type: 'string', default: 'Sales report' },
+        sections: SECTIONS_SCHEMA,
+        periodDays: PERIOD_DAYS_SCHEMA,
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Generated report' })
+  @ApiResponse({ status: 400, description: 'Invalid request' })
+  async generate(@Body() body: ReportRequest): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: await this.reportsService.generate(body || ({} as ReportRequest)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to generate report:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generated report history
+   */
+  @Get('history')
+  @ApiOperation({
+    summary: 'Report history',
+    description: 'Reports generated by schedules or on request, newest first',
+  })
+  @ApiQuery({ name: 'scheduleId', required: false, type: 'string' })
+  @ApiQuery({ name: 'limit', required: false, type: 'number', description: 'Default: 50' })
+  @ApiResponse({ status: 200, description: 'Generated reports' })
+  async listHistory(@Query('scheduleId') scheduleId?: string, @Query('limit') limit: string = '50'): Promise<any> {
+    try {
+      const limitNum = parseInt(limit, 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 1000) {
+        throw new BadRequestException('Limit must be between 1 and 1000');
+      }
+
+      return {
+        status: 'success',
+        data: this.reportsService.listHistory({ scheduleId, limit: limitNum }),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to list report history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a generated report
+   */
+  @Get('history/:id')
+  @ApiOperation({ summary: 'Get generated report' })
+  @ApiParam({ name: 'id', description: 'Report id' })
+  @ApiResponse({ status: 200, description: 'Generated report' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async getHistory(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.reportsService.getHistory(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Download a generated report
+   */
+  @Get('history/:id/download')
+  @ApiOperation({ summary: 'Download generated report', description: 'The report as rendered when it was generated' })
+  @ApiProduces('application/pdf', 'text/html')
+  @ApiParam({ name: 'id', description: 'Report id' })
+  @ApiQuery({ name: 'format', required: false, enum: [...REPORT_FORMATS], description: 'Default: pdf' })
+  @ApiResponse({ status: 200, description: 'Report document' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async download(
+    @Res({ passthrough: true }) res: Response,
+    @Param('id') id: string,
+    @Query('format') format: string = 'pdf',
+  ): Promise<StreamableFile> {
+    try {
+      if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+        throw new BadRequestException(`Invalid format. Valid: ${REPORT_FORMATS.join(', ')}`);
+      }
+
+      const { fileName, content } = this.reportsService.getDocument(id, format as ReportFormat);
+      res.setHeader('Content-Type', format === 'pdf' ? 'application/pdf' : 'text/html; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      return new StreamableFile(Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8'));
+    } catch (error) {
+      this.logger.error(`Failed to download report ${id}:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBody,
+  ApiSecurity,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { SalesRepsService } from '../../sales-reps/sales-reps.service';
+import { RepAttributionService } from '../../sales-reps/rep-attribution.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { SalesRepInput, CustomerAssignmentInput } from '@interfaces/sales-rep.interface';
+
+const REP_BODY_SCHEMA = {
+  type: 'object',
+  required: ['id', 'displayName'],
+  properties: {
+    id: { type: 'string', example: 'jane_doe', description: 'Slug used in rep tags and rep targets' },
+    displayName: { type: 'string', example: 'Jane Doe' },
+    email: { type: 'string' },
+    team: { type: 'string' },
+    region: { type: 'string' },
+    startDate: { type: 'string', example: '2024-03-01' },
+    staffMemberId: { type: 'string', description: 'Shopify staff member id credited by the staff_member rule' },
+    discountCodes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Codes credited by the discount_code rule',
+    },
+    active: { type: 'boolean' },
+  },
+};
+
+@ApiTags('Sales Reps')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
+@Controller('sales-reps')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('admin')
+export class SalesRepsController {
+  private readonly logger = new Logger(SalesRepsController.name);
+
+  constructor(
+    private readonly salesRepsService: SalesRepsService,
+    private readonly repAttributionService: RepAttributionService,
+  ) {}
+
+  /**
+   * List sales reps
+   */
+  @Get()
+  @RequireRole('analyst')
+  @ApiOperation({ summary: 'List sales reps', description: 'Returns the sales rep directory' })
+  @ApiQuery({ name: 'active', required: false, type: 'boolean' })
+  @ApiQuery({ name: 'team', required: false, type: 'string' })
+  @ApiQuery({ name: 'region', required: false, type: 'string' })
+  @ApiResponse({ status: 200, description: 'Sales reps' })
+  async listReps(
+    @Query('active') active?: string,
+    @Query('team') team?: string,
+    @Query('region') region?: string,
+  ): Promise<any> {
+    if (active !== undefined && !['true', 'false'].includes(active)) {
+      throw new BadRequestException('active must be true or false');
+    }
+
+    return {
+      status: 'success',
+      data: this.salesRepsService.listReps({
+        active: active === undefined ? undefined : active === 'true',
+        team,
+        region,
+      }),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get attribution rule settings
+   */
+  @Get('attribution-rules')
+  @RequireRole('analyst')
+  @ApiOperation({
+    summary: 'Get sales rep attribution rules',
+    description:
+      'Returns the attribution rules in the order they are tried (SALES_REP_ATTRIBUTION_RULES). The first rule that matches an order wins.',
+  })
+  @ApiResponse({ status: 200, description: 'Attribution rules' })
+  async getAttributionRules(): Promise<any> {
+    return {
+      status: 'success',
+      data: this.repAttributionService.getSettings(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * List customer assignments
+   */
+  @Get('assignments')
+  @RequireRole('analyst')
+  @ApiOperation({ summary: 'List customer assignments', description: 'Returns the reps assigned to customer accounts' })
+  @ApiQuery({ name: 'customerId', required: false, type: 'string', description: 'Customer GID or numeric id' })
+  @ApiQuery({ name: 'repId', required: false, type: 'string' })
+  @ApiResponse({ status: 200, description: 'Customer assignments' })
+  async listAssignments(@Query('customerId') customerId?: string, @Query('repId') repId?: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.salesRepsService.listAssignments({ customerId, repId }),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Assign reps to a customer
+   */
+  @Put('assignments')
+  @ApiOperation({
+    summary: 'Assign reps to a customer',
+    description:
+      'Replaces the reps assigned to a customer. Shared accounts list several reps with percentage shares adding up to 100; reps without a share split the remainder evenly. An empty list removes the assignment.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['customerId', 'reps'],
+      properties: {
+        customerId: { type: 'string', example: 'gid://shopify/Customer/123' },
+        reps: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['repId'],
+            properties: { repId: { type: 'string' }, share: { type: 'number', example: 50 } },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Customer assignments' })
+  @ApiResponse({ status: 400, description: 'Invalid assignment' })
+  async assignCustomer(@Body() body: CustomerAssignmentInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.salesRepsService.assignCustomer(body),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to assign customer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a sales rep
+   */
+  @Get(':id')
+  @RequireRole('analyst')
+  @ApiOperation({ summary: 'Get sales rep' })
+  @ApiParam({ name: 'id', description: 'Rep id' })
+  @ApiResponse({ status: 200, description: 'Sales rep with assigned customers' })
+  @ApiResponse({ status: 404, description: 'Rep not found' })
+  async getRep(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: {
+        ...this.salesRepsService.getRep(id),
+        assignments: this.salesRepsService.listAssignments({ repId: id }),
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create or replace a sales rep
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create sales rep',
+    description: 'Creates a rep, replacing any existing rep with the same id',
+  })
+  @ApiBody({ schema: REP_BODY_SCHEMA })
+  @ApiResponse({ status: 201, description: 'Rep saved' })
+  @ApiResponse({ status: 400, description: 'Invalid rep' })
+  async createRep(@Body() body: SalesRepInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.salesRepsService.saveRep(body || ({} as SalesRepInput)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to create sales rep:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a sales rep
+   */
+  @Put(':id')
+  @ApiOperation({ summary: 'Update sales rep' })
+  @ApiParam({ name: 'id', description: 'Rep id' })
+  @ApiBody({ schema: { ...REP_BODY_SCHEMA, required: [] } })
+  @ApiResponse({ status: 200, description: 'Rep updated' })
+  @ApiResponse({ status: 404, description: 'Rep not found' })
+  async updateRep(@Param('id') id: string, @Body() body: Partial<SalesRepInput>): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.salesRepsService.updateRep(id, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update sales rep ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a sales rep
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete sales rep', description: 'Deletes a rep and its customer assignments' })
+  @ApiParam({ name: 'id', description: 'Rep id' })
+  @ApiResponse({ status: 200, description: 'Rep deleted' })
+  @ApiResponse({ status: 404, description: 'Rep not found' })
+  async deleteRep(@Param('id') id: string): Promise<any> {
+    this.salesRepsService.deleteRep(id);
+
+    return {
+      status: 'success',
+      message: 'Sales rep deleted',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiSecurity, ApiBearerAuth } from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { StoreRegistryService } from '../../stores/store-registry.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+
+@ApiTags('Stores')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@Controller('stores')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('viewer')
+export class StoresController {
+  constructor(private readonly storeRegistry: StoreRegistryService) {}
+
+  /**
+   * List registered stores
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List stores',
+    description: 'Returns the stores this instance serves. Pass a store id in X-Store-Id to scope other routes to it.',
+  })
+  @ApiResponse({ status: 200, description: 'Registered stores' })
+  async listStores(): Promise<any> {
+    return {
+      status: 'success',
+      data: this.storeRegistry.getStores().map(store => this.storeRegistry.toSummary(store)),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get a registered store
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get store' })
+  @ApiParam({ name: 'id', description: 'Store id' })
+  @ApiResponse({ status: 200, description: 'Store details (credentials are never returned)' })
+  @ApiResponse({ status: 404, description: 'Store not registered' })
+  async getStore(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.storeRegistry.toSummary(this.storeRegistry.getStore(id)),
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -7,31 +7,49 @@ import {
   UseGuards,
   Logger,
   Query,
+  BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiSecurity, ApiBearerAuth } from '@nestjs/swagger';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { ShopifySchedulerService } from '../../scheduler/shopify-scheduler.service';
 import { DataCleanupService } from '../../scheduler/data-cleanup.service';
+import { BackfillService } from '../../scheduler/backfill.service';
 import { AnalyticsService } from '../../analytics/analytics.service';
 import { RedisService } from '../../redis/redis.service';
+import { AlertsService } from '../../alerts/alerts.service';
+import { ShopifyIncrementalSyncService } from '../../shopify/shopify-incremental-sync.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { BackfillResource } from '@interfaces/shopify.interface';
+import { ALERT_SEVERITIES } from '@interfaces/alert.interface';
 
 @ApiTags('System')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
 @Controller('system')
-@UseGuards(ThrottlerGuard)
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('admin')
 export class SystemController {
   private readonly logger = new Logger(SystemController.name);
 
   constructor(
     private readonly shopifySchedulerService: ShopifySchedulerService,
     private readonly dataCleanupService: DataCleanupService,
+    private readonly backfillService: BackfillService,
     private readonly analyticsService: AnalyticsService,
     private readonly redisService: RedisService,
+    private readonly incrementalSyncService: ShopifyIncrementalSyncService,
+    private readonly alertsService: AlertsService,
   ) {}
 
   /**
    * Get system status
    */
   @Get('status')
+  @RequireRole('analyst')
   @ApiOperation({
     summary: 'Get system status',
     description: 'Returns overall system status including sync health and performance metrics',
@@ -83,9 +101,10 @@ export class SystemController {
    * Get sync statistics
    */
   @Get('sync/stats')
+  @RequireRole('analyst')
   @ApiOperation({
     summary: 'Get sync statistics',
-    description: 'Returns detailed synchronization statistics and metrics',
+    description: 'Returns detailed synchronization statistics, metrics and per-resource watermarks',
   })
   @ApiResponse({
     status: 200,
@@ -98,6 +117,7 @@ export class SystemController {
       const syncStatus = await this.shopifySchedulerService.getSyncStatus();
       const aggregatedMetrics = await this.redisService.get('sync:metrics:aggregated');
       const lastError = await this.redisService.get('sync:last_error');
+      const watermarks = this.incrementalSyncService.getSyncState();
 
       return {
         status: 'success',
@@ -105,6 +125,7 @@ export class SystemController {
           current: syncStatus,
           aggregated: aggregatedMetrics,
           lastError,
+          watermarks,
           performance: {
             averageDuration: (aggregatedMetrics as any)?.averageDuration || 0,
             successRate: (aggregatedMetrics as any)?.totalSyncs > 0 ? 
@@ -183,10 +204,112 @@ export class SystemController {
     }
   }
 
+  /**
+   * Start a historical backfill using Shopify bulk operations
+   */
+  @Post('backfill')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Start historical backfill',
+    description: 'Exports the full order, product and customer history through Shopify Bulk Operations. Runs in the background; poll GET /system/backfill for progress.',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Backfill started',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A backfill is already running',
+  })
+  @ApiQuery({
+    name: 'resources',
+    required: false,
+    type: 'string',
+    description: 'Comma-separated resources to backfill: orders, products, customers (default: all)',
+  })
+  @ApiQuery({
+    name: 'createdAtMin',
+    required: false,
+    type: 'string',
+    description: 'Only backfill orders created on or after this date (ISO format)',
+  })
+  async startBackfill(
+    @Query('resources') resources?: string,
+    @Query('createdAtMin') createdAtMin?: string,
+  ): Promise<any> {
+    try {
+      this.logger.log(`Backfill requested (resources: ${resources || 'all'})`);
+
+      const validResources: BackfillResource[] = ['orders', 'products', 'customers'];
+      const requested = resources
+        ? resources.split(',').map(resource => resource.trim()) as BackfillResource[]
+        : [];
+
+      const invalid = requested.filter(resource => !validResources.includes(resource));
+      if (invalid.length > 0) {
+        throw new BadRequestException(`Invalid resources: ${invalid.join(', ')}. Valid: ${validResources.join(', ')}`);
+      }
+
+      if (createdAtMin && isNaN(new Date(createdAtMin).getTime())) {
+        throw new BadRequestException('Invalid createdAtMin date format. Use ISO format (YYYY-MM-DD)');
+      }
+
+      if (this.backfillService.isRunning()) {
+        throw new ConflictException('A backfill is already running');
+      }
+
+      const progress = await this.backfillService.startBackfill({
+        resources: requested,
+        createdAtMin: createdAtMin ? new Date(createdAtMin).toISOString() : undefined,
+      });
+
+      return {
+        status: 'success',
+        message: 'Backfill started',
+        data: progress,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to start backfill:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get backfill progress
+   */
+  @Get('backfill')
+  @RequireRole('analyst')
+  @ApiOperation({
+    summary: 'Get backfill progress',
+    description: 'Returns per-resource progress of the current or most recent backfill',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Backfill progress data',
+  })
+  async getBackfillProgress(): Promise<any> {
+    try {
+      this.logger.debug('Backfill progress requested');
+
+      const progress = await this.backfillService.getProgress();
+
+      return {
+        status: 'success',
+        data: progress,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to get backfill progress:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get cleanup statistics
    */
   @Get('cleanup/stats')
+  @RequireRole('analyst')
   @ApiOperation({
     summary: 'Get cleanup statistics',
     description: 'Returns data cleanup statistics and schedule information',
@@ -287,6 +410,7 @@ export class SystemController {
    * Get cache information
    */
   @Get('cache/info')
+  @RequireRole('analyst')
   @ApiOperation({
     summary: 'Get cache information',
     description: 'Returns detailed cache usage and performance information',
@@ -369,9 +493,10 @@ export class SystemController {
    * Get system alerts
    */
   @Get('alerts')
+  @RequireRole('analyst')
   @ApiOperation({
     summary: 'Get system alerts',
-    description: 'Returns current system alerts and warnings',
+    description: 'Returns unresolved alerts raised by the alert rules, plus failed data validation checks',
   })
   @ApiResponse({
     status: 200,
@@ -381,16 +506,8 @@ export class SystemController {
     try {
       this.logger.debug('System alerts requested');
       
-      const [inventoryAlerts, systemAlerts, performanceAlerts, validationResults] = await Promise.all([
-        this.redisService.get('alerts:inventory'),
-        this.redisService.get('alerts:system'),
-        this.redisService.get('alerts:performance'),
-        this.redisService.get('system:validation_results'),
-      ]);
-
-      const inventoryAlertsArray = (inventoryAlerts as any[]) || [];
-      const systemAlertsArray = (systemAlerts as any[]) || [];
-      const performanceAlertsArray = (performanceAlerts as any[]) || [];
+      const alerts = this.alertsService.listAlerts({ status: 'active' });
+      const validationResults = await this.redisService.get('system:validation_results');
 
       // Add validation failures as alerts
       const validationAlerts = [];
@@ -400,20 +517,18 @@ export class SystemController {
           .forEach(result => {
             validationAlerts.push({
               type: 'VALIDATION_FAILURE',
+              category: 'system',
               severity: 'HIGH',
               message: result.message,
               check: result.check,
-              timestamp: (validationResults as any).timestamp,
+              lastTriggeredAt: (validationResults as any).timestamp,
             });
           });
       }
 
-      const allAlerts = [
-        ...inventoryAlertsArray,
-        ...systemAlertsArray,
-        ...performanceAlertsArray,
-        ...validationAlerts,
-      ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+      const allAlerts = [...alerts, ...validationAlerts].sort(
+        (a, b) => ALERT_SEVERITIES.indexOf(a.severity) - ALERT_SEVERITIES.indexOf(b.severity),
+      );
 
       const alertSummary = {
         total: allAlerts.length,
@@ -422,9 +537,10 @@ export class SystemController {
         medium: allAlerts.filter(a => a.severity === 'MEDIUM').length,
         low: allAlerts.filter(a => a.severity === 'LOW').length,
         byType: {
-          inventory: inventoryAlertsArray.length,
-          system: systemAlertsArray.length,
-          performance: performanceAlertsArray.length,
+          inventory: alerts.filter(a => a.category === 'inventory').length,
+          sales: alerts.filter(a => a.category === 'sales').length,
+          system: alerts.filter(a => a.category === 'system').length,
+          anomaly: alerts.filter(a => a.category === 'anomaly').length,
           validation: validationAlerts.length,
         },
       };
@@ -433,7 +549,7 @@ export class SystemController {
         status: 'success',
         data: {
           summary: alertSummary,
-          alerts: allAlerts.slice(0, 50), // Most recent 50 alerts
+          alerts: allAlerts.slice(0, 50), // Most severe 50 alerts
         },
         timestamp: new Date().toISOString(),
       };
@@ -482,6 +598,7 @@ export class SystemController {
           apiVersion: process.env.SHOPIFY_API_VERSION || '2025-04',
           shopDomain: process.env.SHOPIFY_SHOP_DOMAIN ? '***configured***' : 'not configured',
           accessToken: process.env.SHOPIFY_ACCESS_TOKEN ? '***configured***' : 'not configured',
+          storesFile: process.env.SHOPIFY_STORES_FILE || 'not configured',
         },
         performance: {
           maxConcurrentRequests: process.env.MAX_CONCURRENT_SHOPIFY_REQUESTS || 5,
@@ -0,0 +1,230 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBody,
+  ApiConsumes,
+  ApiSecurity,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { TargetsService } from '../../targets/targets.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+import { ApiStoreHeader } from '../../stores/store-header.decorator';
+import { TARGET_SCOPES, SalesTargetInput, TargetScope, TargetPeriodType } from '@interfaces/target.interface';
+
+const TARGET_BODY_SCHEMA = {
+  type: 'object',
+  required: ['scope', 'period', 'amount'],
+  properties: {
+    scope: { type: 'string', enum: [...TARGET_SCOPES] },
+    scopeValue: { type: 'string', description: 'Rep id, product type or channel. Omit for company targets.' },
+    period: { type: 'string', example: '2025-Q3', description: 'YYYY-MM, YYYY-Qn or YYYY' },
+    amount: {
+      type: 'string',
+      example: '150000.00',
+      description: 'Decimal amount in the shop currency, without more decimals than the currency has',
+    },
+    notes: { type: 'string' },
+  },
+};
+
+@ApiTags('Targets')
+@ApiSecurity('api-key')
+@ApiBearerAuth('jwt')
+@ApiStoreHeader()
+@Controller('targets')
+@UseGuards(ThrottlerGuard, ApiAuthGuard)
+@RequireRole('admin')
+export class TargetsController {
+  private readonly logger = new Logger(TargetsController.name);
+
+  constructor(private readonly targetsService: TargetsService) {}
+
+  /**
+   * List sales targets
+   */
+  @Get()
+  @RequireRole('analyst')
+  @ApiOperation({
+    summary: 'List sales targets',
+    description: 'Returns company, rep, product type and channel targets, optionally filtered',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sales targets',
+  })
+  @ApiQuery({ name: 'scope', required: false, enum: TARGET_SCOPES })
+  @ApiQuery({ name: 'scopeValue', required: false, type: 'string' })
+  @ApiQuery({ name: 'periodType', required: false, enum: ['month', 'quarter', 'year'] })
+  @ApiQuery({ name: 'from', required: false, type: 'string', description: 'Targets ending on or after (YYYY-MM-DD)' })
+  @ApiQuery({ name: 'to', required: false, type: 'string', description: 'Targets starting on or before (YYYY-MM-DD)' })
+  async listTargets(
+    @Query('scope') scope?: string,
+    @Query('scopeValue') scopeValue?: string,
+    @Query('periodType') periodType?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<any> {
+    try {
+      if (scope && !TARGET_SCOPES.includes(scope as TargetScope)) {
+        throw new BadRequestException(`Invalid scope. Valid: ${TARGET_SCOPES.join(', ')}`);
+      }
+
+      if (periodType && !['month', 'quarter', 'year'].includes(periodType)) {
+        throw new BadRequestException('Invalid periodType. Valid: month, quarter, year');
+      }
+
+      const targets = this.targetsService.listTargets({
+        scope: scope as TargetScope,
+        scopeValue: scope === 'company' ? '' : scopeValue,
+        periodType: periodType as TargetPeriodType,
+        from,
+        to,
+      });
+
+      return {
+        status: 'success',
+        data: targets,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to list targets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a sales target
+   */
+  @Get(':id')
+  @RequireRole('analyst')
+  @ApiOperation({ summary: 'Get sales target' })
+  @ApiParam({ name: 'id', description: 'Target id' })
+  @ApiResponse({ status: 200, description: 'Sales target' })
+  @ApiResponse({ status: 404, description: 'Target not found' })
+  async getTarget(@Param('id') id: string): Promise<any> {
+    return {
+      status: 'success',
+      data: this.targetsService.getTarget(id),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Create or replace a sales target
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create sales target',
+    description: 'Creates a target, replacing any existing target for the same scope, scope value and period',
+  })
+  @ApiBody({ schema: TARGET_BODY_SCHEMA })
+  @ApiResponse({ status: 201, description: 'Target saved' })
+  @ApiResponse({ status: 400, description: 'Invalid target' })
+  async createTarget(@Body() body: SalesTargetInput): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.targetsService.saveTarget(body || ({} as SalesTargetInput)),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to create target:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import sales targets from CSV
+   */
+  @Post('import')
+  @ApiOperation({
+    summary: 'Import sales targets from CSV',
+    description:
+      'Upserts targets from a text/csv body with header: scope,scope_value,period,amount,notes. Rows that fail validation are reported and skipped.',
+  })
+  @ApiConsumes('text/csv')
+  @ApiBody({
+    schema: {
+      type: 'string',
+      example: 'scope,scope_value,period,amount,notes\ncompany,,2025-Q4,450000,\nrep,jane_doe,2025-10,50000,',
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Import summary' })
+  async importTargets(@Body() csv: string): Promise<any> {
+    try {
+      if (typeof csv !== 'string' || csv.trim().length === 0) {
+        throw new BadRequestException('Send the CSV as the request body with Content-Type: text/csv');
+      }
+
+      return {
+        status: 'success',
+        data: this.targetsService.importCsv(csv),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to import targets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a sales target
+   */
+  @Put(':id')
+  @ApiOperation({ summary: 'Update sales target' })
+  @ApiParam({ name: 'id', description: 'Target id' })
+  @ApiBody({ schema: { ...TARGET_BODY_SCHEMA, required: [] } })
+  @ApiResponse({ status: 200, description: 'Target updated' })
+  @ApiResponse({ status: 404, description: 'Target not found' })
+  async updateTarget(@Param('id') id: string, @Body() body: Partial<SalesTargetInput>): Promise<any> {
+    try {
+      return {
+        status: 'success',
+        data: this.targetsService.updateTarget(id, body || {}),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update target ${id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a sales target
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete sales target' })
+  @ApiParam({ name: 'id', description: 'Target id' })
+  @ApiResponse({ status: 200, description: 'Target deleted' })
+  @ApiResponse({ status: 404, description: 'Target not found' })
+  async deleteTarget(@Param('id') id: string): Promise<any> {
+    this.targetsService.deleteTarget(id);
+
+    return {
+      status: 'success',
+      message: 'Target deleted',
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Headers,
+  Req,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Logger,
+  RawBodyRequest,
+  UnauthorizedException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader, ApiSecurity, ApiBearerAuth } from '@nestjs/swagger';
+import { ThrottlerGuard, SkipThrottle } from '@nestjs/throttler';
+import { Request } from 'express';
+import { WebhookService } from '../../webhooks/webhook.service';
+import { StoreContextService } from '../../stores/store-context.service';
+import { ApiAuthGuard } from '../../auth/api-auth.guard';
+import { RequireRole } from '../../auth/roles.decorator';
+
+@ApiTags('Webhooks')
+@Controller('webhooks')
+@UseGuards(ThrottlerGuard)
+export class WebhookController {
+  private readonly logger = new Logger(WebhookController.name);
+
+  constructor(
+    private readonly webhookService: WebhookService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Receive Shopify webhook deliveries
+   */
+  @Post('shopify')
+  @HttpCode(HttpStatus.OK)
+  @SkipThrottle()
+  @ApiOperation({
+    summary: 'Receive Shopify webhooks',
+    description:
+      'Ingests orders/create, orders/updated, orders/cancelled, products/update, inventory_levels/update and customers/update webhooks. The store is identified by X-Shopify-Shop-Domain. Deliveries are verified with X-Shopify-Hmac-Sha256 using the secret of that store, de-duplicated by X-Shopify-Webhook-Id and applied incrementally to the cached datasets.',
+  })
+  @ApiHeader({ name: 'X-Shopify-Topic', required: true })
+  @ApiHeader({ name: 'X-Shopify-Hmac-Sha256', required: true })
+  @ApiHeader({ name: 'X-Shopify-Webhook-Id', required: true })
+  @ApiHeader({
+    name: 'X-Shopify-Shop-Domain',
+    required: false,
+    description: 'Required when more than one store is registered',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook accepted (processed, duplicate or ignored)',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid webhook signature or unknown shop',
+  })
+  async receiveShopifyWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Body() payload: any,
+    @Headers('x-shopify-topic') topic: string,
+    @Headers('x-shopify-hmac-sha256') hmac: string,
+    @Headers('x-shopify-webhook-id') webhookId: string,
+    @Headers('x-shopify-shop-domain') shopDomain?: string,
+    @Headers('x-shopify-api-version') apiVersion?: string,
+  ): Promise<any> {
+    const store = this.webhookService.resolveStore(shopDomain);
+    if (!store) {
+      this.logger.warn(`Rejected webhook from unknown shop ${shopDomain} (topic: ${topic})`);
+      throw new UnauthorizedException('Unknown shop domain');
+    }
+
+    if (!this.webhookService.verifySignature(req.rawBody, hmac, store)) {
+      this.logger.warn(`Rejected webhook with invalid signature (topic: ${topic}, shop: ${shopDomain})`);
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    if (!topic || !webhookId) {
+      throw new BadRequestException('Missing X-Shopify-Topic or X-Shopify-Webhook-Id header');
+    }
+
+    try {
+      const result = await this.storeContext.run(store.id, () =>
+        this.webhookService.processWebhook({ topic, hmac, webhookId, shopDomain, apiVersion }, payload),
+      );
+
+      return {
+        status: 'success',
+        data: result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to handle webhook ${webhookId} (${topic}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get webhook ingestion statistics
+   */
+  @Get('stats')
+  @UseGuards(ApiAuthGuard)
+  @RequireRole('analyst')
+  @ApiSecurity('api-key')
+  @ApiBearerAuth('jwt')
+  @ApiOperation({
+    summary: 'Get webhook statistics',
+    description: 'Returns processed and duplicate delivery counts per webhook topic',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Webhook statistics data',
+  })
+  async getWebhookStats(): Promise<any> {
+    try {
+      const stats = await this.webhookService.getWebhookStats();
+
+      return {
+        status: 'success',
+        data: stats,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      this.logger.error('Failed to get webhook stats:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { BadRequestException } from '@nestjs/common';
+import * as moment from 'moment-timezone';
+
+export interface DateRangeQuery {
+  start: moment.Moment;
+  end: moment.Moment;
+}
+
+/**
+ * The period a route reports on from its optional startDate and endDate query parameters
+ * (YYYY-MM-DD, both inclusive) in a time zone. endDate defaults to now and startDate to
+ * defaultStart of the end, e.g. 30 days before it.
+ */
+export function resolveDateRangeQuery(
+  startDate: string | undefined,
+  endDate: string | undefined,
+  timeZone: string,
+  defaultStart: (end: moment.Moment) => moment.Moment,
+): DateRangeQuery {
+  const end = endDate ? moment.tz(endDate, 'YYYY-MM-DD', true, timeZone).endOf('day') : moment.tz(timeZone);
+  const start = startDate ? moment.tz(startDate, 'YYYY-MM-DD', true, timeZone) : defaultStart(end.clone());
+
+  if (!start.isValid() || !end.isValid()) {
+    throw new BadRequestException('Invalid date format. Use YYYY-MM-DD format.');
+  }
+  if (start.isAfter(end)) {
+    throw new BadRequestException('Start date must be before end date.');
+  }
+
+  return { start, end };
+}
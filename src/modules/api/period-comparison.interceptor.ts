@@ -0,0 +1,106 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, BadRequestException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import * as moment from 'moment';
+import { Observable, map, mergeMap } from 'rxjs';
+import { StoreContextService } from '../stores/store-context.service';
+import { compareMetrics, resolveComparisonPeriod } from '@shared/period-comparison';
+import { toZonedDateKey } from '@shared/time-zone';
+import { COMPARISON_TYPES, ComparisonPeriod, ComparisonType, PeriodComparison } from '@interfaces/comparison.interface';
+
+export const COMPARABLE_PERIOD_KEY = 'api:comparablePeriod';
+
+export interface ComparablePeriodOptions {
+  // Days before the end date the route's period starts when startDate is omitted; null when dates are required
+  defaultDays: number | null;
+  // Or the period starts at the beginning of the end date's year or month, e.g. year to date
+  defaultStartOf?: 'year' | 'month';
+  // Default lengths in days selected by the route's ?period=, e.g. { '7d': 7 }
+  periods?: Record<string, number>;
+}
+
+/**
+ * Runs a route a second time for the comparison period named by ?compare= and adds a
+ * comparison to its response: the comparison period's data and every metric found in both
+ * responses with its current and comparison values and their absolute and percent change
+ */
+@Injectable()
+export class PeriodComparisonInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+    const query = request.query || {};
+    if (!query.compare) {
+      return next.handle();
+    }
+
+    const type = query.compare as ComparisonType;
+    if (!COMPARISON_TYPES.includes(type)) {
+      throw new BadRequestException(`Invalid compare. Valid: ${COMPARISON_TYPES.join(', ')}`);
+    }
+
+    const options = this.reflector.get<ComparablePeriodOptions>(COMPARABLE_PERIOD_KEY, context.getHandler());
+    const current = this.resolveCurrentPeriod(query, options);
+    const previous = resolveComparisonPeriod(type, current, {
+      startDate: query.compareStartDate,
+      endDate: query.compareEndDate,
+    });
+    if (!this.isValidPeriod(previous)) {
+      throw new BadRequestException('compare=custom needs compareStartDate and compareEndDate in YYYY-MM-DD format');
+    }
+
+    // Both runs get explicit dates so they cover the periods reported
+    Object.assign(query, current);
+    return next.handle().pipe(
+      mergeMap(response => {
+        Object.assign(query, previous);
+
+        return next.handle().pipe(
+          map(comparisonResponse => {
+            Object.assign(query, current);
+            const comparison: PeriodComparison = {
+              type,
+              current,
+              previous,
+              data: comparisonResponse?.data,
+              metrics: compareMetrics(response?.data, comparisonResponse?.data) ?? {},
+            };
+            return { ...response, comparison };
+          }),
+        );
+      }),
+    );
+  }
+
+  private resolveCurrentPeriod(query: Record<string, any>, options: ComparablePeriodOptions): ComparisonPeriod {
+    if (options.defaultDays === null && !options.defaultStartOf && (!query.startDate || !query.endDate)) {
+      throw new BadRequestException('startDate and endDate are required to compare periods');
+    }
+
+    // Today in the time zone the route counts days in
+    const endDate = query.endDate || toZonedDateKey(new Date(), this.storeContext.getTimezone());
+    const end = moment.utc(endDate, 'YYYY-MM-DD', true);
+    const period = {
+      startDate:
+        query.startDate ||
+        (options.defaultStartOf
+          ? end.startOf(options.defaultStartOf)
+          : end.subtract(options.periods?.[query.period] ?? options.defaultDays, 'days')
+        ).format('YYYY-MM-DD'),
+      endDate,
+    };
+    if (!this.isValidPeriod(period)) {
+      throw new BadRequestException('Invalid date format. Use YYYY-MM-DD format, with startDate before endDate.');
+    }
+    return period;
+  }
+
+  private isValidPeriod(period: Partial<ComparisonPeriod>): boolean {
+    const start = moment.utc(period.startDate, 'YYYY-MM-DD', true);
+    const end = moment.utc(period.endDate, 'YYYY-MM-DD', true);
+    return start.isValid() && end.isValid() && !start.isAfter(end);
+  }
+}
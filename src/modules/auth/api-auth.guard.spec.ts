@@ -0,0 +1,88 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthPrincipal } from '@interfaces/auth.interface';
+import { AuthenticatedRequest, ApiAuthGuard } from './api-auth.guard';
+import { AuthService } from './auth.service';
+import { RequireRole } from './roles.decorator';
+
+class ReportsController {
+  @RequireRole('viewer')
+  read(): void {}
+
+  write(): void {}
+}
+RequireRole('admin')(ReportsController);
+
+describe('ApiAuthGuard', () => {
+  const principals: Record<string, AuthPrincipal> = {
+    'viewer-key': { id: 'viewer', name: 'Viewer', role: 'viewer', method: 'api_key' },
+    'analyst-key': { id: 'analyst', name: 'Analyst', role: 'analyst', method: 'api_key' },
+    'admin-key': { id: 'admin', name: 'Admin', role: 'admin', method: 'api_key' },
+  };
+
+  let enabled: boolean;
+  let guard: ApiAuthGuard;
+
+  const context = (handler: keyof ReportsController, request: Partial<AuthenticatedRequest>) =>
+    ({
+      getHandler: () => ReportsController.prototype[handler],
+      getClass: () => ReportsController,
+      switchToHttp: () => ({ getRequest: () => Object.assign(request, { headers: {}, query: {}, ...request }) }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    enabled = true;
+    const authService = {
+      isEnabled: () => enabled,
+      hasRole: AuthService.prototype.hasRole,
+      authenticateApiKey: (apiKey: string) => principals[apiKey] ?? null,
+      verifyToken: (token: string) =>
+        token === 'analyst-token' ? { ...principals['analyst-key'], method: 'jwt' } : null,
+    };
+    guard = new ApiAuthGuard(new Reflector(), authService as unknown as AuthService);
+  });
+
+  it('denies a lower role on a route requiring a higher one', () => {
+    const request = { headers: { 'x-api-key': 'analyst-key' } };
+
+    expect(() => guard.canActivate(context('write', request))).toThrow(ForbiddenException);
+  });
+
+  it('allows the required role and roles above it', () => {
+    const request: Partial<AuthenticatedRequest> = { headers: { 'x-api-key': 'admin-key' } };
+
+    expect(guard.canActivate(context('write', request))).toBe(true);
+    expect(request.principal).toMatchObject({ id: 'admin', role: 'admin' });
+  });
+
+  it('lets a method-level role override the controller role', () => {
+    expect(guard.canActivate(context('read', { headers: { 'x-api-key': 'viewer-key' } }))).toBe(true);
+  });
+
+  it('accepts bearer tokens from the header or the access_token parameter', () => {
+    const fromHeader = { headers: { authorization: 'Bearer analyst-token' } };
+    const fromQuery = { query: { access_token: 'analyst-token' } };
+
+    expect(guard.canActivate(context('read', fromHeader))).toBe(true);
+    expect(guard.canActivate(context('read', fromQuery as Partial<AuthenticatedRequest>))).toBe(true);
+    expect(() => guard.canActivate(context('write', fromHeader))).toThrow(ForbiddenException);
+  });
+
+  it('rejects requests without a valid credential', () => {
+    expect(() => guard.canActivate(context('read', {}))).toThrow(UnauthorizedException);
+    expect(() => guard.canActivate(context('read', { headers: { 'x-api-key': 'revoked-key' } }))).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => guard.canActivate(context('read', { headers: { authorization: 'Bearer expired' } }))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('lets every request through as admin when authentication is disabled', () => {
+    enabled = false;
+    const request: Partial<AuthenticatedRequest> = {};
+
+    expect(guard.canActivate(context('write', request))).toBe(true);
+    expect(request.principal).toMatchObject({ role: 'admin', method: 'disabled' });
+  });
+});
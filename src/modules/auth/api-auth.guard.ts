@@ -0,0 +1,67 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthService } from './auth.service';
+import { REQUIRED_ROLE_KEY } from './roles.decorator';
+import { AuthPrincipal, AuthRole } from '@interfaces/auth.interface';
+
+export interface AuthenticatedRequest extends Request {
+  principal?: AuthPrincipal;
+}
+
+/**
+ * Authenticates requests by X-API-Key header or JWT bearer token and enforces @RequireRole.
+ * Routes without a required role only need a valid credential. Bearer tokens may also be
+ * passed as the access_token query parameter, for clients such as EventSource that cannot set headers.
+ */
+@Injectable()
+export class ApiAuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const requiredRole = this.reflector.getAllAndOverride<AuthRole>(REQUIRED_ROLE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!this.authService.isEnabled()) {
+      request.principal = { id: 'anonymous', name: 'anonymous', role: 'admin', method: 'disabled' };
+      return true;
+    }
+
+    const principal = this.authenticate(request);
+    if (!principal) {
+      throw new UnauthorizedException('A valid API key or bearer token is required');
+    }
+
+    if (requiredRole && !this.authService.hasRole(principal.role, requiredRole)) {
+      throw new ForbiddenException(`This route requires the ${requiredRole} role`);
+    }
+
+    request.principal = principal;
+    return true;
+  }
+
+  private authenticate(request: Request): AuthPrincipal | null {
+    const apiKey = request.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey.length > 0) {
+      return this.authService.authenticateApiKey(apiKey);
+    }
+
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return this.authService.verifyToken(authorization.slice('Bearer '.length).trim());
+    }
+
+    const accessToken = request.query?.access_token;
+    if (typeof accessToken === 'string' && accessToken.length > 0) {
+      return this.authService.verifyToken(accessToken);
+    }
+
+    return null;
+  }
+}
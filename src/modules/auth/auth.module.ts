@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { StorageModule } from '../storage/storage.module';
+import { AuthService } from './auth.service';
+import { ApiAuthGuard } from './api-auth.guard';
+
+@Module({
+  imports: [ConfigModule, StorageModule],
+  providers: [AuthService, ApiAuthGuard],
+  exports: [AuthService, ApiAuthGuard],
+})
+export class AuthModule {}
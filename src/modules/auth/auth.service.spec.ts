@@ -0,0 +1,147 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac } from 'crypto';
+import { AuthPrincipal } from '@interfaces/auth.interface';
+import { ApiKeyRepository } from '../storage/api-key.repository';
+import { DatabaseService } from '../storage/database.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { AuthService } from './auth.service';
+
+const SECRET = 'test-jwt-secret';
+const STATIC_KEY = 'static-admin-key';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const sign = (input: string, secret: string = SECRET) => createHmac('sha256', secret).update(input).digest('base64url');
+
+/**
+ * Build a token by hand, signed with HMAC-SHA256 whatever alg the header names
+ */
+const token = (header: object, payload: object, secret?: string) => {
+  const unsigned = `${encode(header)}.${encode(payload)}`;
+  return `${unsigned}.${sign(unsigned, secret)}`;
+};
+
+describe('AuthService', () => {
+  const store = { id: 'main', databasePath: ':memory:' };
+  const analyst: AuthPrincipal = { id: 'key-1', name: 'Reporting', role: 'analyst', method: 'api_key' };
+
+  let databaseService: DatabaseService;
+  let service: AuthService;
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    const storeRegistry = { getStore: () => store, getStores: () => [store], getDefaultStore: () => store };
+    databaseService = new DatabaseService(
+      storeRegistry as unknown as StoreRegistryService,
+      new StoreContextService(storeRegistry as unknown as StoreRegistryService),
+    );
+    const config: Record<string, unknown> = {
+      'config.auth.enabled': true,
+      'config.auth.jwtSecret': SECRET,
+      'config.auth.jwtExpiresIn': 3600,
+      'config.auth.apiKeys': `ops:admin:${createHash('sha256').update(STATIC_KEY).digest('hex')}`,
+    };
+    service = new AuthService(
+      { get: (key: string, defaultValue?: unknown) => config[key] ?? defaultValue } as unknown as ConfigService,
+      new ApiKeyRepository(databaseService),
+    );
+  });
+
+  afterEach(() => {
+    databaseService.onModuleDestroy();
+  });
+
+  describe('API keys', () => {
+    it('authenticates a created key with its role', () => {
+      const created = service.createApiKey('Reporting', 'analyst');
+
+      expect(service.authenticateApiKey(created.apiKey)).toEqual({
+        id: created.id,
+        name: 'Reporting',
+        role: 'analyst',
+        method: 'api_key',
+      });
+    });
+
+    it('rejects a revoked key', () => {
+      const created = service.createApiKey('Reporting', 'analyst');
+
+      expect(service.revokeApiKey(created.id)).toBe(true);
+      expect(service.authenticateApiKey(created.apiKey)).toBeNull();
+      expect(service.revokeApiKey(created.id)).toBe(false);
+    });
+
+    it('rejects unknown keys', () => {
+      service.createApiKey('Reporting', 'analyst');
+
+      expect(service.authenticateApiKey('sak_unknown')).toBeNull();
+    });
+
+    it('authenticates configured keys by their hash', () => {
+      expect(service.authenticateApiKey(STATIC_KEY)).toMatchObject({ id: 'static:ops', role: 'admin' });
+    });
+  });
+
+  describe('JWT', () => {
+    it('verifies a token it issued', () => {
+      const issued = service.issueToken(analyst);
+
+      expect(issued).toMatchObject({ tokenType: 'Bearer', expiresIn: 3600, role: 'analyst' });
+      expect(service.verifyToken(issued.accessToken)).toEqual({ ...analyst, method: 'jwt' });
+    });
+
+    it('rejects an expired token', () => {
+      const expired = token({ alg: 'HS256', typ: 'JWT' }, { sub: 'key-1', role: 'analyst', exp: now() - 1 });
+
+      expect(service.verifyToken(expired)).toBeNull();
+    });
+
+    it('rejects a token whose payload was changed after signing', () => {
+      const [header, , signature] = service.issueToken(analyst).accessToken.split('.');
+      const escalated = encode({ sub: 'key-1', name: 'Reporting', role: 'admin', iat: now(), exp: now() + 3600 });
+
+      expect(service.verifyToken(`${header}.${escalated}.${signature}`)).toBeNull();
+    });
+
+    it('rejects a token signed with another secret', () => {
+      const forged = token({ alg: 'HS256', typ: 'JWT' }, { sub: 'key-1', role: 'admin', exp: now() + 60 }, 'other');
+
+      expect(service.verifyToken(forged)).toBeNull();
+    });
+
+    it('rejects algorithms other than HS256', () => {
+      const payload = { sub: 'key-1', role: 'analyst', exp: now() + 60 };
+      const unsigned = `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}`;
+
+      expect(service.verifyToken(token({ alg: 'HS512', typ: 'JWT' }, payload))).toBeNull();
+      expect(service.verifyToken(`${unsigned}.`)).toBeNull();
+      expect(service.verifyToken(`${unsigned}.${sign(unsigned)}`)).toBeNull();
+    });
+
+    it('rejects tokens with an unknown role or no expiry', () => {
+      expect(service.verifyToken(token({ alg: 'HS256' }, { sub: 'key-1', role: 'root', exp: now() + 60 }))).toBeNull();
+      expect(service.verifyToken(token({ alg: 'HS256' }, { sub: 'key-1', role: 'analyst' }))).toBeNull();
+    });
+
+    it('rejects malformed tokens', () => {
+      expect(service.verifyToken('not-a-token')).toBeNull();
+      expect(service.verifyToken('a.b.c')).toBeNull();
+    });
+  });
+
+  describe('hasRole', () => {
+    it('grants a role and the roles below it', () => {
+      expect(service.hasRole('admin', 'analyst')).toBe(true);
+      expect(service.hasRole('analyst', 'analyst')).toBe(true);
+      expect(service.hasRole('analyst', 'viewer')).toBe(true);
+      expect(service.hasRole('viewer', 'analyst')).toBe(false);
+      expect(service.hasRole('analyst', 'admin')).toBe(false);
+    });
+  });
+});
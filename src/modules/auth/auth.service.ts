@@ -0,0 +1,212 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { ApiKeyRepository } from '../storage/api-key.repository';
+import {
+  AUTH_ROLES,
+  AuthRole,
+  AuthPrincipal,
+  ApiKeyRecord,
+  CreatedApiKey,
+  JwtPayload,
+  IssuedToken,
+} from '@interfaces/auth.interface';
+
+interface StaticApiKey {
+  name: string;
+  role: AuthRole;
+  keyHash: string;
+}
+
+const API_KEY_PREFIX = 'sak_';
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly enabled: boolean;
+  private readonly jwtSecret: string | undefined;
+  private readonly jwtExpiresIn: number;
+  private readonly staticKeys: StaticApiKey[];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly apiKeyRepository: ApiKeyRepository,
+  ) {
+    this.enabled = this.configService.get<boolean>('config.auth.enabled', true);
+    this.jwtSecret = this.configService.get<string>('config.auth.jwtSecret');
+    this.jwtExpiresIn = this.configService.get<number>('config.auth.jwtExpiresIn', 3600);
+    this.staticKeys = this.parseStaticKeys(this.configService.get<string>('config.auth.apiKeys', ''));
+
+    if (!this.enabled) {
+      this.logger.warn('Authentication is disabled, all routes are open');
+    }
+  }
+
+  /**
+   * Whether requests must be authenticated
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Whether JWT bearer tokens can be issued and accepted
+   */
+  isJwtEnabled(): boolean {
+    return !!this.jwtSecret;
+  }
+
+  /**
+   * Check whether a role grants at least the required role
+   */
+  hasRole(role: AuthRole, required: AuthRole): boolean {
+    return AUTH_ROLES.indexOf(role) >= AUTH_ROLES.indexOf(required);
+  }
+
+  /**
+   * Hash an API key for storage or lookup
+   */
+  hashApiKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  /**
+   * Resolve an API key to a principal, or null if it is unknown or revoked
+   */
+  authenticateApiKey(apiKey: string): AuthPrincipal | null {
+    const keyHash = this.hashApiKey(apiKey);
+
+    const staticKey = this.staticKeys.find(key => this.safeEqual(key.keyHash, keyHash));
+    if (staticKey) {
+      return { id: `static:${staticKey.name}`, name: staticKey.name, role: staticKey.role, method: 'api_key' };
+    }
+
+    const record = this.apiKeyRepository.findActiveByHash(keyHash);
+    if (!record) return null;
+
+    this.apiKeyRepository.touch(record.id);
+    return { id: record.id, name: record.name, role: record.role, method: 'api_key' };
+  }
+
+  /**
+   * Create an API key. The plain key is only available in the returned value.
+   */
+  createApiKey(name: string, role: AuthRole): CreatedApiKey {
+    const apiKey = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const record = this.apiKeyRepository.create(
+      {
+        id: randomUUID(),
+        name,
+        keyPrefix: apiKey.slice(0, API_KEY_PREFIX.length + 6),
+        role,
+        createdAt: new Date().toISOString(),
+      },
+      this.hashApiKey(apiKey),
+    );
+
+    this.logger.log(`Created ${role} API key "${name}" (${record.id})`);
+    return { ...record, apiKey };
+  }
+
+  /**
+   * List stored API keys without their hashes
+   */
+  listApiKeys(): ApiKeyRecord[] {
+    return this.apiKeyRepository.findAll();
+  }
+
+  /**
+   * Revoke a stored API key
+   */
+  revokeApiKey(id: string): boolean {
+    const revoked = this.apiKeyRepository.revoke(id);
+    if (revoked) {
+      this.logger.log(`Revoked API key ${id}`);
+    }
+    return revoked;
+  }
+
+  /**
+   * Issue a signed HS256 token for an authenticated principal
+   */
+  issueToken(principal: AuthPrincipal): IssuedToken {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: JwtPayload = {
+      sub: principal.id,
+      name: principal.name,
+      role: principal.role,
+      iat: now,
+      exp: now + this.jwtExpiresIn,
+    };
+
+    const header = this.encodeSegment({ alg: 'HS256', typ: 'JWT' });
+    const body = this.encodeSegment(payload);
+
+    return {
+      accessToken: `${header}.${body}.${this.sign(`${header}.${body}`)}`,
+      tokenType: 'Bearer',
+      expiresIn: this.jwtExpiresIn,
+      role: principal.role,
+    };
+  }
+
+  /**
+   * Verify a bearer token, returning its principal or null if invalid or expired
+   */
+  verifyToken(token: string): AuthPrincipal | null {
+    if (!this.jwtSecret) return null;
+
+    const [header, body, signature] = token.split('.');
+    if (!header || !body || !signature) return null;
+
+    if (!this.safeEqual(this.sign(`${header}.${body}`), signature)) return null;
+
+    try {
+      const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+      if (alg !== 'HS256') return null;
+
+      const payload: JwtPayload = JSON.parse(Buffer.from(body, 'base64url').toString());
+      if (!payload.exp || payload.exp <= Math.floor(Date.now() / 1000)) return null;
+      if (!AUTH_ROLES.includes(payload.role)) return null;
+
+      return { id: payload.sub, name: payload.name, role: payload.role, method: 'jwt' };
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(input: string): string {
+    return createHmac('sha256', this.jwtSecret).update(input).digest('base64url');
+  }
+
+  private encodeSegment(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  /**
+   * Parse AUTH_API_KEYS entries of the form name:role:sha256hex
+   */
+  private parseStaticKeys(value: string): StaticApiKey[] {
+    const keys: StaticApiKey[] = [];
+    const entries = (value || '').split(',').map(item => item.trim());
+
+    for (const entry of entries.filter(Boolean)) {
+      const [name, role, keyHash] = entry.split(':');
+
+      if (!name || !AUTH_ROLES.includes(role as AuthRole) || !/^[a-f0-9]{64}$/i.test(keyHash || '')) {
+        this.logger.warn(`Ignoring malformed AUTH_API_KEYS entry "${name || entry}"`);
+        continue;
+      }
+
+      keys.push({ name, role: role as AuthRole, keyHash: keyHash.toLowerCase() });
+    }
+
+    return keys;
+  }
+}
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { AuthRole } from '@interfaces/auth.interface';
+
+export const REQUIRED_ROLE_KEY = 'auth:requiredRole';
+
+/**
+ * Minimum role needed to call a route. Method-level roles override the controller's.
+ */
+export const RequireRole = (role: AuthRole) => SetMetadata(REQUIRED_ROLE_KEY, role);
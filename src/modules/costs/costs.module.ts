@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { CostsService } from './costs.service';
+
+@Module({
+  imports: [StorageModule, CurrencyModule],
+  providers: [CostsService],
+  exports: [CostsService],
+})
+export class CostsModule {}
@@ -0,0 +1,188 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { CostOverrideRepository } from '../storage/cost-override.repository';
+import { ProductRepository } from '../storage/product.repository';
+import { CurrencyService } from '../currency/currency.service';
+import { Money } from '@shared/money';
+import { ProductVariant, ShopifyProduct } from '@interfaces/shopify.interface';
+import { CostOverride, CostOverrideInput, UnitCost, UnitCostLookup } from '@interfaces/cost.interface';
+
+@Injectable()
+export class CostsService {
+  private readonly logger = new Logger(CostsService.name);
+
+  constructor(
+    private readonly costOverrideRepository: CostOverrideRepository,
+    private readonly productRepository: ProductRepository,
+    private readonly currencyService: CurrencyService,
+  ) {}
+
+  /**
+   * List every cost override
+   */
+  listOverrides(): CostOverride[] {
+    return this.costOverrideRepository.findAll();
+  }
+
+  /**
+   * Get a cost override by id
+   */
+  getOverride(id: string): CostOverride {
+    const override = this.costOverrideRepository.findById(id);
+    if (!override) {
+      throw new NotFoundException(`Cost override ${id} not found`);
+    }
+    return override;
+  }
+
+  /**
+   * Create a cost override, replacing any existing override for the same variant or SKU
+   */
+  saveOverride(input: CostOverrideInput): CostOverride {
+    const saved = this.costOverrideRepository.upsert(this.buildOverride(input));
+
+    this.logger.log(
+      `Saved cost override for ${saved.variantId || `SKU ${saved.sku}`}: ${saved.unitCost} ${saved.currency}`,
+    );
+    return saved;
+  }
+
+  /**
+   * Update a cost override by id
+   */
+  updateOverride(id: string, input: Partial<CostOverrideInput>): CostOverride {
+    const existing = this.getOverride(id);
+    const keyChanged = input.variantId !== undefined || input.sku !== undefined;
+    const override = this.buildOverride(
+      {
+        variantId: keyChanged ? input.variantId : existing.variantId,
+        sku: keyChanged ? input.sku : existing.sku,
+        unitCost: input.unitCost ?? existing.unitCost,
+        currency: input.currency ?? existing.currency,
+        notes: input.notes !== undefined ? input.notes : existing.notes,
+      },
+      existing,
+    );
+
+    try {
+      return this.costOverrideRepository.update(override);
+    } catch (error) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new BadRequestException(
+          `A cost override for ${override.variantId || `SKU ${override.sku}`} already exists`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a cost override by id
+   */
+  deleteOverride(id: string): void {
+    if (!this.costOverrideRepository.delete(id)) {
+      throw new NotFoundException(`Cost override ${id} not found`);
+    }
+  }
+
+  /**
+   * Load the overrides once and return a lookup of unit costs in the shop currency.
+   * A variant override wins over a SKU override, which wins over the cost recorded in
+   * Shopify. Variants come from the given products, or from the analytics store.
+   */
+  createCostLookup(
+    products?: ShopifyProduct[],
+    shopCurrency: string = this.currencyService.getShopCurrency(),
+  ): UnitCostLookup {
+    const variants: ProductVariant[] = products
+      ? products.flatMap(product => (product.variants?.edges || []).map(edge => edge.node))
+      : this.productRepository.findVariants();
+
+    const shopifyCosts = new Map<string, Money>();
+    const skus = new Map<string, string>();
+    for (const variant of variants) {
+      if (variant.sku) skus.set(variant.id, variant.sku);
+      if (variant.inventoryItem?.unitCost?.amount) {
+        shopifyCosts.set(
+          variant.id,
+          this.toShopCurrency(
+            variant.inventoryItem.unitCost.amount,
+            variant.inventoryItem.unitCost.currencyCode,
+            shopCurrency,
+          ),
+        );
+      }
+    }
+
+    const variantOverrides = new Map<string, Money>();
+    const skuOverrides = new Map<string, Money>();
+    for (const override of this.costOverrideRepository.findAll()) {
+      const amount = this.toShopCurrency(override.unitCost, override.currency, shopCurrency);
+      if (override.variantId) {
+        variantOverrides.set(override.variantId, amount);
+      } else {
+        skuOverrides.set(override.sku.toLowerCase(), amount);
+      }
+    }
+
+    return {
+      getUnitCost: (variantId: string | undefined, sku?: string): UnitCost | null => {
+        const itemSku = (sku || skus.get(variantId) || '').toLowerCase();
+        const override = variantOverrides.get(variantId) || (itemSku ? skuOverrides.get(itemSku) : undefined);
+        if (override) {
+          return { amount: override, source: 'override' };
+        }
+
+        const recorded = variantId ? shopifyCosts.get(variantId) : undefined;
+        return recorded ? { amount: recorded, source: 'shopify' } : null;
+      },
+    };
+  }
+
+  private toShopCurrency(amount: string, currency: string, shopCurrency: string): Money {
+    const cost = Money.of(amount, currency || shopCurrency);
+    const converted = this.currencyService.convert(cost, shopCurrency);
+    if (!converted) {
+      throw new BadRequestException(`No exchange rate configured for ${cost.currency}`);
+    }
+    return converted;
+  }
+
+  private buildOverride(input: CostOverrideInput, existing?: CostOverride): CostOverride {
+    const variantId = input.variantId?.trim() || null;
+    const sku = input.sku?.trim() || null;
+    if (!variantId === !sku) {
+      throw new BadRequestException('Set exactly one of variantId and sku');
+    }
+    if (variantId && !variantId.startsWith('gid://shopify/ProductVariant/')) {
+      throw new BadRequestException('variantId must be a ProductVariant GID, e.g. gid://shopify/ProductVariant/123');
+    }
+
+    const currency = input.currency
+      ? this.currencyService.resolveCurrency(input.currency)
+      : this.currencyService.getShopCurrency();
+
+    let unitCost: Money;
+    try {
+      unitCost = Money.of(input.unitCost, currency);
+    } catch {
+      throw new BadRequestException(`Invalid unitCost "${input.unitCost}"`);
+    }
+    if (input.unitCost === undefined || input.unitCost === null || input.unitCost === '' || unitCost.isNegative()) {
+      throw new BadRequestException('unitCost must be a non-negative amount');
+    }
+
+    const now = new Date().toISOString();
+
+    return {
+      id: existing?.id || randomUUID(),
+      variantId,
+      sku,
+      unitCost: unitCost.toAmount(),
+      currency,
+      notes: input.notes || null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+  }
+}
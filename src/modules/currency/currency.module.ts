@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { CurrencyService } from './currency.service';
+import { StorageModule } from '../storage/storage.module';
+import { StoresModule } from '../stores/stores.module';
+
+@Module({
+  imports: [ConfigModule, StorageModule, StoresModule],
+  providers: [CurrencyService],
+  exports: [CurrencyService],
+})
+export class CurrencyModule {}
@@ -0,0 +1,515 @@
+import { Injectable, Logger, OnModuleInit, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import * as moment from 'moment';
+import { ExchangeRateRepository } from '../storage/exchange-rate.repository';
+import { StoreContextService } from '../stores/store-context.service';
+import { parseCsv } from '@shared/csv';
+import { Money } from '@shared/money';
+import {
+  ExchangeRate,
+  ExchangeRateFilters,
+  ExchangeRateImportResult,
+  ExchangeRateInput,
+  ExchangeRateSource,
+} from '@interfaces/currency.interface';
+import {
+  MoneyBag,
+  MoneyV2,
+  ShopifyCustomer,
+  ShopifyOrder,
+  ShopifyProduct,
+  Address,
+} from '@interfaces/shopify.interface';
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Converts amounts between currencies. Rates are expressed as reporting-currency
+ * units per unit of each currency and are looked up by date: the exchange_rates
+ * table (loaded from EXCHANGE_RATES_FILE and the rates API) is used first, then the
+ * undated EXCHANGE_RATES fallback.
+ */
+@Injectable()
+export class CurrencyService implements OnModuleInit {
+  private readonly logger = new Logger(CurrencyService.name);
+  private readonly reportingCurrency: string;
+  private readonly fallbackRates: Map<string, number>;
+  private readonly marketsByCountry: Map<string, string>;
+  // Dated rates per currency, oldest first
+  private ratesByCurrency = new Map<string, ExchangeRate[]>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly exchangeRateRepository: ExchangeRateRepository,
+    private readonly storeContext: StoreContextService,
+  ) {
+    this.reportingCurrency = this.configService.get<string>('config.currency.reportingCurrency', 'USD');
+    this.fallbackRates = this.parseFallbackRates(this.configService.get<string>('config.currency.exchangeRates', ''));
+    this.marketsByCountry = this.parseMarkets(this.configService.get<string>('config.currency.markets', ''));
+  }
+
+  onModuleInit(): void {
+    const ratesFile = this.configService.get<string>('config.currency.ratesFile');
+    if (ratesFile) {
+      this.loadRatesFile(ratesFile);
+    }
+    this.reloadRates();
+  }
+
+  /**
+   * Currency reports are converted to unless the request names another one
+   */
+  getReportingCurrency(): string {
+    return this.reportingCurrency;
+  }
+
+  /**
+   * Currency the current store's amounts (shopMoney) are in
+   */
+  getShopCurrency(orders: ShopifyOrder[] = []): string {
+    const orderCurrency = orders.find(order => order.totalPriceSet?.shopMoney?.currencyCode)?.totalPriceSet.shopMoney
+      .currencyCode;
+    return orderCurrency || this.storeContext.getStore().currency || this.reportingCurrency;
+  }
+
+  /**
+   * Validate a requested currency and check it can be converted to
+   */
+  resolveCurrency(currency: string): string {
+    const code = this.normalize(currency);
+    if (!CURRENCY_CODE_PATTERN.test(code)) {
+      throw new BadRequestException('currency must be a 3-letter ISO 4217 code, e.g. EUR');
+    }
+    if (!this.hasRate(code)) {
+      throw new BadRequestException(`No exchange rate configured for ${code}`);
+    }
+    return code;
+  }
+
+  /**
+   * Check whether amounts in a currency can be converted
+   */
+  hasRate(currency: string): boolean {
+    return this.getRate(currency) !== null;
+  }
+
+  /**
+   * Rate of a currency on a date: the latest dated rate on or before the date, else the
+   * earliest dated rate, else the undated fallback. Without a date the latest rate is used.
+   */
+  getRate(currency: string, date?: string | Date): number | null {
+    const code = this.normalize(currency);
+    if (code === this.reportingCurrency) {
+      return 1;
+    }
+
+    const history = this.ratesByCurrency.get(code);
+    if (history?.length) {
+      if (!date) {
+        return history[history.length - 1].rate;
+      }
+
+      const day = moment.utc(date).format('YYYY-MM-DD');
+      let low = 0;
+      let high = history.length - 1;
+      let match = 0;
+      while (low <= high) {
+        const middle = Math.floor((low + high) / 2);
+        if (history[middle].date <= day) {
+          match = middle;
+          low = middle + 1;
+        } else {
+          high = middle - 1;
+        }
+      }
+      return history[match].rate;
+    }
+
+    return this.fallbackRates.get(code) ?? null;
+  }
+
+  /**
+   * Convert an amount at the rates of a date, or return null when either currency has no rate
+   */
+  convert(amount: Money, to: string = this.reportingCurrency, date?: string | Date): Money | null {
+    if (amount.currency === this.normalize(to)) {
+      return amount;
+    }
+
+    const fromRate = this.getRate(amount.currency, date);
+    const toRate = this.getRate(to, date);
+    if (fromRate === null || toRate === null) {
+      return null;
+    }
+
+    return amount.convert(fromRate / toRate, to);
+  }
+
+  /**
+   * Copy orders with every shopMoney amount converted to a currency at the rate of the
+   * order date. Presentment amounts are left as the customer paid them.
+   * Returns the orders unchanged when no currency is requested.
+   */
+  convertOrders(orders: ShopifyOrder[], currency?: string): ShopifyOrder[] {
+    if (!currency) {
+      return orders;
+    }
+
+    const target = this.resolveCurrency(currency);
+    const missing = new Set<string>();
+    const bag = (moneyBag: MoneyBag | undefined, date: string) =>
+      moneyBag && { ...moneyBag, shopMoney: this.convertMoney(moneyBag.shopMoney, target, date, missing) };
+
+    const converted = orders.map(order => {
+      const date = order.processedAt || order.createdAt;
+
+      return {
+        ...order,
+        totalPriceSet: bag(order.totalPriceSet, date),
+        subtotalPriceSet: bag(order.subtotalPriceSet, date),
+        totalTaxSet: bag(order.totalTaxSet, date),
+        totalDiscountsSet: bag(order.totalDiscountsSet, date),
+        totalShippingPriceSet: bag(order.totalShippingPriceSet, date),
+        lineItems: order.lineItems && {
+          ...order.lineItems,
+          edges: (order.lineItems.edges || []).map(edge => ({
+            ...edge,
+            node: {
+              ...edge.node,
+              originalUnitPriceSet: bag(edge.node.originalUnitPriceSet, date),
+              discountedUnitPriceSet: bag(edge.node.discountedUnitPriceSet, date),
+              totalDiscountSet: bag(edge.node.totalDiscountSet, date),
+            },
+          })),
+        },
+        totalRefundedSet: bag(order.totalRefundedSet, date),
+        refunds: order.refunds?.map(refund => ({
+          ...refund,
+          totalRefundedSet: bag(refund.totalRefundedSet, date),
+          refundLineItems: refund.refundLineItems && {
+            ...refund.refundLineItems,
+            edges: (refund.refundLineItems.edges || []).map(edge => ({
+              ...edge,
+              node: {
+                ...edge.node,
+                priceSet: bag(edge.node.priceSet, date),
+                subtotalSet: bag(edge.node.subtotalSet, date),
+                totalTaxSet: bag(edge.node.totalTaxSet, date),
+              },
+            })),
+          },
+          transactions: refund.transactions && {
+            ...refund.transactions,
+            edges: (refund.transactions.edges || []).map(edge => ({
+              ...edge,
+              node: { ...edge.node, amountSet: bag(edge.node.amountSet, date) },
+            })),
+          },
+        })),
+        customer: order.customer && this.convertCustomer(order.customer, target, missing),
+      };
+    });
+
+    this.assertConverted(missing, target);
+    return converted;
+  }
+
+  /**
+   * Copy customers with their lifetime spend converted at the latest rates
+   */
+  convertCustomers(customers: ShopifyCustomer[], currency?: string): ShopifyCustomer[] {
+    if (!currency) {
+      return customers;
+    }
+
+    const target = this.resolveCurrency(currency);
+    const missing = new Set<string>();
+    const converted = customers.map(customer => this.convertCustomer(customer, target, missing));
+
+    this.assertConverted(missing, target);
+    return converted;
+  }
+
+  /**
+   * Copy products with variant prices and unit costs converted from the shop currency at the latest rates
+   */
+  convertProducts(
+    products: ShopifyProduct[],
+    currency?: string,
+    shopCurrency: string = this.getShopCurrency(),
+  ): ShopifyProduct[] {
+    if (!currency) {
+      return products;
+    }
+
+    const target = this.resolveCurrency(currency);
+    const missing = new Set<string>();
+    const price = (amount: string | undefined) =>
+      amount === undefined || amount === null
+        ? amount
+        : this.convertMoney({ amount, currencyCode: shopCurrency }, target, undefined, missing).amount;
+
+    const converted = products.map(product => ({
+      ...product,
+      variants: product.variants && {
+        ...product.variants,
+        edges: (product.variants.edges || []).map(edge => ({
+          ...edge,
+          node: {
+            ...edge.node,
+            price: price(edge.node.price),
+            compareAtPrice: price(edge.node.compareAtPrice),
+            inventoryItem: edge.node.inventoryItem?.unitCost
+              ? {
+                  ...edge.node.inventoryItem,
+                  unitCost: this.convertMoney(edge.node.inventoryItem.unitCost, target, undefined, missing),
+                }
+              : edge.node.inventoryItem,
+          },
+        })),
+      },
+    }));
+
+    this.assertConverted(missing, target);
+    return converted;
+  }
+
+  /**
+   * Market an order was sold in: the configured market of its shipping (else billing)
+   * country, or the country code itself
+   */
+  getMarket(order: ShopifyOrder): { market: string; country: string } {
+    const country = (
+      this.getCountryCode(order.shippingAddress) ||
+      this.getCountryCode(order.billingAddress) ||
+      ''
+    ).toUpperCase();
+    if (!country) {
+      return { market: 'Unknown', country: 'Unknown' };
+    }
+
+    return { market: this.marketsByCountry.get(country) || country, country };
+  }
+
+  /**
+   * List stored rates
+   */
+  listRates(filters: ExchangeRateFilters = {}): ExchangeRate[] {
+    return this.exchangeRateRepository.find({
+      ...filters,
+      currency: filters.currency ? this.normalize(filters.currency) : undefined,
+    });
+  }
+
+  /**
+   * Rate settings: the base currency, undated fallbacks and the currencies with dated rates
+   */
+  getSettings(): {
+    base: string;
+    fallbackRates: Record<string, number>;
+    datedCurrencies: Array<{ currency: string; rates: number; from: string; to: string }>;
+    markets: Record<string, string>;
+  } {
+    return {
+      base: this.reportingCurrency,
+      fallbackRates: Object.fromEntries(this.fallbackRates),
+      datedCurrencies: Array.from(this.ratesByCurrency.entries()).map(([currency, history]) => ({
+        currency,
+        rates: history.length,
+        from: history[0].date,
+        to: history[history.length - 1].date,
+      })),
+      markets: Object.fromEntries(this.marketsByCountry),
+    };
+  }
+
+  /**
+   * Save dated rates, replacing existing rates for the same currency and date
+   */
+  saveRates(inputs: ExchangeRateInput[], source: ExchangeRateSource = 'api'): ExchangeRate[] {
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      throw new BadRequestException('Send a non-empty array of { currency, date, rate }');
+    }
+
+    const now = new Date().toISOString();
+    const rates = inputs.map(input => ({ ...this.validateRate(input), source, updatedAt: now }));
+
+    this.exchangeRateRepository.upsertMany(rates);
+    this.reloadRates();
+    this.logger.log(`Saved ${rates.length} exchange rates`);
+
+    return rates;
+  }
+
+  /**
+   * Delete the rate of a currency on a date
+   */
+  deleteRate(currency: string, date: string): void {
+    if (!this.exchangeRateRepository.delete(this.normalize(currency), date)) {
+      throw new NotFoundException(`No ${this.normalize(currency)} rate dated ${date}`);
+    }
+    this.reloadRates();
+  }
+
+  /**
+   * Save rates from CSV with header date,currency,rate. Rows that fail validation are
+   * reported and skipped.
+   */
+  importCsv(csv: string, source: ExchangeRateSource = 'api'): ExchangeRateImportResult {
+    const rows = parseCsv(csv);
+    if (rows.length === 0) {
+      throw new BadRequestException('CSV is empty');
+    }
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    const missing = ['date', 'currency', 'rate'].filter(name => column(name) < 0);
+    if (missing.length > 0) {
+      throw new BadRequestException(`CSV header is missing: ${missing.join(', ')}`);
+    }
+
+    const result: ExchangeRateImportResult = { imported: 0, errors: [] };
+    const now = new Date().toISOString();
+    const rates: ExchangeRate[] = [];
+
+    rows.slice(1).forEach((row, index) => {
+      const value = (name: string) => (row[column(name)] || '').trim();
+
+      try {
+        const rate = this.validateRate({
+          date: value('date'),
+          currency: value('currency'),
+          rate: Number(value('rate')),
+        });
+        rates.push({ ...rate, source, updatedAt: now });
+      } catch (error) {
+        result.errors.push({ line: index + 2, message: error.message });
+      }
+    });
+
+    result.imported = this.exchangeRateRepository.upsertMany(rates);
+    this.reloadRates();
+    this.logger.log(`Imported ${result.imported} exchange rates with ${result.errors.length} errors`);
+
+    return result;
+  }
+
+  private loadRatesFile(path: string): void {
+    let csv: string;
+    try {
+      csv = readFileSync(path, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to read exchange rates file ${path}: ${error.message}`);
+    }
+
+    const result = this.importCsv(csv, 'file');
+    result.errors.forEach(error => this.logger.warn(`${path} line ${error.line}: ${error.message}`));
+  }
+
+  private reloadRates(): void {
+    const ratesByCurrency = new Map<string, ExchangeRate[]>();
+    for (const rate of this.exchangeRateRepository.find()) {
+      if (!ratesByCurrency.has(rate.currency)) ratesByCurrency.set(rate.currency, []);
+      ratesByCurrency.get(rate.currency).push(rate);
+    }
+    this.ratesByCurrency = ratesByCurrency;
+  }
+
+  private validateRate(input: ExchangeRateInput): ExchangeRateInput {
+    const currency = this.normalize(input?.currency);
+    if (!CURRENCY_CODE_PATTERN.test(currency)) {
+      throw new BadRequestException(`Invalid currency "${input?.currency ?? ''}": use a 3-letter ISO 4217 code`);
+    }
+    if (currency === this.reportingCurrency) {
+      throw new BadRequestException(`${currency} is the reporting currency; its rate is always 1`);
+    }
+    if (!input.date || !moment(input.date, 'YYYY-MM-DD', true).isValid()) {
+      throw new BadRequestException('date must be a date in YYYY-MM-DD format');
+    }
+    if (typeof input.rate !== 'number' || !isFinite(input.rate) || input.rate <= 0) {
+      throw new BadRequestException('rate must be a positive number');
+    }
+
+    return { currency, date: input.date, rate: input.rate };
+  }
+
+  private convertMoney(money: MoneyV2 | undefined, target: string, date: string | undefined, missing: Set<string>) {
+    if (!money) {
+      return money;
+    }
+
+    const amount = Money.fromMoneyV2(money, this.getShopCurrency());
+    const converted = this.convert(amount, target, date);
+    if (converted === null) {
+      missing.add(amount.currency);
+      return money;
+    }
+
+    return converted.toMoneyV2();
+  }
+
+  private convertCustomer(customer: ShopifyCustomer, target: string, missing: Set<string>): ShopifyCustomer {
+    return customer.amountSpent
+      ? { ...customer, amountSpent: this.convertMoney(customer.amountSpent, target, undefined, missing) }
+      : customer;
+  }
+
+  private assertConverted(missing: Set<string>, target: string): void {
+    if (missing.size > 0) {
+      throw new BadRequestException(
+        `No exchange rate to convert ${Array.from(missing).sort().join(', ')} to ${target}`,
+      );
+    }
+  }
+
+  private getCountryCode(address: Address | undefined): string | undefined {
+    return address?.countryCodeV2;
+  }
+
+  private normalize(currency: string | undefined): string {
+    return (currency || '').trim().toUpperCase();
+  }
+
+  private parseFallbackRates(value: string): Map<string, number> {
+    const rates = new Map<string, number>();
+    const entries = (value || '').split(',').map(item => item.trim());
+
+    for (const entry of entries.filter(Boolean)) {
+      const [code, rate] = entry.split(':').map(part => part.trim());
+      const currency = this.normalize(code);
+      const parsedRate = Number(rate);
+
+      if (!CURRENCY_CODE_PATTERN.test(currency) || !isFinite(parsedRate) || parsedRate <= 0) {
+        this.logger.warn(`Ignoring invalid exchange rate "${entry}"`);
+        continue;
+      }
+      rates.set(currency, parsedRate);
+    }
+
+    return rates;
+  }
+
+  /**
+   * Parse "EU:DE|FR|NL,UK:GB" into a country-to-market map
+   */
+  private parseMarkets(value: string): Map<string, string> {
+    const markets = new Map<string, string>();
+    const entries = (value || '').split(',').map(item => item.trim());
+
+    for (const entry of entries.filter(Boolean)) {
+      const [market, countries] = entry.split(':').map(part => part.trim());
+      if (!market || !countries) {
+        this.logger.warn(`Ignoring invalid market "${entry}"`);
+        continue;
+      }
+      countries
+        .split('|')
+        .map(country => country.trim().toUpperCase())
+        .filter(Boolean)
+        .forEach(country => markets.set(country, market));
+    }
+
+    return markets;
+  }
+}
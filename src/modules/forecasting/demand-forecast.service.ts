@@ -0,0 +1,244 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as moment from 'moment';
+import { OrderRepository } from '../storage/order.repository';
+import { ProductRepository } from '../storage/product.repository';
+import { ForecastingService } from './forecasting.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { ShopifyOrder, ShopifyProduct } from '@interfaces/shopify.interface';
+import {
+  DemandForecastReport,
+  ForecastGranularity,
+  ForecastOptions,
+  VariantDemandForecast,
+} from '@interfaces/forecast.interface';
+
+export interface DemandForecastFilters {
+  productId?: string;
+  sku?: string;
+  vendor?: string;
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  model: 'auto',
+  granularity: 'day',
+  horizon: 30,
+  confidence: 95,
+};
+
+// Season length and history used per granularity: a year of days, three years of weeks
+const GRANULARITY_SETTINGS: Record<ForecastGranularity, { seasonLength: number; historyPeriods: number }> = {
+  day: { seasonLength: 7, historyPeriods: 365 },
+  week: { seasonLength: 52, historyPeriods: 156 },
+};
+
+/**
+ * Per-variant demand forecasts built from the units sold in stored orders
+ */
+@Injectable()
+export class DemandForecastService {
+  private readonly logger = new Logger(DemandForecastService.name);
+
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly productRepository: ProductRepository,
+    private readonly forecastingService: ForecastingService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Forecast the demand of stored variants from the stored order history
+   */
+  getDemandForecast(
+    options: ForecastOptions = DEFAULT_FORECAST_OPTIONS,
+    filters: DemandForecastFilters = {},
+  ): DemandForecastReport {
+    const { start, end } = this.historyRange(options.granularity);
+    const orders = this.orderRepository.findByDateRange(start.toDate(), end.toDate(), { includeCancelled: false });
+    const products = this.productRepository
+      .findAll()
+      .filter(product => !filters.productId || product.id === filters.productId)
+      .filter(product => !filters.vendor || (product.vendor || '').toLowerCase() === filters.vendor.toLowerCase());
+
+    return this.forecastDemand(products, orders, options, filters.sku);
+  }
+
+  /**
+   * Forecast the demand of the variants of the given products that sold in the given orders.
+   * Demand is the units ordered less the units refunded, counted in the period the order was
+   * placed. The history ends with the last complete period and the forecast starts with the
+   * current one.
+   */
+  forecastDemand(
+    products: ShopifyProduct[],
+    orders: ShopifyOrder[],
+    options: ForecastOptions = DEFAULT_FORECAST_OPTIONS,
+    sku?: string,
+  ): DemandForecastReport {
+    const { seasonLength, historyPeriods } = GRANULARITY_SETTINGS[options.granularity];
+    const { start, end } = this.historyRange(options.granularity);
+    const demand = this.buildDemandSeries(orders, options.granularity, start, historyPeriods);
+    const periods = Array.from({ length: options.horizon }, (_, index) =>
+      end
+        .clone()
+        .add(index + 1, options.granularity)
+        .startOf(this.periodUnit(options.granularity))
+        .format('YYYY-MM-DD'),
+    );
+
+    this.logger.log(
+      `Forecasting ${options.horizon} ${options.granularity}s of demand for ${demand.size} variants with sales`,
+    );
+
+    const forecasts: VariantDemandForecast[] = [];
+    for (const product of products) {
+      for (const { node: variant } of product.variants?.edges || []) {
+        const series = demand.get(variant.id);
+        if (!series) continue;
+        if (sku && (variant.sku || '').toLowerCase() !== sku.toLowerCase()) continue;
+
+        // History starts with the variant's first sale so newer variants do not look intermittent
+        const history = series.slice(series.findIndex(value => value > 0));
+        const result = this.forecastingService.forecast(
+          history,
+          options.model,
+          seasonLength,
+          options.horizon,
+          options.confidence,
+        );
+
+        const currentStock = variant.inventoryQuantity || 0;
+        let cumulative = 0;
+        const stockoutIndex = result.expected.findIndex(value => (cumulative += value) > currentStock);
+
+        forecasts.push({
+          productId: product.id,
+          productTitle: product.title,
+          variantId: variant.id,
+          variantTitle: variant.title,
+          sku: variant.sku || null,
+          currentStock,
+          model: result.fit.model,
+          parameters: result.fit.parameters,
+          history: this.forecastingService.summarizeHistory(history),
+          forecast: periods.map((period, index) => ({
+            period,
+            expected: this.round(result.expected[index]),
+            lower: this.round(result.lower[index]),
+            upper: this.round(result.upper[index]),
+            stdDev: this.round(result.stdDev[index]),
+          })),
+          total: {
+            expected: this.round(result.total.expected),
+            lower: this.round(result.total.lower),
+            upper: this.round(result.total.upper),
+            stdDev: this.round(result.total.stdDev),
+          },
+          backtest: result.backtest,
+          projectedStockoutPeriod: stockoutIndex >= 0 ? periods[stockoutIndex] : null,
+          stockoutRisk: stockoutIndex >= 0,
+        });
+      }
+    }
+
+    forecasts.sort((a, b) => b.total.expected - a.total.expected);
+
+    return {
+      ...options,
+      history: {
+        start: start.format('YYYY-MM-DD'),
+        end: end.format('YYYY-MM-DD'),
+        periods: historyPeriods,
+      },
+      forecasts,
+      summary: this.summarize(forecasts),
+    };
+  }
+
+  /**
+   * Units sold per variant and period, oldest period first
+   */
+  private buildDemandSeries(
+    orders: ShopifyOrder[],
+    granularity: ForecastGranularity,
+    start: moment.Moment,
+    historyPeriods: number,
+  ): Map<string, number[]> {
+    const demand = new Map<string, number[]>();
+    const unit = this.periodUnit(granularity);
+
+    for (const order of orders) {
+      const index = this.storeContext
+        .moment(order.processedAt || order.createdAt)
+        .startOf(unit)
+        .diff(start, granularity === 'day' ? 'days' : 'weeks');
+      if (index < 0 || index >= historyPeriods) continue;
+
+      const refunded = new Map<string, number>();
+      for (const refund of order.refunds || []) {
+        for (const { node: line } of refund.refundLineItems?.edges || []) {
+          if (!line.lineItem?.id) continue;
+          refunded.set(line.lineItem.id, (refunded.get(line.lineItem.id) || 0) + (line.quantity || 0));
+        }
+      }
+
+      for (const { node: item } of order.lineItems?.edges || []) {
+        const variantId = item.variant?.id;
+        const units = (item.quantity || 0) - (refunded.get(item.id) || 0);
+        if (!variantId || units <= 0) continue;
+
+        if (!demand.has(variantId)) {
+          demand.set(variantId, new Array(historyPeriods).fill(0));
+        }
+        demand.get(variantId)[index] += units;
+      }
+    }
+
+    return demand;
+  }
+
+  /**
+   * Complete periods of history in the store's time zone, ending with the period before the current one
+   */
+  private historyRange(granularity: ForecastGranularity): { start: moment.Moment; end: moment.Moment } {
+    const unit = this.periodUnit(granularity);
+    const current = this.storeContext.moment().startOf(unit);
+
+    return {
+      start: current.clone().subtract(GRANULARITY_SETTINGS[granularity].historyPeriods, granularity),
+      end: current.clone().subtract(1, 'millisecond'),
+    };
+  }
+
+  private periodUnit(granularity: ForecastGranularity): moment.unitOfTime.StartOf {
+    return granularity === 'week' ? 'isoWeek' : 'day';
+  }
+
+  private summarize(forecasts: VariantDemandForecast[]): DemandForecastReport['summary'] {
+    const weightedAverage = (metric: 'mape' | 'wape') => {
+      const measured = forecasts.filter(forecast => forecast.backtest && forecast.backtest[metric] !== null);
+      const totalWeight = measured.reduce((sum, forecast) => sum + forecast.total.expected, 0);
+      const weightedSum = measured.reduce(
+        (sum, forecast) => sum + forecast.backtest[metric] * forecast.total.expected,
+        0,
+      );
+      return totalWeight > 0 ? this.round(weightedSum / totalWeight) : null;
+    };
+
+    const models: Record<string, number> = {};
+    for (const forecast of forecasts) {
+      models[forecast.model] = (models[forecast.model] || 0) + 1;
+    }
+
+    return {
+      variantsForecast: forecasts.length,
+      variantsAtRisk: forecasts.filter(forecast => forecast.stockoutRisk).length,
+      weightedMape: weightedAverage('mape'),
+      weightedWape: weightedAverage('wape'),
+      models,
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
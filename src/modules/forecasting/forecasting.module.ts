@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { StoresModule } from '../stores/stores.module';
+import { ForecastingService } from './forecasting.service';
+import { DemandForecastService } from './demand-forecast.service';
+
+@Module({
+  imports: [StorageModule, StoresModule],
+  providers: [ForecastingService, DemandForecastService],
+  exports: [ForecastingService, DemandForecastService],
+})
+export class ForecastingModule {}
@@ -0,0 +1,119 @@
+import { ForecastingService } from './forecasting.service';
+
+const repeat = (values: number[], times: number) => new Array(times).fill(values).flat();
+
+describe('ForecastingService', () => {
+  const service = new ForecastingService();
+
+  describe('Holt-Winters', () => {
+    // Three seasons of four periods around a mean of 25, with no trend or noise
+    const seasonal = repeat([10, 20, 30, 40], 3);
+
+    it('reproduces a noise-free seasonal pattern exactly', () => {
+      const fit = service.fit(seasonal, 'holt_winters', 4, 6);
+
+      expect(fit.model).toBe('holt_winters');
+      expect(fit.residualStdDev).toBe(0);
+      fit.forecast.forEach((value, index) => expect(value).toBeCloseTo([10, 20, 30, 40, 10, 20][index], 10));
+    });
+
+    it('falls back to Holt when the history is shorter than two seasons', () => {
+      const fit = service.fit(seasonal.slice(0, 7), 'holt_winters', 4, 2);
+
+      expect(fit.model).toBe('holt');
+      expect(fit.parameters).not.toHaveProperty('gamma');
+    });
+
+    it('falls back to simple smoothing when there is a single period', () => {
+      expect(service.fit([8], 'holt_winters', 4, 2)).toMatchObject({ model: 'ses', forecast: [8, 8] });
+    });
+
+    it('is chosen automatically for a seasonal series with two seasons of training history', () => {
+      const result = service.forecast(seasonal, 'auto', 4, 4, 95);
+
+      expect(result.fit.model).toBe('holt_winters');
+      expect(result.backtest).toEqual({ periods: 3, mape: 0, wape: 0 });
+      result.expected.forEach((value, index) => expect(value).toBeCloseTo([10, 20, 30, 40][index], 10));
+      // A perfect fit leaves no error to spread the interval
+      expect(result.lower).toEqual(result.expected);
+      expect(result.upper).toEqual(result.expected);
+      expect(result.total.expected).toBeCloseTo(100, 10);
+    });
+
+    it('is not a candidate when the history is shorter than two seasons', () => {
+      const result = service.forecast(seasonal.slice(0, 7), 'auto', 4, 2, 95);
+
+      expect(['holt', 'ses']).toContain(result.fit.model);
+    });
+  });
+
+  describe('Croston', () => {
+    // Four units every third period
+    const intermittent = repeat([0, 0, 4], 4);
+
+    it('summarizes the history as intermittent', () => {
+      expect(service.summarizeHistory(intermittent)).toEqual({
+        periods: 12,
+        totalUnits: 16,
+        averagePerPeriod: 1.33,
+        zeroDemandShare: 66.67,
+        averageDemandInterval: 3,
+      });
+    });
+
+    it('forecasts the bias-corrected ratio of demand size to interval', () => {
+      const fit = service.fit(intermittent, 'croston', 7, 3);
+
+      // The lowest alpha has the lowest error here: (1 - 0.05 / 2) * 4 / 3 = 1.3 per period
+      expect(fit.parameters).toEqual({ alpha: 0.05 });
+      fit.forecast.forEach(value => expect(value).toBeCloseTo(1.3, 10));
+    });
+
+    it('is chosen automatically for intermittent demand, where Holt is not a candidate', () => {
+      const result = service.forecast(intermittent, 'auto', 7, 3, 90);
+
+      // Holt would backtest slightly better (131.84) but does not suit intermittent demand
+      expect(result.fit.model).toBe('croston');
+      expect(result.backtest).toEqual({ periods: 3, mape: 67.5, wape: 132.5 });
+      expect(result.lower.every(value => value >= 0)).toBe(true);
+    });
+
+    it('forecasts nothing for a series without demand', () => {
+      expect(service.fit([0, 0, 0, 0], 'croston', 7, 2).forecast).toEqual([0, 0]);
+    });
+  });
+
+  describe('backtest', () => {
+    it('measures MAPE and WAPE on the held-out periods', () => {
+      // Trained on nine periods of 10, which simple smoothing forecasts as 10
+      const series = [...new Array(10).fill(10), 20, 0];
+
+      expect(service.backtest(series, 'ses', 7, 4)).toEqual({
+        periods: 3,
+        // Errors of 0, 10 and 10 against 30 units
+        wape: 66.67,
+        // 0% and 50% over the two periods with demand
+        mape: 25,
+      });
+    });
+
+    it('holds out the horizon, capped at a quarter of the history', () => {
+      expect(service.backtest(new Array(20).fill(5), 'ses', 7, 2)?.periods).toBe(2);
+      expect(service.backtest(new Array(20).fill(5), 'ses', 7, 10)?.periods).toBe(5);
+    });
+
+    it('reports no percentage errors when the holdout has no demand', () => {
+      expect(service.backtest([3, 3, 3, 3, 3, 0, 0, 0], 'ses', 7, 2)).toMatchObject({ mape: null, wape: null });
+    });
+
+    it('is skipped when the history is too short to hold anything out', () => {
+      expect(service.backtest([5, 5, 5], 'ses', 7, 4)).toBeNull();
+    });
+  });
+
+  describe('combineStdDev', () => {
+    it('adds independent period errors in quadrature', () => {
+      expect(service.combineStdDev([3, 4])).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,381 @@
+import { Injectable } from '@nestjs/common';
+import {
+  BacktestResult,
+  ConfidenceLevel,
+  DemandHistorySummary,
+  FittedModel,
+  ForecastModel,
+  ModelFit,
+} from '@interfaces/forecast.interface';
+
+// Two-sided normal quantiles for the supported interval levels
+const Z_SCORES: Record<ConfidenceLevel, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96 };
+
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7];
+const BETAS = [0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.3];
+const CROSTON_ALPHAS = [0.05, 0.1, 0.2, 0.3];
+
+// Trend damping keeps long horizons from extrapolating a short-lived trend
+const DAMPING = 0.98;
+
+// Average interval between demands above which a series counts as intermittent (Syntetos-Boylan)
+const INTERMITTENT_INTERVAL = 1.32;
+
+export interface SeriesForecast {
+  fit: ModelFit;
+  backtest: BacktestResult | null;
+  expected: number[];
+  lower: number[];
+  upper: number[];
+  // Standard deviation of the forecast error per period
+  stdDev: number[];
+  total: { expected: number; lower: number; upper: number; stdDev: number };
+}
+
+interface SmoothingRun {
+  forecast: number[];
+  errors: number[];
+}
+
+/**
+ * Statistical time series forecasting: exponential smoothing (simple, Holt and additive
+ * Holt-Winters) and Croston's method for intermittent demand, with prediction intervals
+ * and holdout backtests. Series are plain arrays of demand per period, oldest first.
+ */
+@Injectable()
+export class ForecastingService {
+  /**
+   * Forecast a series with the requested model. With auto, the candidate models for the
+   * series are backtested and the one with the lowest WAPE is used.
+   */
+  forecast(
+    series: number[],
+    model: ForecastModel,
+    seasonLength: number,
+    horizon: number,
+    confidence: ConfidenceLevel,
+  ): SeriesForecast {
+    const candidates = model === 'auto' ? this.candidateModels(series, seasonLength) : [model];
+
+    let chosen: { model: FittedModel; backtest: BacktestResult | null } | null = null;
+    for (const candidate of candidates) {
+      const fitted = this.resolveModel(candidate, series.length, seasonLength);
+      const backtest = this.backtest(series, fitted, seasonLength, horizon);
+
+      if (!chosen || (backtest?.wape ?? Infinity) < (chosen.backtest?.wape ?? Infinity)) {
+        chosen = { model: fitted, backtest };
+      }
+    }
+
+    const fit = this.fit(series, chosen.model, seasonLength, horizon);
+    const z = Z_SCORES[confidence];
+    const stdDev = this.forecastVariances(fit, horizon, seasonLength).map(variance => Math.sqrt(variance));
+
+    const lower = fit.forecast.map((value, index) => Math.max(value - z * stdDev[index], 0));
+    const upper = fit.forecast.map((value, index) => value + z * stdDev[index]);
+
+    const expectedTotal = fit.forecast.reduce((sum, value) => sum + value, 0);
+    const totalStdDev = this.combineStdDev(stdDev);
+
+    return {
+      fit,
+      backtest: chosen.backtest,
+      expected: fit.forecast,
+      lower,
+      upper,
+      stdDev,
+      total: {
+        expected: expectedTotal,
+        lower: Math.max(expectedTotal - z * totalStdDev, 0),
+        upper: expectedTotal + z * totalStdDev,
+        stdDev: totalStdDev,
+      },
+    };
+  }
+
+  /**
+   * Standard deviation of the demand over several periods, treating the forecast errors of
+   * successive periods as independent
+   */
+  combineStdDev(stdDevs: number[]): number {
+    return Math.sqrt(stdDevs.reduce((sum, value) => sum + value * value, 0));
+  }
+
+  /**
+   * Fit a model, choosing the smoothing parameters with the lowest one-step-ahead squared
+   * error, and forecast the given number of periods. Forecasts are never negative.
+   */
+  fit(series: number[], model: FittedModel, seasonLength: number, horizon: number): ModelFit {
+    const fitted = this.resolveModel(model, series.length, seasonLength);
+
+    let best: { parameters: Record<string, number>; run: SmoothingRun; sse: number } | null = null;
+    for (const parameters of this.parameterGrid(fitted)) {
+      const run = this.run(series, fitted, parameters, seasonLength, horizon);
+      const sse = run.errors.reduce((sum, error) => sum + error * error, 0);
+
+      if (!best || sse < best.sse) {
+        best = { parameters, run, sse };
+      }
+    }
+
+    const errors = best.run.errors;
+    const residualStdDev = errors.length > 1 ? Math.sqrt(best.sse / (errors.length - 1)) : 0;
+
+    return {
+      model: fitted,
+      parameters: best.parameters,
+      forecast: best.run.forecast.map(value => Math.max(value, 0)),
+      residualStdDev,
+    };
+  }
+
+  /**
+   * Fit the model on the history without its last periods and measure the forecast error on
+   * them. The holdout is the horizon, capped at a quarter of the history; null when the
+   * history is too short to hold anything out.
+   */
+  backtest(series: number[], model: FittedModel, seasonLength: number, horizon: number): BacktestResult | null {
+    const holdout = Math.min(horizon, Math.floor(series.length / 4));
+    if (holdout < 1) {
+      return null;
+    }
+
+    const training = series.slice(0, series.length - holdout);
+    const actual = series.slice(series.length - holdout);
+    const { forecast } = this.fit(training, model, seasonLength, holdout);
+
+    let absoluteError = 0;
+    let totalDemand = 0;
+    let percentageErrors = 0;
+    let periodsWithDemand = 0;
+
+    actual.forEach((value, index) => {
+      const error = Math.abs(value - forecast[index]);
+      absoluteError += error;
+      totalDemand += value;
+
+      if (value > 0) {
+        percentageErrors += error / value;
+        periodsWithDemand++;
+      }
+    });
+
+    return {
+      periods: holdout,
+      mape: periodsWithDemand > 0 ? Math.round((percentageErrors / periodsWithDemand) * 10000) / 100 : null,
+      wape: totalDemand > 0 ? Math.round((absoluteError / totalDemand) * 10000) / 100 : null,
+    };
+  }
+
+  /**
+   * Demand statistics used to tell smooth from intermittent series
+   */
+  summarizeHistory(series: number[]): DemandHistorySummary {
+    const totalUnits = series.reduce((sum, value) => sum + value, 0);
+    const periodsWithDemand = series.filter(value => value > 0).length;
+
+    return {
+      periods: series.length,
+      totalUnits,
+      averagePerPeriod: series.length > 0 ? Math.round((totalUnits / series.length) * 100) / 100 : 0,
+      zeroDemandShare:
+        series.length > 0 ? Math.round(((series.length - periodsWithDemand) / series.length) * 10000) / 100 : 0,
+      averageDemandInterval: periodsWithDemand > 0 ? Math.round((series.length / periodsWithDemand) * 100) / 100 : null,
+    };
+  }
+
+  private candidateModels(series: number[], seasonLength: number): FittedModel[] {
+    const { averageDemandInterval } = this.summarizeHistory(series);
+
+    if (averageDemandInterval !== null && averageDemandInterval > INTERMITTENT_INTERVAL) {
+      return ['croston', 'ses'];
+    }
+    return series.length >= seasonLength * 2 ? ['holt_winters', 'holt', 'ses'] : ['holt', 'ses'];
+  }
+
+  /**
+   * Fall back to a simpler model when the history is too short: Holt-Winters needs two
+   * full seasons and Holt two periods
+   */
+  private resolveModel(model: FittedModel, length: number, seasonLength: number): FittedModel {
+    if (model === 'holt_winters' && length < seasonLength * 2) {
+      model = 'holt';
+    }
+    if (model === 'holt' && length < 2) {
+      model = 'ses';
+    }
+    return model;
+  }
+
+  private parameterGrid(model: FittedModel): Record<string, number>[] {
+    switch (model) {
+      case 'holt_winters':
+        return ALPHAS.flatMap(alpha =>
+          BETAS.flatMap(beta => GAMMAS.map(gamma => ({ alpha, beta, gamma, phi: DAMPING }))),
+        );
+      case 'holt':
+        return ALPHAS.flatMap(alpha => BETAS.map(beta => ({ alpha, beta, phi: DAMPING })));
+      case 'croston':
+        return CROSTON_ALPHAS.map(alpha => ({ alpha }));
+      default:
+        return ALPHAS.map(alpha => ({ alpha }));
+    }
+  }
+
+  private run(
+    series: number[],
+    model: FittedModel,
+    parameters: Record<string, number>,
+    seasonLength: number,
+    horizon: number,
+  ): SmoothingRun {
+    switch (model) {
+      case 'holt_winters':
+        return this.runHoltWinters(series, parameters, seasonLength, horizon);
+      case 'holt':
+        return this.runHolt(series, parameters, horizon);
+      case 'croston':
+        return this.runCroston(series, parameters, horizon);
+      default:
+        return this.runSimple(series, parameters, horizon);
+    }
+  }
+
+  private runSimple(series: number[], { alpha }: Record<string, number>, horizon: number): SmoothingRun {
+    const errors: number[] = [];
+    let level = series.length > 0 ? series[0] : 0;
+
+    for (let t = 1; t < series.length; t++) {
+      errors.push(series[t] - level);
+      level = alpha * series[t] + (1 - alpha) * level;
+    }
+
+    return { forecast: new Array(horizon).fill(level), errors };
+  }
+
+  private runHolt(series: number[], { alpha, beta, phi }: Record<string, number>, horizon: number): SmoothingRun {
+    const errors: number[] = [];
+    let level = series[0];
+    let trend = series[1] - series[0];
+
+    for (let t = 1; t < series.length; t++) {
+      const predicted = level + phi * trend;
+      errors.push(series[t] - predicted);
+
+      const previousLevel = level;
+      level = alpha * series[t] + (1 - alpha) * predicted;
+      trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    }
+
+    return { forecast: this.dampedForecast(level, trend, phi, horizon), errors };
+  }
+
+  /**
+   * Additive Holt-Winters with a damped trend, initialised from the first two seasons
+   */
+  private runHoltWinters(
+    series: number[],
+    { alpha, beta, gamma, phi }: Record<string, number>,
+    seasonLength: number,
+    horizon: number,
+  ): SmoothingRun {
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const firstSeason = series.slice(0, seasonLength);
+    const firstMean = mean(firstSeason);
+    const seasonal = firstSeason.map(value => value - firstMean);
+
+    let trend = (mean(series.slice(seasonLength, seasonLength * 2)) - firstMean) / seasonLength;
+    // Level at the end of the first season rather than its middle
+    let level = firstMean + (trend * (seasonLength - 1)) / 2;
+    const errors: number[] = [];
+
+    for (let t = seasonLength; t < series.length; t++) {
+      const season = t % seasonLength;
+      const predicted = level + phi * trend + seasonal[season];
+      errors.push(series[t] - predicted);
+
+      const previousLevel = level;
+      level = alpha * (series[t] - seasonal[season]) + (1 - alpha) * (level + phi * trend);
+      trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+      seasonal[season] = gamma * (series[t] - level) + (1 - gamma) * seasonal[season];
+    }
+
+    const forecast = this.dampedForecast(level, trend, phi, horizon).map(
+      (value, index) => value + seasonal[(series.length + index) % seasonLength],
+    );
+
+    return { forecast, errors };
+  }
+
+  /**
+   * Croston's method with the Syntetos-Boylan bias correction. Demand sizes and the intervals
+   * between them are smoothed separately and the forecast is their corrected ratio.
+   */
+  private runCroston(series: number[], { alpha }: Record<string, number>, horizon: number): SmoothingRun {
+    const correction = 1 - alpha / 2;
+    const errors: number[] = [];
+    let size: number | null = null;
+    let interval = 1;
+    let periodsSinceDemand = 1;
+
+    for (const value of series) {
+      if (size !== null) {
+        errors.push(value - (correction * size) / interval);
+      }
+
+      if (value > 0) {
+        if (size === null) {
+          size = value;
+          interval = periodsSinceDemand;
+        } else {
+          size = alpha * value + (1 - alpha) * size;
+          interval = alpha * periodsSinceDemand + (1 - alpha) * interval;
+        }
+        periodsSinceDemand = 1;
+      } else {
+        periodsSinceDemand++;
+      }
+    }
+
+    const rate = size === null ? 0 : (correction * size) / interval;
+    return { forecast: new Array(horizon).fill(rate), errors };
+  }
+
+  private dampedForecast(level: number, trend: number, phi: number, horizon: number): number[] {
+    const forecast: number[] = [];
+    let damping = 0;
+
+    for (let h = 1; h <= horizon; h++) {
+      damping += Math.pow(phi, h);
+      forecast.push(level + damping * trend);
+    }
+    return forecast;
+  }
+
+  /**
+   * Variance of the h-step-ahead forecast errors from the one-step residual variance, using
+   * the exponential smoothing state space approximation: each further step adds the squared
+   * weight the model gives a past error.
+   */
+  private forecastVariances(fit: ModelFit, horizon: number, seasonLength: number): number[] {
+    const variance = fit.residualStdDev * fit.residualStdDev;
+    const { alpha, beta = 0, gamma = 0, phi = 1 } = fit.parameters;
+    const variances: number[] = [];
+    let accumulated = 0;
+    let damping = 0;
+
+    for (let h = 1; h <= horizon; h++) {
+      variances.push(variance * (1 + accumulated));
+
+      damping += Math.pow(phi, h);
+      let weight = fit.model === 'holt' || fit.model === 'holt_winters' ? alpha + alpha * beta * damping : alpha;
+      if (fit.model === 'holt_winters' && h % seasonLength === 0) {
+        weight += gamma * (1 - alpha);
+      }
+      accumulated += weight * weight;
+    }
+
+    return variances;
+  }
+}
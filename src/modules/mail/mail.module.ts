@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MailService } from './mail.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [MailService],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,83 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+/**
+ * Parse a list, or comma-separated string, of email addresses; throws on an empty list or invalid addresses
+ */
+export function parseEmailAddresses(value: any, field: string): string[] {
+  const list = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new BadRequestException(`${field} must list at least one email address`);
+  }
+
+  const addresses = list.map(address => String(address).trim());
+  const invalid = addresses.filter(address => !EMAIL_PATTERN.test(address));
+  if (invalid.length > 0) {
+    throw new BadRequestException(`Invalid email addresses: ${invalid.join(', ')}`);
+  }
+
+  return [...new Set(addresses)];
+}
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer | string;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Sends email through the SMTP server in SMTP_HOST
+ */
+@Injectable()
+export class MailService {
+  private transporter: nodemailer.Transporter | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Send a message from SMTP_FROM; throws when SMTP is not configured or the server rejects it
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.getTransporter().sendMail({
+      from: this.configService.get<string>('config.notifications.smtp.from'),
+      to: message.to.join(', '),
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments,
+    });
+  }
+
+  private getTransporter(): nodemailer.Transporter {
+    if (this.transporter) return this.transporter;
+
+    const smtp = this.configService.get('config.notifications.smtp');
+    if (!smtp?.host) {
+      throw new Error('SMTP_HOST is not configured');
+    }
+
+    const timeout = this.configService.get<number>('config.notifications.timeoutMs', 10000);
+    this.transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+      connectionTimeout: timeout,
+      greetingTimeout: timeout,
+      socketTimeout: timeout,
+    });
+
+    return this.transporter;
+  }
+}
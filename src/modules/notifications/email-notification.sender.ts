@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { MailService, parseEmailAddresses } from '../mail/mail.service';
+import { EmailChannelConfig, NotificationChannel, NotificationMessage } from '@interfaces/notification.interface';
+import { NotificationSender, parseTemplate } from './notification-sender';
+import { DEFAULT_BODY_TEMPLATE, DEFAULT_SUBJECT_TEMPLATE, renderTemplate } from './notification-templates';
+
+/**
+ * Sends notifications as plain text email through the SMTP server in SMTP_HOST
+ */
+@Injectable()
+export class EmailNotificationSender implements NotificationSender {
+  readonly type = 'email' as const;
+
+  constructor(private readonly mailService: MailService) {}
+
+  parseConfig(config: any): EmailChannelConfig {
+    return {
+      to: parseEmailAddresses(config?.to, 'config.to'),
+      subjectTemplate: parseTemplate(config.subjectTemplate, 'subjectTemplate'),
+      bodyTemplate: parseTemplate(config.bodyTemplate, 'bodyTemplate'),
+    };
+  }
+
+  redactConfig(config: EmailChannelConfig): EmailChannelConfig {
+    return config;
+  }
+
+  async send(channel: NotificationChannel, message: NotificationMessage): Promise<void> {
+    const config = channel.config as EmailChannelConfig;
+
+    // Digests list several notifications, so they don't use the channel's single-event templates
+    const subject = message.digest
+      ? message.subject
+      : renderTemplate(config.subjectTemplate || DEFAULT_SUBJECT_TEMPLATE, message.variables);
+    const text = message.digest
+      ? message.text
+      : renderTemplate(config.bodyTemplate || DEFAULT_BODY_TEMPLATE, message.variables);
+
+    await this.mailService.send({ to: config.to, subject, text });
+  }
+}
@@ -0,0 +1,58 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationChannelType,
+  NotificationMessage,
+} from '@interfaces/notification.interface';
+
+export const REDACTED = '********';
+
+/**
+ * A kind of notification channel. Each sender validates its channels' config and delivers
+ * messages to them; adding a channel type means adding a sender to NotificationsModule.
+ */
+export interface NotificationSender {
+  readonly type: NotificationChannelType;
+
+  /**
+   * Validate a channel config, returning it normalized
+   */
+  parseConfig(config: any): NotificationChannelConfig;
+
+  /**
+   * The config with secrets masked, for API responses
+   */
+  redactConfig(config: NotificationChannelConfig): NotificationChannelConfig;
+
+  /**
+   * Deliver a message, throwing when it could not be delivered
+   */
+  send(channel: NotificationChannel, message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Validate an http(s) URL in a channel config
+ */
+export function parseHttpUrl(value: any, field: string): string {
+  if (typeof value !== 'string' || !/^https?:\/\//i.test(value.trim())) {
+    throw new BadRequestException(`config.${field} must be an http or https URL`);
+  }
+
+  try {
+    return new URL(value.trim()).toString();
+  } catch {
+    throw new BadRequestException(`config.${field} must be an http or https URL`);
+  }
+}
+
+/**
+ * Validate an optional template in a channel config
+ */
+export function parseTemplate(value: any, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new BadRequestException(`config.${field} must be a string`);
+  }
+  return value;
+}
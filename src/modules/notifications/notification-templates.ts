@@ -0,0 +1,63 @@
+import { NotificationEvent, NotificationEventType } from '@interfaces/notification.interface';
+import { StoreConfig } from '@interfaces/store.interface';
+
+const EVENT_LABELS: Record<NotificationEventType, string> = {
+  triggered: 'Alert',
+  reopened: 'Alert reopened',
+  resolved: 'Resolved',
+  test: 'Test',
+  digest: 'Digest',
+};
+
+export const DEFAULT_SUBJECT_TEMPLATE = '[{{store}}] {{severity}} {{eventLabel}}: {{title}}';
+
+export const DEFAULT_BODY_TEMPLATE = [
+  '{{message}}',
+  '',
+  'Severity: {{severity}}',
+  'Category: {{category}}',
+  'Store: {{store}} ({{storeId}})',
+  'Time: {{occurredAt}}',
+].join('\n');
+
+export const DEFAULT_CHAT_TEMPLATE = '*{{severity}} {{eventLabel}}* ({{store}}): {{title}}\n{{message}}';
+
+/**
+ * Replace {{placeholders}} with the given values; unknown placeholders are left empty
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+}
+
+/**
+ * Placeholders available to notification templates
+ */
+export function templateVariables(event: NotificationEvent, store: StoreConfig): Record<string, string> {
+  return {
+    title: event.title,
+    message: event.message,
+    severity: event.severity,
+    category: event.category,
+    event: event.type,
+    eventLabel: EVENT_LABELS[event.type],
+    key: event.key,
+    alertId: event.alertId ?? '',
+    ruleId: event.ruleId ?? '',
+    value: event.value === undefined ? '' : String(event.value),
+    threshold: event.threshold === undefined ? '' : String(event.threshold),
+    occurredAt: event.occurredAt,
+    store: store.name || store.id,
+    storeId: store.id,
+  };
+}
+
+/**
+ * One line per notification held back for a digest
+ */
+export function renderDigestText(events: NotificationEvent[]): string {
+  return events
+    .map(
+      event => `- ${event.occurredAt} ${event.severity} ${EVENT_LABELS[event.type]}: ${event.title} - ${event.message}`,
+    )
+    .join('\n');
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { HttpModule } from '@nestjs/axios';
+import { StorageModule } from '../storage/storage.module';
+import { StoresModule } from '../stores/stores.module';
+import { MailModule } from '../mail/mail.module';
+import { NotificationsService } from './notifications.service';
+import { EmailNotificationSender } from './email-notification.sender';
+import { SlackNotificationSender } from './slack-notification.sender';
+import { WebhookNotificationSender } from './webhook-notification.sender';
+
+@Module({
+  imports: [ConfigModule, HttpModule, StorageModule, StoresModule, MailModule],
+  providers: [NotificationsService, EmailNotificationSender, SlackNotificationSender, WebhookNotificationSender],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
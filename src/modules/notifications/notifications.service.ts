@@ -0,0 +1,366 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { NotificationChannelRepository } from '../storage/notification-channel.repository';
+import { NotificationDeliveryRepository } from '../storage/notification-delivery.repository';
+import { StoreContextService } from '../stores/store-context.service';
+import { NotificationSender, REDACTED } from './notification-sender';
+import { EmailNotificationSender } from './email-notification.sender';
+import { SlackNotificationSender } from './slack-notification.sender';
+import { WebhookNotificationSender } from './webhook-notification.sender';
+import {
+  renderDigestText,
+  renderTemplate,
+  templateVariables,
+  DEFAULT_SUBJECT_TEMPLATE,
+} from './notification-templates';
+import { ALERT_CATEGORIES, ALERT_SEVERITIES } from '@interfaces/alert.interface';
+import {
+  NOTIFICATION_CHANNEL_TYPES,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationDelivery,
+  NotificationDeliveryFilters,
+  NotificationEvent,
+  NotificationMessage,
+} from '@interfaces/notification.interface';
+
+// Failed deliveries are retried by the flush job until they have been attempted this often
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Routes alert and health notifications to channels, with a cooldown per notification
+ * and an hourly limit per channel past which notifications are held for a digest
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+  private readonly senders: Map<string, NotificationSender>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly channelRepository: NotificationChannelRepository,
+    private readonly deliveryRepository: NotificationDeliveryRepository,
+    private readonly storeContext: StoreContextService,
+    emailSender: EmailNotificationSender,
+    slackSender: SlackNotificationSender,
+    webhookSender: WebhookNotificationSender,
+  ) {
+    this.senders = new Map<string, NotificationSender>(
+      [emailSender, slackSender, webhookSender].map(sender => [sender.type, sender]),
+    );
+  }
+
+  /**
+   * List every channel, with secrets masked
+   */
+  listChannels(): NotificationChannel[] {
+    return this.channelRepository.findAll().map(channel => this.redact(channel));
+  }
+
+  /**
+   * Get a channel by id, with secrets masked
+   */
+  getChannel(id: string): NotificationChannel {
+    return this.redact(this.findChannel(id));
+  }
+
+  /**
+   * Create a channel
+   */
+  createChannel(input: NotificationChannelInput): NotificationChannel {
+    const channel = this.channelRepository.save(this.buildChannel(input));
+    this.logger.log(`Created ${channel.type} notification channel "${channel.name}"`);
+    return this.redact(channel);
+  }
+
+  /**
+   * Update a channel; omitted fields keep their value. Masked secrets sent back unchanged are kept.
+   */
+  updateChannel(id: string, input: Partial<NotificationChannelInput>): NotificationChannel {
+    const existing = this.findChannel(id);
+    const defined = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+    const merged = { ...existing, ...defined } as NotificationChannelInput;
+
+    if (input.config && (input.type === undefined || input.type === existing.type)) {
+      const config = Object.entries(input.config).filter(
+        ([, value]) => !(typeof value === 'string' && value.includes(REDACTED)),
+      );
+      merged.config = { ...existing.config, ...Object.fromEntries(config) };
+    }
+
+    return this.redact(this.channelRepository.save(this.buildChannel(merged, existing)));
+  }
+
+  /**
+   * Delete a channel; alert rules routed to it stop notifying it
+   */
+  deleteChannel(id: string): void {
+    this.findChannel(id);
+    this.channelRepository.delete(id);
+  }
+
+  /**
+   * Send a test notification to a channel now, bypassing the cooldown and hourly limit
+   */
+  async testChannel(id: string): Promise<NotificationDelivery> {
+    const channel = this.findChannel(id);
+    const store = this.storeContext.getStore();
+
+    return this.deliver(channel, {
+      key: `test:${channel.id}`,
+      type: 'test',
+      source: 'test',
+      severity: 'LOW',
+      category: 'system',
+      title: 'Test notification',
+      message: `Notifications for ${store.name || store.id} are delivered to the "${channel.name}" channel`,
+      occurredAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Notify the given channels of an event or, without channels, every enabled channel whose
+   * minimum severity and categories match it
+   */
+  async notify(event: NotificationEvent, channelIds: string[] = []): Promise<NotificationDelivery[]> {
+    const deliveries: NotificationDelivery[] = [];
+
+    for (const channel of this.route(event, channelIds)) {
+      deliveries.push(await this.deliver(channel, event));
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Send each channel one digest of its held-back notifications, and retry failed deliveries
+   */
+  async flush(): Promise<{ digestsSent: number; retried: number }> {
+    const result = { digestsSent: 0, retried: 0 };
+    const retrySince = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    for (const channel of this.channelRepository.findAll(true)) {
+      const queued = this.deliveryRepository.findByStatus(channel.id, 'queued');
+      if (queued.length > 0) {
+        const digest = await this.sendDigest(channel, queued);
+        if (digest.status === 'sent') result.digestsSent++;
+      }
+
+      const failed = this.deliveryRepository
+        .findByStatus(channel.id, 'failed', retrySince)
+        .filter(delivery => delivery.eventType !== 'digest' && delivery.attempts < MAX_ATTEMPTS);
+      for (const delivery of failed) {
+        await this.attempt(channel, delivery, this.buildMessage([delivery.event]));
+        result.retried++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Find deliveries, newest first
+   */
+  listDeliveries(filters: NotificationDeliveryFilters = {}): NotificationDelivery[] {
+    return this.deliveryRepository.find(filters);
+  }
+
+  private route(event: NotificationEvent, channelIds: string[]): NotificationChannel[] {
+    const channels = this.channelRepository.findAll(true);
+
+    if (channelIds.length > 0) {
+      return channels.filter(channel => channelIds.includes(channel.id));
+    }
+
+    return channels.filter(
+      channel =>
+        ALERT_SEVERITIES.indexOf(event.severity) <= ALERT_SEVERITIES.indexOf(channel.minSeverity) &&
+        (channel.categories.length === 0 || channel.categories.includes(event.category)),
+    );
+  }
+
+  private async deliver(channel: NotificationChannel, event: NotificationEvent): Promise<NotificationDelivery> {
+    const now = Date.now();
+    const delivery: NotificationDelivery = {
+      id: randomUUID(),
+      channelId: channel.id,
+      channelName: channel.name,
+      channelType: channel.type,
+      eventKey: event.key,
+      eventType: event.type,
+      severity: event.severity,
+      title: event.title,
+      status: 'sent',
+      attempts: 0,
+      error: null,
+      digestId: null,
+      event,
+      createdAt: new Date(now).toISOString(),
+      sentAt: null,
+    };
+
+    if (event.type !== 'test') {
+      const cooldownMinutes = this.configService.get<number>('config.notifications.cooldownMinutes', 60);
+      const maxPerHour = this.configService.get<number>('config.notifications.maxPerHour', 20);
+
+      if (
+        this.deliveryRepository.hasRecent(channel.id, event.key, event.type, new Date(now - cooldownMinutes * 60000))
+      ) {
+        return this.deliveryRepository.save({ ...delivery, status: 'suppressed' });
+      }
+      if (this.deliveryRepository.countSentSince(channel.id, new Date(now - 60 * 60000)) >= maxPerHour) {
+        return this.deliveryRepository.save({ ...delivery, status: 'queued' });
+      }
+    }
+
+    return this.attempt(channel, delivery, this.buildMessage([event]));
+  }
+
+  private async sendDigest(
+    channel: NotificationChannel,
+    queued: NotificationDelivery[],
+  ): Promise<NotificationDelivery> {
+    const events = queued.map(delivery => delivery.event);
+    const severity = ALERT_SEVERITIES[Math.min(...events.map(event => ALERT_SEVERITIES.indexOf(event.severity)))];
+    const message = this.buildMessage(events, true);
+    const now = new Date().toISOString();
+
+    const digest = await this.attempt(
+      channel,
+      {
+        id: randomUUID(),
+        channelId: channel.id,
+        channelName: channel.name,
+        channelType: channel.type,
+        eventKey: 'digest',
+        eventType: 'digest',
+        severity,
+        title: message.subject,
+        status: 'sent',
+        attempts: 0,
+        error: null,
+        digestId: null,
+        event: {
+          key: 'digest',
+          type: 'digest',
+          source: 'digest',
+          severity,
+          category: 'system',
+          title: message.subject,
+          message: message.text,
+          occurredAt: now,
+        },
+        createdAt: now,
+        sentAt: null,
+      },
+      message,
+    );
+
+    // A failed digest leaves the notifications queued for the next one
+    if (digest.status === 'sent') {
+      for (const delivery of queued) {
+        this.deliveryRepository.save({ ...delivery, status: 'digested', digestId: digest.id, sentAt: digest.sentAt });
+      }
+    }
+
+    return digest;
+  }
+
+  private async attempt(
+    channel: NotificationChannel,
+    delivery: NotificationDelivery,
+    message: NotificationMessage,
+  ): Promise<NotificationDelivery> {
+    const attempts = delivery.attempts + 1;
+
+    try {
+      await this.senders.get(channel.type).send(channel, message);
+      return this.deliveryRepository.save({
+        ...delivery,
+        status: 'sent',
+        attempts,
+        error: null,
+        sentAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to notify ${channel.type} channel "${channel.name}": ${error.message}`);
+      return this.deliveryRepository.save({ ...delivery, status: 'failed', attempts, error: error.message });
+    }
+  }
+
+  private buildMessage(events: NotificationEvent[], digest = false): NotificationMessage {
+    const store = this.storeContext.getStore();
+    const variables = templateVariables(events[events.length - 1], store);
+
+    if (digest) {
+      return {
+        subject: `[${store.name || store.id}] ${events.length} notifications held back`,
+        text: renderDigestText(events),
+        events,
+        digest,
+        variables,
+      };
+    }
+
+    return {
+      subject: renderTemplate(DEFAULT_SUBJECT_TEMPLATE, variables),
+      text: `${events[0].title}\n${events[0].message}`,
+      events,
+      digest,
+      variables,
+    };
+  }
+
+  private findChannel(id: string): NotificationChannel {
+    const channel = this.channelRepository.findById(id);
+    if (!channel) {
+      throw new NotFoundException(`Notification channel ${id} not found`);
+    }
+    return channel;
+  }
+
+  private redact(channel: NotificationChannel): NotificationChannel {
+    return { ...channel, config: this.senders.get(channel.type).redactConfig(channel.config) };
+  }
+
+  private buildChannel(input: NotificationChannelInput, existing?: NotificationChannel): NotificationChannel {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) {
+      throw new BadRequestException('name is required');
+    }
+    if (!NOTIFICATION_CHANNEL_TYPES.includes(input.type)) {
+      throw new BadRequestException(`Invalid type. Valid: ${NOTIFICATION_CHANNEL_TYPES.join(', ')}`);
+    }
+    if (typeof input.config !== 'object' || input.config === null || Array.isArray(input.config)) {
+      throw new BadRequestException('config is required');
+    }
+
+    const minSeverity = input.minSeverity ?? 'LOW';
+    if (!ALERT_SEVERITIES.includes(minSeverity)) {
+      throw new BadRequestException(`Invalid minSeverity. Valid: ${ALERT_SEVERITIES.join(', ')}`);
+    }
+
+    const categories = input.categories ?? [];
+    if (!Array.isArray(categories) || categories.some(category => !ALERT_CATEGORIES.includes(category))) {
+      throw new BadRequestException(`categories must be a list of: ${ALERT_CATEGORIES.join(', ')}`);
+    }
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be a boolean');
+    }
+
+    const now = new Date().toISOString();
+
+    return {
+      id: existing?.id || randomUUID(),
+      name,
+      type: input.type,
+      config: this.senders.get(input.type).parseConfig(input.config),
+      minSeverity,
+      categories: [...new Set(categories)],
+      enabled: input.enabled ?? true,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { NotificationChannel, NotificationMessage, SlackChannelConfig } from '@interfaces/notification.interface';
+import { NotificationSender, REDACTED, parseHttpUrl, parseTemplate } from './notification-sender';
+import { DEFAULT_CHAT_TEMPLATE, renderTemplate } from './notification-templates';
+
+/**
+ * Posts notifications as { text } to a Slack-compatible incoming webhook
+ */
+@Injectable()
+export class SlackNotificationSender implements NotificationSender {
+  readonly type = 'slack' as const;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  parseConfig(config: any): SlackChannelConfig {
+    return {
+      url: parseHttpUrl(config?.url, 'url'),
+      template: parseTemplate(config?.template, 'template'),
+    };
+  }
+
+  redactConfig(config: SlackChannelConfig): SlackChannelConfig {
+    // The path of an incoming webhook URL is its credential
+    const url = new URL(config.url);
+    return { ...config, url: `${url.origin}/${REDACTED}` };
+  }
+
+  async send(channel: NotificationChannel, message: NotificationMessage): Promise<void> {
+    const config = channel.config as SlackChannelConfig;
+    const text = message.digest
+      ? `*${message.subject}*\n${message.text}`
+      : renderTemplate(config.template || DEFAULT_CHAT_TEMPLATE, message.variables);
+
+    await firstValueFrom(
+      this.httpService.post(
+        config.url,
+        { text },
+        {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: this.configService.get<number>('config.notifications.timeoutMs', 10000),
+        },
+      ),
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import { NotificationChannel, NotificationMessage, WebhookChannelConfig } from '@interfaces/notification.interface';
+import { NotificationSender, REDACTED, parseHttpUrl } from './notification-sender';
+
+/**
+ * POSTs notifications as JSON. With a secret, the body is signed: X-Notification-Signature is
+ * "sha256=" and the hex HMAC-SHA256 of "<X-Notification-Timestamp>.<body>".
+ */
+@Injectable()
+export class WebhookNotificationSender implements NotificationSender {
+  readonly type = 'webhook' as const;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  parseConfig(config: any): WebhookChannelConfig {
+    const url = parseHttpUrl(config?.url, 'url');
+
+    if (config.secret !== undefined && config.secret !== null && typeof config.secret !== 'string') {
+      throw new BadRequestException('config.secret must be a string');
+    }
+
+    const headers = config.headers ?? {};
+    if (
+      typeof headers !== 'object' ||
+      Array.isArray(headers) ||
+      Object.values(headers).some(value => typeof value !== 'string')
+    ) {
+      throw new BadRequestException('config.headers must be an object of string values');
+    }
+
+    return { url, secret: config.secret || undefined, headers };
+  }
+
+  redactConfig(config: WebhookChannelConfig): WebhookChannelConfig {
+    return config.secret ? { ...config, secret: REDACTED } : config;
+  }
+
+  async send(channel: NotificationChannel, message: NotificationMessage): Promise<void> {
+    const config = channel.config as WebhookChannelConfig;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = JSON.stringify({
+      subject: message.subject,
+      text: message.text,
+      digest: message.digest,
+      store: { id: message.variables.storeId, name: message.variables.store },
+      events: message.events,
+    });
+
+    const headers: Record<string, string> = {
+      ...config.headers,
+      'Content-Type': 'application/json',
+      'X-Notification-Timestamp': timestamp,
+    };
+    if (config.secret) {
+      headers['X-Notification-Signature'] =
+        `sha256=${createHmac('sha256', config.secret).update(`${timestamp}.${body}`).digest('hex')}`;
+    }
+
+    await firstValueFrom(
+      this.httpService.post(config.url, body, {
+        headers,
+        timeout: this.configService.get<number>('config.notifications.timeoutMs', 10000),
+      }),
+    );
+  }
+}
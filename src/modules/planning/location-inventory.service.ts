@@ -0,0 +1,325 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { LocationSettingsRepository } from '../storage/location-settings.repository';
+import { ProductRepository } from '../storage/product.repository';
+import { getLocationQuantities, LocationQuantities } from '@shared/inventory-levels';
+import { ShopifyProduct, ProductVariant } from '@interfaces/shopify.interface';
+import {
+  LocationLowStockAlert,
+  LocationSettings,
+  LocationSettingsInput,
+  LocationStockSummary,
+  TransferSuggestion,
+} from '@interfaces/planning.interface';
+
+// Thresholds of locations without stored settings, matching the store-wide low stock alerts
+const DEFAULT_THRESHOLDS = {
+  criticalStockThreshold: 5,
+  lowStockThreshold: 10,
+  targetStock: 20,
+  overstockThreshold: 40,
+  allowTransfers: true,
+};
+
+const URGENCY_ORDER: Record<TransferSuggestion['urgencyLevel'], number> = { Critical: 0, High: 1, Medium: 2 };
+
+interface StockedVariant {
+  product: ShopifyProduct;
+  variant: ProductVariant;
+  levels: LocationQuantities[];
+}
+
+/**
+ * Stock per Shopify location: thresholds, low stock alerts and transfers that rebalance
+ * stock from overstocked to understocked locations
+ */
+@Injectable()
+export class LocationInventoryService {
+  private readonly logger = new Logger(LocationInventoryService.name);
+
+  constructor(
+    private readonly locationSettingsRepository: LocationSettingsRepository,
+    private readonly productRepository: ProductRepository,
+  ) {}
+
+  /**
+   * Summarize the stock of every location holding stored inventory levels
+   */
+  listLocations(): LocationStockSummary[] {
+    const { locations, variants } = this.loadStock();
+    const getSettings = this.createSettingsLookup(locations);
+
+    return Array.from(locations.keys())
+      .map(locationId => {
+        const settings = getSettings(locationId);
+        const levels = variants
+          .map(({ levels }) => levels.find(level => level.locationId === locationId))
+          .filter(Boolean);
+
+        return {
+          locationId,
+          locationName: settings.locationName,
+          variantsStocked: levels.length,
+          availableUnits: levels.reduce((sum, level) => sum + level.available, 0),
+          onHandUnits: levels.reduce((sum, level) => sum + level.onHand, 0),
+          incomingUnits: levels.reduce((sum, level) => sum + level.incoming, 0),
+          lowStockVariants: levels.filter(level => level.available > 0 && level.available <= settings.lowStockThreshold)
+            .length,
+          outOfStockVariants: levels.filter(level => level.available <= 0).length,
+          overstockedVariants: levels.filter(level => level.available > settings.overstockThreshold).length,
+          settings,
+        };
+      })
+      .sort((a, b) => a.locationName.localeCompare(b.locationName));
+  }
+
+  /**
+   * Get the thresholds applied to a location, stored or default
+   */
+  getLocationSettings(locationId: string): LocationSettings {
+    const id = this.toLocationId(locationId);
+    const { locations } = this.loadStock();
+    if (!locations.has(id) && !this.locationSettingsRepository.findById(id)) {
+      throw new NotFoundException(`Location ${locationId} has no stored inventory levels`);
+    }
+
+    return this.createSettingsLookup(locations)(id);
+  }
+
+  /**
+   * Set the thresholds of a location; omitted fields keep their current value
+   */
+  saveLocationSettings(locationId: string, input: LocationSettingsInput): LocationSettings {
+    const current = this.getLocationSettings(locationId);
+    const now = new Date().toISOString();
+
+    const settings: LocationSettings = {
+      ...current,
+      criticalStockThreshold: this.wholeNumber(input.criticalStockThreshold, 'criticalStockThreshold', current),
+      lowStockThreshold: this.wholeNumber(input.lowStockThreshold, 'lowStockThreshold', current),
+      targetStock: this.wholeNumber(input.targetStock, 'targetStock', current),
+      overstockThreshold: this.wholeNumber(input.overstockThreshold, 'overstockThreshold', current),
+      allowTransfers: input.allowTransfers ?? current.allowTransfers,
+      createdAt: current.createdAt || now,
+      updatedAt: now,
+    };
+
+    if (typeof settings.allowTransfers !== 'boolean') {
+      throw new BadRequestException('allowTransfers must be a boolean');
+    }
+    if (
+      settings.criticalStockThreshold > settings.lowStockThreshold ||
+      settings.lowStockThreshold >= settings.targetStock ||
+      settings.targetStock > settings.overstockThreshold
+    ) {
+      throw new BadRequestException(
+        'Thresholds must satisfy criticalStockThreshold <= lowStockThreshold < targetStock <= overstockThreshold',
+      );
+    }
+
+    const saved = this.locationSettingsRepository.upsert(settings);
+    this.logger.log(
+      `Saved stock thresholds for ${saved.locationName}: low ${saved.lowStockThreshold}, target ${saved.targetStock}`,
+    );
+    return saved;
+  }
+
+  /**
+   * Remove the stored thresholds of a location so the defaults apply again
+   */
+  resetLocationSettings(locationId: string): void {
+    if (!this.locationSettingsRepository.delete(this.toLocationId(locationId))) {
+      throw new NotFoundException(`Location ${locationId} has no stored settings`);
+    }
+  }
+
+  /**
+   * Variants at or below the low stock threshold of a location, most urgent first
+   */
+  getLowStockAlerts(locationId?: string): LocationLowStockAlert[] {
+    const id = locationId ? this.toLocationId(locationId) : undefined;
+    const { locations, variants } = this.loadStock();
+    const getSettings = this.createSettingsLookup(locations);
+    const alerts: LocationLowStockAlert[] = [];
+
+    for (const { product, variant, levels } of variants) {
+      const surplusByLocation = levels
+        .filter(level => getSettings(level.locationId).allowTransfers)
+        .map(level => ({ locationId: level.locationId, surplus: this.surplus(level, getSettings(level.locationId)) }));
+
+      for (const level of levels) {
+        if (id && level.locationId !== id) continue;
+
+        const settings = getSettings(level.locationId);
+        if (level.available > settings.lowStockThreshold) continue;
+
+        alerts.push({
+          locationId: level.locationId,
+          locationName: settings.locationName,
+          productId: product.id,
+          productTitle: product.title,
+          variantId: variant.id,
+          variantTitle: variant.title,
+          sku: variant.sku || null,
+          available: level.available,
+          incoming: level.incoming,
+          lowStockThreshold: settings.lowStockThreshold,
+          shortfall: this.shortfall(level, settings),
+          availableElsewhere: surplusByLocation
+            .filter(entry => entry.locationId !== level.locationId)
+            .reduce((sum, entry) => sum + entry.surplus, 0),
+          urgencyLevel: this.urgency(level, settings),
+        });
+      }
+    }
+
+    return alerts.sort(
+      (a, b) => URGENCY_ORDER[a.urgencyLevel] - URGENCY_ORDER[b.urgencyLevel] || a.available - b.available,
+    );
+  }
+
+  /**
+   * Transfers that restock low locations from locations holding stock above their overstock
+   * threshold. A sending location keeps its target stock and a receiving location is filled
+   * up to its target, net of incoming units; the lowest locations are served first.
+   */
+  getTransferSuggestions(locationId?: string): TransferSuggestion[] {
+    const id = locationId ? this.toLocationId(locationId) : undefined;
+    const { locations, variants } = this.loadStock();
+    const getSettings = this.createSettingsLookup(locations);
+    const suggestions: TransferSuggestion[] = [];
+
+    for (const { product, variant, levels } of variants) {
+      const eligible = levels.filter(level => getSettings(level.locationId).allowTransfers);
+      const receivers = eligible
+        .filter(level => level.available <= getSettings(level.locationId).lowStockThreshold)
+        .map(level => ({ level, need: this.shortfall(level, getSettings(level.locationId)) }))
+        .filter(receiver => receiver.need > 0)
+        .sort((a, b) => a.level.available - b.level.available);
+      const donors = eligible
+        .filter(level => level.available > getSettings(level.locationId).overstockThreshold)
+        .map(level => ({ level, surplus: this.surplus(level, getSettings(level.locationId)) }))
+        .sort((a, b) => b.surplus - a.surplus);
+
+      for (const receiver of receivers) {
+        for (const donor of donors) {
+          if (receiver.need <= 0) break;
+          if (donor.surplus <= 0) continue;
+
+          const quantity = Math.min(receiver.need, donor.surplus);
+          receiver.need -= quantity;
+          donor.surplus -= quantity;
+
+          const from = getSettings(donor.level.locationId);
+          const to = getSettings(receiver.level.locationId);
+          suggestions.push({
+            productId: product.id,
+            productTitle: product.title,
+            variantId: variant.id,
+            variantTitle: variant.title,
+            sku: variant.sku || null,
+            fromLocationId: from.locationId,
+            fromLocationName: from.locationName,
+            toLocationId: to.locationId,
+            toLocationName: to.locationName,
+            quantity,
+            fromAvailable: donor.level.available,
+            toAvailable: receiver.level.available,
+            urgencyLevel: this.urgency(receiver.level, to),
+            reasoning:
+              `${to.locationName} has ${receiver.level.available} available, at or below its low stock threshold ` +
+              `of ${to.lowStockThreshold}; ${from.locationName} has ${donor.level.available}, above its ` +
+              `overstock threshold of ${from.overstockThreshold}`,
+          });
+        }
+      }
+    }
+
+    this.logger.log(`Suggested ${suggestions.length} stock transfers`);
+
+    return suggestions
+      .filter(suggestion => !id || suggestion.fromLocationId === id || suggestion.toLocationId === id)
+      .sort((a, b) => URGENCY_ORDER[a.urgencyLevel] - URGENCY_ORDER[b.urgencyLevel] || b.quantity - a.quantity);
+  }
+
+  /**
+   * Accept a Location GID or its numeric id
+   */
+  private toLocationId(locationId: string): string {
+    const id = (locationId || '').trim();
+    return /^\d+$/.test(id) ? `gid://shopify/Location/${id}` : id;
+  }
+
+  /**
+   * Tracked stored variants with per-location levels, and the name of every location seen
+   */
+  private loadStock(): { locations: Map<string, string>; variants: StockedVariant[] } {
+    const locations = new Map<string, string>();
+    const variants: StockedVariant[] = [];
+
+    for (const product of this.productRepository.findAll()) {
+      for (const { node: variant } of product.variants?.edges || []) {
+        if (!variant.inventoryItem?.tracked) continue;
+
+        const levels = getLocationQuantities(variant);
+        if (levels.length === 0) continue;
+
+        for (const level of levels) {
+          // Levels added by webhooks have no name until the next sync
+          if (!locations.get(level.locationId) || locations.get(level.locationId) === level.locationId) {
+            locations.set(level.locationId, level.locationName);
+          }
+        }
+        variants.push({ product, variant, levels });
+      }
+    }
+
+    return { locations, variants };
+  }
+
+  private createSettingsLookup(locations: Map<string, string>): (locationId: string) => LocationSettings {
+    const stored = new Map(this.locationSettingsRepository.findAll().map(settings => [settings.locationId, settings]));
+
+    return (locationId: string) => {
+      const settings = stored.get(locationId);
+      const locationName = locations.get(locationId) || settings?.locationName || locationId;
+      if (settings) {
+        return { ...settings, locationName };
+      }
+
+      return {
+        locationId,
+        locationName,
+        ...DEFAULT_THRESHOLDS,
+        configured: false,
+        createdAt: null,
+        updatedAt: null,
+      };
+    };
+  }
+
+  private shortfall(level: LocationQuantities, settings: LocationSettings): number {
+    return Math.max(0, settings.targetStock - Math.max(level.available, 0) - level.incoming);
+  }
+
+  private surplus(level: LocationQuantities, settings: LocationSettings): number {
+    return level.available > settings.overstockThreshold ? level.available - settings.targetStock : 0;
+  }
+
+  private urgency(level: LocationQuantities, settings: LocationSettings): LocationLowStockAlert['urgencyLevel'] {
+    if (level.available <= 0) return 'Critical';
+    if (level.available <= settings.criticalStockThreshold) return 'High';
+    return 'Medium';
+  }
+
+  private wholeNumber(
+    value: number | undefined,
+    field: 'criticalStockThreshold' | 'lowStockThreshold' | 'targetStock' | 'overstockThreshold',
+    current: LocationSettings,
+  ): number {
+    const number = value === undefined || value === null ? current[field] : Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      throw new BadRequestException(`${field} must be a whole number of at least 0`);
+    }
+    return number;
+  }
+}
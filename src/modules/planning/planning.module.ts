@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { ForecastingModule } from '../forecasting/forecasting.module';
+import { SuppliersModule } from '../suppliers/suppliers.module';
+import { CostsModule } from '../costs/costs.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { StoresModule } from '../stores/stores.module';
+import { ReorderPlanningService } from './reorder-planning.service';
+import { LocationInventoryService } from './location-inventory.service';
+
+@Module({
+  imports: [StorageModule, ForecastingModule, SuppliersModule, CostsModule, CurrencyModule, StoresModule],
+  providers: [ReorderPlanningService, LocationInventoryService],
+  exports: [ReorderPlanningService, LocationInventoryService],
+})
+export class PlanningModule {}
@@ -0,0 +1,273 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DemandForecastService } from '../forecasting/demand-forecast.service';
+import { ForecastingService } from '../forecasting/forecasting.service';
+import { SuppliersService } from '../suppliers/suppliers.service';
+import { CostsService } from '../costs/costs.service';
+import { CurrencyService } from '../currency/currency.service';
+import { ProductRepository } from '../storage/product.repository';
+import { StoreContextService } from '../stores/store-context.service';
+import { Money } from '@shared/money';
+import { formatCsv } from '@shared/csv';
+import { normalQuantile } from '@shared/statistics';
+import { ShopifyProduct } from '@interfaces/shopify.interface';
+import { VariantDemandForecast } from '@interfaces/forecast.interface';
+import {
+  PurchaseOrderDraft,
+  ReorderPlan,
+  ReplenishmentTerms,
+  VariantReorderPlan,
+} from '@interfaces/planning.interface';
+
+const URGENCY_ORDER: Record<VariantReorderPlan['urgencyLevel'], number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+
+/**
+ * Reorder points, safety stock and draft purchase orders from demand forecasts and
+ * supplier replenishment terms
+ */
+@Injectable()
+export class ReorderPlanningService {
+  private readonly logger = new Logger(ReorderPlanningService.name);
+
+  constructor(
+    private readonly demandForecastService: DemandForecastService,
+    private readonly forecastingService: ForecastingService,
+    private readonly suppliersService: SuppliersService,
+    private readonly costsService: CostsService,
+    private readonly currencyService: CurrencyService,
+    private readonly productRepository: ProductRepository,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Plan replenishment of the stored variants with sales, optionally of one vendor. Stock
+   * has to cover the forecast demand over the lead time plus the review cycle, with safety
+   * stock for the service level; variants below that reorder point are ordered up to it.
+   */
+  createReorderPlan(vendor?: string): ReorderPlan {
+    const products = this.productRepository
+      .findAll()
+      .filter(product => !vendor || (product.vendor || '').toLowerCase() === vendor.toLowerCase());
+    const getTerms = this.suppliersService.createTermsLookup();
+
+    const horizon = Math.min(
+      Math.max(
+        1,
+        ...products.map(product => {
+          const terms = getTerms(product.vendor);
+          return terms.leadTimeDays + terms.reviewCycleDays;
+        }),
+      ),
+      365,
+    );
+
+    const report = this.demandForecastService.getDemandForecast(
+      { model: 'auto', granularity: 'day', horizon, confidence: 95 },
+      { vendor },
+    );
+    const productsByVariant = new Map<string, ShopifyProduct>();
+    for (const product of products) {
+      for (const { node: variant } of product.variants?.edges || []) {
+        productsByVariant.set(variant.id, product);
+      }
+    }
+
+    const variants = report.forecasts
+      .filter(forecast => productsByVariant.has(forecast.variantId))
+      .map(forecast => this.planVariant(forecast, getTerms(productsByVariant.get(forecast.variantId).vendor)))
+      .sort(
+        (a, b) =>
+          URGENCY_ORDER[a.urgencyLevel] - URGENCY_ORDER[b.urgencyLevel] ||
+          (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity),
+      );
+
+    const currency = this.currencyService.getShopCurrency();
+    const purchaseOrders = this.draftPurchaseOrders(variants, products, currency);
+    this.logger.log(
+      `Planned ${variants.length} variants: ${purchaseOrders.length} purchase orders for ${
+        variants.filter(variant => variant.shouldReorder).length
+      } variants`,
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      currency,
+      variants,
+      purchaseOrders,
+      summary: {
+        variantsPlanned: variants.length,
+        variantsToReorder: variants.filter(variant => variant.orderQuantity > 0).length,
+        purchaseOrders: purchaseOrders.length,
+        totalUnits: purchaseOrders.reduce((sum, order) => sum + order.totalUnits, 0),
+        totalCost: Money.sumBy(purchaseOrders, order => order.totalCost, currency),
+        vendorsWithoutSettings: Array.from(
+          new Set(variants.filter(variant => !variant.terms.configured).map(variant => variant.vendor)),
+        ).sort(),
+      },
+    };
+  }
+
+  /**
+   * One CSV row per purchase order line
+   */
+  toPurchaseOrderCsv(purchaseOrders: PurchaseOrderDraft[]): string {
+    const rows: Array<Array<string | number | null>> = [
+      [
+        'vendor',
+        'contact_email',
+        'expected_delivery_date',
+        'sku',
+        'product',
+        'variant',
+        'variant_id',
+        'quantity',
+        'cases',
+        'unit_cost',
+        'line_total',
+        'currency',
+      ],
+    ];
+
+    for (const order of purchaseOrders) {
+      for (const line of order.lines) {
+        rows.push([
+          order.vendor,
+          order.contactEmail,
+          order.expectedDeliveryDate,
+          line.sku,
+          line.productTitle,
+          line.variantTitle,
+          line.variantId,
+          line.quantity,
+          line.cases,
+          line.unitCost?.toAmount() ?? null,
+          line.lineTotal?.toAmount() ?? null,
+          order.currency,
+        ]);
+      }
+    }
+
+    return formatCsv(rows);
+  }
+
+  private planVariant(forecast: VariantDemandForecast, terms: ReplenishmentTerms): VariantReorderPlan {
+    const protectionDays = terms.leadTimeDays + terms.reviewCycleDays;
+    const points = forecast.forecast.slice(0, Math.max(protectionDays, 1));
+    const leadTimeDemand = this.sum(forecast.forecast.slice(0, terms.leadTimeDays).map(point => point.expected));
+    const protectionPeriodDemand = this.sum(points.map(point => point.expected));
+    const averageDailyDemand = protectionPeriodDemand / points.length;
+
+    // Demand uncertainty over the protection period plus the demand at risk from late deliveries
+    const demandStdDev = this.forecastingService.combineStdDev(points.map(point => point.stdDev));
+    const stdDev = Math.sqrt(demandStdDev ** 2 + (averageDailyDemand * terms.leadTimeStdDevDays) ** 2);
+    const safetyStock = Math.ceil(normalQuantile(terms.serviceLevel / 100) * stdDev);
+    const reorderPoint = Math.ceil(protectionPeriodDemand + safetyStock);
+
+    const currentStock = forecast.currentStock;
+    const shouldReorder = currentStock < reorderPoint;
+    const suggestedQuantity = shouldReorder ? reorderPoint - currentStock : 0;
+    const orderQuantity = shouldReorder
+      ? Math.ceil(Math.max(suggestedQuantity, terms.minOrderQuantity) / terms.casePack) * terms.casePack
+      : 0;
+
+    let urgencyLevel: VariantReorderPlan['urgencyLevel'] = 'Low';
+    let reasoning = 'Stock covers demand until the next review';
+    if (shouldReorder && currentStock <= 0) {
+      urgencyLevel = 'Critical';
+      reasoning = 'Out of stock';
+    } else if (shouldReorder && currentStock < leadTimeDemand) {
+      urgencyLevel = 'High';
+      reasoning = `Stock runs out before an order placed today would arrive in ${terms.leadTimeDays} days`;
+    } else if (shouldReorder && currentStock < leadTimeDemand + safetyStock) {
+      urgencyLevel = 'Medium';
+      reasoning = 'Safety stock will be used before an order placed today arrives';
+    } else if (shouldReorder) {
+      reasoning = 'Stock is below the reorder point';
+    }
+
+    return {
+      productId: forecast.productId,
+      productTitle: forecast.productTitle,
+      variantId: forecast.variantId,
+      variantTitle: forecast.variantTitle,
+      sku: forecast.sku,
+      vendor: terms.vendor,
+      currentStock,
+      averageDailyDemand: this.round(averageDailyDemand),
+      leadTimeDemand: this.round(leadTimeDemand),
+      protectionPeriodDemand: this.round(protectionPeriodDemand),
+      safetyStock,
+      reorderPoint,
+      daysOfCover:
+        averageDailyDemand > 0 ? Math.round((Math.max(currentStock, 0) / averageDailyDemand) * 10) / 10 : null,
+      shouldReorder,
+      suggestedQuantity,
+      orderQuantity,
+      urgencyLevel,
+      reasoning,
+      terms,
+    };
+  }
+
+  private draftPurchaseOrders(
+    variants: VariantReorderPlan[],
+    products: ShopifyProduct[],
+    currency: string,
+  ): PurchaseOrderDraft[] {
+    const costs = this.costsService.createCostLookup(products, currency);
+    const contacts = new Map(
+      this.suppliersService.listSettings().map(settings => [settings.vendor.toLowerCase(), settings.contactEmail]),
+    );
+    const orders = new Map<string, PurchaseOrderDraft>();
+
+    for (const variant of variants) {
+      if (variant.orderQuantity <= 0) continue;
+
+      const vendor = variant.vendor || 'Unknown';
+      if (!orders.has(vendor.toLowerCase())) {
+        orders.set(vendor.toLowerCase(), {
+          vendor,
+          contactEmail: contacts.get(vendor.toLowerCase()) || null,
+          currency,
+          expectedDeliveryDate: this.storeContext.moment().add(variant.terms.leadTimeDays, 'days').format('YYYY-MM-DD'),
+          terms: variant.terms,
+          lines: [],
+          totalUnits: 0,
+          totalCost: Money.zero(currency),
+          linesWithoutCost: 0,
+        });
+      }
+
+      const order = orders.get(vendor.toLowerCase());
+      const unitCost = costs.getUnitCost(variant.variantId, variant.sku || undefined)?.amount || null;
+      const lineTotal = unitCost ? unitCost.multiply(variant.orderQuantity) : null;
+
+      order.lines.push({
+        productId: variant.productId,
+        productTitle: variant.productTitle,
+        variantId: variant.variantId,
+        variantTitle: variant.variantTitle,
+        sku: variant.sku,
+        quantity: variant.orderQuantity,
+        cases: variant.orderQuantity / variant.terms.casePack,
+        unitCost,
+        lineTotal,
+      });
+      order.totalUnits += variant.orderQuantity;
+      if (lineTotal) {
+        order.totalCost = order.totalCost.add(lineTotal);
+      } else {
+        order.linesWithoutCost++;
+      }
+    }
+
+    return Array.from(orders.values()).sort((a, b) => a.vendor.localeCompare(b.vendor));
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
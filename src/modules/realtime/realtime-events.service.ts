@@ -0,0 +1,192 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Observable, Subject } from 'rxjs';
+import { StoreContextService } from '../stores/store-context.service';
+import { RealtimeChannel, RealtimeEvent, RealtimeStatus } from '@interfaces/realtime.interface';
+
+interface StoreStream {
+  events: Subject<RealtimeEvent>;
+  // Most recent events, oldest first, for subscribers resuming with Last-Event-ID
+  buffer: RealtimeEvent[];
+  // Sequence of the newest event dropped from the buffer; resuming from before it would miss events
+  evictedSequence: number;
+  lastSequence: number;
+  // Last real-time metrics published, so only changes are pushed
+  metrics: Record<string, any> | null;
+  subscribers: number;
+}
+
+/**
+ * Pushes order, revenue, alert and sync events to stream subscribers, per store. Events are
+ * published by the sync pipeline and the scheduler; a bounded buffer lets clients that
+ * reconnect with Last-Event-ID catch up on what they missed.
+ */
+@Injectable()
+export class RealtimeEventsService {
+  private readonly logger = new Logger(RealtimeEventsService.name);
+  private readonly streams = new Map<string, StoreStream>();
+  private readonly epoch = Date.now().toString(36);
+  private readonly heartbeatSeconds: number;
+  private readonly replayBufferSize: number;
+  private sequence = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storeContext: StoreContextService,
+  ) {
+    this.heartbeatSeconds = this.configService.get<number>('config.realtime.heartbeatSeconds', 15);
+    this.replayBufferSize = this.configService.get<number>('config.realtime.replayBufferSize', 500);
+  }
+
+  /**
+   * Publish an event to the current store's subscribers
+   */
+  publish(channel: RealtimeChannel, type: string, data: Record<string, any>): RealtimeEvent {
+    const storeId = this.storeContext.getStoreId();
+    const stream = this.getStream(storeId);
+    const sequence = ++this.sequence;
+    const event: RealtimeEvent = {
+      id: `${this.epoch}-${sequence}`,
+      storeId,
+      channel,
+      type,
+      data,
+      occurredAt: new Date().toISOString(),
+    };
+
+    stream.buffer.push(event);
+    stream.lastSequence = sequence;
+    if (stream.buffer.length > this.replayBufferSize) {
+      stream.evictedSequence = this.parseId(stream.buffer.shift().id).sequence;
+    }
+
+    stream.events.next(event);
+    return event;
+  }
+
+  /**
+   * Publish the real-time metrics fields that changed since they were last published;
+   * returns null when nothing changed
+   */
+  publishMetrics(metrics: Record<string, any>): RealtimeEvent | null {
+    const stream = this.getStream(this.storeContext.getStoreId());
+    // Serialize once so Money and Date values compare and replay as they are sent
+    const current: Record<string, any> = JSON.parse(JSON.stringify(metrics));
+    delete current.timestamp;
+
+    const changes = Object.fromEntries(
+      Object.entries(current).filter(
+        ([key, value]) => !stream.metrics || JSON.stringify(stream.metrics[key]) !== JSON.stringify(value),
+      ),
+    );
+    stream.metrics = current;
+
+    if (Object.keys(changes).length === 0) return null;
+    return this.publish('revenue', 'metrics.updated', { changes });
+  }
+
+  /**
+   * Stream the current store's events on the given channels as server-sent events.
+   * With a Last-Event-ID, buffered events after it are replayed first; when they are no
+   * longer buffered (or the server restarted) a reset event tells the client to reload.
+   * Heartbeats repeat the last event id so a reconnect resumes from the right place.
+   */
+  subscribe(channels: RealtimeChannel[], lastEventId?: string): Observable<MessageEvent> {
+    const storeId = this.storeContext.getStoreId();
+    const stream = this.getStream(storeId);
+
+    return new Observable<MessageEvent>(subscriber => {
+      let lastId = `${this.epoch}-${stream.lastSequence}`;
+      const send = (event: RealtimeEvent) => {
+        lastId = event.id;
+        subscriber.next({ id: event.id, type: event.type, data: event });
+      };
+      const wanted = (event: RealtimeEvent) => channels.includes(event.channel);
+
+      const missed = lastEventId ? this.replay(stream, lastEventId) : null;
+      if (missed) {
+        missed.filter(wanted).forEach(send);
+      } else {
+        if (lastEventId) {
+          subscriber.next({ id: lastId, type: 'reset', data: { storeId, lastEventId, resumeFrom: lastId } });
+        }
+        // Clients starting over get the current metrics to apply later changes to
+        if (stream.metrics && channels.includes('revenue')) {
+          subscriber.next({ id: lastId, type: 'metrics.snapshot', data: { storeId, metrics: stream.metrics } });
+        }
+      }
+
+      const live = stream.events.subscribe(event => {
+        if (wanted(event)) send(event);
+      });
+      const heartbeat = setInterval(
+        () => subscriber.next({ id: lastId, type: 'heartbeat', data: { occurredAt: new Date().toISOString() } }),
+        this.heartbeatSeconds * 1000,
+      );
+
+      stream.subscribers++;
+      this.logger.debug(`Stream subscriber joined store ${storeId} on ${channels.join(', ')}`);
+
+      return () => {
+        live.unsubscribe();
+        clearInterval(heartbeat);
+        stream.subscribers--;
+        this.logger.debug(`Stream subscriber left store ${storeId}`);
+      };
+    });
+  }
+
+  /**
+   * Subscribers and buffered events of the current store
+   */
+  getStatus(): RealtimeStatus {
+    const storeId = this.storeContext.getStoreId();
+    const stream = this.getStream(storeId);
+
+    return {
+      storeId,
+      subscribers: stream.subscribers,
+      lastEventId: `${this.epoch}-${stream.lastSequence}`,
+      bufferedEvents: stream.buffer.length,
+      oldestBufferedEventId: stream.buffer[0]?.id || null,
+      heartbeatSeconds: this.heartbeatSeconds,
+    };
+  }
+
+  /**
+   * Buffered events after an event id, or null when events after it may have been dropped
+   */
+  private replay(stream: StoreStream, lastEventId: string): RealtimeEvent[] | null {
+    const { epoch, sequence } = this.parseId(lastEventId);
+    if (
+      epoch !== this.epoch ||
+      !Number.isInteger(sequence) ||
+      sequence < stream.evictedSequence ||
+      sequence > this.sequence
+    ) {
+      return null;
+    }
+    return stream.buffer.filter(event => this.parseId(event.id).sequence > sequence);
+  }
+
+  private parseId(id: string): { epoch: string; sequence: number } {
+    const [epoch, sequence] = String(id).split('-');
+    return { epoch, sequence: Number(sequence) };
+  }
+
+  private getStream(storeId: string): StoreStream {
+    let stream = this.streams.get(storeId);
+    if (!stream) {
+      stream = {
+        events: new Subject<RealtimeEvent>(),
+        buffer: [],
+        evictedSequence: 0,
+        lastSequence: 0,
+        metrics: null,
+        subscribers: 0,
+      };
+      this.streams.set(storeId, stream);
+    }
+    return stream;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { StoresModule } from '../stores/stores.module';
+import { RealtimeEventsService } from './realtime-events.service';
+
+@Module({
+  imports: [ConfigModule, StoresModule],
+  providers: [RealtimeEventsService],
+  exports: [RealtimeEventsService],
+})
+export class RealtimeModule {}
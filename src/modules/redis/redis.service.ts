@@ -2,6 +2,7 @@ import { Injectable, Logger, Inject } from '@nestjs/common';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { ConfigService } from '@nestjs/config';
+import { StoreContextService } from '../stores/store-context.service';
 
 export interface CacheOptions {
   ttl?: number;
@@ -16,6 +17,7 @@ export class RedisService {
   constructor(
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
     private configService: ConfigService,
+    private storeContext: StoreContextService,
   ) {
     this.defaultTtl = this.configService.get<number>('config.cache.ttlSeconds', 300);
   }
@@ -25,7 +27,7 @@ export class RedisService {
    */
   async get<T>(key: string): Promise<T | null> {
     try {
-      const value = await this.cacheManager.get<T>(key);
+      const value = await this.cacheManager.get<T>(this.scopeKey(key));
       this.logger.debug(`Cache GET: ${key} - ${value ? 'HIT' : 'MISS'}`);
       return value || null;
     } catch (error) {
@@ -40,7 +42,7 @@ export class RedisService {
   async set<T>(key: string, value: T, options?: CacheOptions): Promise<void> {
     try {
       const ttl = options?.ttl || this.defaultTtl;
-      await this.cacheManager.set(key, value, ttl * 1000); // Convert to milliseconds
+      await this.cacheManager.set(this.scopeKey(key), value, ttl * 1000); // Convert to milliseconds
       this.logger.debug(`Cache SET: ${key} (TTL: ${ttl}s)`);
     } catch (error) {
       this.logger.error(`Cache SET error for key ${key}:`, error);
@@ -53,7 +55,7 @@ export class RedisService {
    */
   async del(key: string): Promise<void> {
     try {
-      await this.cacheManager.del(key);
+      await this.cacheManager.del(this.scopeKey(key));
       this.logger.debug(`Cache DEL: ${key}`);
     } catch (error) {
       this.logger.error(`Cache DEL error for key ${key}:`, error);
@@ -66,7 +68,7 @@ export class RedisService {
    */
   async exists(key: string): Promise<boolean> {
     try {
-      const value = await this.cacheManager.get(key);
+      const value = await this.cacheManager.get(this.scopeKey(key));
       return value !== undefined && value !== null;
     } catch (error) {
       this.logger.error(`Cache EXISTS error for key ${key}:`, error);
@@ -171,6 +173,19 @@ export class RedisService {
         products: (page: number = 1) => `shopify:products:page:${page}`,
         customers: (page: number = 1) => `shopify:customers:page:${page}`,
         lastSync: 'shopify:last_sync',
+        datasets: {
+          orders: 'shopify:dataset:orders',
+          products: 'shopify:dataset:products',
+          customers: 'shopify:dataset:customers',
+        },
+      },
+      webhooks: {
+        processed: (webhookId: string) => `webhooks:processed:${webhookId}`,
+        inventoryLevel: (inventoryItemId: number, locationId: number) =>
+          `webhooks:inventory_level:${inventoryItemId}:${locationId}`,
+        // Inventory items whose levels could not be fetched after a webhook, retried on sync
+        inventoryResync: 'webhooks:inventory_resync',
+        stats: 'webhooks:stats',
       },
       analytics: {
         dailySales: (date: string) => `analytics:daily_sales:${date}`,
@@ -216,4 +231,11 @@ export class RedisService {
       return null;
     }
   }
+
+  /**
+   * Prefix a key with the current store so stores never share cached data
+   */
+  private scopeKey(key: string): string {
+    return `store:${this.storeContext.getStoreId()}:${key}`;
+  }
 }
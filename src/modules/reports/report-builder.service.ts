@@ -0,0 +1,304 @@
+import { Injectable } from '@nestjs/common';
+import * as moment from 'moment';
+import { OrderRepository } from '../storage/order.repository';
+import { SalesBreakdownService } from '../analytics/sales-breakdown.service';
+import { RepAttributionService } from '../sales-reps/rep-attribution.service';
+import { AlertsService } from '../alerts/alerts.service';
+import { CurrencyService } from '../currency/currency.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { Money } from '@shared/money';
+import { ShopifyOrder } from '@interfaces/shopify.interface';
+import { ReportDocument, ReportMetric, ReportSectionContent, ReportSectionKey } from '@interfaces/report.interface';
+
+const TOP_SELLERS = 10;
+const LEADERBOARD_SIZE = 10;
+const MAX_LOW_STOCK_ROWS = 25;
+
+interface Range {
+  start: Date;
+  end: Date;
+}
+
+interface PeriodStats {
+  netSales: Money;
+  orders: number;
+  averageOrderValue: Money;
+  customers: number;
+  refunded: Money;
+}
+
+/**
+ * Builds report sections from stored orders, rep attribution and unresolved alerts
+ */
+@Injectable()
+export class ReportBuilderService {
+  constructor(
+    private readonly orderRepository: OrderRepository,
+    private readonly salesBreakdownService: SalesBreakdownService,
+    private readonly repAttributionService: RepAttributionService,
+    private readonly alertsService: AlertsService,
+    private readonly currencyService: CurrencyService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Build a report over the complete days before now in the store's time zone. Sections keep the
+   * order they are given in.
+   */
+  build(title: string, sections: ReportSectionKey[], periodDays: number, now: Date = new Date()): ReportDocument {
+    const store = this.storeContext.getStore();
+    const currency = this.currencyService.getShopCurrency();
+    const end = this.storeContext.moment(now).startOf('day');
+    const period: Range = { start: end.clone().subtract(periodDays, 'days').toDate(), end: end.toDate() };
+
+    return {
+      title,
+      storeName: store.name || store.id,
+      currency,
+      timezone: this.storeContext.getTimezone(),
+      periodStart: period.start.toISOString(),
+      periodEnd: period.end.toISOString(),
+      generatedAt: now.toISOString(),
+      sections: sections.map(section => this.buildSection(section, period, currency)),
+    };
+  }
+
+  private buildSection(section: ReportSectionKey, period: Range, currency: string): ReportSectionContent {
+    switch (section) {
+      case 'summary':
+        return this.buildSummary(period, currency);
+      case 'ytd':
+        return this.buildYearToDate(period, currency);
+      case 'top_sellers':
+        return this.buildTopSellers(period, currency);
+      case 'low_stock':
+        return this.buildLowStock();
+      case 'rep_leaderboard':
+        return this.buildRepLeaderboard(period, currency);
+    }
+  }
+
+  private buildSummary(period: Range, currency: string): ReportSectionContent {
+    const start = this.storeContext.moment(period.start);
+    const days = this.storeContext.moment(period.end).diff(start, 'days');
+    const previous: Range = { start: start.subtract(days, 'days').toDate(), end: period.start };
+    const orders = this.loadOrders({ start: previous.start, end: period.end });
+    const current = this.periodStats(orders, period, currency);
+    const before = this.periodStats(orders, previous, currency);
+
+    return {
+      key: 'summary',
+      title: 'Sales summary',
+      description: 'Sales of the report period compared with the period of the same length before it',
+      metrics: this.compareStats(current, before),
+      table: null,
+      emptyMessage: '',
+    };
+  }
+
+  private buildYearToDate(period: Range, currency: string): ReportSectionContent {
+    const yearStart = this.storeContext.moment(period.end.getTime() - 1).startOf('year');
+    const year: Range = { start: yearStart.toDate(), end: period.end };
+    const lastYear: Range = {
+      start: yearStart.clone().subtract(1, 'year').toDate(),
+      end: this.storeContext.moment(period.end).subtract(1, 'year').toDate(),
+    };
+    const orders = this.loadOrders(year);
+    const lastYearOrders = this.loadOrders(lastYear);
+
+    const rows: string[][] = [];
+    for (let month = yearStart.clone(); month.isBefore(period.end); month.add(1, 'month')) {
+      const monthEnd = moment.min(month.clone().add(1, 'month'), this.storeContext.moment(period.end));
+      const stats = this.periodStats(orders, { start: month.toDate(), end: monthEnd.toDate() }, currency);
+      rows.push([
+        month.format('MMMM'),
+        stats.netSales.toString(),
+        String(stats.orders),
+        stats.averageOrderValue.toString(),
+      ]);
+    }
+
+    return {
+      key: 'ytd',
+      title: `Year to date ${yearStart.year()}`,
+      description: 'Sales since the start of the year compared with the same days last year',
+      metrics: this.compareStats(
+        this.periodStats(orders, year, currency),
+        this.periodStats(lastYearOrders, lastYear, currency),
+      ),
+      table: { columns: ['Month', 'Net sales', 'Orders', 'Average order value'], rows },
+      emptyMessage: '',
+    };
+  }
+
+  private buildTopSellers(period: Range, currency: string): ReportSectionContent {
+    const products = new Map<string, { title: string; units: number; sales: Money }>();
+    let totalSales = Money.zero(currency);
+
+    for (const order of this.loadOrders(period)) {
+      for (const { node: item } of order.lineItems?.edges || []) {
+        const id = item.variant?.product?.id || item.title;
+        const sales = Money.fromShopMoney(item.discountedUnitPriceSet, currency).multiply(item.quantity || 0);
+        const product = products.get(id) || {
+          title: item.variant?.product?.title || item.title,
+          units: 0,
+          sales: Money.zero(currency),
+        };
+
+        product.units += item.quantity || 0;
+        product.sales = product.sales.add(sales);
+        products.set(id, product);
+        totalSales = totalSales.add(sales);
+      }
+    }
+
+    const rows = [...products.values()]
+      .sort((a, b) => b.sales.compare(a.sales) || b.units - a.units)
+      .slice(0, TOP_SELLERS)
+      .map((product, index) => [
+        String(index + 1),
+        product.title,
+        String(product.units),
+        product.sales.toString(),
+        `${(product.sales.ratio(totalSales) * 100).toFixed(1)}%`,
+      ]);
+
+    return {
+      key: 'top_sellers',
+      title: 'Top sellers',
+      description: 'Products with the highest sales after discounts in the report period',
+      metrics: [
+        { label: 'Products sold', value: String(products.size) },
+        { label: 'Product sales', value: totalSales.toString() },
+      ],
+      table: { columns: ['#', 'Product', 'Units', 'Sales', 'Share'], rows },
+      emptyMessage: 'No products were sold in the report period',
+    };
+  }
+
+  private buildLowStock(): ReportSectionContent {
+    const alerts = this.alertsService.listAlerts({ status: 'active', category: 'inventory' });
+    const countOf = (severity: string) => alerts.filter(alert => alert.severity === severity).length;
+
+    return {
+      key: 'low_stock',
+      title: 'Low stock',
+      description: 'Unresolved inventory alerts raised by the alert rules, most severe first',
+      metrics: [
+        { label: 'Inventory alerts', value: String(alerts.length) },
+        { label: 'Critical', value: String(countOf('CRITICAL')) },
+        { label: 'High', value: String(countOf('HIGH')) },
+      ],
+      table: {
+        columns: ['Severity', 'Item', 'SKU', 'Rule', 'Value'],
+        rows: alerts
+          .slice(0, MAX_LOW_STOCK_ROWS)
+          .map(alert => [
+            alert.severity,
+            alert.subject.label,
+            alert.subject.sku || '-',
+            alert.ruleName,
+            String(alert.value),
+          ]),
+      },
+      emptyMessage: 'No unresolved inventory alerts',
+    };
+  }
+
+  private buildRepLeaderboard(period: Range, currency: string): ReportSectionContent {
+    const attributor = this.repAttributionService.createAttributor();
+    const reps = new Map<string, { sales: Money; creditedOrders: number }>();
+
+    for (const order of this.loadOrders(period)) {
+      const credits = attributor.attribute(order);
+      const creditedSales = Money.fromShopMoney(order.totalPriceSet, currency).allocate(
+        credits.map(credit => credit.share),
+      );
+      credits.forEach((credit, index) => {
+        const rep = reps.get(credit.repId) || { sales: Money.zero(currency), creditedOrders: 0 };
+        rep.sales = rep.sales.add(creditedSales[index]);
+        rep.creditedOrders += credit.share;
+        reps.set(credit.repId, rep);
+      });
+    }
+
+    const rows = [...reps.entries()]
+      .sort(([, a], [, b]) => b.sales.compare(a.sales))
+      .slice(0, LEADERBOARD_SIZE)
+      .map(([repId, rep], index) => [
+        String(index + 1),
+        attributor.getRepName(repId),
+        rep.sales.toString(),
+        String(Math.round(rep.creditedOrders * 100) / 100),
+        rep.sales.divide(rep.creditedOrders).toString(),
+      ]);
+
+    return {
+      key: 'rep_leaderboard',
+      title: 'Sales rep leaderboard',
+      description: 'Order totals credited to reps by the attribution rules in the report period',
+      metrics: [],
+      table: { columns: ['#', 'Rep', 'Sales', 'Orders', 'Average order value'], rows },
+      emptyMessage: 'No orders were credited to reps in the report period',
+    };
+  }
+
+  /**
+   * Orders placed in a range, which ends just before range.end
+   */
+  private loadOrders(range: Range): ShopifyOrder[] {
+    return this.orderRepository.findByDateRange(range.start, new Date(range.end.getTime() - 1), {
+      includeCancelled: false,
+    });
+  }
+
+  private periodStats(orders: ShopifyOrder[], range: Range, currency: string): PeriodStats {
+    const end = new Date(range.end.getTime() - 1);
+    const placed = orders.filter(order => {
+      const createdAt = new Date(order.createdAt);
+      return createdAt >= range.start && createdAt <= end;
+    });
+    const breakdownRange = { start: range.start, end };
+    const breakdown = this.salesBreakdownService.calculateBreakdown(
+      this.salesBreakdownService.withOrdersRefundedIn(orders, breakdownRange, { includeCancelled: false }),
+      currency,
+      breakdownRange,
+    );
+
+    return {
+      netSales: breakdown.netSales,
+      orders: placed.length,
+      averageOrderValue: breakdown.netSales.divide(placed.length),
+      customers: new Set(placed.map(order => order.customer?.id).filter(Boolean)).size,
+      refunded: breakdown.refunded,
+    };
+  }
+
+  private compareStats(current: PeriodStats, previous: PeriodStats): ReportMetric[] {
+    const change = (value: number, before: number) => {
+      if (before === 0) return null;
+      const percent = ((value - before) / Math.abs(before)) * 100;
+      return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+    };
+
+    return [
+      {
+        label: 'Net sales',
+        value: current.netSales.toString(),
+        change: change(current.netSales.toNumber(), previous.netSales.toNumber()),
+      },
+      { label: 'Orders', value: String(current.orders), change: change(current.orders, previous.orders) },
+      {
+        label: 'Average order value',
+        value: current.averageOrderValue.toString(),
+        change: change(current.averageOrderValue.toNumber(), previous.averageOrderValue.toNumber()),
+      },
+      { label: 'Customers', value: String(current.customers), change: change(current.customers, previous.customers) },
+      {
+        label: 'Refunded',
+        value: current.refunded.toString(),
+        change: change(current.refunded.toNumber(), previous.refunded.toNumber()),
+      },
+    ];
+  }
+}
@@ -0,0 +1,173 @@
+import * as moment from 'moment-timezone';
+import * as PDFDocument from 'pdfkit';
+import { ReportDocument, ReportSectionContent } from '@interfaces/report.interface';
+
+const PAGE_MARGIN = 50;
+const ROW_HEIGHT = 16;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Report period as shown to readers, in its time zone; the period ends at midnight, so the last day
+ * is the one before
+ */
+const formatPeriod = (doc: ReportDocument) =>
+  `${moment.tz(doc.periodStart, doc.timezone).format('D MMM YYYY')} - ${moment
+    .tz(doc.periodEnd, doc.timezone)
+    .subtract(1, 'ms')
+    .format('D MMM YYYY')}`;
+
+const formatMetric = (metric: ReportSectionContent['metrics'][number]) =>
+  metric.change ? `${metric.value} (${metric.change})` : metric.value;
+
+/**
+ * Render a report as a self-contained HTML email; styles are inline because mail clients drop style sheets
+ */
+export function renderReportHtml(doc: ReportDocument): string {
+  const cell = 'padding:4px 8px;border-bottom:1px solid #e5e7eb;text-align:left;';
+  const sections = doc.sections.map(section => {
+    const metrics = section.metrics
+      .map(
+        metric =>
+          `<td style="padding:0 24px 8px 0;vertical-align:top;">` +
+          `<div style="color:#6b7280;font-size:12px;">${escapeHtml(metric.label)}</div>` +
+          `<div style="font-size:18px;font-weight:bold;">${escapeHtml(metric.value)}</div>` +
+          (metric.change ? `<div style="color:#6b7280;font-size:12px;">${escapeHtml(metric.change)}</div>` : '') +
+          `</td>`,
+      )
+      .join('');
+
+    let table = '';
+    if (section.table && section.table.rows.length > 0) {
+      const head = section.table.columns.map(column => `<th style="${cell}">${escapeHtml(column)}</th>`).join('');
+      const rows = section.table.rows
+        .map(row => `<tr>${row.map(value => `<td style="${cell}">${escapeHtml(value)}</td>`).join('')}</tr>`)
+        .join('');
+      table = `<table style="border-collapse:collapse;width:100%;font-size:13px;"><tr>${head}</tr>${rows}</table>`;
+    } else if (section.table) {
+      table = `<p style="color:#6b7280;">${escapeHtml(section.emptyMessage)}</p>`;
+    }
+
+    return (
+      `<h2 style="font-size:18px;margin:24px 0 4px;">${escapeHtml(section.title)}</h2>` +
+      `<p style="color:#6b7280;margin:0 0 12px;font-size:13px;">${escapeHtml(section.description)}</p>` +
+      (metrics ? `<table style="border-collapse:collapse;"><tr>${metrics}</tr></table>` : '') +
+      table
+    );
+  });
+
+  return (
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(doc.title)}</title></head>` +
+    `<body style="font-family:Helvetica,Arial,sans-serif;color:#111827;max-width:720px;margin:0 auto;padding:24px;">` +
+    `<h1 style="font-size:22px;margin:0;">${escapeHtml(doc.title)}</h1>` +
+    `<p style="color:#6b7280;margin:4px 0 0;">${escapeHtml(doc.storeName)} · ${escapeHtml(formatPeriod(doc))} · ` +
+    `amounts in ${escapeHtml(doc.currency)}</p>` +
+    sections.join('') +
+    `<p style="color:#9ca3af;font-size:12px;margin-top:32px;">Generated ${escapeHtml(doc.generatedAt)}</p>` +
+    `</body></html>`
+  );
+}
+
+/**
+ * Render a report as plain text, for mail clients that do not show HTML
+ */
+export function renderReportText(doc: ReportDocument): string {
+  const lines = [doc.title, `${doc.storeName}, ${formatPeriod(doc)}, amounts in ${doc.currency}`];
+
+  for (const section of doc.sections) {
+    lines.push('', section.title.toUpperCase());
+    section.metrics.forEach(metric => lines.push(`${metric.label}: ${formatMetric(metric)}`));
+
+    if (section.table && section.table.rows.length > 0) {
+      lines.push(section.table.columns.join(' | '));
+      section.table.rows.forEach(row => lines.push(row.join(' | ')));
+    } else if (section.table) {
+      lines.push(section.emptyMessage);
+    }
+  }
+
+  lines.push('', `Generated ${doc.generatedAt}`);
+  return lines.join('\n');
+}
+
+/**
+ * Render a report as an A4 PDF
+ */
+export function renderReportPdf(doc: ReportDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: doc.title } });
+    const chunks: Buffer[] = [];
+    const width = pdf.page.width - PAGE_MARGIN * 2;
+    const bottom = () => pdf.page.height - PAGE_MARGIN;
+
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    const ensureSpace = (height: number) => {
+      if (pdf.y + height > bottom()) pdf.addPage();
+    };
+
+    const drawRow = (values: string[], bold: boolean) => {
+      ensureSpace(ROW_HEIGHT);
+      const y = pdf.y;
+      const columnWidth = width / values.length;
+
+      pdf.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+      values.forEach((value, index) => {
+        pdf.text(value, PAGE_MARGIN + index * columnWidth, y, {
+          width: columnWidth - 6,
+          height: ROW_HEIGHT,
+          lineBreak: false,
+          ellipsis: true,
+        });
+      });
+      pdf
+        .moveTo(PAGE_MARGIN, y + ROW_HEIGHT - 4)
+        .lineTo(PAGE_MARGIN + width, y + ROW_HEIGHT - 4)
+        .strokeColor('#e5e7eb')
+        .stroke();
+      pdf.x = PAGE_MARGIN;
+      pdf.y = y + ROW_HEIGHT;
+    };
+
+    pdf.font('Helvetica-Bold').fontSize(18).fillColor('#111827').text(doc.title);
+    pdf
+      .font('Helvetica')
+      .fontSize(10)
+      .fillColor('#6b7280')
+      .text(`${doc.storeName} - ${formatPeriod(doc)} - amounts in ${doc.currency}`);
+
+    for (const section of doc.sections) {
+      ensureSpace(80);
+      pdf.moveDown(1.5);
+      pdf.font('Helvetica-Bold').fontSize(13).fillColor('#111827').text(section.title, PAGE_MARGIN);
+      pdf.font('Helvetica').fontSize(9).fillColor('#6b7280').text(section.description);
+      pdf.moveDown(0.5).fillColor('#111827');
+
+      section.metrics.forEach(metric => {
+        ensureSpace(ROW_HEIGHT);
+        pdf.font('Helvetica').fontSize(10).text(`${metric.label}: `, PAGE_MARGIN, pdf.y, { continued: true });
+        pdf.font('Helvetica-Bold').text(formatMetric(metric));
+      });
+
+      if (section.table && section.table.rows.length > 0) {
+        pdf.moveDown(0.5);
+        drawRow(section.table.columns, true);
+        section.table.rows.forEach(row => drawRow(row, false));
+      } else if (section.table) {
+        pdf.font('Helvetica').fontSize(10).fillColor('#6b7280').text(section.emptyMessage).fillColor('#111827');
+      }
+    }
+
+    pdf.moveDown(2);
+    pdf.font('Helvetica').fontSize(8).fillColor('#9ca3af').text(`Generated ${doc.generatedAt}`, PAGE_MARGIN);
+    pdf.end();
+  });
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { AnalyticsModule } from '../analytics/analytics.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { StoresModule } from '../stores/stores.module';
+import { SalesRepsModule } from '../sales-reps/sales-reps.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { MailModule } from '../mail/mail.module';
+import { ReportsService } from './reports.service';
+import { ReportBuilderService } from './report-builder.service';
+
+@Module({
+  imports: [StorageModule, AnalyticsModule, CurrencyModule, StoresModule, SalesRepsModule, AlertsModule, MailModule],
+  providers: [ReportsService, ReportBuilderService],
+  exports: [ReportsService, ReportBuilderService],
+})
+export class ReportsModule {}
@@ -0,0 +1,340 @@
+import { Injectable, Logger, OnModuleInit, BadRequestException, NotFoundException } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob, CronTime } from 'cron';
+import { randomUUID } from 'crypto';
+import { ReportScheduleRepository } from '../storage/report-schedule.repository';
+import { GeneratedReportRepository } from '../storage/generated-report.repository';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { MailService, parseEmailAddresses } from '../mail/mail.service';
+import { ReportBuilderService } from './report-builder.service';
+import { renderReportHtml, renderReportPdf, renderReportText } from './report-renderer';
+import {
+  REPORT_SECTIONS,
+  GeneratedReport,
+  ReportFormat,
+  ReportRequest,
+  ReportSchedule,
+  ReportScheduleInput,
+  ReportSectionKey,
+} from '@interfaces/report.interface';
+
+const DEFAULT_PERIOD_DAYS = 7;
+const MAX_PERIOD_DAYS = 366;
+
+/**
+ * Report schedules and the reports they generate. Each enabled schedule runs as a cron job
+ * in its own time zone; every run is kept with its HTML and PDF so it can be downloaded later.
+ */
+@Injectable()
+export class ReportsService implements OnModuleInit {
+  private readonly logger = new Logger(ReportsService.name);
+
+  constructor(
+    private readonly scheduleRepository: ReportScheduleRepository,
+    private readonly generatedReportRepository: GeneratedReportRepository,
+    private readonly reportBuilder: ReportBuilderService,
+    private readonly mailService: MailService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly storeRegistry: StoreRegistryService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Register a job for every enabled schedule of every store
+   */
+  onModuleInit(): void {
+    for (const store of this.storeRegistry.getStores()) {
+      this.storeContext.run(store.id, () => {
+        this.scheduleRepository.findAll(true).forEach(schedule => this.registerJob(schedule));
+      });
+    }
+  }
+
+  /**
+   * List every schedule, with its next run
+   */
+  listSchedules(): ReportSchedule[] {
+    return this.scheduleRepository.findAll().map(schedule => this.withNextRun(schedule));
+  }
+
+  /**
+   * Get a schedule by id, with its next run
+   */
+  getSchedule(id: string): ReportSchedule {
+    return this.withNextRun(this.findSchedule(id));
+  }
+
+  /**
+   * Create a schedule and start its job
+   */
+  createSchedule(input: ReportScheduleInput): ReportSchedule {
+    const schedule = this.scheduleRepository.save(this.buildSchedule(input));
+    this.registerJob(schedule);
+    this.logger.log(`Created report schedule "${schedule.name}" (${schedule.cron} ${schedule.timezone})`);
+    return this.withNextRun(schedule);
+  }
+
+  /**
+   * Update a schedule; omitted fields keep their value. The job is replaced.
+   */
+  updateSchedule(id: string, input: Partial<ReportScheduleInput>): ReportSchedule {
+    const existing = this.findSchedule(id);
+    const defined = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+    const schedule = this.scheduleRepository.save(
+      this.buildSchedule({ ...existing, ...defined } as ReportScheduleInput, existing),
+    );
+
+    this.registerJob(schedule);
+    return this.withNextRun(schedule);
+  }
+
+  /**
+   * Delete a schedule and stop its job; reports it generated stay in the history
+   */
+  deleteSchedule(id: string): void {
+    this.findSchedule(id);
+    this.removeJob(id);
+    this.scheduleRepository.delete(id);
+  }
+
+  /**
+   * Generate a schedule's report now and email it to the recipients
+   */
+  async runSchedule(id: string): Promise<GeneratedReport> {
+    const schedule = this.findSchedule(id);
+    const { report, html, text, pdf } = await this.render(
+      schedule.name,
+      schedule.sections,
+      schedule.periodDays,
+      schedule.id,
+      schedule.recipients,
+    );
+
+    let status: GeneratedReport['status'] = 'sent';
+    let error: string | null = null;
+    try {
+      await this.mailService.send({
+        to: schedule.recipients,
+        subject: `${report.name}: ${this.storeName()}`,
+        text,
+        html,
+        attachments: schedule.attachPdf
+          ? [{ filename: `${this.fileName(report)}.pdf`, content: pdf, contentType: 'application/pdf' }]
+          : [],
+      });
+    } catch (sendError) {
+      status = 'failed';
+      error = sendError.message;
+      this.logger.warn(`Failed to email report "${schedule.name}": ${error}`);
+    }
+
+    const sentAt = status === 'sent' ? new Date().toISOString() : null;
+    this.generatedReportRepository.updateDelivery(report.id, status, error, sentAt);
+    this.scheduleRepository.markRun(schedule.id, report.createdAt, status);
+
+    return { ...report, status, error, sentAt };
+  }
+
+  /**
+   * Generate a report now without emailing it; it is kept in the history for download
+   */
+  async generate(request: ReportRequest): Promise<GeneratedReport> {
+    const name = typeof request.name === 'string' && request.name.trim() ? request.name.trim() : 'Sales report';
+    const { report } = await this.render(
+      name,
+      this.parseSections(request.sections),
+      this.parsePeriodDays(request.periodDays),
+      null,
+      [],
+    );
+    return report;
+  }
+
+  /**
+   * Generated reports, newest first
+   */
+  listHistory(filters: { scheduleId?: string; limit?: number } = {}): GeneratedReport[] {
+    return this.generatedReportRepository.find(filters);
+  }
+
+  /**
+   * Get a generated report by id
+   */
+  getHistory(id: string): GeneratedReport {
+    const report = this.generatedReportRepository.findById(id);
+    if (!report) {
+      throw new NotFoundException(`Report ${id} not found`);
+    }
+    return report;
+  }
+
+  /**
+   * A generated report's HTML or PDF, with the file name to download it as
+   */
+  getDocument(id: string, format: ReportFormat): { fileName: string; content: string | Buffer } {
+    const report = this.getHistory(id);
+    const content = this.generatedReportRepository.findDocument(id, format);
+    if (content === null) {
+      throw new NotFoundException(`Report ${id} has no ${format} document`);
+    }
+    return { fileName: `${this.fileName(report)}.${format}`, content };
+  }
+
+  private async render(
+    name: string,
+    sections: ReportSectionKey[],
+    periodDays: number,
+    scheduleId: string | null,
+    recipients: string[],
+  ): Promise<{ report: GeneratedReport; html: string; text: string; pdf: Buffer }> {
+    const now = new Date();
+    const document = this.reportBuilder.build(name, sections, periodDays, now);
+    const html = renderReportHtml(document);
+    const pdf = await renderReportPdf(document);
+
+    const report = this.generatedReportRepository.insert(
+      {
+        id: randomUUID(),
+        scheduleId,
+        name,
+        sections,
+        periodStart: document.periodStart,
+        periodEnd: document.periodEnd,
+        recipients,
+        status: 'generated',
+        error: null,
+        pdfBytes: pdf.length,
+        createdAt: now.toISOString(),
+        sentAt: null,
+      },
+      html,
+      pdf,
+    );
+
+    return { report, html, text: renderReportText(document), pdf };
+  }
+
+  private registerJob(schedule: ReportSchedule): void {
+    this.removeJob(schedule.id);
+    if (!schedule.enabled) return;
+
+    const storeId = this.storeContext.getStoreId();
+    const job = new CronJob(
+      schedule.cron,
+      async () => {
+        try {
+          await this.storeContext.run(storeId, () => this.runSchedule(schedule.id));
+        } catch (error) {
+          this.logger.error(`Scheduled report "${schedule.name}" failed:`, error);
+        }
+      },
+      null,
+      false,
+      schedule.timezone,
+    );
+
+    this.schedulerRegistry.addCronJob(this.jobName(schedule.id), job);
+    job.start();
+  }
+
+  private removeJob(id: string): void {
+    const name = this.jobName(id);
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.deleteCronJob(name);
+    }
+  }
+
+  private jobName(id: string): string {
+    return `report:${this.storeContext.getStoreId()}:${id}`;
+  }
+
+  private withNextRun(schedule: ReportSchedule): ReportSchedule {
+    if (!schedule.enabled) return schedule;
+
+    const nextRun = new CronTime(schedule.cron, schedule.timezone).sendAt().toJSDate();
+    return { ...schedule, nextRunAt: nextRun.toISOString() };
+  }
+
+  private findSchedule(id: string): ReportSchedule {
+    const schedule = this.scheduleRepository.findById(id);
+    if (!schedule) {
+      throw new NotFoundException(`Report schedule ${id} not found`);
+    }
+    return schedule;
+  }
+
+  private storeName(): string {
+    const store = this.storeContext.getStore();
+    return store.name || store.id;
+  }
+
+  private fileName(report: GeneratedReport): string {
+    const slug =
+      report.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '') || 'report';
+    return `${slug}-${this.storeContext.moment(report.periodEnd).format('YYYY-MM-DD')}`;
+  }
+
+  private parseSections(sections: any): ReportSectionKey[] {
+    if (
+      !Array.isArray(sections) ||
+      sections.length === 0 ||
+      sections.some(section => !REPORT_SECTIONS.includes(section))
+    ) {
+      throw new BadRequestException(`sections must be a non-empty list of: ${REPORT_SECTIONS.join(', ')}`);
+    }
+    return [...new Set<ReportSectionKey>(sections)];
+  }
+
+  private parsePeriodDays(periodDays: any): number {
+    const days = periodDays ?? DEFAULT_PERIOD_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_PERIOD_DAYS) {
+      throw new BadRequestException(`periodDays must be a whole number between 1 and ${MAX_PERIOD_DAYS}`);
+    }
+    return days;
+  }
+
+  private buildSchedule(input: ReportScheduleInput, existing?: ReportSchedule): ReportSchedule {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) {
+      throw new BadRequestException('name is required');
+    }
+
+    const cron = typeof input.cron === 'string' ? input.cron.trim() : '';
+    const timezone = input.timezone ?? this.storeContext.getTimezone();
+    try {
+      new CronTime(cron, timezone);
+    } catch (error) {
+      throw new BadRequestException(`Invalid cron or timezone: ${error.message}`);
+    }
+
+    if (input.attachPdf !== undefined && typeof input.attachPdf !== 'boolean') {
+      throw new BadRequestException('attachPdf must be a boolean');
+    }
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      throw new BadRequestException('enabled must be a boolean');
+    }
+
+    const now = new Date().toISOString();
+
+    return {
+      id: existing?.id || randomUUID(),
+      name,
+      cron,
+      timezone,
+      recipients: parseEmailAddresses(input.recipients, 'recipients'),
+      sections: this.parseSections(input.sections),
+      periodDays: this.parsePeriodDays(input.periodDays),
+      attachPdf: input.attachPdf ?? true,
+      enabled: input.enabled ?? true,
+      lastRunAt: existing?.lastRunAt || null,
+      lastStatus: existing?.lastStatus || null,
+      nextRunAt: null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+  }
+}
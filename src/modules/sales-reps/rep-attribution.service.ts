@@ -0,0 +1,165 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SalesRepRepository } from '../storage/sales-rep.repository';
+import { ShopifyOrder } from '@interfaces/shopify.interface';
+import {
+  ATTRIBUTION_RULE_TYPES,
+  AttributionRuleType,
+  AttributionSettings,
+  CustomerAssignment,
+  RepAttributor,
+  RepCredit,
+  SalesRep,
+} from '@interfaces/sales-rep.interface';
+
+export const UNASSIGNED_REP_ID = 'unassigned';
+
+/**
+ * Credits orders to sales reps. Rules are tried in the configured order and the
+ * first rule that matches wins; a rule matching several reps splits the credit.
+ */
+@Injectable()
+export class RepAttributionService {
+  private readonly logger = new Logger(RepAttributionService.name);
+  private readonly settings: AttributionSettings;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly salesRepRepository: SalesRepRepository,
+  ) {
+    this.settings = {
+      rules: this.parseRules(this.configService.get<string>('config.salesReps.attributionRules', '')),
+      tagPrefix: this.configService.get<string>('config.salesReps.tagPrefix', 'rep:'),
+    };
+  }
+
+  /**
+   * Configured attribution rules in the order they are applied
+   */
+  getSettings(): AttributionSettings {
+    return { ...this.settings, rules: [...this.settings.rules] };
+  }
+
+  /**
+   * Load the rep directory and customer assignments once and return an attributor
+   * for a batch of orders
+   */
+  createAttributor(): RepAttributor {
+    const reps = new Map(this.salesRepRepository.find().map(rep => [rep.id, rep]));
+    const assignmentsByCustomer = new Map<string, CustomerAssignment[]>();
+    const customersByRep = new Map<string, string[]>();
+
+    for (const assignment of this.salesRepRepository.findAssignments()) {
+      if (!assignmentsByCustomer.has(assignment.customerId)) assignmentsByCustomer.set(assignment.customerId, []);
+      assignmentsByCustomer.get(assignment.customerId).push(assignment);
+
+      if (!customersByRep.has(assignment.repId)) customersByRep.set(assignment.repId, []);
+      customersByRep.get(assignment.repId).push(assignment.customerId);
+    }
+
+    const repsByStaffMember = new Map<string, string>();
+    const repsByDiscountCode = new Map<string, string>();
+    for (const rep of reps.values()) {
+      if (rep.staffMemberId) repsByStaffMember.set(this.toLegacyId(rep.staffMemberId), rep.id);
+      rep.discountCodes.forEach(code => repsByDiscountCode.set(code.toLowerCase(), rep.id));
+    }
+
+    const matchers: Record<AttributionRuleType, (order: ShopifyOrder) => RepCredit[]> = {
+      customer_assignment: order =>
+        (assignmentsByCustomer.get(order.customer?.id) || []).map(assignment => ({
+          repId: assignment.repId,
+          share: assignment.share,
+          rule: 'customer_assignment',
+        })),
+      staff_member: order => {
+        const repId = order.staffMember?.id && repsByStaffMember.get(this.toLegacyId(order.staffMember.id));
+        return repId ? [{ repId, share: 1, rule: 'staff_member' }] : [];
+      },
+      discount_code: order =>
+        this.splitEvenly(
+          (order.discountCodes || []).map(code => repsByDiscountCode.get(code.toLowerCase())),
+          'discount_code',
+        ),
+      order_tag: order => this.splitEvenly(this.getTaggedReps(order.tags, reps), 'order_tag'),
+      customer_tag: order => this.splitEvenly(this.getTaggedReps(order.customer?.tags, reps), 'customer_tag'),
+    };
+
+    return {
+      reps,
+      attribute: (order: ShopifyOrder): RepCredit[] => {
+        for (const rule of this.settings.rules) {
+          const credits = matchers[rule](order);
+          if (credits.length > 0) return this.normalizeShares(credits);
+        }
+        return [{ repId: UNASSIGNED_REP_ID, share: 1, rule: 'unassigned' }];
+      },
+      getAssignedCustomers: (repId: string) => customersByRep.get(repId) || [],
+      getRepName: (repId: string) => this.getRepName(reps.get(repId), repId),
+    };
+  }
+
+  private getRepName(rep: SalesRep | undefined, repId: string): string {
+    if (rep) return rep.displayName;
+    if (repId === UNASSIGNED_REP_ID) return 'Unassigned';
+
+    return repId.replace(/[_.-]+/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+  }
+
+  /**
+   * Rep ids named by prefixed tags (e.g. "rep:jane_doe"). Tags match directory reps
+   * case-insensitively; unknown reps keep the id as tagged.
+   */
+  private getTaggedReps(tags: string[] | undefined, reps: Map<string, SalesRep>): string[] {
+    const prefix = this.settings.tagPrefix.toLowerCase();
+
+    return (tags || [])
+      .filter(tag => tag.toLowerCase().startsWith(prefix))
+      .map(tag => tag.slice(prefix.length).trim())
+      .filter(Boolean)
+      .map(repId => (reps.has(repId.toLowerCase()) ? repId.toLowerCase() : repId));
+  }
+
+  /**
+   * Scale credit shares to sum to exactly 1. Assignment shares are stored percentages that may
+   * add up to 100 only within a rounding tolerance; the last credit takes what the others leave.
+   */
+  private normalizeShares(credits: RepCredit[]): RepCredit[] {
+    const total = credits.reduce((sum, credit) => sum + credit.share, 0);
+    let assigned = 0;
+
+    return credits.map((credit, index) => {
+      const share = index === credits.length - 1 ? 1 - assigned : credit.share / total;
+      assigned += share;
+      return { ...credit, share };
+    });
+  }
+
+  private splitEvenly(repIds: Array<string | undefined>, rule: AttributionRuleType): RepCredit[] {
+    const unique = Array.from(new Set(repIds.filter(Boolean)));
+    return unique.map(repId => ({ repId, share: 1 / unique.length, rule }));
+  }
+
+  /**
+   * Staff members may be configured as a GID or a numeric id
+   */
+  private toLegacyId(id: string): string {
+    return String(id).split('/').pop();
+  }
+
+  private parseRules(value: string): AttributionRuleType[] {
+    const rules: AttributionRuleType[] = [];
+    const entries = (value || '').split(',').map(item => item.trim());
+
+    for (const rule of entries.filter(Boolean)) {
+      if (!ATTRIBUTION_RULE_TYPES.includes(rule as AttributionRuleType)) {
+        this.logger.warn(`Ignoring unknown sales rep attribution rule "${rule}"`);
+        continue;
+      }
+      if (!rules.includes(rule as AttributionRuleType)) {
+        rules.push(rule as AttributionRuleType);
+      }
+    }
+
+    return rules;
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { StorageModule } from '../storage/storage.module';
+import { SalesRepsService } from './sales-reps.service';
+import { RepAttributionService } from './rep-attribution.service';
+
+@Module({
+  imports: [ConfigModule, StorageModule],
+  providers: [SalesRepsService, RepAttributionService],
+  exports: [SalesRepsService, RepAttributionService],
+})
+export class SalesRepsModule {}
@@ -0,0 +1,196 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import * as moment from 'moment';
+import { SalesRepRepository } from '../storage/sales-rep.repository';
+import {
+  SalesRep,
+  SalesRepInput,
+  SalesRepFilters,
+  CustomerAssignment,
+  CustomerAssignmentInput,
+} from '@interfaces/sales-rep.interface';
+
+const REP_ID_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/;
+
+@Injectable()
+export class SalesRepsService {
+  private readonly logger = new Logger(SalesRepsService.name);
+
+  constructor(private readonly salesRepRepository: SalesRepRepository) {}
+
+  /**
+   * List reps matching the filters
+   */
+  listReps(filters: SalesRepFilters = {}): SalesRep[] {
+    return this.salesRepRepository.find(filters);
+  }
+
+  /**
+   * Get a rep by id
+   */
+  getRep(id: string): SalesRep {
+    const rep = this.salesRepRepository.findById(id);
+    if (!rep) {
+      throw new NotFoundException(`Sales rep ${id} not found`);
+    }
+    return rep;
+  }
+
+  /**
+   * Create a rep, replacing any existing rep with the same id
+   */
+  saveRep(input: SalesRepInput): SalesRep {
+    const existing = this.salesRepRepository.findById(input.id);
+    const saved = this.salesRepRepository.save(this.buildRep(input, existing));
+
+    this.logger.log(`Saved sales rep ${saved.id} (${saved.displayName})`);
+    return saved;
+  }
+
+  /**
+   * Update a rep by id
+   */
+  updateRep(id: string, input: Partial<SalesRepInput>): SalesRep {
+    const existing = this.getRep(id);
+
+    return this.salesRepRepository.save(
+      this.buildRep(
+        {
+          id,
+          displayName: input.displayName ?? existing.displayName,
+          email: input.email !== undefined ? input.email : existing.email,
+          team: input.team !== undefined ? input.team : existing.team,
+          region: input.region !== undefined ? input.region : existing.region,
+          startDate: input.startDate !== undefined ? input.startDate : existing.startDate,
+          staffMemberId: input.staffMemberId !== undefined ? input.staffMemberId : existing.staffMemberId,
+          discountCodes: input.discountCodes ?? existing.discountCodes,
+          active: input.active ?? existing.active,
+        },
+        existing,
+      ),
+    );
+  }
+
+  /**
+   * Delete a rep and its customer assignments
+   */
+  deleteRep(id: string): void {
+    if (!this.salesRepRepository.delete(id)) {
+      throw new NotFoundException(`Sales rep ${id} not found`);
+    }
+    this.logger.log(`Deleted sales rep ${id}`);
+  }
+
+  /**
+   * List customer assignments, optionally for one customer or rep
+   */
+  listAssignments(filters: { customerId?: string; repId?: string } = {}): CustomerAssignment[] {
+    return this.salesRepRepository.findAssignments({
+      ...filters,
+      customerId: filters.customerId ? this.toCustomerGid(filters.customerId) : undefined,
+    });
+  }
+
+  /**
+   * Replace the reps assigned to a customer. Shared accounts list several reps with
+   * percentage shares summing to 100; reps without a share split the remainder evenly.
+   * An empty rep list removes the customer's assignments.
+   */
+  assignCustomer(input: CustomerAssignmentInput): CustomerAssignment[] {
+    if (!input?.customerId) {
+      throw new BadRequestException('customerId is required');
+    }
+    if (!Array.isArray(input.reps)) {
+      throw new BadRequestException('reps must be an array of { repId, share }');
+    }
+
+    const customerId = this.toCustomerGid(input.customerId);
+    const repIds = input.reps.map(rep => rep.repId);
+    if (new Set(repIds).size !== repIds.length) {
+      throw new BadRequestException('Each rep can only be assigned once per customer');
+    }
+    const unknown = repIds.filter(repId => !this.salesRepRepository.findById(repId));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown sales reps: ${unknown.join(', ')}`);
+    }
+
+    const now = new Date().toISOString();
+    const assignments = this.resolveShares(input.reps).map(({ repId, share }) => ({
+      customerId,
+      repId,
+      share,
+      createdAt: now,
+    }));
+
+    const saved = this.salesRepRepository.replaceAssignments(customerId, assignments);
+    this.logger.log(`Assigned customer ${customerId} to ${repIds.join(', ') || 'no reps'}`);
+    return saved;
+  }
+
+  private resolveShares(reps: Array<{ repId: string; share?: number }>): Array<{ repId: string; share: number }> {
+    const explicit = reps.filter(rep => rep.share !== undefined && rep.share !== null);
+    for (const rep of explicit) {
+      if (typeof rep.share !== 'number' || !isFinite(rep.share) || rep.share <= 0 || rep.share > 100) {
+        throw new BadRequestException(`Invalid share for ${rep.repId}. Use a percentage between 0 and 100`);
+      }
+    }
+
+    const explicitTotal = explicit.reduce((sum, rep) => sum + rep.share, 0);
+    const implicitCount = reps.length - explicit.length;
+    const remainder = 100 - explicitTotal;
+
+    if (reps.length > 0 && implicitCount === 0 && Math.abs(remainder) > 0.01) {
+      throw new BadRequestException(`Shares must add up to 100, got ${Math.round(explicitTotal * 100) / 100}`);
+    }
+    if (implicitCount > 0 && remainder <= 0) {
+      throw new BadRequestException('Shares leave nothing for reps without an explicit share');
+    }
+
+    return reps.map(rep => ({
+      repId: rep.repId,
+      share: (rep.share ?? remainder / implicitCount) / 100,
+    }));
+  }
+
+  private buildRep(input: SalesRepInput, existing?: SalesRep | null): SalesRep {
+    const id = (input.id || '').trim();
+    if (!REP_ID_PATTERN.test(id)) {
+      throw new BadRequestException(
+        'id must be a lowercase slug (letters, digits, "_", "-" or ".") matching the rep tag, e.g. jane_doe',
+      );
+    }
+
+    const displayName = (input.displayName || '').trim();
+    if (!displayName) {
+      throw new BadRequestException('displayName is required');
+    }
+
+    if (input.startDate && !moment(input.startDate, 'YYYY-MM-DD', true).isValid()) {
+      throw new BadRequestException('startDate must be a date in YYYY-MM-DD format');
+    }
+
+    if (input.discountCodes !== undefined && !Array.isArray(input.discountCodes)) {
+      throw new BadRequestException('discountCodes must be an array of codes');
+    }
+
+    const now = new Date().toISOString();
+
+    return {
+      id,
+      displayName,
+      email: input.email?.trim() || null,
+      team: input.team?.trim() || null,
+      region: input.region?.trim() || null,
+      startDate: input.startDate || null,
+      staffMemberId: input.staffMemberId ? String(input.staffMemberId).trim() : null,
+      discountCodes: Array.from(new Set((input.discountCodes || []).map(code => String(code).trim()).filter(Boolean))),
+      active: input.active ?? true,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+  }
+
+  private toCustomerGid(customerId: string): string {
+    const value = String(customerId).trim();
+    return /^\d+$/.test(value) ? `gid://shopify/Customer/${value}` : value;
+  }
+}
@@ -0,0 +1,155 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { ShopifyBulkOperationService } from '../shopify/shopify-bulk-operation.service';
+import { SyncWriterService } from '../storage/sync-writer.service';
+import { StoreContextService } from '../stores/store-context.service';
+import {
+  BackfillProgress,
+  BackfillResource,
+  BulkExportProgress,
+} from '@interfaces/shopify.interface';
+
+export interface BackfillOptions {
+  resources?: BackfillResource[];
+  createdAtMin?: string;
+}
+
+@Injectable()
+export class BackfillService {
+  private readonly logger = new Logger(BackfillService.name);
+  private readonly progressKey = 'system:backfill:progress';
+  // Latest backfill started by this instance, per store
+  private readonly backfills = new Map<string, BackfillProgress>();
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly bulkOperationService: ShopifyBulkOperationService,
+    private readonly syncWriterService: SyncWriterService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  /**
+   * Check whether a backfill of the current store is running in this instance
+   */
+  isRunning(): boolean {
+    return this.backfills.get(this.storeContext.getStoreId())?.status === 'running';
+  }
+
+  /**
+   * Start a full historical backfill. Resources are exported one after another
+   * because Shopify only runs one bulk query per shop at a time.
+   */
+  async startBackfill(options: BackfillOptions = {}): Promise<BackfillProgress> {
+    const storeId = this.storeContext.getStoreId();
+    if (this.isRunning()) {
+      return this.backfills.get(storeId);
+    }
+
+    const resources: BackfillResource[] = options.resources?.length
+      ? options.resources
+      : ['orders', 'products', 'customers'];
+
+    const backfill: BackfillProgress = {
+      id: `backfill_${Date.now()}`,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      createdAtMin: options.createdAtMin,
+      resources: resources.map(resource => ({
+        resource,
+        status: 'pending',
+        objectCount: 0,
+        recordsImported: 0,
+      })),
+    };
+    this.backfills.set(storeId, backfill);
+
+    await this.saveProgress(backfill);
+
+    // Run in the background, still in this store's context; progress is reported through getProgress()
+    this.runBackfill(backfill, options).catch(error => {
+      this.logger.error(`Backfill for store ${storeId} failed:`, error);
+    });
+
+    return backfill;
+  }
+
+  /**
+   * Get the progress of the current or most recent backfill of the current store
+   */
+  async getProgress(): Promise<BackfillProgress | null> {
+    const backfill = this.backfills.get(this.storeContext.getStoreId());
+    if (backfill) {
+      return backfill;
+    }
+
+    return this.redisService.get<BackfillProgress>(this.progressKey);
+  }
+
+  private async runBackfill(backfill: BackfillProgress, options: BackfillOptions): Promise<void> {
+    this.logger.log(`Starting backfill ${backfill.id} for ${backfill.resources.map(r => r.resource).join(', ')}`);
+
+    for (const progress of backfill.resources) {
+      progress.status = 'running';
+      progress.startedAt = new Date().toISOString();
+      await this.saveProgress(backfill);
+
+      try {
+        const onProgress = (update: BulkExportProgress) => {
+          progress.bulkOperationId = update.bulkOperationId;
+          progress.status = update.status;
+          progress.objectCount = update.objectCount;
+          progress.recordsImported = update.recordsImported;
+          this.saveProgress(backfill).catch(() => undefined);
+        };
+
+        const exportStartedAt = new Date();
+        const records = await this.exportResource(progress.resource, options, onProgress);
+
+        this.syncWriterService.writeBatch({ [progress.resource]: records }, 'backfill');
+
+        if (progress.resource === 'orders') {
+          // The export holds every order created from createdAtMin (or the beginning) until it started
+          const coverageStart = options.createdAtMin ? new Date(options.createdAtMin) : new Date(0);
+          this.syncWriterService.recordOrdersWindow(coverageStart, exportStartedAt);
+        }
+
+        progress.status = 'completed';
+        progress.recordsImported = records.length;
+        progress.completedAt = new Date().toISOString();
+        this.logger.log(`Backfill ${backfill.id}: imported ${records.length} ${progress.resource}`);
+      } catch (error) {
+        progress.status = 'failed';
+        progress.error = error.message;
+        progress.completedAt = new Date().toISOString();
+        this.logger.error(`Backfill ${backfill.id}: ${progress.resource} export failed:`, error);
+      }
+
+      await this.saveProgress(backfill);
+    }
+
+    backfill.status = backfill.resources.some(r => r.status === 'failed') ? 'failed' : 'completed';
+    backfill.completedAt = new Date().toISOString();
+    await this.saveProgress(backfill);
+
+    this.logger.log(`Backfill ${backfill.id} ${backfill.status}`);
+  }
+
+  private async exportResource(
+    resource: BackfillResource,
+    options: BackfillOptions,
+    onProgress: (update: BulkExportProgress) => void,
+  ): Promise<any[]> {
+    switch (resource) {
+      case 'orders':
+        return this.bulkOperationService.exportOrders({ createdAtMin: options.createdAtMin }, onProgress);
+      case 'products':
+        return this.bulkOperationService.exportProducts(onProgress);
+      case 'customers':
+        return this.bulkOperationService.exportCustomers(onProgress);
+    }
+  }
+
+  private async saveProgress(backfill: BackfillProgress): Promise<void> {
+    await this.redisService.set(this.progressKey, backfill, { ttl: 604800 });
+  }
+}
@@ -1,32 +1,90 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Cron, CronExpression, SchedulerRegistry } from '@nestjs/schedule';
 import { ConfigService } from '@nestjs/config';
+import { CronJob } from 'cron';
 import { RedisService } from '../redis/redis.service';
+import { OrderRepository } from '../storage/order.repository';
+import { AlertRepository } from '../storage/alert.repository';
+import { NotificationDeliveryRepository } from '../storage/notification-delivery.repository';
+import { GeneratedReportRepository } from '../storage/generated-report.repository';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { CurrencyService } from '../currency/currency.service';
+import { StoreContextService } from '../stores/store-context.service';
+
+// Cleanup schedules, evaluated in each store's time zone
+const DAILY_CLEANUP_CRON = '0 0 * * *';
+const WEEKLY_CLEANUP_CRON = '0 2 * * 0';
 
 @Injectable()
-export class DataCleanupService {
+export class DataCleanupService implements OnModuleInit {
   private readonly logger = new Logger(DataCleanupService.name);
 
   constructor(
     private readonly configService: ConfigService,
     private readonly redisService: RedisService,
+    private readonly orderRepository: OrderRepository,
+    private readonly alertRepository: AlertRepository,
+    private readonly notificationDeliveryRepository: NotificationDeliveryRepository,
+    private readonly generatedReportRepository: GeneratedReportRepository,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly storeRegistry: StoreRegistryService,
+    private readonly storeContext: StoreContextService,
+    private readonly currencyService: CurrencyService,
   ) {}
 
   /**
-   * Daily cleanup of old data and metrics
-   * Runs at midnight UTC every day
+   * Register the daily and weekly cleanup jobs of every store
+   */
+  onModuleInit(): void {
+    for (const store of this.storeRegistry.getStores()) {
+      this.scheduleStoreJobs(store.id);
+    }
+  }
+
+  /**
+   * (Re)register a store's daily and weekly cleanup jobs in its time zone; called again once
+   * Shopify reports the shop's time zone
+   */
+  scheduleStoreJobs(storeId: string): void {
+    const timezone = this.storeRegistry.getTimezone(this.storeRegistry.getStore(storeId));
+    const jobs: Array<[string, string, () => Promise<void>]> = [
+      [this.jobName('daily', storeId), DAILY_CLEANUP_CRON, () => this.runDailyCleanup()],
+      [this.jobName('weekly', storeId), WEEKLY_CLEANUP_CRON, () => this.runWeeklyCleanup()],
+    ];
+
+    for (const [name, cron, run] of jobs) {
+      if (this.schedulerRegistry.doesExist('cron', name)) {
+        this.schedulerRegistry.deleteCronJob(name);
+      }
+
+      const job = new CronJob(cron, () => this.storeContext.run(storeId, run), null, false, timezone);
+      this.schedulerRegistry.addCronJob(name, job);
+      job.start();
+    }
+
+    this.logger.log(`Scheduled data cleanup for store ${storeId} in ${timezone}`);
+  }
+
+  /**
+   * Daily cleanup of old data and metrics, for every store
    */
-  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT, {
-    name: 'daily-data-cleanup',
-    timeZone: 'UTC',
-  })
   async performDailyCleanup(): Promise<void> {
+    await this.storeContext.forEachStore(() => this.runDailyCleanup());
+  }
+
+  /**
+   * Daily cleanup of the current store's old data and metrics
+   * Runs at midnight in the store's time zone every day
+   */
+  private async runDailyCleanup(): Promise<void> {
     this.logger.log('Starting daily data cleanup');
 
     try {
       const cleanupResults = {
         syncMetricsRemoved: 0,
         oldAlertsRemoved: 0,
+        notificationDeliveriesRemoved: 0,
+        generatedReportsRemoved: 0,
         expiredCacheCleared: 0,
         performanceMetricsRemoved: 0,
       };
@@ -34,9 +92,15 @@ export class DataCleanupService {
       // Clean up old sync metrics (older than 7 days)
       cleanupResults.syncMetricsRemoved = await this.cleanupOldSyncMetrics();
 
-      // Clean up old alerts (older than 24 hours)
+      // Clean up resolved alerts past the retention window
       cleanupResults.oldAlertsRemoved = await this.cleanupOldAlerts();
 
+      // Clean up the notification delivery log past its retention window
+      cleanupResults.notificationDeliveriesRemoved = await this.cleanupNotificationDeliveries();
+
+      // Clean up generated reports past their retention window
+      cleanupResults.generatedReportsRemoved = await this.cleanupGeneratedReports();
+
       // Clean up old performance metrics (older than 7 days)
       cleanupResults.performanceMetricsRemoved = await this.cleanupOldPerformanceMetrics();
 
@@ -59,14 +123,10 @@ export class DataCleanupService {
   }
 
   /**
-   * Weekly cleanup of historical data
-   * Runs every Sunday at 2 AM UTC
+   * Weekly cleanup of the current store's historical data
+   * Runs every Sunday at 2 AM in the store's time zone
    */
-  @Cron('0 2 * * 0', {
-    name: 'weekly-data-cleanup',
-    timeZone: 'UTC',
-  })
-  async performWeeklyCleanup(): Promise<void> {
+  private async runWeeklyCleanup(): Promise<void> {
     this.logger.log('Starting weekly data cleanup');
 
     try {
@@ -108,22 +168,24 @@ export class DataCleanupService {
     timeZone: 'UTC',
   })
   async performHourlyCleanup(): Promise<void> {
-    this.logger.debug('Starting hourly temporary data cleanup');
+    await this.storeContext.forEachStore(async () => {
+      this.logger.debug('Starting hourly temporary data cleanup');
 
-    try {
-      // Clean up temporary processing data
-      const tempKeysRemoved = await this.cleanupTemporaryKeys();
+      try {
+        // Clean up temporary processing data
+        const tempKeysRemoved = await this.cleanupTemporaryKeys();
 
-      // Clean up expired session data
-      const expiredSessionsRemoved = await this.cleanupExpiredSessions();
+        // Clean up expired session data
+        const expiredSessionsRemoved = await this.cleanupExpiredSessions();
 
-      if (tempKeysRemoved > 0 || expiredSessionsRemoved > 0) {
-        this.logger.debug(`Hourly cleanup: ${tempKeysRemoved} temp keys, ${expiredSessionsRemoved} expired sessions removed`);
-      }
+        if (tempKeysRemoved > 0 || expiredSessionsRemoved > 0) {
+          this.logger.debug(`Hourly cleanup: ${tempKeysRemoved} temp keys, ${expiredSessionsRemoved} expired sessions removed`);
+        }
 
-    } catch (error) {
-      this.logger.error('Hourly cleanup failed:', error);
-    }
+      } catch (error) {
+        this.logger.error('Hourly cleanup failed:', error);
+      }
+    });
   }
 
   /**
@@ -173,31 +235,16 @@ export class DataCleanupService {
   }
 
   /**
-   * Clean up old alerts
+   * Delete alerts resolved longer ago than the alert retention window
    */
   private async cleanupOldAlerts(): Promise<number> {
     try {
-      const alertKeys = ['alerts:inventory', 'alerts:performance', 'alerts:system'];
-      let removedCount = 0;
+      const retentionDays = this.configService.get<number>('config.alerts.retentionDays', 90);
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
 
-      for (const key of alertKeys) {
-        const alerts = await this.redisService.get(key);
-        
-        if (alerts && Array.isArray(alerts)) {
-          const oneDayAgo = Date.now() - (24 * 60 * 60 * 1000);
-          const freshAlerts = alerts.filter(alert => {
-            const alertTime = new Date(alert.timestamp).getTime();
-            return alertTime > oneDayAgo;
-          });
-
-          if (freshAlerts.length !== alerts.length) {
-            await this.redisService.set(key, freshAlerts, { ttl: 86400 });
-            removedCount += alerts.length - freshAlerts.length;
-          }
-        }
-      }
+      const removedCount = this.alertRepository.deleteResolvedBefore(cutoff);
 
-      this.logger.debug(`Cleaned up ${removedCount} old alerts`);
+      this.logger.debug(`Cleaned up ${removedCount} alerts resolved before ${cutoff.toISOString()}`);
       return removedCount;
 
     } catch (error) {
@@ -206,6 +253,44 @@ export class DataCleanupService {
     }
   }
 
+  /**
+   * Delete notification deliveries logged longer ago than the delivery log retention window
+   */
+  private async cleanupNotificationDeliveries(): Promise<number> {
+    try {
+      const retentionDays = this.configService.get<number>('config.notifications.retentionDays', 30);
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+      const removedCount = this.notificationDeliveryRepository.deleteBefore(cutoff);
+
+      this.logger.debug(`Cleaned up ${removedCount} notification deliveries logged before ${cutoff.toISOString()}`);
+      return removedCount;
+
+    } catch (error) {
+      this.logger.error('Failed to cleanup notification deliveries:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Clean up generated reports, with their HTML and PDF, past the retention window
+   */
+  private async cleanupGeneratedReports(): Promise<number> {
+    try {
+      const retentionDays = this.configService.get<number>('config.reports.retentionDays', 90);
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+      const removedCount = this.generatedReportRepository.deleteBefore(cutoff);
+
+      this.logger.debug(`Cleaned up ${removedCount} reports generated before ${cutoff.toISOString()}`);
+      return removedCount;
+
+    } catch (error) {
+      this.logger.error('Failed to cleanup generated reports:', error);
+      return 0;
+    }
+  }
+
   /**
    * Clean up old performance metrics
    */
@@ -227,19 +312,21 @@ export class DataCleanupService {
   }
 
   /**
-   * Archive old analytics data
+   * Roll up stored orders older than the archive window into daily sales rollups
    */
   private async archiveOldAnalytics(): Promise<number> {
     try {
-      // Move old analytics data to long-term storage
-      // This could involve moving data to a database or file storage
-      
-      const archivedCount = 0;
-
-      // Implementation would move old cached analytics to persistent storage
-      // and remove them from Redis cache
+      const archiveAfterDays = this.configService.get<number>('config.storage.archiveAfterDays', 30);
+      // Only whole days in the store's time zone are rolled up
+      const cutoff = this.storeContext.moment().subtract(archiveAfterDays, 'days').startOf('day').toDate();
+
+      const archivedCount = this.orderRepository.archiveDailyRollups(
+        cutoff,
+        this.storeContext.getTimezone(),
+        this.currencyService.getShopCurrency(),
+      );
 
-      this.logger.debug(`Archived ${archivedCount} old analytics records`);
+      this.logger.debug(`Archived ${archivedCount} daily sales rollups before ${cutoff.toISOString()}`);
       return archivedCount;
 
     } catch (error) {
@@ -383,31 +470,25 @@ export class DataCleanupService {
   }
 
   /**
-   * Calculate next daily cleanup time
+   * Calculate next daily cleanup time of the current store
    */
-  private getNextDailyCleanupTime(): string {
-    const now = new Date();
-    const next = new Date(now);
-    next.setUTCHours(0, 0, 0, 0);
-    next.setUTCDate(next.getUTCDate() + 1);
-    return next.toISOString();
+  private getNextDailyCleanupTime(): string | null {
+    return this.getNextRun(this.jobName('daily', this.storeContext.getStoreId()));
   }
 
   /**
-   * Calculate next weekly cleanup time
+   * Calculate next weekly cleanup time of the current store
    */
-  private getNextWeeklyCleanupTime(): string {
-    const now = new Date();
-    const next = new Date(now);
-    const daysUntilSunday = (7 - now.getUTCDay()) % 7;
-    next.setUTCDate(next.getUTCDate() + daysUntilSunday);
-    next.setUTCHours(2, 0, 0, 0);
-    
-    // If it's already past Sunday 2 AM, schedule for next week
-    if (next <= now) {
-      next.setUTCDate(next.getUTCDate() + 7);
-    }
-    
-    return next.toISOString();
+  private getNextWeeklyCleanupTime(): string | null {
+    return this.getNextRun(this.jobName('weekly', this.storeContext.getStoreId()));
+  }
+
+  private getNextRun(name: string): string | null {
+    if (!this.schedulerRegistry.doesExist('cron', name)) return null;
+    return this.schedulerRegistry.getCronJob(name).nextDate().toJSDate().toISOString();
+  }
+
+  private jobName(cleanup: 'daily' | 'weekly', storeId: string): string {
+    return `${cleanup}-data-cleanup:${storeId}`;
   }
 }
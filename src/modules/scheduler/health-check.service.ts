@@ -3,6 +3,7 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { ConfigService } from '@nestjs/config';
 import { RedisService } from '../redis/redis.service';
 import { ShopifyService } from '../shopify/shopify.service';
+import { NotificationsService } from '../notifications/notifications.service';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
 
@@ -26,12 +27,15 @@ export interface HealthCheck {
 export class HealthCheckService {
   private readonly logger = new Logger(HealthCheckService.name);
   private readonly startTime = Date.now();
+  // Checks failing at the last run, so a failure and its recovery are each notified once
+  private readonly failingChecks = new Set<string>();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly redisService: RedisService,
     private readonly shopifyService: ShopifyService,
     private readonly httpService: HttpService,
+    private readonly notificationsService: NotificationsService,
   ) {}
 
   /**
@@ -66,6 +70,9 @@ export class HealthCheckService {
       // Check if emergency actions are needed
       await this.handleUnhealthyState(healthStatus);
 
+      // Notify channels of checks that started failing or recovered
+      await this.notifyHealthChanges(healthStatus);
+
     } catch (error) {
       this.logger.error('Health check execution failed:', error);
       
@@ -476,6 +483,38 @@ export class HealthCheckService {
     }
   }
 
+  /**
+   * Notify failed and recovered health checks. The health check runs outside a store context,
+   * so these go to the default store's notification channels.
+   */
+  private async notifyHealthChanges(healthStatus: HealthStatus): Promise<void> {
+    for (const check of healthStatus.checks) {
+      const failing = check.status === 'fail';
+      if (failing === this.failingChecks.has(check.name)) continue;
+
+      if (failing) {
+        this.failingChecks.add(check.name);
+      } else {
+        this.failingChecks.delete(check.name);
+      }
+
+      try {
+        await this.notificationsService.notify({
+          key: `health:${check.name}`,
+          type: failing ? 'triggered' : 'resolved',
+          source: 'health',
+          severity: 'CRITICAL',
+          category: 'system',
+          title: failing ? `Health check failed: ${check.name}` : `Health check recovered: ${check.name}`,
+          message: check.message || `The ${check.name} check is ${check.status}`,
+          occurredAt: healthStatus.timestamp,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to send notifications for the ${check.name} health check:`, error);
+      }
+    }
+  }
+
   /**
    * Get system uptime in seconds
    */
@@ -5,9 +5,17 @@ import { HttpModule } from '@nestjs/axios';
 import { ShopifySchedulerService } from './shopify-scheduler.service';
 import { DataCleanupService } from './data-cleanup.service';
 import { HealthCheckService } from './health-check.service';
+import { BackfillService } from './backfill.service';
 import { AnalyticsModule } from '../analytics/analytics.module';
 import { RedisModule } from '../redis/redis.module';
 import { ShopifyModule } from '../shopify/shopify.module';
+import { StorageModule } from '../storage/storage.module';
+import { StoresModule } from '../stores/stores.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { CurrencyModule } from '../currency/currency.module';
 
 @Module({
   imports: [
@@ -17,16 +25,25 @@ import { ShopifyModule } from '../shopify/shopify.module';
     AnalyticsModule,
     RedisModule,
     ShopifyModule,
+    StorageModule,
+    StoresModule,
+    AlertsModule,
+    NotificationsModule,
+    RealtimeModule,
+    WebhooksModule,
+    CurrencyModule,
   ],
   providers: [
     ShopifySchedulerService,
     DataCleanupService,
     HealthCheckService,
+    BackfillService,
   ],
   exports: [
     ShopifySchedulerService,
     DataCleanupService,
     HealthCheckService,
+    BackfillService,
   ],
 })
 export class SchedulerModule {}
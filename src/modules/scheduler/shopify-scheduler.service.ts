@@ -1,66 +1,171 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Cron, CronExpression, SchedulerRegistry } from '@nestjs/schedule';
 import { ConfigService } from '@nestjs/config';
+import { CronJob } from 'cron';
+import * as moment from 'moment';
 import { AnalyticsService } from '../analytics/analytics.service';
+import { DateRangeAnalyticsService } from '../analytics/date-range-analytics.service';
 import { ShopifyService } from '../shopify/shopify.service';
 import { RedisService } from '../redis/redis.service';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { AlertsService } from '../alerts/alerts.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
+import { WebhookService } from '../webhooks/webhook.service';
+import { DataCleanupService } from './data-cleanup.service';
+import { toZonedDateKey } from '@shared/time-zone';
+
+interface StoreSyncState {
+  isRunning: boolean;
+  lastSyncTime: Date | null;
+  syncCount: number;
+}
 
 @Injectable()
-export class ShopifySchedulerService {
+export class ShopifySchedulerService implements OnModuleInit {
   private readonly logger = new Logger(ShopifySchedulerService.name);
-  private isRunning = false;
-  private lastSyncTime: Date | null = null;
-  private syncCount = 0;
+  private readonly syncStates = new Map<string, StoreSyncState>();
 
   constructor(
     private readonly configService: ConfigService,
     private readonly analyticsService: AnalyticsService,
     private readonly shopifyService: ShopifyService,
     private readonly redisService: RedisService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly storeRegistry: StoreRegistryService,
+    private readonly storeContext: StoreContextService,
+    private readonly alertsService: AlertsService,
+    private readonly notificationsService: NotificationsService,
+    private readonly realtimeEvents: RealtimeEventsService,
+    private readonly dateRangeAnalyticsService: DateRangeAnalyticsService,
+    private readonly dataCleanupService: DataCleanupService,
+    private readonly webhookService: WebhookService,
   ) {}
 
   /**
-   * Main Shopify data sync job - runs every 5 minutes (reduced for performance)
+   * Register one sync job per store on the store's own schedule, then look up the shop time
+   * zones in the background
+   */
+  onModuleInit(): void {
+    for (const store of this.storeRegistry.getStores()) {
+      this.scheduleSync(store.id);
+    }
+
+    this.storeContext
+      .forEachStore(() => this.resolveShopTimezone())
+      .catch(error => this.logger.error('Failed to resolve shop time zones:', error));
+  }
+
+  /**
+   * (Re)register a store's sync job, with its cron evaluated in the store's time zone
+   */
+  private scheduleSync(storeId: string): void {
+    const store = this.storeRegistry.getStore(storeId);
+    const timezone = this.storeRegistry.getTimezone(store);
+    const name = `shopify-data-sync:${store.id}`;
+
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.deleteCronJob(name);
+    }
+
+    const job = new CronJob(
+      store.syncCron,
+      () => this.storeContext.run(store.id, () => this.syncShopifyData()),
+      null,
+      false,
+      timezone,
+    );
+
+    this.schedulerRegistry.addCronJob(name, job);
+    job.start();
+    this.logger.log(`Scheduled Shopify sync for store ${store.id} (${store.syncCron} ${timezone})`);
+  }
+
+  /**
+   * Fetch the current store's time zone from Shopify unless it is configured or known, and move
+   * the store's jobs to it. Failures are logged and retried on the next sync.
+   */
+  private async resolveShopTimezone(): Promise<void> {
+    const store = this.storeContext.getStore();
+    if (store.timezone || this.storeRegistry.hasShopTimezone(store.id)) return;
+
+    try {
+      await this.shopifyService.refreshShopTimezone();
+    } catch (error) {
+      this.logger.warn(`Could not fetch the shop time zone of store ${store.id}: ${error.message}`);
+      return;
+    }
+
+    if (this.storeRegistry.hasShopTimezone(store.id)) {
+      this.scheduleSync(store.id);
+      this.dataCleanupService.scheduleStoreJobs(store.id);
+    }
+  }
+
+  /**
+   * Main Shopify data sync job for the current store, run on the store's syncCron
    * This is the core polling mechanism that fetches data from Shopify
    */
-  @Cron('*/5 * * * *', {
-    name: 'shopify-data-sync',
-    timeZone: 'UTC',
-  })
   async syncShopifyData(): Promise<void> {
+    const state = this.getSyncState();
+
     // Prevent overlapping executions
-    if (this.isRunning) {
-      this.logger.warn('Shopify sync already running, skipping this execution');
+    if (state.isRunning) {
+      this.logger.warn(
+        `Shopify sync for store ${this.storeContext.getStoreId()} already running, skipping this execution`,
+      );
       return;
     }
 
-    this.isRunning = true;
+    state.isRunning = true;
     const startTime = Date.now();
 
     try {
-      this.logger.log(`Starting Shopify data sync #${++this.syncCount}`);
+      this.logger.log(`Starting Shopify data sync #${++state.syncCount} for store ${this.storeContext.getStoreId()}`);
+      this.realtimeEvents.publish('sync', 'sync.started', { syncCount: state.syncCount });
 
       // Check if Shopify API is healthy before proceeding
       const isHealthy = await this.shopifyService.healthCheck();
       if (!isHealthy) {
         this.logger.error('Shopify API health check failed, skipping sync');
+        this.realtimeEvents.publish('sync', 'sync.skipped', {
+          syncCount: state.syncCount,
+          reason: 'Shopify API health check failed',
+        });
         return;
       }
 
+      // Days are counted in the shop's time zone once Shopify has reported it
+      await this.resolveShopTimezone();
+
       // Perform the main sync operation
       await this.analyticsService.syncShopifyData();
 
+      // Inventory totals a webhook could not settle are fetched from Shopify
+      await this.webhookService.resyncInventoryLevels();
+
       // Update sync metadata
-      this.lastSyncTime = new Date();
+      state.lastSyncTime = new Date();
       const duration = Date.now() - startTime;
 
       // Store sync metrics in Redis
       await this.storeSyncMetrics(duration, true);
 
       this.logger.log(`Shopify data sync completed successfully in ${duration}ms`);
+      this.realtimeEvents.publish('sync', 'sync.completed', {
+        syncCount: state.syncCount,
+        durationMs: duration,
+        lastSyncTime: state.lastSyncTime.toISOString(),
+      });
     } catch (error) {
       const duration = Date.now() - startTime;
       this.logger.error(`Shopify data sync failed after ${duration}ms:`, error);
+      this.realtimeEvents.publish('sync', 'sync.failed', {
+        syncCount: state.syncCount,
+        durationMs: duration,
+        error: error.message,
+      });
 
       // Store failed sync metrics
       await this.storeSyncMetrics(duration, false, error.message);
@@ -68,7 +173,7 @@ export class ShopifySchedulerService {
       // Implement exponential backoff for failed syncs
       await this.handleSyncFailure(error);
     } finally {
-      this.isRunning = false;
+      state.isRunning = false;
     }
   }
 
@@ -100,29 +205,33 @@ export class ShopifySchedulerService {
 
   /**
    * Real-time metrics update - runs every 30 seconds
-   * Updates critical real-time metrics for dashboard
+   * Updates critical real-time metrics for dashboard and pushes the changes to stream subscribers
    */
   @Cron('*/30 * * * * *', {
     name: 'realtime-metrics-update',
     timeZone: 'UTC',
   })
   async updateRealtimeMetrics(): Promise<void> {
-    try {
-      // Get real-time metrics (no cache)
-      const realtimeMetrics = await this.analyticsService.getRealTimeMetrics();
+    await this.storeContext.forEachStore(async () => {
+      try {
+        // Get real-time metrics (no cache)
+        const realtimeMetrics = await this.analyticsService.getRealTimeMetrics();
       
-      // Cache the real-time metrics with short TTL
-      const cacheKeys = this.redisService.getCacheKeys();
-      await this.redisService.set(
-        `${cacheKeys.dashboard.summary}:realtime`, 
-        realtimeMetrics, 
-        { ttl: 60 }
-      );
+        // Cache the real-time metrics with short TTL
+        const cacheKeys = this.redisService.getCacheKeys();
+        await this.redisService.set(
+          `${cacheKeys.dashboard.summary}:realtime`, 
+          realtimeMetrics, 
+          { ttl: 60 }
+        );
 
-      this.logger.debug('Real-time metrics updated successfully');
-    } catch (error) {
-      this.logger.error('Real-time metrics update failed:', error);
-    }
+        this.realtimeEvents.publishMetrics(realtimeMetrics);
+
+        this.logger.debug('Real-time metrics updated successfully');
+      } catch (error) {
+        this.logger.error('Real-time metrics update failed:', error);
+      }
+    });
   }
 
   /**
@@ -134,23 +243,21 @@ export class ShopifySchedulerService {
     timeZone: 'UTC',
   })
   async syncHistoricalData(): Promise<void> {
-    try {
-      this.logger.log('Starting historical data sync');
+    await this.storeContext.forEachStore(async () => {
+      try {
+        this.logger.log('Starting historical data sync');
 
-      // Fetch data for the last 7 days for trend analysis
-      const endDate = new Date();
-      const startDate = new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000);
+        // The last 7 days in the store's time zone, for trend analysis
+        const endDate = toZonedDateKey(new Date(), this.storeContext.getTimezone());
+        const startDate = moment.utc(endDate).subtract(6, 'days').format('YYYY-MM-DD');
 
-      // Get historical analytics
-      const historicalAnalytics = await this.analyticsService.getDateRangeAnalytics(
-        startDate, 
-        endDate
-      );
+        await this.dateRangeAnalyticsService.getDateRangeAnalytics(startDate, endDate);
 
-      this.logger.log(`Historical data sync completed for ${startDate.toISOString()} to ${endDate.toISOString()}`);
-    } catch (error) {
-      this.logger.error('Historical data sync failed:', error);
-    }
+        this.logger.log(`Historical data sync completed for ${startDate} to ${endDate}`);
+      } catch (error) {
+        this.logger.error('Historical data sync failed:', error);
+      }
+    });
   }
 
   /**
@@ -162,121 +269,85 @@ export class ShopifySchedulerService {
     timeZone: 'UTC',
   })
   async monitorPerformance(): Promise<void> {
-    try {
-      this.logger.debug('Running performance monitoring');
+    await this.storeContext.forEachStore(async () => {
+      try {
+        this.logger.debug('Running performance monitoring');
 
-      // Get system metrics
-      const performanceMetrics = {
-        timestamp: new Date().toISOString(),
-        syncCount: this.syncCount,
-        lastSyncTime: this.lastSyncTime?.toISOString(),
-        isRunning: this.isRunning,
-        memoryUsage: process.memoryUsage(),
-        uptime: process.uptime(),
-      };
-
-      // Store performance metrics
-      const cacheKeys = this.redisService.getCacheKeys();
-      await this.redisService.set(
-        cacheKeys.performance.responseTime('system'),
-        performanceMetrics,
-        { ttl: 600 }
-      );
-
-      // Check cache health
-      const cacheStats = await this.analyticsService.getCacheStats();
-      
-      if (cacheStats) {
+        // Get system metrics
+        const state = this.getSyncState();
+        const performanceMetrics = {
+          timestamp: new Date().toISOString(),
+          syncCount: state.syncCount,
+          lastSyncTime: state.lastSyncTime?.toISOString(),
+          isRunning: state.isRunning,
+          memoryUsage: process.memoryUsage(),
+          uptime: process.uptime(),
+        };
+
+        // Store performance metrics
+        const cacheKeys = this.redisService.getCacheKeys();
         await this.redisService.set(
-          'system:cache_health',
-          cacheStats,
+          cacheKeys.performance.responseTime('system'),
+          performanceMetrics,
           { ttl: 600 }
         );
-      }
 
-      this.logger.debug('Performance monitoring completed');
-    } catch (error) {
-      this.logger.error('Performance monitoring failed:', error);
-    }
+        // Check cache health
+        const cacheStats = await this.analyticsService.getCacheStats();
+      
+        if (cacheStats) {
+          await this.redisService.set(
+            'system:cache_health',
+            cacheStats,
+            { ttl: 600 }
+          );
+        }
+
+        this.logger.debug('Performance monitoring completed');
+      } catch (error) {
+        this.logger.error('Performance monitoring failed:', error);
+      }
+    });
   }
 
   /**
-   * Inventory alert check - runs every 15 minutes
-   * Checks for low stock and out-of-stock products
+   * Alert rule evaluation - runs every 15 minutes
+   * Evaluates the configured alert rules against stored inventory, sales and sync state
    */
   @Cron('*/15 * * * *', {
-    name: 'inventory-alerts',
+    name: 'alert-rules',
     timeZone: 'UTC',
   })
-  async checkInventoryAlerts(): Promise<void> {
-    try {
-      this.logger.debug('Checking inventory alerts');
-
-      // Get current stock levels
-      const stockLevels = await this.shopifyService.getStockLevels();
-      
-      // Process alerts
-      const alerts = [];
-      const criticalStockThreshold = 5;
-      const lowStockThreshold = 10;
-
-      stockLevels.forEach(product => {
-        product.variants?.edges?.forEach(edge => {
-          const variant = edge.node;
-          const stock = variant.inventoryQuantity || 0;
-          
-          if (variant.inventoryItem?.tracked) {
-            if (stock === 0) {
-              alerts.push({
-                type: 'OUT_OF_STOCK',
-                severity: 'CRITICAL',
-                productTitle: product.title,
-                variantTitle: variant.title,
-                sku: variant.sku,
-                currentStock: stock,
-                timestamp: new Date().toISOString(),
-              });
-            } else if (stock <= criticalStockThreshold) {
-              alerts.push({
-                type: 'CRITICAL_LOW_STOCK',
-                severity: 'HIGH',
-                productTitle: product.title,
-                variantTitle: variant.title,
-                sku: variant.sku,
-                currentStock: stock,
-                timestamp: new Date().toISOString(),
-              });
-            } else if (stock <= lowStockThreshold) {
-              alerts.push({
-                type: 'LOW_STOCK',
-                severity: 'MEDIUM',
-                productTitle: product.title,
-                variantTitle: variant.title,
-                sku: variant.sku,
-                currentStock: stock,
-                timestamp: new Date().toISOString(),
-              });
-            }
-          }
-        });
-      });
-
-      // Store alerts in Redis
-      if (alerts.length > 0) {
-        await this.redisService.set(
-          'alerts:inventory',
-          alerts,
-          { ttl: 900 } // 15 minutes TTL
-        );
-
-        this.logger.warn(`Found ${alerts.length} inventory alerts`);
-      } else {
-        this.logger.debug('No inventory alerts found');
+  async evaluateAlertRules(): Promise<void> {
+    await this.storeContext.forEachStore(async () => {
+      try {
+        this.logger.debug('Evaluating alert rules');
+        await this.alertsService.evaluateRules();
+      } catch (error) {
+        this.logger.error('Alert rule evaluation failed:', error);
       }
+    });
+  }
 
-    } catch (error) {
-      this.logger.error('Inventory alerts check failed:', error);
-    }
+  /**
+   * Notification flush - runs every 15 minutes, between alert rule evaluations
+   * Sends digests of notifications held back by the hourly limit and retries failed deliveries
+   */
+  @Cron('5,20,35,50 * * * *', {
+    name: 'notification-flush',
+    timeZone: 'UTC',
+  })
+  async flushNotifications(): Promise<void> {
+    await this.storeContext.forEachStore(async () => {
+      try {
+        const { digestsSent, retried } = await this.notificationsService.flush();
+        if (digestsSent > 0 || retried > 0) {
+          this.logger.log(`Sent ${digestsSent} notification digests, retried ${retried} failed deliveries`);
+        }
+      } catch (error) {
+        this.logger.error('Notification flush failed:', error);
+      }
+    });
   }
 
   /**
@@ -288,74 +359,76 @@ export class ShopifySchedulerService {
     timeZone: 'UTC',
   })
   async validateData(): Promise<void> {
-    try {
-      this.logger.debug('Running data validation');
+    await this.storeContext.forEachStore(async () => {
+      try {
+        this.logger.debug('Running data validation');
 
-      const validationResults = [];
+        const validationResults = [];
 
-      // Validate dashboard summary exists and is recent
-      const cacheKeys = this.redisService.getCacheKeys();
-      const dashboardSummary = await this.redisService.get(cacheKeys.dashboard.summary);
+        // Validate dashboard summary exists and is recent
+        const cacheKeys = this.redisService.getCacheKeys();
+        const dashboardSummary = await this.redisService.get(cacheKeys.dashboard.summary);
       
-      if (!dashboardSummary) {
-        validationResults.push({
-          check: 'dashboard_summary_exists',
-          status: 'FAIL',
-          message: 'Dashboard summary not found in cache',
-        });
-      } else if (typeof dashboardSummary === 'object' && dashboardSummary && 'lastUpdated' in dashboardSummary) {
-        const lastUpdated = new Date((dashboardSummary as any).lastUpdated);
-        const ageMinutes = (Date.now() - lastUpdated.getTime()) / (1000 * 60);
-        
-        if (ageMinutes > 10) {
+        if (!dashboardSummary) {
           validationResults.push({
-            check: 'dashboard_summary_freshness',
-            status: 'WARN',
-            message: `Dashboard summary is ${Math.round(ageMinutes)} minutes old`,
-          });
-        } else {
-          validationResults.push({
-            check: 'dashboard_summary_freshness',
-            status: 'PASS',
-            message: 'Dashboard summary is fresh',
+            check: 'dashboard_summary_exists',
+            status: 'FAIL',
+            message: 'Dashboard summary not found in cache',
           });
+        } else if (typeof dashboardSummary === 'object' && dashboardSummary && 'lastUpdated' in dashboardSummary) {
+          const lastUpdated = new Date((dashboardSummary as any).lastUpdated);
+          const ageMinutes = (Date.now() - lastUpdated.getTime()) / (1000 * 60);
+        
+          if (ageMinutes > 10) {
+            validationResults.push({
+              check: 'dashboard_summary_freshness',
+              status: 'WARN',
+              message: `Dashboard summary is ${Math.round(ageMinutes)} minutes old`,
+            });
+          } else {
+            validationResults.push({
+              check: 'dashboard_summary_freshness',
+              status: 'PASS',
+              message: 'Dashboard summary is fresh',
+            });
+          }
         }
-      }
 
-      // Validate Shopify API connectivity
-      const isShopifyHealthy = await this.shopifyService.healthCheck();
-      validationResults.push({
-        check: 'shopify_api_connectivity',
-        status: isShopifyHealthy ? 'PASS' : 'FAIL',
-        message: isShopifyHealthy ? 'Shopify API is accessible' : 'Shopify API is not accessible',
-      });
+        // Validate Shopify API connectivity
+        const isShopifyHealthy = await this.shopifyService.healthCheck();
+        validationResults.push({
+          check: 'shopify_api_connectivity',
+          status: isShopifyHealthy ? 'PASS' : 'FAIL',
+          message: isShopifyHealthy ? 'Shopify API is accessible' : 'Shopify API is not accessible',
+        });
 
-      // Store validation results
-      await this.redisService.set(
-        'system:validation_results',
-        {
-          timestamp: new Date().toISOString(),
-          results: validationResults,
-          overallStatus: validationResults.some(r => r.status === 'FAIL') ? 'FAIL' : 
-                        validationResults.some(r => r.status === 'WARN') ? 'WARN' : 'PASS',
-        },
-        { ttl: 1800 } // 30 minutes TTL
-      );
+        // Store validation results
+        await this.redisService.set(
+          'system:validation_results',
+          {
+            timestamp: new Date().toISOString(),
+            results: validationResults,
+            overallStatus: validationResults.some(r => r.status === 'FAIL') ? 'FAIL' : 
+                          validationResults.some(r => r.status === 'WARN') ? 'WARN' : 'PASS',
+          },
+          { ttl: 1800 } // 30 minutes TTL
+        );
 
-      const failCount = validationResults.filter(r => r.status === 'FAIL').length;
-      const warnCount = validationResults.filter(r => r.status === 'WARN').length;
+        const failCount = validationResults.filter(r => r.status === 'FAIL').length;
+        const warnCount = validationResults.filter(r => r.status === 'WARN').length;
 
-      if (failCount > 0) {
-        this.logger.error(`Data validation completed with ${failCount} failures and ${warnCount} warnings`);
-      } else if (warnCount > 0) {
-        this.logger.warn(`Data validation completed with ${warnCount} warnings`);
-      } else {
-        this.logger.debug('Data validation completed successfully');
-      }
+        if (failCount > 0) {
+          this.logger.error(`Data validation completed with ${failCount} failures and ${warnCount} warnings`);
+        } else if (warnCount > 0) {
+          this.logger.warn(`Data validation completed with ${warnCount} warnings`);
+        } else {
+          this.logger.debug('Data validation completed successfully');
+        }
 
-    } catch (error) {
-      this.logger.error('Data validation failed:', error);
-    }
+      } catch (error) {
+        this.logger.error('Data validation failed:', error);
+      }
+    });
   }
 
   /**
@@ -367,13 +440,13 @@ export class ShopifySchedulerService {
         timestamp: new Date().toISOString(),
         duration,
         success,
-        syncCount: this.syncCount,
+        syncCount: this.getSyncState().syncCount,
         errorMessage: errorMessage || null,
       };
 
       // Store individual sync metric
       await this.redisService.set(
-        `sync:metrics:${this.syncCount}`,
+        `sync:metrics:${metrics.syncCount}`,
         metrics,
         { ttl: 3600 } // 1 hour TTL
       );
@@ -449,10 +522,13 @@ export class ShopifySchedulerService {
       const lastError = await this.redisService.get('sync:last_error');
       const failureCount = await this.redisService.get('sync:failure_count') || 0;
 
+      const state = this.getSyncState();
+
       return {
-        isRunning: this.isRunning,
-        lastSyncTime: this.lastSyncTime?.toISOString(),
-        syncCount: this.syncCount,
+        storeId: this.storeContext.getStoreId(),
+        isRunning: state.isRunning,
+        lastSyncTime: state.lastSyncTime?.toISOString(),
+        syncCount: state.syncCount,
         metrics: metrics || null,
         lastError: lastError || null,
         consecutiveFailures: failureCount,
@@ -466,7 +542,7 @@ export class ShopifySchedulerService {
   }
 
   /**
-   * Manual trigger for immediate sync
+   * Manual trigger for immediate sync of the current store
    */
   async triggerManualSync(): Promise<void> {
     this.logger.log('Manual sync triggered');
@@ -480,4 +556,19 @@ export class ShopifySchedulerService {
     await this.redisService.del('sync:failure_count');
     this.logger.log('Sync failure count reset');
   }
+
+  /**
+   * Sync state of the current store
+   */
+  private getSyncState(): StoreSyncState {
+    const storeId = this.storeContext.getStoreId();
+    let state = this.syncStates.get(storeId);
+
+    if (!state) {
+      state = { isRunning: false, lastSyncTime: null, syncCount: 0 };
+      this.syncStates.set(storeId, state);
+    }
+
+    return state;
+  }
 }
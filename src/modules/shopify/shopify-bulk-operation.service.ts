@@ -0,0 +1,502 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { ShopifyGraphQLService } from './shopify-graphql.service';
+import {
+  BulkOperation,
+  BulkExportProgress,
+  BulkOperationRunQueryResponse,
+  CurrentBulkOperationResponse,
+  ShopifyOrder,
+  ShopifyProduct,
+  ShopifyCustomer,
+  QueryFilters,
+  APIError,
+} from '@interfaces/shopify.interface';
+
+/**
+ * Client for Shopify Bulk Operations, used for full historical exports
+ */
+@Injectable()
+export class ShopifyBulkOperationService {
+  private readonly logger = new Logger(ShopifyBulkOperationService.name);
+  private readonly pollIntervalMs: number;
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly graphqlService: ShopifyGraphQLService,
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    this.pollIntervalMs = this.configService.get<number>('config.bulkOperations.pollIntervalMs', 5000);
+    this.timeoutMs = this.configService.get<number>('config.bulkOperations.timeoutMs', 3600000);
+  }
+
+  /**
+   * Export every order matching the filters, with line items, returns and refund details attached
+   */
+  async exportOrders(
+    filters: QueryFilters = {},
+    onProgress?: (progress: BulkExportProgress) => void,
+  ): Promise<ShopifyOrder[]> {
+    return this.runExport<ShopifyOrder>(this.buildOrdersBulkQuery(filters), 'lineItems', onProgress, {
+      Return: 'returns',
+      RefundLineItem: 'refundLineItems',
+      OrderTransaction: 'transactions',
+    });
+  }
+
+  /**
+   * Export every product, with variants attached
+   */
+  async exportProducts(onProgress?: (progress: BulkExportProgress) => void): Promise<ShopifyProduct[]> {
+    return this.runExport<ShopifyProduct>(this.buildProductsBulkQuery(), 'variants', onProgress, {
+      InventoryLevel: 'inventoryItem.inventoryLevels',
+    });
+  }
+
+  /**
+   * Export every customer
+   */
+  async exportCustomers(onProgress?: (progress: BulkExportProgress) => void): Promise<ShopifyCustomer[]> {
+    return this.runExport<ShopifyCustomer>(this.buildCustomersBulkQuery(), null, onProgress);
+  }
+
+  /**
+   * Submit a bulk query. Shopify allows only one bulk query per shop at a time.
+   */
+  async runQuery(bulkQuery: string): Promise<BulkOperation> {
+    const current = await this.getCurrentOperation();
+    if (current && (current.status === 'CREATED' || current.status === 'RUNNING')) {
+      throw new APIError(`Bulk operation ${current.id} is already running`, 409);
+    }
+
+    const response = await this.graphqlService.executeQuery<BulkOperationRunQueryResponse>({
+      query: `
+        mutation RunBulkQuery($query: String!) {
+          bulkOperationRunQuery(query: $query) {
+            bulkOperation {
+              id
+              status
+              createdAt
+              objectCount
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      variables: { query: bulkQuery },
+      operationName: 'RunBulkQuery',
+    });
+
+    const { bulkOperation, userErrors } = response.data.bulkOperationRunQuery;
+    if (userErrors?.length > 0) {
+      throw new APIError(`Bulk operation rejected: ${userErrors.map(error => error.message).join(', ')}`, 400);
+    }
+
+    this.logger.log(`Bulk operation ${bulkOperation.id} submitted`);
+    return bulkOperation;
+  }
+
+  /**
+   * Get the shop's current (most recent) bulk query
+   */
+  async getCurrentOperation(): Promise<BulkOperation | null> {
+    const response = await this.graphqlService.executeQuery<CurrentBulkOperationResponse>({
+      query: `
+        query CurrentBulkOperation {
+          currentBulkOperation {
+            id
+            status
+            errorCode
+            createdAt
+            completedAt
+            objectCount
+            fileSize
+            url
+            partialDataUrl
+          }
+        }
+      `,
+      operationName: 'CurrentBulkOperation',
+    });
+
+    return response.data.currentBulkOperation;
+  }
+
+  /**
+   * Poll until the bulk operation finishes
+   */
+  async waitForCompletion(
+    operationId: string,
+    onPoll?: (operation: BulkOperation) => void,
+  ): Promise<BulkOperation> {
+    const deadline = Date.now() + this.timeoutMs;
+
+    while (Date.now() < deadline) {
+      const operation = await this.getCurrentOperation();
+
+      if (!operation || operation.id !== operationId) {
+        throw new APIError(`Bulk operation ${operationId} is no longer the current operation`);
+      }
+
+      onPoll?.(operation);
+
+      switch (operation.status) {
+        case 'COMPLETED':
+          this.logger.log(`Bulk operation ${operationId} completed with ${operation.objectCount} objects`);
+          return operation;
+        case 'FAILED':
+        case 'CANCELED':
+        case 'EXPIRED':
+          throw new APIError(
+            `Bulk operation ${operationId} ended with status ${operation.status}${operation.errorCode ? ` (${operation.errorCode})` : ''}`,
+          );
+      }
+
+      await this.delay(this.pollIntervalMs);
+    }
+
+    throw new APIError(`Bulk operation ${operationId} did not complete within ${this.timeoutMs}ms`, 504, true);
+  }
+
+  /**
+   * Download the JSONL result and hand each parsed line to the callback without buffering the file
+   */
+  async streamResults(url: string, onRecord: (record: any) => void): Promise<number> {
+    const response = await firstValueFrom(
+      this.httpService.get<Readable>(url, { responseType: 'stream', timeout: 0 }),
+    );
+
+    const lines = createInterface({ input: response.data, crlfDelay: Infinity });
+    let count = 0;
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      onRecord(JSON.parse(line));
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Run a bulk query end to end and reassemble child rows onto their parents.
+   * Child rows go to the child connection unless their GID resource type is listed in
+   * otherConnections; those may also belong to objects nested in a parent row, such as refunds,
+   * or to other child rows. A dotted connection path attaches to an object nested in the row.
+   */
+  private async runExport<T extends { id: string }>(
+    bulkQuery: string,
+    childConnection: string | null,
+    onProgress?: (progress: BulkExportProgress) => void,
+    otherConnections: Record<string, string> = {},
+  ): Promise<T[]> {
+    const submitted = await this.runQuery(bulkQuery);
+
+    const completed = await this.waitForCompletion(submitted.id, operation =>
+      onProgress?.({
+        bulkOperationId: operation.id,
+        status: 'running',
+        objectCount: parseInt(operation.objectCount, 10) || 0,
+        recordsImported: 0,
+      }),
+    );
+
+    const objectCount = parseInt(completed.objectCount, 10) || 0;
+    if (!completed.url) {
+      // Shopify returns no file when the query matched nothing
+      return [];
+    }
+
+    const parents = new Map<string, T>();
+    // Rows and the objects with ids nested in parent rows, which child rows can belong to
+    const attachable = new Map<string, any>();
+    const orphans = new Map<string, any[]>();
+    let linesRead = 0;
+
+    const connectionFor = (child: any): string | null => {
+      const resourceType = /^gid:\/\/shopify\/(\w+)\//.exec(child.id || '')?.[1];
+      return otherConnections[resourceType] || childConnection;
+    };
+    const emptyConnection = () => ({ edges: [], pageInfo: { hasNextPage: false, hasPreviousPage: false } });
+    const attach = (parent: any, child: any) => {
+      const connection = connectionFor(child);
+      if (!connection) return;
+      const path = connection.split('.');
+      const field = path.pop();
+      const owner = path.reduce((object, key) => (object[key] = object[key] || {}), parent);
+      owner[field] = owner[field] || emptyConnection();
+      owner[field].edges.push({ cursor: child.id, node: child });
+      register(child);
+    };
+    const register = (object: any) => {
+      attachable.set(object.id, object);
+      (orphans.get(object.id) || []).forEach(child => attach(object, child));
+      orphans.delete(object.id);
+    };
+
+    await this.streamResults(completed.url, record => {
+      linesRead++;
+      const { __parentId: parentId, ...node } = record;
+
+      if (parentId) {
+        const parent = attachable.get(parentId);
+        if (parent) {
+          attach(parent, node);
+        } else {
+          if (!orphans.has(parentId)) orphans.set(parentId, []);
+          orphans.get(parentId).push(node);
+        }
+      } else {
+        if (childConnection) {
+          node[childConnection] = emptyConnection();
+        }
+        register(node);
+        Object.values(node)
+          .filter(Array.isArray)
+          .forEach(list => list.filter(item => item?.id).forEach(register));
+        parents.set(node.id, node as T);
+      }
+
+      if (linesRead % 1000 === 0) {
+        onProgress?.({
+          bulkOperationId: completed.id,
+          status: 'downloading',
+          objectCount,
+          recordsImported: parents.size,
+        });
+      }
+    });
+
+    if (orphans.size > 0) {
+      this.logger.warn(`Bulk operation ${completed.id}: ${orphans.size} child groups had no parent record`);
+    }
+
+    this.logger.log(`Bulk operation ${completed.id}: reassembled ${parents.size} records from ${linesRead} lines`);
+    return Array.from(parents.values());
+  }
+
+  private buildOrdersBulkQuery(filters: QueryFilters): string {
+    const queryParts: string[] = [];
+    if (filters.createdAtMin) queryParts.push(`created_at:>=${filters.createdAtMin}`);
+    if (filters.createdAtMax) queryParts.push(`created_at:<=${filters.createdAtMax}`);
+    if (filters.updatedAtMin) queryParts.push(`updated_at:>=${filters.updatedAtMin}`);
+    if (filters.updatedAtMax) queryParts.push(`updated_at:<=${filters.updatedAtMax}`);
+    const search = queryParts.length > 0 ? `(query: "${queryParts.join(' AND ')}")` : '';
+
+    return `
+      {
+        orders${search} {
+          edges {
+            node {
+              id
+              name
+              createdAt
+              updatedAt
+              processedAt
+              closedAt
+              cancelledAt
+              cancelReason
+              totalPriceSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+                presentmentMoney {
+                  amount
+                  currencyCode
+                }
+              }
+              subtotalPriceSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+              }
+              totalTaxSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+              }
+              totalDiscountsSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+              }
+              totalShippingPriceSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+              }
+              displayFinancialStatus
+              displayFulfillmentStatus
+              tags
+              note
+              sourceName
+              ${this.graphqlService.getOrderAttributionFields()}
+              ${this.graphqlService.getOrderRefundFields(true)}
+              shippingAddress {
+                countryCodeV2
+              }
+              billingAddress {
+                countryCodeV2
+              }
+              customer {
+                id
+                displayName
+                email
+                numberOfOrders
+                amountSpent {
+                  amount
+                  currencyCode
+                }
+              }
+              lineItems {
+                edges {
+                  node {
+                    id
+                    title
+                    quantity
+                    sku
+                    variant {
+                      id
+                      title
+                      product {
+                        id
+                        title
+                        productType
+                        vendor
+                      }
+                    }
+                    originalUnitPriceSet {
+                      shopMoney {
+                        amount
+                        currencyCode
+                      }
+                    }
+                    totalDiscountSet {
+                      shopMoney {
+                        amount
+                        currencyCode
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+  }
+
+  private buildProductsBulkQuery(): string {
+    return `
+      {
+        products {
+          edges {
+            node {
+              id
+              title
+              handle
+              description
+              productType
+              vendor
+              tags
+              status
+              createdAt
+              updatedAt
+              publishedAt
+              totalInventory
+              variants {
+                edges {
+                  node {
+                    id
+                    title
+                    sku
+                    inventoryQuantity
+                    price
+                    compareAtPrice
+                    inventoryItem {
+                      id
+                      tracked
+                      unitCost {
+                        amount
+                        currencyCode
+                      }
+                      inventoryLevels {
+                        edges {
+                          node {
+                            id
+                            location {
+                              id
+                              name
+                            }
+                            quantities(names: ["available", "on_hand", "committed", "incoming"]) {
+                              name
+                              quantity
+                            }
+                            updatedAt
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+  }
+
+  private buildCustomersBulkQuery(): string {
+    return `
+      {
+        customers {
+          edges {
+            node {
+              id
+              firstName
+              lastName
+              displayName
+              email
+              phone
+              createdAt
+              updatedAt
+              numberOfOrders
+              amountSpent {
+                amount
+                currencyCode
+              }
+              tags
+              note
+              addresses {
+                id
+                address1
+                city
+                country
+                zip
+              }
+            }
+          }
+        }
+      }
+    `;
+  }
+
+  private async delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -3,12 +3,18 @@ import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
 import { AxiosResponse } from 'axios';
+import { ShopifyRateLimiterService } from './shopify-rate-limiter.service';
+import { StoreContextService } from '../stores/store-context.service';
 import {
   ShopifyResponse,
   ShopifyAPIOptions,
   OrdersQueryResponse,
   ProductsQueryResponse,
   CustomersQueryResponse,
+  InventoryItemLevelsQueryResponse,
+  LocationsQueryResponse,
+  LocationInventoryLevelsQueryResponse,
+  ShopQueryResponse,
   PaginationOptions,
   QueryFilters,
   APIError,
@@ -17,58 +23,69 @@ import {
 @Injectable()
 export class ShopifyGraphQLService {
   private readonly logger = new Logger(ShopifyGraphQLService.name);
-  private readonly shopifyConfig: any;
 
   constructor(
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
-  ) {
-    this.shopifyConfig = this.configService.get('config.shopify');
-  }
+    private readonly rateLimiter: ShopifyRateLimiterService,
+    private readonly storeContext: StoreContextService,
+  ) {}
 
   /**
-   * Execute GraphQL query against Shopify API
+   * Execute GraphQL query against the current store's Shopify API
    */
   async executeQuery<T>(options: ShopifyAPIOptions): Promise<ShopifyResponse<T>> {
-    try {
-      const response: AxiosResponse<ShopifyResponse<T>> = await firstValueFrom(
-        this.httpService.post(
-          this.shopifyConfig.graphqlEndpoint,
-          {
-            query: options.query,
-            variables: options.variables || {},
-            operationName: options.operationName,
-          },
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'X-Shopify-Access-Token': this.shopifyConfig.accessToken,
+    const store = this.storeContext.getStore();
+
+    return this.rateLimiter.schedule(options.operationName, async () => {
+      try {
+        const response: AxiosResponse<ShopifyResponse<T>> = await firstValueFrom(
+          this.httpService.post(
+            store.graphqlEndpoint,
+            {
+              query: options.query,
+              variables: options.variables || {},
+              operationName: options.operationName,
+            },
+            {
+              headers: {
+                'Content-Type': 'application/json',
+                'X-Shopify-Access-Token': store.accessToken,
+              },
             },
-          },
-        ),
-      );
+          ),
+        );
 
-      if (response.data.errors && response.data.errors.length > 0) {
-        this.logger.error('GraphQL errors:', response.data.errors);
-        throw new APIError(`GraphQL Error: ${response.data.errors[0].message}`);
-      }
+        const cost = response.data.extensions?.cost;
 
-      // Log API cost information if available
-      if (response.data.extensions?.cost) {
-        const cost = response.data.extensions.cost;
-        this.logger.debug(
-          `API Cost - Requested: ${cost.requestedQueryCost}, Actual: ${cost.actualQueryCost}, Available: ${cost.throttleStatus.currentlyAvailable}/${cost.throttleStatus.maximumAvailable}`,
-        );
-      }
+        if (response.data.errors && response.data.errors.length > 0) {
+          // Throttled queries come back as HTTP 200 with a THROTTLED error code
+          if (response.data.errors.some(error => error.extensions?.code === 'THROTTLED')) {
+            this.rateLimiter.recordThrottled(cost);
+            throw new APIError('Query throttled by Shopify', 429, true);
+          }
+
+          this.rateLimiter.recordCost(options.operationName, cost);
+          this.logger.error('GraphQL errors:', response.data.errors);
+          throw new APIError(`GraphQL Error: ${response.data.errors[0].message}`);
+        }
+
+        this.rateLimiter.recordCost(options.operationName, cost);
 
-      return response.data;
-    } catch (error) {
-      this.logger.error('GraphQL query failed:', error);
-      if (error.response?.status === 429) {
-        throw new APIError('Rate limit exceeded', 429, true);
+        return response.data;
+      } catch (error) {
+        if (error instanceof APIError) {
+          throw error;
+        }
+
+        this.logger.error('GraphQL query failed:', error);
+        if (error.response?.status === 429) {
+          this.rateLimiter.recordThrottled();
+          throw new APIError('Rate limit exceeded', 429, true);
+        }
+        throw error;
       }
-      throw error;
-    }
+    });
   }
 
   /**
@@ -93,9 +110,9 @@ export class ShopifyGraphQLService {
   /**
    * Get products with pagination
    */
-  async getProducts(pagination: PaginationOptions = {}): Promise<ProductsQueryResponse> {
+  async getProducts(pagination: PaginationOptions = {}, filters: QueryFilters = {}): Promise<ProductsQueryResponse> {
     const query = this.buildProductsQuery(pagination);
-    const variables = this.buildProductsVariables(pagination);
+    const variables = this.buildProductsVariables(pagination, filters);
 
     const response = await this.executeQuery<ProductsQueryResponse>({
       query,
@@ -109,9 +126,9 @@ export class ShopifyGraphQLService {
   /**
    * Get customers with pagination
    */
-  async getCustomers(pagination: PaginationOptions = {}): Promise<CustomersQueryResponse> {
+  async getCustomers(pagination: PaginationOptions = {}, filters: QueryFilters = {}): Promise<CustomersQueryResponse> {
     const query = this.buildCustomersQuery(pagination);
-    const variables = this.buildCustomersVariables(pagination);
+    const variables = this.buildCustomersVariables(pagination, filters);
 
     const response = await this.executeQuery<CustomersQueryResponse>({
       query,
@@ -125,7 +142,7 @@ export class ShopifyGraphQLService {
   /**
    * Get daily sales dashboard data
    */
-  async getDailySalesData(dateFilter?: string): Promise<OrdersQueryResponse> {
+  async getDailySalesData(range: { start: Date; end: Date }): Promise<OrdersQueryResponse> {
     const query = `
       query GetDailySales($first: Int!, $query: String) {
         orders(first: $first, query: $query, sortKey: CREATED_AT, reverse: true) {
@@ -174,7 +191,7 @@ export class ShopifyGraphQLService {
 
     const variables = {
       first: 50,
-      query: dateFilter || `created_at:>=${new Date().toISOString().split('T')[0]}`,
+      query: this.buildSearchQuery({ createdAtMin: range.start.toISOString(), createdAtMax: range.end.toISOString() }),
     };
 
     const response = await this.executeQuery<OrdersQueryResponse>({
@@ -199,6 +216,8 @@ export class ShopifyGraphQLService {
               name
               createdAt
               tags
+              sourceName
+              ${this.getOrderAttributionFields()}
               totalPriceSet {
                 shopMoney {
                   amount
@@ -287,7 +306,8 @@ export class ShopifyGraphQLService {
   }
 
   /**
-   * Get real-time stock levels
+   * Get real-time stock levels. Per-location levels are not nested here; they are paged per
+   * location with getLocationInventoryLevels.
    */
   async getStockLevels(): Promise<ProductsQueryResponse> {
     const query = `
@@ -309,6 +329,10 @@ export class ShopifyGraphQLService {
                     inventoryItem {
                       id
                       tracked
+                      unitCost {
+                        amount
+                        currencyCode
+                      }
                     }
                   }
                 }
@@ -447,6 +471,149 @@ export class ShopifyGraphQLService {
     return response.data;
   }
 
+  /**
+   * Get one page of the stock of an inventory item at every location
+   */
+  async getInventoryItemLevels(inventoryItemId: string, after?: string): Promise<InventoryItemLevelsQueryResponse> {
+    const query = `
+      query GetInventoryItemLevels($id: ID!, $after: String) {
+        inventoryItem(id: $id) {
+          id
+          inventoryLevels(first: 50, after: $after) {
+            edges {
+              cursor
+              node {
+                id
+                location {
+                  id
+                  name
+                }
+                quantities(names: ["available", "on_hand", "committed", "incoming"]) {
+                  name
+                  quantity
+                }
+                updatedAt
+              }
+            }
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              endCursor
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.executeQuery<InventoryItemLevelsQueryResponse>({
+      query,
+      variables: { id: inventoryItemId, after },
+      operationName: 'GetInventoryItemLevels',
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Get one page of the shop's active locations
+   */
+  async getLocations(after?: string): Promise<LocationsQueryResponse> {
+    const query = `
+      query GetLocations($after: String) {
+        locations(first: 50, after: $after) {
+          edges {
+            cursor
+            node {
+              id
+              name
+            }
+          }
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            endCursor
+          }
+        }
+      }
+    `;
+
+    const response = await this.executeQuery<LocationsQueryResponse>({
+      query,
+      variables: { after },
+      operationName: 'GetLocations',
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Get one page of the stock of every inventory item at a location
+   */
+  async getLocationInventoryLevels(locationId: string, after?: string): Promise<LocationInventoryLevelsQueryResponse> {
+    const query = `
+      query GetLocationInventoryLevels($id: ID!, $after: String) {
+        location(id: $id) {
+          id
+          inventoryLevels(first: 100, after: $after) {
+            edges {
+              cursor
+              node {
+                id
+                item {
+                  id
+                }
+                location {
+                  id
+                  name
+                }
+                quantities(names: ["available", "on_hand", "committed", "incoming"]) {
+                  name
+                  quantity
+                }
+                updatedAt
+              }
+            }
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              endCursor
+            }
+          }
+        }
+      }
+    `;
+
+    const response = await this.executeQuery<LocationInventoryLevelsQueryResponse>({
+      query,
+      variables: { id: locationId, after },
+      operationName: 'GetLocationInventoryLevels',
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Get the shop's name, time zone and currency
+   */
+  async getShop(): Promise<ShopQueryResponse> {
+    const query = `
+      query GetShop {
+        shop {
+          name
+          ianaTimezone
+          currencyCode
+        }
+      }
+    `;
+
+    const response = await this.executeQuery<ShopQueryResponse>({
+      query,
+      operationName: 'GetShop',
+    });
+
+    return response.data;
+  }
+
   /**
    * Get shipped orders monitoring
    */
@@ -505,8 +672,8 @@ export class ShopifyGraphQLService {
           last: $last
           before: $before
           query: $query
-          sortKey: CREATED_AT
-          reverse: true
+          sortKey: ${pagination.sortKey || 'CREATED_AT'}
+          reverse: ${pagination.reverse ?? true}
         ) {
           edges {
             cursor
@@ -521,6 +688,10 @@ export class ShopifyGraphQLService {
                   amount
                   currencyCode
                 }
+                presentmentMoney {
+                  amount
+                  currencyCode
+                }
               }
               subtotalPriceSet {
                 shopMoney {
@@ -534,10 +705,31 @@ export class ShopifyGraphQLService {
                   currencyCode
                 }
               }
+              totalDiscountsSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+              }
+              totalShippingPriceSet {
+                shopMoney {
+                  amount
+                  currencyCode
+                }
+              }
               displayFinancialStatus
               displayFulfillmentStatus
               tags
               note
+              sourceName
+              ${this.getOrderAttributionFields()}
+              ${this.getOrderRefundFields()}
+              shippingAddress {
+                countryCodeV2
+              }
+              billingAddress {
+                countryCodeV2
+              }
               lineItems(first: 50) {
                 edges {
                   node {
@@ -561,6 +753,12 @@ export class ShopifyGraphQLService {
                         currencyCode
                       }
                     }
+                    totalDiscountSet {
+                      shopMoney {
+                        amount
+                        currencyCode
+                      }
+                    }
                   }
                 }
               }
@@ -589,12 +787,15 @@ export class ShopifyGraphQLService {
 
   private buildProductsQuery(pagination: PaginationOptions): string {
     return `
-      query GetProducts($first: Int, $after: String, $last: Int, $before: String) {
+      query GetProducts($first: Int, $after: String, $last: Int, $before: String, $query: String) {
         products(
           first: $first
           after: $after
           last: $last
           before: $before
+          query: $query
+          sortKey: ${pagination.sortKey || 'ID'}
+          reverse: ${pagination.reverse ?? false}
         ) {
           edges {
             cursor
@@ -622,6 +823,10 @@ export class ShopifyGraphQLService {
                     inventoryItem {
                       id
                       tracked
+                      unitCost {
+                        amount
+                        currencyCode
+                      }
                     }
                   }
                 }
@@ -641,12 +846,15 @@ export class ShopifyGraphQLService {
 
   private buildCustomersQuery(pagination: PaginationOptions): string {
     return `
-      query GetCustomers($first: Int, $after: String, $last: Int, $before: String) {
+      query GetCustomers($first: Int, $after: String, $last: Int, $before: String, $query: String) {
         customers(
           first: $first
           after: $after
           last: $last
           before: $before
+          query: $query
+          sortKey: ${pagination.sortKey || 'ID'}
+          reverse: ${pagination.reverse ?? false}
         ) {
           edges {
             cursor
@@ -695,24 +903,15 @@ export class ShopifyGraphQLService {
     if (pagination.before) variables.before = pagination.before;
     if (pagination.last) variables.last = pagination.last;
 
-    // Build query string from filters
-    const queryParts: string[] = [];
-    if (filters.createdAtMin) queryParts.push(`created_at:>=${filters.createdAtMin}`);
-    if (filters.createdAtMax) queryParts.push(`created_at:<=${filters.createdAtMax}`);
-    if (filters.updatedAtMin) queryParts.push(`updated_at:>=${filters.updatedAtMin}`);
-    if (filters.updatedAtMax) queryParts.push(`updated_at:<=${filters.updatedAtMax}`);
-    if (filters.status) queryParts.push(`status:${filters.status}`);
-    if (filters.displayFinancialStatus) queryParts.push(`financial_status:${filters.displayFinancialStatus}`);
-    if (filters.displayFulfillmentStatus) queryParts.push(`fulfillment_status:${filters.displayFulfillmentStatus}`);
-
-    if (queryParts.length > 0) {
-      variables.query = queryParts.join(' AND ');
+    const searchQuery = this.buildSearchQuery(filters);
+    if (searchQuery) {
+      variables.query = searchQuery;
     }
 
     return variables;
   }
 
-  private buildProductsVariables(pagination: PaginationOptions) {
+  private buildProductsVariables(pagination: PaginationOptions, filters: QueryFilters) {
     const variables: any = {
       first: pagination.first || 50,
     };
@@ -721,10 +920,15 @@ export class ShopifyGraphQLService {
     if (pagination.before) variables.before = pagination.before;
     if (pagination.last) variables.last = pagination.last;
 
+    const searchQuery = this.buildSearchQuery(filters);
+    if (searchQuery) {
+      variables.query = searchQuery;
+    }
+
     return variables;
   }
 
-  private buildCustomersVariables(pagination: PaginationOptions) {
+  private buildCustomersVariables(pagination: PaginationOptions, filters: QueryFilters) {
     const variables: any = {
       first: pagination.first || 50,
     };
@@ -733,6 +937,93 @@ export class ShopifyGraphQLService {
     if (pagination.before) variables.before = pagination.before;
     if (pagination.last) variables.last = pagination.last;
 
+    const searchQuery = this.buildSearchQuery(filters);
+    if (searchQuery) {
+      variables.query = searchQuery;
+    }
+
     return variables;
   }
+
+  /**
+   * Order fields used for sales rep attribution. The staff member needs the read_users
+   * scope, so it is only requested when the staff_member rule is enabled.
+   */
+  getOrderAttributionFields(): string {
+    const rules = this.configService.get<string>('config.salesReps.attributionRules', '');
+    const staffMember = rules.split(',').some(rule => rule.trim() === 'staff_member');
+
+    return staffMember ? 'discountCodes staffMember { id name email }' : 'discountCodes';
+  }
+
+  /**
+   * Order fields for refund and return accounting. Bulk queries cannot page
+   * connections, so they are requested without first: arguments.
+   */
+  getOrderRefundFields(bulk = false): string {
+    const first = (count: number) => (bulk ? '' : `(first: ${count})`);
+    const money = '{ shopMoney { amount currencyCode } }';
+
+    return `
+      totalRefundedSet ${money}
+      refunds${first(20)} {
+        id
+        createdAt
+        note
+        totalRefundedSet ${money}
+        refundLineItems${first(50)} {
+          edges {
+            node {
+              id
+              quantity
+              restockType
+              restocked
+              lineItem { id }
+              priceSet ${money}
+              subtotalSet ${money}
+              totalTaxSet ${money}
+            }
+          }
+        }
+        transactions${first(10)} {
+          edges {
+            node {
+              id
+              kind
+              status
+              gateway
+              processedAt
+              amountSet ${money}
+            }
+          }
+        }
+      }
+      returns${first(10)} {
+        edges {
+          node {
+            id
+            name
+            status
+            totalQuantity
+          }
+        }
+      }
+    `;
+  }
+
+  /**
+   * Build a Shopify search query string from filters
+   */
+  private buildSearchQuery(filters: QueryFilters): string | undefined {
+    const queryParts: string[] = [];
+    if (filters.createdAtMin) queryParts.push(`created_at:>=${filters.createdAtMin}`);
+    if (filters.createdAtMax) queryParts.push(`created_at:<=${filters.createdAtMax}`);
+    if (filters.updatedAtMin) queryParts.push(`updated_at:>=${filters.updatedAtMin}`);
+    if (filters.updatedAtMax) queryParts.push(`updated_at:<=${filters.updatedAtMax}`);
+    if (filters.status) queryParts.push(`status:${filters.status}`);
+    if (filters.displayFinancialStatus) queryParts.push(`financial_status:${filters.displayFinancialStatus}`);
+    if (filters.displayFulfillmentStatus) queryParts.push(`fulfillment_status:${filters.displayFulfillmentStatus}`);
+
+    return queryParts.length > 0 ? queryParts.join(' AND ') : undefined;
+  }
 }
@@ -0,0 +1,189 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { APIError, SyncResource, SyncResourceState } from '@interfaces/shopify.interface';
+import { ShopifyGraphQLService } from './shopify-graphql.service';
+import { ShopifyRateLimiterService } from './shopify-rate-limiter.service';
+import { SyncWriterService } from '../storage/sync-writer.service';
+import { SyncStateRepository } from '../storage/sync-state.repository';
+import { ShopifyIncrementalSyncService } from './shopify-incremental-sync.service';
+
+class InMemorySyncStateRepository {
+  readonly states = new Map<SyncResource, SyncResourceState>();
+
+  get(resource: SyncResource): SyncResourceState {
+    return (
+      this.states.get(resource) ?? {
+        resource,
+        watermark: null,
+        cursor: null,
+        cursorWatermark: null,
+        pendingWatermark: null,
+        lastStatus: 'never',
+        lastError: null,
+        lastStartedAt: null,
+        lastCompletedAt: null,
+        lastRunRecords: 0,
+        totalRecords: 0,
+        updatedAt: null,
+      }
+    );
+  }
+
+  save(state: SyncResourceState): void {
+    this.states.set(state.resource, { ...state });
+  }
+}
+
+const ordersPage = (updatedAts: string[], endCursor: string | null) => ({
+  orders: {
+    edges: updatedAts.map((updatedAt, index) => ({ node: { id: `${endCursor}-${index}`, updatedAt } })),
+    pageInfo: { hasNextPage: !!endCursor, hasPreviousPage: false, startCursor: null, endCursor },
+  },
+});
+
+describe('ShopifyIncrementalSyncService', () => {
+  let graphqlService: { getOrders: jest.Mock };
+  let rateLimiter: { backoff: jest.Mock };
+  let syncWriterService: { writeBatch: jest.Mock; recordOrdersWindow: jest.Mock };
+  let syncStateRepository: InMemorySyncStateRepository;
+  let service: ShopifyIncrementalSyncService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    graphqlService = { getOrders: jest.fn() };
+    rateLimiter = { backoff: jest.fn().mockResolvedValue(undefined) };
+    syncWriterService = { writeBatch: jest.fn(), recordOrdersWindow: jest.fn() };
+    syncStateRepository = new InMemorySyncStateRepository();
+
+    const config: Record<string, number> = {
+      'config.sync.initialOrderLookbackHours': 24,
+      'config.sync.maxPagesPerRun': 2,
+    };
+    service = new ShopifyIncrementalSyncService(
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      graphqlService as unknown as ShopifyGraphQLService,
+      rateLimiter as unknown as ShopifyRateLimiterService,
+      syncWriterService as unknown as SyncWriterService,
+      syncStateRepository as unknown as SyncStateRepository,
+    );
+  });
+
+  const filtersOfCall = (call: number) => graphqlService.getOrders.mock.calls[call][1];
+  const cursorOfCall = (call: number) => graphqlService.getOrders.mock.calls[call][0].after;
+
+  it('starts orders from the lookback window and advances the watermark to the latest updatedAt', async () => {
+    graphqlService.getOrders.mockResolvedValueOnce(ordersPage(['2026-01-01T10:00:00Z', '2026-01-01T12:00:00Z'], null));
+
+    const result = await service.syncResource('orders');
+
+    const initialWatermark = Date.parse(filtersOfCall(0).updatedAtMin);
+    expect(Date.now() - initialWatermark).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000);
+    expect(Date.now() - initialWatermark).toBeLessThan(25 * 60 * 60 * 1000);
+    expect(graphqlService.getOrders.mock.calls[0][0]).toMatchObject({ sortKey: 'UPDATED_AT', reverse: false });
+
+    expect(result).toMatchObject({ complete: true, recordsFetched: 2, watermark: '2026-01-01T12:00:00Z' });
+    expect(syncStateRepository.get('orders')).toMatchObject({
+      watermark: '2026-01-01T12:00:00Z',
+      cursor: null,
+      lastStatus: 'completed',
+    });
+    expect(syncWriterService.recordOrdersWindow).toHaveBeenCalledTimes(1);
+  });
+
+  it('queries the next run from the stored watermark', async () => {
+    syncStateRepository.save({ ...syncStateRepository.get('orders'), watermark: '2026-01-01T12:00:00Z' });
+    graphqlService.getOrders.mockResolvedValueOnce(ordersPage([], null));
+
+    const result = await service.syncResource('orders');
+
+    expect(filtersOfCall(0)).toEqual({ updatedAtMin: '2026-01-01T12:00:00Z' });
+    expect(cursorOfCall(0)).toBeUndefined();
+    expect(result.watermark).toBe('2026-01-01T12:00:00Z');
+  });
+
+  it('stores the cursor of a page-capped run and resumes it with the same watermark', async () => {
+    syncStateRepository.save({ ...syncStateRepository.get('orders'), watermark: '2026-01-01T00:00:00Z' });
+    graphqlService.getOrders
+      .mockResolvedValueOnce(ordersPage(['2026-01-01T01:00:00Z'], 'page-1'))
+      .mockResolvedValueOnce(ordersPage(['2026-01-01T02:00:00Z'], 'page-2'));
+
+    const partial = await service.syncResource('orders');
+
+    expect(partial).toMatchObject({ complete: false, pagesFetched: 2, watermark: '2026-01-01T00:00:00Z' });
+    expect(syncStateRepository.get('orders')).toMatchObject({
+      watermark: '2026-01-01T00:00:00Z',
+      cursor: 'page-2',
+      cursorWatermark: '2026-01-01T00:00:00Z',
+      pendingWatermark: '2026-01-01T02:00:00Z',
+      lastStatus: 'partial',
+    });
+    expect(syncWriterService.recordOrdersWindow).not.toHaveBeenCalled();
+
+    graphqlService.getOrders.mockResolvedValueOnce(ordersPage(['2026-01-01T01:30:00Z'], null));
+
+    const resumed = await service.syncResource('orders');
+
+    expect(cursorOfCall(2)).toBe('page-2');
+    expect(filtersOfCall(2)).toEqual({ updatedAtMin: '2026-01-01T00:00:00Z' });
+    expect(resumed).toMatchObject({ complete: true, resumedFromCursor: true, watermark: '2026-01-01T02:00:00Z' });
+    expect(syncStateRepository.get('orders')).toMatchObject({
+      watermark: '2026-01-01T02:00:00Z',
+      cursor: null,
+      cursorWatermark: null,
+      pendingWatermark: null,
+    });
+  });
+
+  it('keeps the cursor of the last completed page when a run fails', async () => {
+    syncStateRepository.save({ ...syncStateRepository.get('orders'), watermark: '2026-01-01T00:00:00Z' });
+    graphqlService.getOrders
+      .mockResolvedValueOnce(ordersPage(['2026-01-01T01:00:00Z'], 'page-1'))
+      .mockRejectedValueOnce(new APIError('Internal error', 500, false));
+
+    await expect(service.syncResource('orders')).rejects.toThrow('Internal error');
+
+    expect(syncStateRepository.get('orders')).toMatchObject({
+      watermark: '2026-01-01T00:00:00Z',
+      cursor: 'page-1',
+      lastStatus: 'failed',
+      lastError: 'Internal error',
+    });
+  });
+
+  it('drops a stored cursor that Shopify rejects', async () => {
+    syncStateRepository.save({
+      ...syncStateRepository.get('orders'),
+      watermark: '2026-01-01T00:00:00Z',
+      cursor: 'stale',
+      cursorWatermark: '2025-12-31T00:00:00Z',
+      pendingWatermark: '2025-12-31T06:00:00Z',
+    });
+    graphqlService.getOrders.mockRejectedValueOnce(new APIError('Invalid cursor', 400, false));
+
+    await expect(service.syncResource('orders')).rejects.toThrow('Invalid cursor');
+
+    expect(filtersOfCall(0)).toEqual({ updatedAtMin: '2025-12-31T00:00:00Z' });
+    expect(syncStateRepository.get('orders')).toMatchObject({
+      watermark: '2026-01-01T00:00:00Z',
+      cursor: null,
+      cursorWatermark: null,
+      pendingWatermark: null,
+      lastStatus: 'failed',
+    });
+  });
+
+  it('retries a retryable page after backing off', async () => {
+    graphqlService.getOrders
+      .mockRejectedValueOnce(new APIError('Throttled', 429, true))
+      .mockResolvedValueOnce(ordersPage(['2026-01-01T01:00:00Z'], null));
+
+    const result = await service.syncResource('orders');
+
+    expect(rateLimiter.backoff).toHaveBeenCalledWith(1, 'incremental-orders');
+    expect(graphqlService.getOrders).toHaveBeenCalledTimes(2);
+    expect(result.complete).toBe(true);
+  });
+});
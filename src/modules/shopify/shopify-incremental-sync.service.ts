@@ -0,0 +1,239 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ShopifyGraphQLService } from './shopify-graphql.service';
+import { ShopifyRateLimiterService } from './shopify-rate-limiter.service';
+import { SyncWriterService } from '../storage/sync-writer.service';
+import { SyncStateRepository } from '../storage/sync-state.repository';
+import {
+  PaginationOptions,
+  QueryFilters,
+  PageInfo,
+  SyncResource,
+  SyncResourceState,
+  IncrementalSyncResult,
+  APIError,
+} from '@interfaces/shopify.interface';
+
+interface SyncPage {
+  nodes: Array<{ updatedAt?: string }>;
+  pageInfo: PageInfo;
+}
+
+/**
+ * Fetches only records changed since the last successful sync of each resource.
+ * Records are requested in ascending updatedAt order; the watermark advances once a run
+ * reaches the last page, and the endCursor is stored after every page so an interrupted
+ * or page-capped run continues where it stopped.
+ */
+@Injectable()
+export class ShopifyIncrementalSyncService {
+  private readonly logger = new Logger(ShopifyIncrementalSyncService.name);
+  private readonly pageSize = 50;
+  private readonly maxRetries = 3;
+  private readonly initialOrderLookbackHours: number;
+  private readonly maxPagesPerRun: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly graphqlService: ShopifyGraphQLService,
+    private readonly rateLimiter: ShopifyRateLimiterService,
+    private readonly syncWriterService: SyncWriterService,
+    private readonly syncStateRepository: SyncStateRepository,
+  ) {
+    this.initialOrderLookbackHours = this.configService.get<number>('config.sync.initialOrderLookbackHours', 24);
+    this.maxPagesPerRun = this.configService.get<number>('config.sync.maxPagesPerRun', 20);
+  }
+
+  /**
+   * Sync one resource from its watermark, resuming a stored cursor if present
+   */
+  async syncResource(resource: SyncResource): Promise<IncrementalSyncResult> {
+    const startTime = Date.now();
+    const runStartedAt = new Date().toISOString();
+    const state = this.syncStateRepository.get(resource);
+
+    const resumedFromCursor = !!state.cursor;
+    // A cursor is only valid for the query it came from, so resume with that query's watermark
+    const queryWatermark = resumedFromCursor
+      ? state.cursorWatermark
+      : (state.watermark ?? this.getInitialWatermark(resource));
+
+    let cursor = state.cursor;
+    let pendingWatermark = resumedFromCursor ? state.pendingWatermark : null;
+    let hasNextPage = true;
+    let pagesFetched = 0;
+    let recordsFetched = 0;
+
+    this.saveState({ ...state, lastStatus: 'running', lastStartedAt: runStartedAt, lastError: null });
+    this.logger.log(
+      `Incremental ${resource} sync from ${queryWatermark || 'the beginning'}${resumedFromCursor ? ' (resuming cursor)' : ''}`,
+    );
+
+    try {
+      while (hasNextPage && pagesFetched < this.maxPagesPerRun) {
+        const page = await this.fetchPageWithRetry(resource, cursor, queryWatermark);
+
+        this.syncWriterService.writeBatch({ [resource]: page.nodes }, 'incremental');
+
+        for (const node of page.nodes) {
+          if (node.updatedAt && (!pendingWatermark || node.updatedAt > pendingWatermark)) {
+            pendingWatermark = node.updatedAt;
+          }
+        }
+
+        pagesFetched++;
+        recordsFetched += page.nodes.length;
+        hasNextPage = page.pageInfo.hasNextPage;
+        cursor = hasNextPage ? page.pageInfo.endCursor : null;
+
+        if (hasNextPage) {
+          this.saveState({
+            ...state,
+            cursor,
+            cursorWatermark: queryWatermark,
+            pendingWatermark,
+            lastStatus: 'running',
+            lastStartedAt: runStartedAt,
+            lastError: null,
+            lastRunRecords: recordsFetched,
+            totalRecords: state.totalRecords + recordsFetched,
+          });
+        }
+      }
+
+      const complete = !hasNextPage;
+      const watermark = complete ? pendingWatermark || queryWatermark || state.watermark : state.watermark;
+
+      if (complete && resource === 'orders' && queryWatermark) {
+        // Every order created since the query watermark has an updatedAt at or after it
+        this.syncWriterService.recordOrdersWindow(new Date(queryWatermark), new Date(runStartedAt));
+      }
+
+      this.saveState({
+        ...state,
+        watermark,
+        cursor: complete ? null : cursor,
+        cursorWatermark: complete ? null : queryWatermark,
+        pendingWatermark: complete ? null : pendingWatermark,
+        lastStatus: complete ? 'completed' : 'partial',
+        lastStartedAt: runStartedAt,
+        lastCompletedAt: complete ? new Date().toISOString() : state.lastCompletedAt,
+        lastError: null,
+        lastRunRecords: recordsFetched,
+        totalRecords: state.totalRecords + recordsFetched,
+      });
+
+      const result: IncrementalSyncResult = {
+        resource,
+        recordsFetched,
+        pagesFetched,
+        complete,
+        resumedFromCursor,
+        watermark,
+        durationMs: Date.now() - startTime,
+      };
+
+      this.logger.log(
+        `Incremental ${resource} sync fetched ${recordsFetched} records in ${pagesFetched} pages` +
+          (complete ? `, watermark now ${watermark}` : ', more pages remain for the next run'),
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Incremental ${resource} sync failed after ${pagesFetched} pages:`, error);
+
+      // Keep the last stored cursor so the next run resumes from the last completed page,
+      // unless the stored cursor itself was rejected
+      const latest = this.syncStateRepository.get(resource);
+      const cursorRejected =
+        resumedFromCursor && pagesFetched === 0 && !(error instanceof APIError && error.isRetryable);
+
+      this.saveState({
+        ...latest,
+        cursor: cursorRejected ? null : latest.cursor,
+        cursorWatermark: cursorRejected ? null : latest.cursorWatermark,
+        pendingWatermark: cursorRejected ? null : latest.pendingWatermark,
+        lastStatus: 'failed',
+        lastError: error.message,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sync all resources
+   */
+  async syncAll(): Promise<IncrementalSyncResult[]> {
+    return Promise.all([this.syncResource('orders'), this.syncResource('products'), this.syncResource('customers')]);
+  }
+
+  /**
+   * Get watermark and cursor state for every resource
+   */
+  getSyncState(): SyncResourceState[] {
+    const resources: SyncResource[] = ['orders', 'products', 'customers'];
+    return resources.map(resource => this.syncStateRepository.get(resource));
+  }
+
+  /**
+   * Where a resource without a watermark starts. Orders start from a recent window;
+   * products and customers are fetched in full.
+   */
+  private getInitialWatermark(resource: SyncResource): string | null {
+    if (resource !== 'orders') return null;
+    return new Date(Date.now() - this.initialOrderLookbackHours * 60 * 60 * 1000).toISOString();
+  }
+
+  private async fetchPageWithRetry(
+    resource: SyncResource,
+    cursor: string | null,
+    watermark: string | null,
+  ): Promise<SyncPage> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await this.fetchPage(resource, cursor, watermark);
+      } catch (error) {
+        attempt++;
+
+        if (error instanceof APIError && error.isRetryable && attempt < this.maxRetries) {
+          this.logger.warn(`Retrying ${resource} page (attempt ${attempt}): ${error.message}`);
+          await this.rateLimiter.backoff(attempt, `incremental-${resource}`);
+          continue;
+        }
+
+        throw error;
+      }
+    }
+  }
+
+  private async fetchPage(resource: SyncResource, cursor: string | null, watermark: string | null): Promise<SyncPage> {
+    const pagination: PaginationOptions = {
+      first: this.pageSize,
+      after: cursor || undefined,
+      sortKey: 'UPDATED_AT',
+      reverse: false,
+    };
+    const filters: QueryFilters = watermark ? { updatedAtMin: watermark } : {};
+
+    switch (resource) {
+      case 'orders': {
+        const response = await this.graphqlService.getOrders(pagination, filters);
+        return { nodes: response.orders.edges.map(edge => edge.node), pageInfo: response.orders.pageInfo };
+      }
+      case 'products': {
+        const response = await this.graphqlService.getProducts(pagination, filters);
+        return { nodes: response.products.edges.map(edge => edge.node), pageInfo: response.products.pageInfo };
+      }
+      case 'customers': {
+        const response = await this.graphqlService.getCustomers(pagination, filters);
+        return { nodes: response.customers.edges.map(edge => edge.node), pageInfo: response.customers.pageInfo };
+      }
+    }
+  }
+
+  private saveState(state: SyncResourceState): void {
+    this.syncStateRepository.save(state);
+  }
+}
@@ -0,0 +1,129 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ShopifyQueryCost } from '@interfaces/shopify.interface';
+import { StoreContextService } from '../stores/store-context.service';
+import { ShopifyRateLimiterService } from './shopify-rate-limiter.service';
+
+describe('ShopifyRateLimiterService', () => {
+  let storeId: string;
+  let limiter: ShopifyRateLimiterService;
+
+  const cost = (currentlyAvailable: number, requestedQueryCost = 50): ShopifyQueryCost => ({
+    requestedQueryCost,
+    actualQueryCost: requestedQueryCost,
+    throttleStatus: { maximumAvailable: 1000, currentlyAvailable, restoreRate: 50 },
+  });
+
+  const createLimiter = (maxConcurrent: number) =>
+    new ShopifyRateLimiterService(
+      { get: () => maxConcurrent } as unknown as ConfigService,
+      { getStoreId: () => storeId } as unknown as StoreContextService,
+    );
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    storeId = 'store-a';
+    limiter = createLimiter(5);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('updates the bucket from the reported throttle status', () => {
+    limiter.recordCost('Orders', cost(400, 120));
+
+    const stats = limiter.getUsageStats();
+    expect(stats.availableCredits).toBe(400);
+    expect(stats.maxCredits).toBe(1000);
+    expect(stats.lastRequestedQueryCost).toBe(120);
+    expect(stats.reportedByShopify).toBe(true);
+    expect(stats.totalQueries).toBe(1);
+  });
+
+  it('restores the bucket at the restore rate between responses', () => {
+    limiter.recordCost('Orders', cost(100));
+
+    jest.advanceTimersByTime(2000);
+
+    expect(limiter.getUsageStats().availableCredits).toBe(200);
+  });
+
+  it('keeps a separate bucket per store', () => {
+    limiter.recordCost('Orders', cost(0));
+
+    storeId = 'store-b';
+    expect(limiter.getUsageStats().availableCredits).toBe(1000);
+    expect(limiter.getUsageStats().totalQueries).toBe(0);
+
+    storeId = 'store-a';
+    expect(limiter.getUsageStats().availableCredits).toBe(0);
+  });
+
+  it('holds a query until the bucket has restored its estimated cost', async () => {
+    limiter.recordCost('Orders', cost(0, 100));
+    const task = jest.fn().mockResolvedValue('done');
+
+    const result = limiter.schedule('Orders', task);
+    await jest.advanceTimersByTimeAsync(1900);
+    expect(task).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(task).toHaveBeenCalledTimes(1);
+    await expect(result).resolves.toBe('done');
+  });
+
+  it('runs no more queries at once than the concurrency limit', async () => {
+    limiter = createLimiter(1);
+    let finishFirst: () => void;
+    const first = jest.fn(() => new Promise<void>(resolve => (finishFirst = resolve)));
+    const second = jest.fn().mockResolvedValue(undefined);
+
+    const firstRun = limiter.schedule('Orders', first);
+    const secondRun = limiter.schedule('Orders', second);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+    expect(limiter.getUsageStats().queuedRequests).toBe(1);
+
+    finishFirst();
+    await firstRun;
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(second).toHaveBeenCalledTimes(1);
+    await secondRun;
+    expect(limiter.getUsageStats().activeRequests).toBe(0);
+  });
+
+  it('treats the bucket as empty after a throttled response without cost', () => {
+    limiter.recordThrottled();
+
+    const stats = limiter.getUsageStats();
+    expect(stats.availableCredits).toBe(0);
+    expect(stats.throttledCount).toBe(1);
+  });
+
+  it('backs off exponentially, or longer when the bucket needs to refill', async () => {
+    const waitFor = async (attempt: number) => {
+      let waited = false;
+      const backoff = limiter.backoff(attempt).then(() => (waited = true));
+      const startedAt = Date.now();
+      while (!waited) {
+        await jest.advanceTimersByTimeAsync(100);
+      }
+      await backoff;
+      return Date.now() - startedAt;
+    };
+
+    expect(await waitFor(1)).toBe(500);
+    expect(await waitFor(3)).toBe(2000);
+
+    limiter.recordThrottled();
+    expect(await waitFor(1)).toBe(1000);
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ShopifyAPIUsageStats, ShopifyQueryCost } from '@interfaces/shopify.interface';
+import { StoreContextService } from '../stores/store-context.service';
+
+/**
+ * Leaky-bucket limiter mirroring Shopify's GraphQL cost budget.
+ * The bucket state is refreshed from extensions.cost.throttleStatus on every response,
+ * and restored between responses at restoreRate points per second.
+ * Shopify meters each store separately, so every store gets its own bucket.
+ */
+@Injectable()
+export class ShopifyRateLimiterService {
+  private readonly logger = new Logger(ShopifyRateLimiterService.name);
+  private readonly maxConcurrent: number;
+  private readonly buckets = new Map<string, CostBucket>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storeContext: StoreContextService,
+  ) {
+    this.maxConcurrent = this.configService.get<number>('config.performance.maxConcurrentShopifyRequests', 5);
+  }
+
+  /**
+   * Run a query once a concurrency slot and enough cost budget are available
+   */
+  schedule<T>(operationName: string | undefined, task: () => Promise<T>): Promise<T> {
+    return this.getBucket().schedule(operationName, task);
+  }
+
+  /**
+   * Update the current store's bucket from a response's extensions.cost
+   */
+  recordCost(operationName: string | undefined, cost: ShopifyQueryCost | undefined): void {
+    this.getBucket().recordCost(operationName, cost);
+  }
+
+  /**
+   * Record a THROTTLED response for the current store
+   */
+  recordThrottled(cost?: ShopifyQueryCost): void {
+    this.getBucket().recordThrottled(cost);
+  }
+
+  /**
+   * Wait before retrying a failed query against the current store
+   */
+  backoff(attempt: number, operationName?: string): Promise<void> {
+    return this.getBucket().backoff(attempt, operationName);
+  }
+
+  /**
+   * Limiter and bucket statistics for the current store
+   */
+  getUsageStats(): ShopifyAPIUsageStats {
+    return this.getBucket().getUsageStats();
+  }
+
+  private getBucket(): CostBucket {
+    const storeId = this.storeContext.getStoreId();
+
+    if (!this.buckets.has(storeId)) {
+      this.buckets.set(storeId, new CostBucket(this.maxConcurrent, this.logger));
+    }
+    return this.buckets.get(storeId);
+  }
+}
+
+class CostBucket {
+  private readonly defaultQueryCost = 50;
+
+  // Conservative defaults until the first response reports the real bucket
+  private maximumAvailable = 1000;
+  private currentlyAvailable = 1000;
+  private restoreRate = 50;
+  private bucketUpdatedAt = Date.now();
+  private bucketReportedByShopify = false;
+
+  private reservedCost = 0;
+  private activeRequests = 0;
+  private queuedRequests = 0;
+  private readonly slotWaiters: Array<() => void> = [];
+  private admissionChain: Promise<void> = Promise.resolve();
+  private readonly costEstimates = new Map<string, number>();
+
+  private totalQueries = 0;
+  private totalActualCost = 0;
+  private totalWaitMs = 0;
+  private throttledCount = 0;
+  private lastRequestedCost = 0;
+  private lastActualCost = 0;
+
+  constructor(
+    private readonly maxConcurrent: number,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Run a query once a concurrency slot and enough cost budget are available.
+   * Admission is FIFO, so an expensive query is not starved by cheaper ones behind it.
+   */
+  async schedule<T>(operationName: string | undefined, task: () => Promise<T>): Promise<T> {
+    const cost = Math.min(this.estimateCost(operationName), this.maximumAvailable);
+    const queuedAt = Date.now();
+
+    this.queuedRequests++;
+    const admission = this.admissionChain.then(() => this.admit(cost));
+    this.admissionChain = admission.catch(() => undefined);
+
+    try {
+      await admission;
+    } finally {
+      this.queuedRequests--;
+    }
+
+    const waitedMs = Date.now() - queuedAt;
+    this.totalWaitMs += waitedMs;
+    if (waitedMs > 1000) {
+      this.logger.debug(`Query ${operationName || 'anonymous'} waited ${waitedMs}ms for cost budget (${cost} points)`);
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.reservedCost -= cost;
+      this.activeRequests--;
+      this.slotWaiters.shift()?.();
+    }
+  }
+
+  /**
+   * Update the bucket from a response's extensions.cost
+   */
+  recordCost(operationName: string | undefined, cost: ShopifyQueryCost | undefined): void {
+    this.totalQueries++;
+    if (!cost) return;
+
+    this.lastRequestedCost = cost.requestedQueryCost;
+    this.lastActualCost = cost.actualQueryCost ?? 0;
+    this.totalActualCost += this.lastActualCost;
+
+    if (operationName && cost.requestedQueryCost) {
+      this.costEstimates.set(operationName, cost.requestedQueryCost);
+    }
+
+    const { maximumAvailable, currentlyAvailable, restoreRate } = cost.throttleStatus;
+    this.maximumAvailable = maximumAvailable;
+    this.currentlyAvailable = currentlyAvailable;
+    this.restoreRate = restoreRate;
+    this.bucketUpdatedAt = Date.now();
+    this.bucketReportedByShopify = true;
+
+    this.logger.debug(
+      `API Cost - Requested: ${cost.requestedQueryCost}, Actual: ${cost.actualQueryCost}, Available: ${currentlyAvailable}/${maximumAvailable}`,
+    );
+  }
+
+  /**
+   * Record a THROTTLED response; the bucket is treated as empty
+   */
+  recordThrottled(cost?: ShopifyQueryCost): void {
+    this.throttledCount++;
+
+    if (cost?.throttleStatus) {
+      this.recordCost(undefined, cost);
+    } else {
+      this.currentlyAvailable = 0;
+      this.bucketUpdatedAt = Date.now();
+    }
+
+    this.logger.warn(`Shopify throttled a query, ${Math.round(this.getAvailable())} points available`);
+  }
+
+  /**
+   * Wait before retrying a failed query: long enough for the bucket to refill
+   * the typical query cost, with exponential growth for repeated failures
+   */
+  async backoff(attempt: number, operationName?: string): Promise<void> {
+    const deficit = Math.max(0, this.estimateCost(operationName) - this.getAvailable());
+    const refillMs = (deficit / this.restoreRate) * 1000;
+    const waitMs = Math.max(refillMs, 500 * Math.pow(2, Math.max(0, attempt - 1)));
+
+    this.logger.debug(`Backing off ${Math.round(waitMs)}ms before retry ${attempt}`);
+    await this.sleep(waitMs);
+  }
+
+  /**
+   * Current limiter and bucket statistics
+   */
+  getUsageStats(): ShopifyAPIUsageStats {
+    return {
+      lastQueryCost: this.lastActualCost,
+      lastRequestedQueryCost: this.lastRequestedCost,
+      availableCredits: Math.floor(this.getAvailable()),
+      maxCredits: this.maximumAvailable,
+      restoreRate: this.restoreRate,
+      reportedByShopify: this.bucketReportedByShopify,
+      activeRequests: this.activeRequests,
+      queuedRequests: this.queuedRequests,
+      maxConcurrentRequests: this.maxConcurrent,
+      totalQueries: this.totalQueries,
+      totalQueryCost: this.totalActualCost,
+      averageQueryCost: this.totalQueries > 0 ? Math.round(this.totalActualCost / this.totalQueries) : 0,
+      averageWaitMs: this.totalQueries > 0 ? Math.round(this.totalWaitMs / this.totalQueries) : 0,
+      throttledCount: this.throttledCount,
+      lastUpdated: new Date(this.bucketUpdatedAt).toISOString(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async admit(cost: number): Promise<void> {
+    while (this.activeRequests >= this.maxConcurrent) {
+      await new Promise<void>(resolve => this.slotWaiters.push(resolve));
+    }
+    this.activeRequests++;
+
+    let available = this.getAvailable() - this.reservedCost;
+    while (available < cost) {
+      await this.sleep(((cost - available) / this.restoreRate) * 1000);
+      available = this.getAvailable() - this.reservedCost;
+    }
+
+    this.reservedCost += cost;
+  }
+
+  /**
+   * Points available now, assuming the bucket restored since the last report
+   */
+  private getAvailable(): number {
+    const elapsedSeconds = (Date.now() - this.bucketUpdatedAt) / 1000;
+    return Math.min(this.maximumAvailable, this.currentlyAvailable + elapsedSeconds * this.restoreRate);
+  }
+
+  private estimateCost(operationName?: string): number {
+    return (operationName && this.costEstimates.get(operationName)) || this.defaultQueryCost;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -3,6 +3,11 @@ import { ConfigModule } from '@nestjs/config';
 import { HttpModule } from '@nestjs/axios';
 import { ShopifyService } from './shopify.service';
 import { ShopifyGraphQLService } from './shopify-graphql.service';
+import { ShopifyBulkOperationService } from './shopify-bulk-operation.service';
+import { ShopifyRateLimiterService } from './shopify-rate-limiter.service';
+import { ShopifyIncrementalSyncService } from './shopify-incremental-sync.service';
+import { StorageModule } from '../storage/storage.module';
+import { StoresModule } from '../stores/stores.module';
 
 @Module({
   imports: [
@@ -11,8 +16,22 @@ import { ShopifyGraphQLService } from './shopify-graphql.service';
       timeout: 10000, // Reduced to 10 seconds for faster failure
       maxRedirects: 3,
     }),
+    StorageModule,
+    StoresModule,
+  ],
+  providers: [
+    ShopifyService,
+    ShopifyGraphQLService,
+    ShopifyBulkOperationService,
+    ShopifyRateLimiterService,
+    ShopifyIncrementalSyncService,
+  ],
+  exports: [
+    ShopifyService,
+    ShopifyGraphQLService,
+    ShopifyBulkOperationService,
+    ShopifyRateLimiterService,
+    ShopifyIncrementalSyncService,
   ],
-  providers: [ShopifyService, ShopifyGraphQLService],
-  exports: [ShopifyService, ShopifyGraphQLService],
 })
 export class ShopifyModule {}
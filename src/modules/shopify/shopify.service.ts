@@ -1,12 +1,22 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ShopifyGraphQLService } from './shopify-graphql.service';
+import { ShopifyRateLimiterService } from './shopify-rate-limiter.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { toZonedDateKey, zonedDayRange } from '@shared/time-zone';
+import { emptyInventoryLevels } from '@shared/inventory-levels';
 import {
   ShopifyOrder,
   ShopifyProduct,
   ShopifyCustomer,
   PaginationOptions,
   QueryFilters,
+  OrdersQueryResponse,
+  ShopifyAPIUsageStats,
+  Connection,
+  Edge,
+  InventoryLevel,
   APIError,
 } from '@interfaces/shopify.interface';
 
@@ -17,6 +27,9 @@ export class ShopifyService {
   constructor(
     private readonly graphqlService: ShopifyGraphQLService,
     private readonly configService: ConfigService,
+    private readonly rateLimiter: ShopifyRateLimiterService,
+    private readonly storeContext: StoreContextService,
+    private readonly storeRegistry: StoreRegistryService,
   ) {}
 
   /**
@@ -63,18 +76,13 @@ export class ShopifyService {
 
         this.logger.debug(`Fetched ${orders.length} orders, total: ${allOrders.length}`);
 
-        // Add delay to respect rate limits
-        if (hasNextPage) {
-          await this.delay(200);
-        }
-
         retryCount = 0; // Reset retry count on success
       } catch (error) {
         retryCount++;
         this.logger.error(`Error fetching orders (attempt ${retryCount}):`, error);
 
         if (error instanceof APIError && error.isRetryable && retryCount < maxRetries) {
-          await this.delay(1000 * retryCount); // Exponential backoff
+          await this.rateLimiter.backoff(retryCount);
           continue;
         }
 
@@ -134,10 +142,6 @@ export class ShopifyService {
 
         this.logger.debug(`Fetched ${fetchedProducts.length} products, total: ${products.length}/${maxProducts}`);
 
-        if (hasNextPage && products.length < maxProducts) {
-          await this.delay(50);
-        }
-
         retryCount = 0;
       } catch (error) {
         retryCount++;
@@ -148,7 +152,7 @@ export class ShopifyService {
           break;
         }
 
-        await this.delay(500 * retryCount);
+        await this.rateLimiter.backoff(retryCount);
       }
     }
 
@@ -190,18 +194,13 @@ export class ShopifyService {
 
         this.logger.debug(`Fetched ${products.length} products, total: ${allProducts.length}`);
 
-        // Add delay to respect rate limits
-        if (hasNextPage) {
-          await this.delay(200);
-        }
-
         retryCount = 0; // Reset retry count on success
       } catch (error) {
         retryCount++;
         this.logger.error(`Error fetching products (attempt ${retryCount}):`, error);
 
         if (error instanceof APIError && error.isRetryable && retryCount < maxRetries) {
-          await this.delay(1000 * retryCount); // Exponential backoff
+          await this.rateLimiter.backoff(retryCount);
           continue;
         }
 
@@ -261,11 +260,6 @@ export class ShopifyService {
 
         this.logger.debug(`Fetched ${fetchedCustomers.length} customers, total: ${customers.length}/${maxCustomers}`);
 
-        // Minimal delay for limited requests
-        if (hasNextPage && customers.length < maxCustomers) {
-          await this.delay(50);
-        }
-
         retryCount = 0;
       } catch (error) {
         retryCount++;
@@ -276,7 +270,7 @@ export class ShopifyService {
           break;
         }
 
-        await this.delay(500 * retryCount);
+        await this.rateLimiter.backoff(retryCount);
       }
     }
 
@@ -318,18 +312,13 @@ export class ShopifyService {
 
         this.logger.debug(`Fetched ${customers.length} customers, total: ${allCustomers.length}`);
 
-        // Add delay to respect rate limits
-        if (hasNextPage) {
-          await this.delay(200);
-        }
-
         retryCount = 0; // Reset retry count on success
       } catch (error) {
         retryCount++;
         this.logger.error(`Error fetching customers (attempt ${retryCount}):`, error);
 
         if (error instanceof APIError && error.isRetryable && retryCount < maxRetries) {
-          await this.delay(1000 * retryCount); // Exponential backoff
+          await this.rateLimiter.backoff(retryCount);
           continue;
         }
 
@@ -404,18 +393,13 @@ export class ShopifyService {
 
         this.logger.debug(`Fetched ${fetchedOrders.length} orders, total: ${orders.length}/${maxOrders}`);
 
-        // Respect rate limits with minimal delay
-        if (hasNextPage && orders.length < maxOrders) {
-          await this.delay(100);
-        }
-
         retryCount = 0;
       } catch (error) {
         retryCount++;
         this.logger.error(`Error fetching limited orders (attempt ${retryCount}):`, error);
 
         if (error instanceof APIError && error.isRetryable && retryCount < maxRetries) {
-          await this.delay(1000 * retryCount);
+          await this.rateLimiter.backoff(retryCount);
           continue;
         }
 
@@ -445,15 +429,53 @@ export class ShopifyService {
   }
 
   /**
-   * Fetch limited orders by date range for performance
+   * Page through every order created in a date range, handing each page to onPage before the
+   * next is requested so callers can store pages as they arrive. Unlike fetchAllOrders this
+   * never returns partial data: a page that still fails after the retries rejects the stream.
    */
-  async fetchLimitedOrdersByDateRange(startDate: Date, endDate: Date, limit: number): Promise<ShopifyOrder[]> {
+  async streamOrdersByDateRange(
+    startDate: Date,
+    endDate: Date,
+    onPage: (orders: ShopifyOrder[]) => void | Promise<void>,
+  ): Promise<{ pages: number; orders: number }> {
     const filters: QueryFilters = {
       createdAtMin: startDate.toISOString(),
       createdAtMax: endDate.toISOString(),
     };
+    let cursor: string | undefined;
+    let hasNextPage = true;
+    let pages = 0;
+    let total = 0;
+
+    while (hasNextPage) {
+      let retryCount = 0;
+      let response: OrdersQueryResponse | undefined;
+
+      while (!response) {
+        try {
+          response = await this.graphqlService.getOrders({ first: 50, after: cursor }, filters);
+        } catch (error) {
+          retryCount++;
+          if (error instanceof APIError && error.isRetryable && retryCount < 3) {
+            this.logger.warn(`Retrying order page ${pages + 1} (attempt ${retryCount}): ${error.message}`);
+            await this.rateLimiter.backoff(retryCount);
+            continue;
+          }
+          throw error;
+        }
+      }
 
-    return this.fetchLimitedOrders(filters, limit);
+      const orders = (response.orders?.edges || []).map(edge => edge.node);
+      await onPage(orders);
+
+      pages++;
+      total += orders.length;
+      hasNextPage = !!response.orders?.pageInfo.hasNextPage;
+      cursor = response.orders?.pageInfo.endCursor;
+    }
+
+    this.logger.log(`Streamed ${total} orders in ${pages} pages`);
+    return { pages, orders: total };
   }
 
   /**
@@ -479,11 +501,13 @@ export class ShopifyService {
   }
 
   /**
-   * Get daily sales data
+   * Get the orders of one day (YYYY-MM-DD, default today) in the store's time zone
    */
   async getDailySalesData(date?: string): Promise<ShopifyOrder[]> {
     try {
-      const response = await this.graphqlService.getDailySalesData(date);
+      const timezone = this.storeContext.getTimezone();
+      const day = date || toZonedDateKey(new Date(), timezone);
+      const response = await this.graphqlService.getDailySalesData(zonedDayRange(day, day, timezone));
       return response.orders?.edges?.map(edge => edge.node) || [];
     } catch (error) {
       this.logger.error('Error fetching daily sales data:', error);
@@ -518,18 +542,100 @@ export class ShopifyService {
   }
 
   /**
-   * Get stock levels
+   * Get stock levels, with each variant's levels at every location when includeLocationLevels is set
    */
-  async getStockLevels(): Promise<ShopifyProduct[]> {
+  async getStockLevels(includeLocationLevels: boolean = false): Promise<ShopifyProduct[]> {
     try {
       const response = await this.graphqlService.getStockLevels();
-      return response.products?.edges?.map(edge => edge.node) || [];
+      const products = response.products?.edges?.map(edge => edge.node) || [];
+      if (!includeLocationLevels) return products;
+
+      const levels = await this.fetchAllInventoryLevels();
+      for (const product of products) {
+        for (const { node: variant } of product.variants?.edges || []) {
+          if (!variant.inventoryItem) continue;
+          variant.inventoryItem.inventoryLevels = levels.get(variant.inventoryItem.id) || emptyInventoryLevels();
+        }
+      }
+      return products;
     } catch (error) {
       this.logger.error('Error fetching stock levels:', error);
       throw error;
     }
   }
 
+  /**
+   * Get the stock of an inventory item at every location, following every page of levels so the
+   * returned connection is complete; null when Shopify has no such item
+   */
+  async fetchInventoryLevels(inventoryItemId: string): Promise<Connection<InventoryLevel> | null> {
+    const edges: Edge<InventoryLevel>[] = [];
+    let cursor: string | undefined;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const response = await this.graphqlService.getInventoryItemLevels(inventoryItemId, cursor);
+      const levels = response.inventoryItem?.inventoryLevels;
+      if (!levels) return null;
+
+      edges.push(...levels.edges);
+      hasNextPage = levels.pageInfo.hasNextPage && !!levels.pageInfo.endCursor;
+      cursor = levels.pageInfo.endCursor;
+    }
+
+    return { edges, pageInfo: { hasNextPage: false, hasPreviousPage: false, endCursor: cursor } };
+  }
+
+  /**
+   * Get the stock of every inventory item at every location, keyed by inventory item id.
+   * Levels are paged location by location, so none are cut off however many locations or
+   * variants the shop has.
+   */
+  async fetchAllInventoryLevels(): Promise<Map<string, Connection<InventoryLevel>>> {
+    const levelsByItem = new Map<string, Connection<InventoryLevel>>();
+    let cursor: string | undefined;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const { locations } = await this.graphqlService.getLocations(cursor);
+      for (const { node: location } of locations.edges) {
+        await this.collectLocationLevels(location.id, levelsByItem);
+      }
+
+      hasNextPage = locations.pageInfo.hasNextPage && !!locations.pageInfo.endCursor;
+      cursor = locations.pageInfo.endCursor;
+    }
+
+    return levelsByItem;
+  }
+
+  /**
+   * Add every page of a location's inventory levels to the levels of their items
+   */
+  private async collectLocationLevels(
+    locationId: string,
+    levelsByItem: Map<string, Connection<InventoryLevel>>,
+  ): Promise<void> {
+    let cursor: string | undefined;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const response = await this.graphqlService.getLocationInventoryLevels(locationId, cursor);
+      const levels = response.location?.inventoryLevels;
+      if (!levels) return;
+
+      for (const { cursor: levelCursor, node } of levels.edges) {
+        const { item, ...level } = node;
+        const itemLevels = levelsByItem.get(item.id) || emptyInventoryLevels();
+        itemLevels.edges.push({ cursor: levelCursor, node: level });
+        levelsByItem.set(item.id, itemLevels);
+      }
+
+      hasNextPage = levels.pageInfo.hasNextPage && !!levels.pageInfo.endCursor;
+      cursor = levels.pageInfo.endCursor;
+    }
+  }
+
   /**
    * Get top-selling products
    */
@@ -583,20 +689,28 @@ export class ShopifyService {
     }
   }
 
+  /**
+   * Fetch the shop's time zone from Shopify and record it for the current store
+   */
+  async refreshShopTimezone(): Promise<string> {
+    const response = await this.graphqlService.getShop();
+    const timezone = response.shop?.ianaTimezone;
+    const storeId = this.storeContext.getStoreId();
+
+    if (timezone) {
+      this.storeRegistry.setShopTimezone(storeId, timezone);
+      this.logger.log(`Shop time zone of store ${storeId} is ${timezone}`);
+    }
+
+    return timezone;
+  }
+
   /**
    * Get API usage statistics
    */
-  async getAPIUsageStats(): Promise<any> {
+  async getAPIUsageStats(): Promise<ShopifyAPIUsageStats> {
     try {
-      // This would ideally return the last known API cost information
-      // For now, we'll return a placeholder
-      return {
-        lastQueryCost: 0,
-        availableCredits: 0,
-        maxCredits: 0,
-        restoreRate: 0,
-        timestamp: new Date().toISOString(),
-      };
+      return this.rateLimiter.getUsageStats();
     } catch (error) {
       this.logger.error('Error getting API usage stats:', error);
       return null;
@@ -604,17 +718,10 @@ export class ShopifyService {
   }
 
   /**
-   * Utility method to add delay between API calls
-   */
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Validate that required Shopify configuration is present
+   * Validate that required Shopify configuration is present for the current store
    */
   validateConfiguration(): boolean {
-    const shopifyConfig = this.configService.get('config.shopify');
+    const shopifyConfig = this.storeContext.getStore();
     
     if (!shopifyConfig.shopDomain) {
       this.logger.error('Shopify shop domain is not configured');
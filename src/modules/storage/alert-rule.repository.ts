@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { ALERT_METRIC_CATEGORIES, AlertRule } from '@interfaces/alert.interface';
+
+interface AlertRuleRow {
+  id: string;
+  name: string;
+  description: string | null;
+  metric: AlertRule['metric'];
+  scope: string;
+  comparator: AlertRule['comparator'];
+  threshold: number;
+  window_days: number | null;
+  granularity: AlertRule['granularity'];
+  severity: AlertRule['severity'];
+  channel_ids: string;
+  enabled: number;
+  last_evaluated_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Alert rules evaluated by the alerts engine
+ */
+@Injectable()
+export class AlertRuleRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert a rule, or replace the rule with the same id
+   */
+  save(rule: AlertRule): AlertRule {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO alert_rules (
+           id, name, description, metric, scope, comparator, threshold, window_days, granularity, severity,
+           channel_ids, enabled, last_evaluated_at, created_at, updated_at
+         ) VALUES (
+           @id, @name, @description, @metric, @scope, @comparator, @threshold, @window_days, @granularity, @severity,
+           @channel_ids, @enabled, @last_evaluated_at, @created_at, @updated_at
+         )
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           description = excluded.description,
+           metric = excluded.metric,
+           scope = excluded.scope,
+           comparator = excluded.comparator,
+           threshold = excluded.threshold,
+           window_days = excluded.window_days,
+           granularity = excluded.granularity,
+           severity = excluded.severity,
+           channel_ids = excluded.channel_ids,
+           enabled = excluded.enabled,
+           updated_at = excluded.updated_at`,
+      )
+      .run({
+        id: rule.id,
+        name: rule.name,
+        description: rule.description,
+        metric: rule.metric,
+        scope: JSON.stringify(rule.scope || {}),
+        comparator: rule.comparator,
+        threshold: rule.threshold,
+        window_days: rule.windowDays,
+        granularity: rule.granularity,
+        severity: rule.severity,
+        channel_ids: JSON.stringify(rule.channelIds || []),
+        enabled: rule.enabled ? 1 : 0,
+        last_evaluated_at: rule.lastEvaluatedAt,
+        created_at: rule.createdAt,
+        updated_at: rule.updatedAt,
+      });
+
+    return this.findById(rule.id);
+  }
+
+  /**
+   * Record when enabled rules were last evaluated
+   */
+  markEvaluated(ids: string[], evaluatedAt: string): void {
+    const statement = this.databaseService
+      .getConnection()
+      .prepare('UPDATE alert_rules SET last_evaluated_at = ? WHERE id = ?');
+    this.databaseService.transaction(() => ids.forEach(id => statement.run(evaluatedAt, id)));
+  }
+
+  /**
+   * Find a rule by id
+   */
+  findById(id: string): AlertRule | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM alert_rules WHERE id = ?')
+      .get(id) as AlertRuleRow;
+
+    return row ? this.toRule(row) : null;
+  }
+
+  /**
+   * Find every rule, optionally only the enabled ones, by name
+   */
+  findAll(enabledOnly = false): AlertRule[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT * FROM alert_rules ${enabledOnly ? 'WHERE enabled = 1' : ''} ORDER BY name`)
+      .all() as AlertRuleRow[];
+
+    return rows.map(row => this.toRule(row));
+  }
+
+  /**
+   * Delete a rule by id
+   */
+  delete(id: string): boolean {
+    const result = this.databaseService.getConnection().prepare('DELETE FROM alert_rules WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  private toRule(row: AlertRuleRow): AlertRule {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      metric: row.metric,
+      category: ALERT_METRIC_CATEGORIES[row.metric],
+      scope: JSON.parse(row.scope || '{}'),
+      comparator: row.comparator,
+      threshold: row.threshold,
+      windowDays: row.window_days,
+      granularity: row.granularity,
+      severity: row.severity,
+      channelIds: JSON.parse(row.channel_ids || '[]'),
+      enabled: row.enabled === 1,
+      lastEvaluatedAt: row.last_evaluated_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
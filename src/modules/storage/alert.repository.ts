@@ -0,0 +1,244 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { Alert, AlertFilters } from '@interfaces/alert.interface';
+
+interface AlertRow {
+  id: string;
+  dedup_key: string;
+  rule_id: string;
+  rule_name: string;
+  category: Alert['category'];
+  metric: Alert['metric'];
+  severity: Alert['severity'];
+  status: Alert['status'];
+  subject: string;
+  value: number;
+  comparator: Alert['comparator'];
+  threshold: number;
+  message: string;
+  details: string | null;
+  first_triggered_at: string;
+  last_triggered_at: string;
+  trigger_count: number;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  snoozed_until: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution: Alert['resolution'];
+  updated_at: string;
+}
+
+const SEVERITY_ORDER = `CASE severity WHEN 'CRITICAL' THEN 0 WHEN 'HIGH' THEN 1 WHEN 'MEDIUM' THEN 2 ELSE 3 END`;
+
+/**
+ * Alerts raised by alert rules, with their lifecycle. At most one alert per dedup key is unresolved.
+ */
+@Injectable()
+export class AlertRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert an alert or update it by id
+   */
+  save(alert: Alert): Alert {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO alerts (
+           id, dedup_key, rule_id, rule_name, category, metric, severity, status, subject, value, comparator,
+           threshold, message, details, first_triggered_at, last_triggered_at, trigger_count, acknowledged_at,
+           acknowledged_by, snoozed_until, resolved_at, resolved_by, resolution, updated_at
+         ) VALUES (
+           @id, @dedup_key, @rule_id, @rule_name, @category, @metric, @severity, @status, @subject, @value, @comparator,
+           @threshold, @message, @details, @first_triggered_at, @last_triggered_at, @trigger_count, @acknowledged_at,
+           @acknowledged_by, @snoozed_until, @resolved_at, @resolved_by, @resolution, @updated_at
+         )
+         ON CONFLICT (id) DO UPDATE SET
+           rule_name = excluded.rule_name,
+           severity = excluded.severity,
+           status = excluded.status,
+           subject = excluded.subject,
+           value = excluded.value,
+           comparator = excluded.comparator,
+           threshold = excluded.threshold,
+           message = excluded.message,
+           details = excluded.details,
+           last_triggered_at = excluded.last_triggered_at,
+           trigger_count = excluded.trigger_count,
+           acknowledged_at = excluded.acknowledged_at,
+           acknowledged_by = excluded.acknowledged_by,
+           snoozed_until = excluded.snoozed_until,
+           resolved_at = excluded.resolved_at,
+           resolved_by = excluded.resolved_by,
+           resolution = excluded.resolution,
+           updated_at = excluded.updated_at`,
+      )
+      .run({
+        id: alert.id,
+        dedup_key: alert.dedupKey,
+        rule_id: alert.ruleId,
+        rule_name: alert.ruleName,
+        category: alert.category,
+        metric: alert.metric,
+        severity: alert.severity,
+        status: alert.status,
+        subject: JSON.stringify(alert.subject),
+        value: alert.value,
+        comparator: alert.comparator,
+        threshold: alert.threshold,
+        message: alert.message,
+        details: alert.details ? JSON.stringify(alert.details) : null,
+        first_triggered_at: alert.firstTriggeredAt,
+        last_triggered_at: alert.lastTriggeredAt,
+        trigger_count: alert.triggerCount,
+        acknowledged_at: alert.acknowledgedAt,
+        acknowledged_by: alert.acknowledgedBy,
+        snoozed_until: alert.snoozedUntil,
+        resolved_at: alert.resolvedAt,
+        resolved_by: alert.resolvedBy,
+        resolution: alert.resolution,
+        updated_at: alert.updatedAt,
+      });
+
+    return this.findById(alert.id);
+  }
+
+  /**
+   * Save several alerts in one transaction
+   */
+  saveAll(alerts: Alert[]): void {
+    this.databaseService.transaction(() => alerts.forEach(alert => this.save(alert)));
+  }
+
+  /**
+   * Find an alert by id
+   */
+  findById(id: string): Alert | null {
+    const row = this.databaseService.getConnection().prepare('SELECT * FROM alerts WHERE id = ?').get(id) as AlertRow;
+    return row ? this.toAlert(row) : null;
+  }
+
+  /**
+   * Find the unresolved alerts of the given rules
+   */
+  findActiveByRules(ruleIds: string[]): Alert[] {
+    if (ruleIds.length === 0) return [];
+
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT * FROM alerts WHERE status != 'resolved' AND rule_id IN (${ruleIds.map(() => '?').join(', ')})`)
+      .all(...ruleIds) as AlertRow[];
+
+    return rows.map(row => this.toAlert(row));
+  }
+
+  /**
+   * Find alerts, most severe and most recent first. The 'active' status matches every
+   * unresolved alert.
+   */
+  find(filters: AlertFilters = {}): Alert[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (filters.status === 'active') {
+      conditions.push(`status != 'resolved'`);
+    } else if (filters.status) {
+      conditions.push('status = @status');
+      params.status = filters.status;
+    }
+    if (filters.severity) {
+      conditions.push('severity = @severity');
+      params.severity = filters.severity;
+    }
+    if (filters.category) {
+      conditions.push('category = @category');
+      params.category = filters.category;
+    }
+    if (filters.ruleId) {
+      conditions.push('rule_id = @ruleId');
+      params.ruleId = filters.ruleId;
+    }
+
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(
+        `SELECT * FROM alerts
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY ${SEVERITY_ORDER}, last_triggered_at DESC
+         ${filters.limit ? `LIMIT ${Math.floor(filters.limit)}` : ''}`,
+      )
+      .all(params) as AlertRow[];
+
+    return rows.map(row => this.toAlert(row));
+  }
+
+  /**
+   * Count alerts per status and, for unresolved alerts, per severity and category
+   */
+  summarize(): {
+    byStatus: Record<string, number>;
+    activeBySeverity: Record<string, number>;
+    activeByCategory: Record<string, number>;
+  } {
+    const db = this.databaseService.getConnection();
+    const toRecord = (rows: Array<{ key: string; count: number }>) =>
+      Object.fromEntries(rows.map(row => [row.key, row.count]));
+
+    return {
+      byStatus: toRecord(
+        db.prepare('SELECT status AS key, COUNT(*) AS count FROM alerts GROUP BY status').all() as any,
+      ),
+      activeBySeverity: toRecord(
+        db
+          .prepare(`SELECT severity AS key, COUNT(*) AS count FROM alerts WHERE status != 'resolved' GROUP BY severity`)
+          .all() as any,
+      ),
+      activeByCategory: toRecord(
+        db
+          .prepare(`SELECT category AS key, COUNT(*) AS count FROM alerts WHERE status != 'resolved' GROUP BY category`)
+          .all() as any,
+      ),
+    };
+  }
+
+  /**
+   * Delete alerts resolved before the cutoff
+   */
+  deleteResolvedBefore(cutoff: Date): number {
+    const result = this.databaseService
+      .getConnection()
+      .prepare(`DELETE FROM alerts WHERE status = 'resolved' AND resolved_at < ?`)
+      .run(cutoff.toISOString());
+    return result.changes;
+  }
+
+  private toAlert(row: AlertRow): Alert {
+    return {
+      id: row.id,
+      dedupKey: row.dedup_key,
+      ruleId: row.rule_id,
+      ruleName: row.rule_name,
+      category: row.category,
+      metric: row.metric,
+      severity: row.severity,
+      status: row.status,
+      subject: JSON.parse(row.subject),
+      value: row.value,
+      comparator: row.comparator,
+      threshold: row.threshold,
+      message: row.message,
+      details: row.details ? JSON.parse(row.details) : null,
+      firstTriggeredAt: row.first_triggered_at,
+      lastTriggeredAt: row.last_triggered_at,
+      triggerCount: row.trigger_count,
+      acknowledgedAt: row.acknowledged_at,
+      acknowledgedBy: row.acknowledged_by,
+      snoozedUntil: row.snoozed_until,
+      resolvedAt: row.resolved_at,
+      resolvedBy: row.resolved_by,
+      resolution: row.resolution,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { ApiKeyRecord, AuthRole } from '@interfaces/auth.interface';
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  role: AuthRole;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * API keys, stored as SHA-256 hashes. The plain key is never persisted.
+ * Keys are shared by all stores, so they live in the shared database.
+ */
+@Injectable()
+export class ApiKeyRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Store a new key hash
+   */
+  create(record: Omit<ApiKeyRecord, 'lastUsedAt' | 'revokedAt'>, keyHash: string): ApiKeyRecord {
+    this.databaseService
+      .getSharedConnection()
+      .prepare(
+        `INSERT INTO api_keys (id, name, key_prefix, key_hash, role, created_at)
+         VALUES (@id, @name, @key_prefix, @key_hash, @role, @created_at)`,
+      )
+      .run({
+        id: record.id,
+        name: record.name,
+        key_prefix: record.keyPrefix,
+        key_hash: keyHash,
+        role: record.role,
+        created_at: record.createdAt,
+      });
+
+    return { ...record, lastUsedAt: null, revokedAt: null };
+  }
+
+  /**
+   * Find an active (not revoked) key by its hash
+   */
+  findActiveByHash(keyHash: string): ApiKeyRecord | null {
+    const row = this.databaseService
+      .getSharedConnection()
+      .prepare('SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+      .get(keyHash) as ApiKeyRow;
+
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Get all keys, newest first
+   */
+  findAll(): ApiKeyRecord[] {
+    const rows = this.databaseService
+      .getSharedConnection()
+      .prepare('SELECT * FROM api_keys ORDER BY created_at DESC')
+      .all() as ApiKeyRow[];
+
+    return rows.map(row => this.toRecord(row));
+  }
+
+  /**
+   * Record when a key was last used
+   */
+  touch(id: string): void {
+    this.databaseService
+      .getSharedConnection()
+      .prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?')
+      .run(new Date().toISOString(), id);
+  }
+
+  /**
+   * Revoke a key. Returns false if it does not exist or is already revoked.
+   */
+  revoke(id: string): boolean {
+    const result = this.databaseService
+      .getSharedConnection()
+      .prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+      .run(new Date().toISOString(), id);
+
+    return result.changes > 0;
+  }
+
+  private toRecord(row: ApiKeyRow): ApiKeyRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      role: row.role,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { CostOverride } from '@interfaces/cost.interface';
+
+interface CostOverrideRow {
+  id: string;
+  variant_id: string;
+  sku: string;
+  unit_cost: string;
+  currency: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Manual unit costs. The key that is not used is stored empty so the
+ * (variant_id, sku) uniqueness constraint applies to both kinds of override.
+ */
+@Injectable()
+export class CostOverrideRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert an override, or replace the cost of the existing override for the same variant or SKU
+   */
+  upsert(override: CostOverride): CostOverride {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO cost_overrides (id, variant_id, sku, unit_cost, currency, notes, created_at, updated_at)
+         VALUES (@id, @variant_id, @sku, @unit_cost, @currency, @notes, @created_at, @updated_at)
+         ON CONFLICT (variant_id, sku) DO UPDATE SET
+           unit_cost = excluded.unit_cost,
+           currency = excluded.currency,
+           notes = excluded.notes,
+           updated_at = excluded.updated_at`,
+      )
+      .run(this.toRow(override));
+
+    return this.findByKey(override.variantId, override.sku);
+  }
+
+  /**
+   * Update an override by id
+   */
+  update(override: CostOverride): CostOverride | null {
+    const result = this.databaseService
+      .getConnection()
+      .prepare(
+        `UPDATE cost_overrides SET
+           variant_id = @variant_id, sku = @sku, unit_cost = @unit_cost, currency = @currency, notes = @notes,
+           updated_at = @updated_at
+         WHERE id = @id`,
+      )
+      .run(this.toRow(override));
+
+    return result.changes > 0 ? this.findById(override.id) : null;
+  }
+
+  /**
+   * Find an override by id
+   */
+  findById(id: string): CostOverride | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM cost_overrides WHERE id = ?')
+      .get(id) as CostOverrideRow;
+
+    return row ? this.toOverride(row) : null;
+  }
+
+  /**
+   * Find the override for a variant or SKU
+   */
+  findByKey(variantId: string | null, sku: string | null): CostOverride | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM cost_overrides WHERE variant_id = ? AND sku = ?')
+      .get(variantId || '', sku || '') as CostOverrideRow;
+
+    return row ? this.toOverride(row) : null;
+  }
+
+  /**
+   * Find every override, SKU overrides first
+   */
+  findAll(): CostOverride[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM cost_overrides ORDER BY sku DESC, variant_id')
+      .all() as CostOverrideRow[];
+
+    return rows.map(row => this.toOverride(row));
+  }
+
+  /**
+   * Delete an override by id
+   */
+  delete(id: string): boolean {
+    const result = this.databaseService.getConnection().prepare('DELETE FROM cost_overrides WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  private toRow(override: CostOverride) {
+    return {
+      id: override.id,
+      variant_id: override.variantId || '',
+      sku: override.sku || '',
+      unit_cost: override.unitCost,
+      currency: override.currency,
+      notes: override.notes,
+      created_at: override.createdAt,
+      updated_at: override.updatedAt,
+    };
+  }
+
+  private toOverride(row: CostOverrideRow): CostOverride {
+    return {
+      id: row.id,
+      variantId: row.variant_id || null,
+      sku: row.sku || null,
+      unitCost: row.unit_cost,
+      currency: row.currency,
+      notes: row.notes,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
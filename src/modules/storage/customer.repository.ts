@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { ShopifyCustomer } from '@interfaces/shopify.interface';
+
+interface CustomerRow {
+  data: string;
+}
+
+@Injectable()
+export class CustomerRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert or update customers. Order counts and spend are kept when an update omits them.
+   */
+  upsertCustomers(customers: ShopifyCustomer[]): number {
+    if (customers.length === 0) return 0;
+
+    const db = this.databaseService.getConnection();
+    const syncedAt = new Date().toISOString();
+    const findExisting = db.prepare('SELECT data FROM customers WHERE id = ?');
+    const upsertCustomer = db.prepare(`
+      INSERT INTO customers (
+        id, email, display_name, created_at, updated_at, number_of_orders, amount_spent, currency_code, tags, data, synced_at
+      ) VALUES (
+        @id, @email, @display_name, @created_at, @updated_at, @number_of_orders, @amount_spent, @currency_code, @tags, @data, @synced_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        email = excluded.email,
+        display_name = excluded.display_name,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        number_of_orders = excluded.number_of_orders,
+        amount_spent = excluded.amount_spent,
+        currency_code = excluded.currency_code,
+        tags = excluded.tags,
+        data = excluded.data,
+        synced_at = excluded.synced_at
+    `);
+
+    return this.databaseService.transaction(() => {
+      for (const incoming of customers) {
+        let customer = incoming;
+
+        if (customer.numberOfOrders === undefined || customer.amountSpent === undefined) {
+          const existing = findExisting.get(customer.id) as CustomerRow;
+          if (existing) {
+            const previous: ShopifyCustomer = JSON.parse(existing.data);
+            customer = {
+              ...customer,
+              numberOfOrders: customer.numberOfOrders ?? previous.numberOfOrders,
+              amountSpent: customer.amountSpent ?? previous.amountSpent,
+            };
+          }
+        }
+
+        upsertCustomer.run({
+          id: customer.id,
+          email: customer.email || null,
+          display_name: customer.displayName || null,
+          created_at: this.toUtc(customer.createdAt),
+          updated_at: this.toUtc(customer.updatedAt),
+          number_of_orders: customer.numberOfOrders || 0,
+          amount_spent: customer.amountSpent?.amount || '0',
+          currency_code: customer.amountSpent?.currencyCode || null,
+          tags: JSON.stringify(customer.tags || []),
+          data: JSON.stringify(customer),
+          synced_at: syncedAt,
+        });
+      }
+
+      return customers.length;
+    });
+  }
+
+  /**
+   * Get all stored customers
+   */
+  findAll(): ShopifyCustomer[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare('SELECT data FROM customers ORDER BY created_at DESC')
+      .all() as CustomerRow[];
+
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Find customers by id
+   */
+  findByIds(ids: string[]): ShopifyCustomer[] {
+    if (ids.length === 0) return [];
+
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT data FROM customers WHERE id IN (${placeholders})`)
+      .all(...ids) as CustomerRow[];
+
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Count stored customers
+   */
+  count(): number {
+    const row = this.databaseService.getConnection().prepare('SELECT COUNT(*) AS count FROM customers').get() as {
+      count: number;
+    };
+    return row.count;
+  }
+
+  private toUtc(timestamp: string | undefined): string | null {
+    return timestamp ? new Date(timestamp).toISOString() : null;
+  }
+}
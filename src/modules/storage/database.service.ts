@@ -0,0 +1,155 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import * as Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { MIGRATIONS } from './migrations';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { toZonedDateKey } from '@shared/time-zone';
+
+/**
+ * SQLite connections, one database file per store. Repositories use the
+ * connection of the current store; shared tables (API keys) live in the
+ * default store's database.
+ */
+@Injectable()
+export class DatabaseService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DatabaseService.name);
+  private readonly connections = new Map<string, Database.Database>();
+
+  constructor(
+    private readonly storeRegistry: StoreRegistryService,
+    private readonly storeContext: StoreContextService,
+  ) {}
+
+  onModuleInit(): void {
+    for (const store of this.storeRegistry.getStores()) {
+      this.openConnection(store.id);
+    }
+  }
+
+  onModuleDestroy(): void {
+    for (const [storeId, db] of this.connections) {
+      if (db.open) {
+        db.close();
+        this.logger.log(`Analytics store ${storeId} closed`);
+      }
+    }
+    this.connections.clear();
+  }
+
+  /**
+   * Get the connection for the current store
+   */
+  getConnection(): Database.Database {
+    return this.getStoreConnection(this.storeContext.getStoreId());
+  }
+
+  /**
+   * Get the connection for a specific store
+   */
+  getStoreConnection(storeId: string): Database.Database {
+    return this.connections.get(storeId) || this.openConnection(storeId);
+  }
+
+  /**
+   * Get the connection holding tables shared by all stores
+   */
+  getSharedConnection(): Database.Database {
+    return this.getStoreConnection(this.storeRegistry.getDefaultStore().id);
+  }
+
+  /**
+   * Run a function inside a single transaction
+   */
+  transaction<T>(fn: () => T): T {
+    return this.getConnection().transaction(fn)();
+  }
+
+  /**
+   * Read a value from the store_metadata table
+   */
+  getMetadata(key: string): string | null {
+    const row = this.getConnection().prepare('SELECT value FROM store_metadata WHERE key = ?').get(key) as {
+      value: string;
+    };
+    return row?.value ?? null;
+  }
+
+  /**
+   * Write a value to the store_metadata table
+   */
+  setMetadata(key: string, value: string): void {
+    this.getConnection()
+      .prepare(
+        `INSERT INTO store_metadata (key, value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      )
+      .run(key, value, new Date().toISOString());
+  }
+
+  /**
+   * Get the applied schema version
+   */
+  getSchemaVersion(): number {
+    return this.readSchemaVersion(this.getConnection());
+  }
+
+  private openConnection(storeId: string): Database.Database {
+    const { databasePath } = this.storeRegistry.getStore(storeId);
+
+    if (databasePath !== ':memory:') {
+      mkdirSync(dirname(databasePath), { recursive: true });
+    }
+
+    const db = new Database(databasePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.pragma('synchronous = NORMAL');
+    // local_date(timestamp, timezone): the YYYY-MM-DD calendar date of a stored UTC timestamp in a time zone
+    db.function('local_date', { deterministic: true }, (timestamp: string, timeZone: string) =>
+      timestamp ? toZonedDateKey(timestamp, timeZone) : null,
+    );
+
+    this.runMigrations(db);
+    this.connections.set(storeId, db);
+    this.logger.log(`Analytics store ${storeId} opened at ${databasePath}`);
+
+    return db;
+  }
+
+  private readSchemaVersion(db: Database.Database): number {
+    const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number };
+    return row?.version || 0;
+  }
+
+  /**
+   * Apply pending migrations in order, each in its own transaction
+   */
+  private runMigrations(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const currentVersion = this.readSchemaVersion(db);
+    const pending = MIGRATIONS.filter(migration => migration.version > currentVersion).sort(
+      (a, b) => a.version - b.version,
+    );
+
+    for (const migration of pending) {
+      db.transaction(() => {
+        db.exec(migration.up);
+        db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').run(
+          migration.version,
+          migration.name,
+          new Date().toISOString(),
+        );
+      })();
+      this.logger.log(`Applied migration ${migration.version}_${migration.name}`);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { ExchangeRate, ExchangeRateFilters, ExchangeRateSource } from '@interfaces/currency.interface';
+
+interface ExchangeRateRow {
+  currency: string;
+  rate_date: string;
+  rate: number;
+  source: ExchangeRateSource;
+  updated_at: string;
+}
+
+/**
+ * Dated exchange rates against the reporting currency. Rates apply to every store,
+ * so they live in the shared database.
+ */
+@Injectable()
+export class ExchangeRateRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert or replace rates, keyed by currency and date
+   */
+  upsertMany(rates: ExchangeRate[]): number {
+    const db = this.databaseService.getSharedConnection();
+    const statement = db.prepare(
+      `INSERT INTO exchange_rates (currency, rate_date, rate, source, updated_at)
+       VALUES (@currency, @rate_date, @rate, @source, @updated_at)
+       ON CONFLICT (currency, rate_date) DO UPDATE SET
+         rate = excluded.rate,
+         source = excluded.source,
+         updated_at = excluded.updated_at`,
+    );
+
+    db.transaction(() => {
+      for (const rate of rates) {
+        statement.run({
+          currency: rate.currency,
+          rate_date: rate.date,
+          rate: rate.rate,
+          source: rate.source,
+          updated_at: rate.updatedAt,
+        });
+      }
+    })();
+
+    return rates.length;
+  }
+
+  /**
+   * Find rates matching the filters, oldest first
+   */
+  find(filters: ExchangeRateFilters = {}): ExchangeRate[] {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (filters.currency) {
+      conditions.push('currency = @currency');
+      params.currency = filters.currency;
+    }
+    if (filters.from) {
+      conditions.push('rate_date >= @from');
+      params.from = filters.from;
+    }
+    if (filters.to) {
+      conditions.push('rate_date <= @to');
+      params.to = filters.to;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.databaseService
+      .getSharedConnection()
+      .prepare(`SELECT * FROM exchange_rates ${where} ORDER BY currency, rate_date`)
+      .all(params) as ExchangeRateRow[];
+
+    return rows.map(row => this.toRate(row));
+  }
+
+  /**
+   * Delete the rate of a currency on a date
+   */
+  delete(currency: string, date: string): boolean {
+    const result = this.databaseService
+      .getSharedConnection()
+      .prepare('DELETE FROM exchange_rates WHERE currency = ? AND rate_date = ?')
+      .run(currency, date);
+
+    return result.changes > 0;
+  }
+
+  private toRate(row: ExchangeRateRow): ExchangeRate {
+    return {
+      currency: row.currency,
+      date: row.rate_date,
+      rate: row.rate,
+      source: row.source,
+      updatedAt: row.updated_at,
+    };
+  }
+}
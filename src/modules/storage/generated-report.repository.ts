@@ -0,0 +1,143 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { GeneratedReport, ReportFormat } from '@interfaces/report.interface';
+
+interface GeneratedReportRow {
+  id: string;
+  schedule_id: string | null;
+  name: string;
+  sections: string;
+  period_start: string;
+  period_end: string;
+  recipients: string;
+  status: GeneratedReport['status'];
+  error: string | null;
+  pdf_bytes: number;
+  created_at: string;
+  sent_at: string | null;
+}
+
+// Every column but the rendered documents, which are only read when downloaded
+const SUMMARY_COLUMNS = `id, schedule_id, name, sections, period_start, period_end, recipients, status, error,
+  LENGTH(pdf) AS pdf_bytes, created_at, sent_at`;
+
+/**
+ * History of generated reports with their rendered HTML and PDF
+ */
+@Injectable()
+export class GeneratedReportRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Store a generated report with its documents
+   */
+  insert(report: GeneratedReport, html: string, pdf: Buffer): GeneratedReport {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO generated_reports (
+           id, schedule_id, name, sections, period_start, period_end, recipients, status, error,
+           html, pdf, created_at, sent_at
+         ) VALUES (
+           @id, @schedule_id, @name, @sections, @period_start, @period_end, @recipients, @status, @error,
+           @html, @pdf, @created_at, @sent_at
+         )`,
+      )
+      .run({
+        id: report.id,
+        schedule_id: report.scheduleId,
+        name: report.name,
+        sections: JSON.stringify(report.sections),
+        period_start: report.periodStart,
+        period_end: report.periodEnd,
+        recipients: JSON.stringify(report.recipients),
+        status: report.status,
+        error: report.error,
+        html,
+        pdf,
+        created_at: report.createdAt,
+        sent_at: report.sentAt,
+      });
+
+    return this.findById(report.id);
+  }
+
+  /**
+   * Record the outcome of delivering a report
+   */
+  updateDelivery(id: string, status: GeneratedReport['status'], error: string | null, sentAt: string | null): void {
+    this.databaseService
+      .getConnection()
+      .prepare('UPDATE generated_reports SET status = ?, error = ?, sent_at = ? WHERE id = ?')
+      .run(status, error, sentAt, id);
+  }
+
+  /**
+   * Find a report by id, without its documents
+   */
+  findById(id: string): GeneratedReport | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare(`SELECT ${SUMMARY_COLUMNS} FROM generated_reports WHERE id = ?`)
+      .get(id) as GeneratedReportRow;
+
+    return row ? this.toReport(row) : null;
+  }
+
+  /**
+   * Find reports, newest first, optionally of one schedule
+   */
+  find(filters: { scheduleId?: string; limit?: number } = {}): GeneratedReport[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(
+        `SELECT ${SUMMARY_COLUMNS} FROM generated_reports
+         ${filters.scheduleId ? 'WHERE schedule_id = @scheduleId' : ''}
+         ORDER BY created_at DESC
+         ${filters.limit ? `LIMIT ${Math.floor(filters.limit)}` : ''}`,
+      )
+      .all(filters.scheduleId ? { scheduleId: filters.scheduleId } : {}) as GeneratedReportRow[];
+
+    return rows.map(row => this.toReport(row));
+  }
+
+  /**
+   * The rendered HTML or PDF of a report; null when the report does not exist
+   */
+  findDocument(id: string, format: ReportFormat): string | Buffer | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare(`SELECT ${format === 'pdf' ? 'pdf' : 'html'} AS document FROM generated_reports WHERE id = ?`)
+      .get(id) as { document: string | Buffer } | undefined;
+
+    return row ? row.document : null;
+  }
+
+  /**
+   * Delete reports generated before the cutoff
+   */
+  deleteBefore(cutoff: Date): number {
+    const result = this.databaseService
+      .getConnection()
+      .prepare('DELETE FROM generated_reports WHERE created_at < ?')
+      .run(cutoff.toISOString());
+    return result.changes;
+  }
+
+  private toReport(row: GeneratedReportRow): GeneratedReport {
+    return {
+      id: row.id,
+      scheduleId: row.schedule_id,
+      name: row.name,
+      sections: JSON.parse(row.sections),
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      recipients: JSON.parse(row.recipients),
+      status: row.status,
+      error: row.error,
+      pdfBytes: row.pdf_bytes,
+      createdAt: row.created_at,
+      sentAt: row.sent_at,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { LocationSettings } from '@interfaces/planning.interface';
+
+interface LocationSettingsRow {
+  location_id: string;
+  location_name: string;
+  critical_stock_threshold: number;
+  low_stock_threshold: number;
+  target_stock: number;
+  overstock_threshold: number;
+  allow_transfers: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Stock thresholds per Shopify location, keyed by the Location GID
+ */
+@Injectable()
+export class LocationSettingsRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert or replace the settings of a location
+   */
+  upsert(settings: LocationSettings): LocationSettings {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO location_settings (
+           location_id, location_name, critical_stock_threshold, low_stock_threshold, target_stock,
+           overstock_threshold, allow_transfers, created_at, updated_at
+         ) VALUES (
+           @location_id, @location_name, @critical_stock_threshold, @low_stock_threshold, @target_stock,
+           @overstock_threshold, @allow_transfers, @created_at, @updated_at
+         )
+         ON CONFLICT (location_id) DO UPDATE SET
+           location_name = excluded.location_name,
+           critical_stock_threshold = excluded.critical_stock_threshold,
+           low_stock_threshold = excluded.low_stock_threshold,
+           target_stock = excluded.target_stock,
+           overstock_threshold = excluded.overstock_threshold,
+           allow_transfers = excluded.allow_transfers,
+           updated_at = excluded.updated_at`,
+      )
+      .run({
+        location_id: settings.locationId,
+        location_name: settings.locationName,
+        critical_stock_threshold: settings.criticalStockThreshold,
+        low_stock_threshold: settings.lowStockThreshold,
+        target_stock: settings.targetStock,
+        overstock_threshold: settings.overstockThreshold,
+        allow_transfers: settings.allowTransfers ? 1 : 0,
+        created_at: settings.createdAt,
+        updated_at: settings.updatedAt,
+      });
+
+    return this.findById(settings.locationId);
+  }
+
+  /**
+   * Find the settings of a location
+   */
+  findById(locationId: string): LocationSettings | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM location_settings WHERE location_id = ?')
+      .get(locationId) as LocationSettingsRow;
+
+    return row ? this.toSettings(row) : null;
+  }
+
+  /**
+   * Find the settings of every location, by name
+   */
+  findAll(): LocationSettings[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM location_settings ORDER BY location_name')
+      .all() as LocationSettingsRow[];
+
+    return rows.map(row => this.toSettings(row));
+  }
+
+  /**
+   * Delete the settings of a location
+   */
+  delete(locationId: string): boolean {
+    const result = this.databaseService
+      .getConnection()
+      .prepare('DELETE FROM location_settings WHERE location_id = ?')
+      .run(locationId);
+    return result.changes > 0;
+  }
+
+  private toSettings(row: LocationSettingsRow): LocationSettings {
+    return {
+      locationId: row.location_id,
+      locationName: row.location_name,
+      criticalStockThreshold: row.critical_stock_threshold,
+      lowStockThreshold: row.low_stock_threshold,
+      targetStock: row.target_stock,
+      overstockThreshold: row.overstock_threshold,
+      allowTransfers: row.allow_transfers === 1,
+      configured: true,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,530 @@
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Schema migrations for the analytics store, applied in version order.
+ * Never edit a released migration; add a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: `
+      CREATE TABLE orders (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        processed_at TEXT,
+        closed_at TEXT,
+        cancelled_at TEXT,
+        cancel_reason TEXT,
+        currency_code TEXT,
+        total_price TEXT NOT NULL DEFAULT '0',
+        subtotal_price TEXT NOT NULL DEFAULT '0',
+        total_tax TEXT NOT NULL DEFAULT '0',
+        total_discounts TEXT NOT NULL DEFAULT '0',
+        total_shipping TEXT NOT NULL DEFAULT '0',
+        presentment_currency_code TEXT,
+        presentment_total_price TEXT,
+        financial_status TEXT,
+        fulfillment_status TEXT,
+        customer_id TEXT,
+        tags TEXT NOT NULL DEFAULT '[]',
+        data TEXT NOT NULL,
+        synced_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_orders_created_at ON orders (created_at);
+      CREATE INDEX idx_orders_updated_at ON orders (updated_at);
+      CREATE INDEX idx_orders_customer_id ON orders (customer_id);
+
+      CREATE TABLE line_items (
+        id TEXT PRIMARY KEY,
+        order_id TEXT NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+        product_id TEXT,
+        variant_id TEXT,
+        title TEXT NOT NULL,
+        sku TEXT,
+        quantity INTEGER NOT NULL DEFAULT 0,
+        original_unit_price TEXT NOT NULL DEFAULT '0',
+        total_discount TEXT NOT NULL DEFAULT '0',
+        product_type TEXT,
+        vendor TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_line_items_order_id ON line_items (order_id);
+      CREATE INDEX idx_line_items_variant_id ON line_items (variant_id);
+      CREATE INDEX idx_line_items_product_id ON line_items (product_id);
+
+      CREATE TABLE fulfillments (
+        id TEXT PRIMARY KEY,
+        order_id TEXT NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+        status TEXT,
+        created_at TEXT,
+        updated_at TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_fulfillments_order_id ON fulfillments (order_id);
+
+      CREATE TABLE products (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        handle TEXT,
+        product_type TEXT,
+        vendor TEXT,
+        status TEXT,
+        created_at TEXT,
+        updated_at TEXT,
+        total_inventory INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL,
+        synced_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_products_updated_at ON products (updated_at);
+
+      CREATE TABLE variants (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL REFERENCES products (id) ON DELETE CASCADE,
+        title TEXT,
+        sku TEXT,
+        price TEXT,
+        compare_at_price TEXT,
+        inventory_quantity INTEGER NOT NULL DEFAULT 0,
+        inventory_item_id TEXT,
+        tracked INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_variants_product_id ON variants (product_id);
+      CREATE INDEX idx_variants_inventory_item_id ON variants (inventory_item_id);
+
+      CREATE TABLE customers (
+        id TEXT PRIMARY KEY,
+        email TEXT,
+        display_name TEXT,
+        created_at TEXT,
+        updated_at TEXT,
+        number_of_orders INTEGER NOT NULL DEFAULT 0,
+        amount_spent TEXT NOT NULL DEFAULT '0',
+        currency_code TEXT,
+        tags TEXT NOT NULL DEFAULT '[]',
+        data TEXT NOT NULL,
+        synced_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_customers_updated_at ON customers (updated_at);
+
+      CREATE TABLE store_metadata (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'daily_sales_rollups',
+    up: `
+      CREATE TABLE daily_sales_rollups (
+        date TEXT PRIMARY KEY,
+        orders INTEGER NOT NULL,
+        gross_sales REAL NOT NULL,
+        units_sold INTEGER NOT NULL,
+        customers INTEGER NOT NULL,
+        archived_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 3,
+    name: 'sync_state',
+    up: `
+      CREATE TABLE sync_state (
+        resource TEXT PRIMARY KEY,
+        watermark TEXT,
+        cursor TEXT,
+        cursor_watermark TEXT,
+        pending_watermark TEXT,
+        last_status TEXT NOT NULL DEFAULT 'never',
+        last_error TEXT,
+        last_started_at TEXT,
+        last_completed_at TEXT,
+        last_run_records INTEGER NOT NULL DEFAULT 0,
+        total_records INTEGER NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 4,
+    name: 'api_keys',
+    up: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        key_prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'sales_targets',
+    up: `
+      CREATE TABLE sales_targets (
+        id TEXT PRIMARY KEY,
+        scope TEXT NOT NULL,
+        scope_value TEXT NOT NULL DEFAULT '',
+        period TEXT NOT NULL,
+        period_type TEXT NOT NULL,
+        period_start TEXT NOT NULL,
+        period_end TEXT NOT NULL,
+        amount REAL NOT NULL,
+        notes TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (scope, scope_value, period)
+      );
+      CREATE INDEX idx_sales_targets_period ON sales_targets (period_start, period_end);
+    `,
+  },
+  {
+    version: 6,
+    name: 'sales_reps',
+    up: `
+      CREATE TABLE sales_reps (
+        id TEXT PRIMARY KEY,
+        display_name TEXT NOT NULL,
+        email TEXT,
+        team TEXT,
+        region TEXT,
+        start_date TEXT,
+        staff_member_id TEXT,
+        discount_codes TEXT NOT NULL DEFAULT '[]',
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE rep_customer_assignments (
+        customer_id TEXT NOT NULL,
+        rep_id TEXT NOT NULL REFERENCES sales_reps (id) ON DELETE CASCADE,
+        share REAL NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (customer_id, rep_id)
+      );
+      CREATE INDEX idx_rep_customer_assignments_rep_id ON rep_customer_assignments (rep_id);
+    `,
+  },
+  {
+    version: 7,
+    name: 'exchange_rates',
+    up: `
+      CREATE TABLE exchange_rates (
+        currency TEXT NOT NULL,
+        rate_date TEXT NOT NULL,
+        rate REAL NOT NULL,
+        source TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (currency, rate_date)
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: 'cost_overrides',
+    up: `
+      CREATE TABLE cost_overrides (
+        id TEXT PRIMARY KEY,
+        variant_id TEXT NOT NULL DEFAULT '',
+        sku TEXT NOT NULL DEFAULT '',
+        unit_cost TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        notes TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (variant_id, sku)
+      );
+    `,
+  },
+  {
+    version: 9,
+    name: 'supplier_settings',
+    up: `
+      CREATE TABLE supplier_settings (
+        id TEXT PRIMARY KEY,
+        vendor TEXT NOT NULL COLLATE NOCASE UNIQUE,
+        lead_time_days INTEGER NOT NULL,
+        lead_time_std_dev_days REAL NOT NULL DEFAULT 0,
+        min_order_quantity INTEGER NOT NULL DEFAULT 1,
+        case_pack INTEGER NOT NULL DEFAULT 1,
+        review_cycle_days INTEGER NOT NULL,
+        service_level REAL NOT NULL,
+        contact_email TEXT,
+        notes TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 10,
+    name: 'location_settings',
+    up: `
+      CREATE TABLE location_settings (
+        location_id TEXT PRIMARY KEY,
+        location_name TEXT NOT NULL,
+        critical_stock_threshold INTEGER NOT NULL,
+        low_stock_threshold INTEGER NOT NULL,
+        target_stock INTEGER NOT NULL,
+        overstock_threshold INTEGER NOT NULL,
+        allow_transfers INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 11,
+    name: 'alert_rules',
+    up: `
+      CREATE TABLE alert_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        metric TEXT NOT NULL,
+        scope TEXT NOT NULL DEFAULT '{}',
+        comparator TEXT NOT NULL,
+        threshold REAL NOT NULL,
+        window_days INTEGER,
+        severity TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        last_evaluated_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE alerts (
+        id TEXT PRIMARY KEY,
+        dedup_key TEXT NOT NULL,
+        rule_id TEXT NOT NULL,
+        rule_name TEXT NOT NULL,
+        category TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        status TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        value REAL NOT NULL,
+        comparator TEXT NOT NULL,
+        threshold REAL NOT NULL,
+        message TEXT NOT NULL,
+        first_triggered_at TEXT NOT NULL,
+        last_triggered_at TEXT NOT NULL,
+        trigger_count INTEGER NOT NULL DEFAULT 1,
+        acknowledged_at TEXT,
+        acknowledged_by TEXT,
+        snoozed_until TEXT,
+        resolved_at TEXT,
+        resolved_by TEXT,
+        resolution TEXT,
+        updated_at TEXT NOT NULL
+      );
+      -- Only one unresolved alert per rule and subject
+      CREATE UNIQUE INDEX idx_alerts_active_dedup_key ON alerts (dedup_key) WHERE status != 'resolved';
+      CREATE INDEX idx_alerts_status ON alerts (status, last_triggered_at);
+      CREATE INDEX idx_alerts_rule_id ON alerts (rule_id);
+
+      -- The stock thresholds previously hard-coded in the inventory alert job
+      WITH defaults (id, name, description, threshold, severity) AS (
+        VALUES
+          ('default-out-of-stock', 'Out of stock', 'Tracked variant has no stock left', 0, 'CRITICAL'),
+          ('default-critical-low-stock', 'Critical low stock', 'Tracked variant has 5 or fewer units', 5, 'HIGH'),
+          ('default-low-stock', 'Low stock', 'Tracked variant has 10 or fewer units', 10, 'MEDIUM')
+      )
+      INSERT INTO alert_rules (id, name, description, metric, comparator, threshold, severity, created_at, updated_at)
+      SELECT id, name, description, 'inventory_quantity', 'lte', threshold, severity,
+             strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+      FROM defaults;
+    `,
+  },
+  {
+    version: 12,
+    name: 'notifications',
+    up: `
+      CREATE TABLE notification_channels (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        config TEXT NOT NULL,
+        min_severity TEXT NOT NULL DEFAULT 'LOW',
+        categories TEXT NOT NULL DEFAULT '[]',
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE notification_deliveries (
+        id TEXT PRIMARY KEY,
+        channel_id TEXT NOT NULL,
+        channel_name TEXT NOT NULL,
+        channel_type TEXT NOT NULL,
+        event_key TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        title TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        digest_id TEXT,
+        event TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        sent_at TEXT
+      );
+      CREATE INDEX idx_notification_deliveries_channel ON notification_deliveries (channel_id, created_at);
+      CREATE INDEX idx_notification_deliveries_event_key ON notification_deliveries (event_key, channel_id, created_at);
+      CREATE INDEX idx_notification_deliveries_status ON notification_deliveries (status, created_at);
+
+      -- Channels an alert rule notifies; rules without channels use each channel's default routing
+      ALTER TABLE alert_rules ADD COLUMN channel_ids TEXT NOT NULL DEFAULT '[]';
+    `,
+  },
+  {
+    version: 13,
+    name: 'anomaly_alerts',
+    up: `
+      -- hour or day for anomaly rules, whose window_days is the baseline the periods are scored against
+      ALTER TABLE alert_rules ADD COLUMN granularity TEXT;
+      ALTER TABLE alerts ADD COLUMN details TEXT;
+
+      WITH defaults (id, name, description, metric, comparator, threshold, severity) AS (
+        VALUES
+          ('default-revenue-drop', 'Revenue drop', 'Daily revenue far below its seasonal baseline',
+           'revenue_anomaly', 'lte', -3.5, 'HIGH'),
+          ('default-order-volume-drop', 'Order volume drop', 'Daily orders far below their seasonal baseline',
+           'order_count_anomaly', 'lte', -3.5, 'HIGH'),
+          ('default-revenue-spike', 'Revenue spike', 'Daily revenue far above its seasonal baseline',
+           'revenue_anomaly', 'gte', 3.5, 'LOW'),
+          ('default-refund-rate-spike', 'Refund rate spike', 'Daily refund rate far above its seasonal baseline',
+           'refund_rate_anomaly', 'gte', 3.5, 'MEDIUM')
+      )
+      INSERT INTO alert_rules (
+        id, name, description, metric, comparator, threshold, window_days, granularity, severity, created_at, updated_at
+      )
+      SELECT id, name, description, metric, comparator, threshold, 56, 'day', severity,
+             strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+      FROM defaults;
+    `,
+  },
+  {
+    version: 14,
+    name: 'reports',
+    up: `
+      CREATE TABLE report_schedules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        cron TEXT NOT NULL,
+        timezone TEXT NOT NULL DEFAULT 'UTC',
+        recipients TEXT NOT NULL,
+        sections TEXT NOT NULL,
+        period_days INTEGER NOT NULL DEFAULT 7,
+        attach_pdf INTEGER NOT NULL DEFAULT 1,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        last_run_at TEXT,
+        last_status TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE generated_reports (
+        id TEXT PRIMARY KEY,
+        schedule_id TEXT,
+        name TEXT NOT NULL,
+        sections TEXT NOT NULL,
+        period_start TEXT NOT NULL,
+        period_end TEXT NOT NULL,
+        recipients TEXT NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL,
+        error TEXT,
+        html TEXT NOT NULL,
+        pdf BLOB NOT NULL,
+        created_at TEXT NOT NULL,
+        sent_at TEXT
+      );
+      CREATE INDEX idx_generated_reports_created_at ON generated_reports (created_at);
+      CREATE INDEX idx_generated_reports_schedule ON generated_reports (schedule_id, created_at);
+    `,
+  },
+  {
+    // Rollups held order totals as floats under gross_sales. They are rebuilt from the stored
+    // orders by the next weekly cleanup, so the old rows are dropped rather than converted.
+    version: 15,
+    name: 'daily_sales_rollups_by_currency',
+    up: `
+      DROP TABLE daily_sales_rollups;
+      CREATE TABLE daily_sales_rollups (
+        date TEXT NOT NULL,
+        currency_code TEXT NOT NULL,
+        orders INTEGER NOT NULL,
+        total_sales TEXT NOT NULL,
+        units_sold INTEGER NOT NULL,
+        customers INTEGER NOT NULL,
+        archived_at TEXT NOT NULL,
+        PRIMARY KEY (date, currency_code)
+      );
+    `,
+  },
+  {
+    // Refunds are counted when issued, which can be long after the order was placed, so their
+    // dates are indexed apart from the order. Stored orders are indexed from their data.
+    version: 16,
+    name: 'order_refunds',
+    up: `
+      CREATE TABLE order_refunds (
+        order_id TEXT NOT NULL REFERENCES orders (id) ON DELETE CASCADE,
+        refund_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (order_id, refund_id)
+      );
+      CREATE INDEX idx_order_refunds_created_at ON order_refunds (created_at);
+
+      INSERT OR IGNORE INTO order_refunds (order_id, refund_id, created_at)
+      SELECT orders.id, json_extract(refund.value, '$.id'),
+        strftime('%Y-%m-%dT%H:%M:%fZ', json_extract(refund.value, '$.createdAt'))
+      FROM orders, json_each(orders.data, '$.refunds') AS refund
+      WHERE json_extract(refund.value, '$.id') IS NOT NULL
+        AND strftime('%Y-%m-%dT%H:%M:%fZ', json_extract(refund.value, '$.createdAt')) IS NOT NULL;
+    `,
+  },
+  {
+    // Target amounts are kept as exact decimals, like rollup totals, rather than floats
+    version: 17,
+    name: 'sales_targets_decimal_amounts',
+    up: `
+      CREATE TABLE sales_targets_decimal (
+        id TEXT PRIMARY KEY,
+        scope TEXT NOT NULL,
+        scope_value TEXT NOT NULL DEFAULT '',
+        period TEXT NOT NULL,
+        period_type TEXT NOT NULL,
+        period_start TEXT NOT NULL,
+        period_end TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        notes TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        UNIQUE (scope, scope_value, period)
+      );
+      INSERT INTO sales_targets_decimal
+      SELECT id, scope, scope_value, period, period_type, period_start, period_end, printf('%.2f', amount), notes,
+        created_at, updated_at
+      FROM sales_targets;
+      DROP TABLE sales_targets;
+      ALTER TABLE sales_targets_decimal RENAME TO sales_targets;
+      CREATE INDEX idx_sales_targets_period ON sales_targets (period_start, period_end);
+    `,
+  },
+];
@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { NotificationChannel } from '@interfaces/notification.interface';
+
+interface NotificationChannelRow {
+  id: string;
+  name: string;
+  type: NotificationChannel['type'];
+  config: string;
+  min_severity: NotificationChannel['minSeverity'];
+  categories: string;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Channels alert notifications are delivered to
+ */
+@Injectable()
+export class NotificationChannelRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert a channel, or replace the channel with the same id
+   */
+  save(channel: NotificationChannel): NotificationChannel {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO notification_channels (
+           id, name, type, config, min_severity, categories, enabled, created_at, updated_at
+         ) VALUES (
+           @id, @name, @type, @config, @min_severity, @categories, @enabled, @created_at, @updated_at
+         )
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           type = excluded.type,
+           config = excluded.config,
+           min_severity = excluded.min_severity,
+           categories = excluded.categories,
+           enabled = excluded.enabled,
+           updated_at = excluded.updated_at`,
+      )
+      .run({
+        id: channel.id,
+        name: channel.name,
+        type: channel.type,
+        config: JSON.stringify(channel.config),
+        min_severity: channel.minSeverity,
+        categories: JSON.stringify(channel.categories),
+        enabled: channel.enabled ? 1 : 0,
+        created_at: channel.createdAt,
+        updated_at: channel.updatedAt,
+      });
+
+    return this.findById(channel.id);
+  }
+
+  /**
+   * Find a channel by id
+   */
+  findById(id: string): NotificationChannel | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM notification_channels WHERE id = ?')
+      .get(id) as NotificationChannelRow;
+
+    return row ? this.toChannel(row) : null;
+  }
+
+  /**
+   * Find every channel, optionally only the enabled ones, by name
+   */
+  findAll(enabledOnly = false): NotificationChannel[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT * FROM notification_channels ${enabledOnly ? 'WHERE enabled = 1' : ''} ORDER BY name`)
+      .all() as NotificationChannelRow[];
+
+    return rows.map(row => this.toChannel(row));
+  }
+
+  /**
+   * Delete a channel by id
+   */
+  delete(id: string): boolean {
+    const result = this.databaseService
+      .getConnection()
+      .prepare('DELETE FROM notification_channels WHERE id = ?')
+      .run(id);
+    return result.changes > 0;
+  }
+
+  private toChannel(row: NotificationChannelRow): NotificationChannel {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      config: JSON.parse(row.config),
+      minSeverity: row.min_severity,
+      categories: JSON.parse(row.categories || '[]'),
+      enabled: row.enabled === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
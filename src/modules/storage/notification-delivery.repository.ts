@@ -0,0 +1,188 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import {
+  NotificationDelivery,
+  NotificationDeliveryFilters,
+  NotificationDeliveryStatus,
+  NotificationEventType,
+} from '@interfaces/notification.interface';
+
+interface NotificationDeliveryRow {
+  id: string;
+  channel_id: string;
+  channel_name: string;
+  channel_type: NotificationDelivery['channelType'];
+  event_key: string;
+  event_type: NotificationEventType;
+  severity: NotificationDelivery['severity'];
+  title: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  error: string | null;
+  digest_id: string | null;
+  event: string;
+  created_at: string;
+  sent_at: string | null;
+}
+
+/**
+ * Log of notifications delivered, held back or suppressed per channel
+ */
+@Injectable()
+export class NotificationDeliveryRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert a delivery or update it by id
+   */
+  save(delivery: NotificationDelivery): NotificationDelivery {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO notification_deliveries (
+           id, channel_id, channel_name, channel_type, event_key, event_type, severity, title, status,
+           attempts, error, digest_id, event, created_at, sent_at
+         ) VALUES (
+           @id, @channel_id, @channel_name, @channel_type, @event_key, @event_type, @severity, @title, @status,
+           @attempts, @error, @digest_id, @event, @created_at, @sent_at
+         )
+         ON CONFLICT (id) DO UPDATE SET
+           status = excluded.status,
+           attempts = excluded.attempts,
+           error = excluded.error,
+           digest_id = excluded.digest_id,
+           sent_at = excluded.sent_at`,
+      )
+      .run({
+        id: delivery.id,
+        channel_id: delivery.channelId,
+        channel_name: delivery.channelName,
+        channel_type: delivery.channelType,
+        event_key: delivery.eventKey,
+        event_type: delivery.eventType,
+        severity: delivery.severity,
+        title: delivery.title,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        error: delivery.error,
+        digest_id: delivery.digestId,
+        event: JSON.stringify(delivery.event),
+        created_at: delivery.createdAt,
+        sent_at: delivery.sentAt,
+      });
+
+    return delivery;
+  }
+
+  /**
+   * Find deliveries, newest first
+   */
+  find(filters: NotificationDeliveryFilters = {}): NotificationDelivery[] {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (filters.channelId) {
+      conditions.push('channel_id = @channelId');
+      params.channelId = filters.channelId;
+    }
+    if (filters.status) {
+      conditions.push('status = @status');
+      params.status = filters.status;
+    }
+    if (filters.eventKey) {
+      conditions.push('event_key = @eventKey');
+      params.eventKey = filters.eventKey;
+    }
+
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(
+        `SELECT * FROM notification_deliveries
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY created_at DESC
+         ${filters.limit ? `LIMIT ${Math.floor(filters.limit)}` : ''}`,
+      )
+      .all(params) as NotificationDeliveryRow[];
+
+    return rows.map(row => this.toDelivery(row));
+  }
+
+  /**
+   * Find a channel's deliveries in a status, oldest first
+   */
+  findByStatus(channelId: string, status: NotificationDeliveryStatus, since?: Date): NotificationDelivery[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(
+        `SELECT * FROM notification_deliveries
+         WHERE channel_id = ? AND status = ? AND created_at >= ?
+         ORDER BY created_at`,
+      )
+      .all(channelId, status, since ? since.toISOString() : '') as NotificationDeliveryRow[];
+
+    return rows.map(row => this.toDelivery(row));
+  }
+
+  /**
+   * Whether the same notification went, or is about to go, to a channel since the given time
+   */
+  hasRecent(channelId: string, eventKey: string, eventType: NotificationEventType, since: Date): boolean {
+    const row = this.databaseService
+      .getConnection()
+      .prepare(
+        `SELECT 1 FROM notification_deliveries
+         WHERE channel_id = ? AND event_key = ? AND event_type = ? AND created_at >= ?
+           AND status IN ('sent', 'failed', 'queued', 'digested')
+         LIMIT 1`,
+      )
+      .get(channelId, eventKey, eventType, since.toISOString());
+
+    return Boolean(row);
+  }
+
+  /**
+   * Number of messages sent to a channel since the given time
+   */
+  countSentSince(channelId: string, since: Date): number {
+    const row = this.databaseService
+      .getConnection()
+      .prepare(
+        `SELECT COUNT(*) AS count FROM notification_deliveries
+         WHERE channel_id = ? AND status = 'sent' AND sent_at >= ?`,
+      )
+      .get(channelId, since.toISOString()) as { count: number };
+
+    return row.count;
+  }
+
+  /**
+   * Delete deliveries logged before the cutoff
+   */
+  deleteBefore(cutoff: Date): number {
+    const result = this.databaseService
+      .getConnection()
+      .prepare('DELETE FROM notification_deliveries WHERE created_at < ?')
+      .run(cutoff.toISOString());
+    return result.changes;
+  }
+
+  private toDelivery(row: NotificationDeliveryRow): NotificationDelivery {
+    return {
+      id: row.id,
+      channelId: row.channel_id,
+      channelName: row.channel_name,
+      channelType: row.channel_type,
+      eventKey: row.event_key,
+      eventType: row.event_type,
+      severity: row.severity,
+      title: row.title,
+      status: row.status,
+      attempts: row.attempts,
+      error: row.error,
+      digestId: row.digest_id,
+      event: JSON.parse(row.event),
+      createdAt: row.created_at,
+      sentAt: row.sent_at,
+    };
+  }
+}
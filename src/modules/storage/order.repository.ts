@@ -0,0 +1,421 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { ShopifyOrder, LineItem, Fulfillment } from '@interfaces/shopify.interface';
+import { Money } from '@shared/money';
+
+interface OrderRow {
+  id: string;
+  data: string;
+}
+
+interface ChildRow {
+  order_id: string;
+  data: string;
+}
+
+export interface OrderQueryOptions {
+  limit?: number;
+  includeCancelled?: boolean;
+}
+
+export interface CurrencyRevenue {
+  currencyCode: string;
+  revenue: Money;
+  orders: number;
+}
+
+/**
+ * Orders with their line items and fulfillments.
+ * Timestamps are stored as UTC ISO strings so range queries compare lexicographically.
+ */
+@Injectable()
+export class OrderRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert or update orders, replacing their line items and fulfillments
+   */
+  upsertOrders(orders: ShopifyOrder[]): number {
+    if (orders.length === 0) return 0;
+
+    const db = this.databaseService.getConnection();
+    const syncedAt = new Date().toISOString();
+
+    const upsertOrder = db.prepare(`
+      INSERT INTO orders (
+        id, name, created_at, updated_at, processed_at, closed_at, cancelled_at, cancel_reason,
+        currency_code, total_price, subtotal_price, total_tax, total_discounts, total_shipping,
+        presentment_currency_code, presentment_total_price, financial_status, fulfillment_status,
+        customer_id, tags, data, synced_at
+      ) VALUES (
+        @id, @name, @created_at, @updated_at, @processed_at, @closed_at, @cancelled_at, @cancel_reason,
+        @currency_code, @total_price, @subtotal_price, @total_tax, @total_discounts, @total_shipping,
+        @presentment_currency_code, @presentment_total_price, @financial_status, @fulfillment_status,
+        @customer_id, @tags, @data, @synced_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        processed_at = excluded.processed_at,
+        closed_at = excluded.closed_at,
+        cancelled_at = excluded.cancelled_at,
+        cancel_reason = excluded.cancel_reason,
+        currency_code = excluded.currency_code,
+        total_price = excluded.total_price,
+        subtotal_price = excluded.subtotal_price,
+        total_tax = excluded.total_tax,
+        total_discounts = excluded.total_discounts,
+        total_shipping = excluded.total_shipping,
+        presentment_currency_code = excluded.presentment_currency_code,
+        presentment_total_price = excluded.presentment_total_price,
+        financial_status = excluded.financial_status,
+        fulfillment_status = excluded.fulfillment_status,
+        customer_id = excluded.customer_id,
+        tags = excluded.tags,
+        data = excluded.data,
+        synced_at = excluded.synced_at
+      WHERE excluded.updated_at >= orders.updated_at
+    `);
+    const deleteLineItems = db.prepare('DELETE FROM line_items WHERE order_id = ?');
+    const insertLineItem = db.prepare(`
+      INSERT OR REPLACE INTO line_items (
+        id, order_id, product_id, variant_id, title, sku, quantity,
+        original_unit_price, total_discount, product_type, vendor, data
+      ) VALUES (
+        @id, @order_id, @product_id, @variant_id, @title, @sku, @quantity,
+        @original_unit_price, @total_discount, @product_type, @vendor, @data
+      )
+    `);
+    const deleteFulfillments = db.prepare('DELETE FROM fulfillments WHERE order_id = ?');
+    const deleteRefunds = db.prepare('DELETE FROM order_refunds WHERE order_id = ?');
+    const insertRefund = db.prepare(`
+      INSERT OR REPLACE INTO order_refunds (order_id, refund_id, created_at)
+      VALUES (@order_id, @refund_id, @created_at)
+    `);
+    const insertFulfillment = db.prepare(`
+      INSERT OR REPLACE INTO fulfillments (id, order_id, status, created_at, updated_at, data)
+      VALUES (@id, @order_id, @status, @created_at, @updated_at, @data)
+    `);
+
+    return this.databaseService.transaction(() => {
+      let written = 0;
+
+      for (const order of orders) {
+        const { lineItems, fulfillments, ...orderData } = order;
+
+        const result = upsertOrder.run({
+          id: order.id,
+          name: order.name,
+          created_at: this.toUtc(order.createdAt),
+          updated_at: this.toUtc(order.updatedAt || order.createdAt),
+          processed_at: this.toUtc(order.processedAt),
+          closed_at: this.toUtc(order.closedAt),
+          cancelled_at: this.toUtc(order.cancelledAt),
+          cancel_reason: order.cancelReason || null,
+          currency_code: order.totalPriceSet?.shopMoney?.currencyCode || null,
+          total_price: order.totalPriceSet?.shopMoney?.amount || '0',
+          subtotal_price: order.subtotalPriceSet?.shopMoney?.amount || '0',
+          total_tax: order.totalTaxSet?.shopMoney?.amount || '0',
+          total_discounts: order.totalDiscountsSet?.shopMoney?.amount || '0',
+          total_shipping: order.totalShippingPriceSet?.shopMoney?.amount || '0',
+          presentment_currency_code: order.totalPriceSet?.presentmentMoney?.currencyCode || null,
+          presentment_total_price: order.totalPriceSet?.presentmentMoney?.amount || null,
+          financial_status: order.displayFinancialStatus || null,
+          fulfillment_status: order.displayFulfillmentStatus || null,
+          customer_id: order.customer?.id || null,
+          tags: JSON.stringify(order.tags || []),
+          data: JSON.stringify(orderData),
+          synced_at: syncedAt,
+        });
+
+        // Stale update: a newer version of the order is already stored
+        if (result.changes === 0) continue;
+
+        deleteLineItems.run(order.id);
+        for (const { node: item } of lineItems?.edges || []) {
+          if (!item?.id) continue;
+          insertLineItem.run({
+            id: item.id,
+            order_id: order.id,
+            product_id: item.variant?.product?.id || null,
+            variant_id: item.variant?.id || null,
+            title: item.title,
+            sku: item.sku || item.variant?.sku || null,
+            quantity: item.quantity || 0,
+            original_unit_price: item.originalUnitPriceSet?.shopMoney?.amount || '0',
+            total_discount: item.totalDiscountSet?.shopMoney?.amount || '0',
+            product_type: item.variant?.product?.productType || null,
+            vendor: item.variant?.product?.vendor || null,
+            data: JSON.stringify(item),
+          });
+        }
+
+        deleteFulfillments.run(order.id);
+        for (const fulfillment of fulfillments || []) {
+          if (!fulfillment?.id) continue;
+          insertFulfillment.run({
+            id: fulfillment.id,
+            order_id: order.id,
+            status: fulfillment.status || null,
+            created_at: this.toUtc(fulfillment.createdAt),
+            updated_at: this.toUtc(fulfillment.updatedAt),
+            data: JSON.stringify(fulfillment),
+          });
+        }
+
+        deleteRefunds.run(order.id);
+        for (const refund of order.refunds || []) {
+          if (!refund?.id || !refund.createdAt) continue;
+          insertRefund.run({ order_id: order.id, refund_id: refund.id, created_at: this.toUtc(refund.createdAt) });
+        }
+
+        written++;
+      }
+
+      return written;
+    });
+  }
+
+  /**
+   * Find orders created within [start, end], newest first
+   */
+  findByDateRange(start: Date, end: Date, options: OrderQueryOptions = {}): ShopifyOrder[] {
+    const db = this.databaseService.getConnection();
+    const params = { start: start.toISOString(), end: end.toISOString() };
+    const cancelledFilter = options.includeCancelled === false ? 'AND cancelled_at IS NULL' : '';
+    const limit = options.limit ? `LIMIT ${Math.floor(options.limit)}` : '';
+
+    const rows = db
+      .prepare(
+        `SELECT id, data FROM orders
+         WHERE created_at >= @start AND created_at <= @end ${cancelledFilter}
+         ORDER BY created_at DESC ${limit}`,
+      )
+      .all(params) as OrderRow[];
+
+    return this.hydrate(rows);
+  }
+
+  /**
+   * Find orders with a refund created within [start, end], whenever they were placed, newest first
+   */
+  findRefundedByDateRange(start: Date, end: Date, options: OrderQueryOptions = {}): ShopifyOrder[] {
+    const cancelledFilter = options.includeCancelled === false ? 'AND orders.cancelled_at IS NULL' : '';
+
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(
+        `SELECT id, data FROM orders
+         WHERE id IN (
+           SELECT order_id FROM order_refunds WHERE created_at >= @start AND created_at <= @end
+         ) ${cancelledFilter}
+         ORDER BY created_at DESC`,
+      )
+      .all({ start: start.toISOString(), end: end.toISOString() }) as OrderRow[];
+
+    return this.hydrate(rows);
+  }
+
+  /**
+   * Find orders by id
+   */
+  findByIds(ids: string[]): ShopifyOrder[] {
+    if (ids.length === 0) return [];
+
+    const db = this.databaseService.getConnection();
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = db.prepare(`SELECT id, data FROM orders WHERE id IN (${placeholders})`).all(...ids) as OrderRow[];
+
+    return this.hydrate(rows);
+  }
+
+  /**
+   * Which of the given order ids are stored
+   */
+  findExistingIds(ids: string[]): Set<string> {
+    if (ids.length === 0) return new Set();
+
+    const placeholders = ids.map(() => '?').join(', ');
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT id FROM orders WHERE id IN (${placeholders})`)
+      .all(...ids) as Array<{ id: string }>;
+
+    return new Set(rows.map(row => row.id));
+  }
+
+  /**
+   * Count orders created within [start, end]
+   */
+  countByDateRange(start: Date, end: Date): number {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT COUNT(*) AS count FROM orders WHERE created_at >= ? AND created_at <= ?')
+      .get(start.toISOString(), end.toISOString()) as { count: number };
+
+    return row.count;
+  }
+
+  /**
+   * Revenue and count of non-cancelled orders created within [start, end], per currency.
+   * Amounts are summed exactly; orders stored without a currency code count in the fallback currency.
+   */
+  sumRevenueByCurrency(start: Date, end: Date, fallbackCurrency: string): CurrencyRevenue[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(
+        `SELECT currency_code AS currencyCode, total_price AS totalPrice
+         FROM orders
+         WHERE created_at >= ? AND created_at <= ? AND cancelled_at IS NULL`,
+      )
+      .all(start.toISOString(), end.toISOString()) as Array<{ currencyCode: string | null; totalPrice: string }>;
+
+    const byCurrency = new Map<string, CurrencyRevenue>();
+    for (const row of rows) {
+      const currencyCode = row.currencyCode || fallbackCurrency;
+      if (!byCurrency.has(currencyCode)) {
+        byCurrency.set(currencyCode, { currencyCode, revenue: Money.zero(currencyCode), orders: 0 });
+      }
+
+      const entry = byCurrency.get(currencyCode);
+      entry.revenue = entry.revenue.add(Money.of(row.totalPrice, currencyCode));
+      entry.orders++;
+    }
+
+    return Array.from(byCurrency.values());
+  }
+
+  /**
+   * Earliest and latest order creation dates in the store
+   */
+  getDateBounds(): { earliest: string | null; latest: string | null; count: number } {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT MIN(created_at) AS earliest, MAX(created_at) AS latest, COUNT(*) AS count FROM orders')
+      .get() as { earliest: string; latest: string; count: number };
+
+    return row;
+  }
+
+  /**
+   * Roll up completed days before the cutoff into daily_sales_rollups, by calendar date in a time zone
+   * and order currency. total_sales is the exact decimal sum of order totals (tax and shipping included).
+   * Rollups are recomputed for days already archived so late edits are picked up.
+   */
+  archiveDailyRollups(before: Date, timeZone: string, fallbackCurrency: string): number {
+    const db = this.databaseService.getConnection();
+    const rows = db
+      .prepare(
+        `SELECT
+           local_date(o.created_at, @timeZone) AS date,
+           o.currency_code AS currencyCode,
+           o.total_price AS totalPrice,
+           o.customer_id AS customerId,
+           COALESCE((SELECT SUM(li.quantity) FROM line_items li WHERE li.order_id = o.id), 0) AS units
+         FROM orders o
+         WHERE o.created_at < @before AND o.cancelled_at IS NULL`,
+      )
+      .all({ before: before.toISOString(), timeZone }) as Array<{
+      date: string;
+      currencyCode: string | null;
+      totalPrice: string;
+      customerId: string | null;
+      units: number;
+    }>;
+
+    const rollups = new Map<
+      string,
+      { date: string; currencyCode: string; orders: number; sales: Money; units: number; customers: Set<string> }
+    >();
+    for (const row of rows) {
+      const currencyCode = row.currencyCode || fallbackCurrency;
+      const key = `${row.date}:${currencyCode}`;
+      if (!rollups.has(key)) {
+        rollups.set(key, {
+          date: row.date,
+          currencyCode,
+          orders: 0,
+          sales: Money.zero(currencyCode),
+          units: 0,
+          customers: new Set(),
+        });
+      }
+
+      const rollup = rollups.get(key);
+      rollup.orders++;
+      rollup.sales = rollup.sales.add(Money.of(row.totalPrice, currencyCode));
+      rollup.units += row.units;
+      if (row.customerId) rollup.customers.add(row.customerId);
+    }
+
+    const insert = db.prepare(
+      `INSERT OR REPLACE INTO daily_sales_rollups
+         (date, currency_code, orders, total_sales, units_sold, customers, archived_at)
+       VALUES (@date, @currencyCode, @orders, @totalSales, @units, @customers, @archivedAt)`,
+    );
+    const archivedAt = new Date().toISOString();
+
+    return this.databaseService.transaction(() => {
+      for (const rollup of rollups.values()) {
+        insert.run({
+          date: rollup.date,
+          currencyCode: rollup.currencyCode,
+          orders: rollup.orders,
+          totalSales: rollup.sales.toAmount(),
+          units: rollup.units,
+          customers: rollup.customers.size,
+          archivedAt,
+        });
+      }
+      return rollups.size;
+    });
+  }
+
+  /**
+   * Attach line items and fulfillments to stored order rows
+   */
+  private hydrate(rows: OrderRow[]): ShopifyOrder[] {
+    if (rows.length === 0) return [];
+
+    const db = this.databaseService.getConnection();
+    const lineItemsByOrder = new Map<string, LineItem[]>();
+    const fulfillmentsByOrder = new Map<string, Fulfillment[]>();
+
+    // SQLite caps bound parameters, so children are loaded in chunks
+    const chunkSize = 500;
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      const ids = rows.slice(i, i + chunkSize).map(row => row.id);
+      const placeholders = ids.map(() => '?').join(', ');
+
+      const lineItemRows = db
+        .prepare(`SELECT order_id, data FROM line_items WHERE order_id IN (${placeholders}) ORDER BY rowid`)
+        .all(...ids) as ChildRow[];
+      for (const row of lineItemRows) {
+        if (!lineItemsByOrder.has(row.order_id)) lineItemsByOrder.set(row.order_id, []);
+        lineItemsByOrder.get(row.order_id).push(JSON.parse(row.data));
+      }
+
+      const fulfillmentRows = db
+        .prepare(`SELECT order_id, data FROM fulfillments WHERE order_id IN (${placeholders}) ORDER BY rowid`)
+        .all(...ids) as ChildRow[];
+      for (const row of fulfillmentRows) {
+        if (!fulfillmentsByOrder.has(row.order_id)) fulfillmentsByOrder.set(row.order_id, []);
+        fulfillmentsByOrder.get(row.order_id).push(JSON.parse(row.data));
+      }
+    }
+
+    return rows.map(row => ({
+      ...JSON.parse(row.data),
+      lineItems: {
+        edges: (lineItemsByOrder.get(row.id) || []).map(item => ({ cursor: item.id, node: item })),
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      },
+      fulfillments: fulfillmentsByOrder.get(row.id) || [],
+    }));
+  }
+
+  private toUtc(timestamp: string | undefined): string | null {
+    return timestamp ? new Date(timestamp).toISOString() : null;
+  }
+}
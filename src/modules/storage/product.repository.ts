@@ -0,0 +1,268 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { ShopifyProduct, ProductVariant, Connection, InventoryLevel } from '@interfaces/shopify.interface';
+import { replaceInventoryLevels, setAvailableAtLocation } from '@shared/inventory-levels';
+
+// How an inventory level change was applied: as a delta to the variant total, only to the
+// location's level because the previous level there is unknown, or not at all
+export type InventoryUpdateResult = 'updated' | 'level_only' | 'not_found';
+
+interface ProductRow {
+  id: string;
+  data: string;
+}
+
+interface VariantRow {
+  product_id: string;
+  data: string;
+}
+
+/**
+ * Products with their variants
+ */
+@Injectable()
+export class ProductRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert or update products, replacing their variants. Product queries carry no per-location
+   * levels, so a variant without them keeps the levels stored for it.
+   */
+  upsertProducts(products: ShopifyProduct[]): number {
+    if (products.length === 0) return 0;
+
+    const db = this.databaseService.getConnection();
+    const syncedAt = new Date().toISOString();
+
+    const upsertProduct = db.prepare(`
+      INSERT INTO products (
+        id, title, handle, product_type, vendor, status, created_at, updated_at, total_inventory, data, synced_at
+      ) VALUES (
+        @id, @title, @handle, @product_type, @vendor, @status, @created_at, @updated_at, @total_inventory, @data, @synced_at
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        title = excluded.title,
+        handle = excluded.handle,
+        product_type = excluded.product_type,
+        vendor = excluded.vendor,
+        status = excluded.status,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        total_inventory = excluded.total_inventory,
+        data = excluded.data,
+        synced_at = excluded.synced_at
+    `);
+    const selectVariants = db.prepare('SELECT data FROM variants WHERE product_id = ?');
+    const deleteVariants = db.prepare('DELETE FROM variants WHERE product_id = ?');
+    const insertVariant = db.prepare(`
+      INSERT OR REPLACE INTO variants (
+        id, product_id, title, sku, price, compare_at_price, inventory_quantity, inventory_item_id, tracked, data
+      ) VALUES (
+        @id, @product_id, @title, @sku, @price, @compare_at_price, @inventory_quantity, @inventory_item_id, @tracked, @data
+      )
+    `);
+
+    return this.databaseService.transaction(() => {
+      for (const product of products) {
+        const { variants, ...productData } = product;
+
+        upsertProduct.run({
+          id: product.id,
+          title: product.title,
+          handle: product.handle || null,
+          product_type: product.productType || null,
+          vendor: product.vendor || null,
+          status: product.status || null,
+          created_at: this.toUtc(product.createdAt),
+          updated_at: this.toUtc(product.updatedAt),
+          total_inventory: product.totalInventory || 0,
+          data: JSON.stringify(productData),
+          synced_at: syncedAt,
+        });
+
+        const storedLevels = new Map(
+          (selectVariants.all(product.id) as Array<{ data: string }>).map(row => {
+            const stored: ProductVariant = JSON.parse(row.data);
+            return [stored.id, stored.inventoryItem?.inventoryLevels] as const;
+          }),
+        );
+
+        deleteVariants.run(product.id);
+        for (const { node: variant } of variants?.edges || []) {
+          if (!variant?.id) continue;
+          const stored = storedLevels.get(variant.id);
+          if (stored && variant.inventoryItem && !variant.inventoryItem.inventoryLevels) {
+            variant.inventoryItem.inventoryLevels = stored;
+          }
+          insertVariant.run({
+            id: variant.id,
+            product_id: product.id,
+            title: variant.title || null,
+            sku: variant.sku || null,
+            price: variant.price || null,
+            compare_at_price: variant.compareAtPrice || null,
+            inventory_quantity: variant.inventoryQuantity || 0,
+            inventory_item_id: variant.inventoryItem?.id || null,
+            tracked: variant.inventoryItem?.tracked ? 1 : 0,
+            data: JSON.stringify(variant),
+          });
+        }
+      }
+
+      return products.length;
+    });
+  }
+
+  /**
+   * Apply an inventory level change to the variant holding an inventory item.
+   * When the previous level at that location is known, from the stored levels or the caller,
+   * the change is applied as a delta, since variant quantities are totals across locations.
+   * Otherwise only the location's level is recorded and the total is left as it was.
+   */
+  updateVariantInventory(
+    inventoryItemId: string,
+    locationId: string,
+    available: number,
+    previousLevel: number | null,
+    updatedAt?: string,
+  ): InventoryUpdateResult {
+    const db = this.databaseService.getConnection();
+
+    return this.databaseService.transaction(() => {
+      const variant = db
+        .prepare('SELECT id, product_id, inventory_quantity, data FROM variants WHERE inventory_item_id = ?')
+        .get(inventoryItemId) as { id: string; product_id: string; inventory_quantity: number; data: string };
+      if (!variant) return 'not_found';
+
+      const data: ProductVariant = JSON.parse(variant.data);
+      const previous = setAvailableAtLocation(data, locationId, available, updatedAt) ?? previousLevel;
+      const quantity = previous !== null ? variant.inventory_quantity + (available - previous) : variant.inventory_quantity;
+      data.inventoryQuantity = quantity;
+
+      this.saveVariantInventory(variant.id, variant.product_id, data);
+      return previous !== null ? 'updated' : 'level_only';
+    });
+  }
+
+  /**
+   * Replace the per-location levels of the variant holding an inventory item with levels fetched
+   * from Shopify, and its quantity with their total. Returns false when no variant holds the item.
+   */
+  replaceVariantInventoryLevels(inventoryItemId: string, levels: Connection<InventoryLevel>): boolean {
+    const db = this.databaseService.getConnection();
+
+    return this.databaseService.transaction(() => {
+      const variant = db
+        .prepare('SELECT id, product_id, data FROM variants WHERE inventory_item_id = ?')
+        .get(inventoryItemId) as { id: string; product_id: string; data: string };
+      if (!variant) return false;
+
+      const data: ProductVariant = JSON.parse(variant.data);
+      replaceInventoryLevels(data, levels);
+
+      this.saveVariantInventory(variant.id, variant.product_id, data);
+      return true;
+    });
+  }
+
+  /**
+   * Replace the per-location levels and quantities of every variant holding one of the inventory
+   * items, as fetched from Shopify for all locations. Returns the number of variants updated.
+   */
+  replaceAllInventoryLevels(levelsByItem: Map<string, Connection<InventoryLevel>>): number {
+    return this.databaseService.transaction(() => {
+      let replaced = 0;
+      for (const [inventoryItemId, levels] of levelsByItem) {
+        if (this.replaceVariantInventoryLevels(inventoryItemId, levels)) replaced++;
+      }
+      return replaced;
+    });
+  }
+
+  /**
+   * Get all stored products
+   */
+  findAll(): ShopifyProduct[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare('SELECT id, data FROM products ORDER BY title')
+      .all() as ProductRow[];
+
+    return this.hydrate(rows);
+  }
+
+  /**
+   * Get stored variants, optionally of one product
+   */
+  findVariants(productId?: string): ProductVariant[] {
+    const db = this.databaseService.getConnection();
+    const rows = (
+      productId
+        ? db.prepare('SELECT product_id, data FROM variants WHERE product_id = ? ORDER BY rowid').all(productId)
+        : db.prepare('SELECT product_id, data FROM variants ORDER BY rowid').all()
+    ) as VariantRow[];
+
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Count stored products
+   */
+  count(): number {
+    const row = this.databaseService.getConnection().prepare('SELECT COUNT(*) AS count FROM products').get() as {
+      count: number;
+    };
+    return row.count;
+  }
+
+  /**
+   * Write a variant's inventory and recompute its product's total
+   */
+  private saveVariantInventory(variantId: string, productId: string, variant: ProductVariant): void {
+    const db = this.databaseService.getConnection();
+
+    db.prepare('UPDATE variants SET inventory_quantity = ?, data = ? WHERE id = ?').run(
+      variant.inventoryQuantity,
+      JSON.stringify(variant),
+      variantId,
+    );
+    db.prepare(
+      `UPDATE products SET total_inventory = (
+         SELECT COALESCE(SUM(inventory_quantity), 0) FROM variants WHERE product_id = @id
+       ) WHERE id = @id`,
+    ).run({ id: productId });
+  }
+
+  private hydrate(rows: ProductRow[]): ShopifyProduct[] {
+    if (rows.length === 0) return [];
+
+    const variantRows = this.databaseService
+      .getConnection()
+      .prepare('SELECT product_id, data FROM variants ORDER BY rowid')
+      .all() as VariantRow[];
+
+    const variantsByProduct = new Map<string, ProductVariant[]>();
+    for (const row of variantRows) {
+      if (!variantsByProduct.has(row.product_id)) variantsByProduct.set(row.product_id, []);
+      variantsByProduct.get(row.product_id).push(JSON.parse(row.data));
+    }
+
+    return rows.map(row => {
+      const product = JSON.parse(row.data);
+      const variants = variantsByProduct.get(row.id) || [];
+
+      return {
+        ...product,
+        totalInventory: variants.reduce((sum, variant) => sum + (variant.inventoryQuantity || 0), 0),
+        variants: {
+          edges: variants.map(variant => ({ cursor: variant.id, node: variant })),
+          pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        },
+      };
+    });
+  }
+
+  private toUtc(timestamp: string | undefined): string | null {
+    return timestamp ? new Date(timestamp).toISOString() : null;
+  }
+}
@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { ReportSchedule, ReportStatus } from '@interfaces/report.interface';
+
+interface ReportScheduleRow {
+  id: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  recipients: string;
+  sections: string;
+  period_days: number;
+  attach_pdf: number;
+  enabled: number;
+  last_run_at: string | null;
+  last_status: ReportStatus | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Report schedules. The next run is not stored; it follows from the cron expression.
+ */
+@Injectable()
+export class ReportScheduleRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert a schedule, or replace the schedule with the same id
+   */
+  save(schedule: ReportSchedule): ReportSchedule {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO report_schedules (
+           id, name, cron, timezone, recipients, sections, period_days, attach_pdf, enabled,
+           last_run_at, last_status, created_at, updated_at
+         ) VALUES (
+           @id, @name, @cron, @timezone, @recipients, @sections, @period_days, @attach_pdf, @enabled,
+           @last_run_at, @last_status, @created_at, @updated_at
+         )
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           cron = excluded.cron,
+           timezone = excluded.timezone,
+           recipients = excluded.recipients,
+           sections = excluded.sections,
+           period_days = excluded.period_days,
+           attach_pdf = excluded.attach_pdf,
+           enabled = excluded.enabled,
+           updated_at = excluded.updated_at`,
+      )
+      .run({
+        id: schedule.id,
+        name: schedule.name,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        recipients: JSON.stringify(schedule.recipients),
+        sections: JSON.stringify(schedule.sections),
+        period_days: schedule.periodDays,
+        attach_pdf: schedule.attachPdf ? 1 : 0,
+        enabled: schedule.enabled ? 1 : 0,
+        last_run_at: schedule.lastRunAt,
+        last_status: schedule.lastStatus,
+        created_at: schedule.createdAt,
+        updated_at: schedule.updatedAt,
+      });
+
+    return this.findById(schedule.id);
+  }
+
+  /**
+   * Record when a schedule last ran and how it went
+   */
+  markRun(id: string, runAt: string, status: ReportStatus): void {
+    this.databaseService
+      .getConnection()
+      .prepare('UPDATE report_schedules SET last_run_at = ?, last_status = ? WHERE id = ?')
+      .run(runAt, status, id);
+  }
+
+  /**
+   * Find a schedule by id
+   */
+  findById(id: string): ReportSchedule | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM report_schedules WHERE id = ?')
+      .get(id) as ReportScheduleRow;
+
+    return row ? this.toSchedule(row) : null;
+  }
+
+  /**
+   * Find every schedule, optionally only the enabled ones, by name
+   */
+  findAll(enabledOnly = false): ReportSchedule[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT * FROM report_schedules ${enabledOnly ? 'WHERE enabled = 1' : ''} ORDER BY name`)
+      .all() as ReportScheduleRow[];
+
+    return rows.map(row => this.toSchedule(row));
+  }
+
+  /**
+   * Delete a schedule by id; its generated reports are kept
+   */
+  delete(id: string): boolean {
+    const result = this.databaseService.getConnection().prepare('DELETE FROM report_schedules WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  private toSchedule(row: ReportScheduleRow): ReportSchedule {
+    return {
+      id: row.id,
+      name: row.name,
+      cron: row.cron,
+      timezone: row.timezone,
+      recipients: JSON.parse(row.recipients),
+      sections: JSON.parse(row.sections),
+      periodDays: row.period_days,
+      attachPdf: row.attach_pdf === 1,
+      enabled: row.enabled === 1,
+      lastRunAt: row.last_run_at,
+      lastStatus: row.last_status,
+      nextRunAt: null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { SalesRep, SalesRepFilters, CustomerAssignment } from '@interfaces/sales-rep.interface';
+
+interface SalesRepRow {
+  id: string;
+  display_name: string;
+  email: string | null;
+  team: string | null;
+  region: string | null;
+  start_date: string | null;
+  staff_member_id: string | null;
+  discount_codes: string;
+  active: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AssignmentRow {
+  customer_id: string;
+  rep_id: string;
+  share: number;
+  created_at: string;
+}
+
+/**
+ * Sales rep directory and the customer accounts assigned to each rep
+ */
+@Injectable()
+export class SalesRepRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert a rep or replace an existing rep with the same id
+   */
+  save(rep: SalesRep): SalesRep {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO sales_reps (
+           id, display_name, email, team, region, start_date, staff_member_id, discount_codes, active, created_at, updated_at
+         ) VALUES (
+           @id, @display_name, @email, @team, @region, @start_date, @staff_member_id, @discount_codes, @active, @created_at, @updated_at
+         )
+         ON CONFLICT (id) DO UPDATE SET
+           display_name = excluded.display_name,
+           email = excluded.email,
+           team = excluded.team,
+           region = excluded.region,
+           start_date = excluded.start_date,
+           staff_member_id = excluded.staff_member_id,
+           discount_codes = excluded.discount_codes,
+           active = excluded.active,
+           updated_at = excluded.updated_at`,
+      )
+      .run({
+        id: rep.id,
+        display_name: rep.displayName,
+        email: rep.email,
+        team: rep.team,
+        region: rep.region,
+        start_date: rep.startDate,
+        staff_member_id: rep.staffMemberId,
+        discount_codes: JSON.stringify(rep.discountCodes),
+        active: rep.active ? 1 : 0,
+        created_at: rep.createdAt,
+        updated_at: rep.updatedAt,
+      });
+
+    return this.findById(rep.id);
+  }
+
+  /**
+   * Find a rep by id
+   */
+  findById(id: string): SalesRep | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM sales_reps WHERE id = ?')
+      .get(id) as SalesRepRow;
+
+    return row ? this.toRep(row) : null;
+  }
+
+  /**
+   * Find reps matching the filters, ordered by display name
+   */
+  find(filters: SalesRepFilters = {}): SalesRep[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (filters.active !== undefined) {
+      conditions.push('active = @active');
+      params.active = filters.active ? 1 : 0;
+    }
+    if (filters.team) {
+      conditions.push('team = @team');
+      params.team = filters.team;
+    }
+    if (filters.region) {
+      conditions.push('region = @region');
+      params.region = filters.region;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT * FROM sales_reps ${where} ORDER BY display_name, id`)
+      .all(params) as SalesRepRow[];
+
+    return rows.map(row => this.toRep(row));
+  }
+
+  /**
+   * Delete a rep and its customer assignments
+   */
+  delete(id: string): boolean {
+    const result = this.databaseService.getConnection().prepare('DELETE FROM sales_reps WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Replace the reps assigned to a customer
+   */
+  replaceAssignments(customerId: string, assignments: CustomerAssignment[]): CustomerAssignment[] {
+    const db = this.databaseService.getConnection();
+
+    this.databaseService.transaction(() => {
+      db.prepare('DELETE FROM rep_customer_assignments WHERE customer_id = ?').run(customerId);
+
+      const insert = db.prepare(
+        `INSERT INTO rep_customer_assignments (customer_id, rep_id, share, created_at)
+         VALUES (@customer_id, @rep_id, @share, @created_at)`,
+      );
+      for (const assignment of assignments) {
+        insert.run({
+          customer_id: assignment.customerId,
+          rep_id: assignment.repId,
+          share: assignment.share,
+          created_at: assignment.createdAt,
+        });
+      }
+    });
+
+    return this.findAssignments({ customerId });
+  }
+
+  /**
+   * Find customer assignments, optionally for one customer or rep
+   */
+  findAssignments(filters: { customerId?: string; repId?: string } = {}): CustomerAssignment[] {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (filters.customerId) {
+      conditions.push('customer_id = @customerId');
+      params.customerId = filters.customerId;
+    }
+    if (filters.repId) {
+      conditions.push('rep_id = @repId');
+      params.repId = filters.repId;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT * FROM rep_customer_assignments ${where} ORDER BY customer_id, share DESC, rep_id`)
+      .all(params) as AssignmentRow[];
+
+    return rows.map(row => ({
+      customerId: row.customer_id,
+      repId: row.rep_id,
+      share: row.share,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private toRep(row: SalesRepRow): SalesRep {
+    return {
+      id: row.id,
+      displayName: row.display_name,
+      email: row.email,
+      team: row.team,
+      region: row.region,
+      startDate: row.start_date,
+      staffMemberId: row.staff_member_id,
+      discountCodes: JSON.parse(row.discount_codes || '[]'),
+      active: row.active === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { StoresModule } from '../stores/stores.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { DatabaseService } from './database.service';
+import { OrderRepository } from './order.repository';
+import { ProductRepository } from './product.repository';
+import { CustomerRepository } from './customer.repository';
+import { SyncWriterService } from './sync-writer.service';
+import { SyncStateRepository } from './sync-state.repository';
+import { ApiKeyRepository } from './api-key.repository';
+import { TargetRepository } from './target.repository';
+import { SalesRepRepository } from './sales-rep.repository';
+import { ExchangeRateRepository } from './exchange-rate.repository';
+import { CostOverrideRepository } from './cost-override.repository';
+import { SupplierSettingsRepository } from './supplier-settings.repository';
+import { LocationSettingsRepository } from './location-settings.repository';
+import { AlertRuleRepository } from './alert-rule.repository';
+import { AlertRepository } from './alert.repository';
+import { NotificationChannelRepository } from './notification-channel.repository';
+import { NotificationDeliveryRepository } from './notification-delivery.repository';
+import { ReportScheduleRepository } from './report-schedule.repository';
+import { GeneratedReportRepository } from './generated-report.repository';
+
+@Module({
+  imports: [ConfigModule, StoresModule, RealtimeModule],
+  providers: [
+    DatabaseService,
+    OrderRepository,
+    ProductRepository,
+    CustomerRepository,
+    SyncWriterService,
+    SyncStateRepository,
+    ApiKeyRepository,
+    TargetRepository,
+    SalesRepRepository,
+    ExchangeRateRepository,
+    CostOverrideRepository,
+    SupplierSettingsRepository,
+    LocationSettingsRepository,
+    AlertRuleRepository,
+    AlertRepository,
+    NotificationChannelRepository,
+    NotificationDeliveryRepository,
+    ReportScheduleRepository,
+    GeneratedReportRepository,
+  ],
+  exports: [
+    DatabaseService,
+    OrderRepository,
+    ProductRepository,
+    CustomerRepository,
+    SyncWriterService,
+    SyncStateRepository,
+    ApiKeyRepository,
+    TargetRepository,
+    SalesRepRepository,
+    ExchangeRateRepository,
+    CostOverrideRepository,
+    SupplierSettingsRepository,
+    LocationSettingsRepository,
+    AlertRuleRepository,
+    AlertRepository,
+    NotificationChannelRepository,
+    NotificationDeliveryRepository,
+    ReportScheduleRepository,
+    GeneratedReportRepository,
+  ],
+})
+export class StorageModule {}
@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { SupplierSettings } from '@interfaces/planning.interface';
+
+interface SupplierSettingsRow {
+  id: string;
+  vendor: string;
+  lead_time_days: number;
+  lead_time_std_dev_days: number;
+  min_order_quantity: number;
+  case_pack: number;
+  review_cycle_days: number;
+  service_level: number;
+  contact_email: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Replenishment terms per supplier. Vendors match case-insensitively.
+ */
+@Injectable()
+export class SupplierSettingsRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert settings, or replace the settings of the same vendor
+   */
+  upsert(settings: SupplierSettings): SupplierSettings {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO supplier_settings (
+           id, vendor, lead_time_days, lead_time_std_dev_days, min_order_quantity, case_pack, review_cycle_days,
+           service_level, contact_email, notes, created_at, updated_at
+         ) VALUES (
+           @id, @vendor, @lead_time_days, @lead_time_std_dev_days, @min_order_quantity, @case_pack, @review_cycle_days,
+           @service_level, @contact_email, @notes, @created_at, @updated_at
+         )
+         ON CONFLICT (vendor) DO UPDATE SET
+           vendor = excluded.vendor,
+           lead_time_days = excluded.lead_time_days,
+           lead_time_std_dev_days = excluded.lead_time_std_dev_days,
+           min_order_quantity = excluded.min_order_quantity,
+           case_pack = excluded.case_pack,
+           review_cycle_days = excluded.review_cycle_days,
+           service_level = excluded.service_level,
+           contact_email = excluded.contact_email,
+           notes = excluded.notes,
+           updated_at = excluded.updated_at`,
+      )
+      .run(this.toRow(settings));
+
+    return this.findByVendor(settings.vendor);
+  }
+
+  /**
+   * Update settings by id
+   */
+  update(settings: SupplierSettings): SupplierSettings | null {
+    const result = this.databaseService
+      .getConnection()
+      .prepare(
+        `UPDATE supplier_settings SET
+           vendor = @vendor, lead_time_days = @lead_time_days, lead_time_std_dev_days = @lead_time_std_dev_days,
+           min_order_quantity = @min_order_quantity, case_pack = @case_pack, review_cycle_days = @review_cycle_days,
+           service_level = @service_level, contact_email = @contact_email, notes = @notes, updated_at = @updated_at
+         WHERE id = @id`,
+      )
+      .run(this.toRow(settings));
+
+    return result.changes > 0 ? this.findById(settings.id) : null;
+  }
+
+  /**
+   * Find settings by id
+   */
+  findById(id: string): SupplierSettings | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM supplier_settings WHERE id = ?')
+      .get(id) as SupplierSettingsRow;
+
+    return row ? this.toSettings(row) : null;
+  }
+
+  /**
+   * Find the settings of a vendor
+   */
+  findByVendor(vendor: string): SupplierSettings | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM supplier_settings WHERE vendor = ?')
+      .get(vendor) as SupplierSettingsRow;
+
+    return row ? this.toSettings(row) : null;
+  }
+
+  /**
+   * Find the settings of every vendor, by vendor
+   */
+  findAll(): SupplierSettings[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM supplier_settings ORDER BY vendor')
+      .all() as SupplierSettingsRow[];
+
+    return rows.map(row => this.toSettings(row));
+  }
+
+  /**
+   * Delete settings by id
+   */
+  delete(id: string): boolean {
+    const result = this.databaseService.getConnection().prepare('DELETE FROM supplier_settings WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  private toRow(settings: SupplierSettings) {
+    return {
+      id: settings.id,
+      vendor: settings.vendor,
+      lead_time_days: settings.leadTimeDays,
+      lead_time_std_dev_days: settings.leadTimeStdDevDays,
+      min_order_quantity: settings.minOrderQuantity,
+      case_pack: settings.casePack,
+      review_cycle_days: settings.reviewCycleDays,
+      service_level: settings.serviceLevel,
+      contact_email: settings.contactEmail,
+      notes: settings.notes,
+      created_at: settings.createdAt,
+      updated_at: settings.updatedAt,
+    };
+  }
+
+  private toSettings(row: SupplierSettingsRow): SupplierSettings {
+    return {
+      id: row.id,
+      vendor: row.vendor,
+      leadTimeDays: row.lead_time_days,
+      leadTimeStdDevDays: row.lead_time_std_dev_days,
+      minOrderQuantity: row.min_order_quantity,
+      casePack: row.case_pack,
+      reviewCycleDays: row.review_cycle_days,
+      serviceLevel: row.service_level,
+      contactEmail: row.contact_email,
+      notes: row.notes,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
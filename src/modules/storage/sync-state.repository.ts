@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { SyncResource, SyncResourceState } from '@interfaces/shopify.interface';
+
+interface SyncStateRow {
+  resource: SyncResource;
+  watermark: string | null;
+  cursor: string | null;
+  cursor_watermark: string | null;
+  pending_watermark: string | null;
+  last_status: SyncResourceState['lastStatus'];
+  last_error: string | null;
+  last_started_at: string | null;
+  last_completed_at: string | null;
+  last_run_records: number;
+  total_records: number;
+  updated_at: string;
+}
+
+/**
+ * Per-resource incremental sync watermarks and pagination cursors
+ */
+@Injectable()
+export class SyncStateRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Get the sync state for a resource, or a blank state if it has never synced
+   */
+  get(resource: SyncResource): SyncResourceState {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM sync_state WHERE resource = ?')
+      .get(resource) as SyncStateRow;
+
+    return row ? this.toState(row) : this.emptyState(resource);
+  }
+
+  /**
+   * Get the sync state of every resource that has synced at least once
+   */
+  findAll(): SyncResourceState[] {
+    const rows = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM sync_state ORDER BY resource')
+      .all() as SyncStateRow[];
+
+    return rows.map(row => this.toState(row));
+  }
+
+  /**
+   * Persist the sync state for a resource
+   */
+  save(state: SyncResourceState): void {
+    this.databaseService
+      .getConnection()
+      .prepare(
+        `INSERT INTO sync_state (
+           resource, watermark, cursor, cursor_watermark, pending_watermark, last_status, last_error,
+           last_started_at, last_completed_at, last_run_records, total_records, updated_at
+         ) VALUES (
+           @resource, @watermark, @cursor, @cursor_watermark, @pending_watermark, @last_status, @last_error,
+           @last_started_at, @last_completed_at, @last_run_records, @total_records, @updated_at
+         )
+         ON CONFLICT (resource) DO UPDATE SET
+           watermark = excluded.watermark,
+           cursor = excluded.cursor,
+           cursor_watermark = excluded.cursor_watermark,
+           pending_watermark = excluded.pending_watermark,
+           last_status = excluded.last_status,
+           last_error = excluded.last_error,
+           last_started_at = excluded.last_started_at,
+           last_completed_at = excluded.last_completed_at,
+           last_run_records = excluded.last_run_records,
+           total_records = excluded.total_records,
+           updated_at = excluded.updated_at`,
+      )
+      .run({
+        resource: state.resource,
+        watermark: state.watermark,
+        cursor: state.cursor,
+        cursor_watermark: state.cursorWatermark,
+        pending_watermark: state.pendingWatermark,
+        last_status: state.lastStatus,
+        last_error: state.lastError,
+        last_started_at: state.lastStartedAt,
+        last_completed_at: state.lastCompletedAt,
+        last_run_records: state.lastRunRecords,
+        total_records: state.totalRecords,
+        updated_at: new Date().toISOString(),
+      });
+  }
+
+  /**
+   * Forget the watermark and cursor for a resource so the next run starts over
+   */
+  reset(resource: SyncResource): void {
+    this.databaseService.getConnection().prepare('DELETE FROM sync_state WHERE resource = ?').run(resource);
+  }
+
+  private toState(row: SyncStateRow): SyncResourceState {
+    return {
+      resource: row.resource,
+      watermark: row.watermark,
+      cursor: row.cursor,
+      cursorWatermark: row.cursor_watermark,
+      pendingWatermark: row.pending_watermark,
+      lastStatus: row.last_status,
+      lastError: row.last_error,
+      lastStartedAt: row.last_started_at,
+      lastCompletedAt: row.last_completed_at,
+      lastRunRecords: row.last_run_records,
+      totalRecords: row.total_records,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private emptyState(resource: SyncResource): SyncResourceState {
+    return {
+      resource,
+      watermark: null,
+      cursor: null,
+      cursorWatermark: null,
+      pendingWatermark: null,
+      lastStatus: 'never',
+      lastError: null,
+      lastStartedAt: null,
+      lastCompletedAt: null,
+      lastRunRecords: 0,
+      totalRecords: 0,
+      updatedAt: null,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { OrderRepository } from './order.repository';
+import { ProductRepository } from './product.repository';
+import { CustomerRepository } from './customer.repository';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
+import { ShopifyOrder, ShopifyProduct, ShopifyCustomer } from '@interfaces/shopify.interface';
+
+export interface SyncBatch {
+  orders?: ShopifyOrder[];
+  products?: ShopifyProduct[];
+  customers?: ShopifyCustomer[];
+}
+
+export interface SyncWriteResult {
+  source: string;
+  ordersWritten: number;
+  productsWritten: number;
+  customersWritten: number;
+  durationMs: number;
+}
+
+const ORDERS_COVERAGE_START_KEY = 'orders_coverage_start';
+const ORDERS_COVERAGE_END_KEY = 'orders_coverage_end';
+// Orders first stored long after they were placed (e.g. by the first sync) are not pushed as new
+const NEW_ORDER_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Writes fetched Shopify data into the analytics store
+ */
+@Injectable()
+export class SyncWriterService {
+  private readonly logger = new Logger(SyncWriterService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly orderRepository: OrderRepository,
+    private readonly productRepository: ProductRepository,
+    private readonly customerRepository: CustomerRepository,
+    private readonly realtimeEvents: RealtimeEventsService,
+  ) {}
+
+  /**
+   * Upsert a batch of records. Re-writing the same records is safe. Recent orders stored
+   * for the first time are pushed to real-time subscribers, except during backfills.
+   */
+  writeBatch(batch: SyncBatch, source: string): SyncWriteResult {
+    const startTime = Date.now();
+
+    try {
+      let newOrders: ShopifyOrder[] = [];
+      const result = this.databaseService.transaction(() => {
+        if (source !== 'backfill') {
+          newOrders = this.findNewOrders(batch.orders || []);
+        }
+
+        return {
+          ordersWritten: this.orderRepository.upsertOrders(batch.orders || []),
+          productsWritten: this.productRepository.upsertProducts(batch.products || []),
+          customersWritten: this.customerRepository.upsertCustomers(batch.customers || []),
+        };
+      });
+
+      for (const order of newOrders) {
+        this.realtimeEvents.publish('orders', 'order.created', {
+          id: order.id,
+          name: order.name,
+          createdAt: order.createdAt,
+          total: order.totalPriceSet?.shopMoney || null,
+          sourceName: order.sourceName || null,
+          customerId: order.customer?.id || null,
+          itemCount: (order.lineItems?.edges || []).reduce((count, { node }) => count + (node.quantity || 0), 0),
+          source,
+        });
+      }
+
+      const writeResult = { source, ...result, durationMs: Date.now() - startTime };
+      this.logger.debug(
+        `Stored ${result.ordersWritten} orders, ${result.productsWritten} products, ${result.customersWritten} customers from ${source} in ${writeResult.durationMs}ms`,
+      );
+
+      return writeResult;
+    } catch (error) {
+      this.logger.error(`Failed to write ${source} batch to analytics store:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that every order created within [from, to] has been stored.
+   * Overlapping windows extend the covered range; after a gap only the newer window is trusted.
+   */
+  recordOrdersWindow(from: Date, to: Date): void {
+    const coverage = this.getOrdersCoverage();
+
+    let next: { start: Date; end: Date } | null = null;
+    if (!coverage) {
+      next = { start: from, end: to };
+    } else if (from <= coverage.end && to >= coverage.start) {
+      next = {
+        start: from < coverage.start ? from : coverage.start,
+        end: to > coverage.end ? to : coverage.end,
+      };
+    } else if (to > coverage.end) {
+      this.logger.warn(`Order history gap detected before ${from.toISOString()}, coverage restarted`);
+      next = { start: from, end: to };
+    }
+
+    if (next) {
+      this.databaseService.setMetadata(ORDERS_COVERAGE_START_KEY, next.start.toISOString());
+      this.databaseService.setMetadata(ORDERS_COVERAGE_END_KEY, next.end.toISOString());
+    }
+  }
+
+  /**
+   * The contiguous range of order creation times known to be fully stored
+   */
+  getOrdersCoverage(): { start: Date; end: Date } | null {
+    const start = this.databaseService.getMetadata(ORDERS_COVERAGE_START_KEY);
+    const end = this.databaseService.getMetadata(ORDERS_COVERAGE_END_KEY);
+    return start && end ? { start: new Date(start), end: new Date(end) } : null;
+  }
+
+  /**
+   * Whether stored orders fully cover a date range. Ranges reaching past the last sync
+   * are accepted within the tolerance, since webhooks keep recent orders current.
+   */
+  coversOrderRange(start: Date, end: Date, toleranceMs: number = 60 * 60 * 1000): boolean {
+    const coverage = this.getOrdersCoverage();
+    if (!coverage || start < coverage.start) return false;
+
+    const effectiveEnd = end.getTime() > Date.now() ? Date.now() : end.getTime();
+    return effectiveEnd <= coverage.end.getTime() + toleranceMs;
+  }
+
+  private findNewOrders(orders: ShopifyOrder[]): ShopifyOrder[] {
+    const since = Date.now() - NEW_ORDER_MAX_AGE_MS;
+    const recent = orders.filter(order => new Date(order.createdAt).getTime() >= since);
+    const existing = this.orderRepository.findExistingIds(recent.map(order => order.id));
+    return recent.filter(order => !existing.has(order.id));
+  }
+}
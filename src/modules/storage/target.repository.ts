@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { DatabaseService } from './database.service';
+import { SalesTarget, SalesTargetFilters, TargetScope, TargetPeriodType } from '@interfaces/target.interface';
+
+interface TargetRow {
+  id: string;
+  scope: TargetScope;
+  scope_value: string;
+  period: string;
+  period_type: TargetPeriodType;
+  period_start: string;
+  period_end: string;
+  amount: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Sales targets. Company-wide targets are stored with an empty scope value
+ * so the (scope, scope_value, period) uniqueness constraint applies to them too.
+ */
+@Injectable()
+export class TargetRepository {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Insert a target, or replace the amount and notes of the existing target
+   * for the same scope, scope value and period
+   */
+  upsert(target: SalesTarget): SalesTarget {
+    const db = this.databaseService.getConnection();
+
+    db.prepare(
+      `INSERT INTO sales_targets (
+         id, scope, scope_value, period, period_type, period_start, period_end, amount, notes, created_at, updated_at
+       ) VALUES (
+         @id, @scope, @scope_value, @period, @period_type, @period_start, @period_end, @amount, @notes, @created_at, @updated_at
+       )
+       ON CONFLICT (scope, scope_value, period) DO UPDATE SET
+         amount = excluded.amount,
+         notes = excluded.notes,
+         updated_at = excluded.updated_at`,
+    ).run(this.toRow(target));
+
+    return this.findByKey(target.scope, target.scopeValue, target.period);
+  }
+
+  /**
+   * Update a target by id
+   */
+  update(target: SalesTarget): SalesTarget | null {
+    const result = this.databaseService
+      .getConnection()
+      .prepare(
+        `UPDATE sales_targets SET
+           scope = @scope, scope_value = @scope_value, period = @period, period_type = @period_type,
+           period_start = @period_start, period_end = @period_end, amount = @amount, notes = @notes,
+           updated_at = @updated_at
+         WHERE id = @id`,
+      )
+      .run(this.toRow(target));
+
+    return result.changes > 0 ? this.findById(target.id) : null;
+  }
+
+  /**
+   * Find a target by id
+   */
+  findById(id: string): SalesTarget | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM sales_targets WHERE id = ?')
+      .get(id) as TargetRow;
+
+    return row ? this.toTarget(row) : null;
+  }
+
+  /**
+   * Find the target for a scope, scope value and period key
+   */
+  findByKey(scope: TargetScope, scopeValue: string | null, period: string): SalesTarget | null {
+    const row = this.databaseService
+      .getConnection()
+      .prepare('SELECT * FROM sales_targets WHERE scope = ? AND scope_value = ? AND period = ?')
+      .get(scope, scopeValue || '', period) as TargetRow;
+
+    return row ? this.toTarget(row) : null;
+  }
+
+  /**
+   * Find targets matching the filters, ordered by period
+   */
+  find(filters: SalesTargetFilters = {}): SalesTarget[] {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    if (filters.scope) {
+      conditions.push('scope = @scope');
+      params.scope = filters.scope;
+    }
+    if (filters.scopeValue !== undefined) {
+      conditions.push('scope_value = @scopeValue');
+      params.scopeValue = filters.scopeValue;
+    }
+    if (filters.periodType) {
+      conditions.push('period_type = @periodType');
+      params.periodType = filters.periodType;
+    }
+    if (filters.from) {
+      conditions.push('period_end >= @from');
+      params.from = filters.from;
+    }
+    if (filters.to) {
+      conditions.push('period_start <= @to');
+      params.to = filters.to;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.databaseService
+      .getConnection()
+      .prepare(`SELECT * FROM sales_targets ${where} ORDER BY period_start, scope, scope_value`)
+      .all(params) as TargetRow[];
+
+    return rows.map(row => this.toTarget(row));
+  }
+
+  /**
+   * Delete a target by id
+   */
+  delete(id: string): boolean {
+    const result = this.databaseService.getConnection().prepare('DELETE FROM sales_targets WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  private toRow(target: SalesTarget) {
+    return {
+      id: target.id,
+      scope: target.scope,
+      scope_value: target.scopeValue || '',
+      period: target.period,
+      period_type: target.periodType,
+      period_start: target.periodStart,
+      period_end: target.periodEnd,
+      amount: target.amount,
+      notes: target.notes,
+      created_at: target.createdAt,
+      updated_at: target.updatedAt,
+    };
+  }
+
+  private toTarget(row: TargetRow): SalesTarget {
+    return {
+      id: row.id,
+      scope: row.scope,
+      scopeValue: row.scope_value || null,
+      period: row.period,
+      periodType: row.period_type,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      amount: row.amount,
+      notes: row.notes,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import { Injectable, Inject, ExecutionContext } from '@nestjs/common';
+import { CacheInterceptor, CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Reflector } from '@nestjs/core';
+import { StoreContextService } from './store-context.service';
+
+/**
+ * Response cache keyed by store as well as URL, since the store is usually
+ * chosen by header and the same URL returns different data per store
+ */
+@Injectable()
+export class StoreCacheInterceptor extends CacheInterceptor {
+  constructor(
+    @Inject(CACHE_MANAGER) cacheManager: any,
+    reflector: Reflector,
+    private readonly storeContext: StoreContextService,
+  ) {
+    super(cacheManager, reflector);
+  }
+
+  protected trackBy(context: ExecutionContext): string | undefined {
+    const key = super.trackBy(context);
+    return key ? `store:${this.storeContext.getStoreId()}:${key}` : key;
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, NestMiddleware, BadRequestException } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { StoreContextService } from './store-context.service';
+import { isValidTimeZone } from '@shared/time-zone';
+
+export const STORE_ID_HEADER = 'x-store-id';
+
+/**
+ * Runs each request in the context of the store named by the X-Store-Id header,
+ * or the storeId query parameter for clients that cannot set headers. A timezone
+ * query parameter counts the request's days in that time zone instead of the store's.
+ */
+@Injectable()
+export class StoreContextMiddleware implements NestMiddleware {
+  constructor(private readonly storeContext: StoreContextService) {}
+
+  use(req: Request, res: Response, next: NextFunction): void {
+    const header = req.headers[STORE_ID_HEADER];
+    const query = req.query?.storeId;
+    const storeId = (Array.isArray(header) ? header[0] : header) || (typeof query === 'string' ? query : undefined);
+    const timezone = typeof req.query?.timezone === 'string' ? req.query.timezone.trim() : undefined;
+
+    if (storeId !== undefined && !storeId.trim()) {
+      throw new BadRequestException('X-Store-Id must not be empty');
+    }
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      throw new BadRequestException('Invalid timezone. Use an IANA time zone such as America/New_York.');
+    }
+
+    const handle = () => (timezone ? this.storeContext.runWithTimezone(timezone, () => next()) : next());
+
+    if (storeId === undefined) {
+      handle();
+      return;
+    }
+
+    this.storeContext.run(storeId.trim(), handle);
+  }
+}
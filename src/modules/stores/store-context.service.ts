@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { StoreRegistryService } from './store-registry.service';
+import { StoreConfig } from '@interfaces/store.interface';
+import { zonedMoment } from '@shared/time-zone';
+import * as moment from 'moment-timezone';
+
+interface StoreContext {
+  storeId: string;
+  // Time zone requested for this request instead of the store's
+  timezone?: string;
+}
+
+/**
+ * Tracks which store the current request or job is working on, and the time zone it counts
+ * days in. Code running outside a store context (startup, unscoped jobs) sees the default store.
+ */
+@Injectable()
+export class StoreContextService {
+  private readonly storage = new AsyncLocalStorage<StoreContext>();
+
+  constructor(private readonly storeRegistry: StoreRegistryService) {}
+
+  /**
+   * Run a function, and everything it awaits, in the context of a store
+   */
+  run<T>(storeId: string, fn: () => T): T {
+    this.storeRegistry.getStore(storeId);
+    // A time zone requested for the request still applies when it switches store
+    return this.storage.run({ storeId, timezone: this.getTimezoneOverride() }, fn);
+  }
+
+  /**
+   * Run a function, and everything it awaits, counting days in another time zone
+   */
+  runWithTimezone<T>(timezone: string, fn: () => T): T {
+    return this.storage.run({ storeId: this.getStoreId(), timezone }, fn);
+  }
+
+  /**
+   * Run a function once per registered store, one store at a time
+   */
+  async forEachStore<T>(fn: (store: StoreConfig) => Promise<T>): Promise<Map<string, T>> {
+    const results = new Map<string, T>();
+
+    for (const store of this.storeRegistry.getStores()) {
+      results.set(store.id, await this.run(store.id, () => fn(store)));
+    }
+
+    return results;
+  }
+
+  /**
+   * Id of the current store
+   */
+  getStoreId(): string {
+    return this.storage.getStore()?.storeId || this.storeRegistry.getDefaultStore().id;
+  }
+
+  /**
+   * Configuration of the current store
+   */
+  getStore(): StoreConfig {
+    return this.storeRegistry.getStore(this.getStoreId());
+  }
+
+  /**
+   * IANA time zone the current request or job counts days, weeks and months in
+   */
+  getTimezone(): string {
+    return this.getTimezoneOverride() || this.storeRegistry.getTimezone(this.getStore());
+  }
+
+  /**
+   * A moment in the current time zone: now, or the given instant. Use it for anything that
+   * buckets by day, week, month or hour, or asks for "today".
+   */
+  moment(input?: moment.MomentInput): moment.Moment {
+    return zonedMoment(this.getTimezone(), input);
+  }
+
+  /**
+   * Time zone requested for the current request, if it asked for one
+   */
+  getTimezoneOverride(): string | undefined {
+    return this.storage.getStore()?.timezone;
+  }
+}
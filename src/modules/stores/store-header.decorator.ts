@@ -0,0 +1,20 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiHeader, ApiQuery } from '@nestjs/swagger';
+
+/**
+ * Documents the X-Store-Id header and timezone query parameter read by StoreContextMiddleware
+ */
+export const ApiStoreHeader = () =>
+  applyDecorators(
+    ApiHeader({
+      name: 'X-Store-Id',
+      required: false,
+      description: 'Store to use (see GET /stores). Defaults to the first store; the storeId query parameter also works.',
+    }),
+    ApiQuery({
+      name: 'timezone',
+      required: false,
+      type: 'string',
+      description: "IANA time zone to count days, weeks and months in (default: the store's time zone)",
+    }),
+  );
@@ -0,0 +1,213 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { dirname, extname, basename, join } from 'path';
+import { isValidTimeZone } from '@shared/time-zone';
+import { StoreConfig, StoreSummary } from '@interfaces/store.interface';
+
+const STORE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Registry of the Shopify stores this instance serves. Stores are read from the
+ * JSON file at SHOPIFY_STORES_FILE; without it the SHOPIFY_* variables define a
+ * single store. The first store is the default for requests without a store id.
+ */
+@Injectable()
+export class StoreRegistryService {
+  private readonly logger = new Logger(StoreRegistryService.name);
+  private readonly stores: StoreConfig[];
+  private readonly storesById: Map<string, StoreConfig>;
+  // Time zones reported by Shopify, used for stores without a configured one
+  private readonly shopTimezones = new Map<string, string>();
+
+  constructor(private readonly configService: ConfigService) {
+    const storesFile = this.configService.get<string>('config.stores.file');
+    this.stores = storesFile ? this.loadStoresFile(storesFile) : [this.buildEnvStore()];
+    this.storesById = new Map(this.stores.map(store => [store.id, store]));
+
+    this.logger.log(`Serving ${this.stores.length} store(s): ${this.stores.map(store => store.id).join(', ')}`);
+  }
+
+  /**
+   * All registered stores, default first
+   */
+  getStores(): StoreConfig[] {
+    return [...this.stores];
+  }
+
+  /**
+   * Get a store by id
+   */
+  getStore(storeId: string): StoreConfig {
+    const store = this.storesById.get(storeId);
+    if (!store) {
+      throw new NotFoundException(`Store ${storeId} is not registered`);
+    }
+    return store;
+  }
+
+  /**
+   * Check whether a store id is registered
+   */
+  hasStore(storeId: string): boolean {
+    return this.storesById.has(storeId);
+  }
+
+  /**
+   * The store used when no store id is given
+   */
+  getDefaultStore(): StoreConfig {
+    return this.stores[0];
+  }
+
+  /**
+   * Find the store a webhook came from by its X-Shopify-Shop-Domain header
+   */
+  findByShopDomain(shopDomain: string | undefined): StoreConfig | null {
+    const domain = (shopDomain || '').trim().toLowerCase();
+    return this.stores.find(store => store.shopDomain.toLowerCase() === domain) || null;
+  }
+
+  /**
+   * Record the time zone Shopify reports for a store
+   */
+  setShopTimezone(storeId: string, timezone: string): void {
+    if (!isValidTimeZone(timezone)) {
+      this.logger.warn(`Ignoring unknown time zone "${timezone}" reported for store ${storeId}`);
+      return;
+    }
+    this.shopTimezones.set(storeId, timezone);
+  }
+
+  /**
+   * Whether Shopify has reported a store's time zone yet
+   */
+  hasShopTimezone(storeId: string): boolean {
+    return this.shopTimezones.has(storeId);
+  }
+
+  /**
+   * The time zone a store's days are counted in: the configured one, else the shop's, else UTC
+   */
+  getTimezone(store: StoreConfig): string {
+    return store.timezone || this.shopTimezones.get(store.id) || 'UTC';
+  }
+
+  /**
+   * Store details without credentials
+   */
+  toSummary(store: StoreConfig): StoreSummary {
+    return {
+      id: store.id,
+      name: store.name,
+      shopDomain: store.shopDomain,
+      apiVersion: store.apiVersion,
+      currency: store.currency || null,
+      timezone: this.getTimezone(store),
+      timezoneSource: store.timezone ? 'config' : this.shopTimezones.has(store.id) ? 'shopify' : 'default',
+      syncCron: store.syncCron,
+      isDefault: store.id === this.getDefaultStore().id,
+    };
+  }
+
+  private buildEnvStore(): StoreConfig {
+    const shopify = this.configService.get('config.shopify');
+
+    return this.buildStore(
+      {
+        id: this.configService.get<string>('config.stores.defaultStoreId', 'default'),
+        shopDomain: shopify.shopDomain,
+        accessToken: shopify.accessToken,
+        apiVersion: shopify.apiVersion,
+        graphqlEndpoint: shopify.graphqlEndpoint,
+        webhookSecret: shopify.webhookSecret,
+      },
+      true,
+    );
+  }
+
+  private loadStoresFile(path: string): StoreConfig[] {
+    let entries: any;
+    try {
+      entries = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read stores file ${path}: ${error.message}`);
+    }
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new Error(`Stores file ${path} must contain a non-empty array of stores`);
+    }
+
+    const stores = entries.map((entry, index) => this.buildStore(entry, index === 0));
+    const ids = stores.map(store => store.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+      throw new Error(`Store id "${duplicate}" is registered more than once in ${path}`);
+    }
+
+    return stores;
+  }
+
+  /**
+   * Fill in defaults for a store entry. Credentials may reference an environment
+   * variable as "env:VARIABLE_NAME" to keep them out of the stores file.
+   */
+  private buildStore(entry: any, isDefault: boolean): StoreConfig {
+    const shopify = this.configService.get('config.shopify');
+    const id = String(entry?.id || '').trim();
+
+    if (!STORE_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid store id "${id}": use lowercase letters, digits, "_" or "-"`);
+    }
+    if (!entry.shopDomain) {
+      throw new Error(`Store ${id} has no shopDomain`);
+    }
+
+    const accessToken = this.resolveSecret(entry.accessToken);
+    if (!accessToken) {
+      throw new Error(`Store ${id} has no accessToken`);
+    }
+
+    const apiVersion = entry.apiVersion || shopify.apiVersion;
+
+    const timezone = entry.timezone || shopify.timezone || undefined;
+    if (timezone && !isValidTimeZone(timezone)) {
+      throw new Error(`Store ${id} has an unknown timezone "${timezone}": use an IANA name such as America/New_York`);
+    }
+
+    return {
+      id,
+      name: entry.name || entry.shopDomain,
+      shopDomain: entry.shopDomain,
+      accessToken,
+      apiVersion,
+      graphqlEndpoint: entry.graphqlEndpoint || `https://${entry.shopDomain}/admin/api/${apiVersion}/graphql.json`,
+      // Stores installed through the same app share its client secret
+      webhookSecret: this.resolveSecret(entry.webhookSecret) || shopify.webhookSecret,
+      currency: entry.currency ? String(entry.currency).toUpperCase() : undefined,
+      timezone,
+      syncCron: entry.syncCron || this.configService.get<string>('config.cron.shopifySync', '0 * * * * *'),
+      databasePath: entry.databasePath || this.getDatabasePath(id, isDefault),
+    };
+  }
+
+  /**
+   * The default store keeps DATABASE_PATH; other stores get a sibling file named after the store
+   */
+  private getDatabasePath(storeId: string, isDefault: boolean): string {
+    const databasePath = this.configService.get<string>('config.storage.databasePath', './data/analytics.db');
+    if (isDefault || databasePath === ':memory:') {
+      return databasePath;
+    }
+
+    const extension = extname(databasePath);
+    return join(dirname(databasePath), `${basename(databasePath, extension)}.${storeId}${extension}`);
+  }
+
+  private resolveSecret(value: string | undefined): string | undefined {
+    if (typeof value === 'string' && value.startsWith('env:')) {
+      return process.env[value.slice(4)];
+    }
+    return value;
+  }
+}
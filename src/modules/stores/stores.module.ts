@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { StoreRegistryService } from './store-registry.service';
+import { StoreContextService } from './store-context.service';
+import { StoreContextMiddleware } from './store-context.middleware';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [StoreRegistryService, StoreContextService, StoreContextMiddleware],
+  exports: [StoreRegistryService, StoreContextService, StoreContextMiddleware],
+})
+export class StoresModule {}
@@ -0,0 +1,173 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { SupplierSettingsRepository } from '../storage/supplier-settings.repository';
+import { ReplenishmentTerms, SupplierSettings, SupplierSettingsInput } from '@interfaces/planning.interface';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+@Injectable()
+export class SuppliersService {
+  private readonly logger = new Logger(SuppliersService.name);
+
+  constructor(
+    private readonly supplierSettingsRepository: SupplierSettingsRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * List the settings of every supplier
+   */
+  listSettings(): SupplierSettings[] {
+    return this.supplierSettingsRepository.findAll();
+  }
+
+  /**
+   * Get supplier settings by id
+   */
+  getSettings(id: string): SupplierSettings {
+    const settings = this.supplierSettingsRepository.findById(id);
+    if (!settings) {
+      throw new NotFoundException(`Supplier settings ${id} not found`);
+    }
+    return settings;
+  }
+
+  /**
+   * Create supplier settings, replacing any existing settings for the same vendor
+   */
+  saveSettings(input: SupplierSettingsInput): SupplierSettings {
+    const existing = input.vendor ? this.supplierSettingsRepository.findByVendor(input.vendor.trim()) : null;
+    const saved = this.supplierSettingsRepository.upsert(this.buildSettings(input, existing));
+
+    this.logger.log(`Saved supplier settings for ${saved.vendor}: ${saved.leadTimeDays} day lead time`);
+    return saved;
+  }
+
+  /**
+   * Update supplier settings by id
+   */
+  updateSettings(id: string, input: Partial<SupplierSettingsInput>): SupplierSettings {
+    const existing = this.getSettings(id);
+    const settings = this.buildSettings({ ...existing, ...this.definedFields(input) }, existing);
+
+    try {
+      return this.supplierSettingsRepository.update(settings);
+    } catch (error) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new BadRequestException(`Supplier settings for ${settings.vendor} already exist`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete supplier settings by id
+   */
+  deleteSettings(id: string): void {
+    if (!this.supplierSettingsRepository.delete(id)) {
+      throw new NotFoundException(`Supplier settings ${id} not found`);
+    }
+  }
+
+  /**
+   * Load the settings once and return the replenishment terms of a vendor, falling back to
+   * the configured defaults for vendors without settings
+   */
+  createTermsLookup(): (vendor: string) => ReplenishmentTerms {
+    const settings = new Map(
+      this.supplierSettingsRepository.findAll().map(entry => [entry.vendor.toLowerCase(), entry]),
+    );
+    const defaults = this.configService.get('config.planning');
+
+    return (vendor: string) => {
+      const entry = settings.get((vendor || '').toLowerCase());
+      if (entry) {
+        return {
+          vendor: entry.vendor,
+          configured: true,
+          leadTimeDays: entry.leadTimeDays,
+          leadTimeStdDevDays: entry.leadTimeStdDevDays,
+          minOrderQuantity: entry.minOrderQuantity,
+          casePack: entry.casePack,
+          reviewCycleDays: entry.reviewCycleDays,
+          serviceLevel: entry.serviceLevel,
+        };
+      }
+
+      return {
+        vendor,
+        configured: false,
+        leadTimeDays: defaults?.defaultLeadTimeDays ?? 14,
+        leadTimeStdDevDays: 0,
+        minOrderQuantity: 1,
+        casePack: 1,
+        reviewCycleDays: defaults?.defaultReviewCycleDays ?? 7,
+        serviceLevel: defaults?.defaultServiceLevel ?? 95,
+      };
+    };
+  }
+
+  private buildSettings(input: SupplierSettingsInput, existing?: SupplierSettings | null): SupplierSettings {
+    const vendor = typeof input.vendor === 'string' ? input.vendor.trim() : '';
+    if (!vendor) {
+      throw new BadRequestException('vendor is required');
+    }
+
+    const defaults = this.configService.get('config.planning');
+    const leadTimeDays = this.wholeNumber(input.leadTimeDays, 'leadTimeDays', defaults?.defaultLeadTimeDays ?? 14, 0);
+    const reviewCycleDays = this.wholeNumber(
+      input.reviewCycleDays,
+      'reviewCycleDays',
+      defaults?.defaultReviewCycleDays ?? 7,
+      0,
+    );
+    if (leadTimeDays + reviewCycleDays > 365) {
+      throw new BadRequestException('leadTimeDays plus reviewCycleDays must be at most 365');
+    }
+
+    const leadTimeStdDevDays = Number(input.leadTimeStdDevDays ?? 0);
+    if (!Number.isFinite(leadTimeStdDevDays) || leadTimeStdDevDays < 0) {
+      throw new BadRequestException('leadTimeStdDevDays must be a non-negative number');
+    }
+
+    const serviceLevel = Number(input.serviceLevel ?? defaults?.defaultServiceLevel ?? 95);
+    if (!Number.isFinite(serviceLevel) || serviceLevel < 50 || serviceLevel > 99.9) {
+      throw new BadRequestException('serviceLevel must be a percentage between 50 and 99.9');
+    }
+
+    const contactEmail = input.contactEmail?.trim() || null;
+    if (contactEmail && !EMAIL_PATTERN.test(contactEmail)) {
+      throw new BadRequestException(`Invalid contactEmail "${contactEmail}"`);
+    }
+
+    const now = new Date().toISOString();
+
+    return {
+      id: existing?.id || randomUUID(),
+      vendor,
+      leadTimeDays,
+      leadTimeStdDevDays,
+      minOrderQuantity: this.wholeNumber(input.minOrderQuantity, 'minOrderQuantity', 1, 1),
+      casePack: this.wholeNumber(input.casePack, 'casePack', 1, 1),
+      reviewCycleDays,
+      serviceLevel,
+      contactEmail,
+      notes: input.notes || null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+  }
+
+  private wholeNumber(value: number | undefined, field: string, fallback: number, minimum: number): number {
+    const number = value === undefined || value === null ? fallback : Number(value);
+    if (!Number.isInteger(number) || number < minimum) {
+      throw new BadRequestException(`${field} must be a whole number of at least ${minimum}`);
+    }
+    return number;
+  }
+
+  private definedFields(input: Partial<SupplierSettingsInput>): Partial<SupplierSettingsInput> {
+    return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { TargetsService } from './targets.service';
+
+@Module({
+  imports: [StorageModule, CurrencyModule],
+  providers: [TargetsService],
+  exports: [TargetsService],
+})
+export class TargetsModule {}
@@ -0,0 +1,92 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { CurrencyService } from '../currency/currency.service';
+import { DatabaseService } from '../storage/database.service';
+import { TargetRepository } from '../storage/target.repository';
+import { StoreContextService } from '../stores/store-context.service';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { TargetsService } from './targets.service';
+
+describe('TargetsService', () => {
+  const store = { id: 'main', databasePath: ':memory:' };
+
+  let databaseService: DatabaseService;
+  let shopCurrency: string;
+  let service: TargetsService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    const storeRegistry = { getStore: () => store, getStores: () => [store], getDefaultStore: () => store };
+    databaseService = new DatabaseService(
+      storeRegistry as unknown as StoreRegistryService,
+      new StoreContextService(storeRegistry as unknown as StoreRegistryService),
+    );
+    shopCurrency = 'USD';
+    const currencyService = { getShopCurrency: () => shopCurrency };
+    service = new TargetsService(new TargetRepository(databaseService), currencyService as unknown as CurrencyService);
+  });
+
+  afterEach(() => {
+    databaseService.onModuleDestroy();
+  });
+
+  describe('saveTarget', () => {
+    it('stores the amount as an exact decimal', () => {
+      const saved = service.saveTarget({ scope: 'company', period: '2026-10', amount: '1,005.5' });
+
+      expect(saved.amount).toBe('1005.50');
+      expect(service.getTarget(saved.id).amount).toBe('1005.50');
+    });
+
+    it('rejects amounts that are not plain non-negative decimals', () => {
+      for (const amount of ['12abc', '-5', '1e3', '$100', '1,00', '', 0.1 + 0.2]) {
+        expect(() => service.saveTarget({ scope: 'company', period: '2026-10', amount })).toThrow(BadRequestException);
+      }
+    });
+
+    it('rejects more decimals than the shop currency has, but allows trailing zeros', () => {
+      shopCurrency = 'JPY';
+
+      expect(() => service.saveTarget({ scope: 'company', period: '2026-10', amount: '1500.5' })).toThrow(
+        'JPY amounts have at most 0 decimals',
+      );
+      expect(service.saveTarget({ scope: 'company', period: '2026-10', amount: '1500.00' }).amount).toBe('1500');
+    });
+  });
+
+  describe('importCsv', () => {
+    it('reports rows with invalid amounts by line and imports the rest', () => {
+      const result = service.importCsv(
+        ['scope,scope_value,period,amount', 'company,,2026-10,12abc', 'rep,jane_doe,2026-10,2500.25'].join('\n'),
+      );
+
+      expect(result.imported).toBe(1);
+      expect(result.errors).toEqual([{ line: 2, message: expect.stringContaining('Invalid amount "12abc"') }]);
+      expect(service.listTargets().map(target => target.amount)).toEqual(['2500.25']);
+    });
+  });
+
+  describe('resolveMonthlyTargets', () => {
+    it('splits a quarterly target so its months add up to it exactly', () => {
+      service.saveTarget({ scope: 'company', period: '2026-Q4', amount: '100.00' });
+
+      const resolved = service.resolveMonthlyTargets('company', null, ['2026-10', '2026-11', '2026-12'], 'USD');
+
+      expect([...resolved.values()].map(target => target.amount.toAmount())).toEqual(['33.34', '33.33', '33.33']);
+      expect([...resolved.values()].every(target => target.prorated && target.period === '2026-Q4')).toBe(true);
+    });
+
+    it('prefers a month target over the quarter and year', () => {
+      service.saveTarget({ scope: 'company', period: '2026', amount: '1200.00' });
+      service.saveTarget({ scope: 'company', period: '2026-11', amount: '250.00' });
+
+      const resolved = service.resolveMonthlyTargets('company', null, ['2026-10', '2026-11'], 'USD');
+
+      expect(resolved.get('2026-10').amount.toAmount()).toBe('100.00');
+      expect(resolved.get('2026-11')).toMatchObject({ period: '2026-11', prorated: false });
+      expect(resolved.get('2026-11').amount.toAmount()).toBe('250.00');
+    });
+  });
+});
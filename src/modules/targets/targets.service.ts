@@ -0,0 +1,294 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as moment from 'moment';
+import { TargetRepository } from '../storage/target.repository';
+import { CurrencyService } from '../currency/currency.service';
+import { parseCsv } from '@shared/csv';
+import { Money } from '@shared/money';
+import {
+  TARGET_SCOPES,
+  SalesTarget,
+  SalesTargetInput,
+  SalesTargetFilters,
+  TargetScope,
+  TargetPeriodType,
+  ResolvedTarget,
+  TargetImportResult,
+} from '@interfaces/target.interface';
+
+// Non-negative decimal, optionally with thousands separators: 150000, 150,000.50
+const AMOUNT_PATTERN = /^(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+
+interface ParsedPeriod {
+  period: string;
+  periodType: TargetPeriodType;
+  periodStart: string;
+  periodEnd: string;
+}
+
+@Injectable()
+export class TargetsService {
+  private readonly logger = new Logger(TargetsService.name);
+
+  constructor(
+    private readonly targetRepository: TargetRepository,
+    private readonly currencyService: CurrencyService,
+  ) {}
+
+  /**
+   * List targets matching the filters
+   */
+  listTargets(filters: SalesTargetFilters = {}): SalesTarget[] {
+    return this.targetRepository.find(filters);
+  }
+
+  /**
+   * Get a target by id
+   */
+  getTarget(id: string): SalesTarget {
+    const target = this.targetRepository.findById(id);
+    if (!target) {
+      throw new NotFoundException(`Target ${id} not found`);
+    }
+    return target;
+  }
+
+  /**
+   * Create a target, replacing any existing target for the same scope and period
+   */
+  saveTarget(input: SalesTargetInput): SalesTarget {
+    const target = this.buildTarget(input);
+    const saved = this.targetRepository.upsert(target);
+
+    this.logger.log(
+      `Saved ${saved.scope} target for ${saved.scopeValue || 'company'} ${saved.period}: ${saved.amount}`,
+    );
+    return saved;
+  }
+
+  /**
+   * Update a target by id
+   */
+  updateTarget(id: string, input: Partial<SalesTargetInput>): SalesTarget {
+    const existing = this.getTarget(id);
+    const target = this.buildTarget(
+      {
+        scope: input.scope ?? existing.scope,
+        scopeValue: input.scopeValue !== undefined ? input.scopeValue : existing.scopeValue,
+        period: input.period ?? existing.period,
+        amount: input.amount ?? existing.amount,
+        notes: input.notes !== undefined ? input.notes : existing.notes,
+      },
+      existing,
+    );
+
+    try {
+      return this.targetRepository.update(target);
+    } catch (error) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new BadRequestException(`A ${target.scope} target for ${target.period} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a target by id
+   */
+  deleteTarget(id: string): void {
+    if (!this.targetRepository.delete(id)) {
+      throw new NotFoundException(`Target ${id} not found`);
+    }
+  }
+
+  /**
+   * Import targets from CSV with a header row of scope, scope_value, period, amount and optional notes.
+   * Valid rows are saved even if other rows fail.
+   */
+  importCsv(csv: string): TargetImportResult {
+    const rows = parseCsv(csv);
+    if (rows.length === 0) {
+      throw new BadRequestException('CSV is empty');
+    }
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    const missing = ['scope', 'period', 'amount'].filter(name => column(name) < 0);
+    if (missing.length > 0) {
+      throw new BadRequestException(`CSV header is missing: ${missing.join(', ')}`);
+    }
+
+    const result: TargetImportResult = { imported: 0, errors: [] };
+
+    rows.slice(1).forEach((row, index) => {
+      const line = index + 2;
+      const value = (name: string) => (column(name) >= 0 ? (row[column(name)] || '').trim() : '');
+
+      try {
+        this.saveTarget({
+          scope: value('scope') as TargetScope,
+          scopeValue: value('scope_value') || null,
+          period: value('period'),
+          amount: value('amount'),
+          notes: value('notes') || null,
+        });
+        result.imported++;
+      } catch (error) {
+        result.errors.push({ line, message: error.message });
+      }
+    });
+
+    this.logger.log(`Imported ${result.imported} targets from CSV with ${result.errors.length} errors`);
+    return result;
+  }
+
+  /**
+   * Resolve the target for each month of a scope value, in the shop currency. Months without
+   * their own target take an even share of the enclosing quarter's target, then of the year's,
+   * split so the months add up to it exactly.
+   */
+  resolveMonthlyTargets(
+    scope: TargetScope,
+    scopeValue: string | null,
+    months: string[],
+    currency: string,
+  ): Map<string, ResolvedTarget> {
+    const targets = this.targetRepository.find({ scope, scopeValue: scopeValue || '' });
+    const byPeriod = new Map(targets.map(target => [target.period, target]));
+    const resolved = new Map<string, ResolvedTarget>();
+
+    for (const month of months) {
+      const target = this.resolveMonth(byPeriod, month, currency);
+      if (target) {
+        resolved.set(month, target);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Resolve the month's target in the shop currency for every scope value that has one, keyed by scope value
+   */
+  resolveTargetsForMonth(scope: TargetScope, month: string, currency: string): Map<string, ResolvedTarget> {
+    const { periodStart, periodEnd } = this.parsePeriod(month);
+    const targets = this.targetRepository.find({ scope, from: periodStart, to: periodEnd });
+
+    const byValue = new Map<string, Map<string, SalesTarget>>();
+    for (const target of targets) {
+      const key = target.scopeValue || '';
+      if (!byValue.has(key)) byValue.set(key, new Map());
+      byValue.get(key).set(target.period, target);
+    }
+
+    const resolved = new Map<string, ResolvedTarget>();
+    for (const [scopeValue, byPeriod] of byValue) {
+      const target = this.resolveMonth(byPeriod, month, currency);
+      if (target) {
+        resolved.set(scopeValue, target);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Parse a period key (YYYY-MM, YYYY-Qn or YYYY) into its type and date bounds
+   */
+  parsePeriod(period: string): ParsedPeriod {
+    const value = (period || '').trim().toUpperCase();
+    let start: moment.Moment;
+    let periodType: TargetPeriodType;
+
+    if (/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+      start = moment.utc(value, 'YYYY-MM');
+      periodType = 'month';
+    } else if (/^\d{4}-Q[1-4]$/.test(value)) {
+      start = moment.utc(value.slice(0, 4), 'YYYY').quarter(Number(value.slice(6)));
+      periodType = 'quarter';
+    } else if (/^\d{4}$/.test(value)) {
+      start = moment.utc(value, 'YYYY');
+      periodType = 'year';
+    } else {
+      throw new BadRequestException(`Invalid period "${period}". Use YYYY-MM, YYYY-Qn or YYYY`);
+    }
+
+    return {
+      period: value,
+      periodType,
+      periodStart: start.clone().startOf(periodType).format('YYYY-MM-DD'),
+      periodEnd: start.clone().endOf(periodType).format('YYYY-MM-DD'),
+    };
+  }
+
+  private resolveMonth(byPeriod: Map<string, SalesTarget>, month: string, currency: string): ResolvedTarget | null {
+    const date = moment.utc(month, 'YYYY-MM');
+    // Each candidate period with its number of months and the month's position in it
+    const candidates: Array<[string, number, number]> = [
+      [date.format('YYYY-MM'), 1, 0],
+      [`${date.year()}-Q${date.quarter()}`, 3, date.month() % 3],
+      [String(date.year()), 12, date.month()],
+    ];
+
+    for (const [period, months, index] of candidates) {
+      const target = byPeriod.get(period);
+      if (target) {
+        return {
+          amount: Money.of(target.amount, currency).allocate(new Array(months).fill(1))[index],
+          period: target.period,
+          periodType: target.periodType,
+          prorated: months > 1,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  private buildTarget(input: SalesTargetInput, existing?: SalesTarget): SalesTarget {
+    if (!TARGET_SCOPES.includes(input.scope)) {
+      throw new BadRequestException(`Invalid scope "${input.scope}". Valid: ${TARGET_SCOPES.join(', ')}`);
+    }
+
+    const scopeValue = input.scope === 'company' ? null : input.scopeValue?.trim() || null;
+    if (input.scope !== 'company' && !scopeValue) {
+      throw new BadRequestException(`scopeValue is required for ${input.scope} targets`);
+    }
+
+    const amount = this.parseAmount(input.amount);
+    const now = new Date().toISOString();
+
+    return {
+      id: existing?.id || randomUUID(),
+      scope: input.scope,
+      scopeValue,
+      ...this.parsePeriod(input.period),
+      amount: amount.toAmount(),
+      notes: input.notes || null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Parse a target amount in the shop currency, rejecting anything but a plain non-negative
+   * decimal with no more decimals than the currency has
+   */
+  private parseAmount(value: string | number): Money {
+    const text = typeof value === 'number' || typeof value === 'string' ? String(value).trim() : '';
+    if (!AMOUNT_PATTERN.test(text)) {
+      throw new BadRequestException(`Invalid amount "${value ?? ''}". Use a non-negative decimal, e.g. 150000.00`);
+    }
+
+    const currency = this.currencyService.getShopCurrency();
+    // Trailing zeros are allowed, e.g. 1500.00 for a currency without minor units
+    const decimals = (text.split('.')[1] || '').replace(/0+$/, '').length;
+    if (decimals > Money.exponent(currency)) {
+      throw new BadRequestException(
+        `Invalid amount "${text}". ${currency} amounts have at most ${Money.exponent(currency)} decimals`,
+      );
+    }
+
+    return Money.of(text, currency);
+  }
+}
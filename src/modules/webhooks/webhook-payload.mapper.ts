@@ -0,0 +1,335 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ShopifyOrder,
+  ShopifyProduct,
+  ShopifyCustomer,
+  LineItem,
+  ProductVariant,
+  Fulfillment,
+  Address,
+  MoneyBag,
+  Refund,
+} from '@interfaces/shopify.interface';
+import {
+  RestOrderPayload,
+  RestProductPayload,
+  RestCustomerPayload,
+  RestLineItemPayload,
+  RestVariantPayload,
+  RestFulfillmentPayload,
+  RestAddress,
+  RestMoneySet,
+  RestRefundPayload,
+} from '@interfaces/webhook.interface';
+import { Money } from '@shared/money';
+
+/**
+ * Maps REST webhook payloads onto the GraphQL shapes used by the analytics services
+ */
+@Injectable()
+export class WebhookPayloadMapper {
+  /**
+   * Map an order webhook payload to a ShopifyOrder
+   */
+  toOrder(payload: RestOrderPayload): ShopifyOrder {
+    const currencyCode = payload.total_price_set?.shop_money?.currency_code;
+
+    return {
+      id: payload.admin_graphql_api_id || this.toGid('Order', payload.id),
+      name: payload.name,
+      createdAt: payload.created_at,
+      updatedAt: payload.updated_at,
+      processedAt: payload.processed_at,
+      closedAt: payload.closed_at || undefined,
+      cancelledAt: payload.cancelled_at || undefined,
+      cancelReason: payload.cancel_reason || undefined,
+      totalPriceSet: this.toMoneyBag(payload.total_price_set, currencyCode),
+      subtotalPriceSet: this.toMoneyBag(payload.subtotal_price_set, currencyCode),
+      totalTaxSet: this.toMoneyBag(payload.total_tax_set, currencyCode),
+      totalDiscountsSet: this.toMoneyBag(payload.total_discounts_set, currencyCode),
+      totalShippingPriceSet: this.toMoneyBag(payload.total_shipping_price_set, currencyCode),
+      lineItems: {
+        edges: (payload.line_items || []).map(item => ({
+          cursor: String(item.id),
+          node: this.toLineItem(item, currencyCode),
+        })),
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      },
+      customer: payload.customer ? this.toCustomer(payload.customer) : undefined,
+      billingAddress: payload.billing_address ? this.toAddress(payload.billing_address) : undefined,
+      shippingAddress: payload.shipping_address ? this.toAddress(payload.shipping_address) : undefined,
+      displayFinancialStatus: (payload.financial_status || 'pending').toUpperCase(),
+      displayFulfillmentStatus: this.toFulfillmentStatus(payload.fulfillment_status),
+      tags: this.splitTags(payload.tags),
+      note: payload.note || undefined,
+      sourceName: payload.source_name || undefined,
+      discountCodes: (payload.discount_codes || []).map(discount => discount.code),
+      staffMember: payload.user_id ? { id: this.toGid('StaffMember', payload.user_id) } : undefined,
+      fulfillments: (payload.fulfillments || []).map(fulfillment => this.toFulfillment(fulfillment)),
+      ...this.toRefunds(payload.refunds || [], currencyCode),
+    };
+  }
+
+  /**
+   * Map a product webhook payload to a ShopifyProduct
+   */
+  toProduct(payload: RestProductPayload): ShopifyProduct {
+    const product = {
+      id: payload.admin_graphql_api_id || this.toGid('Product', payload.id),
+      title: payload.title,
+      productType: payload.product_type || '',
+      vendor: payload.vendor || '',
+    };
+
+    const variants = (payload.variants || []).map(variant => this.toVariant(variant, product));
+
+    return {
+      ...product,
+      handle: payload.handle,
+      description: payload.body_html || '',
+      tags: this.splitTags(payload.tags),
+      status: (payload.status || 'active').toUpperCase(),
+      createdAt: payload.created_at,
+      updatedAt: payload.updated_at,
+      publishedAt: payload.published_at || undefined,
+      variants: {
+        edges: variants.map(variant => ({ cursor: variant.id, node: variant })),
+        pageInfo: { hasNextPage: false, hasPreviousPage: false },
+      },
+      totalInventory: variants.reduce((sum, variant) => sum + (variant.inventoryQuantity || 0), 0),
+    };
+  }
+
+  /**
+   * Map a customer webhook payload to a ShopifyCustomer.
+   * Newer API versions no longer include order counts or spend, so callers should
+   * merge the result with the previously known record.
+   */
+  toCustomer(payload: RestCustomerPayload): ShopifyCustomer {
+    const firstName = payload.first_name || undefined;
+    const lastName = payload.last_name || undefined;
+
+    return {
+      id: payload.admin_graphql_api_id || this.toGid('Customer', payload.id),
+      firstName,
+      lastName,
+      displayName: [firstName, lastName].filter(Boolean).join(' ') || payload.email || '',
+      email: payload.email || '',
+      phone: payload.phone || undefined,
+      createdAt: payload.created_at,
+      updatedAt: payload.updated_at,
+      numberOfOrders: payload.orders_count,
+      amountSpent: payload.total_spent !== undefined
+        ? { amount: payload.total_spent, currencyCode: payload.currency }
+        : undefined,
+      tags: this.splitTags(payload.tags),
+      note: payload.note || undefined,
+      addresses: (payload.addresses || []).map(address => this.toAddress(address)),
+    };
+  }
+
+  /**
+   * Build an InventoryItem GID from a numeric REST id
+   */
+  toInventoryItemId(inventoryItemId: number): string {
+    return this.toGid('InventoryItem', inventoryItemId);
+  }
+
+  /**
+   * Build a Location GID from a numeric REST id
+   */
+  toLocationId(locationId: number): string {
+    return this.toGid('Location', locationId);
+  }
+
+  private toLineItem(item: RestLineItemPayload, currencyCode: string): LineItem {
+    const variant = item.variant_id
+      ? {
+          id: this.toGid('ProductVariant', item.variant_id),
+          title: item.variant_title || 'Default',
+          sku: item.sku,
+          product: {
+            id: item.product_id ? this.toGid('Product', item.product_id) : undefined,
+            title: item.title,
+            productType: undefined,
+            vendor: item.vendor,
+          },
+        } as ProductVariant
+      : undefined;
+
+    return {
+      id: item.admin_graphql_api_id || this.toGid('LineItem', item.id),
+      title: item.title,
+      quantity: item.quantity,
+      sku: item.sku || undefined,
+      variant,
+      originalUnitPriceSet: this.toMoneyBag(item.price_set, currencyCode),
+      discountedUnitPriceSet: undefined,
+      totalDiscountSet: this.toMoneyBag(item.total_discount_set, currencyCode),
+    };
+  }
+
+  private toVariant(
+    variant: RestVariantPayload,
+    product: ProductVariant['product'],
+  ): ProductVariant {
+    return {
+      id: variant.admin_graphql_api_id || this.toGid('ProductVariant', variant.id),
+      title: variant.title,
+      sku: variant.sku || undefined,
+      inventoryQuantity: variant.inventory_quantity || 0,
+      price: variant.price,
+      compareAtPrice: variant.compare_at_price || undefined,
+      product,
+      inventoryItem: {
+        id: variant.inventory_item_id ? this.toInventoryItemId(variant.inventory_item_id) : undefined,
+        tracked: variant.inventory_management === 'shopify',
+      },
+    };
+  }
+
+  private toFulfillment(fulfillment: RestFulfillmentPayload): Fulfillment {
+    const numbers = fulfillment.tracking_numbers || [];
+    const urls = fulfillment.tracking_urls || [];
+
+    return {
+      id: fulfillment.admin_graphql_api_id || this.toGid('Fulfillment', fulfillment.id),
+      status: (fulfillment.status || '').toUpperCase(),
+      createdAt: fulfillment.created_at,
+      updatedAt: fulfillment.updated_at,
+      trackingInfo: numbers.map((number, index) => ({
+        number,
+        url: urls[index],
+        company: fulfillment.tracking_company,
+      })),
+    };
+  }
+
+  /**
+   * REST refunds carry no totals; the refunded amount is the line items, their tax and
+   * any shipping refund adjustments. The order total is left out when nothing was refunded
+   * so a partial payload does not clear it.
+   */
+  private toRefunds(
+    payloads: RestRefundPayload[],
+    currencyCode: string,
+  ): Pick<ShopifyOrder, 'refunds' | 'totalRefundedSet'> {
+    if (payloads.length === 0) return { refunds: [] };
+
+    const amountOf = (moneySet: RestMoneySet | undefined) => Money.of(moneySet?.shop_money?.amount, currencyCode);
+    const toSet = (money: Money): MoneyBag => ({ shopMoney: money.toMoneyV2(), presentmentMoney: money.toMoneyV2() });
+
+    const refunds: Refund[] = payloads.map(refund => {
+      const lineItems = refund.refund_line_items || [];
+      const adjustments = (refund.order_adjustments || []).filter(adjustment => adjustment.kind === 'shipping_refund');
+      // Shipping refund adjustments are recorded as negative amounts
+      const items = Money.sumBy(
+        lineItems,
+        item => amountOf(item.subtotal_set).add(amountOf(item.total_tax_set)),
+        currencyCode,
+      );
+      const total = items.subtract(Money.sumBy(adjustments, adjustment => amountOf(adjustment.amount_set), currencyCode));
+
+      return {
+        id: refund.admin_graphql_api_id || this.toGid('Refund', refund.id),
+        createdAt: refund.created_at,
+        note: refund.note || undefined,
+        totalRefundedSet: toSet(total),
+        refundLineItems: {
+          edges: lineItems.map(item => ({
+            cursor: String(item.id),
+            node: {
+              id: this.toGid('RefundLineItem', item.id),
+              quantity: item.quantity,
+              restockType: (item.restock_type || 'no_restock').toUpperCase(),
+              restocked: ['return', 'cancel', 'legacy_restock'].includes(item.restock_type),
+              lineItem: { id: this.toGid('LineItem', item.line_item_id) },
+              priceSet: this.toMoneyBag(item.line_item?.price_set, currencyCode),
+              subtotalSet: this.toMoneyBag(item.subtotal_set, currencyCode),
+              totalTaxSet: this.toMoneyBag(item.total_tax_set, currencyCode),
+            },
+          })),
+          pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        },
+        transactions: {
+          edges: (refund.transactions || []).map(transaction => ({
+            cursor: String(transaction.id),
+            node: {
+              id: transaction.admin_graphql_api_id || this.toGid('OrderTransaction', transaction.id),
+              kind: (transaction.kind || '').toUpperCase(),
+              status: (transaction.status || '').toUpperCase(),
+              gateway: transaction.gateway,
+              processedAt: transaction.processed_at,
+              amountSet: toSet(Money.of(transaction.amount, currencyCode)),
+            },
+          })),
+          pageInfo: { hasNextPage: false, hasPreviousPage: false },
+        },
+      };
+    });
+
+    return {
+      refunds,
+      totalRefundedSet: toSet(
+        Money.sumBy(refunds, refund => Money.fromShopMoney(refund.totalRefundedSet, currencyCode), currencyCode),
+      ),
+    };
+  }
+
+  private toAddress(address: RestAddress): Address {
+    return {
+      id: address.id ? this.toGid('MailingAddress', address.id) : undefined,
+      address1: address.address1,
+      address2: address.address2,
+      city: address.city,
+      province: address.province,
+      country: address.country,
+      countryCodeV2: address.country_code,
+      zip: address.zip,
+      phone: address.phone,
+      name: address.name,
+      company: address.company,
+    };
+  }
+
+  private toMoneyBag(moneySet: RestMoneySet | undefined, fallbackCurrency: string): MoneyBag {
+    const shopMoney = moneySet?.shop_money;
+    const presentmentMoney = moneySet?.presentment_money || shopMoney;
+
+    return {
+      shopMoney: {
+        amount: shopMoney?.amount || '0',
+        currencyCode: shopMoney?.currency_code || fallbackCurrency,
+      },
+      presentmentMoney: {
+        amount: presentmentMoney?.amount || '0',
+        currencyCode: presentmentMoney?.currency_code || fallbackCurrency,
+      },
+    };
+  }
+
+  /**
+   * REST reports null/partial/fulfilled, GraphQL uses the display enum
+   */
+  private toFulfillmentStatus(status: string | null | undefined): string {
+    switch (status) {
+      case 'fulfilled':
+        return 'FULFILLED';
+      case 'partial':
+        return 'PARTIALLY_FULFILLED';
+      case 'restocked':
+        return 'RESTOCKED';
+      default:
+        return 'UNFULFILLED';
+    }
+  }
+
+  private splitTags(tags: string | undefined): string[] {
+    if (!tags) return [];
+    return tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+  }
+
+  private toGid(type: string, id: number): string {
+    return `gid://shopify/${type}/${id}`;
+  }
+}
@@ -0,0 +1,164 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { StoreConfig } from '@interfaces/store.interface';
+import { RestCustomerPayload, WebhookHeaders } from '@interfaces/webhook.interface';
+import { RedisService } from '../redis/redis.service';
+import { AnalyticsService } from '../analytics/analytics.service';
+import { SyncWriterService } from '../storage/sync-writer.service';
+import { ProductRepository } from '../storage/product.repository';
+import { ShopifyService } from '../shopify/shopify.service';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { StoreContextService } from '../stores/store-context.service';
+import { WebhookPayloadMapper } from './webhook-payload.mapper';
+import { WebhookService } from './webhook.service';
+
+class InMemoryRedis {
+  readonly values = new Map<string, any>();
+
+  getCacheKeys() {
+    return RedisService.prototype.getCacheKeys.call(this);
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.values.has(key) ? structuredClone(this.values.get(key)) : null;
+  }
+
+  async set(key: string, value: any): Promise<void> {
+    this.values.set(key, structuredClone(value));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.values.has(key);
+  }
+
+  async del(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+describe('WebhookService', () => {
+  const secret = 'shpss_test_secret';
+  const store = { id: 'main', shopDomain: 'main.myshopify.com', webhookSecret: secret } as StoreConfig;
+
+  let redis: InMemoryRedis;
+  let syncWriterService: { writeBatch: jest.Mock };
+  let service: WebhookService;
+
+  const sign = (body: Buffer, key = secret) => createHmac('sha256', key).update(body).digest('base64');
+
+  const customerPayload: RestCustomerPayload = {
+    id: 42,
+    admin_graphql_api_id: 'gid://shopify/Customer/42',
+    first_name: 'Ada',
+    email: 'ada@example.com',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-02T00:00:00Z',
+    orders_count: 3,
+    total_spent: '120.00',
+    currency: 'USD',
+  };
+  const headers = (webhookId: string): WebhookHeaders => ({
+    topic: 'customers/update',
+    hmac: '',
+    webhookId,
+    shopDomain: store.shopDomain,
+  });
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    redis = new InMemoryRedis();
+    syncWriterService = { writeBatch: jest.fn() };
+    service = new WebhookService(
+      { get: (_key: string, defaultValue: number) => defaultValue } as unknown as ConfigService,
+      redis as unknown as RedisService,
+      { refreshFromCachedDatasets: jest.fn().mockResolvedValue(false) } as unknown as AnalyticsService,
+      new WebhookPayloadMapper(),
+      syncWriterService as unknown as SyncWriterService,
+      { findVariants: () => [] } as unknown as ProductRepository,
+      {} as ShopifyService,
+      { findByShopDomain: () => store, getStores: () => [store] } as unknown as StoreRegistryService,
+      { getStoreId: () => store.id } as unknown as StoreContextService,
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  describe('verifySignature', () => {
+    const body = Buffer.from(JSON.stringify(customerPayload));
+
+    it('accepts the HMAC-SHA256 of the raw body with the store secret', () => {
+      expect(service.verifySignature(body, sign(body), store)).toBe(true);
+    });
+
+    it('rejects a body changed after signing', () => {
+      const tampered = Buffer.from(JSON.stringify({ ...customerPayload, total_spent: '1.00' }));
+
+      expect(service.verifySignature(tampered, sign(body), store)).toBe(false);
+    });
+
+    it('rejects a signature made with another secret', () => {
+      expect(service.verifySignature(body, sign(body, 'other-secret'), store)).toBe(false);
+    });
+
+    it('rejects missing bodies, missing or malformed headers', () => {
+      expect(service.verifySignature(undefined, sign(body), store)).toBe(false);
+      expect(service.verifySignature(body, undefined, store)).toBe(false);
+      expect(service.verifySignature(body, 'short', store)).toBe(false);
+    });
+
+    it('rejects every delivery when the store has no webhook secret', () => {
+      expect(service.verifySignature(body, sign(body), { ...store, webhookSecret: undefined })).toBe(false);
+    });
+  });
+
+  describe('processWebhook', () => {
+    it('applies a delivery once and skips redeliveries of the same webhook id', async () => {
+      const first = await service.processWebhook(headers('delivery-1'), customerPayload);
+      const redelivered = await service.processWebhook(headers('delivery-1'), customerPayload);
+
+      expect(first.status).toBe('processed');
+      expect(redelivered.status).toBe('duplicate');
+      expect(syncWriterService.writeBatch).toHaveBeenCalledTimes(1);
+      expect(await service.getWebhookStats()).toMatchObject({
+        totalProcessed: 1,
+        totalDuplicates: 1,
+        topics: { 'customers/update': { processed: 1, duplicates: 1 } },
+      });
+    });
+
+    it('applies deliveries with different webhook ids', async () => {
+      await service.processWebhook(headers('delivery-1'), customerPayload);
+      const second = await service.processWebhook(headers('delivery-2'), customerPayload);
+
+      expect(second.status).toBe('processed');
+      expect(syncWriterService.writeBatch).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not mark a failed delivery as processed, so its retry is applied', async () => {
+      syncWriterService.writeBatch.mockImplementationOnce(() => {
+        throw new Error('database is locked');
+      });
+
+      await expect(service.processWebhook(headers('delivery-1'), customerPayload)).rejects.toThrow(
+        'database is locked',
+      );
+      const retried = await service.processWebhook(headers('delivery-1'), customerPayload);
+
+      expect(retried.status).toBe('processed');
+      expect(syncWriterService.writeBatch).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores unsupported topics', async () => {
+      const result = await service.processWebhook({ ...headers('delivery-1'), topic: 'app/uninstalled' }, {});
+
+      expect(result.status).toBe('ignored');
+      expect(redis.values.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,457 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { RedisService } from '../redis/redis.service';
+import { AnalyticsService } from '../analytics/analytics.service';
+import { WebhookPayloadMapper } from './webhook-payload.mapper';
+import { SyncWriterService } from '../storage/sync-writer.service';
+import { ProductRepository } from '../storage/product.repository';
+import { ShopifyService } from '../shopify/shopify.service';
+import { StoreRegistryService } from '../stores/store-registry.service';
+import { StoreContextService } from '../stores/store-context.service';
+import {
+  ShopifyOrder,
+  ShopifyProduct,
+  ShopifyCustomer,
+  ProductVariant,
+  Connection,
+  InventoryLevel,
+} from '@interfaces/shopify.interface';
+import { StoreConfig } from '@interfaces/store.interface';
+import {
+  SUPPORTED_WEBHOOK_TOPICS,
+  WebhookTopic,
+  WebhookHeaders,
+  WebhookProcessingResult,
+  RestOrderPayload,
+  RestProductPayload,
+  RestCustomerPayload,
+  RestInventoryLevelPayload,
+} from '@interfaces/webhook.interface';
+import { replaceInventoryLevels, setAvailableAtLocation } from '@shared/inventory-levels';
+
+@Injectable()
+export class WebhookService implements OnModuleDestroy {
+  private readonly logger = new Logger(WebhookService.name);
+  private readonly cacheKeys: any;
+  private readonly dedupTtl: number;
+  private readonly refreshDebounceMs: number;
+  private readonly datasetTtl = 1800;
+  private readonly orderWindowHours = 24;
+
+  // Dataset updates are read-modify-write, so they are applied one at a time
+  private processingQueue: Promise<unknown> = Promise.resolve();
+  private readonly refreshTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+    private readonly analyticsService: AnalyticsService,
+    private readonly payloadMapper: WebhookPayloadMapper,
+    private readonly syncWriterService: SyncWriterService,
+    private readonly productRepository: ProductRepository,
+    private readonly shopifyService: ShopifyService,
+    private readonly storeRegistry: StoreRegistryService,
+    private readonly storeContext: StoreContextService,
+  ) {
+    this.cacheKeys = this.redisService.getCacheKeys();
+    this.dedupTtl = this.configService.get<number>('config.webhooks.dedupTtl', 172800);
+    this.refreshDebounceMs = this.configService.get<number>('config.webhooks.refreshDebounceMs', 2000);
+  }
+
+  onModuleDestroy(): void {
+    for (const timer of this.refreshTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.refreshTimers.clear();
+  }
+
+  /**
+   * Find the store a delivery came from by its X-Shopify-Shop-Domain header.
+   * With a single registered store, deliveries go to that store.
+   */
+  resolveStore(shopDomain: string | undefined): StoreConfig | null {
+    const store = this.storeRegistry.findByShopDomain(shopDomain);
+    if (store) {
+      return store;
+    }
+
+    const stores = this.storeRegistry.getStores();
+    return stores.length === 1 ? stores[0] : null;
+  }
+
+  /**
+   * Verify the X-Shopify-Hmac-Sha256 header against the raw request body using the store's secret
+   */
+  verifySignature(rawBody: Buffer | undefined, hmacHeader: string | undefined, store: StoreConfig): boolean {
+    if (!store.webhookSecret) {
+      this.logger.error(`No webhook secret is configured for store ${store.id}, rejecting webhook`);
+      return false;
+    }
+
+    if (!rawBody || !hmacHeader) {
+      return false;
+    }
+
+    const expected = Buffer.from(createHmac('sha256', store.webhookSecret).update(rawBody).digest('base64'));
+    const received = Buffer.from(hmacHeader);
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  /**
+   * Check whether a topic is handled by the ingestion pipeline
+   */
+  isSupportedTopic(topic: string): topic is WebhookTopic {
+    return (SUPPORTED_WEBHOOK_TOPICS as readonly string[]).includes(topic);
+  }
+
+  /**
+   * Process a verified webhook delivery, skipping ones already handled
+   */
+  async processWebhook(headers: WebhookHeaders, payload: any): Promise<WebhookProcessingResult> {
+    const { topic, webhookId } = headers;
+
+    if (!this.isSupportedTopic(topic)) {
+      this.logger.debug(`Ignoring unsupported webhook topic ${topic}`);
+      return { webhookId, topic, status: 'ignored', message: 'Unsupported topic' };
+    }
+
+    const run = this.processingQueue.then(() => this.applyWebhook(topic, webhookId, payload));
+    this.processingQueue = run.catch(() => undefined);
+
+    return run;
+  }
+
+  /**
+   * Get webhook ingestion statistics
+   */
+  async getWebhookStats(): Promise<any> {
+    const stats = await this.redisService.get<any>(this.cacheKeys.webhooks.stats);
+    return stats || { totalProcessed: 0, totalDuplicates: 0, topics: {} };
+  }
+
+  private async applyWebhook(
+    topic: WebhookTopic,
+    webhookId: string,
+    payload: any,
+  ): Promise<WebhookProcessingResult> {
+    const dedupKey = this.cacheKeys.webhooks.processed(webhookId);
+
+    if (await this.redisService.exists(dedupKey)) {
+      this.logger.debug(`Duplicate webhook ${webhookId} (${topic}) skipped`);
+      await this.recordStats(topic, true);
+      return { webhookId, topic, status: 'duplicate' };
+    }
+
+    try {
+      let changed: boolean;
+
+      switch (topic) {
+        case 'orders/create':
+        case 'orders/updated':
+        case 'orders/cancelled':
+          changed = await this.applyOrder(payload as RestOrderPayload);
+          break;
+        case 'products/update':
+          changed = await this.applyProduct(payload as RestProductPayload);
+          break;
+        case 'inventory_levels/update':
+          changed = await this.applyInventoryLevel(payload as RestInventoryLevelPayload);
+          break;
+        case 'customers/update':
+          changed = await this.applyCustomer(payload as RestCustomerPayload);
+          break;
+      }
+
+      // Only mark as processed once applied, so a failed delivery can be retried by Shopify
+      await this.redisService.set(dedupKey, new Date().toISOString(), { ttl: this.dedupTtl });
+      await this.recordStats(topic, false);
+
+      if (changed) {
+        this.scheduleAnalyticsRefresh();
+      }
+
+      this.logger.debug(`Webhook ${webhookId} (${topic}) processed${changed ? '' : ' without dataset changes'}`);
+
+      return {
+        webhookId,
+        topic,
+        status: 'processed',
+        message: changed ? 'Cached datasets updated' : 'No cached data affected',
+      };
+    } catch (error) {
+      this.logger.error(`Failed to process webhook ${webhookId} (${topic}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upsert an order into the cached orders dataset
+   */
+  private async applyOrder(payload: RestOrderPayload): Promise<boolean> {
+    const order = this.payloadMapper.toOrder(payload);
+    this.syncWriterService.writeBatch({ orders: [order] }, 'webhook');
+
+    const orders = await this.redisService.get<ShopifyOrder[]>(this.cacheKeys.shopify.datasets.orders);
+    if (!orders) return false;
+
+    const index = orders.findIndex(existing => existing.id === order.id);
+
+    if (index >= 0) {
+      // Ignore out-of-order deliveries older than what is already cached
+      if (new Date(orders[index].updatedAt).getTime() > new Date(order.updatedAt).getTime()) {
+        return false;
+      }
+      orders[index] = order;
+    } else {
+      // The synced dataset only covers the recent order window
+      const windowStart = Date.now() - this.orderWindowHours * 60 * 60 * 1000;
+      if (new Date(order.createdAt).getTime() < windowStart) {
+        return false;
+      }
+      orders.unshift(order);
+    }
+
+    await this.redisService.set(this.cacheKeys.shopify.datasets.orders, orders, { ttl: this.datasetTtl });
+    return true;
+  }
+
+  /**
+   * Upsert a product into the cached products dataset
+   */
+  private async applyProduct(payload: RestProductPayload): Promise<boolean> {
+    const product = this.withStoredInventoryItems(this.payloadMapper.toProduct(payload));
+    this.syncWriterService.writeBatch({ products: [product] }, 'webhook');
+
+    const products = await this.redisService.get<ShopifyProduct[]>(this.cacheKeys.shopify.datasets.products);
+    if (!products) return false;
+
+    const index = products.findIndex(existing => existing.id === product.id);
+
+    if (index >= 0) {
+      products[index] = product;
+    } else {
+      products.push(product);
+    }
+
+    await this.redisService.set(this.cacheKeys.shopify.datasets.products, products, { ttl: this.datasetTtl });
+    return true;
+  }
+
+  /**
+   * Product webhooks carry no unit costs or per-location levels, so keep those last synced for each variant
+   */
+  private withStoredInventoryItems(product: ShopifyProduct): ShopifyProduct {
+    const stored = new Map(
+      this.productRepository.findVariants(product.id).map(variant => [variant.id, variant.inventoryItem]),
+    );
+
+    for (const { node: variant } of product.variants?.edges || []) {
+      const inventoryItem = stored.get(variant.id);
+      if (!inventoryItem || !variant.inventoryItem) continue;
+
+      if (inventoryItem.unitCost) {
+        variant.inventoryItem.unitCost = inventoryItem.unitCost;
+      }
+      if (inventoryItem.inventoryLevels) {
+        variant.inventoryItem.inventoryLevels = inventoryItem.inventoryLevels;
+      }
+    }
+
+    return product;
+  }
+
+  /**
+   * Apply an inventory level change to the matching variant.
+   * Variant quantities are totals across locations, so the change is applied as a delta
+   * against the last level seen for that location when one is known. Otherwise the item's
+   * levels at every location are fetched from Shopify to set the total.
+   */
+  private async applyInventoryLevel(payload: RestInventoryLevelPayload): Promise<boolean> {
+    const levelKey = this.cacheKeys.webhooks.inventoryLevel(payload.inventory_item_id, payload.location_id);
+    const available = payload.available ?? 0;
+    const previous = await this.redisService.get<number>(levelKey);
+
+    await this.redisService.set(levelKey, available, { ttl: this.dedupTtl });
+
+    const inventoryItemId = this.payloadMapper.toInventoryItemId(payload.inventory_item_id);
+    const locationId = this.payloadMapper.toLocationId(payload.location_id);
+    const stored = this.productRepository.updateVariantInventory(
+      inventoryItemId,
+      locationId,
+      available,
+      previous,
+      payload.updated_at,
+    );
+
+    let totalKnown = stored !== 'level_only';
+    const cached = await this.updateCachedVariant(inventoryItemId, variant => {
+      const previousAtLocation = setAvailableAtLocation(variant, locationId, available, payload.updated_at) ?? previous;
+      if (previousAtLocation !== null) {
+        variant.inventoryQuantity += available - previousAtLocation;
+      } else {
+        totalKnown = false;
+      }
+    });
+
+    if (!totalKnown) {
+      await this.refreshInventoryLevels(inventoryItemId);
+    }
+    return cached;
+  }
+
+  /**
+   * Fetch an inventory item's levels at every location from Shopify and set the variant's total
+   * from them. When the fetch fails the item is kept for resyncInventoryLevels.
+   */
+  private async refreshInventoryLevels(inventoryItemId: string): Promise<boolean> {
+    let levels: Connection<InventoryLevel> | null;
+    try {
+      levels = await this.shopifyService.fetchInventoryLevels(inventoryItemId);
+    } catch (error) {
+      this.logger.warn(`Could not fetch inventory levels of ${inventoryItemId}, retrying on next sync: ${error.message}`);
+      await this.markForResync(inventoryItemId);
+      return false;
+    }
+    if (!levels) return true;
+
+    this.productRepository.replaceVariantInventoryLevels(inventoryItemId, levels);
+    await this.updateCachedVariant(inventoryItemId, variant => replaceInventoryLevels(variant, levels));
+    return true;
+  }
+
+  /**
+   * Fetch the levels of inventory items whose refresh after a webhook failed; run by the sync.
+   * Queued behind webhooks being applied, since it writes the same datasets.
+   */
+  resyncInventoryLevels(): Promise<number> {
+    const run = this.processingQueue.then(() => this.applyInventoryResync());
+    this.processingQueue = run.catch(() => undefined);
+
+    return run;
+  }
+
+  private async applyInventoryResync(): Promise<number> {
+    const key = this.cacheKeys.webhooks.inventoryResync;
+    const pending = (await this.redisService.get<string[]>(key)) || [];
+    if (pending.length === 0) return 0;
+
+    await this.redisService.del(key);
+    let refreshed = 0;
+    for (const inventoryItemId of pending) {
+      if (await this.refreshInventoryLevels(inventoryItemId)) refreshed++;
+    }
+
+    this.logger.log(`Resynced inventory levels of ${refreshed} of ${pending.length} inventory items`);
+    return refreshed;
+  }
+
+  private async markForResync(inventoryItemId: string): Promise<void> {
+    const key = this.cacheKeys.webhooks.inventoryResync;
+    const pending = (await this.redisService.get<string[]>(key)) || [];
+    if (!pending.includes(inventoryItemId)) {
+      await this.redisService.set(key, [...pending, inventoryItemId], { ttl: this.dedupTtl });
+    }
+  }
+
+  /**
+   * Change the variant holding an inventory item in the cached products dataset and recompute
+   * its product's total. Returns false when the dataset is not cached or has no such variant.
+   */
+  private async updateCachedVariant(inventoryItemId: string, update: (variant: ProductVariant) => void): Promise<boolean> {
+    const products = await this.redisService.get<ShopifyProduct[]>(this.cacheKeys.shopify.datasets.products);
+    if (!products) return false;
+
+    for (const product of products) {
+      const edge = product.variants?.edges?.find(({ node }) => node.inventoryItem?.id === inventoryItemId);
+      if (!edge) continue;
+
+      update(edge.node);
+      product.totalInventory = product.variants.edges.reduce(
+        (sum, { node }) => sum + (node.inventoryQuantity || 0),
+        0,
+      );
+
+      await this.redisService.set(this.cacheKeys.shopify.datasets.products, products, { ttl: this.datasetTtl });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Upsert a customer into the cached customers dataset
+   */
+  private async applyCustomer(payload: RestCustomerPayload): Promise<boolean> {
+    const customer = this.payloadMapper.toCustomer(payload);
+    this.syncWriterService.writeBatch({ customers: [customer] }, 'webhook');
+
+    const customers = await this.redisService.get<ShopifyCustomer[]>(this.cacheKeys.shopify.datasets.customers);
+    if (!customers) return false;
+
+    const index = customers.findIndex(existing => existing.id === customer.id);
+
+    if (index >= 0) {
+      const existing = customers[index];
+      customers[index] = {
+        ...customer,
+        numberOfOrders: customer.numberOfOrders ?? existing.numberOfOrders,
+        amountSpent: customer.amountSpent ?? existing.amountSpent,
+      };
+    } else {
+      customers.push({
+        ...customer,
+        numberOfOrders: customer.numberOfOrders ?? 0,
+        amountSpent: customer.amountSpent ?? { amount: '0', currencyCode: payload.currency },
+      });
+    }
+
+    await this.redisService.set(this.cacheKeys.shopify.datasets.customers, customers, { ttl: this.datasetTtl });
+    return true;
+  }
+
+  /**
+   * Recompute cached analytics once a burst of webhooks has settled
+   */
+  private scheduleAnalyticsRefresh(): void {
+    const storeId = this.storeContext.getStoreId();
+    clearTimeout(this.refreshTimers.get(storeId));
+
+    // The timer callback keeps the store context it was scheduled in
+    const timer = setTimeout(() => {
+      this.refreshTimers.delete(storeId);
+      this.analyticsService
+        .refreshFromCachedDatasets()
+        .then(refreshed => {
+          if (refreshed) {
+            this.logger.log(`Analytics for store ${storeId} refreshed from webhook updates`);
+          }
+        })
+        .catch(error => this.logger.error('Webhook-triggered analytics refresh failed:', error));
+    }, this.refreshDebounceMs);
+    this.refreshTimers.set(storeId, timer);
+  }
+
+  private async recordStats(topic: string, duplicate: boolean): Promise<void> {
+    try {
+      const stats = await this.getWebhookStats();
+      const topicStats = stats.topics[topic] || { processed: 0, duplicates: 0 };
+
+      if (duplicate) {
+        stats.totalDuplicates++;
+        topicStats.duplicates++;
+      } else {
+        stats.totalProcessed++;
+        topicStats.processed++;
+      }
+
+      topicStats.lastReceivedAt = new Date().toISOString();
+      stats.topics[topic] = topicStats;
+
+      await this.redisService.set(this.cacheKeys.webhooks.stats, stats, { ttl: 604800 });
+    } catch (error) {
+      this.logger.warn('Failed to record webhook stats:', error);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { WebhookService } from './webhook.service';
+import { WebhookPayloadMapper } from './webhook-payload.mapper';
+import { RedisModule } from '../redis/redis.module';
+import { AnalyticsModule } from '../analytics/analytics.module';
+import { StorageModule } from '../storage/storage.module';
+import { StoresModule } from '../stores/stores.module';
+import { ShopifyModule } from '../shopify/shopify.module';
+
+@Module({
+  imports: [ConfigModule, RedisModule, AnalyticsModule, StorageModule, StoresModule, ShopifyModule],
+  providers: [WebhookService, WebhookPayloadMapper],
+  exports: [WebhookService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,66 @@
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields, escaped quotes ("")
+ * and CRLF line endings. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim().length > 0)) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Format rows of fields as CSV text with CRLF line endings. Fields containing commas,
+ * quotes or line breaks are quoted; null and undefined become empty fields.
+ */
+export function formatCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          const field = value === null || value === undefined ? '' : String(value);
+          return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+        })
+        .join(','),
+    )
+    .join('\r\n');
+}
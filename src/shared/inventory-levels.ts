@@ -0,0 +1,101 @@
+import { Connection, InventoryLevel, ProductVariant } from '@interfaces/shopify.interface';
+
+/**
+ * Stock of a variant at one location
+ */
+export interface LocationQuantities {
+  locationId: string;
+  locationName: string;
+  available: number;
+  onHand: number;
+  committed: number;
+  incoming: number;
+}
+
+/**
+ * A connection without any inventory levels
+ */
+export function emptyInventoryLevels(): Connection<InventoryLevel> {
+  return { edges: [], pageInfo: { hasNextPage: false, hasPreviousPage: false } };
+}
+
+/**
+ * Read a named quantity of an inventory level, 0 when Shopify did not return it
+ */
+export function getLevelQuantity(level: InventoryLevel, name: string): number {
+  return level.quantities?.find(quantity => quantity.name === name)?.quantity ?? 0;
+}
+
+/**
+ * The per-location stock of a variant, empty when the levels were not fetched
+ */
+export function getLocationQuantities(variant: ProductVariant): LocationQuantities[] {
+  return (variant.inventoryItem?.inventoryLevels?.edges || []).map(({ node: level }) => ({
+    locationId: level.location.id,
+    locationName: level.location.name || level.location.id,
+    available: getLevelQuantity(level, 'available'),
+    onHand: getLevelQuantity(level, 'on_hand'),
+    committed: getLevelQuantity(level, 'committed'),
+    incoming: getLevelQuantity(level, 'incoming'),
+  }));
+}
+
+/**
+ * Set the available quantity of a variant at a location, as reported by an inventory level
+ * webhook. Returns the previous available quantity there: 0 for a location missing from levels
+ * that were fetched, or null when the variant has no levels to compare against.
+ */
+export function setAvailableAtLocation(
+  variant: ProductVariant,
+  locationId: string,
+  available: number,
+  updatedAt?: string,
+): number | null {
+  if (!variant.inventoryItem) return null;
+
+  const levels = (variant.inventoryItem.inventoryLevels =
+    variant.inventoryItem.inventoryLevels || emptyInventoryLevels());
+  const level = levels.edges.find(({ node }) => node.location.id === locationId)?.node;
+
+  if (!level) {
+    const previous = levels.edges.length > 0 ? 0 : null;
+    levels.edges.push({
+      cursor: locationId,
+      node: {
+        id: `${locationId}:${variant.inventoryItem.id}`,
+        // The webhook carries no location name; it is filled in by the next sync
+        location: { id: locationId, name: '' },
+        quantities: [{ name: 'available', quantity: available }],
+        updatedAt,
+      },
+    });
+    return previous;
+  }
+
+  const previous = getLevelQuantity(level, 'available');
+  const quantity = level.quantities.find(entry => entry.name === 'available');
+  if (quantity) {
+    quantity.quantity = available;
+  } else {
+    level.quantities.push({ name: 'available', quantity: available });
+  }
+  // On hand moves with available for adjustments; committed and incoming are not reported
+  const onHand = level.quantities.find(entry => entry.name === 'on_hand');
+  if (onHand) {
+    onHand.quantity += available - previous;
+  }
+  level.updatedAt = updatedAt || level.updatedAt;
+
+  return previous;
+}
+
+/**
+ * Replace a variant's per-location levels with ones fetched from Shopify, and its quantity with
+ * their available total
+ */
+export function replaceInventoryLevels(variant: ProductVariant, levels: Connection<InventoryLevel>): void {
+  if (!variant.inventoryItem) return;
+
+  variant.inventoryItem.inventoryLevels = levels;
+  variant.inventoryQuantity = levels.edges.reduce((sum, { node }) => sum + getLevelQuantity(node, 'available'), 0);
+}
@@ -0,0 +1,113 @@
+import { Money } from './money';
+
+describe('Money', () => {
+  describe('parsing', () => {
+    it('keeps amounts exact to the currency minor unit', () => {
+      expect(Money.of('1234567890123456.78', 'USD').toAmount()).toBe('1234567890123456.78');
+      expect(Money.of('0.1', 'usd').toMoneyV2()).toEqual({ amount: '0.10', currencyCode: 'USD' });
+      expect(Money.of('1,250.5', 'USD').minorUnits).toBe(125050n);
+    });
+
+    it('rounds half away from zero to the minor unit', () => {
+      expect(Money.of('2.345', 'USD').toAmount()).toBe('2.35');
+      expect(Money.of('-2.345', 'USD').toAmount()).toBe('-2.35');
+      expect(Money.of('2.344', 'USD').toAmount()).toBe('2.34');
+    });
+
+    it('uses the minor unit of currencies without two decimals', () => {
+      expect(Money.of('1500.6', 'JPY').toAmount()).toBe('1501');
+      expect(Money.of('1.2345', 'KWD').toAmount()).toBe('1.235');
+    });
+
+    it('reads empty amounts as zero and rejects invalid ones', () => {
+      expect(Money.of(null, 'USD').isZero()).toBe(true);
+      expect(Money.fromMoneyV2(undefined, 'EUR').toString()).toBe('0.00 EUR');
+      expect(() => Money.of('12abc', 'USD')).toThrow('Invalid decimal amount');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('adds without floating-point drift', () => {
+      const total = Money.sum(
+        Array.from({ length: 1000 }, () => Money.of('0.10', 'USD')),
+        'USD',
+      );
+
+      expect(total.toAmount()).toBe('100.00');
+      expect(Money.of('0.1', 'USD').add(Money.of('0.2', 'USD')).toAmount()).toBe('0.30');
+    });
+
+    it('sums beyond the safe integer range', () => {
+      const amount = Money.of('90071992547409.93', 'USD');
+
+      expect(amount.add(amount).toAmount()).toBe('180143985094819.86');
+    });
+
+    it('multiplies and divides with rounding to the minor unit', () => {
+      expect(Money.of('19.99', 'USD').multiply(3).toAmount()).toBe('59.97');
+      expect(Money.of('10.00', 'USD').multiply('0.175').toAmount()).toBe('1.75');
+      expect(Money.of('10.00', 'USD').divide(3).toAmount()).toBe('3.33');
+      expect(Money.of('20.00', 'USD').divide(3).toAmount()).toBe('6.67');
+      expect(Money.of('10.00', 'USD').divide(0).isZero()).toBe(true);
+    });
+
+    it('converts between currencies with different minor units', () => {
+      expect(Money.of('10.00', 'USD').convert('151.234', 'JPY').toAmount()).toBe('1512');
+      expect(Money.of('1500', 'JPY').convert('0.0066', 'USD').toAmount()).toBe('9.90');
+    });
+
+    it('refuses to combine amounts in different currencies', () => {
+      expect(() => Money.of('1', 'USD').add(Money.of('1', 'EUR'))).toThrow('Cannot combine USD and EUR amounts');
+      expect(() => Money.of('1', 'USD').compare(Money.of('1', 'EUR'))).toThrow();
+    });
+
+    it('compares and signs amounts', () => {
+      const small = Money.of('1.00', 'USD');
+      const large = Money.of('2.00', 'USD');
+
+      expect(large.greaterThan(small)).toBe(true);
+      expect(small.lessThan(large)).toBe(true);
+      expect(small.subtract(large).isNegative()).toBe(true);
+      expect(small.ratio(large)).toBe(0.5);
+      expect(small.ratio(Money.zero('USD'))).toBe(0);
+    });
+
+    it('serializes as an exact amount string with currency', () => {
+      expect(JSON.stringify({ total: Money.of('-0.05', 'USD') })).toBe(
+        '{"total":{"amount":"-0.05","currencyCode":"USD"}}',
+      );
+    });
+  });
+
+  describe('allocate', () => {
+    const amounts = (parts: Money[]) => parts.map(part => part.toAmount());
+
+    it('splits evenly with the leftover cents on the first parts', () => {
+      expect(amounts(Money.of('10.00', 'USD').allocate([1, 1, 1]))).toEqual(['3.34', '3.33', '3.33']);
+      expect(amounts(Money.of('0.05', 'USD').allocate([1, 1, 1, 1]))).toEqual(['0.02', '0.01', '0.01', '0.01']);
+    });
+
+    it('splits by shares and adds up to exactly the amount', () => {
+      const total = Money.of('100.00', 'USD');
+      const parts = total.allocate([1 / 3, 1 / 3, 1 / 3]);
+
+      expect(amounts(parts)).toEqual(['33.34', '33.33', '33.33']);
+      expect(Money.sum(parts, 'USD').toAmount()).toBe('100.00');
+    });
+
+    it('gives leftover units to the parts with the largest remainders', () => {
+      expect(amounts(Money.of('1.00', 'USD').allocate([0.3, 0.7]))).toEqual(['0.30', '0.70']);
+      expect(amounts(Money.of('0.10', 'USD').allocate([0.25, 0.75]))).toEqual(['0.03', '0.07']);
+      expect(amounts(Money.of('100', 'JPY').allocate([1, 2, 3]))).toEqual(['17', '33', '50']);
+    });
+
+    it('allocates negative amounts like their positive counterpart', () => {
+      expect(amounts(Money.of('-10.00', 'USD').allocate([1, 1, 1]))).toEqual(['-3.34', '-3.33', '-3.33']);
+    });
+
+    it('gives zero parts when every weight is zero and rejects negative weights', () => {
+      expect(amounts(Money.of('5.00', 'USD').allocate([0, 0]))).toEqual(['0.00', '0.00']);
+      expect(() => Money.of('5.00', 'USD').allocate([1, -1])).toThrow('negative weights');
+    });
+  });
+});
@@ -0,0 +1,305 @@
+import { MoneyBag, MoneyV2 } from '@interfaces/shopify.interface';
+
+// ISO 4217 currencies without two decimal places
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Exact decimal as an integer coefficient and a power-of-ten scale (value = coefficient / 10^scale)
+ */
+function parseDecimal(value: string | number): { coefficient: bigint; scale: number } {
+  const text = String(value).trim().replace(/,/g, '');
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal amount "${value}"`);
+  }
+
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  let digits = BigInt(`${whole || '0'}${fraction}`);
+  let scale = fraction.length - parseInt(exponent, 10);
+  if (scale < 0) {
+    digits *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+
+  return { coefficient: sign === '-' ? -digits : digits, scale };
+}
+
+/**
+ * Divide rounding half away from zero
+ */
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  if (denominator < 0n) {
+    return divideRounded(-numerator, -denominator);
+  }
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  if (twiceRemainder >= denominator) {
+    return numerator < 0n ? quotient - 1n : quotient + 1n;
+  }
+  return quotient;
+}
+
+/**
+ * An amount of money held as integer minor units (cents) of its currency, so sums
+ * never drift. Multiplication and division round half away from zero to the
+ * currency's minor unit. Serialises to JSON as { amount: "12.34", currencyCode }.
+ */
+export class Money {
+  private constructor(
+    private readonly minor: bigint,
+    readonly currency: string,
+  ) {}
+
+  /**
+   * Number of decimal places of a currency's minor unit
+   */
+  static exponent(currency: string): number {
+    return CURRENCY_EXPONENTS[currency] ?? 2;
+  }
+
+  static zero(currency: string): Money {
+    return new Money(0n, Money.normalize(currency));
+  }
+
+  /**
+   * Parse a decimal amount, rounding to the currency's minor unit. Empty values are zero.
+   */
+  static of(amount: string | number | null | undefined, currency: string): Money {
+    const code = Money.normalize(currency);
+    if (amount === null || amount === undefined || amount === '') {
+      return Money.zero(code);
+    }
+
+    const { coefficient, scale } = parseDecimal(amount);
+    const exponent = Money.exponent(code);
+    const minor =
+      scale <= exponent
+        ? coefficient * 10n ** BigInt(exponent - scale)
+        : divideRounded(coefficient, 10n ** BigInt(scale - exponent));
+
+    return new Money(minor, code);
+  }
+
+  static fromMinorUnits(minor: bigint | number, currency: string): Money {
+    return new Money(BigInt(minor), Money.normalize(currency));
+  }
+
+  /**
+   * Read a Shopify MoneyV2, using the fallback currency when it has none
+   */
+  static fromMoneyV2(money: MoneyV2 | null | undefined, fallbackCurrency: string): Money {
+    return Money.of(money?.amount, money?.currencyCode || fallbackCurrency);
+  }
+
+  /**
+   * Read the shop-currency amount of a Shopify MoneyBag
+   */
+  static fromShopMoney(moneyBag: MoneyBag | null | undefined, fallbackCurrency: string): Money {
+    return Money.fromMoneyV2(moneyBag?.shopMoney, fallbackCurrency);
+  }
+
+  /**
+   * Sum amounts in one currency
+   */
+  static sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.zero(currency));
+  }
+
+  /**
+   * Sum the amounts picked from a list of items
+   */
+  static sumBy<T>(items: T[], pick: (item: T) => Money, currency: string): Money {
+    return items.reduce((total, item) => total.add(pick(item)), Money.zero(currency));
+  }
+
+  get minorUnits(): bigint {
+    return this.minor;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor + other.minor, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor - other.minor, this.currency);
+  }
+
+  /**
+   * Multiply by a quantity, share or rate
+   */
+  multiply(factor: number | string): Money {
+    const { coefficient, scale } = parseDecimal(factor);
+    return new Money(divideRounded(this.minor * coefficient, 10n ** BigInt(scale)), this.currency);
+  }
+
+  /**
+   * Divide by a count or factor; division by zero gives zero
+   */
+  divide(divisor: number | string): Money {
+    const { coefficient, scale } = parseDecimal(divisor);
+    if (coefficient === 0n) {
+      return Money.zero(this.currency);
+    }
+    return new Money(divideRounded(this.minor * 10n ** BigInt(scale), coefficient), this.currency);
+  }
+
+  /**
+   * Split into parts proportional to weights (counts, shares or amounts) that add up to
+   * exactly this amount; leftover minor units go to the parts with the largest remainders
+   */
+  allocate(weights: Array<number | string>): Money[] {
+    if (this.minor < 0n) {
+      return this.negate()
+        .allocate(weights)
+        .map(part => part.negate());
+    }
+
+    const parsed = weights.map(weight => parseDecimal(weight));
+    const scale = Math.max(0, ...parsed.map(weight => weight.scale));
+    const ratios = parsed.map(({ coefficient, scale: weightScale }) => {
+      const ratio = coefficient * 10n ** BigInt(scale - weightScale);
+      if (ratio < 0n) {
+        throw new Error('Cannot allocate by negative weights');
+      }
+      return ratio;
+    });
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0n);
+    if (total === 0n) {
+      return ratios.map(() => Money.zero(this.currency));
+    }
+
+    const parts = ratios.map(ratio => (this.minor * ratio) / total);
+    const remainders = ratios.map(ratio => (this.minor * ratio) % total);
+    let leftover = this.minor - parts.reduce((sum, part) => sum + part, 0n);
+
+    const byRemainder = remainders
+      .map((remainder, index) => ({ remainder, index }))
+      .sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1));
+    for (const { index } of byRemainder) {
+      if (leftover === 0n) break;
+      parts[index] += 1n;
+      leftover -= 1n;
+    }
+
+    return parts.map(part => new Money(part, this.currency));
+  }
+
+  /**
+   * Convert to another currency at a rate (units of the target per unit of this currency)
+   */
+  convert(rate: number | string, currency: string): Money {
+    const code = Money.normalize(currency);
+    const { coefficient, scale } = parseDecimal(rate);
+    const shift = Money.exponent(code) - Money.exponent(this.currency) - scale;
+    const minor =
+      shift >= 0
+        ? this.minor * coefficient * 10n ** BigInt(shift)
+        : divideRounded(this.minor * coefficient, 10n ** BigInt(-shift));
+
+    return new Money(minor, code);
+  }
+
+  /**
+   * This amount as a fraction of another, e.g. for percentages; zero when the other is zero
+   */
+  ratio(other: Money): number {
+    this.assertSameCurrency(other);
+    return other.minor === 0n ? 0 : Number(this.minor) / Number(other.minor);
+  }
+
+  negate(): Money {
+    return new Money(-this.minor, this.currency);
+  }
+
+  isZero(): boolean {
+    return this.minor === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0n;
+  }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.minor === other.minor ? 0 : this.minor > other.minor ? 1 : -1;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /**
+   * Exact decimal string, e.g. "1234.50"
+   */
+  toAmount(): string {
+    const exponent = Money.exponent(this.currency);
+    const digits = (this.minor < 0n ? -this.minor : this.minor).toString().padStart(exponent + 1, '0');
+    const whole = digits.slice(0, digits.length - exponent);
+    const fraction = exponent > 0 ? `.${digits.slice(digits.length - exponent)}` : '';
+
+    return `${this.minor < 0n ? '-' : ''}${whole}${fraction}`;
+  }
+
+  /**
+   * Approximate value for charts, sorting and ratios; never sum these
+   */
+  toNumber(): number {
+    return Number(this.toAmount());
+  }
+
+  toMoneyV2(): MoneyV2 {
+    return { amount: this.toAmount(), currencyCode: this.currency };
+  }
+
+  toJSON(): MoneyV2 {
+    return this.toMoneyV2();
+  }
+
+  toString(): string {
+    return `${this.toAmount()} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Cannot combine ${this.currency} and ${other.currency} amounts`);
+    }
+  }
+
+  private static normalize(currency: string): string {
+    return (currency || '').trim().toUpperCase();
+  }
+}
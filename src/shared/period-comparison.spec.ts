@@ -0,0 +1,92 @@
+import * as moment from 'moment';
+import { Money } from './money';
+import { compareMetric, compareMetrics, resolveComparisonPeriod } from './period-comparison';
+
+describe('period comparison', () => {
+  describe('resolveComparisonPeriod', () => {
+    const weekday = (date: string) => moment.utc(date, 'YYYY-MM-DD').format('dddd');
+
+    it('compares the previous year 364 days earlier, on the same weekdays', () => {
+      const current = { startDate: '2026-03-02', endDate: '2026-03-08' };
+
+      const previous = resolveComparisonPeriod('previous_year', current);
+
+      expect(previous).toEqual({ startDate: '2025-03-03', endDate: '2025-03-09' });
+      expect(weekday(previous.startDate)).toBe(weekday(current.startDate));
+      expect(weekday(previous.endDate)).toBe(weekday(current.endDate));
+    });
+
+    it('keeps weekdays aligned across a leap day', () => {
+      const previous = resolveComparisonPeriod('previous_year', { startDate: '2028-03-01', endDate: '2028-03-31' });
+
+      expect(previous).toEqual({ startDate: '2027-03-03', endDate: '2027-04-02' });
+      expect(weekday(previous.startDate)).toBe(weekday('2028-03-01'));
+      expect(moment.utc(previous.endDate).diff(moment.utc(previous.startDate), 'days')).toBe(30);
+    });
+
+    it('compares the previous period of the same length, ending the day before', () => {
+      expect(resolveComparisonPeriod('previous_period', { startDate: '2026-03-01', endDate: '2026-03-10' })).toEqual({
+        startDate: '2026-02-19',
+        endDate: '2026-02-28',
+      });
+      expect(resolveComparisonPeriod('previous_period', { startDate: '2026-03-01', endDate: '2026-03-01' })).toEqual({
+        startDate: '2026-02-28',
+        endDate: '2026-02-28',
+      });
+    });
+
+    it('uses the given dates for a custom comparison', () => {
+      expect(
+        resolveComparisonPeriod(
+          'custom',
+          { startDate: '2026-03-01', endDate: '2026-03-10' },
+          { startDate: '2025-12-01', endDate: '2025-12-31' },
+        ),
+      ).toEqual({ startDate: '2025-12-01', endDate: '2025-12-31' });
+    });
+  });
+
+  describe('compareMetric', () => {
+    it('compares numbers with absolute and percent change', () => {
+      expect(compareMetric(150, 120)).toEqual({ current: 150, comparison: 120, absolute: 30, percent: 25 });
+      expect(compareMetric(5, 0)).toEqual({ current: 5, comparison: 0, absolute: 5, percent: null });
+    });
+
+    it('compares amounts in the same currency, serialized or not', () => {
+      const result = compareMetric(Money.of('90.00', 'USD'), { amount: '120.00', currencyCode: 'USD' });
+
+      expect(result.absolute).toEqual(Money.of('-30.00', 'USD'));
+      expect(result.percent).toBe(-25);
+      expect(compareMetric(Money.of('1', 'USD'), Money.of('1', 'EUR'))).toBeNull();
+    });
+  });
+
+  describe('compareMetrics', () => {
+    it('walks both responses, matching list entries by their identifying field', () => {
+      const current = {
+        dateRange: { start: '2026-03-01' },
+        orders: 10,
+        products: [
+          { productId: 'a', units: 4 },
+          { productId: 'b', units: 6 },
+        ],
+        label: 'March',
+      };
+      const comparison = {
+        dateRange: { start: '2025-03-02' },
+        orders: 8,
+        products: [{ productId: 'b', units: 3 }],
+        label: 'February',
+      };
+
+      expect(compareMetrics(current, comparison)).toEqual({
+        orders: { current: 10, comparison: 8, absolute: 2, percent: 25 },
+        products: [null, { productId: 'b', units: { current: 6, comparison: 3, absolute: 3, percent: 100 } }],
+      });
+    });
+
+    it('returns undefined when nothing can be compared', () => {
+      expect(compareMetrics({ label: 'a' }, { label: 'b' })).toBeUndefined();
+    });
+  });
+});
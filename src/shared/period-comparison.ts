@@ -0,0 +1,143 @@
+import * as moment from 'moment';
+import { Money } from './money';
+import { ComparisonPeriod, ComparisonType, MetricComparison } from '@interfaces/comparison.interface';
+
+// A year back in whole weeks, so every day is compared with the same weekday
+const ALIGNED_YEAR_DAYS = 364;
+
+// Fields identifying array entries, so entries are matched by what they describe rather than position.
+// Dates and months are left out: they differ between the periods and are matched by position.
+const IDENTITY_FIELDS = [
+  'key',
+  'id',
+  'productId',
+  'variantId',
+  'sku',
+  'customerId',
+  'repId',
+  'locationId',
+  'market',
+  'country',
+  'currency',
+  'currencyCode',
+];
+
+// Response fields describing the request rather than measuring the period
+const SKIPPED_FIELDS = new Set(['meta', 'dateRange', 'period']);
+
+/**
+ * The period a date range is compared with. The previous period is as long and ends the day
+ * before; the previous year is 52 weeks earlier, so weekdays line up.
+ */
+export function resolveComparisonPeriod(
+  type: ComparisonType,
+  current: ComparisonPeriod,
+  custom?: Partial<ComparisonPeriod>,
+): ComparisonPeriod {
+  const start = moment.utc(current.startDate, 'YYYY-MM-DD', true);
+  const end = moment.utc(current.endDate, 'YYYY-MM-DD', true);
+
+  switch (type) {
+    case 'previous_period': {
+      const days = end.diff(start, 'days') + 1;
+      return {
+        startDate: start.clone().subtract(days, 'days').format('YYYY-MM-DD'),
+        endDate: start.clone().subtract(1, 'day').format('YYYY-MM-DD'),
+      };
+    }
+    case 'previous_year':
+      return {
+        startDate: start.clone().subtract(ALIGNED_YEAR_DAYS, 'days').format('YYYY-MM-DD'),
+        endDate: end.clone().subtract(ALIGNED_YEAR_DAYS, 'days').format('YYYY-MM-DD'),
+      };
+    default:
+      return { startDate: custom?.startDate, endDate: custom?.endDate };
+  }
+}
+
+/**
+ * Compare one metric value with another: amounts (Money or serialized { amount, currencyCode })
+ * and plain numbers. Returns null for anything else or amounts in different currencies.
+ */
+export function compareMetric(current: any, comparison: any): MetricComparison | null {
+  if (typeof current === 'number' && typeof comparison === 'number') {
+    if (!Number.isFinite(current) || !Number.isFinite(comparison)) return null;
+    return {
+      current,
+      comparison,
+      absolute: Math.round((current - comparison) * 100) / 100,
+      percent: comparison === 0 ? null : Math.round(((current - comparison) / Math.abs(comparison)) * 10000) / 100,
+    };
+  }
+
+  const currentAmount = toMoney(current);
+  const comparisonAmount = toMoney(comparison);
+  if (!currentAmount || !comparisonAmount || currentAmount.currency !== comparisonAmount.currency) {
+    return null;
+  }
+
+  const absolute = currentAmount.subtract(comparisonAmount);
+  return {
+    current: currentAmount,
+    comparison: comparisonAmount,
+    absolute,
+    percent: comparisonAmount.isZero() ? null : Math.round(absolute.ratio(comparisonAmount) * 10000) / 100,
+  };
+}
+
+/**
+ * Walk two responses of the same shape and compare every metric found in both. Objects keep
+ * their structure; array entries are matched by an identifying field, else by position.
+ * Returns undefined when nothing could be compared.
+ */
+export function compareMetrics(current: any, comparison: any): any {
+  const metric = compareMetric(current, comparison);
+  if (metric) return metric;
+
+  if (Array.isArray(current) && Array.isArray(comparison)) {
+    return compareArrays(current, comparison);
+  }
+
+  if (isPlainObject(current) && isPlainObject(comparison)) {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(current)) {
+      if (SKIPPED_FIELDS.has(key)) continue;
+
+      const compared = compareMetrics(value, comparison[key]);
+      if (compared !== undefined) result[key] = compared;
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  return undefined;
+}
+
+function compareArrays(current: any[], comparison: any[]): any[] | undefined {
+  const field = IDENTITY_FIELDS.find(candidate =>
+    current.some(entry => isPlainObject(entry) && typeof entry[candidate] === 'string'),
+  );
+
+  const results = current.map((entry, index) => {
+    if (!field || !isPlainObject(entry)) {
+      return compareMetrics(entry, comparison[index]);
+    }
+
+    const match = comparison.find(candidate => isPlainObject(candidate) && candidate[field] === entry[field]);
+    const compared = match ? compareMetrics(entry, match) : undefined;
+    return compared === undefined ? undefined : { [field]: entry[field], ...compared };
+  });
+
+  return results.some(result => result !== undefined) ? results.map(result => result ?? null) : undefined;
+}
+
+function toMoney(value: any): Money | null {
+  if (value instanceof Money) return value;
+  if (isPlainObject(value) && typeof value.amount === 'string' && typeof value.currencyCode === 'string') {
+    return Money.of(value.amount, value.currencyCode);
+  }
+  return null;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Money);
+}
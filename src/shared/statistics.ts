@@ -0,0 +1,69 @@
+// Coefficients of Acklam's rational approximation of the inverse normal distribution
+const A = [
+  -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239,
+];
+const B = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+const C = [
+  -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968,
+  2.938163982698783,
+];
+const D = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+const LOW_TAIL = 0.02425;
+
+/**
+ * Quantile of the standard normal distribution, e.g. 1.645 for 0.95. Accurate to about
+ * 1e-9 over (0, 1); used to turn a service level into a safety factor.
+ */
+export function normalQuantile(probability: number): number {
+  if (probability <= 0 || probability >= 1) {
+    throw new RangeError(`Probability must be between 0 and 1, got ${probability}`);
+  }
+
+  if (probability < LOW_TAIL) {
+    const q = Math.sqrt(-2 * Math.log(probability));
+    return (
+      (((((C[0] * q + C[1]) * q + C[2]) * q + C[3]) * q + C[4]) * q + C[5]) /
+      ((((D[0] * q + D[1]) * q + D[2]) * q + D[3]) * q + 1)
+    );
+  }
+
+  if (probability > 1 - LOW_TAIL) {
+    return -normalQuantile(1 - probability);
+  }
+
+  const q = probability - 0.5;
+  const r = q * q;
+  return (
+    ((((((A[0] * r + A[1]) * r + A[2]) * r + A[3]) * r + A[4]) * r + A[5]) * q) /
+    (((((B[0] * r + B[1]) * r + B[2]) * r + B[3]) * r + B[4]) * r + 1)
+  );
+}
+
+/**
+ * Arithmetic mean; 0 for no values
+ */
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Median; 0 for no values
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Population standard deviation; 0 for fewer than two values
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
@@ -0,0 +1,48 @@
+import * as moment from 'moment-timezone';
+
+/**
+ * Whether a name is an IANA time zone, e.g. "America/New_York"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  return !!timeZone && moment.tz.zone(timeZone) !== null;
+}
+
+/**
+ * A moment in a time zone: now, or the given instant. Calendar operations on it
+ * (startOf('day'), add(1, 'day'), hour(), format()) follow the zone's wall clock,
+ * including DST changes.
+ */
+export function zonedMoment(timeZone: string, input?: moment.MomentInput): moment.Moment {
+  return input === undefined ? moment.tz(timeZone) : moment.tz(input, timeZone);
+}
+
+/**
+ * The calendar date of an instant in a time zone, in YYYY-MM-DD format
+ */
+export function toZonedDateKey(date: Date | string, timeZone: string): string {
+  return moment.tz(date, timeZone).format('YYYY-MM-DD');
+}
+
+/**
+ * The first and last instants of the calendar dates from startDate to endDate (both
+ * inclusive, YYYY-MM-DD) in a time zone. Days starting in a DST gap begin at the first
+ * wall-clock time that exists.
+ */
+export function zonedDayRange(startDate: string, endDate: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: moment.tz(startDate, 'YYYY-MM-DD', true, timeZone).startOf('day').toDate(),
+    end: moment.tz(endDate, 'YYYY-MM-DD', true, timeZone).endOf('day').toDate(),
+  };
+}
+
+/**
+ * Every calendar date from startDate to endDate, both inclusive, in YYYY-MM-DD format
+ */
+export function enumerateDateKeys(startDate: string, endDate: string): string[] {
+  const keys: string[] = [];
+  const end = moment.utc(endDate, 'YYYY-MM-DD', true);
+  for (const day = moment.utc(startDate, 'YYYY-MM-DD', true); !day.isAfter(end); day.add(1, 'day')) {
+    keys.push(day.format('YYYY-MM-DD'));
+  }
+  return keys;
+}